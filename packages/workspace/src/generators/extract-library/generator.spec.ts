@@ -0,0 +1,151 @@
+import { createTreeWithEmptyWorkspace } from '@nx/devkit/testing';
+import {
+  Tree,
+  addProjectConfiguration,
+  updateJson,
+  readJson,
+  createProjectGraphAsync,
+  formatFiles,
+} from '@nx/devkit';
+
+import { extractLibraryGenerator } from './generator';
+import { clearCompilerPathsCache } from '../move-file/project-analysis/read-compiler-paths';
+import { treeReadCache } from '../move-file/tree-cache';
+import { clearIndexExportsCache } from '../move-file/export-management/index-exports-cache';
+import { astCache } from '../move-file/ast-cache';
+
+jest.mock('@nx/devkit', () => {
+  const actual = jest.requireActual('@nx/devkit');
+  return {
+    ...actual,
+    formatFiles: jest.fn(),
+    createProjectGraphAsync: jest.fn(),
+  };
+});
+
+const createProjectGraphAsyncMock = jest.mocked(createProjectGraphAsync);
+const formatFilesMock = jest.mocked(formatFiles);
+
+// Loading the @nx/js library generator takes a few seconds
+jest.setTimeout(30_000);
+
+describe('extract-library generator', () => {
+  let tree: Tree;
+
+  beforeEach(() => {
+    clearCompilerPathsCache();
+    treeReadCache.clear();
+    clearIndexExportsCache();
+    astCache.clear();
+
+    const projectGraph = { nodes: {}, dependencies: {} };
+    createProjectGraphAsyncMock.mockResolvedValue(projectGraph);
+    // Modules are reset between tests, so @nx/js loads a fresh @nx/devkit mock
+    jest
+      .requireMock('@nx/devkit')
+      .createProjectGraphAsync.mockResolvedValue(projectGraph);
+    formatFilesMock.mockResolvedValue(undefined);
+
+    tree = createTreeWithEmptyWorkspace();
+
+    updateJson(tree, 'tsconfig.base.json', (json) => {
+      json.compilerOptions = json.compilerOptions || {};
+      json.compilerOptions.paths = {
+        '@test/lib1': ['packages/lib1/src/index.ts'],
+      };
+      return json;
+    });
+
+    addProjectConfiguration(tree, 'lib1', {
+      root: 'packages/lib1',
+      sourceRoot: 'packages/lib1/src',
+      projectType: 'library',
+    });
+    addProjectConfiguration(tree, 'app1', {
+      root: 'packages/app1',
+      sourceRoot: 'packages/app1/src',
+      projectType: 'application',
+    });
+
+    tree.write(
+      'packages/lib1/src/lib/auth/session.ts',
+      'export interface Session { token: string; }\n',
+    );
+    tree.write(
+      'packages/lib1/src/lib/auth/login.ts',
+      "import { Session } from './session';\n\nexport function login(): Session { return { token: 'a' }; }\n",
+    );
+    tree.write(
+      'packages/lib1/src/lib/auth/guards/auth-guard.ts',
+      "import { login } from '../login';\n\nexport const authGuard = () => !!login();\n",
+    );
+    tree.write(
+      'packages/lib1/src/lib/format.ts',
+      'export const format = (value: string) => value;\n',
+    );
+    tree.write(
+      'packages/lib1/src/index.ts',
+      "export * from './lib/auth/login';\nexport * from './lib/format';\n",
+    );
+    tree.write(
+      'packages/app1/src/main.ts',
+      "import { login, format } from '@test/lib1';\n\nformat(login().token);\n",
+    );
+  });
+
+  afterEach(() => {
+    clearCompilerPathsCache();
+    treeReadCache.clear();
+  });
+
+  it('should create the library and keep the structure of the extracted files', async () => {
+    await extractLibraryGenerator(tree, {
+      file: 'packages/lib1/src/lib/auth/**/*.ts',
+      name: 'auth',
+      directory: 'libs/shared/auth',
+      importPath: '@test/auth',
+      tags: 'scope:shared',
+    });
+
+    expect(readJson(tree, 'libs/shared/auth/project.json').tags).toEqual([
+      'scope:shared',
+    ]);
+    expect(tree.exists('packages/lib1/src/lib/auth')).toBe(false);
+    expect(
+      tree.read('libs/shared/auth/src/lib/auth/login.ts', 'utf-8'),
+    ).toContain("from './session'");
+    expect(
+      tree.read('libs/shared/auth/src/lib/auth/guards/auth-guard.ts', 'utf-8'),
+    ).toContain("from '../login'");
+    expect(formatFilesMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should export what the source entrypoint exported and rewrite dependents', async () => {
+    await extractLibraryGenerator(tree, {
+      file: 'packages/lib1/src/lib/auth/**/*.ts',
+      name: 'auth',
+      importPath: '@test/auth',
+    });
+
+    expect(tree.read('packages/auth/src/index.ts', 'utf-8')).toBe(
+      "export * from './lib/auth/login';\n",
+    );
+    expect(tree.read('packages/lib1/src/index.ts', 'utf-8')).toBe(
+      "export * from './lib/format';\n",
+    );
+    const main = tree.read('packages/app1/src/main.ts', 'utf-8');
+    expect(main).toContain("import { login } from '@test/auth';");
+    expect(main).toContain("import { format } from '@test/lib1';");
+  });
+
+  it('should reject a library name that is already taken', async () => {
+    await expect(
+      extractLibraryGenerator(tree, {
+        file: 'packages/lib1/src/lib/auth/**/*.ts',
+        name: 'app1',
+      }),
+    ).rejects.toThrow(
+      'Project "app1" already exists. Use the move-file generator to move files into an existing project.',
+    );
+  });
+});
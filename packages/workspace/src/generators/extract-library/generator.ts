@@ -0,0 +1,46 @@
+import { Tree, getProjects } from '@nx/devkit';
+import { ExtractLibraryGeneratorSchema } from './schema';
+import { moveFileGenerator } from '../move-file/generator';
+
+/**
+ * Generator to carve files out of existing projects into a new library
+ * and update import paths throughout the workspace.
+ *
+ * The library is created with the `@nx/js` library generator and the files
+ * are moved in a single batch with `deriveProjectDirectory`, so they keep
+ * their structure and the relative imports between them. The new library's
+ * entrypoint exports the files that the source entrypoints exported, plus
+ * files that the source projects still import.
+ *
+ * @param tree - The virtual file system tree
+ * @param options - Generator options including the files and the library name
+ * @returns A promise that resolves when the generator completes
+ */
+export async function extractLibraryGenerator(
+  tree: Tree,
+  options: ExtractLibraryGeneratorSchema,
+) {
+  if (getProjects(tree).has(options.name)) {
+    throw new Error(
+      `Project "${options.name}" already exists. Use the move-file generator to move files into an existing project.`,
+    );
+  }
+
+  await moveFileGenerator(tree, {
+    file: options.file,
+    project: options.name,
+    deriveProjectDirectory: true,
+    createProjectIfMissing: true,
+    newProjectDirectory: options.directory,
+    newProjectImportPath: options.importPath,
+    newProjectTags: options.tags,
+    withCompanions: options.withCompanions,
+    removeEmptyProject: options.removeEmptyProject,
+    allowBoundaryViolations: options.allowBoundaryViolations,
+    allowCircularDependencies: options.allowCircularDependencies,
+    skipFormat: options.skipFormat,
+    allowUnicode: options.allowUnicode,
+  });
+}
+
+export default extractLibraryGenerator;
@@ -0,0 +1,13 @@
+export interface ExtractLibraryGeneratorSchema {
+  file: string;
+  name: string;
+  directory?: string;
+  importPath?: string;
+  tags?: string;
+  withCompanions?: boolean;
+  removeEmptyProject?: boolean;
+  allowBoundaryViolations?: boolean;
+  allowCircularDependencies?: boolean;
+  skipFormat?: boolean;
+  allowUnicode?: boolean;
+}
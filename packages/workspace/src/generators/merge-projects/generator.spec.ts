@@ -0,0 +1,222 @@
+import { createTreeWithEmptyWorkspace } from '@nx/devkit/testing';
+import {
+  Tree,
+  addProjectConfiguration,
+  updateJson,
+  readJson,
+  createProjectGraphAsync,
+  formatFiles,
+  logger,
+} from '@nx/devkit';
+
+import { mergeProjectsGenerator } from './generator';
+import { clearCompilerPathsCache } from '../move-file/project-analysis/read-compiler-paths';
+import { treeReadCache } from '../move-file/tree-cache';
+import { clearIndexExportsCache } from '../move-file/export-management/index-exports-cache';
+import { astCache } from '../move-file/ast-cache';
+
+jest.mock('@nx/devkit', () => {
+  const actual = jest.requireActual('@nx/devkit');
+  return {
+    ...actual,
+    formatFiles: jest.fn(),
+    createProjectGraphAsync: jest.fn(),
+  };
+});
+
+jest.mock('@nx/workspace', () => ({
+  ...jest.requireActual('@nx/workspace'),
+  removeGenerator: jest.fn(),
+}));
+
+const createProjectGraphAsyncMock = jest.mocked(createProjectGraphAsync);
+const formatFilesMock = jest.mocked(formatFiles);
+const { removeGenerator: removeGeneratorMock } =
+  jest.requireMock('@nx/workspace');
+
+describe('merge-projects generator', () => {
+  let tree: Tree;
+
+  beforeEach(() => {
+    clearCompilerPathsCache();
+    treeReadCache.clear();
+    clearIndexExportsCache();
+    astCache.clear();
+
+    createProjectGraphAsyncMock.mockResolvedValue({
+      nodes: {},
+      dependencies: {},
+    });
+    formatFilesMock.mockResolvedValue(undefined);
+    removeGeneratorMock.mockResolvedValue(undefined);
+
+    tree = createTreeWithEmptyWorkspace();
+
+    updateJson(tree, 'tsconfig.base.json', (json) => {
+      json.compilerOptions = json.compilerOptions || {};
+      json.compilerOptions.paths = {
+        '@test/a': ['packages/a/src/index.ts'],
+        '@test/a/*': ['packages/a/src/*'],
+        '@test/b': ['packages/b/src/index.ts'],
+      };
+      return json;
+    });
+
+    addProjectConfiguration(tree, 'a', {
+      root: 'packages/a',
+      sourceRoot: 'packages/a/src',
+      projectType: 'library',
+    });
+    addProjectConfiguration(tree, 'b', {
+      root: 'packages/b',
+      sourceRoot: 'packages/b/src',
+      projectType: 'library',
+    });
+    addProjectConfiguration(tree, 'app1', {
+      root: 'packages/app1',
+      sourceRoot: 'packages/app1/src',
+      projectType: 'application',
+    });
+
+    tree.write(
+      'packages/a/src/lib/auth/session.ts',
+      'export interface Session { token: string; }\n',
+    );
+    tree.write(
+      'packages/a/src/lib/auth/login.ts',
+      "import { Session } from './session';\n\nexport function login(): Session { return { token: 'a' }; }\n",
+    );
+    tree.write(
+      'packages/a/src/index.ts',
+      "export * from './lib/auth/login';\n",
+    );
+    tree.write(
+      'packages/b/src/lib/format.ts',
+      'export const format = (value: string) => value;\n',
+    );
+    tree.write('packages/b/src/index.ts', "export * from './lib/format';\n");
+    tree.write(
+      'packages/app1/src/main.ts',
+      "import { login } from '@test/a';\nimport { Session } from '@test/a/lib/auth/session';\nimport { format } from '@test/b';\n\nconst session: Session = login();\nformat(session.token);\n",
+    );
+  });
+
+  afterEach(() => {
+    clearCompilerPathsCache();
+    treeReadCache.clear();
+  });
+
+  it('should move every file into a subdirectory of the target project', async () => {
+    await mergeProjectsGenerator(tree, { source: 'a', target: 'b' });
+
+    expect(tree.exists('packages/a/src/lib/auth/login.ts')).toBe(false);
+    expect(tree.read('packages/b/src/lib/a/auth/login.ts', 'utf-8')).toContain(
+      "from './session'",
+    );
+    expect(tree.exists('packages/b/src/lib/a/auth/session.ts')).toBe(true);
+    expect(tree.read('packages/b/src/index.ts', 'utf-8')).toBe(
+      "export * from './lib/format';\nexport * from './lib/a/auth/login';\n",
+    );
+    expect(formatFilesMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should rewrite imports of the source project, including deep imports', async () => {
+    await mergeProjectsGenerator(tree, {
+      source: 'a',
+      target: 'b',
+      directory: 'auth-legacy',
+    });
+
+    const main = tree.read('packages/app1/src/main.ts', 'utf-8');
+    expect(main).not.toContain('@test/a');
+    expect(main).toContain("import { login } from '@test/b';");
+    expect(main).toContain(
+      "import { Session } from '@test/b/lib/auth-legacy/auth/session';",
+    );
+    expect(
+      readJson(tree, 'tsconfig.base.json').compilerOptions.paths['@test/b/*'],
+    ).toEqual(['packages/b/src/*']);
+  });
+
+  it('should import the merged files relatively from the target project', async () => {
+    tree.write(
+      'packages/b/src/lib/session-format.ts',
+      "import * as a from '@test/a';\nimport { Session } from '@test/a/lib/auth/session';\n\nexport const run = (): Session => a.login();\n",
+    );
+
+    await mergeProjectsGenerator(tree, { source: 'a', target: 'b' });
+
+    expect(tree.read('packages/b/src/lib/session-format.ts', 'utf-8')).toBe(
+      "import { login } from './a/auth/login';\nimport { Session } from './a/auth/session';\n\nexport const run = (): Session => login();\n",
+    );
+  });
+
+  it('should warn about target project files that still use the source alias', async () => {
+    const warnSpy = jest.spyOn(logger, 'warn').mockImplementation();
+    tree.write(
+      'packages/b/src/lib/registry.ts',
+      "import * as a from '@test/a';\n\nexport const registry = { a };\n",
+    );
+
+    await mergeProjectsGenerator(tree, { source: 'a', target: 'b' });
+
+    expect(tree.read('packages/b/src/lib/registry.ts', 'utf-8')).toContain(
+      "import * as a from '@test/a';",
+    );
+    expect(warnSpy).toHaveBeenCalledWith(
+      "packages/b/src/lib/registry.ts still imports '@test/a', which was merged into its own project. Import the merged files directly instead.",
+    );
+    warnSpy.mockRestore();
+  });
+
+  it('should remove the merged project', async () => {
+    await mergeProjectsGenerator(tree, { source: 'a', target: 'b' });
+
+    expect(removeGeneratorMock).toHaveBeenCalledWith(tree, {
+      projectName: 'a',
+      skipFormat: true,
+      forceRemove: true,
+    });
+  });
+
+  it('should throw when both projects export the same name', async () => {
+    tree.write(
+      'packages/b/src/lib/login.ts',
+      'export function login() { return null; }\n',
+    );
+    tree.write(
+      'packages/b/src/index.ts',
+      "export * from './lib/format';\nexport * from './lib/login';\n",
+    );
+
+    await expect(
+      mergeProjectsGenerator(tree, { source: 'a', target: 'b' }),
+    ).rejects.toThrow(
+      [
+        'Cannot merge project "a" into "b" because both export the same names:',
+        '  - login (packages/a/src/lib/auth/login.ts and packages/b/src/lib/login.ts)',
+      ].join('\n'),
+    );
+    expect(tree.exists('packages/a/src/lib/auth/login.ts')).toBe(true);
+    expect(removeGeneratorMock).not.toHaveBeenCalled();
+  });
+
+  it('should throw when the source entrypoint declares exports itself', async () => {
+    tree.write(
+      'packages/a/src/index.ts',
+      "export * from './lib/auth/login';\nexport const VERSION = '1';\n",
+    );
+
+    await expect(
+      mergeProjectsGenerator(tree, { source: 'a', target: 'b' }),
+    ).rejects.toThrow(
+      'Cannot merge project "a" because its entrypoint "packages/a/src/index.ts" declares exports itself',
+    );
+  });
+
+  it('should throw when merging a project into itself', async () => {
+    await expect(
+      mergeProjectsGenerator(tree, { source: 'a', target: 'a' }),
+    ).rejects.toThrow('Cannot merge a project into itself');
+  });
+});
@@ -0,0 +1,465 @@
+import {
+  Tree,
+  formatFiles,
+  getProjects,
+  logger,
+  normalizePath,
+  updateJson,
+  visitNotIgnoredFiles,
+} from '@nx/devkit';
+import type { ProjectConfiguration } from '@nx/devkit';
+import { removeGenerator } from '@nx/workspace';
+import { posix as path } from 'node:path';
+import { MergeProjectsGeneratorSchema } from './schema';
+import { moveFiles } from '../move-file/generator';
+import { MoveFileGeneratorSchema } from '../move-file/schema';
+import {
+  collectImportSpecifiers,
+  hasImportSpecifier,
+  updateImportSpecifierPattern,
+} from '../move-file/jscodeshift-utils';
+import { getProjectExportNames } from '../move-file/export-management/get-project-export-names';
+import { getIndexExports } from '../move-file/export-management/index-exports-cache';
+import { getFileImportExtensionStyle } from '../move-file/import-updates/get-file-import-extension-style';
+import { removeUnusedImports } from '../move-file/import-updates/remove-unused-imports';
+import { getProjectBaseDirectory } from '../move-file/project-analysis/get-project-base-directory';
+import { getProjectEntryPointPaths } from '../move-file/project-analysis/get-project-entry-point-paths';
+import { getProjectImportPath } from '../move-file/project-analysis/get-project-import-path';
+import { isProjectEmpty } from '../move-file/project-analysis/is-project-empty';
+import {
+  clearCompilerPathsCache,
+  readCompilerPaths,
+} from '../move-file/project-analysis/read-compiler-paths';
+import { toFirstPath } from '../move-file/project-analysis/to-first-path';
+import { getRelativeImportSpecifier } from '../move-file/path-utils/get-relative-import-specifier';
+import { hasSourceFileExtension } from '../move-file/path-utils/has-source-file-extension';
+import { removeSourceFileExtension } from '../move-file/path-utils/remove-source-file-extension';
+import { resolveRelativeImport } from '../move-file/path-utils/resolve-relative-import';
+import { isValidPathInput } from '../move-file/security-utils/is-valid-path-input';
+import { sanitizePath } from '../move-file/security-utils/sanitize-path';
+import { treeReadCache } from '../move-file/tree-cache';
+import { treeExists } from '../move-file/cache/tree-exists';
+
+/**
+ * Gets every source file in the workspace outside of the given project.
+ *
+ * @param tree - The virtual file system tree
+ * @param excludedProject - Project whose files are skipped
+ */
+function getWorkspaceSourceFiles(
+  tree: Tree,
+  excludedProject: ProjectConfiguration,
+): string[] {
+  const files: string[] = [];
+  for (const project of getProjects(tree).values()) {
+    if (project.root === excludedProject.root) {
+      continue;
+    }
+    visitNotIgnoredFiles(tree, project.root, (filePath) => {
+      if (hasSourceFileExtension(filePath)) {
+        files.push(normalizePath(filePath));
+      }
+    });
+  }
+
+  return files;
+}
+
+/**
+ * Resolves the deep imports of a project alias (for example
+ * `@org/a/lib/utils`) in the workspace to the files they point to.
+ *
+ * @param tree - The virtual file system tree
+ * @param project - Project the alias belongs to
+ * @param importPath - The project's import alias
+ * @returns Map from each deep import specifier to the file it resolves to
+ */
+function resolveDeepImports(
+  tree: Tree,
+  project: ProjectConfiguration,
+  importPath: string,
+): Map<string, string> {
+  const wildcardPath = toFirstPath(
+    readCompilerPaths(tree)?.[`${importPath}/*`],
+  );
+  const deepImportRoot = wildcardPath
+    ? path.dirname(normalizePath(wildcardPath))
+    : project.sourceRoot || project.root;
+
+  const deepImports = new Map<string, string>();
+  for (const filePath of getWorkspaceSourceFiles(tree, project)) {
+    for (const specifier of collectImportSpecifiers(tree, filePath)) {
+      if (
+        !specifier.startsWith(`${importPath}/`) ||
+        deepImports.has(specifier)
+      ) {
+        continue;
+      }
+
+      const resolved = resolveRelativeImport(
+        tree,
+        deepImportRoot,
+        specifier.slice(importPath.length + 1),
+        treeExists,
+      );
+      if (resolved) {
+        deepImports.set(specifier, resolved);
+      }
+    }
+  }
+
+  return deepImports;
+}
+
+/**
+ * Gets the import specifier of a file below a project's source root, as
+ * resolved by a `<importPath>/*` path alias.
+ */
+function toDeepImportSpecifier(
+  importPath: string,
+  sourceRoot: string,
+  filePath: string,
+): string {
+  const relativePath = removeSourceFileExtension(
+    path.relative(sourceRoot, filePath),
+  );
+  const subpath =
+    path.basename(relativePath) === 'index'
+      ? path.dirname(relativePath)
+      : relativePath;
+
+  return subpath === '.' ? importPath : `${importPath}/${subpath}`;
+}
+
+/**
+ * Adds a `<importPath>/*` path alias for a project's source root unless the
+ * root tsconfig already has one.
+ */
+function ensureDeepImportPath(
+  tree: Tree,
+  importPath: string,
+  sourceRoot: string,
+): void {
+  if (readCompilerPaths(tree)?.[`${importPath}/*`]) {
+    return;
+  }
+
+  const tsconfigPath = tree.exists('tsconfig.base.json')
+    ? 'tsconfig.base.json'
+    : 'tsconfig.json';
+  updateJson(tree, tsconfigPath, (json) => {
+    json.compilerOptions ??= {};
+    json.compilerOptions.paths ??= {};
+    json.compilerOptions.paths[`${importPath}/*`] = [
+      path.join(sourceRoot, '*'),
+    ];
+    return json;
+  });
+  treeReadCache.invalidateFile(tsconfigPath);
+  clearCompilerPathsCache();
+}
+
+/**
+ * Gets the directory that a file of the merged project moves to, relative to
+ * the target project's base folder. Files keep their location below the
+ * source project's base folder (see getProjectBaseDirectory), or below its
+ * source root.
+ */
+function getMergedProjectDirectory(
+  filePath: string,
+  sourceProject: ProjectConfiguration,
+  baseDirectory: string,
+  directory: string,
+): string {
+  const sourceRoot = sourceProject.sourceRoot || sourceProject.root;
+  const relativePath = path.relative(sourceRoot, filePath);
+  const relativeToBase =
+    baseDirectory && relativePath.startsWith(`${baseDirectory}/`)
+      ? relativePath.slice(baseDirectory.length + 1)
+      : relativePath;
+
+  return path.join(directory, path.dirname(relativeToBase));
+}
+
+/**
+ * Updates the imports of the source alias that the moves left behind in a
+ * file of the target project. Deep imports of the moved files, through either
+ * project's alias, point at them relatively, and imports the file no longer uses (such as namespace imports
+ * whose accesses the moves turned into named imports) are removed. The
+ * target alias would make the file import its own project's entrypoint, so
+ * remaining imports of the source alias are left for a manual update.
+ */
+function updateTargetProjectFile(
+  tree: Tree,
+  filePath: string,
+  targetProject: ProjectConfiguration,
+  sourceImportPath: string,
+  deepImports: Map<string, string>,
+): void {
+  const extensionStyle = getFileImportExtensionStyle(
+    tree,
+    filePath,
+    targetProject.root,
+  );
+  updateImportSpecifierPattern(
+    tree,
+    filePath,
+    (specifier) => deepImports.has(specifier),
+    (specifier) =>
+      getRelativeImportSpecifier(
+        filePath,
+        deepImports.get(specifier) as string,
+        extensionStyle,
+      ),
+  );
+
+  if (
+    removeUnusedImports(tree, filePath, sourceImportPath) ||
+    hasImportSpecifier(tree, filePath, sourceImportPath)
+  ) {
+    logger.warn(
+      `${filePath} still imports '${sourceImportPath}', which was merged into its own project. Import the merged files directly instead.`,
+    );
+  }
+}
+
+/**
+ * Formats exported names that both projects declare.
+ */
+function formatExportCollisions(
+  options: MergeProjectsGeneratorSchema,
+  collisions: [string, string, string][],
+): string {
+  return [
+    `Cannot merge project "${options.source}" into "${options.target}" because both export the same names:`,
+    ...collisions.map(
+      ([name, sourceFile, targetFile]) =>
+        `  - ${name} (${sourceFile} and ${targetFile})`,
+    ),
+    'Rename the exports in one of the projects first.',
+  ].join('\n');
+}
+
+/**
+ * Generator to fold one Nx project into another.
+ *
+ * Every file of the source project moves below a subdirectory of the target
+ * project's base folder, keeping its structure. The source entrypoint's
+ * exports are merged into the target entrypoint, every import of the source
+ * project's alias (including deep imports) is rewritten to the target
+ * project, and the source project is removed.
+ *
+ * @param tree - The virtual file system tree
+ * @param options - Generator options including the source and target projects
+ * @returns A promise that resolves when the generator completes
+ */
+export async function mergeProjectsGenerator(
+  tree: Tree,
+  options: MergeProjectsGeneratorSchema,
+) {
+  const projects = getProjects(tree);
+  const sourceProject = projects.get(options.source);
+  if (!sourceProject) {
+    throw new Error(
+      `Source project "${options.source}" not found in workspace`,
+    );
+  }
+  const targetProject = projects.get(options.target);
+  if (!targetProject) {
+    throw new Error(
+      `Target project "${options.target}" not found in workspace`,
+    );
+  }
+  if (options.source === options.target) {
+    throw new Error('Cannot merge a project into itself');
+  }
+
+  const directory = sanitizePath(options.directory ?? options.source);
+  if (
+    !isValidPathInput(directory, {
+      allowUnicode: !!options.allowUnicode,
+    })
+  ) {
+    throw new Error(
+      `Invalid path input for 'directory': contains disallowed characters: "${directory}"`,
+    );
+  }
+
+  const sourceImportPath = getProjectImportPath(
+    tree,
+    options.source,
+    sourceProject,
+  );
+  const targetImportPath = getProjectImportPath(
+    tree,
+    options.target,
+    targetProject,
+  );
+  if (sourceImportPath && !targetImportPath) {
+    throw new Error(
+      `Target project "${options.target}" has no import path, so imports of "${sourceImportPath}" cannot be rewritten`,
+    );
+  }
+
+  // The source entrypoint only survives as re-exports of the merged files
+  const sourceEntryPointPaths = getProjectEntryPointPaths(
+    tree,
+    sourceProject,
+  ).filter((entryPointPath) => tree.exists(entryPointPath));
+  for (const entryPointPath of sourceEntryPointPaths) {
+    const { exports, defaultExport } = getIndexExports(tree, entryPointPath);
+    if (exports.size > 0 || defaultExport) {
+      throw new Error(
+        `Cannot merge project "${options.source}" because its entrypoint "${entryPointPath}" declares exports itself. Move them into a separate file first.`,
+      );
+    }
+  }
+
+  const targetExportNames = getProjectExportNames(
+    tree,
+    targetProject,
+    treeExists,
+  );
+  const collisions = Array.from(
+    getProjectExportNames(tree, sourceProject, treeExists),
+  )
+    .filter(([name]) => targetExportNames.has(name))
+    .map(([name, sourceFile]): [string, string, string] => [
+      name,
+      sourceFile,
+      targetExportNames.get(name) as string,
+    ]);
+  if (collisions.length > 0) {
+    throw new Error(formatExportCollisions(options, collisions));
+  }
+
+  const sourceRoot = sourceProject.sourceRoot || sourceProject.root;
+  const filePaths: string[] = [];
+  visitNotIgnoredFiles(tree, sourceRoot, (filePath) => {
+    const normalized = normalizePath(filePath);
+    if (!sourceEntryPointPaths.includes(normalized)) {
+      filePaths.push(normalized);
+    }
+  });
+  if (filePaths.length === 0) {
+    throw new Error(`Project "${options.source}" has no files to merge`);
+  }
+  const sourceBaseDirectory = getProjectBaseDirectory(
+    tree,
+    sourceProject,
+    filePaths,
+  );
+
+  // Deep imports resolve through the source project's folder structure, so
+  // they are resolved before the files move
+  const deepImports = sourceImportPath
+    ? resolveDeepImports(tree, sourceProject, sourceImportPath)
+    : new Map<string, string>();
+
+  // The moves point deep imports at the target project through its own
+  // deep import alias
+  const targetSourceRoot = targetProject.sourceRoot || targetProject.root;
+  if (targetImportPath && deepImports.size > 0) {
+    ensureDeepImportPath(tree, targetImportPath, targetSourceRoot);
+  }
+
+  const fileOptionsList = filePaths.map(
+    (filePath): MoveFileGeneratorSchema => ({
+      file: filePath,
+      project: options.target,
+      projectDirectory: getMergedProjectDirectory(
+        filePath,
+        sourceProject,
+        sourceBaseDirectory,
+        directory,
+      ),
+      allowUnicode: options.allowUnicode,
+      allowBoundaryViolations: options.allowBoundaryViolations,
+    }),
+  );
+
+  const contexts = await moveFiles(
+    tree,
+    {
+      allowCircularDependencies: options.allowCircularDependencies,
+      skipFormat: true,
+    },
+    fileOptionsList,
+  );
+
+  // Imports of the source alias that the move strategies left behind, such
+  // as deep imports, now point into the target project
+  if (sourceImportPath && targetImportPath) {
+    const targets = new Map(
+      contexts.map((ctx) => [ctx.normalizedSource, ctx.normalizedTarget]),
+    );
+    const movedDeepImports = new Map<string, string>();
+    for (const [specifier, filePath] of deepImports) {
+      const movedPath = targets.get(filePath);
+      if (movedPath) {
+        movedDeepImports.set(specifier, movedPath);
+      }
+    }
+
+    // Files of the target project may also import the moved files through
+    // the target project's own deep import alias
+    const targetDeepImports = new Map(movedDeepImports);
+    for (const movedPath of movedDeepImports.values()) {
+      targetDeepImports.set(
+        toDeepImportSpecifier(targetImportPath, targetSourceRoot, movedPath),
+        movedPath,
+      );
+    }
+
+    for (const filePath of getWorkspaceSourceFiles(tree, sourceProject)) {
+      if (filePath.startsWith(`${targetProject.root}/`)) {
+        updateTargetProjectFile(
+          tree,
+          filePath,
+          targetProject,
+          sourceImportPath,
+          targetDeepImports,
+        );
+        continue;
+      }
+
+      updateImportSpecifierPattern(
+        tree,
+        filePath,
+        (specifier) =>
+          specifier === sourceImportPath || movedDeepImports.has(specifier),
+        (specifier) => {
+          const movedPath = movedDeepImports.get(specifier);
+          return movedPath
+            ? toDeepImportSpecifier(
+                targetImportPath,
+                targetSourceRoot,
+                movedPath,
+              )
+            : targetImportPath;
+        },
+      );
+    }
+  }
+
+  if (!isProjectEmpty(tree, sourceProject)) {
+    throw new Error(
+      `Project "${options.source}" still contains source files after the merge`,
+    );
+  }
+
+  logger.verbose(`Removing merged project ${options.source}`);
+  // Every import of the project was rewritten, so its former dependents no
+  // longer block the removal
+  await removeGenerator(tree, {
+    projectName: options.source,
+    skipFormat: true,
+    forceRemove: true,
+  });
+
+  if (!options.skipFormat) {
+    await formatFiles(tree);
+  }
+}
+
+export default mergeProjectsGenerator;
@@ -0,0 +1,9 @@
+export interface MergeProjectsGeneratorSchema {
+  source: string;
+  target: string;
+  directory?: string;
+  allowBoundaryViolations?: boolean;
+  allowCircularDependencies?: boolean;
+  skipFormat?: boolean;
+  allowUnicode?: boolean;
+}
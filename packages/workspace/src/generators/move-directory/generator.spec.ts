@@ -0,0 +1,382 @@
+import { createTreeWithEmptyWorkspace } from '@nx/devkit/testing';
+import {
+  Tree,
+  addProjectConfiguration,
+  updateJson,
+  createProjectGraphAsync,
+  formatFiles,
+} from '@nx/devkit';
+
+import { moveDirectoryGenerator } from './generator';
+import { clearCompilerPathsCache } from '../move-file/project-analysis/read-compiler-paths';
+import { treeReadCache } from '../move-file/tree-cache';
+import { clearIndexExportsCache } from '../move-file/export-management/index-exports-cache';
+import { astCache } from '../move-file/ast-cache';
+
+jest.mock('@nx/devkit', () => {
+  const actual = jest.requireActual('@nx/devkit');
+  return {
+    ...actual,
+    formatFiles: jest.fn(),
+    createProjectGraphAsync: jest.fn(),
+  };
+});
+
+jest.mock('@nx/workspace', () => ({
+  ...jest.requireActual('@nx/workspace'),
+  removeGenerator: jest.fn(),
+}));
+
+const createProjectGraphAsyncMock = jest.mocked(createProjectGraphAsync);
+const formatFilesMock = jest.mocked(formatFiles);
+
+describe('move-directory generator', () => {
+  let tree: Tree;
+
+  beforeEach(() => {
+    clearCompilerPathsCache();
+    treeReadCache.clear();
+    clearIndexExportsCache();
+    astCache.clear();
+
+    createProjectGraphAsyncMock.mockImplementation(async () => ({
+      nodes: {},
+      dependencies: {
+        app1: [{ source: 'app1', target: 'lib1', type: 'static' }],
+        lib1: [],
+        lib2: [],
+      },
+    }));
+    formatFilesMock.mockResolvedValue(undefined);
+
+    tree = createTreeWithEmptyWorkspace();
+
+    updateJson(tree, 'tsconfig.base.json', (json) => {
+      json.compilerOptions = json.compilerOptions || {};
+      json.compilerOptions.paths = {
+        '@test/lib1': ['packages/lib1/src/index.ts'],
+        '@test/lib2': ['packages/lib2/src/index.ts'],
+      };
+      return json;
+    });
+
+    addProjectConfiguration(tree, 'lib1', {
+      root: 'packages/lib1',
+      sourceRoot: 'packages/lib1/src',
+      projectType: 'library',
+    });
+    addProjectConfiguration(tree, 'lib2', {
+      root: 'packages/lib2',
+      sourceRoot: 'packages/lib2/src',
+      projectType: 'library',
+    });
+    addProjectConfiguration(tree, 'app1', {
+      root: 'packages/app1',
+      sourceRoot: 'packages/app1/src',
+      projectType: 'application',
+    });
+
+    tree.write('packages/lib1/src/index.ts', '');
+    tree.write('packages/lib2/src/index.ts', '');
+
+    tree.write(
+      'packages/lib1/src/lib/auth/session.ts',
+      'export interface Session { token: string; }\n',
+    );
+    tree.write(
+      'packages/lib1/src/lib/auth/login.ts',
+      "import { Session } from './session';\n\nexport function login(): Session { return { token: 'a' }; }\n",
+    );
+    tree.write(
+      'packages/lib1/src/lib/auth/guards/auth-guard.ts',
+      "import { login } from '../login';\n\nexport const authGuard = () => !!login();\n",
+    );
+  });
+
+  afterEach(() => {
+    clearCompilerPathsCache();
+    treeReadCache.clear();
+  });
+
+  it('should move all files of the directory into the target project', async () => {
+    await moveDirectoryGenerator(tree, {
+      directory: 'packages/lib1/src/lib/auth',
+      project: 'lib2',
+    });
+
+    expect(tree.exists('packages/lib1/src/lib/auth')).toBe(false);
+    expect(tree.exists('packages/lib2/src/lib/auth/session.ts')).toBe(true);
+    expect(tree.exists('packages/lib2/src/lib/auth/login.ts')).toBe(true);
+    expect(tree.exists('packages/lib2/src/lib/auth/guards/auth-guard.ts')).toBe(
+      true,
+    );
+    expect(formatFilesMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep relative imports between files inside the directory', async () => {
+    await moveDirectoryGenerator(tree, {
+      directory: 'packages/lib1/src/lib/auth',
+      project: 'lib2',
+    });
+
+    expect(tree.read('packages/lib2/src/lib/auth/login.ts', 'utf-8')).toContain(
+      "from './session'",
+    );
+    expect(
+      tree.read('packages/lib2/src/lib/auth/guards/auth-guard.ts', 'utf-8'),
+    ).toContain("from '../login'");
+  });
+
+  it('should rewrite imports that cross the directory boundary', async () => {
+    tree.write(
+      'packages/lib1/src/lib/config.ts',
+      "export const apiUrl = '/api';\n",
+    );
+    tree.write(
+      'packages/lib1/src/lib/auth/client.ts',
+      "import { apiUrl } from '../config';\n\nexport const client = apiUrl;\n",
+    );
+    tree.write(
+      'packages/lib1/src/index.ts',
+      "export * from './lib/config';\nexport * from './lib/auth/login';\n",
+    );
+    tree.write(
+      'packages/app1/src/app/app.ts',
+      "import { login } from '@test/lib1';\n\nexport const app = login;\n",
+    );
+
+    await moveDirectoryGenerator(tree, {
+      directory: 'packages/lib1/src/lib/auth',
+      project: 'lib2',
+    });
+
+    expect(
+      tree.read('packages/lib2/src/lib/auth/client.ts', 'utf-8'),
+    ).toContain("from '@test/lib1'");
+    expect(tree.read('packages/app1/src/app/app.ts', 'utf-8')).toContain(
+      "from '@test/lib2'",
+    );
+  });
+
+  it('should replace per-file exports with a directory export', async () => {
+    tree.write(
+      'packages/lib1/src/index.ts',
+      "export * from './lib/auth/login';\nexport * from './lib/auth/session';\n",
+    );
+
+    await moveDirectoryGenerator(tree, {
+      directory: 'packages/lib1/src/lib/auth',
+      project: 'lib2',
+    });
+
+    expect(tree.read('packages/lib2/src/index.ts', 'utf-8')).toBe(
+      "export * from './lib/auth';\n",
+    );
+    const directoryIndex = tree.read(
+      'packages/lib2/src/lib/auth/index.ts',
+      'utf-8',
+    );
+    expect(directoryIndex).toContain("export * from './login';");
+    expect(directoryIndex).toContain("export * from './session';");
+    expect(directoryIndex).not.toContain('auth-guard');
+    expect(tree.read('packages/lib1/src/index.ts', 'utf-8')).not.toContain(
+      'lib/auth',
+    );
+  });
+
+  it('should move an existing directory export to the target project', async () => {
+    tree.write(
+      'packages/lib1/src/lib/auth/index.ts',
+      "export * from './login';\n",
+    );
+    tree.write('packages/lib1/src/index.ts', "export * from './lib/auth';\n");
+    tree.write(
+      'packages/app1/src/app/app.ts',
+      "import { login } from '@test/lib1';\n\nexport const app = login;\n",
+    );
+
+    await moveDirectoryGenerator(tree, {
+      directory: 'packages/lib1/src/lib/auth',
+      project: 'lib2',
+    });
+
+    expect(tree.read('packages/lib1/src/index.ts', 'utf-8')).not.toContain(
+      'lib/auth',
+    );
+    expect(tree.read('packages/lib2/src/index.ts', 'utf-8')).toBe(
+      "export * from './lib/auth';\n",
+    );
+    expect(tree.read('packages/lib2/src/lib/auth/index.ts', 'utf-8')).toBe(
+      "export * from './login';\n",
+    );
+    expect(tree.read('packages/app1/src/app/app.ts', 'utf-8')).toContain(
+      "from '@test/lib2'",
+    );
+  });
+
+  it('should not export the directory when skipExport is true', async () => {
+    tree.write(
+      'packages/lib1/src/index.ts',
+      "export * from './lib/auth/login';\n",
+    );
+
+    await moveDirectoryGenerator(tree, {
+      directory: 'packages/lib1/src/lib/auth',
+      project: 'lib2',
+      skipExport: true,
+    });
+
+    expect(tree.read('packages/lib2/src/index.ts', 'utf-8')).toBe('');
+    expect(tree.exists('packages/lib2/src/lib/auth/index.ts')).toBe(false);
+  });
+
+  it('should move the directory into projectDirectory', async () => {
+    await moveDirectoryGenerator(tree, {
+      directory: 'packages/lib1/src/lib/auth',
+      project: 'lib2',
+      projectDirectory: 'features/security',
+    });
+
+    expect(
+      tree.exists('packages/lib2/src/lib/features/security/login.ts'),
+    ).toBe(true);
+    expect(
+      tree.exists(
+        'packages/lib2/src/lib/features/security/guards/auth-guard.ts',
+      ),
+    ).toBe(true);
+  });
+
+  it('should preserve the source directory structure with deriveProjectDirectory', async () => {
+    tree.write(
+      'packages/lib1/src/lib/features/auth/login.ts',
+      'export const login = () => true;\n',
+    );
+
+    await moveDirectoryGenerator(tree, {
+      directory: 'packages/lib1/src/lib/features',
+      project: 'lib2',
+      deriveProjectDirectory: true,
+    });
+
+    expect(tree.exists('packages/lib2/src/lib/features/auth/login.ts')).toBe(
+      true,
+    );
+  });
+
+  it('should move a directory within the same project', async () => {
+    tree.write(
+      'packages/lib1/src/lib/app.ts',
+      "import { login } from './auth/login';\n\nexport const app = login;\n",
+    );
+
+    await moveDirectoryGenerator(tree, {
+      directory: 'packages/lib1/src/lib/auth',
+      project: 'lib1',
+      projectDirectory: 'security',
+    });
+
+    expect(tree.read('packages/lib1/src/lib/app.ts', 'utf-8')).toContain(
+      "from './security/login'",
+    );
+    expect(
+      tree.read('packages/lib1/src/lib/security/login.ts', 'utf-8'),
+    ).toContain("from './session'");
+  });
+
+  it('should split the directory out into a new library with createProjectIfMissing', async () => {
+    // Modules are reset between tests, so @nx/js loads a fresh @nx/devkit mock
+    jest.requireMock('@nx/devkit').createProjectGraphAsync.mockResolvedValue({
+      nodes: {},
+      dependencies: {},
+    });
+    tree.write(
+      'packages/lib1/src/index.ts',
+      "export * from './lib/auth/login';\n",
+    );
+
+    await moveDirectoryGenerator(tree, {
+      directory: 'packages/lib1/src/lib/auth',
+      project: 'auth',
+      createProjectIfMissing: true,
+      newProjectImportPath: '@test/auth',
+    });
+
+    expect(tree.exists('packages/auth/project.json')).toBe(true);
+    expect(tree.exists('packages/auth/src/lib/auth/login.ts')).toBe(true);
+    expect(tree.read('packages/auth/src/index.ts', 'utf-8')).toContain(
+      "export * from './lib/auth';",
+    );
+  }, 30_000);
+
+  it('should not call formatFiles when skipFormat is true', async () => {
+    await moveDirectoryGenerator(tree, {
+      directory: 'packages/lib1/src/lib/auth',
+      project: 'lib2',
+      skipFormat: true,
+    });
+
+    expect(formatFilesMock).not.toHaveBeenCalled();
+  });
+
+  describe('validation', () => {
+    it('should throw when the directory does not exist', async () => {
+      await expect(
+        moveDirectoryGenerator(tree, {
+          directory: 'packages/lib1/src/lib/missing',
+          project: 'lib2',
+        }),
+      ).rejects.toThrow(
+        'Source directory "packages/lib1/src/lib/missing" not found',
+      );
+    });
+
+    it('should throw when the path is a file', async () => {
+      await expect(
+        moveDirectoryGenerator(tree, {
+          directory: 'packages/lib1/src/lib/auth/login.ts',
+          project: 'lib2',
+        }),
+      ).rejects.toThrow(
+        'Source directory "packages/lib1/src/lib/auth/login.ts" not found',
+      );
+    });
+
+    it('should throw when both deriveProjectDirectory and projectDirectory are set', async () => {
+      await expect(
+        moveDirectoryGenerator(tree, {
+          directory: 'packages/lib1/src/lib/auth',
+          project: 'lib2',
+          projectDirectory: 'auth',
+          deriveProjectDirectory: true,
+        }),
+      ).rejects.toThrow(
+        'Cannot use both "deriveProjectDirectory" and "projectDirectory" options at the same time',
+      );
+    });
+
+    it('should throw for disallowed characters in the directory', async () => {
+      await expect(
+        moveDirectoryGenerator(tree, {
+          directory: 'packages/lib1/src/lib/auth;rm',
+          project: 'lib2',
+        }),
+      ).rejects.toThrow(
+        "Invalid path input for 'directory': contains disallowed characters",
+      );
+    });
+
+    it('should throw when the directory is outside of any project', async () => {
+      tree.write('tools/scripts/run.ts', 'export {};\n');
+
+      await expect(
+        moveDirectoryGenerator(tree, {
+          directory: 'tools/scripts',
+          project: 'lib2',
+        }),
+      ).rejects.toThrow(
+        'Could not determine source project for directory "tools/scripts"',
+      );
+    });
+  });
+});
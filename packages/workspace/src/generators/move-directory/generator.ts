@@ -0,0 +1,169 @@
+import {
+  formatFiles,
+  getProjects,
+  Tree,
+  visitNotIgnoredFiles,
+} from '@nx/devkit';
+import { posix as path } from 'node:path';
+import { MoveDirectoryGeneratorSchema } from './schema';
+import { moveFiles } from '../move-file/generator';
+import { MoveFileGeneratorSchema } from '../move-file/schema';
+import { sanitizePath } from '../move-file/security-utils/sanitize-path';
+import { treeExists } from '../move-file/cache/tree-exists';
+import { isValidPathInput } from '../move-file/security-utils/is-valid-path-input';
+import { findProjectForFile } from '../move-file/project-analysis/find-project-for-file';
+import { expandDirectoryExport } from '../move-file/export-management/expand-directory-export';
+import { ensureDirectoryExported } from '../move-file/export-management/ensure-directory-exported';
+import type { MoveContext } from '../move-file/types/move-context';
+
+/**
+ * Gets the directory that the moved directory ends up in, or null when the
+ * files of the directory were not moved into a single directory.
+ *
+ * @param contexts - Resolved move contexts of all files in the directory
+ * @param sourceDirectory - Normalized source directory
+ * @returns The normalized target directory, or null
+ */
+function getTargetDirectory(
+  contexts: MoveContext[],
+  sourceDirectory: string,
+): string | null {
+  const targetDirectories = new Set(
+    contexts.map((ctx) => {
+      const relativePath = path.relative(sourceDirectory, ctx.normalizedSource);
+      return ctx.normalizedTarget.slice(0, -relativePath.length - 1);
+    }),
+  );
+
+  return targetDirectories.size === 1 ? Array.from(targetDirectories)[0] : null;
+}
+
+/**
+ * Generator to move a directory from one Nx project to another
+ * and update import paths throughout the workspace.
+ *
+ * Relative imports between files inside the directory are kept. Only imports
+ * that cross the directory boundary are rewritten. When the directory's files
+ * are exported from the source project, the target project exports the
+ * directory as a whole.
+ *
+ * @param tree - The virtual file system tree
+ * @param options - Generator options including source directory path and target project
+ * @returns A promise that resolves when the generator completes
+ */
+export async function moveDirectoryGenerator(
+  tree: Tree,
+  options: MoveDirectoryGeneratorSchema,
+) {
+  if (
+    !isValidPathInput(options.directory, {
+      allowUnicode: !!options.allowUnicode,
+    })
+  ) {
+    throw new Error(
+      `Invalid path input for 'directory': contains disallowed characters: "${options.directory}"`,
+    );
+  }
+
+  if (options.deriveProjectDirectory && options.projectDirectory) {
+    throw new Error(
+      'Cannot use both "deriveProjectDirectory" and "projectDirectory" options at the same time',
+    );
+  }
+
+  const normalizedDirectory = sanitizePath(options.directory);
+
+  if (!tree.exists(normalizedDirectory) || tree.isFile(normalizedDirectory)) {
+    throw new Error(`Source directory "${normalizedDirectory}" not found`);
+  }
+
+  const sourceProjectInfo = findProjectForFile(
+    getProjects(tree),
+    normalizedDirectory,
+  );
+  if (!sourceProjectInfo) {
+    throw new Error(
+      `Could not determine source project for directory "${normalizedDirectory}"`,
+    );
+  }
+  const { project: sourceProject } = sourceProjectInfo;
+
+  const filePaths: string[] = [];
+  visitNotIgnoredFiles(tree, normalizedDirectory, (filePath) => {
+    filePaths.push(filePath);
+  });
+
+  if (filePaths.length === 0) {
+    throw new Error(`Source directory "${normalizedDirectory}" has no files`);
+  }
+
+  const targetDirectoryName =
+    options.projectDirectory ?? path.basename(normalizedDirectory);
+  const fileOptionsList = filePaths.map(
+    (filePath): MoveFileGeneratorSchema => ({
+      file: filePath,
+      project: options.project,
+      projectDirectory: options.deriveProjectDirectory
+        ? undefined
+        : path.join(
+            targetDirectoryName,
+            path.dirname(path.relative(normalizedDirectory, filePath)),
+          ),
+      deriveProjectDirectory: options.deriveProjectDirectory,
+      skipExport: options.skipExport,
+      onConflict: options.onConflict,
+      allowUnicode: options.allowUnicode,
+      allowBoundaryViolations: options.allowBoundaryViolations,
+    }),
+  );
+
+  // A folder-level export hides which files are public; list them one by one
+  // so that the move pipeline handles them as exported files
+  const sourceRoot = sourceProject.sourceRoot || sourceProject.root;
+  expandDirectoryExport(
+    tree,
+    sourceProject,
+    path.relative(sourceRoot, normalizedDirectory),
+    treeExists,
+  );
+
+  const contexts = await moveFiles(
+    tree,
+    {
+      removeEmptyProject: options.removeEmptyProject,
+      allowCircularDependencies: options.allowCircularDependencies,
+      createProjectIfMissing: options.createProjectIfMissing,
+      newProjectDirectory: options.newProjectDirectory,
+      newProjectImportPath: options.newProjectImportPath,
+      newProjectTags: options.newProjectTags,
+      skipFormat: true,
+    },
+    fileOptionsList,
+  );
+
+  const exportedContexts = contexts.filter(
+    (ctx) => ctx.isExported && ctx.targetImportPath,
+  );
+  const targetDirectory = getTargetDirectory(contexts, normalizedDirectory);
+
+  if (!options.skipExport && exportedContexts.length > 0 && targetDirectory) {
+    const { targetProject } = exportedContexts[0];
+    const targetRoot = targetProject.sourceRoot || targetProject.root;
+
+    ensureDirectoryExported(
+      tree,
+      targetProject,
+      path.relative(targetRoot, targetDirectory),
+      exportedContexts.map((ctx) =>
+        path.relative(targetRoot, ctx.normalizedTarget),
+      ),
+      treeExists,
+    );
+  }
+
+  if (!options.skipFormat) {
+    await formatFiles(tree);
+  }
+}
+
+export default moveDirectoryGenerator;
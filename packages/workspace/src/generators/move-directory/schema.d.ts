@@ -0,0 +1,17 @@
+export interface MoveDirectoryGeneratorSchema {
+  directory: string;
+  project: string;
+  projectDirectory?: string;
+  createProjectIfMissing?: boolean;
+  newProjectDirectory?: string;
+  newProjectImportPath?: string;
+  newProjectTags?: string;
+  deriveProjectDirectory?: boolean;
+  onConflict?: 'fail' | 'overwrite' | 'rename' | 'merge-exports';
+  skipExport?: boolean;
+  skipFormat?: boolean;
+  allowUnicode?: boolean;
+  removeEmptyProject?: boolean;
+  allowBoundaryViolations?: boolean;
+  allowCircularDependencies?: boolean;
+}
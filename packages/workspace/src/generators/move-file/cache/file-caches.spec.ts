@@ -0,0 +1,70 @@
+import { Tree } from '@nx/devkit';
+import { createTreeWithEmptyWorkspace } from '@nx/devkit/testing';
+import {
+  cachedTreeExists,
+  clearFileCaches,
+  getFileCacheStats,
+  getProjectSourceFiles,
+  updateFileExistenceCache,
+  updateProjectSourceFilesCache,
+} from './file-caches';
+import { treeReadCache } from '../tree-cache';
+
+describe('file caches', () => {
+  let tree: Tree;
+
+  beforeEach(() => {
+    clearFileCaches();
+    treeReadCache.clear();
+    tree = createTreeWithEmptyWorkspace();
+  });
+
+  afterEach(() => {
+    clearFileCaches();
+    treeReadCache.clear();
+  });
+
+  it('should share file existence checks between calls', () => {
+    tree.write('libs/a/src/index.ts', '');
+
+    expect(cachedTreeExists(tree, 'libs/a/src/index.ts')).toBe(true);
+    tree.delete('libs/a/src/index.ts');
+    expect(cachedTreeExists(tree, 'libs/a/src/index.ts')).toBe(true);
+
+    updateFileExistenceCache('libs/a/src/index.ts', false);
+    expect(cachedTreeExists(tree, 'libs/a/src/index.ts')).toBe(false);
+  });
+
+  it('should cache and update the source files of a project', () => {
+    tree.write('libs/a/src/index.ts', '');
+
+    expect(getProjectSourceFiles(tree, 'libs/a')).toEqual([
+      'libs/a/src/index.ts',
+    ]);
+
+    updateProjectSourceFilesCache(
+      'libs/a',
+      'libs/a/src/index.ts',
+      'libs/a/src/main.ts',
+    );
+    expect(getProjectSourceFiles(tree, 'libs/a')).toEqual([
+      'libs/a/src/main.ts',
+    ]);
+  });
+
+  it('should clear both caches', () => {
+    tree.write('libs/a/src/index.ts', '');
+    getProjectSourceFiles(tree, 'libs/a');
+    cachedTreeExists(tree, 'libs/a/src/other.ts');
+
+    expect(getFileCacheStats().projectCacheSize).toBe(1);
+    expect(getFileCacheStats().fileExistenceCacheSize).toBeGreaterThan(0);
+
+    clearFileCaches();
+
+    expect(getFileCacheStats()).toEqual({
+      projectCacheSize: 0,
+      fileExistenceCacheSize: 0,
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import type { Tree } from '@nx/devkit';
+import { cachedTreeExists as cachedTreeExistsImpl } from './cached-tree-exists';
+import { getProjectSourceFiles as getProjectSourceFilesImpl } from './get-project-source-files';
+import { updateFileExistenceCache as updateFileExistenceCacheImpl } from './update-file-existence-cache';
+import { updateProjectSourceFilesCache as updateProjectSourceFilesCacheImpl } from './update-project-source-files-cache';
+
+/**
+ * Cache for source files per project to avoid repeated tree traversals.
+ * Key: project root path, Value: array of source file paths
+ */
+const projectSourceFilesCache = new Map<string, string[]>();
+
+/**
+ * Cache for file existence checks to avoid repeated tree.exists() calls.
+ * Key: file path, Value: boolean indicating if file exists
+ */
+const fileExistenceCache = new Map<string, boolean>();
+
+/**
+ * Wrapper for getProjectSourceFiles that passes cache state
+ */
+export function getProjectSourceFiles(
+  tree: Tree,
+  projectRoot: string,
+): string[] {
+  return getProjectSourceFilesImpl(
+    tree,
+    projectRoot,
+    projectSourceFilesCache,
+    fileExistenceCache,
+  );
+}
+
+/**
+ * Wrapper for updateProjectSourceFilesCache that passes cache state
+ */
+export function updateProjectSourceFilesCache(
+  projectRoot: string,
+  oldPath: string,
+  newPath: string | null,
+): void {
+  updateProjectSourceFilesCacheImpl(
+    projectRoot,
+    oldPath,
+    newPath,
+    projectSourceFilesCache,
+  );
+}
+
+/**
+ * Wrapper for cachedTreeExists that passes cache state
+ */
+export function cachedTreeExists(tree: Tree, filePath: string): boolean {
+  return cachedTreeExistsImpl(tree, filePath, fileExistenceCache);
+}
+
+/**
+ * Wrapper for updateFileExistenceCache that passes cache state
+ */
+export function updateFileExistenceCache(
+  filePath: string,
+  exists: boolean,
+): void {
+  updateFileExistenceCacheImpl(filePath, exists, fileExistenceCache);
+}
+
+/**
+ * Clears the project source files and file existence caches shared by the
+ * generators. Should be called when starting a new generator operation.
+ */
+export function clearFileCaches(): void {
+  projectSourceFilesCache.clear();
+  fileExistenceCache.clear();
+}
+
+/**
+ * Gets the sizes of the file caches for performance logging.
+ *
+ * @returns Number of cached projects and file existence checks
+ */
+export function getFileCacheStats(): {
+  projectCacheSize: number;
+  fileExistenceCacheSize: number;
+} {
+  return {
+    projectCacheSize: projectSourceFilesCache.size,
+    fileExistenceCacheSize: fileExistenceCache.size,
+  };
+}
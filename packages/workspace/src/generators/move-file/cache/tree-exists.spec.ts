@@ -0,0 +1,21 @@
+import { Tree } from '@nx/devkit';
+import { createTreeWithEmptyWorkspace } from '@nx/devkit/testing';
+import { treeExists } from './tree-exists';
+
+describe('treeExists', () => {
+  let tree: Tree;
+
+  beforeEach(() => {
+    tree = createTreeWithEmptyWorkspace();
+  });
+
+  it('should reflect the current state of the tree', () => {
+    expect(treeExists(tree, 'test.ts')).toBe(false);
+
+    tree.write('test.ts', 'content');
+    expect(treeExists(tree, 'test.ts')).toBe(true);
+
+    tree.delete('test.ts');
+    expect(treeExists(tree, 'test.ts')).toBe(false);
+  });
+});
@@ -0,0 +1,14 @@
+import type { Tree } from '@nx/devkit';
+
+/**
+ * Uncached tree.exists() with the signature of the cachedTreeExists wrapper,
+ * for steps that run outside of the move pipeline and its caches, such as
+ * the export updates of the move-directory and merge-projects generators.
+ *
+ * @param tree - The virtual file system tree
+ * @param filePath - Path to check for existence
+ * @returns True if file exists, false otherwise
+ */
+export function treeExists(tree: Tree, filePath: string): boolean {
+  return tree.exists(filePath);
+}
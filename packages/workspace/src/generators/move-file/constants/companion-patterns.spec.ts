@@ -0,0 +1,22 @@
+import { defaultCompanionPatterns } from './companion-patterns';
+
+describe('companion-patterns', () => {
+  describe('defaultCompanionPatterns', () => {
+    it('should be frozen', () => {
+      expect(Object.isFrozen(defaultCompanionPatterns)).toBe(true);
+    });
+
+    it('should contain a name placeholder in every pattern', () => {
+      defaultCompanionPatterns.forEach((pattern) => {
+        expect(pattern).toContain('{name}');
+      });
+    });
+
+    it('should contain test, story, style, and snapshot patterns', () => {
+      expect(defaultCompanionPatterns).toContain('{name}.spec.*');
+      expect(defaultCompanionPatterns).toContain('{name}.stories.*');
+      expect(defaultCompanionPatterns).toContain('{name}.module.*');
+      expect(defaultCompanionPatterns).toContain('__snapshots__/{name}.*.snap');
+    });
+  });
+});
@@ -0,0 +1,20 @@
+/**
+ * Default basename patterns for companion files that move together with a
+ * source file when `withCompanions` is enabled.
+ *
+ * Patterns are resolved relative to the source file's directory. `{name}` is
+ * replaced with the source file name without its extension, so for
+ * `button.tsx` the patterns match `button.spec.tsx`, `button.module.css`,
+ * `__snapshots__/button.spec.tsx.snap`, and so on.
+ */
+export const defaultCompanionPatterns = Object.freeze([
+  '{name}.spec.*',
+  '{name}.test.*',
+  '{name}.stories.*',
+  '{name}.module.*',
+  '{name}.css',
+  '{name}.scss',
+  '{name}.less',
+  '{name}.html',
+  '__snapshots__/{name}.*.snap',
+] as const);
@@ -1,5 +1,6 @@
 import {
   entrypointExtensions,
+  importExtensionsBySourceExtension,
   primaryEntryBaseNames,
   sourceFileExtensions,
   strippableExtensions,
@@ -105,6 +106,25 @@ describe('file-extensions', () => {
     });
   });
 
+  describe('importExtensionsBySourceExtension', () => {
+    it('should be frozen', () => {
+      expect(Object.isFrozen(importExtensionsBySourceExtension)).toBe(true);
+    });
+
+    it('should map TypeScript extensions to their emitted extensions first', () => {
+      expect(importExtensionsBySourceExtension['.ts'][0]).toBe('.js');
+      expect(importExtensionsBySourceExtension['.tsx'][0]).toBe('.js');
+      expect(importExtensionsBySourceExtension['.mts'][0]).toBe('.mjs');
+      expect(importExtensionsBySourceExtension['.cts'][0]).toBe('.cjs');
+    });
+
+    it('should cover every source file extension', () => {
+      sourceFileExtensions.forEach((ext) => {
+        expect(importExtensionsBySourceExtension[ext]).toBeDefined();
+      });
+    });
+  });
+
   describe('relationship between constants', () => {
     it('should have entrypointExtensions without dots', () => {
       entrypointExtensions.forEach((ext) => {
@@ -54,6 +54,25 @@ export const strippableExtensions = Object.freeze([
   '.jsx',
 ] as const);
 
+/**
+ * Extensions that relative imports name a source file by when they name the
+ * emitted file, as NodeNext module resolution requires (`./utils.js` for
+ * `utils.ts`, `./utils.mjs` for `utils.mts`, `./utils.cjs` for `utils.cts`).
+ * The first extension is the one used for new imports.
+ */
+export const importExtensionsBySourceExtension: Readonly<
+  Record<string, readonly string[]>
+> = Object.freeze({
+  '.ts': ['.js'],
+  '.tsx': ['.js', '.jsx'],
+  '.js': ['.js'],
+  '.jsx': ['.jsx', '.js'],
+  '.mts': ['.mjs'],
+  '.mjs': ['.mjs'],
+  '.cts': ['.cjs'],
+  '.cjs': ['.cjs'],
+});
+
 /**
  * Type representing valid source file extensions.
  */
@@ -0,0 +1,5 @@
+/**
+ * Workspace-relative path of the move history journal written by move-file
+ * with `recordHistory` and read by undo-move.
+ */
+export const moveHistoryPath = '.nxworker/move-history.json';
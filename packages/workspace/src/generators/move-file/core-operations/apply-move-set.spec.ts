@@ -0,0 +1,122 @@
+import { Tree } from '@nx/devkit';
+import type { ProjectConfiguration } from '@nx/devkit';
+import { createTreeWithEmptyWorkspace } from '@nx/devkit/testing';
+import { applyMoveSet } from './apply-move-set';
+import type { MoveContext } from '../types/move-context';
+import { clearCache } from '../jscodeshift-utils';
+
+describe('applyMoveSet', () => {
+  let tree: Tree;
+  const sourceProject = {
+    root: 'packages/lib1',
+    sourceRoot: 'packages/lib1/src',
+  } as ProjectConfiguration;
+
+  const createContext = (
+    normalizedSource: string,
+    normalizedTarget: string,
+  ): MoveContext =>
+    ({
+      normalizedSource,
+      normalizedTarget,
+      sourceProject,
+      hasImportsInSource: true,
+    }) as MoveContext;
+
+  beforeEach(() => {
+    clearCache();
+    tree = createTreeWithEmptyWorkspace();
+    tree.write(
+      'packages/lib1/src/lib/auth/session.ts',
+      'export interface Session {}',
+    );
+    tree.write(
+      'packages/lib1/src/lib/auth/login.ts',
+      "import { Session } from './session';",
+    );
+  });
+
+  it('should set the move set on every context', () => {
+    const contexts = [
+      createContext(
+        'packages/lib1/src/lib/auth/session.ts',
+        'packages/lib2/src/lib/auth/session.ts',
+      ),
+      createContext(
+        'packages/lib1/src/lib/auth/login.ts',
+        'packages/lib2/src/lib/auth/login.ts',
+      ),
+    ];
+
+    applyMoveSet(tree, contexts, () => [
+      'packages/lib1/src/lib/auth/session.ts',
+      'packages/lib1/src/lib/auth/login.ts',
+    ]);
+
+    const expected = new Map([
+      [
+        'packages/lib1/src/lib/auth/session.ts',
+        'packages/lib2/src/lib/auth/session.ts',
+      ],
+      [
+        'packages/lib1/src/lib/auth/login.ts',
+        'packages/lib2/src/lib/auth/login.ts',
+      ],
+    ]);
+    expect(contexts[0].moveSet).toEqual(expected);
+    expect(contexts[1].moveSet).toBe(contexts[0].moveSet);
+  });
+
+  it('should ignore relative imports from files in the batch', () => {
+    const contexts = [
+      createContext(
+        'packages/lib1/src/lib/auth/session.ts',
+        'packages/lib2/src/lib/auth/session.ts',
+      ),
+      createContext(
+        'packages/lib1/src/lib/auth/login.ts',
+        'packages/lib2/src/lib/auth/login.ts',
+      ),
+    ];
+
+    applyMoveSet(tree, contexts, () => [
+      'packages/lib1/src/lib/auth/session.ts',
+      'packages/lib1/src/lib/auth/login.ts',
+    ]);
+
+    expect(contexts[0].hasImportsInSource).toBe(false);
+  });
+
+  it('should keep relative imports from files outside the batch', () => {
+    const contexts = [
+      createContext(
+        'packages/lib1/src/lib/auth/session.ts',
+        'packages/lib2/src/lib/auth/session.ts',
+      ),
+    ];
+
+    applyMoveSet(tree, contexts, () => [
+      'packages/lib1/src/lib/auth/session.ts',
+      'packages/lib1/src/lib/auth/login.ts',
+    ]);
+
+    expect(contexts[0].hasImportsInSource).toBe(true);
+  });
+
+  it('should throw when two files are moved to the same target', () => {
+    const contexts = [
+      createContext(
+        'packages/lib1/src/lib/a/util.ts',
+        'packages/lib2/src/lib/util.ts',
+      ),
+      createContext(
+        'packages/lib1/src/lib/b/util.ts',
+        'packages/lib2/src/lib/util.ts',
+      ),
+    ];
+
+    expect(() => applyMoveSet(tree, contexts, () => [])).toThrow(
+      'Cannot move both "packages/lib1/src/lib/a/util.ts" and "packages/lib1/src/lib/b/util.ts" to "packages/lib2/src/lib/util.ts"',
+    );
+  });
+});
@@ -0,0 +1,50 @@
+import type { Tree } from '@nx/devkit';
+import type { MoveContext } from '../types/move-context';
+import { checkForRelativeImportsInProject } from '../validation/check-for-relative-imports-in-project';
+
+/**
+ * Makes the contexts of a batch aware of each other so that files moved
+ * together keep relative imports between them.
+ *
+ * Sets `moveSet` on every context and recomputes `hasImportsInSource` without
+ * the other files of the batch, since their imports move along with them.
+ *
+ * @param tree - The virtual file system tree.
+ * @param contexts - Resolved contexts of all files in the batch.
+ * @param getProjectSourceFiles - Function to get project source files with caching.
+ */
+export function applyMoveSet(
+  tree: Tree,
+  contexts: MoveContext[],
+  getProjectSourceFiles: (tree: Tree, projectRoot: string) => string[],
+): void {
+  const moveSet = new Map<string, string>();
+  const sourcesByTarget = new Map<string, string>();
+
+  for (const ctx of contexts) {
+    const otherSource = sourcesByTarget.get(ctx.normalizedTarget);
+    if (otherSource) {
+      throw new Error(
+        `Cannot move both "${otherSource}" and "${ctx.normalizedSource}" to "${ctx.normalizedTarget}"`,
+      );
+    }
+    sourcesByTarget.set(ctx.normalizedTarget, ctx.normalizedSource);
+    moveSet.set(ctx.normalizedSource, ctx.normalizedTarget);
+  }
+
+  const batchSources = Array.from(moveSet.keys());
+
+  for (const ctx of contexts) {
+    ctx.moveSet = moveSet;
+
+    if (ctx.hasImportsInSource) {
+      ctx.hasImportsInSource = checkForRelativeImportsInProject(
+        tree,
+        ctx.sourceProject,
+        ctx.normalizedSource,
+        getProjectSourceFiles,
+        batchSources,
+      );
+    }
+  }
+}
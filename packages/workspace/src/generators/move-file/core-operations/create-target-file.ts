@@ -1,4 +1,5 @@
 import type { Tree } from '@nx/devkit';
+import { astCache } from '../ast-cache';
 import { treeReadCache } from '../tree-cache';
 
 /**
@@ -18,6 +19,7 @@ export function createTargetFile(
   tree.write(normalizedTarget, fileContent);
   // Update file existence cache
   updateFileExistenceCache(normalizedTarget, true);
-  // Invalidate tree read cache for this file
+  // Invalidate read caches for this file, which may have held an overwritten file
   treeReadCache.invalidateFile(normalizedTarget);
+  astCache.invalidate(normalizedTarget);
 }
@@ -0,0 +1,130 @@
+import { Tree, addProjectConfiguration, readJson } from '@nx/devkit';
+import { createTreeWithEmptyWorkspace } from '@nx/devkit/testing';
+import { createTargetProject } from './create-target-project';
+import { clearCompilerPathsCache } from '../project-analysis/read-compiler-paths';
+import { getProjectImportPath } from '../project-analysis/get-project-import-path';
+import { treeReadCache } from '../tree-cache';
+
+jest.mock('@nx/devkit', () => ({
+  ...jest.requireActual('@nx/devkit'),
+  createProjectGraphAsync: jest.fn(),
+}));
+
+// Loading the @nx/js library generator takes a few seconds
+jest.setTimeout(30_000);
+
+describe('createTargetProject', () => {
+  let tree: Tree;
+
+  beforeEach(() => {
+    // Modules are reset between tests, so @nx/js loads a fresh @nx/devkit mock
+    jest.requireMock('@nx/devkit').createProjectGraphAsync.mockResolvedValue({
+      nodes: {},
+      dependencies: {},
+    });
+    clearCompilerPathsCache();
+    treeReadCache.clear();
+    tree = createTreeWithEmptyWorkspace();
+    addProjectConfiguration(tree, 'lib1', {
+      root: 'packages/lib1',
+      sourceRoot: 'packages/lib1/src',
+      projectType: 'library',
+    });
+    tree.write('packages/lib1/src/lib/helper.ts', 'export const helper = 1;');
+  });
+
+  it('should do nothing unless createProjectIfMissing is set', async () => {
+    const created = await createTargetProject(tree, { project: 'lib2' }, [
+      'packages/lib1/src/lib/helper.ts',
+    ]);
+
+    expect(created).toBe(false);
+    expect(tree.exists('packages/lib2')).toBe(false);
+  });
+
+  it('should do nothing when the target project exists', async () => {
+    const created = await createTargetProject(
+      tree,
+      {
+        project: 'lib1',
+        createProjectIfMissing: true,
+      },
+      ['packages/lib1/src/lib/helper.ts'],
+    );
+
+    expect(created).toBe(false);
+  });
+
+  it('should create an empty library next to the source project', async () => {
+    const created = await createTargetProject(
+      tree,
+      {
+        project: 'lib2',
+        createProjectIfMissing: true,
+        newProjectImportPath: '@test/lib2',
+        newProjectTags: 'scope:shared,type:util',
+      },
+      ['packages/lib1/src/lib/helper.ts'],
+    );
+
+    expect(created).toBe(true);
+    const projectJson = readJson(tree, 'packages/lib2/project.json');
+    expect(projectJson.name).toBe('lib2');
+    expect(projectJson.tags).toEqual(['scope:shared', 'type:util']);
+    expect(tree.read('packages/lib2/src/index.ts', 'utf-8')).toBe('');
+    expect(tree.children('packages/lib2/src')).toEqual(['index.ts']);
+    expect(
+      getProjectImportPath(tree, 'lib2', {
+        root: 'packages/lib2',
+        sourceRoot: 'packages/lib2/src',
+      }),
+    ).toBe('@test/lib2');
+  });
+
+  it('should create the library in newProjectDirectory', async () => {
+    await createTargetProject(
+      tree,
+      {
+        project: 'shared-util',
+        createProjectIfMissing: true,
+        newProjectDirectory: 'libs/shared/util',
+      },
+      ['packages/lib1/src/lib/helper.ts'],
+    );
+
+    expect(tree.exists('libs/shared/util/project.json')).toBe(true);
+    expect(tree.exists('libs/shared/util/src/index.ts')).toBe(true);
+  });
+
+  it('should reject a directory that already exists', async () => {
+    tree.write('packages/lib2/README.md', '');
+
+    await expect(
+      createTargetProject(
+        tree,
+        {
+          project: 'lib2',
+          createProjectIfMissing: true,
+        },
+        ['packages/lib1/src/lib/helper.ts'],
+      ),
+    ).rejects.toThrow(
+      'Cannot create project "lib2" because "packages/lib2" already exists',
+    );
+  });
+
+  it('should reject new project options without createProjectIfMissing', async () => {
+    await expect(
+      createTargetProject(
+        tree,
+        {
+          project: 'lib2',
+          newProjectTags: 'scope:shared',
+        },
+        ['packages/lib1/src/lib/helper.ts'],
+      ),
+    ).rejects.toThrow(
+      'can only be used together with "createProjectIfMissing"',
+    );
+  });
+});
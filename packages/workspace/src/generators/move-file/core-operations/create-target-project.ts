@@ -0,0 +1,188 @@
+import {
+  ensurePackage,
+  getProjects,
+  getWorkspaceLayout,
+  NX_VERSION,
+  updateJson,
+  visitNotIgnoredFiles,
+} from '@nx/devkit';
+import type { Tree } from '@nx/devkit';
+import { posix as path } from 'node:path';
+import type { MoveFileGeneratorSchema } from '../schema';
+import { findProjectForFile } from '../project-analysis/find-project-for-file';
+import { getProjectImportPath } from '../project-analysis/get-project-import-path';
+import { clearCompilerPathsCache } from '../project-analysis/read-compiler-paths';
+import { clearProjectAliasesCache } from '../project-analysis/read-project-aliases';
+import { isValidPathInput } from '../security-utils/is-valid-path-input';
+import { sanitizePath } from '../security-utils/sanitize-path';
+import { treeReadCache } from '../tree-cache';
+
+/**
+ * Root tsconfig files that can hold the workspace path aliases, in order of
+ * preference.
+ */
+const rootTsConfigFiles = ['tsconfig.base.json', 'tsconfig.json'];
+
+/**
+ * Creates the target project with the `@nx/js` library generator when it does
+ * not exist yet and `createProjectIfMissing` is set.
+ *
+ * The library is placed next to the source project of the first moved file
+ * unless `newProjectDirectory` is set and starts out with an empty
+ * entrypoint. Its import alias is registered in the root tsconfig so that the
+ * move resolves it in the same run.
+ *
+ * @param tree - The virtual file system tree.
+ * @param options - Generator options naming the target project.
+ * @param filePaths - Files to move; the first one decides the default directory.
+ * @returns Whether a project was created.
+ */
+export async function createTargetProject(
+  tree: Tree,
+  options: Omit<MoveFileGeneratorSchema, 'file'> & { project: string },
+  filePaths: string[],
+): Promise<boolean> {
+  if (
+    !options.createProjectIfMissing &&
+    (options.newProjectDirectory ||
+      options.newProjectImportPath ||
+      options.newProjectTags)
+  ) {
+    throw new Error(
+      'The "newProjectDirectory", "newProjectImportPath", and "newProjectTags" options can only be used together with "createProjectIfMissing"',
+    );
+  }
+
+  const projects = getProjects(tree);
+  if (!options.createProjectIfMissing || projects.has(options.project)) {
+    return false;
+  }
+
+  if (
+    !isValidPathInput(options.project, {
+      allowUnicode: !!options.allowUnicode,
+    })
+  ) {
+    throw new Error(
+      `Invalid project name: contains disallowed characters: "${options.project}"`,
+    );
+  }
+
+  const directory = options.newProjectDirectory
+    ? sanitizePath(options.newProjectDirectory)
+    : getDefaultProjectDirectory(tree, options.project, filePaths, projects);
+  if (
+    !isValidPathInput(directory, {
+      allowUnicode: !!options.allowUnicode,
+    })
+  ) {
+    throw new Error(
+      `Invalid path input for 'newProjectDirectory': contains disallowed characters: "${directory}"`,
+    );
+  }
+  if (tree.exists(directory)) {
+    throw new Error(
+      `Cannot create project "${options.project}" because "${directory}" already exists`,
+    );
+  }
+
+  const { libraryGenerator } = ensurePackage<typeof import('@nx/js')>(
+    '@nx/js',
+    NX_VERSION,
+  );
+  const libraryOptions: Parameters<typeof libraryGenerator>[1] & {
+    setUpPrettier: boolean;
+  } = {
+    name: options.project,
+    directory,
+    projectNameAndRootFormat: 'as-provided',
+    importPath: options.newProjectImportPath,
+    tags: options.newProjectTags,
+    // Installing and configuring tooling is up to the workspace, not to a move
+    skipPackageJson: true,
+    setUpPrettier: false,
+    skipFormat: true,
+  };
+  await libraryGenerator(tree, libraryOptions);
+
+  // The library generator writes tsconfig files behind the read cache
+  treeReadCache.clear();
+  clearCompilerPathsCache();
+  clearProjectAliasesCache();
+
+  const project = getProjects(tree).get(options.project);
+  if (!project) {
+    throw new Error(
+      `The @nx/js library generator did not create project "${options.project}"`,
+    );
+  }
+
+  // The library starts out empty instead of with the generator's placeholder
+  // file, which would end up next to the moved files
+  const sourceRoot = project.sourceRoot ?? path.join(project.root, 'src');
+  const entryPointPath = path.join(sourceRoot, 'index.ts');
+  visitNotIgnoredFiles(tree, sourceRoot, (filePath) => {
+    if (filePath !== entryPointPath) {
+      tree.delete(filePath);
+    }
+  });
+  tree.write(entryPointPath, '');
+
+  if (!getProjectImportPath(tree, options.project, project)) {
+    registerImportPath(
+      tree,
+      options.newProjectImportPath ?? options.project,
+      entryPointPath,
+    );
+  }
+
+  return true;
+}
+
+/**
+ * Places the new project next to the source project of the first moved file,
+ * falling back to the workspace's libraries directory.
+ */
+function getDefaultProjectDirectory(
+  tree: Tree,
+  projectName: string,
+  filePaths: string[],
+  projects: ReturnType<typeof getProjects>,
+): string {
+  const sourceProject =
+    filePaths.length > 0
+      ? findProjectForFile(projects, sanitizePath(filePaths[0]))?.project
+      : undefined;
+  const parentDirectory =
+    sourceProject && sourceProject.root !== '.'
+      ? path.dirname(sourceProject.root)
+      : getWorkspaceLayout(tree).libsDir;
+
+  return path.join(parentDirectory, projectName);
+}
+
+/**
+ * Adds a path alias for the new project's entrypoint to the root tsconfig,
+ * for library generator setups that do not register one.
+ */
+function registerImportPath(
+  tree: Tree,
+  importPath: string,
+  entryPointPath: string,
+): void {
+  const tsconfigPath =
+    rootTsConfigFiles.find((file) => tree.exists(file)) ?? rootTsConfigFiles[0];
+  if (!tree.exists(tsconfigPath)) {
+    tree.write(tsconfigPath, '{}');
+  }
+
+  updateJson(tree, tsconfigPath, (json) => {
+    json.compilerOptions ??= {};
+    json.compilerOptions.paths ??= {};
+    json.compilerOptions.paths[importPath] = [entryPointPath];
+    return json;
+  });
+  treeReadCache.invalidateFile(tsconfigPath);
+  clearCompilerPathsCache();
+  clearProjectAliasesCache();
+}
@@ -0,0 +1,102 @@
+import { Tree } from '@nx/devkit';
+import { createTreeWithEmptyWorkspace } from '@nx/devkit/testing';
+import { createTreeSandbox } from './create-tree-sandbox';
+
+describe('createTreeSandbox', () => {
+  let tree: Tree;
+
+  beforeEach(() => {
+    tree = createTreeWithEmptyWorkspace();
+    tree.write('packages/lib1/src/index.ts', "export * from './lib/a';\n");
+    tree.write('packages/lib1/src/lib/a.ts', 'export const a = 1;\n');
+  });
+
+  it('should expose changes through the sandbox tree', () => {
+    const sandbox = createTreeSandbox(tree);
+
+    sandbox.tree.write('packages/lib1/src/lib/b.ts', 'export const b = 2;\n');
+
+    expect(sandbox.tree.read('packages/lib1/src/lib/b.ts', 'utf-8')).toBe(
+      'export const b = 2;\n',
+    );
+  });
+
+  it('should restore modified files on rollback', () => {
+    const sandbox = createTreeSandbox(tree);
+
+    sandbox.tree.write('packages/lib1/src/index.ts', '');
+    sandbox.tree.write('packages/lib1/src/index.ts', 'export {};\n');
+    sandbox.rollback();
+
+    expect(tree.read('packages/lib1/src/index.ts', 'utf-8')).toBe(
+      "export * from './lib/a';\n",
+    );
+  });
+
+  it('should delete created files on rollback', () => {
+    const sandbox = createTreeSandbox(tree);
+
+    sandbox.tree.write('packages/lib2/src/lib/a.ts', 'export const a = 1;\n');
+    sandbox.rollback();
+
+    expect(tree.exists('packages/lib2/src/lib/a.ts')).toBe(false);
+  });
+
+  it('should restore deleted files on rollback', () => {
+    const sandbox = createTreeSandbox(tree);
+
+    sandbox.tree.delete('packages/lib1/src/lib/a.ts');
+    sandbox.rollback();
+
+    expect(tree.read('packages/lib1/src/lib/a.ts', 'utf-8')).toBe(
+      'export const a = 1;\n',
+    );
+  });
+
+  it('should restore every file below a deleted directory on rollback', () => {
+    const sandbox = createTreeSandbox(tree);
+
+    sandbox.tree.delete('packages/lib1');
+    sandbox.rollback();
+
+    expect(tree.exists('packages/lib1/src/index.ts')).toBe(true);
+    expect(tree.exists('packages/lib1/src/lib/a.ts')).toBe(true);
+  });
+
+  it('should revert renames on rollback', () => {
+    const sandbox = createTreeSandbox(tree);
+
+    sandbox.tree.rename(
+      'packages/lib1/src/lib/a.ts',
+      'packages/lib1/src/lib/renamed.ts',
+    );
+    sandbox.rollback();
+
+    expect(tree.exists('packages/lib1/src/lib/a.ts')).toBe(true);
+    expect(tree.exists('packages/lib1/src/lib/renamed.ts')).toBe(false);
+  });
+
+  it('should leave changes made outside the sandbox untouched', () => {
+    const sandbox = createTreeSandbox(tree);
+
+    tree.write('packages/lib1/src/lib/c.ts', 'export const c = 3;\n');
+    sandbox.rollback();
+
+    expect(tree.exists('packages/lib1/src/lib/c.ts')).toBe(true);
+  });
+
+  it('should expose the original content of changed files', () => {
+    const sandbox = createTreeSandbox(tree);
+
+    sandbox.tree.write('packages/lib1/src/index.ts', '');
+    sandbox.tree.write('packages/lib1/src/index.ts', 'export {};\n');
+    sandbox.tree.write('packages/lib1/src/lib/b.ts', 'export const b = 2;\n');
+
+    const originals = sandbox.getOriginals();
+    expect(originals.get('packages/lib1/src/index.ts')?.toString()).toBe(
+      "export * from './lib/a';\n",
+    );
+    expect(originals.get('packages/lib1/src/lib/b.ts')).toBeNull();
+    expect(originals.has('packages/lib1/src/lib/a.ts')).toBe(false);
+  });
+});
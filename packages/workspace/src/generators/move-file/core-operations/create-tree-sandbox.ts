@@ -0,0 +1,101 @@
+import { normalizePath } from '@nx/devkit';
+import type { Tree } from '@nx/devkit';
+import { posix as path } from 'node:path';
+
+/**
+ * A tree wrapper whose changes can be rolled back.
+ */
+export interface TreeSandbox {
+  /**
+   * Tree to run the move against. Reads see all changes made through it.
+   */
+  tree: Tree;
+
+  /**
+   * Restores every file written, deleted, or renamed through the sandbox tree.
+   */
+  rollback(): void;
+
+  /**
+   * Original content of every file changed through the sandbox tree, keyed by
+   * normalized path. Files that did not exist before are mapped to null.
+   */
+  getOriginals(): ReadonlyMap<string, Buffer | null>;
+}
+
+/**
+ * Creates a sandbox around a tree so that a move can be executed for real and
+ * then reverted, or recorded in the move history. The original content of
+ * each file is captured before its first modification.
+ *
+ * @param tree - The virtual file system tree.
+ * @returns The sandbox tree and its rollback function.
+ */
+export function createTreeSandbox(tree: Tree): TreeSandbox {
+  const originals = new Map<string, Buffer | null>();
+
+  const capture = (filePath: string): void => {
+    const normalized = normalizePath(filePath);
+    if (originals.has(normalized)) {
+      return;
+    }
+
+    if (tree.isFile(normalized)) {
+      originals.set(normalized, tree.read(normalized));
+    } else if (tree.exists(normalized)) {
+      // Deleting a directory deletes every file below it
+      tree
+        .children(normalized)
+        .forEach((child) => capture(path.join(normalized, child)));
+    } else {
+      originals.set(normalized, null);
+    }
+  };
+
+  const sandboxTree = new Proxy(tree, {
+    get(target, property) {
+      if (property === 'write') {
+        return (...args: Parameters<Tree['write']>) => {
+          const [filePath, content, options] = args;
+          capture(filePath);
+          target.write(filePath, content, options);
+        };
+      }
+
+      if (property === 'delete') {
+        return (filePath: string) => {
+          capture(filePath);
+          target.delete(filePath);
+        };
+      }
+
+      if (property === 'rename') {
+        return (from: string, to: string) => {
+          capture(from);
+          capture(to);
+          target.rename(from, to);
+        };
+      }
+
+      const value = Reflect.get(target, property, target);
+      return typeof value === 'function' ? value.bind(target) : value;
+    },
+  });
+
+  return {
+    tree: sandboxTree,
+    rollback: () => {
+      for (const [filePath, content] of originals) {
+        if (content === null) {
+          if (tree.exists(filePath)) {
+            tree.delete(filePath);
+          }
+        } else {
+          tree.write(filePath, content);
+        }
+      }
+      originals.clear();
+    },
+    getOriginals: () => originals,
+  };
+}
@@ -14,6 +14,7 @@ jest.mock('./handle-move-strategy');
 jest.mock('./finalize-move');
 jest.mock('../import-updates/update-moved-file-imports-if-needed');
 jest.mock('../import-updates/update-target-project-imports-if-needed');
+jest.mock('../import-updates/update-alias-imports-in-other-projects');
 jest.mock('../export-management/ensure-export-if-needed');
 
 describe('executeMove', () => {
@@ -114,6 +115,7 @@ describe('executeMove', () => {
         mockGetCachedDependentProjects,
         mockGetProjectSourceFiles,
         mockCachedTreeExists,
+        { file: ctx.normalizedSource, project: 'lib2' },
       );
       expect(updateTargetProjectImportsIfNeeded).toHaveBeenCalledWith(
         tree,
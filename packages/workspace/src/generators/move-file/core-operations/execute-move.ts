@@ -1,15 +1,23 @@
 import type { Tree, ProjectConfiguration } from '@nx/devkit';
 import type { ProjectGraph } from '@nx/devkit';
 import { logger } from '@nx/devkit';
+import { posix as path } from 'node:path';
 import type { MoveFileGeneratorSchema } from '../schema';
 import type { MoveContext } from '../types/move-context';
 import { updateMovedFileImportsIfNeeded } from '../import-updates/update-moved-file-imports-if-needed';
 import { updateTargetProjectImportsIfNeeded } from '../import-updates/update-target-project-imports-if-needed';
+import { updateAliasImportsInOtherProjects } from '../import-updates/update-alias-imports-in-other-projects';
 import { ensureExportIfNeeded } from '../export-management/ensure-export-if-needed';
+import { ensureFileExported } from '../export-management/ensure-file-exported';
 import { checkForUnexportedRelativeDependencies } from '../validation/check-for-unexported-relative-dependencies';
+import { moveRecorder } from '../reporting/move-recorder';
+import { findMoveSetTarget } from '../path-utils/find-move-set-target';
+import { removeSelfImports } from '../import-updates/remove-self-imports';
 import { createTargetFile } from './create-target-file';
+import { mergeIntoExistingFile } from './merge-into-existing-file';
 import { handleMoveStrategy } from './handle-move-strategy';
 import { finalizeMove } from './finalize-move';
+import { selectMoveStrategy } from './select-move-strategy';
 
 /**
  * Coordinates the move workflow by executing the individual move steps in order.
@@ -59,6 +67,14 @@ export async function executeMove(
     `Moving ${normalizedSource} (project: ${sourceProjectName}) to ${normalizedTarget} (project: ${targetProjectName})`,
   );
 
+  // Attribute all following import and export changes to this move
+  moveRecorder.beginEntry(ctx, selectMoveStrategy(ctx));
+
+  // The existing target file is merged back in once the moved file's imports
+  // point from its new location
+  const isMerge = ctx.targetConflict?.resolution === 'merge-exports';
+  const existingContent = isMerge ? tree.read(normalizedTarget, 'utf-8') : null;
+
   createTargetFile(
     tree,
     normalizedTarget,
@@ -66,13 +82,28 @@ export async function executeMove(
     updateFileExistenceCache,
   );
 
+  // Export shared dependencies so that the moved file can import them through
+  // the source project's alias
+  for (const dependency of ctx.dependenciesToExport ?? []) {
+    ensureFileExported(
+      tree,
+      ctx.sourceProject,
+      path.relative(ctx.sourceRoot, dependency),
+      cachedTreeExists,
+    );
+  }
+
   // Check for unexported relative dependencies when moving to a different project
   if (!ctx.isSameProject) {
+    // Dependencies moved in the same batch keep their relative imports
     const unexportedDeps = checkForUnexportedRelativeDependencies(
       tree,
       normalizedSource,
       ctx.sourceProject,
       cachedTreeExists,
+    ).filter(
+      (dep) =>
+        !ctx.moveSet || !findMoveSetTarget(dep.resolvedPath, ctx.moveSet),
     );
 
     if (unexportedDeps.length > 0) {
@@ -106,11 +137,25 @@ export async function executeMove(
     );
   }
   if (targetProject && targetProject.root !== sourceProject?.root) {
-    updateProjectSourceFilesCache(targetProject.root, '', normalizedTarget);
+    // An overwritten or merged target file is already listed
+    updateProjectSourceFilesCache(
+      targetProject.root,
+      ctx.targetConflict ? normalizedTarget : '',
+      normalizedTarget,
+    );
   }
 
   updateMovedFileImportsIfNeeded(tree, ctx, cachedTreeExists);
 
+  if (existingContent !== null) {
+    mergeIntoExistingFile(
+      tree,
+      normalizedTarget,
+      existingContent,
+      cachedTreeExists,
+    );
+  }
+
   await handleMoveStrategy(
     tree,
     getProjectGraphAsync,
@@ -119,8 +164,11 @@ export async function executeMove(
     getCachedDependentProjects,
     getProjectSourceFiles,
     cachedTreeExists,
+    options,
   );
 
+  updateAliasImportsInOtherProjects(tree, ctx, projects, getProjectSourceFiles);
+
   const sourceIdentifier = sourceImportPath || normalizedSource;
   updateTargetProjectImportsIfNeeded(
     tree,
@@ -131,6 +179,11 @@ export async function executeMove(
 
   ensureExportIfNeeded(tree, ctx, options, cachedTreeExists);
 
+  // Imports between the merged files now point at the file itself
+  if (isMerge) {
+    removeSelfImports(tree, normalizedTarget, cachedTreeExists);
+  }
+
   if (!skipFinalization) {
     await finalizeMove(tree, normalizedSource, options);
   }
@@ -0,0 +1,122 @@
+import { Tree, ProjectConfiguration, ProjectGraph } from '@nx/devkit';
+import { createTreeWithEmptyWorkspace } from '@nx/devkit/testing';
+import { handleEntryPointChange } from './handle-entry-point-change';
+import { updateImportPathsInDependentProjects } from '../import-updates/update-import-paths-in-dependent-projects';
+import { removeFileExport } from '../export-management/remove-file-export';
+import type { MoveContext } from '../types/move-context';
+
+jest.mock('../import-updates/update-import-paths-in-dependent-projects');
+jest.mock('../export-management/remove-file-export');
+
+describe('handleEntryPointChange', () => {
+  let tree: Tree;
+  let mockGetProjectGraphAsync: jest.Mock;
+  let mockGetCachedDependentProjects: jest.Mock;
+  let mockGetProjectSourceFiles: jest.Mock;
+  let mockCachedTreeExists: jest.Mock;
+  let projects: Map<string, ProjectConfiguration>;
+  const mockProjectGraph: ProjectGraph = { nodes: {}, dependencies: {} };
+  const project: ProjectConfiguration = {
+    root: 'packages/lib1',
+    sourceRoot: 'packages/lib1/src',
+    projectType: 'library',
+  };
+
+  const createContext = (
+    overrides: Partial<MoveContext> = {},
+  ): MoveContext => ({
+    normalizedSource: 'packages/lib1/src/lib/test.ts',
+    normalizedTarget: 'packages/lib1/src/testing/test.ts',
+    sourceProject: project,
+    sourceProjectName: 'lib1',
+    targetProject: project,
+    targetProjectName: 'lib1',
+    fileContent: 'export const test = 1;',
+    sourceRoot: 'packages/lib1/src',
+    relativeFilePathInSource: 'lib/test.ts',
+    isExported: true,
+    sourceImportPath: '@my/lib1',
+    targetImportPath: '@my/lib1/testing',
+    hasImportsInTarget: false,
+    hasImportsInSource: false,
+    isSameProject: true,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    tree = createTreeWithEmptyWorkspace();
+    mockGetProjectGraphAsync = jest.fn().mockResolvedValue(mockProjectGraph);
+    mockGetCachedDependentProjects = jest.fn();
+    mockGetProjectSourceFiles = jest.fn();
+    mockCachedTreeExists = jest.fn();
+    projects = new Map([['lib1', project]]);
+    jest.clearAllMocks();
+  });
+
+  it('should move the export and update dependents to the new entry point', async () => {
+    tree.write('packages/lib1/src/testing/test.ts', 'export const test = 1;\n');
+
+    await handleEntryPointChange(
+      tree,
+      mockGetProjectGraphAsync,
+      projects,
+      createContext(),
+      mockGetCachedDependentProjects,
+      mockGetProjectSourceFiles,
+      mockCachedTreeExists,
+    );
+
+    expect(removeFileExport).toHaveBeenCalledWith(
+      tree,
+      project,
+      'testing/test.ts',
+      mockCachedTreeExists,
+    );
+    expect(updateImportPathsInDependentProjects).toHaveBeenCalledWith(
+      tree,
+      mockProjectGraph,
+      projects,
+      'lib1',
+      '@my/lib1',
+      '@my/lib1/testing',
+      {
+        targetProjectName: 'lib1',
+        targetRelativePath: 'testing/test.ts',
+      },
+      mockGetCachedDependentProjects,
+      mockGetProjectSourceFiles,
+      new Set(['test']),
+    );
+  });
+
+  it('should do nothing when the entry point does not change', async () => {
+    await handleEntryPointChange(
+      tree,
+      mockGetProjectGraphAsync,
+      projects,
+      createContext({ targetImportPath: '@my/lib1' }),
+      mockGetCachedDependentProjects,
+      mockGetProjectSourceFiles,
+      mockCachedTreeExists,
+    );
+
+    expect(mockGetProjectGraphAsync).not.toHaveBeenCalled();
+    expect(removeFileExport).not.toHaveBeenCalled();
+    expect(updateImportPathsInDependentProjects).not.toHaveBeenCalled();
+  });
+
+  it('should do nothing for files that are not exported', async () => {
+    await handleEntryPointChange(
+      tree,
+      mockGetProjectGraphAsync,
+      projects,
+      createContext({ isExported: false }),
+      mockGetCachedDependentProjects,
+      mockGetProjectSourceFiles,
+      mockCachedTreeExists,
+    );
+
+    expect(removeFileExport).not.toHaveBeenCalled();
+    expect(updateImportPathsInDependentProjects).not.toHaveBeenCalled();
+  });
+});
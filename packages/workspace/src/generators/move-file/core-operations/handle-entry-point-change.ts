@@ -0,0 +1,90 @@
+import type { Tree, ProjectConfiguration, ProjectGraph } from '@nx/devkit';
+import { logger } from '@nx/devkit';
+import { posix as path } from 'node:path';
+import type { MoveContext } from '../types/move-context';
+import { updateImportPathsInDependentProjects } from '../import-updates/update-import-paths-in-dependent-projects';
+import { removeFileExport } from '../export-management/remove-file-export';
+import { getExportedSymbols } from '../export-management/get-exported-symbols';
+
+/**
+ * Handles an exported file that moves to another entry point of its project,
+ * e.g. from `src/lib/` into the `src/testing/` directory of the secondary
+ * entry point `@org/ui/testing`.
+ *
+ * Runs after the same-project move has updated the relative imports and
+ * exports: the file's export is removed from the barrel of the entry point it
+ * left (the target barrel export is added afterwards, see
+ * ensureExportIfNeeded), and dependent projects import the moved file's
+ * symbols through the new entry point.
+ *
+ * @param tree - The virtual file system tree.
+ * @param getProjectGraphAsync - Lazy getter for the dependency graph (only creates when needed).
+ * @param projects - Map of all projects in the workspace.
+ * @param ctx - Resolved move context.
+ * @param getCachedDependentProjects - Function to get cached dependent projects.
+ * @param getProjectSourceFiles - Function to get project source files with caching.
+ * @param cachedTreeExists - Function to check file existence with caching.
+ */
+export async function handleEntryPointChange(
+  tree: Tree,
+  getProjectGraphAsync: () => Promise<ProjectGraph>,
+  projects: Map<string, ProjectConfiguration>,
+  ctx: MoveContext,
+  getCachedDependentProjects: (
+    projectGraph: ProjectGraph,
+    projectName: string,
+  ) => Set<string>,
+  getProjectSourceFiles: (tree: Tree, projectRoot: string) => string[],
+  cachedTreeExists: (tree: Tree, filePath: string) => boolean,
+): Promise<void> {
+  const {
+    isSameProject,
+    isExported,
+    sourceImportPath,
+    targetImportPath,
+    sourceProject,
+    sourceProjectName,
+    sourceRoot,
+    normalizedTarget,
+  } = ctx;
+
+  if (
+    !isSameProject ||
+    !isExported ||
+    !sourceImportPath ||
+    !targetImportPath ||
+    sourceImportPath === targetImportPath
+  ) {
+    return;
+  }
+
+  logger.verbose(
+    `File moves from entry point ${sourceImportPath} to ${targetImportPath}, updating dependent projects`,
+  );
+
+  // The same-project move already points the old export at the new location
+  const relativeFilePathInTarget = path.relative(sourceRoot, normalizedTarget);
+  removeFileExport(
+    tree,
+    sourceProject,
+    relativeFilePathInTarget,
+    cachedTreeExists,
+  );
+
+  const projectGraph = await getProjectGraphAsync();
+  await updateImportPathsInDependentProjects(
+    tree,
+    projectGraph,
+    projects,
+    sourceProjectName,
+    sourceImportPath,
+    targetImportPath,
+    {
+      targetProjectName: sourceProjectName,
+      targetRelativePath: relativeFilePathInTarget,
+    },
+    getCachedDependentProjects,
+    getProjectSourceFiles,
+    getExportedSymbols(tree, normalizedTarget),
+  );
+}
@@ -1,13 +1,18 @@
-import { Tree, ProjectConfiguration, ProjectGraph } from '@nx/devkit';
+import { Tree, ProjectConfiguration, ProjectGraph, logger } from '@nx/devkit';
 import { createTreeWithEmptyWorkspace } from '@nx/devkit/testing';
 import { handleExportedMove } from './handle-exported-move';
 import { updateImportPathsInDependentProjects } from '../import-updates/update-import-paths-in-dependent-projects';
 import { removeFileExport } from '../export-management/remove-file-export';
+import { replaceFileExportWithShim } from '../export-management/replace-file-export-with-shim';
 import { updateImportPathsToPackageAlias } from '../import-updates/update-import-paths-to-package-alias';
 import type { MoveContext } from '../types/move-context';
+import { clearIndexExportsCache } from '../export-management/index-exports-cache';
+import { treeReadCache } from '../tree-cache';
+import { astCache } from '../ast-cache';
 
 jest.mock('../import-updates/update-import-paths-in-dependent-projects');
 jest.mock('../export-management/remove-file-export');
+jest.mock('../export-management/replace-file-export-with-shim');
 jest.mock('../import-updates/update-import-paths-to-package-alias');
 
 describe('handleExportedMove', () => {
@@ -25,6 +30,7 @@ describe('handleExportedMove', () => {
     mockGetProjectSourceFiles = jest.fn();
     mockCachedTreeExists = jest.fn();
     projects = new Map();
+    clearIndexExportsCache();
     jest.clearAllMocks();
   });
 
@@ -92,6 +98,7 @@ describe('handleExportedMove', () => {
       },
       mockGetCachedDependentProjects,
       mockGetProjectSourceFiles,
+      undefined,
     );
     expect(removeFileExport).toHaveBeenCalledWith(
       tree,
@@ -258,6 +265,176 @@ describe('handleExportedMove', () => {
       },
       mockGetCachedDependentProjects,
       mockGetProjectSourceFiles,
+      undefined,
     );
   });
+
+  it('should pass the symbols exported by the moved file to dependent project updates', async () => {
+    const sourceProject: ProjectConfiguration = {
+      root: 'packages/lib1',
+      sourceRoot: 'packages/lib1/src',
+      projectType: 'library',
+    };
+
+    const targetProject: ProjectConfiguration = {
+      root: 'packages/lib2',
+      sourceRoot: 'packages/lib2/src',
+      projectType: 'library',
+    };
+
+    projects.set('lib1', sourceProject);
+    projects.set('lib2', targetProject);
+
+    mockGetProjectGraphAsync.mockResolvedValue({ nodes: {}, dependencies: {} });
+
+    tree.write(
+      'packages/lib2/src/lib/test.ts',
+      'export const test = 1;\nexport type Test = number;',
+    );
+
+    const ctx: MoveContext = {
+      normalizedSource: 'packages/lib1/src/lib/test.ts',
+      normalizedTarget: 'packages/lib2/src/lib/test.ts',
+      sourceProject,
+      sourceProjectName: 'lib1',
+      targetProject,
+      targetProjectName: 'lib2',
+      fileContent: 'export const test = 1;\nexport type Test = number;',
+      sourceRoot: 'packages/lib1/src',
+      relativeFilePathInSource: 'lib/test.ts',
+      isExported: true,
+      sourceImportPath: '@my/lib1',
+      targetImportPath: '@my/lib2',
+      hasImportsInTarget: false,
+      hasImportsInSource: false,
+      isSameProject: false,
+    };
+
+    await handleExportedMove(
+      tree,
+      mockGetProjectGraphAsync,
+      projects,
+      ctx,
+      mockGetCachedDependentProjects,
+      mockGetProjectSourceFiles,
+      mockCachedTreeExists,
+    );
+
+    const movedSymbols = jest.mocked(updateImportPathsInDependentProjects).mock
+      .calls[0][9];
+    expect(movedSymbols).toEqual(new Set(['test', 'Test']));
+  });
+  describe('leaveShim option', () => {
+    let ctx: MoveContext;
+
+    beforeEach(() => {
+      const sourceProject: ProjectConfiguration = {
+        root: 'packages/lib1',
+        sourceRoot: 'packages/lib1/src',
+        projectType: 'library',
+      };
+      const targetProject: ProjectConfiguration = {
+        root: 'packages/lib2',
+        sourceRoot: 'packages/lib2/src',
+        projectType: 'library',
+      };
+      projects.set('lib1', sourceProject);
+      projects.set('lib2', targetProject);
+      mockGetProjectGraphAsync.mockResolvedValue({
+        nodes: {},
+        dependencies: {},
+      });
+      treeReadCache.clear();
+      astCache.clear();
+      tree.write('packages/lib2/src/lib/test.ts', 'export const test = 1;');
+
+      ctx = {
+        normalizedSource: 'packages/lib1/src/lib/test.ts',
+        normalizedTarget: 'packages/lib2/src/lib/test.ts',
+        sourceProject,
+        sourceProjectName: 'lib1',
+        targetProject,
+        targetProjectName: 'lib2',
+        fileContent: 'export const test = 1;',
+        sourceRoot: 'packages/lib1/src',
+        relativeFilePathInSource: 'lib/test.ts',
+        isExported: true,
+        sourceImportPath: '@my/lib1',
+        targetImportPath: '@my/lib2',
+        hasImportsInTarget: false,
+        hasImportsInSource: false,
+        isSameProject: false,
+      };
+    });
+
+    it('should replace the source export with a shim and still update dependents', async () => {
+      await handleExportedMove(
+        tree,
+        mockGetProjectGraphAsync,
+        projects,
+        ctx,
+        mockGetCachedDependentProjects,
+        mockGetProjectSourceFiles,
+        mockCachedTreeExists,
+        { leaveShim: true },
+      );
+
+      expect(replaceFileExportWithShim).toHaveBeenCalledWith(
+        tree,
+        ctx.sourceProject,
+        'lib/test.ts',
+        '@my/lib2',
+        new Set(['test']),
+        new Set(),
+        mockCachedTreeExists,
+      );
+      expect(removeFileExport).not.toHaveBeenCalled();
+      expect(updateImportPathsInDependentProjects).toHaveBeenCalled();
+    });
+
+    it('should leave dependents on the shim when updateDependents is false', async () => {
+      await handleExportedMove(
+        tree,
+        mockGetProjectGraphAsync,
+        projects,
+        ctx,
+        mockGetCachedDependentProjects,
+        mockGetProjectSourceFiles,
+        mockCachedTreeExists,
+        { leaveShim: true, updateDependents: false },
+      );
+
+      expect(mockGetProjectGraphAsync).not.toHaveBeenCalled();
+      expect(updateImportPathsInDependentProjects).not.toHaveBeenCalled();
+      expect(replaceFileExportWithShim).toHaveBeenCalled();
+      expect(updateImportPathsToPackageAlias).toHaveBeenCalled();
+    });
+
+    it('should remove the export and update dependents when the moved symbols are unknown', async () => {
+      tree.write(
+        'packages/lib2/src/lib/test.ts',
+        "export * from './other';\nexport const test = 1;",
+      );
+      const warnSpy = jest.spyOn(logger, 'warn').mockImplementation();
+
+      await handleExportedMove(
+        tree,
+        mockGetProjectGraphAsync,
+        projects,
+        ctx,
+        mockGetCachedDependentProjects,
+        mockGetProjectSourceFiles,
+        mockCachedTreeExists,
+        { leaveShim: true, updateDependents: false },
+      );
+
+      expect(replaceFileExportWithShim).not.toHaveBeenCalled();
+      expect(removeFileExport).toHaveBeenCalled();
+      expect(updateImportPathsInDependentProjects).toHaveBeenCalled();
+      expect(warnSpy).toHaveBeenCalledWith(
+        expect.stringContaining('Cannot leave a shim'),
+      );
+      warnSpy.mockRestore();
+    });
+  });
 });
@@ -1,14 +1,24 @@
 import type { Tree, ProjectConfiguration, ProjectGraph } from '@nx/devkit';
 import { logger } from '@nx/devkit';
 import { posix as path } from 'node:path';
+import type { MoveFileGeneratorSchema } from '../schema';
 import type { MoveContext } from '../types/move-context';
 import { updateImportPathsInDependentProjects } from '../import-updates/update-import-paths-in-dependent-projects';
 import { removeFileExport } from '../export-management/remove-file-export';
+import { replaceFileExportWithShim } from '../export-management/replace-file-export-with-shim';
 import { updateImportPathsToPackageAlias } from '../import-updates/update-import-paths-to-package-alias';
+import { getExportedSymbols } from '../export-management/get-exported-symbols';
+import { getIndexExports } from '../export-management/index-exports-cache';
 
 /**
  * Handles the move when the source file is exported and must update dependents.
  *
+ * With `leaveShim`, the source project keeps a deprecated re-export from the
+ * target project instead of losing the export, and `updateDependents: false`
+ * leaves dependent projects on that re-export. The shim names the moved
+ * file's symbols; when they cannot be determined, no shim is left and
+ * dependents are updated regardless.
+ *
  * @param tree - The virtual file system tree.
  * @param getProjectGraphAsync - Lazy getter for the dependency graph (only creates when needed).
  * @param projects - Map of all projects in the workspace.
@@ -16,6 +26,7 @@ import { updateImportPathsToPackageAlias } from '../import-updates/update-import
  * @param getCachedDependentProjects - Function to get cached dependent projects.
  * @param getProjectSourceFiles - Function to get project source files with caching.
  * @param cachedTreeExists - Function to check file existence with caching.
+ * @param options - Shim options of the move.
  */
 export async function handleExportedMove(
   tree: Tree,
@@ -28,6 +39,7 @@ export async function handleExportedMove(
   ) => Set<string>,
   getProjectSourceFiles: (tree: Tree, projectRoot: string) => string[],
   cachedTreeExists: (tree: Tree, filePath: string) => boolean,
+  options: Pick<MoveFileGeneratorSchema, 'leaveShim' | 'updateDependents'> = {},
 ): Promise<void> {
   const {
     sourceProjectName,
@@ -53,35 +65,62 @@ export async function handleExportedMove(
   const targetRoot = targetProject.sourceRoot || targetProject.root;
   const relativeFilePathInTarget = path.relative(targetRoot, normalizedTarget);
 
-  // Lazily load project graph only when updating dependent projects.
-  // This is the only code path that requires the graph, so we defer creation until here.
-  // Same-project moves and non-exported cross-project moves never reach this code.
-  const projectGraph = await getProjectGraphAsync();
+  // Only the moved file's symbols follow it; other barrel imports stay put
+  const movedSymbols = getExportedSymbols(tree, normalizedTarget);
 
-  await updateImportPathsInDependentProjects(
-    tree,
-    projectGraph,
-    projects,
-    sourceProjectName,
-    sourceImportPath,
-    targetImportPath,
-    {
-      targetProjectName,
-      targetRelativePath: relativeFilePathInTarget,
-    },
-    getCachedDependentProjects,
-    getProjectSourceFiles,
-  );
+  // A shim re-exports exactly the moved symbols, never the whole target project
+  const leaveShim = Boolean(options.leaveShim && movedSymbols);
+  if (options.leaveShim && !movedSymbols) {
+    logger.warn(
+      `Cannot leave a shim for ${normalizedSource} in ${sourceImportPath}: the exports of ${normalizedTarget} cannot be determined statically. The export is removed and dependents import from ${targetImportPath}.`,
+    );
+  }
 
-  // Remove the export from source index BEFORE updating imports to package alias
+  // Dependents may only stay on the old import path when a shim keeps it working
+  if (!leaveShim || options.updateDependents !== false) {
+    // Lazily load project graph only when updating dependent projects.
+    // This is the only code path that requires the graph, so we defer creation until here.
+    // Same-project moves and non-exported cross-project moves never reach this code.
+    const projectGraph = await getProjectGraphAsync();
+
+    await updateImportPathsInDependentProjects(
+      tree,
+      projectGraph,
+      projects,
+      sourceProjectName,
+      sourceImportPath,
+      targetImportPath,
+      {
+        targetProjectName,
+        targetRelativePath: relativeFilePathInTarget,
+      },
+      getCachedDependentProjects,
+      getProjectSourceFiles,
+      movedSymbols,
+    );
+  }
+
+  // Remove (or replace) the export from source index BEFORE updating imports to package alias
   // This ensures we can find and remove the relative path export before it's
   // converted to a package alias
-  removeFileExport(
-    tree,
-    sourceProject,
-    relativeFilePathInSource,
-    cachedTreeExists,
-  );
+  if (leaveShim && movedSymbols) {
+    replaceFileExportWithShim(
+      tree,
+      sourceProject,
+      relativeFilePathInSource,
+      targetImportPath,
+      movedSymbols,
+      getIndexExports(tree, normalizedTarget).typeExports,
+      cachedTreeExists,
+    );
+  } else {
+    removeFileExport(
+      tree,
+      sourceProject,
+      relativeFilePathInSource,
+      cachedTreeExists,
+    );
+  }
 
   updateImportPathsToPackageAlias(
     tree,
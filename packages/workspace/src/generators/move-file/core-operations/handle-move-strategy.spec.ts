@@ -2,12 +2,14 @@ import { Tree, ProjectConfiguration } from '@nx/devkit';
 import { createTreeWithEmptyWorkspace } from '@nx/devkit/testing';
 import { handleMoveStrategy } from './handle-move-strategy';
 import { handleSameProjectMove } from './handle-same-project-move';
+import { handleEntryPointChange } from './handle-entry-point-change';
 import { handleExportedMove } from './handle-exported-move';
 import { handleNonExportedAliasMove } from './handle-non-exported-alias-move';
 import { handleDefaultMove } from './handle-default-move';
 import type { MoveContext } from '../types/move-context';
 
 jest.mock('./handle-same-project-move');
+jest.mock('./handle-entry-point-change');
 jest.mock('./handle-exported-move');
 jest.mock('./handle-non-exported-alias-move');
 jest.mock('./handle-default-move');
@@ -69,6 +71,15 @@ describe('handleMoveStrategy', () => {
       ctx,
       mockGetProjectSourceFiles,
     );
+    expect(handleEntryPointChange).toHaveBeenCalledWith(
+      tree,
+      mockGetProjectGraphAsync,
+      projects,
+      ctx,
+      mockGetCachedDependentProjects,
+      mockGetProjectSourceFiles,
+      mockCachedTreeExists,
+    );
     expect(handleExportedMove).not.toHaveBeenCalled();
     expect(handleNonExportedAliasMove).not.toHaveBeenCalled();
     expect(handleDefaultMove).not.toHaveBeenCalled();
@@ -112,6 +123,7 @@ describe('handleMoveStrategy', () => {
       mockGetCachedDependentProjects,
       mockGetProjectSourceFiles,
       mockCachedTreeExists,
+      { leaveShim: true },
     );
 
     expect(handleExportedMove).toHaveBeenCalledWith(
@@ -122,6 +134,7 @@ describe('handleMoveStrategy', () => {
       mockGetCachedDependentProjects,
       mockGetProjectSourceFiles,
       mockCachedTreeExists,
+      { leaveShim: true },
     );
     expect(handleSameProjectMove).not.toHaveBeenCalled();
     expect(handleNonExportedAliasMove).not.toHaveBeenCalled();
@@ -1,9 +1,12 @@
 import type { Tree, ProjectConfiguration, ProjectGraph } from '@nx/devkit';
+import type { MoveFileGeneratorSchema } from '../schema';
 import type { MoveContext } from '../types/move-context';
 import { handleSameProjectMove } from './handle-same-project-move';
+import { handleEntryPointChange } from './handle-entry-point-change';
 import { handleExportedMove } from './handle-exported-move';
 import { handleNonExportedAliasMove } from './handle-non-exported-alias-move';
 import { handleDefaultMove } from './handle-default-move';
+import { selectMoveStrategy } from './select-move-strategy';
 
 /**
  * Decides which move strategy to execute based on the context.
@@ -15,6 +18,7 @@ import { handleDefaultMove } from './handle-default-move';
  * @param getCachedDependentProjects - Function to get cached dependent projects.
  * @param getProjectSourceFiles - Function to get project source files with caching.
  * @param cachedTreeExists - Function to check file existence with caching.
+ * @param options - Shim options of the move.
  */
 export async function handleMoveStrategy(
   tree: Tree,
@@ -27,31 +31,37 @@ export async function handleMoveStrategy(
   ) => Set<string>,
   getProjectSourceFiles: (tree: Tree, projectRoot: string) => string[],
   cachedTreeExists: (tree: Tree, filePath: string) => boolean,
+  options: Pick<MoveFileGeneratorSchema, 'leaveShim' | 'updateDependents'> = {},
 ): Promise<void> {
-  const { isSameProject, isExported, sourceImportPath, targetImportPath } = ctx;
-
-  if (isSameProject) {
-    handleSameProjectMove(tree, ctx, getProjectSourceFiles);
-    return;
-  }
-
-  if (isExported && sourceImportPath && targetImportPath) {
-    await handleExportedMove(
-      tree,
-      getProjectGraphAsync,
-      projects,
-      ctx,
-      getCachedDependentProjects,
-      getProjectSourceFiles,
-      cachedTreeExists,
-    );
-    return;
+  switch (selectMoveStrategy(ctx)) {
+    case 'same-project':
+      handleSameProjectMove(tree, ctx, getProjectSourceFiles);
+      await handleEntryPointChange(
+        tree,
+        getProjectGraphAsync,
+        projects,
+        ctx,
+        getCachedDependentProjects,
+        getProjectSourceFiles,
+        cachedTreeExists,
+      );
+      return;
+    case 'exported':
+      await handleExportedMove(
+        tree,
+        getProjectGraphAsync,
+        projects,
+        ctx,
+        getCachedDependentProjects,
+        getProjectSourceFiles,
+        cachedTreeExists,
+        options,
+      );
+      return;
+    case 'non-exported-alias':
+      handleNonExportedAliasMove(tree, ctx, getProjectSourceFiles);
+      return;
+    default:
+      handleDefaultMove(tree, ctx, getProjectSourceFiles);
   }
-
-  if (targetImportPath) {
-    handleNonExportedAliasMove(tree, ctx, getProjectSourceFiles);
-    return;
-  }
-
-  handleDefaultMove(tree, ctx, getProjectSourceFiles);
 }
@@ -0,0 +1,150 @@
+import { Tree } from '@nx/devkit';
+import { createTreeWithEmptyWorkspace } from '@nx/devkit/testing';
+import { mergeIntoExistingFile } from './merge-into-existing-file';
+import { astCache } from '../ast-cache';
+import { treeReadCache } from '../tree-cache';
+
+describe('mergeIntoExistingFile', () => {
+  let tree: Tree;
+  const cachedTreeExists = (tree: Tree, filePath: string) =>
+    tree.exists(filePath);
+  const target = 'packages/lib2/src/lib/util.ts';
+
+  beforeEach(() => {
+    tree = createTreeWithEmptyWorkspace();
+    astCache.clear();
+    treeReadCache.clear();
+  });
+
+  it('should append the moved declarations to the existing content', () => {
+    tree.write(target, "export const format = () => 'format';\n");
+
+    mergeIntoExistingFile(
+      tree,
+      target,
+      "export const parse = () => 'parse';\n",
+      cachedTreeExists,
+    );
+
+    expect(tree.read(target, 'utf-8')).toBe(
+      "export const parse = () => 'parse';\n\nexport const format = () => 'format';\n",
+    );
+  });
+
+  it('should combine the imports of both files', () => {
+    tree.write(
+      target,
+      [
+        "import { join, resolve } from 'node:path';",
+        "import { z } from 'zod';",
+        "import 'reflect-metadata';",
+        '',
+        'export const format = () => join(resolve(), z.string().parse(""));',
+        '',
+      ].join('\n'),
+    );
+
+    mergeIntoExistingFile(
+      tree,
+      target,
+      [
+        "import { dirname, join } from 'node:path';",
+        "import 'reflect-metadata';",
+        '',
+        'export const parse = () => join(dirname(""));',
+        '',
+      ].join('\n'),
+      cachedTreeExists,
+    );
+
+    const content = tree.read(target, 'utf-8');
+    expect(content).toContain(
+      "import { dirname, join, resolve } from 'node:path';",
+    );
+    expect(content).toContain("import { z } from 'zod';");
+    expect(content?.match(/import 'reflect-metadata';/g)).toHaveLength(1);
+    expect(content).toContain('export const parse');
+    expect(content).toContain('export const format');
+  });
+
+  it('should drop moved imports of the target file itself', () => {
+    tree.write('packages/lib2/src/lib/other.ts', 'export const other = 1;\n');
+    tree.write(
+      target,
+      [
+        "import { parse } from './util';",
+        "import { other } from './other';",
+        '',
+        'export const format = () => parse() + other;',
+        '',
+      ].join('\n'),
+    );
+
+    mergeIntoExistingFile(
+      tree,
+      target,
+      "export const parse = () => 'parse';\n",
+      cachedTreeExists,
+    );
+
+    const content = tree.read(target, 'utf-8');
+    expect(content).not.toContain("from './util'");
+    expect(content).toContain("import { other } from './other';");
+  });
+
+  it('should refuse names that are already bound in the existing file', () => {
+    tree.write(
+      target,
+      "import { parse } from 'parser';\n\nexport const format = () => parse();\n",
+    );
+
+    expect(() =>
+      mergeIntoExistingFile(
+        tree,
+        target,
+        "export const parse = () => 'parse';\n",
+        cachedTreeExists,
+      ),
+    ).toThrow(
+      'Cannot merge into "packages/lib2/src/lib/util.ts": "parse" is already defined in the file',
+    );
+  });
+
+  it('should merge imports of the same module into one declaration', () => {
+    tree.write(
+      target,
+      [
+        "import { u1 } from '@test/lib1';",
+        "import { u2 } from '@test/lib1';",
+        "import type { T } from '@test/lib1';",
+        "import { named } from 'lib';",
+        "import { other } from 'ns';",
+        '',
+        'export const parse = (value: T) => u1 + u2 + value + named + other;',
+        '',
+      ].join('\n'),
+    );
+
+    mergeIntoExistingFile(
+      tree,
+      target,
+      [
+        "import { u0 } from '@test/lib1';",
+        "import lib from 'lib';",
+        "import * as ns from 'ns';",
+        '',
+        'export const format = () => u0 + lib + ns.x;',
+        '',
+      ].join('\n'),
+      cachedTreeExists,
+    );
+
+    const content = tree.read(target, 'utf-8');
+    expect(content).toContain("import { u0, u1, u2 } from '@test/lib1';");
+    expect(content).toContain("import type { T } from '@test/lib1';");
+    expect(content?.match(/from '@test\/lib1'/g)).toHaveLength(2);
+    expect(content).toContain("import lib, { named } from 'lib';");
+    expect(content).toContain("import * as ns from 'ns';");
+    expect(content).toContain("import { other } from 'ns';");
+  });
+});
@@ -0,0 +1,177 @@
+import type { Tree } from '@nx/devkit';
+import type { ASTPath, ImportDeclaration } from 'jscodeshift';
+import { posix as path } from 'node:path';
+import { astCache, j } from '../ast-cache';
+import { treeReadCache } from '../tree-cache';
+import { resolveRelativeImport } from '../path-utils/resolve-relative-import';
+import { getDeclaredNames } from '../symbol-operations/get-declared-names';
+
+type ImportSpecifierNode = NonNullable<ImportDeclaration['specifiers']>[number];
+
+/**
+ * Merges the content a target file had before the move back into it
+ * (`onConflict: 'merge-exports'`).
+ *
+ * The target file holds the moved file, with its imports already updated for
+ * its new location. The result is the previous content, followed by the
+ * moved file's declarations. The moved file's imports join the previous
+ * imports, in a single declaration per module where the specifiers allow;
+ * imports of names both files import from the same module are kept once,
+ * and imports of the target file itself are dropped since those names are
+ * declared in the file afterwards.
+ *
+ * @param tree - The virtual file system tree.
+ * @param normalizedTarget - Path of the target file.
+ * @param existingContent - Content of the target file before the move.
+ * @param cachedTreeExists - Function to check file existence with caching.
+ * @throws Error if a name the moved file imports is already bound in the target file.
+ */
+export function mergeIntoExistingFile(
+  tree: Tree,
+  normalizedTarget: string,
+  existingContent: string,
+  cachedTreeExists: (tree: Tree, filePath: string) => boolean,
+): void {
+  const movedContent = treeReadCache.read(tree, normalizedTarget, 'utf-8');
+  const existing = j(existingContent);
+  const moved = j(movedContent ?? '');
+  const existingBody: ASTPath['node'][] = existing
+    .find(j.Program)
+    .get('body').value;
+
+  const importedNames = new Map<string, string>();
+  existing.find(j.ImportDeclaration).forEach((importPath) => {
+    for (const specifier of importPath.node.specifiers ?? []) {
+      if (specifier.local) {
+        importedNames.set(
+          specifier.local.name,
+          getImportKey(importPath.node, specifier),
+        );
+      }
+    }
+  });
+  const declaredNames = new Set(existingBody.flatMap(getDeclaredNames));
+  const targetDirectory = path.dirname(normalizedTarget);
+
+  moved.find(j.ImportDeclaration).forEach((importPath) => {
+    const declaration = importPath.node;
+    const source = String(declaration.source.value);
+    importPath.prune();
+
+    if (
+      source.startsWith('.') &&
+      resolveRelativeImport(tree, targetDirectory, source, cachedTreeExists) ===
+        normalizedTarget
+    ) {
+      return;
+    }
+
+    const specifiers = (declaration.specifiers ?? []).filter((specifier) => {
+      const localName = specifier.local?.name;
+      if (!localName) {
+        return true;
+      }
+      const existingKey = importedNames.get(localName);
+      if (existingKey === getImportKey(declaration, specifier)) {
+        return false;
+      }
+      if (existingKey !== undefined || declaredNames.has(localName)) {
+        throw new Error(
+          `Cannot merge into "${normalizedTarget}": "${localName}" is already defined in the file`,
+        );
+      }
+      return true;
+    });
+
+    const isSideEffectImport = (declaration.specifiers ?? []).length === 0;
+    if (specifiers.length === 0 && !isSideEffectImport) {
+      return;
+    }
+
+    const mergeTarget = existing
+      .find(j.ImportDeclaration, (node: ImportDeclaration) => {
+        return (
+          node.source.value === source &&
+          (node.importKind ?? 'value') ===
+            (declaration.importKind ?? 'value') &&
+          canCombineSpecifiers(node.specifiers ?? [], specifiers)
+        );
+      })
+      .paths()[0];
+    if (mergeTarget && !isSideEffectImport) {
+      const combined = [...(mergeTarget.node.specifiers ?? []), ...specifiers];
+      mergeTarget.node.specifiers = [
+        ...combined.filter((specifier) =>
+          j.ImportDefaultSpecifier.check(specifier),
+        ),
+        ...combined.filter((specifier) => j.ImportSpecifier.check(specifier)),
+      ];
+      return;
+    }
+    if (
+      isSideEffectImport &&
+      existing.find(j.ImportDeclaration, { source: { value: source } }).size() >
+        0
+    ) {
+      return;
+    }
+
+    const lastImport = existing.find(j.ImportDeclaration).paths().at(-1);
+    const newDeclaration = j.importDeclaration(
+      specifiers,
+      j.stringLiteral(source),
+      declaration.importKind ?? 'value',
+    );
+    if (lastImport) {
+      lastImport.insertAfter(newDeclaration);
+    } else {
+      existingBody.unshift(newDeclaration);
+    }
+  });
+
+  const mergedContent = [
+    existing.toSource({ quote: 'single' }).trim(),
+    moved.toSource({ quote: 'single' }).trim(),
+  ]
+    .filter((part) => part.length > 0)
+    .join('\n\n');
+  tree.write(normalizedTarget, `${mergedContent}\n`);
+  treeReadCache.invalidateFile(normalizedTarget);
+  astCache.invalidate(normalizedTarget);
+}
+
+/**
+ * Checks whether the specifiers of two imports of the same module fit into a
+ * single import declaration: at most one default import and no namespace
+ * import, which cannot be combined with named imports.
+ */
+function canCombineSpecifiers(
+  existingSpecifiers: ImportSpecifierNode[],
+  addedSpecifiers: ImportSpecifierNode[],
+): boolean {
+  const specifiers = [...existingSpecifiers, ...addedSpecifiers];
+
+  return (
+    existingSpecifiers.length > 0 &&
+    specifiers.every(
+      (specifier) => !j.ImportNamespaceSpecifier.check(specifier),
+    ) &&
+    specifiers.filter((specifier) => j.ImportDefaultSpecifier.check(specifier))
+      .length <= 1
+  );
+}
+
+/**
+ * Identifies what an import specifier binds, so that the same import in both
+ * files is kept once.
+ */
+function getImportKey(
+  declaration: ImportDeclaration,
+  specifier: ImportSpecifierNode,
+): string {
+  const imported = j.ImportSpecifier.check(specifier)
+    ? specifier.imported.name
+    : specifier.type;
+
+  return `${declaration.importKind ?? 'value'}:${String(declaration.source.value)}:${imported}`;
+}
@@ -0,0 +1,72 @@
+import type { ProjectConfiguration } from '@nx/devkit';
+import { selectMoveStrategy } from './select-move-strategy';
+import type { MoveContext } from '../types/move-context';
+
+describe('selectMoveStrategy', () => {
+  const project: ProjectConfiguration = {
+    root: 'packages/lib1',
+    sourceRoot: 'packages/lib1/src',
+    projectType: 'library',
+  };
+
+  const createContext = (overrides: Partial<MoveContext>): MoveContext => ({
+    normalizedSource: 'packages/lib1/src/lib/test.ts',
+    normalizedTarget: 'packages/lib2/src/lib/test.ts',
+    sourceProject: project,
+    sourceProjectName: 'lib1',
+    targetProject: project,
+    targetProjectName: 'lib2',
+    fileContent: 'export const test = 1;',
+    sourceRoot: 'packages/lib1/src',
+    relativeFilePathInSource: 'lib/test.ts',
+    isExported: false,
+    sourceImportPath: null,
+    targetImportPath: null,
+    hasImportsInTarget: false,
+    hasImportsInSource: false,
+    isSameProject: false,
+    ...overrides,
+  });
+
+  it('should select same-project for moves within a project', () => {
+    const ctx = createContext({
+      isSameProject: true,
+      isExported: true,
+      sourceImportPath: '@test/lib1',
+      targetImportPath: '@test/lib1',
+    });
+
+    expect(selectMoveStrategy(ctx)).toBe('same-project');
+  });
+
+  it('should select exported for exported files with both aliases', () => {
+    const ctx = createContext({
+      isExported: true,
+      sourceImportPath: '@test/lib1',
+      targetImportPath: '@test/lib2',
+    });
+
+    expect(selectMoveStrategy(ctx)).toBe('exported');
+  });
+
+  it('should select non-exported-alias when only the target has an alias', () => {
+    const ctx = createContext({ targetImportPath: '@test/lib2' });
+
+    expect(selectMoveStrategy(ctx)).toBe('non-exported-alias');
+  });
+
+  it('should select non-exported-alias for exported files without a source alias', () => {
+    const ctx = createContext({
+      isExported: true,
+      targetImportPath: '@test/lib2',
+    });
+
+    expect(selectMoveStrategy(ctx)).toBe('non-exported-alias');
+  });
+
+  it('should select default when no aliases are available', () => {
+    const ctx = createContext({});
+
+    expect(selectMoveStrategy(ctx)).toBe('default');
+  });
+});
@@ -0,0 +1,26 @@
+import type { MoveContext } from '../types/move-context';
+import type { MoveStrategy } from '../types/move-plan';
+
+/**
+ * Selects the move strategy for a resolved move context.
+ *
+ * @param ctx - Resolved move context.
+ * @returns The strategy that handleMoveStrategy executes for this move.
+ */
+export function selectMoveStrategy(ctx: MoveContext): MoveStrategy {
+  const { isSameProject, isExported, sourceImportPath, targetImportPath } = ctx;
+
+  if (isSameProject) {
+    return 'same-project';
+  }
+
+  if (isExported && sourceImportPath && targetImportPath) {
+    return 'exported';
+  }
+
+  if (targetImportPath) {
+    return 'non-exported-alias';
+  }
+
+  return 'default';
+}
@@ -0,0 +1,187 @@
+import { Tree, readJson, updateJson, writeJson } from '@nx/devkit';
+import type { ProjectConfiguration } from '@nx/devkit';
+import { createTreeWithEmptyWorkspace } from '@nx/devkit/testing';
+import { updatePackageDependencies } from './update-package-dependencies';
+import { clearCache } from '../jscodeshift-utils';
+import { clearCompilerPathsCache } from '../project-analysis/read-compiler-paths';
+import { treeReadCache } from '../tree-cache';
+import type { MoveContext } from '../types/move-context';
+
+describe('updatePackageDependencies', () => {
+  let tree: Tree;
+  const projects = new Map<string, ProjectConfiguration>([
+    ['shared', { root: 'libs/shared', sourceRoot: 'libs/shared/src' }],
+    ['util', { root: 'libs/util', sourceRoot: 'libs/util/src' }],
+    ['feature', { root: 'libs/feature', sourceRoot: 'libs/feature/src' }],
+  ]);
+
+  const getProjectSourceFiles = (t: Tree, projectRoot: string): string[] =>
+    t.exists(`${projectRoot}/src/lib`)
+      ? t
+          .children(`${projectRoot}/src/lib`)
+          .map((fileName) => `${projectRoot}/src/lib/${fileName}`)
+      : [];
+
+  const context = {
+    sourceProjectName: 'shared',
+    targetProjectName: 'util',
+    isSameProject: false,
+    dependencyEdges: [
+      {
+        sourceProject: 'feature',
+        targetProject: 'util',
+        filePath: 'libs/feature/src/lib/a.ts',
+      },
+    ],
+  } as MoveContext;
+  const importedProjectNamesBeforeMove = new Map([
+    ['feature', new Set(['shared'])],
+  ]);
+
+  beforeEach(() => {
+    clearCache();
+    clearCompilerPathsCache();
+    treeReadCache.clear();
+    tree = createTreeWithEmptyWorkspace();
+    updateJson(tree, 'package.json', (json) => ({
+      ...json,
+      workspaces: ['libs/*'],
+    }));
+    for (const [name, project] of projects) {
+      writeJson(tree, `${project.root}/package.json`, {
+        name: `@org/${name}`,
+        version: '2.1.0',
+      });
+      tree.write(`${project.sourceRoot}/index.ts`, '');
+    }
+    tree.write(
+      'libs/feature/src/lib/a.ts',
+      "import { helper } from '@org/util';\n",
+    );
+    updateJson(tree, 'libs/feature/package.json', (json) => ({
+      ...json,
+      dependencies: { '@org/shared': '2.1.0', rxjs: '^7.0.0' },
+    }));
+  });
+
+  afterEach(() => {
+    clearCompilerPathsCache();
+    treeReadCache.clear();
+  });
+
+  it('should depend on the packages that the affected projects import after the move', () => {
+    updatePackageDependencies(
+      tree,
+      [context],
+      projects,
+      getProjectSourceFiles,
+      importedProjectNamesBeforeMove,
+    );
+
+    expect(readJson(tree, 'libs/feature/package.json').dependencies).toEqual({
+      '@org/util': '2.1.0',
+      rxjs: '^7.0.0',
+    });
+  });
+
+  it('should use the workspace protocol when the package already does', () => {
+    updateJson(tree, 'libs/feature/package.json', (json) => ({
+      ...json,
+      devDependencies: { '@org/testing': 'workspace:^' },
+    }));
+
+    updatePackageDependencies(
+      tree,
+      [context],
+      projects,
+      getProjectSourceFiles,
+      importedProjectNamesBeforeMove,
+    );
+
+    expect(readJson(tree, 'libs/feature/package.json').dependencies).toEqual({
+      '@org/util': 'workspace:*',
+      rxjs: '^7.0.0',
+    });
+  });
+
+  it('should not touch package.json files whose dependencies are up to date', () => {
+    updatePackageDependencies(
+      tree,
+      [context],
+      projects,
+      getProjectSourceFiles,
+      importedProjectNamesBeforeMove,
+    );
+
+    expect(readJson(tree, 'libs/util/package.json')).toEqual({
+      name: '@org/util',
+      version: '2.1.0',
+    });
+  });
+
+  it('should do nothing outside package-based workspaces', () => {
+    updateJson(tree, 'package.json', (json) => {
+      delete json.workspaces;
+      return json;
+    });
+    updateJson(tree, 'tsconfig.base.json', (json) => {
+      json.compilerOptions.paths = {
+        '@org/shared': ['libs/shared/src/index.ts'],
+        '@org/util': ['libs/util/src/index.ts'],
+      };
+      return json;
+    });
+
+    updatePackageDependencies(
+      tree,
+      [context],
+      projects,
+      getProjectSourceFiles,
+      importedProjectNamesBeforeMove,
+    );
+
+    expect(readJson(tree, 'libs/feature/package.json').dependencies).toEqual({
+      '@org/shared': '2.1.0',
+      rxjs: '^7.0.0',
+    });
+  });
+
+  it('should keep dependencies that the affected projects did not import before the move', () => {
+    updatePackageDependencies(
+      tree,
+      [context],
+      projects,
+      getProjectSourceFiles,
+      new Map(),
+    );
+
+    expect(readJson(tree, 'libs/feature/package.json').dependencies).toEqual({
+      '@org/shared': '2.1.0',
+      '@org/util': '2.1.0',
+      rxjs: '^7.0.0',
+    });
+  });
+
+  it('should add packages imported only by spec files to the dev dependencies', () => {
+    tree.write('libs/feature/src/lib/a.ts', '');
+    tree.write(
+      'libs/feature/src/lib/a.spec.ts',
+      "import { helper } from '@org/util';\n",
+    );
+
+    updatePackageDependencies(
+      tree,
+      [context],
+      projects,
+      getProjectSourceFiles,
+      importedProjectNamesBeforeMove,
+    );
+
+    expect(readJson(tree, 'libs/feature/package.json')).toEqual({
+      name: '@org/feature',
+      version: '2.1.0',
+      dependencies: { rxjs: '^7.0.0' },
+      devDependencies: { '@org/util': '2.1.0' },
+    });
+  });
+});
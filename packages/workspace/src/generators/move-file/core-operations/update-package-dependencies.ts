@@ -0,0 +1,181 @@
+import type { ProjectConfiguration, Tree } from '@nx/devkit';
+import { logger, writeJson } from '@nx/devkit';
+import { posix as path } from 'node:path';
+import { getMoveAffectedProjects } from '../project-analysis/get-move-affected-projects';
+import { getImportedProjectNames } from '../project-analysis/get-imported-project-names';
+import { isTestFile } from '../project-analysis/is-test-file';
+import { isPackageBasedWorkspace } from '../project-analysis/is-package-based-workspace';
+import { isUsingProjectReferences } from '../project-analysis/is-using-project-references';
+import { readProjectPackageJson } from '../project-analysis/read-project-package-json';
+import { treeReadCache } from '../tree-cache';
+import type { MoveContext } from '../types/move-context';
+import type { PackageJson } from '../types/package-json';
+
+/**
+ * Brings the dependencies of workspace packages in line with the package
+ * imports after cross-project moves, in package-based workspaces.
+ *
+ * The projects whose imports a move changes (see getMoveAffectedProjects)
+ * start depending on the packages of the projects involved in the move that
+ * they now import: in `dependencies`, or in `devDependencies` when only their
+ * spec and test files import them. They stop depending on them in
+ * `dependencies` when the moves removed their last import. New dependencies
+ * use the `workspace:*` protocol when the workspace uses it (pnpm, or
+ * existing `workspace:` dependencies), and the version of the imported
+ * package otherwise. Existing `devDependencies` and `peerDependencies` are
+ * left alone.
+ *
+ * @param tree - The virtual file system tree.
+ * @param contexts - Resolved contexts of the moved files.
+ * @param projects - Map of all projects in the workspace.
+ * @param getProjectSourceFiles - Function to get project source files with caching.
+ * @param importedProjectNamesBeforeMove - Imported projects of the affected projects before the moves (see getAffectedProjectImports).
+ */
+export function updatePackageDependencies(
+  tree: Tree,
+  contexts: MoveContext[],
+  projects: Map<string, ProjectConfiguration>,
+  getProjectSourceFiles: (tree: Tree, projectRoot: string) => string[],
+  importedProjectNamesBeforeMove: Map<string, Set<string>>,
+): void {
+  const { affectedProjectNames, involvedProjectNames } =
+    getMoveAffectedProjects(contexts);
+  if (
+    affectedProjectNames.size === 0 ||
+    !(isPackageBasedWorkspace(tree) || isUsingProjectReferences(tree))
+  ) {
+    return;
+  }
+
+  for (const projectName of affectedProjectNames) {
+    const project = projects.get(projectName);
+    const packageJson = project
+      ? readProjectPackageJson(tree, project.root)
+      : null;
+    if (!project || !packageJson) {
+      continue;
+    }
+
+    const importedProjectNames = getImportedProjectNames(
+      tree,
+      projectName,
+      project,
+      projects,
+      getProjectSourceFiles,
+    );
+    const runtimeImportedProjectNames = getImportedProjectNames(
+      tree,
+      projectName,
+      project,
+      projects,
+      getProjectSourceFiles,
+      (filePath) => !isTestFile(filePath),
+    );
+    const previouslyImportedProjectNames =
+      importedProjectNamesBeforeMove.get(projectName) ?? new Set<string>();
+    const dependencies = { ...packageJson.dependencies };
+    const devDependencies = { ...packageJson.devDependencies };
+    let changed = false;
+
+    for (const dependencyName of involvedProjectNames) {
+      const dependency = projects.get(dependencyName);
+      const dependencyPackageJson =
+        dependency && dependencyName !== projectName
+          ? readProjectPackageJson(tree, dependency.root)
+          : null;
+      const packageName = dependencyPackageJson?.name;
+      if (!dependencyPackageJson || !packageName) {
+        continue;
+      }
+
+      const isImported = importedProjectNames.has(dependencyName);
+      if (isImported && !isDeclared(packageJson, packageName)) {
+        const section = runtimeImportedProjectNames.has(dependencyName)
+          ? dependencies
+          : devDependencies;
+        section[packageName] = getDependencyVersion(
+          tree,
+          packageJson,
+          dependencyPackageJson,
+        );
+        changed = true;
+      } else if (
+        !isImported &&
+        previouslyImportedProjectNames.has(dependencyName) &&
+        packageName in dependencies
+      ) {
+        delete dependencies[packageName];
+        changed = true;
+      }
+    }
+
+    if (!changed) {
+      continue;
+    }
+
+    const packageJsonPath = path.join(project.root, 'package.json');
+    writeJson(tree, packageJsonPath, {
+      ...packageJson,
+      ...((packageJson.dependencies ||
+        Object.keys(dependencies).length > 0) && {
+        dependencies: sortDependencies(dependencies),
+      }),
+      ...((packageJson.devDependencies ||
+        Object.keys(devDependencies).length > 0) && {
+        devDependencies: sortDependencies(devDependencies),
+      }),
+    });
+    treeReadCache.invalidateFile(packageJsonPath);
+    logger.verbose(`Updated package dependencies in ${packageJsonPath}`);
+  }
+}
+
+/**
+ * Sorts a dependency section by package name.
+ */
+function sortDependencies(
+  dependencies: Record<string, string>,
+): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(dependencies).sort(([a], [b]) => a.localeCompare(b)),
+  );
+}
+
+/**
+ * Checks whether a package.json declares a package in any dependency section.
+ */
+function isDeclared(packageJson: PackageJson, packageName: string): boolean {
+  return [
+    packageJson.dependencies,
+    packageJson.devDependencies,
+    packageJson.peerDependencies,
+  ].some((section) => section !== undefined && packageName in section);
+}
+
+/**
+ * Gets the version range for a new dependency on a workspace package.
+ */
+function getDependencyVersion(
+  tree: Tree,
+  packageJson: PackageJson,
+  dependencyPackageJson: PackageJson,
+): string {
+  const usesWorkspaceProtocol =
+    tree.exists('pnpm-workspace.yaml') ||
+    [
+      packageJson.dependencies,
+      packageJson.devDependencies,
+      packageJson.peerDependencies,
+    ].some((section) =>
+      Object.values(section ?? {}).some(
+        (version) =>
+          typeof version === 'string' && version.startsWith('workspace:'),
+      ),
+    );
+
+  if (usesWorkspaceProtocol) {
+    return 'workspace:*';
+  }
+
+  return dependencyPackageJson.version ?? '*';
+}
@@ -0,0 +1,115 @@
+import { Tree, readJson, writeJson } from '@nx/devkit';
+import type { ProjectConfiguration } from '@nx/devkit';
+import { createTreeWithEmptyWorkspace } from '@nx/devkit/testing';
+import { updateProjectReferences } from './update-project-references';
+import { clearCache } from '../jscodeshift-utils';
+import { clearCompilerPathsCache } from '../project-analysis/read-compiler-paths';
+import { treeReadCache } from '../tree-cache';
+import type { MoveContext } from '../types/move-context';
+
+describe('updateProjectReferences', () => {
+  let tree: Tree;
+  const projects = new Map<string, ProjectConfiguration>([
+    ['shared', { root: 'libs/shared', sourceRoot: 'libs/shared/src' }],
+    ['util', { root: 'libs/util', sourceRoot: 'libs/util/src' }],
+    ['feature', { root: 'libs/feature', sourceRoot: 'libs/feature/src' }],
+    ['other', { root: 'libs/other', sourceRoot: 'libs/other/src' }],
+  ]);
+
+  const getProjectSourceFiles = (t: Tree, projectRoot: string): string[] =>
+    t
+      .children(`${projectRoot}/src/lib`)
+      .map((fileName) => `${projectRoot}/src/lib/${fileName}`);
+
+  const context = {
+    sourceProjectName: 'shared',
+    targetProjectName: 'util',
+    isSameProject: false,
+    dependencyEdges: [
+      {
+        sourceProject: 'feature',
+        targetProject: 'util',
+        filePath: 'libs/feature/src/lib/a.ts',
+      },
+    ],
+  } as MoveContext;
+
+  beforeEach(() => {
+    clearCache();
+    clearCompilerPathsCache();
+    treeReadCache.clear();
+    tree = createTreeWithEmptyWorkspace();
+    writeJson(tree, 'tsconfig.json', {
+      files: [],
+      references: [{ path: './libs/shared' }, { path: './libs/util' }],
+    });
+    for (const [name, project] of projects) {
+      writeJson(tree, `${project.root}/package.json`, { name: `@org/${name}` });
+      writeJson(tree, `${project.root}/tsconfig.json`, {
+        files: [],
+        references: [{ path: './tsconfig.lib.json' }],
+      });
+      writeJson(tree, `${project.root}/tsconfig.lib.json`, {});
+      tree.write(`${project.sourceRoot}/index.ts`, '');
+    }
+    tree.write(
+      'libs/feature/src/lib/a.ts',
+      "import { helper } from '@org/util';\nimport { x } from '@org/other';\n",
+    );
+    writeJson(tree, 'libs/feature/tsconfig.json', {
+      files: [],
+      references: [
+        { path: './tsconfig.lib.json' },
+        { path: '../shared' },
+        { path: '../other' },
+      ],
+    });
+  });
+
+  afterEach(() => {
+    clearCompilerPathsCache();
+    treeReadCache.clear();
+  });
+
+  it('should reference the projects that the affected projects import after the move', () => {
+    updateProjectReferences(tree, [context], projects, getProjectSourceFiles);
+
+    expect(readJson(tree, 'libs/feature/tsconfig.json').references).toEqual([
+      { path: './tsconfig.lib.json' },
+      { path: '../other' },
+      { path: '../util' },
+    ]);
+    expect(readJson(tree, 'libs/feature/tsconfig.lib.json').references).toEqual(
+      [{ path: '../util/tsconfig.lib.json' }],
+    );
+  });
+
+  it('should not touch tsconfig files whose references are up to date', () => {
+    updateProjectReferences(tree, [context], projects, getProjectSourceFiles);
+
+    expect(readJson(tree, 'libs/shared/tsconfig.lib.json')).toEqual({});
+  });
+
+  it('should do nothing without project references', () => {
+    writeJson(tree, 'tsconfig.json', { files: [] });
+
+    updateProjectReferences(tree, [context], projects, getProjectSourceFiles);
+
+    expect(readJson(tree, 'libs/feature/tsconfig.json').references).toEqual([
+      { path: './tsconfig.lib.json' },
+      { path: '../shared' },
+      { path: '../other' },
+    ]);
+  });
+
+  it('should ignore moves within a project', () => {
+    updateProjectReferences(
+      tree,
+      [{ ...context, isSameProject: true }],
+      projects,
+      getProjectSourceFiles,
+    );
+
+    expect(readJson(tree, 'libs/feature/tsconfig.lib.json')).toEqual({});
+  });
+});
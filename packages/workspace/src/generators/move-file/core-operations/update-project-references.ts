@@ -0,0 +1,180 @@
+import type { ProjectConfiguration, Tree } from '@nx/devkit';
+import { logger, normalizePath, readJson, writeJson } from '@nx/devkit';
+import { posix as path } from 'node:path';
+import { getMoveAffectedProjects } from '../project-analysis/get-move-affected-projects';
+import { getImportedProjectNames } from '../project-analysis/get-imported-project-names';
+import { isUsingProjectReferences } from '../project-analysis/is-using-project-references';
+import { treeReadCache } from '../tree-cache';
+import type { MoveContext } from '../types/move-context';
+
+/**
+ * Tsconfig files of a project whose `references` list the projects it imports.
+ * tsconfig.json references project directories, the build tsconfig files
+ * reference the build tsconfig files of the imported projects.
+ */
+const referencingTsconfigFiles = [
+  'tsconfig.json',
+  'tsconfig.lib.json',
+  'tsconfig.app.json',
+];
+
+/**
+ * Brings the TypeScript project references in line with the project
+ * dependencies after cross-project moves, in workspaces using project
+ * references.
+ *
+ * The projects whose imports a move changes reference the projects involved
+ * in the move (see getMoveAffectedProjects) exactly when they still import
+ * them. References to other projects are left alone.
+ *
+ * @param tree - The virtual file system tree.
+ * @param contexts - Resolved contexts of the moved files.
+ * @param projects - Map of all projects in the workspace.
+ * @param getProjectSourceFiles - Function to get project source files with caching.
+ */
+export function updateProjectReferences(
+  tree: Tree,
+  contexts: MoveContext[],
+  projects: Map<string, ProjectConfiguration>,
+  getProjectSourceFiles: (tree: Tree, projectRoot: string) => string[],
+): void {
+  const { affectedProjectNames, involvedProjectNames } =
+    getMoveAffectedProjects(contexts);
+  if (affectedProjectNames.size === 0 || !isUsingProjectReferences(tree)) {
+    return;
+  }
+
+  for (const projectName of affectedProjectNames) {
+    const project = projects.get(projectName);
+    if (!project) {
+      continue;
+    }
+
+    const importedProjectNames = getImportedProjectNames(
+      tree,
+      projectName,
+      project,
+      projects,
+      getProjectSourceFiles,
+    );
+
+    for (const fileName of referencingTsconfigFiles) {
+      const tsconfigPath = path.join(project.root, fileName);
+      if (!tree.exists(tsconfigPath)) {
+        continue;
+      }
+
+      updateTsconfigReferences(
+        tree,
+        tsconfigPath,
+        projectName,
+        project,
+        projects,
+        involvedProjectNames,
+        importedProjectNames,
+      );
+    }
+  }
+}
+
+/**
+ * Adds references to the imported involved projects and removes references
+ * to the involved projects that are no longer imported.
+ */
+function updateTsconfigReferences(
+  tree: Tree,
+  tsconfigPath: string,
+  projectName: string,
+  project: ProjectConfiguration,
+  projects: Map<string, ProjectConfiguration>,
+  involvedProjectNames: Set<string>,
+  importedProjectNames: Set<string>,
+): void {
+  const tsconfig = readJson(tree, tsconfigPath);
+  const references: { path?: unknown }[] = Array.isArray(tsconfig.references)
+    ? tsconfig.references
+    : [];
+  const referencedDirectories = references.map((reference) =>
+    getReferencedDirectory(project.root, reference?.path),
+  );
+
+  const nextReferences = references.filter((_, index) => {
+    const referencedProjectName = Array.from(involvedProjectNames).find(
+      (name) => projects.get(name)?.root === referencedDirectories[index],
+    );
+    return (
+      !referencedProjectName ||
+      referencedProjectName === projectName ||
+      importedProjectNames.has(referencedProjectName)
+    );
+  });
+
+  const isBuildTsconfig = path.basename(tsconfigPath) !== 'tsconfig.json';
+  for (const dependencyName of involvedProjectNames) {
+    const dependency = projects.get(dependencyName);
+    if (
+      !dependency ||
+      !importedProjectNames.has(dependencyName) ||
+      referencedDirectories.includes(dependency.root)
+    ) {
+      continue;
+    }
+
+    const referencedPath = getReferencedPath(tree, dependency, isBuildTsconfig);
+    if (referencedPath) {
+      nextReferences.push({
+        path: path.relative(project.root, referencedPath),
+      });
+    }
+  }
+
+  if (
+    nextReferences.length === references.length &&
+    nextReferences.every((reference, index) => reference === references[index])
+  ) {
+    return;
+  }
+
+  writeJson(tree, tsconfigPath, { ...tsconfig, references: nextReferences });
+  treeReadCache.invalidateFile(tsconfigPath);
+  logger.verbose(`Updated project references in ${tsconfigPath}`);
+}
+
+/**
+ * Gets the project directory a reference points to, from the reference path
+ * of either a directory or a tsconfig file.
+ */
+function getReferencedDirectory(
+  projectRoot: string,
+  referencePath: unknown,
+): string | undefined {
+  if (typeof referencePath !== 'string') {
+    return undefined;
+  }
+
+  const resolved = normalizePath(path.join(projectRoot, referencePath));
+  return resolved.endsWith('.json') ? path.dirname(resolved) : resolved;
+}
+
+/**
+ * Gets the path of what a reference to the dependency points to: its directory
+ * (for its tsconfig.json) or, from build tsconfig files, its tsconfig.lib.json.
+ */
+function getReferencedPath(
+  tree: Tree,
+  dependency: ProjectConfiguration,
+  isBuildTsconfig: boolean,
+): string | undefined {
+  const buildTsconfigPath = path.join(dependency.root, 'tsconfig.lib.json');
+  const hasTsconfig = tree.exists(path.join(dependency.root, 'tsconfig.json'));
+  const hasBuildTsconfig = tree.exists(buildTsconfigPath);
+
+  if (isBuildTsconfig && hasBuildTsconfig) {
+    return buildTsconfigPath;
+  }
+  if (hasTsconfig) {
+    return dependency.root;
+  }
+
+  return hasBuildTsconfig ? buildTsconfigPath : undefined;
+}
@@ -0,0 +1,92 @@
+import { Tree, logger } from '@nx/devkit';
+import type { ProjectConfiguration } from '@nx/devkit';
+import { createTreeWithEmptyWorkspace } from '@nx/devkit/testing';
+import { ensureDirectoryExported } from './ensure-directory-exported';
+import { clearIndexExportsCache } from './index-exports-cache';
+import { treeReadCache } from '../tree-cache';
+import { astCache } from '../ast-cache';
+import { clearCompilerPathsCache } from '../project-analysis/read-compiler-paths';
+
+describe('ensureDirectoryExported', () => {
+  let tree: Tree;
+  let project: ProjectConfiguration;
+  const cachedTreeExists = (t: Tree, filePath: string) => t.exists(filePath);
+
+  beforeEach(() => {
+    tree = createTreeWithEmptyWorkspace();
+    project = {
+      root: 'libs/mylib',
+      sourceRoot: 'libs/mylib/src',
+      name: 'mylib',
+    } as ProjectConfiguration;
+    jest.spyOn(logger, 'verbose').mockImplementation();
+    treeReadCache.clear();
+    clearIndexExportsCache();
+    astCache.clear();
+    clearCompilerPathsCache();
+
+    tree.write('libs/mylib/src/lib/auth/login.ts', 'export const login = 1;');
+    tree.write(
+      'libs/mylib/src/lib/auth/guards/guard.ts',
+      'export const guard = 1;',
+    );
+    tree.write(
+      'libs/mylib/src/index.ts',
+      "export * from './lib/auth/login';\nexport * from './lib/auth/guards/guard';\n",
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    clearCompilerPathsCache();
+  });
+
+  it('should create a directory index and export the directory', () => {
+    ensureDirectoryExported(
+      tree,
+      project,
+      'lib/auth',
+      ['lib/auth/login.ts', 'lib/auth/guards/guard.ts'],
+      cachedTreeExists,
+    );
+
+    expect(tree.read('libs/mylib/src/lib/auth/index.ts', 'utf-8')).toBe(
+      "export * from './login';\nexport * from './guards/guard';\n",
+    );
+    expect(tree.read('libs/mylib/src/index.ts', 'utf-8')).toBe(
+      "export * from './lib/auth';\n",
+    );
+  });
+
+  it('should only add files missing from an existing directory index', () => {
+    tree.write(
+      'libs/mylib/src/lib/auth/index.ts',
+      "export { login } from './login';",
+    );
+
+    ensureDirectoryExported(
+      tree,
+      project,
+      'lib/auth',
+      ['lib/auth/login.ts', 'lib/auth/guards/guard.ts'],
+      cachedTreeExists,
+    );
+
+    expect(tree.read('libs/mylib/src/lib/auth/index.ts', 'utf-8')).toBe(
+      "export { login } from './login';\nexport * from './guards/guard';\n",
+    );
+  });
+
+  it('should create index.js for directories with only JavaScript files', () => {
+    ensureDirectoryExported(
+      tree,
+      project,
+      'lib/auth',
+      ['lib/auth/login.js'],
+      cachedTreeExists,
+    );
+
+    expect(tree.exists('libs/mylib/src/lib/auth/index.js')).toBe(true);
+    expect(tree.exists('libs/mylib/src/lib/auth/index.ts')).toBe(false);
+  });
+});
@@ -0,0 +1,88 @@
+import type { Tree } from '@nx/devkit';
+import type { ProjectConfiguration } from '@nx/devkit';
+import { logger } from '@nx/devkit';
+import { posix as path } from 'node:path';
+import { sourceFileExtensions } from '../constants/file-extensions';
+import { removeSourceFileExtension } from '../path-utils/remove-source-file-extension';
+import { treeReadCache } from '../tree-cache';
+import { astCache } from '../ast-cache';
+import { moveRecorder } from '../reporting/move-recorder';
+import { ensureFileExported } from './ensure-file-exported';
+import { getReexportedFiles } from './get-reexported-files';
+import { invalidateIndexExportsCache } from './index-exports-cache';
+import { removeFileExport } from './remove-file-export';
+
+/**
+ * Replaces per-file exports of a folder's files in the project's entrypoint
+ * with a single folder-level export.
+ *
+ * Files that are not re-exported by the folder's index file yet are added to
+ * it. The index file is created when the folder has none, as `index.js` for
+ * folders with only JavaScript files and as `index.ts` otherwise.
+ *
+ * @param tree - The virtual file system tree.
+ * @param project - Project configuration.
+ * @param directory - Relative directory path within project (e.g., "lib/auth").
+ * @param files - Relative paths within project of the folder's exported files (e.g., "lib/auth/login.ts").
+ * @param cachedTreeExists - Cached tree.exists() function.
+ */
+export function ensureDirectoryExported(
+  tree: Tree,
+  project: ProjectConfiguration,
+  directory: string,
+  files: string[],
+  cachedTreeExists: (tree: Tree, filePath: string) => boolean,
+): void {
+  const sourceRoot = project.sourceRoot || project.root;
+  const directoryPath = path.join(sourceRoot, directory);
+
+  const isJavaScriptOnly = files.every((file) => /\.[cm]?jsx?$/.test(file));
+  const directoryIndexPath =
+    sourceFileExtensions
+      .map((ext) => path.join(directoryPath, `index${ext}`))
+      .find((indexPath) => cachedTreeExists(tree, indexPath)) ??
+    path.join(directoryPath, isJavaScriptOnly ? 'index.js' : 'index.ts');
+
+  const reexportedFiles = cachedTreeExists(tree, directoryIndexPath)
+    ? new Set(getReexportedFiles(tree, directoryIndexPath, cachedTreeExists))
+    : new Set<string>();
+
+  let content = cachedTreeExists(tree, directoryIndexPath)
+    ? treeReadCache.read(tree, directoryIndexPath, 'utf-8') || ''
+    : '';
+  let hasAddedExports = false;
+
+  for (const file of files) {
+    const filePath = path.join(sourceRoot, file);
+    if (filePath === directoryIndexPath || reexportedFiles.has(filePath)) {
+      continue;
+    }
+
+    const exportStatement = `export * from './${removeSourceFileExtension(path.relative(directoryPath, filePath))}';\n`;
+    if (content.includes(exportStatement.trim())) {
+      continue;
+    }
+
+    if (content !== '' && !content.endsWith('\n')) {
+      content += '\n';
+    }
+    content += exportStatement;
+    hasAddedExports = true;
+    moveRecorder.recordExportAdded(directoryIndexPath, exportStatement.trim());
+  }
+
+  if (hasAddedExports) {
+    tree.write(directoryIndexPath, content);
+    treeReadCache.invalidateFile(directoryIndexPath);
+    invalidateIndexExportsCache(directoryIndexPath);
+    astCache.invalidate(directoryIndexPath);
+    logger.verbose(`Added exports to ${directoryIndexPath}`);
+  }
+
+  // Add the folder-level export before removing the per-file exports so that
+  // the entrypoint never ends up empty
+  ensureFileExported(tree, project, directory, cachedTreeExists);
+  files.forEach((file) =>
+    removeFileExport(tree, project, file, cachedTreeExists),
+  );
+}
@@ -4,6 +4,8 @@ import { ensureFileExported } from './ensure-file-exported';
 import type { ProjectConfiguration } from '@nx/devkit';
 import { treeReadCache } from '../tree-cache';
 import { clearCompilerPathsCache } from '../project-analysis/read-compiler-paths';
+import { clearProjectCompilerOptionsCache } from '../project-analysis/read-project-compiler-options';
+import { astCache } from '../ast-cache';
 
 describe('ensureFileExported', () => {
   let tree: Tree;
@@ -21,6 +23,8 @@ describe('ensureFileExported', () => {
     jest.spyOn(logger, 'verbose').mockImplementation();
     treeReadCache.clear();
     clearCompilerPathsCache();
+    clearProjectCompilerOptionsCache();
+    astCache.clear();
   });
 
   afterEach(() => {
@@ -137,4 +141,74 @@ describe('ensureFileExported', () => {
     expect(content).toContain(`export * from './lib/utils';`);
     expect(content).not.toContain('.tsx');
   });
+
+  describe('secondary entry points', () => {
+    const writeSecondaryEntryPoint = (): void => {
+      tree.write(
+        'tsconfig.base.json',
+        JSON.stringify({
+          compilerOptions: {
+            paths: {
+              '@myorg/mylib': ['libs/mylib/src/index.ts'],
+              '@myorg/mylib/testing': ['libs/mylib/src/testing/index.ts'],
+            },
+          },
+        }),
+      );
+      tree.write('libs/mylib/src/index.ts', '');
+    };
+
+    it('should export files from the barrel of their entry point', () => {
+      writeSecondaryEntryPoint();
+      tree.write('libs/mylib/src/testing/index.ts', '');
+
+      ensureFileExported(tree, project, 'testing/mocks.ts', cachedTreeExists);
+
+      expect(tree.read('libs/mylib/src/testing/index.ts', 'utf-8')).toBe(
+        `export * from './mocks';\n`,
+      );
+      expect(tree.read('libs/mylib/src/index.ts', 'utf-8')).toBe('');
+    });
+
+    it('should export other files from the project entrypoint', () => {
+      writeSecondaryEntryPoint();
+      tree.write('libs/mylib/src/testing/index.ts', '');
+
+      ensureFileExported(tree, project, 'lib/utils.ts', cachedTreeExists);
+
+      expect(tree.read('libs/mylib/src/index.ts', 'utf-8')).toBe(
+        `export * from './lib/utils';\n`,
+      );
+      expect(tree.read('libs/mylib/src/testing/index.ts', 'utf-8')).toBe('');
+    });
+  });
+
+  describe('import extensions', () => {
+    it('should name the file like the other exports of the entrypoint', () => {
+      tree.write(
+        'libs/mylib/src/index.ts',
+        `export * from './lib/helpers.js';\n`,
+      );
+
+      ensureFileExported(tree, project, 'lib/utils.mts', cachedTreeExists);
+
+      expect(tree.read('libs/mylib/src/index.ts', 'utf-8')).toBe(
+        `export * from './lib/helpers.js';\nexport * from './lib/utils.mjs';\n`,
+      );
+    });
+
+    it('should use the module resolution of the project for empty entrypoints', () => {
+      tree.write('libs/mylib/src/index.ts', '');
+      tree.write(
+        'libs/mylib/tsconfig.lib.json',
+        JSON.stringify({ compilerOptions: { moduleResolution: 'nodenext' } }),
+      );
+
+      ensureFileExported(tree, project, 'lib/utils.ts', cachedTreeExists);
+
+      expect(tree.read('libs/mylib/src/index.ts', 'utf-8')).toBe(
+        `export * from './lib/utils.js';\n`,
+      );
+    });
+  });
 });
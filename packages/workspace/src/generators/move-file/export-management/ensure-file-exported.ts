@@ -1,16 +1,23 @@
 import type { Tree } from '@nx/devkit';
 import type { ProjectConfiguration } from '@nx/devkit';
 import { logger } from '@nx/devkit';
+import { posix as path } from 'node:path';
 import { getProjectEntryPointPaths } from '../project-analysis/get-project-entry-point-paths';
-import { removeSourceFileExtension } from '../path-utils/remove-source-file-extension';
+import { getSecondaryEntryPoints } from '../project-analysis/get-secondary-entry-points';
+import { findEntryPointForFile } from '../project-analysis/find-entry-point-for-file';
+import { getEntryPointExportPath } from './get-entry-point-export-path';
+import { getImportExtension } from '../path-utils/get-import-extension';
+import { getFileImportExtensionStyle } from '../import-updates/get-file-import-extension-style';
 import { treeReadCache } from '../tree-cache';
 import { invalidateIndexExportsCache } from './index-exports-cache';
 import { astCache } from '../ast-cache';
+import { moveRecorder } from '../reporting/move-recorder';
 
 /**
  * Ensures the file is exported from the target project's entrypoint.
  *
- * This function adds an export statement to the project's index file.
+ * This function adds an export statement to the project's index file, or to
+ * the barrel of the secondary entry point whose directory contains the file.
  * If the export already exists, it does nothing to avoid duplicates.
  *
  * @param tree - The virtual file system tree.
@@ -24,11 +31,19 @@ export function ensureFileExported(
   file: string,
   cachedTreeExists: (tree: Tree, filePath: string) => boolean,
 ): void {
-  const indexPaths = getProjectEntryPointPaths(tree, project);
+  const sourceRoot = project.sourceRoot || project.root;
+  const secondaryEntryPoints = getSecondaryEntryPoints(tree, project);
+  const indexPaths = getProjectEntryPointPaths(tree, project).filter(
+    (indexPath) =>
+      !secondaryEntryPoints.some(({ filePath }) => filePath === indexPath),
+  );
 
-  // Find the first existing index file
+  // Find the secondary entry point of the file, or the first existing index file
   const indexPath =
-    indexPaths.find((p) => cachedTreeExists(tree, p)) || indexPaths[0];
+    findEntryPointForFile(secondaryEntryPoints, path.join(sourceRoot, file))
+      ?.filePath ||
+    indexPaths.find((p) => cachedTreeExists(tree, p)) ||
+    indexPaths[0];
 
   let content = '';
   if (cachedTreeExists(tree, indexPath)) {
@@ -36,8 +51,21 @@ export function ensureFileExported(
   }
 
   // Add export for the moved file
-  const fileWithoutExt = removeSourceFileExtension(file);
-  const exportStatement = `export * from './${fileWithoutExt}';\n`;
+  const fileWithoutExt = getEntryPointExportPath(
+    project,
+    indexPath,
+    file,
+    secondaryEntryPoints,
+  );
+  // Name the file like the other relative imports of the entrypoint
+  const extension = getImportExtension(
+    path.extname(file),
+    getFileImportExtensionStyle(tree, indexPath, project.root),
+  );
+  const specifier = `${
+    fileWithoutExt.startsWith('../') ? fileWithoutExt : `./${fileWithoutExt}`
+  }${extension}`;
+  const exportStatement = `export * from '${specifier}';\n`;
 
   // Check if export already exists
   if (!content.includes(exportStatement.trim())) {
@@ -46,6 +74,7 @@ export function ensureFileExported(
     treeReadCache.invalidateFile(indexPath);
     invalidateIndexExportsCache(indexPath);
     astCache.invalidate(indexPath);
+    moveRecorder.recordExportAdded(indexPath, exportStatement.trim());
     logger.verbose(`Added export to ${indexPath}`);
   }
 }
@@ -0,0 +1,83 @@
+import { Tree, logger } from '@nx/devkit';
+import type { ProjectConfiguration } from '@nx/devkit';
+import { createTreeWithEmptyWorkspace } from '@nx/devkit/testing';
+import { expandDirectoryExport } from './expand-directory-export';
+import { clearIndexExportsCache } from './index-exports-cache';
+import { treeReadCache } from '../tree-cache';
+import { astCache } from '../ast-cache';
+
+describe('expandDirectoryExport', () => {
+  let tree: Tree;
+  let project: ProjectConfiguration;
+  const cachedTreeExists = (t: Tree, filePath: string) => t.exists(filePath);
+
+  beforeEach(() => {
+    tree = createTreeWithEmptyWorkspace();
+    project = {
+      root: 'libs/mylib',
+      sourceRoot: 'libs/mylib/src',
+      name: 'mylib',
+    } as ProjectConfiguration;
+    jest.spyOn(logger, 'verbose').mockImplementation();
+    treeReadCache.clear();
+    clearIndexExportsCache();
+    astCache.clear();
+
+    tree.write('libs/mylib/src/lib/auth/login.ts', 'export const login = 1;');
+    tree.write(
+      'libs/mylib/src/lib/auth/session.ts',
+      'export const session = 1;',
+    );
+    tree.write(
+      'libs/mylib/src/lib/auth/index.ts',
+      "export * from './login';\nexport * from './session';\n",
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should replace the directory export with per-file exports', () => {
+    tree.write(
+      'libs/mylib/src/index.ts',
+      "export * from './lib/auth';\nexport * from './lib/other';\n",
+    );
+
+    expandDirectoryExport(tree, project, 'lib/auth', cachedTreeExists);
+
+    expect(tree.read('libs/mylib/src/index.ts', 'utf-8')).toBe(
+      "export * from './lib/auth/login';\nexport * from './lib/auth/session';\nexport * from './lib/other';\n",
+    );
+  });
+
+  it('should expand exports of the directory index file', () => {
+    tree.write('libs/mylib/src/index.ts', `export * from "./lib/auth/index";`);
+
+    expandDirectoryExport(tree, project, 'lib/auth', cachedTreeExists);
+
+    expect(tree.read('libs/mylib/src/index.ts', 'utf-8')).toBe(
+      "export * from './lib/auth/login';\nexport * from './lib/auth/session';\n",
+    );
+  });
+
+  it('should not change exports of other directories', () => {
+    const content = "export * from './lib/authentication';\n";
+    tree.write('libs/mylib/src/index.ts', content);
+
+    expandDirectoryExport(tree, project, 'lib/auth', cachedTreeExists);
+
+    expect(tree.read('libs/mylib/src/index.ts', 'utf-8')).toBe(content);
+    expect(logger.verbose).not.toHaveBeenCalled();
+  });
+
+  it('should do nothing when the directory has no index file', () => {
+    tree.delete('libs/mylib/src/lib/auth/index.ts');
+    const content = "export * from './lib/auth/login';\n";
+    tree.write('libs/mylib/src/index.ts', content);
+
+    expandDirectoryExport(tree, project, 'lib/auth', cachedTreeExists);
+
+    expect(tree.read('libs/mylib/src/index.ts', 'utf-8')).toBe(content);
+  });
+});
@@ -0,0 +1,88 @@
+import type { Tree } from '@nx/devkit';
+import type { ProjectConfiguration } from '@nx/devkit';
+import { logger } from '@nx/devkit';
+import { posix as path } from 'node:path';
+import { sourceFileExtensions } from '../constants/file-extensions';
+import { getProjectEntryPointPaths } from '../project-analysis/get-project-entry-point-paths';
+import { removeSourceFileExtension } from '../path-utils/remove-source-file-extension';
+import { escapeRegex } from '../security-utils/escape-regex';
+import { treeReadCache } from '../tree-cache';
+import { astCache } from '../ast-cache';
+import { getReexportedFiles } from './get-reexported-files';
+import { invalidateIndexExportsCache } from './index-exports-cache';
+
+/**
+ * Replaces a folder-level export in the project's entrypoints with one
+ * export per file re-exported by the folder's index file.
+ *
+ * This lets the regular per-file export handling see which files of the
+ * folder are part of the project's public API before the folder is moved.
+ *
+ * Supported patterns to expand:
+ * - export * from "./lib/auth"
+ * - export * from "./lib/auth/index"
+ *
+ * @param tree - The virtual file system tree.
+ * @param project - Project configuration.
+ * @param directory - Relative directory path within project (e.g., "lib/auth").
+ * @param cachedTreeExists - Cached tree.exists() function.
+ */
+export function expandDirectoryExport(
+  tree: Tree,
+  project: ProjectConfiguration,
+  directory: string,
+  cachedTreeExists: (tree: Tree, filePath: string) => boolean,
+): void {
+  const sourceRoot = project.sourceRoot || project.root;
+  const directoryPath = path.join(sourceRoot, directory);
+  const directoryIndexPath = sourceFileExtensions
+    .map((ext) => path.join(directoryPath, `index${ext}`))
+    .find((indexPath) => cachedTreeExists(tree, indexPath));
+
+  if (!directoryIndexPath) {
+    return;
+  }
+
+  const exportLines = getReexportedFiles(
+    tree,
+    directoryIndexPath,
+    cachedTreeExists,
+  )
+    .filter((filePath) => filePath.startsWith(`${directoryPath}/`))
+    .map(
+      (filePath) =>
+        `export * from './${removeSourceFileExtension(path.relative(sourceRoot, filePath))}';\n`,
+    );
+
+  if (exportLines.length === 0) {
+    return;
+  }
+
+  const directoryExportPattern = new RegExp(
+    `export\\s+\\*\\s+from\\s+['"]\\./${escapeRegex(directory)}(?:/index(?:\\.[cm]?[jt]sx?)?)?['"];?[^\\S\\n]*\\n?`,
+    'g',
+  );
+
+  getProjectEntryPointPaths(tree, project).forEach((indexPath) => {
+    if (!cachedTreeExists(tree, indexPath)) {
+      return;
+    }
+
+    const content = treeReadCache.read(tree, indexPath, 'utf-8');
+    if (!content) {
+      return;
+    }
+
+    const updatedContent = content.replace(directoryExportPattern, () =>
+      exportLines.join(''),
+    );
+
+    if (updatedContent !== content) {
+      tree.write(indexPath, updatedContent);
+      treeReadCache.invalidateFile(indexPath);
+      astCache.invalidate(indexPath);
+      invalidateIndexExportsCache(indexPath);
+      logger.verbose(`Expanded export of ${directory} in ${indexPath}`);
+    }
+  });
+}
@@ -0,0 +1,45 @@
+import type { ProjectConfiguration } from '@nx/devkit';
+import { getEntryPointExportPath } from './get-entry-point-export-path';
+
+describe('getEntryPointExportPath', () => {
+  const project: ProjectConfiguration = {
+    root: 'libs/ui',
+    sourceRoot: 'libs/ui/src',
+  };
+  const secondaryEntryPoints = [
+    {
+      importPath: '@org/ui/testing',
+      filePath: 'libs/ui/src/testing/index.ts',
+    },
+  ];
+
+  it('should use the path relative to the source root for project entrypoints', () => {
+    expect(
+      getEntryPointExportPath(
+        project,
+        'libs/ui/src/index.ts',
+        'lib/button.tsx',
+        secondaryEntryPoints,
+      ),
+    ).toBe('lib/button');
+  });
+
+  it('should use the path relative to the barrel of a secondary entry point', () => {
+    expect(
+      getEntryPointExportPath(
+        project,
+        'libs/ui/src/testing/index.ts',
+        'testing/mocks/button.ts',
+        secondaryEntryPoints,
+      ),
+    ).toBe('mocks/button');
+    expect(
+      getEntryPointExportPath(
+        project,
+        'libs/ui/src/testing/index.ts',
+        'lib/button.ts',
+        secondaryEntryPoints,
+      ),
+    ).toBe('../lib/button');
+  });
+});
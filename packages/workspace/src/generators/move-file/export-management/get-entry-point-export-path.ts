@@ -0,0 +1,37 @@
+import type { ProjectConfiguration } from '@nx/devkit';
+import { posix as path } from 'node:path';
+import { removeSourceFileExtension } from '../path-utils/remove-source-file-extension';
+import type { ProjectEntryPoint } from '../types/project-entry-point';
+
+/**
+ * Gets the path that an entrypoint re-exports a project file by, without the
+ * leading `./` and the extension.
+ *
+ * The project's own entrypoints re-export files relative to the source root
+ * (e.g. `lib/utils`); the barrels of secondary entry points re-export them
+ * relative to their own directory (e.g. `utils` from `src/testing/index.ts`).
+ *
+ * @param project - Project configuration.
+ * @param entryPointPath - Path of the entrypoint file.
+ * @param file - Relative file path within project (e.g., "lib/utils.ts").
+ * @param secondaryEntryPoints - Secondary entry points of the project.
+ * @returns The re-exported path of the file.
+ */
+export function getEntryPointExportPath(
+  project: ProjectConfiguration,
+  entryPointPath: string,
+  file: string,
+  secondaryEntryPoints: ProjectEntryPoint[],
+): string {
+  const isSecondary = secondaryEntryPoints.some(
+    (entryPoint) => entryPoint.filePath === entryPointPath,
+  );
+  if (!isSecondary) {
+    return removeSourceFileExtension(file);
+  }
+
+  const sourceRoot = project.sourceRoot || project.root;
+  return removeSourceFileExtension(
+    path.relative(path.dirname(entryPointPath), path.join(sourceRoot, file)),
+  );
+}
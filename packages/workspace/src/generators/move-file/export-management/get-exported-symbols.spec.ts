@@ -0,0 +1,42 @@
+import { Tree } from '@nx/devkit';
+import { createTreeWithEmptyWorkspace } from '@nx/devkit/testing';
+import { getExportedSymbols } from './get-exported-symbols';
+import { clearIndexExportsCache } from './index-exports-cache';
+import { astCache } from '../ast-cache';
+
+describe('getExportedSymbols', () => {
+  let tree: Tree;
+
+  beforeEach(() => {
+    tree = createTreeWithEmptyWorkspace();
+    clearIndexExportsCache();
+    astCache.clear();
+  });
+
+  it('should return the names exported by a file', () => {
+    tree.write(
+      'lib/file.ts',
+      'export const a = 1;\nexport function b() {}\nexport type C = string;\nconst d = 1;\nexport { d as e };',
+    );
+
+    const result = getExportedSymbols(tree, 'lib/file.ts');
+
+    expect(result).toEqual(new Set(['a', 'b', 'C', 'e']));
+  });
+
+  it('should return undefined when the file re-exports other modules', () => {
+    tree.write('lib/file.ts', "export const a = 1;\nexport * from './other';");
+
+    const result = getExportedSymbols(tree, 'lib/file.ts');
+
+    expect(result).toBeUndefined();
+  });
+
+  it('should return undefined when the file has no named exports', () => {
+    tree.write('lib/file.ts', 'export default function () {}');
+
+    const result = getExportedSymbols(tree, 'lib/file.ts');
+
+    expect(result).toBeUndefined();
+  });
+});
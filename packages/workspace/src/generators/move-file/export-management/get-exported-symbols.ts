@@ -0,0 +1,27 @@
+import type { Tree } from '@nx/devkit';
+import { getIndexExports } from './index-exports-cache';
+
+/**
+ * Gets the names a file exports so that importers of its project barrel can
+ * be updated per symbol after the file moves.
+ *
+ * Returns undefined when the names cannot be determined from the file alone
+ * (it re-exports other modules or exports nothing by name); callers then fall
+ * back to rewriting whole import specifiers.
+ *
+ * @param tree - The virtual file system tree.
+ * @param filePath - Path to the moved file.
+ * @returns Set of exported names, or undefined if unknown.
+ */
+export function getExportedSymbols(
+  tree: Tree,
+  filePath: string,
+): ReadonlySet<string> | undefined {
+  const { exports, reexports } = getIndexExports(tree, filePath);
+
+  if (reexports.size > 0 || exports.size === 0) {
+    return undefined;
+  }
+
+  return exports;
+}
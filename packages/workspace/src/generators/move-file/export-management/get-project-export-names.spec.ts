@@ -0,0 +1,54 @@
+import { Tree } from '@nx/devkit';
+import { createTreeWithEmptyWorkspace } from '@nx/devkit/testing';
+import { getProjectExportNames } from './get-project-export-names';
+import { clearIndexExportsCache } from './index-exports-cache';
+import { clearCompilerPathsCache } from '../project-analysis/read-compiler-paths';
+import { treeReadCache } from '../tree-cache';
+import { astCache } from '../ast-cache';
+
+describe('getProjectExportNames', () => {
+  let tree: Tree;
+  const cachedTreeExists = (t: Tree, filePath: string) => t.exists(filePath);
+  const project = {
+    root: 'libs/a',
+    sourceRoot: 'libs/a/src',
+    projectType: 'library' as const,
+  };
+
+  beforeEach(() => {
+    tree = createTreeWithEmptyWorkspace();
+    clearIndexExportsCache();
+    clearCompilerPathsCache();
+    treeReadCache.clear();
+    astCache.clear();
+  });
+
+  it('should collect the names of re-exported files and the entry point', () => {
+    tree.write(
+      'libs/a/src/lib/format.ts',
+      'export function format() {}\nexport type Format = string;',
+    );
+    tree.write('libs/a/src/lib/auth/login.ts', 'export const login = 1;');
+    tree.write('libs/a/src/lib/auth/index.ts', "export * from './login';");
+    tree.write(
+      'libs/a/src/index.ts',
+      "export * from './lib/format';\nexport * from './lib/auth';\nexport const VERSION = 1;",
+    );
+
+    const names = getProjectExportNames(tree, project, cachedTreeExists);
+
+    expect(Object.fromEntries(names)).toEqual({
+      VERSION: 'libs/a/src/index.ts',
+      format: 'libs/a/src/lib/format.ts',
+      Format: 'libs/a/src/lib/format.ts',
+      login: 'libs/a/src/lib/auth/login.ts',
+    });
+  });
+
+  it('should ignore files that are not re-exported', () => {
+    tree.write('libs/a/src/lib/internal.ts', 'export const internal = 1;');
+    tree.write('libs/a/src/index.ts', '');
+
+    expect(getProjectExportNames(tree, project, cachedTreeExists).size).toBe(0);
+  });
+});
@@ -0,0 +1,44 @@
+import type { ProjectConfiguration, Tree } from '@nx/devkit';
+import { getProjectEntryPointPaths } from '../project-analysis/get-project-entry-point-paths';
+import { getIndexExports } from './index-exports-cache';
+import { getReexportedFiles } from './get-reexported-files';
+
+/**
+ * Gets the names exported from a project's entry points, including the names
+ * declared by every file the entry points re-export.
+ *
+ * Files are counted as a whole, since moving them re-exports them with
+ * `export *` from their new project.
+ *
+ * @param tree - The virtual file system tree.
+ * @param project - Project whose public API to collect.
+ * @param cachedTreeExists - Function to check file existence with caching.
+ * @returns Map from each exported name to the file that declares it.
+ */
+export function getProjectExportNames(
+  tree: Tree,
+  project: ProjectConfiguration,
+  cachedTreeExists: (tree: Tree, filePath: string) => boolean,
+): Map<string, string> {
+  const names = new Map<string, string>();
+
+  for (const entryPointPath of getProjectEntryPointPaths(tree, project)) {
+    if (!cachedTreeExists(tree, entryPointPath)) {
+      continue;
+    }
+
+    const files = [
+      entryPointPath,
+      ...getReexportedFiles(tree, entryPointPath, cachedTreeExists),
+    ];
+    for (const filePath of files) {
+      for (const name of getIndexExports(tree, filePath).exports) {
+        if (!names.has(name)) {
+          names.set(name, filePath);
+        }
+      }
+    }
+  }
+
+  return names;
+}
@@ -0,0 +1,72 @@
+import { Tree } from '@nx/devkit';
+import { createTreeWithEmptyWorkspace } from '@nx/devkit/testing';
+import { getReexportedFiles } from './get-reexported-files';
+import { clearIndexExportsCache } from './index-exports-cache';
+import { astCache } from '../ast-cache';
+
+describe('getReexportedFiles', () => {
+  let tree: Tree;
+  const cachedTreeExists = (t: Tree, filePath: string) => t.exists(filePath);
+
+  beforeEach(() => {
+    tree = createTreeWithEmptyWorkspace();
+    clearIndexExportsCache();
+    astCache.clear();
+  });
+
+  it('should resolve re-exports with and without extensions', () => {
+    tree.write('lib/auth/login.ts', 'export const login = 1;');
+    tree.write('lib/auth/session.js', 'export const session = 1;');
+    tree.write(
+      'lib/auth/index.ts',
+      "export * from './login';\nexport { session } from './session.js';",
+    );
+
+    const result = getReexportedFiles(
+      tree,
+      'lib/auth/index.ts',
+      cachedTreeExists,
+    );
+
+    expect(result).toEqual(['lib/auth/login.ts', 'lib/auth/session.js']);
+  });
+
+  it('should follow nested index files', () => {
+    tree.write('lib/auth/guards/auth-guard.ts', 'export const guard = 1;');
+    tree.write('lib/auth/guards/index.ts', "export * from './auth-guard';");
+    tree.write('lib/auth/index.ts', "export * from './guards';");
+
+    const result = getReexportedFiles(
+      tree,
+      'lib/auth/index.ts',
+      cachedTreeExists,
+    );
+
+    expect(result).toEqual(['lib/auth/guards/auth-guard.ts']);
+  });
+
+  it('should ignore package and unresolved re-exports', () => {
+    tree.write(
+      'lib/auth/index.ts',
+      "export * from '@test/lib1';\nexport * from './missing';",
+    );
+
+    const result = getReexportedFiles(
+      tree,
+      'lib/auth/index.ts',
+      cachedTreeExists,
+    );
+
+    expect(result).toEqual([]);
+  });
+
+  it('should stop at circular re-exports', () => {
+    tree.write('lib/a/index.ts', "export * from '../b';");
+    tree.write('lib/b/index.ts', "export * from '../a';\nexport * from './b';");
+    tree.write('lib/b/b.ts', 'export const b = 1;');
+
+    const result = getReexportedFiles(tree, 'lib/a/index.ts', cachedTreeExists);
+
+    expect(result).toEqual(['lib/b/b.ts']);
+  });
+});
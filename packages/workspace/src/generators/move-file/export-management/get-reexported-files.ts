@@ -0,0 +1,61 @@
+import type { Tree } from '@nx/devkit';
+import { normalizePath } from '@nx/devkit';
+import { posix as path } from 'node:path';
+import { removeSourceFileExtension } from '../path-utils/remove-source-file-extension';
+import { resolveRelativeImport } from '../path-utils/resolve-relative-import';
+import { getIndexExports } from './index-exports-cache';
+
+/**
+ * Gets the files re-exported by an index file, following nested index files.
+ *
+ * Only relative re-exports (`export * from './x'`, `export { a } from './x'`)
+ * are followed. Index files that are only used to re-export other files are
+ * not included in the result.
+ *
+ * @param tree - The virtual file system tree.
+ * @param indexPath - Path to the index file.
+ * @param cachedTreeExists - Cached tree.exists() function.
+ * @returns Workspace paths of all re-exported files.
+ */
+export function getReexportedFiles(
+  tree: Tree,
+  indexPath: string,
+  cachedTreeExists: (tree: Tree, filePath: string) => boolean,
+): string[] {
+  const files = new Set<string>();
+  const visited = new Set<string>();
+
+  const visit = (filePath: string): void => {
+    if (visited.has(filePath)) {
+      return;
+    }
+    visited.add(filePath);
+
+    const { reexports } = getIndexExports(tree, filePath);
+    for (const specifier of reexports) {
+      if (!specifier.startsWith('.')) {
+        continue;
+      }
+
+      const resolved = resolveRelativeImport(
+        tree,
+        path.dirname(filePath),
+        specifier,
+        cachedTreeExists,
+      );
+      if (!resolved) {
+        continue;
+      }
+
+      if (path.basename(removeSourceFileExtension(resolved)) === 'index') {
+        visit(resolved);
+      } else {
+        files.add(resolved);
+      }
+    }
+  };
+
+  visit(normalizePath(indexPath));
+
+  return Array.from(files);
+}
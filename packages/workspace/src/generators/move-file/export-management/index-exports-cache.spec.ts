@@ -184,6 +184,26 @@ export enum Status { Active }`,
           new Set(['FOO', 'myFn', 'MyClass', 'IUser', 'UserId', 'Status']),
         );
       });
+
+      it('should collect the names that only exist as types', () => {
+        tree.write(
+          'libs/mylib/src/index.ts',
+          `export interface IUser {}
+export type UserId = string;
+export enum Status { Active }
+type Handler = () => void;
+type Options = {};
+const value = 1;
+export type { Handler };
+export { type Options, value };`,
+        );
+
+        const result = getIndexExports(tree, 'libs/mylib/src/index.ts');
+
+        expect(result.typeExports).toEqual(
+          new Set(['IUser', 'UserId', 'Handler', 'Options']),
+        );
+      });
     });
 
     describe('default exports', () => {
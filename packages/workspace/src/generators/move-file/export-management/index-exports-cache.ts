@@ -11,6 +11,13 @@ export interface IndexExports {
    */
   exports: Set<string>;
 
+  /**
+   * Subset of `exports` that only exist as types: interfaces, type aliases,
+   * and names exported with `export type { ... }` or `export { type ... }`.
+   * Examples: 'Options', 'Handler'
+   */
+  typeExports: Set<string>;
+
   /**
    * Set of re-export specifiers (module paths).
    * Examples: './lib/util', '../helpers'
@@ -53,6 +60,7 @@ export function getIndexExports(tree: Tree, indexPath: string): IndexExports {
   // Initialize result
   const result: IndexExports = {
     exports: new Set<string>(),
+    typeExports: new Set<string>(),
     reexports: new Set<string>(),
     defaultExport: undefined,
   };
@@ -125,12 +133,14 @@ export function getIndexExports(tree: Tree, indexPath: string): IndexExports {
             else if (j.TSInterfaceDeclaration.check(declaration)) {
               if (declaration.id && j.Identifier.check(declaration.id)) {
                 result.exports.add(declaration.id.name);
+                result.typeExports.add(declaration.id.name);
               }
             }
             // TypeScript: export type T = string
             else if (j.TSTypeAliasDeclaration.check(declaration)) {
               if (declaration.id && j.Identifier.check(declaration.id)) {
                 result.exports.add(declaration.id.name);
+                result.typeExports.add(declaration.id.name);
               }
             }
             // TypeScript: export enum E {}
@@ -142,12 +152,22 @@ export function getIndexExports(tree: Tree, indexPath: string): IndexExports {
           }
           // Local export list: export { a, b as c }
           else if (node.specifiers && node.specifiers.length > 0) {
+            // Babel's `export type { ... }` and `export { type ... }` kinds
+            // are not part of the ast-types definitions
+            const isTypeList =
+              (node as { exportKind?: string }).exportKind === 'type';
             node.specifiers.forEach((specifier) => {
               if (j.ExportSpecifier.check(specifier)) {
                 // Use exported name (the 'as' name if present, otherwise local name)
                 const exportedName = specifier.exported;
                 if (j.Identifier.check(exportedName)) {
                   result.exports.add(exportedName.name);
+                  if (
+                    isTypeList ||
+                    (specifier as { exportKind?: string }).exportKind === 'type'
+                  ) {
+                    result.typeExports.add(exportedName.name);
+                  }
                 }
               }
             });
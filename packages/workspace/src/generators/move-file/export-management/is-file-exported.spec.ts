@@ -172,4 +172,33 @@ describe('isFileExported', () => {
       ),
     ).toBe(true);
   });
+
+  it('should resolve exports of secondary entry points relative to their barrel', () => {
+    tree.write(
+      'tsconfig.base.json',
+      JSON.stringify({
+        compilerOptions: {
+          paths: {
+            '@myorg/mylib': ['libs/mylib/src/index.ts'],
+            '@myorg/mylib/testing': ['libs/mylib/src/testing/index.ts'],
+          },
+        },
+      }),
+    );
+    tree.write('libs/mylib/src/index.ts', '');
+    tree.write(
+      'libs/mylib/src/testing/index.ts',
+      `export * from './mocks';\nexport * from '../lib/fixtures';\n`,
+    );
+
+    expect(
+      isFileExported(tree, project, 'testing/mocks.ts', cachedTreeExists),
+    ).toBe(true);
+    expect(
+      isFileExported(tree, project, 'lib/fixtures.ts', cachedTreeExists),
+    ).toBe(true);
+    expect(isFileExported(tree, project, 'mocks.ts', cachedTreeExists)).toBe(
+      false,
+    );
+  });
 });
@@ -1,7 +1,9 @@
 import type { Tree } from '@nx/devkit';
 import type { ProjectConfiguration } from '@nx/devkit';
 import { getProjectEntryPointPaths } from '../project-analysis/get-project-entry-point-paths';
+import { getSecondaryEntryPoints } from '../project-analysis/get-secondary-entry-points';
 import { removeSourceFileExtension } from '../path-utils/remove-source-file-extension';
+import { getEntryPointExportPath } from './get-entry-point-export-path';
 import { getIndexExports } from './index-exports-cache';
 
 /**
@@ -32,14 +34,22 @@ export function isFileExported(
   cachedTreeExists: (tree: Tree, filePath: string) => boolean,
 ): boolean {
   const indexPaths = getProjectEntryPointPaths(tree, project);
-
-  const fileWithoutExt = removeSourceFileExtension(file);
+  const secondaryEntryPoints = getSecondaryEntryPoints(tree, project);
 
   return indexPaths.some((indexPath) => {
     if (!cachedTreeExists(tree, indexPath)) {
       return false;
     }
 
+    // Secondary entry points re-export files relative to their own directory
+    const fileWithoutExt = getEntryPointExportPath(
+      project,
+      indexPath,
+      file,
+      secondaryEntryPoints,
+    );
+    const isOutsideDirectory = fileWithoutExt.startsWith('../');
+
     // Use the new cache to get re-exports
     const indexExports = getIndexExports(tree, indexPath);
 
@@ -50,7 +60,9 @@ export function isFileExported(
     // - '../lib/utils'
     for (const reexport of indexExports.reexports) {
       // Remove leading './' or '../' from reexport path
-      const normalizedReexport = reexport.replace(/^\.\.?\//, '');
+      const normalizedReexport = isOutsideDirectory
+        ? reexport
+        : reexport.replace(/^\.\.?\//, '');
       // Remove extension if present
       const reexportWithoutExt = removeSourceFileExtension(normalizedReexport);
 
@@ -186,4 +186,42 @@ describe('removeFileExport', () => {
     const content = tree.read('libs/mylib/src/index.ts', 'utf-8');
     expect(content).toContain(`export * from './lib/helpers'`);
   });
+
+  it('should remove exports relative to the barrel of a secondary entry point', () => {
+    tree.write(
+      'tsconfig.base.json',
+      JSON.stringify({
+        compilerOptions: {
+          paths: {
+            '@myorg/mylib': ['libs/mylib/src/index.ts'],
+            '@myorg/mylib/testing': ['libs/mylib/src/testing/index.ts'],
+          },
+        },
+      }),
+    );
+    tree.write('libs/mylib/src/index.ts', `export * from './lib/mocks';\n`);
+    tree.write(
+      'libs/mylib/src/testing/index.ts',
+      `export * from './mocks';\nexport * from '../lib/mocks';\n`,
+    );
+
+    removeFileExport(tree, project, 'lib/mocks.ts', cachedTreeExists);
+
+    expect(tree.read('libs/mylib/src/index.ts', 'utf-8')).toBe('export {};\n');
+    expect(tree.read('libs/mylib/src/testing/index.ts', 'utf-8')).toBe(
+      `export * from './mocks';\n`,
+    );
+  });
+
+  it('should remove exports naming the file with an extension', () => {
+    tree.write(
+      'libs/mylib/src/index.ts',
+      `export * from './lib/utils.js';\nexport { parse } from './lib/utils.ts';\nexport * from './lib/utils-extra.js';\n`,
+    );
+    removeFileExport(tree, project, 'lib/utils.ts', cachedTreeExists);
+
+    expect(tree.read('libs/mylib/src/index.ts', 'utf-8')).toBe(
+      `export * from './lib/utils-extra.js';\n`,
+    );
+  });
 });
@@ -2,18 +2,21 @@ import type { Tree } from '@nx/devkit';
 import type { ProjectConfiguration } from '@nx/devkit';
 import { logger } from '@nx/devkit';
 import { getProjectEntryPointPaths } from '../project-analysis/get-project-entry-point-paths';
-import { removeSourceFileExtension } from '../path-utils/remove-source-file-extension';
+import { getSecondaryEntryPoints } from '../project-analysis/get-secondary-entry-points';
 import { escapeRegex } from '../security-utils/escape-regex';
 import { treeReadCache } from '../tree-cache';
 import { astCache } from '../ast-cache';
 import { invalidateIndexExportsCache } from './index-exports-cache';
+import { moveRecorder } from '../reporting/move-recorder';
+import { getEntryPointExportPath } from './get-entry-point-export-path';
 
 /**
  * Removes the export for a file from the project's entrypoint.
  *
  * This function removes all export statements matching the file from
- * all entrypoint files. If removing the export leaves the file empty,
- * it adds `export {};` to prevent runtime errors.
+ * all entrypoint files, including the barrels of secondary entry points.
+ * If removing the export leaves the file empty, it adds `export {};` to
+ * prevent runtime errors.
  *
  * Supported patterns to remove:
  * - export * from "path"
@@ -31,6 +34,7 @@ export function removeFileExport(
   cachedTreeExists: (tree: Tree, filePath: string) => boolean,
 ): void {
   const indexPaths = getProjectEntryPointPaths(tree, project);
+  const secondaryEntryPoints = getSecondaryEntryPoints(tree, project);
 
   // Find existing index files
   indexPaths.forEach((indexPath) => {
@@ -44,24 +48,35 @@ export function removeFileExport(
     }
 
     // Remove export for the file
-    const fileWithoutExt = removeSourceFileExtension(file);
+    const fileWithoutExt = getEntryPointExportPath(
+      project,
+      indexPath,
+      file,
+      secondaryEntryPoints,
+    );
     const escapedFile = escapeRegex(fileWithoutExt);
+    const prefix = fileWithoutExt.startsWith('../') ? '' : '\\.\\.?/';
+    // The export may name the file with its source or emitted extension
+    const extension = '(?:\\.[cm]?[jt]sx?)?';
 
     // Match various export patterns
     const exportPatterns = [
       new RegExp(
-        `export\\s+\\*\\s+from\\s+['"]\\.\\.?/${escapedFile}['"];?\\s*\\n?`,
+        `export\\s+\\*\\s+from\\s+['"]${prefix}${escapedFile}${extension}['"];?\\s*\\n?`,
         'g',
       ),
       new RegExp(
-        `export\\s+\\{[^}]+\\}\\s+from\\s+['"]\\.\\.?/${escapedFile}['"];?\\s*\\n?`,
+        `export\\s+\\{[^}]+\\}\\s+from\\s+['"]${prefix}${escapedFile}${extension}['"];?\\s*\\n?`,
         'g',
       ),
     ];
 
     let updatedContent = content;
     exportPatterns.forEach((pattern) => {
-      updatedContent = updatedContent.replace(pattern, '');
+      updatedContent = updatedContent.replace(pattern, (statement) => {
+        moveRecorder.recordExportRemoved(indexPath, statement.trim());
+        return '';
+      });
     });
 
     if (updatedContent !== content) {
@@ -0,0 +1,131 @@
+import { Tree, logger } from '@nx/devkit';
+import { createTreeWithEmptyWorkspace } from '@nx/devkit/testing';
+import type { ProjectConfiguration } from '@nx/devkit';
+import { replaceFileExportWithShim } from './replace-file-export-with-shim';
+import { treeReadCache } from '../tree-cache';
+import { clearCompilerPathsCache } from '../project-analysis/read-compiler-paths';
+
+describe('replaceFileExportWithShim', () => {
+  let tree: Tree;
+  let project: ProjectConfiguration;
+  let cachedTreeExists: jest.Mock;
+
+  beforeEach(() => {
+    tree = createTreeWithEmptyWorkspace();
+    project = {
+      root: 'libs/mylib',
+      sourceRoot: 'libs/mylib/src',
+      name: 'mylib',
+    } as ProjectConfiguration;
+    cachedTreeExists = jest.fn((t, path) => t.exists(path));
+    jest.spyOn(logger, 'verbose').mockImplementation();
+    treeReadCache.clear();
+    clearCompilerPathsCache();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    clearCompilerPathsCache();
+  });
+
+  it('should replace export * with a deprecated re-export of the symbols', () => {
+    tree.write(
+      'libs/mylib/src/index.ts',
+      `export * from './lib/utils';\nexport * from './lib/helpers';\n`,
+    );
+
+    replaceFileExportWithShim(
+      tree,
+      project,
+      'lib/utils.ts',
+      '@org/target',
+      new Set(['format', 'parse']),
+      new Set(),
+      cachedTreeExists,
+    );
+
+    expect(tree.read('libs/mylib/src/index.ts', 'utf-8')).toBe(
+      `/**\n * @deprecated Import from '@org/target' instead.\n */\n` +
+        `export { format, parse } from '@org/target';\n` +
+        `export * from './lib/helpers';\n`,
+    );
+  });
+
+  it('should keep the specifiers of named exports', () => {
+    tree.write(
+      'libs/mylib/src/index.ts',
+      `export { format as formatValue } from './lib/utils';\n`,
+    );
+
+    replaceFileExportWithShim(
+      tree,
+      project,
+      'lib/utils.ts',
+      '@org/target',
+      new Set(['format']),
+      new Set(),
+      cachedTreeExists,
+    );
+
+    expect(tree.read('libs/mylib/src/index.ts', 'utf-8')).toContain(
+      `export { format as formatValue } from '@org/target';`,
+    );
+  });
+
+  it('should re-export types with export type and deprecate both re-exports', () => {
+    tree.write('libs/mylib/src/index.ts', `export * from './lib/utils';\n`);
+
+    replaceFileExportWithShim(
+      tree,
+      project,
+      'lib/utils.ts',
+      '@org/target',
+      new Set(['format', 'FormatOptions']),
+      new Set(['FormatOptions']),
+      cachedTreeExists,
+    );
+
+    expect(tree.read('libs/mylib/src/index.ts', 'utf-8')).toBe(
+      `/**\n * @deprecated Import from '@org/target' instead.\n */\n` +
+        `export { format } from '@org/target';\n` +
+        `/**\n * @deprecated Import from '@org/target' instead.\n */\n` +
+        `export type { FormatOptions } from '@org/target';\n`,
+    );
+  });
+
+  it('should leave entrypoints without an export of the file unchanged', () => {
+    const content = `export * from './lib/helpers';\n`;
+    tree.write('libs/mylib/src/index.ts', content);
+
+    replaceFileExportWithShim(
+      tree,
+      project,
+      'lib/utils.ts',
+      '@org/target',
+      new Set(['format']),
+      new Set(),
+      cachedTreeExists,
+    );
+
+    expect(tree.read('libs/mylib/src/index.ts', 'utf-8')).toBe(content);
+  });
+
+  it('should replace exports naming the file with an extension', () => {
+    tree.write('libs/mylib/src/index.ts', `export * from './lib/utils.mjs';\n`);
+
+    replaceFileExportWithShim(
+      tree,
+      project,
+      'lib/utils.mts',
+      '@org/target',
+      new Set(['format']),
+      new Set(),
+      cachedTreeExists,
+    );
+
+    expect(tree.read('libs/mylib/src/index.ts', 'utf-8')).toBe(
+      `/**\n * @deprecated Import from '@org/target' instead.\n */\n` +
+        `export { format } from '@org/target';\n`,
+    );
+  });
+});
@@ -0,0 +1,132 @@
+import type { Tree } from '@nx/devkit';
+import type { ProjectConfiguration } from '@nx/devkit';
+import { logger } from '@nx/devkit';
+import { getProjectEntryPointPaths } from '../project-analysis/get-project-entry-point-paths';
+import { getSecondaryEntryPoints } from '../project-analysis/get-secondary-entry-points';
+import { escapeRegex } from '../security-utils/escape-regex';
+import { treeReadCache } from '../tree-cache';
+import { astCache } from '../ast-cache';
+import { invalidateIndexExportsCache } from './index-exports-cache';
+import { moveRecorder } from '../reporting/move-recorder';
+import { getEntryPointExportPath } from './get-entry-point-export-path';
+
+/**
+ * Replaces the export for a moved file in the project's entrypoint with a
+ * deprecated re-export from the project it moved to, so that consumers of the
+ * source project keep working while they migrate.
+ *
+ * Replaced patterns:
+ * - export * from "path" → export { <values> } from "<targetImportPath>" and
+ *   export type { <types> } from "<targetImportPath>"
+ * - export { ... } from "path" → export { ... } from "<targetImportPath>"
+ *
+ * Types are re-exported with `export type`, which `isolatedModules` requires.
+ * Every re-export statement gets the deprecation comment, so that consumers
+ * of types are warned as well.
+ *
+ * @param tree - The virtual file system tree.
+ * @param project - Project configuration of the source project.
+ * @param file - Relative file path within project (e.g., "lib/utils.ts").
+ * @param targetImportPath - Import path of the project the file moved to.
+ * @param symbols - Names the moved file exports.
+ * @param typeSymbols - Names among `symbols` that only exist as types.
+ * @param cachedTreeExists - Cached tree.exists() function.
+ */
+export function replaceFileExportWithShim(
+  tree: Tree,
+  project: ProjectConfiguration,
+  file: string,
+  targetImportPath: string,
+  symbols: ReadonlySet<string>,
+  typeSymbols: ReadonlySet<string>,
+  cachedTreeExists: (tree: Tree, filePath: string) => boolean,
+): void {
+  const indexPaths = getProjectEntryPointPaths(tree, project);
+  const secondaryEntryPoints = getSecondaryEntryPoints(tree, project);
+  const namedSymbols = Array.from(symbols).filter(
+    (symbol) => symbol !== 'default',
+  );
+  const valueSymbols = namedSymbols.filter(
+    (symbol) => !typeSymbols.has(symbol),
+  );
+  const typeOnlySymbols = namedSymbols.filter((symbol) =>
+    typeSymbols.has(symbol),
+  );
+  const deprecation = `/**\n * @deprecated Import from '${targetImportPath}' instead.\n */\n`;
+
+  // Secondary entry points re-export files relative to their own directory
+  const getExportPatterns = (
+    indexPath: string,
+  ): [RegExp, (statement: string) => string[]][] => {
+    const fileWithoutExt = getEntryPointExportPath(
+      project,
+      indexPath,
+      file,
+      secondaryEntryPoints,
+    );
+    const escapedFile = escapeRegex(fileWithoutExt);
+    const prefix = fileWithoutExt.startsWith('../') ? '' : '\\.\\.?/';
+    // The export may name the file with its source or emitted extension
+    const extension = '(?:\\.[cm]?[jt]sx?)?';
+
+    return [
+      [
+        new RegExp(
+          `export\\s+\\*\\s+from\\s+['"]${prefix}${escapedFile}${extension}['"];?[^\\S\\n]*\\n?`,
+          'g',
+        ),
+        () =>
+          [
+            valueSymbols.length > 0
+              ? `export { ${valueSymbols.join(', ')} } from '${targetImportPath}';`
+              : null,
+            typeOnlySymbols.length > 0
+              ? `export type { ${typeOnlySymbols.join(', ')} } from '${targetImportPath}';`
+              : null,
+          ].filter((statement) => statement !== null),
+      ],
+      [
+        new RegExp(
+          `export\\s+\\{[^}]+\\}\\s+from\\s+['"]${prefix}${escapedFile}${extension}['"];?[^\\S\\n]*\\n?`,
+          'g',
+        ),
+        (statement) => [
+          statement
+            .trim()
+            .replace(/from\s+(['"])[^'"]+\1;?$/, `from '${targetImportPath}';`),
+        ],
+      ],
+    ];
+  };
+
+  indexPaths.forEach((indexPath) => {
+    if (!cachedTreeExists(tree, indexPath)) {
+      return;
+    }
+
+    const content = treeReadCache.read(tree, indexPath, 'utf-8');
+    if (!content) {
+      return;
+    }
+
+    let updatedContent = content;
+    getExportPatterns(indexPath).forEach(([pattern, createShim]) => {
+      updatedContent = updatedContent.replace(pattern, (statement) => {
+        const shims = createShim(statement);
+        moveRecorder.recordExportRemoved(indexPath, statement.trim());
+        shims.forEach((shim) =>
+          moveRecorder.recordExportAdded(indexPath, shim),
+        );
+        return shims.map((shim) => `${deprecation}${shim}\n`).join('');
+      });
+    });
+
+    if (updatedContent !== content) {
+      tree.write(indexPath, updatedContent);
+      treeReadCache.invalidateFile(indexPath);
+      astCache.invalidate(indexPath);
+      invalidateIndexExportsCache(indexPath);
+      logger.verbose(`Replaced export with a deprecated shim in ${indexPath}`);
+    }
+  });
+}
@@ -12,12 +12,28 @@
  * - export-management/*.spec.ts (52 tests)
  * - validation/*.spec.ts (30 tests)
  * - core-operations/*.spec.ts (32 tests)
+ * - reporting/*.spec.ts
  *
  * These integration tests focus on:
  * - End-to-end move scenarios (same-project, cross-project)
  * - Batch operations (multiple files, glob patterns)
  * - Project lifecycle (removeEmptyProject option)
- * - Advanced options (deriveProjectDirectory)
+ * - Advanced options (deriveProjectDirectory, createProjectIfMissing)
+ * - Module boundary checks (allowBoundaryViolations)
+ * - Circular project dependency checks (allowCircularDependencies)
+ * - Deprecation shims (leaveShim, updateDependents)
+ * - Plan mode (plan, planFormat, planOutput)
+ * - Move history (recordHistory)
+ * - Target file conflicts (onConflict)
+ * - Explicit target paths (targetPath)
+ * - Target base directory configuration and inference
+ * - TypeScript project references and per-project path aliases
+ * - Package-based workspaces (package names, exports, and dependencies)
+ * - Secondary entry points (subpath aliases, exports, and ng-packagr)
+ * - ESM import specifiers (.js, .mjs, .cjs, and .ts extensions)
+ * - Non-relative imports resolved against the tsconfig baseUrl
+ * - package.json subpath imports (#db/*)
+ * - Aliases from Jest moduleNameMapper, Vite/webpack resolve.alias, and Babel module-resolver
  * - Error handling and validation
  * - Performance optimizations and caching
  */
@@ -26,14 +42,18 @@ import {
   Tree,
   addProjectConfiguration,
   updateJson,
+  writeJson,
+  readJson,
   createProjectGraphAsync,
   formatFiles,
   logger,
 } from '@nx/devkit';
+import type { ProjectConfiguration } from '@nx/devkit';
 
 import { moveFileGenerator } from './generator';
 import { MoveFileGeneratorSchema } from './schema';
 import { clearCompilerPathsCache } from './project-analysis/read-compiler-paths';
+import { clearDepConstraintsCache } from './project-analysis/read-dep-constraints';
 import { treeReadCache } from './tree-cache';
 import { clearIndexExportsCache } from './export-management/index-exports-cache';
 import { astCache } from './ast-cache';
@@ -1162,6 +1182,184 @@ describe('move-file generator', () => {
     });
   });
 
+  describe('symbol-aware import splitting', () => {
+    beforeEach(() => {
+      addProjectConfiguration(tree, 'app1', {
+        root: 'packages/app1',
+        sourceRoot: 'packages/app1/src',
+        projectType: 'application',
+      });
+
+      tree.write(
+        'packages/lib1/src/lib/moved.ts',
+        'export const moved = 1;\nexport interface MovedOptions { value: number; }',
+      );
+      tree.write(
+        'packages/lib1/src/lib/other.ts',
+        'export const other = 2;\nexport interface OtherOptions { value: number; }',
+      );
+      tree.write(
+        'packages/lib1/src/index.ts',
+        "export * from './lib/moved';\nexport * from './lib/other';",
+      );
+    });
+
+    it('should split mixed imports between source and target aliases', async () => {
+      tree.write(
+        'packages/app1/src/main.ts',
+        "import { moved, other } from '@test/lib1';\nconsole.log(moved, other);",
+      );
+
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/moved.ts',
+        project: 'lib2',
+        skipFormat: true,
+      });
+
+      const content = tree.read('packages/app1/src/main.ts', 'utf-8');
+      expect(content).toContain("import { other } from '@test/lib1';");
+      expect(content).toContain("import { moved } from '@test/lib2';");
+    });
+
+    it('should leave imports of symbols that stay in the source project untouched', async () => {
+      tree.write(
+        'packages/app1/src/main.ts',
+        "import { other } from '@test/lib1';\nconsole.log(other);",
+      );
+
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/moved.ts',
+        project: 'lib2',
+        skipFormat: true,
+      });
+
+      expect(tree.read('packages/app1/src/main.ts', 'utf-8')).toBe(
+        "import { other } from '@test/lib1';\nconsole.log(other);",
+      );
+    });
+
+    it('should keep import type semantics when splitting', async () => {
+      tree.write(
+        'packages/app1/src/main.ts',
+        "import type { MovedOptions, OtherOptions } from '@test/lib1';\nimport { type MovedOptions as M, other } from '@test/lib1';\nexport const value: MovedOptions | OtherOptions | M = { value: other };",
+      );
+
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/moved.ts',
+        project: 'lib2',
+        skipFormat: true,
+      });
+
+      const content = tree.read('packages/app1/src/main.ts', 'utf-8');
+      expect(content).toContain(
+        "import type { OtherOptions } from '@test/lib1';",
+      );
+      expect(content).toContain(
+        "import type { MovedOptions } from '@test/lib2';",
+      );
+      expect(content).toContain("import { other } from '@test/lib1';");
+      expect(content).toContain(
+        "import { type MovedOptions as M } from '@test/lib2';",
+      );
+    });
+
+    it('should split mixed re-exports', async () => {
+      tree.write(
+        'packages/app1/src/index.ts',
+        "export { moved, other } from '@test/lib1';\nexport type { MovedOptions, OtherOptions } from '@test/lib1';",
+      );
+
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/moved.ts',
+        project: 'lib2',
+        skipFormat: true,
+      });
+
+      const content = tree.read('packages/app1/src/index.ts', 'utf-8');
+      expect(content).toContain("export { other } from '@test/lib1';");
+      expect(content).toContain("export { moved } from '@test/lib2';");
+      expect(content).toContain(
+        "export type { OtherOptions } from '@test/lib1';",
+      );
+      expect(content).toContain(
+        "export type { MovedOptions } from '@test/lib2';",
+      );
+    });
+
+    it('should keep default imports on the source alias', async () => {
+      tree.write(
+        'packages/app1/src/main.ts',
+        "import lib1, { moved } from '@test/lib1';\nconsole.log(lib1, moved);",
+      );
+
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/moved.ts',
+        project: 'lib2',
+        skipFormat: true,
+      });
+
+      const content = tree.read('packages/app1/src/main.ts', 'utf-8');
+      expect(content).toContain("import lib1 from '@test/lib1';");
+      expect(content).toContain("import { moved } from '@test/lib2';");
+    });
+
+    it('should keep namespace imports on the source alias and import moved symbols by name', async () => {
+      tree.write(
+        'packages/app1/src/main.ts',
+        "import * as lib1 from '@test/lib1';\nconsole.log(lib1.moved, lib1.other);",
+      );
+
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/moved.ts',
+        project: 'lib2',
+        skipFormat: true,
+      });
+
+      const content = tree.read('packages/app1/src/main.ts', 'utf-8');
+      expect(content).toContain("import * as lib1 from '@test/lib1';");
+      expect(content).toContain("import { moved } from '@test/lib2';");
+      expect(content).toContain('console.log(moved, lib1.other);');
+    });
+
+    it('should keep export * on the source alias', async () => {
+      tree.write('packages/app1/src/index.ts', "export * from '@test/lib1';");
+      const warnSpy = jest.spyOn(logger, 'warn');
+
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/moved.ts',
+        project: 'lib2',
+        skipFormat: true,
+      });
+
+      expect(tree.read('packages/app1/src/index.ts', 'utf-8')).toBe(
+        "export * from '@test/lib1';",
+      );
+      expect(warnSpy).toHaveBeenCalledWith(
+        expect.stringContaining(
+          "re-exports everything from '@test/lib1', which no longer exports",
+        ),
+      );
+      warnSpy.mockRestore();
+    });
+
+    it('should split mixed imports in the target project into relative and alias imports', async () => {
+      tree.write(
+        'packages/lib2/src/lib/feature.ts',
+        "import { moved, other } from '@test/lib1';\nexport const result = moved + other;",
+      );
+
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/moved.ts',
+        project: 'lib2',
+        skipFormat: true,
+      });
+
+      const content = tree.read('packages/lib2/src/lib/feature.ts', 'utf-8');
+      expect(content).toContain("import { other } from '@test/lib1';");
+      expect(content).toContain("import { moved } from './moved';");
+    });
+  });
+
   // ============================================================================
   // Batch Operations
   // ============================================================================
@@ -1307,9 +1505,105 @@ describe('move-file generator', () => {
         'packages/lib2/src/lib/utils/consumer.ts',
         'utf-8',
       );
-      // After cross-project move, relative imports to source project files
-      // should be converted to alias imports
-      expect(consumerContent).toContain("from '@test/lib1'");
+      // Files moved together keep relative imports between them
+      expect(consumerContent).toContain("from './helper'");
+      expect(consumerContent).not.toContain('@test/lib1');
+    });
+
+    it('should keep imports between batch files regardless of order', async () => {
+      tree.write(
+        'packages/lib1/src/lib/utils/helper.ts',
+        'export function helper() { return "hello"; }',
+      );
+      tree.write(
+        'packages/lib1/src/lib/features/consumer.ts',
+        "import { helper } from '../utils/helper';\nexport const result = helper();",
+      );
+
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/features/consumer.ts,packages/lib1/src/lib/utils/helper.ts',
+        project: 'lib2',
+        deriveProjectDirectory: true,
+        skipFormat: true,
+      });
+
+      const consumerContent = tree.read(
+        'packages/lib2/src/lib/features/consumer.ts',
+        'utf-8',
+      );
+      expect(consumerContent).toContain("from '../utils/helper'");
+    });
+
+    it('should rewrite relative paths between batch files that change directories', async () => {
+      tree.write(
+        'packages/lib1/src/lib/utils/helper.ts',
+        'export function helper() { return "hello"; }',
+      );
+      tree.write(
+        'packages/lib1/src/lib/features/consumer.ts',
+        "import { helper } from '../utils/helper';\nexport const result = helper();",
+      );
+
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/**/*.ts',
+        project: 'lib2',
+        skipFormat: true,
+      });
+
+      const consumerContent = tree.read(
+        'packages/lib2/src/lib/consumer.ts',
+        'utf-8',
+      );
+      expect(consumerContent).toContain("from './helper'");
+    });
+
+    it('should use aliases only for imports that leave the batch', async () => {
+      tree.write(
+        'packages/lib1/src/lib/config.ts',
+        "export const apiUrl = '/api';",
+      );
+      tree.write(
+        'packages/lib1/src/index.ts',
+        "export * from './lib/config';\n",
+      );
+      tree.write(
+        'packages/lib1/src/lib/utils/helper.ts',
+        "import { apiUrl } from '../config';\nexport const helper = () => apiUrl;",
+      );
+      tree.write(
+        'packages/lib1/src/lib/utils/consumer.ts',
+        "import { helper } from './helper';\nexport const result = helper();",
+      );
+
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/utils/*.ts',
+        project: 'lib2',
+        projectDirectory: 'utils',
+        skipFormat: true,
+      });
+
+      expect(
+        tree.read('packages/lib2/src/lib/utils/helper.ts', 'utf-8'),
+      ).toContain("from '@test/lib1'");
+      expect(
+        tree.read('packages/lib2/src/lib/utils/consumer.ts', 'utf-8'),
+      ).toContain("from './helper'");
+    });
+
+    it('should throw when two files in the batch have the same target', async () => {
+      tree.write('packages/lib1/src/lib/a/util.ts', 'export const a = 1;');
+      tree.write('packages/lib1/src/lib/b/util.ts', 'export const b = 1;');
+
+      await expect(
+        moveFileGenerator(tree, {
+          file: 'packages/lib1/src/lib/a/util.ts,packages/lib1/src/lib/b/util.ts',
+          project: 'lib2',
+          skipFormat: true,
+        }),
+      ).rejects.toThrow(
+        'Cannot move both "packages/lib1/src/lib/a/util.ts" and "packages/lib1/src/lib/b/util.ts" to "packages/lib2/src/lib/util.ts"',
+      );
+      expect(tree.exists('packages/lib2/src/lib/util.ts')).toBe(false);
     });
 
     it('should move multiple files within the same project', async () => {
@@ -2758,6 +3052,2486 @@ describe('move-file generator', () => {
     });
   });
 
+  describe('withCompanions option', () => {
+    beforeEach(() => {
+      tree.write(
+        'packages/lib1/src/lib/button.tsx',
+        "import styles from './button.module.css';\nexport const Button = () => styles.root;\n",
+      );
+      tree.write(
+        'packages/lib1/src/lib/button.spec.tsx',
+        "import { Button } from './button';\ndescribe('Button', () => { it('renders', () => { expect(Button()).toMatchSnapshot(); }); });\n",
+      );
+      tree.write(
+        'packages/lib1/src/lib/button.stories.tsx',
+        "import { Button } from './button';\nexport default { component: Button };\n",
+      );
+      tree.write('packages/lib1/src/lib/button.module.css', '.root {}\n');
+      tree.write(
+        'packages/lib1/src/lib/__snapshots__/button.spec.tsx.snap',
+        'exports[`Button renders 1`] = `"root"`;\n',
+      );
+      tree.write(
+        'packages/lib1/src/index.ts',
+        "export * from './lib/button';\n",
+      );
+    });
+
+    it('should move companion files together with the source file', async () => {
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/button.tsx',
+        project: 'lib2',
+        projectDirectory: 'ui',
+        withCompanions: true,
+        skipFormat: true,
+      });
+
+      for (const file of [
+        'button.tsx',
+        'button.spec.tsx',
+        'button.stories.tsx',
+        'button.module.css',
+        '__snapshots__/button.spec.tsx.snap',
+      ]) {
+        expect(tree.exists(`packages/lib1/src/lib/${file}`)).toBe(false);
+        expect(tree.exists(`packages/lib2/src/lib/ui/${file}`)).toBe(true);
+      }
+    });
+
+    it('should keep relative references between the source file and its companions', async () => {
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/button.tsx',
+        project: 'lib2',
+        withCompanions: true,
+        skipFormat: true,
+      });
+
+      expect(tree.read('packages/lib2/src/lib/button.tsx', 'utf-8')).toContain(
+        "import styles from './button.module.css';",
+      );
+      expect(
+        tree.read('packages/lib2/src/lib/button.spec.tsx', 'utf-8'),
+      ).toContain("import { Button } from './button';");
+      expect(
+        tree.read('packages/lib2/src/lib/button.stories.tsx', 'utf-8'),
+      ).toContain("import { Button } from './button';");
+    });
+
+    it('should only export the source file from the target project', async () => {
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/button.tsx',
+        project: 'lib2',
+        withCompanions: true,
+        skipFormat: true,
+      });
+
+      expect(tree.read('packages/lib2/src/index.ts', 'utf-8')).toBe(
+        "export * from './lib/button';\n",
+      );
+    });
+
+    it('should use custom companion patterns', async () => {
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/button.tsx',
+        project: 'lib2',
+        withCompanions: true,
+        companionPatterns: ['{name}.module.css'],
+        skipFormat: true,
+      });
+
+      expect(tree.exists('packages/lib2/src/lib/button.module.css')).toBe(true);
+      expect(tree.exists('packages/lib1/src/lib/button.spec.tsx')).toBe(true);
+      expect(tree.exists('packages/lib1/src/lib/button.stories.tsx')).toBe(
+        true,
+      );
+    });
+
+    it('should not move companion files by default', async () => {
+      // The spec and stylesheet left behind make lib1 and lib2 depend on each other
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/button.tsx',
+        project: 'lib2',
+        allowCircularDependencies: true,
+        skipFormat: true,
+      });
+
+      expect(tree.exists('packages/lib1/src/lib/button.spec.tsx')).toBe(true);
+      expect(tree.exists('packages/lib2/src/lib/button.spec.tsx')).toBe(false);
+    });
+
+    it('should move companions of files matched by a glob pattern once', async () => {
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/button*.tsx',
+        project: 'lib2',
+        withCompanions: true,
+        skipFormat: true,
+      });
+
+      expect(tree.exists('packages/lib2/src/lib/button.spec.tsx')).toBe(true);
+      expect(
+        tree.exists('packages/lib2/src/lib/__snapshots__/button.spec.tsx.snap'),
+      ).toBe(true);
+      expect(tree.exists('packages/lib2/src/lib/button.module.css')).toBe(true);
+    });
+  });
+
+  describe('moveDependencies option', () => {
+    beforeEach(() => {
+      tree.write(
+        'packages/lib1/src/index.ts',
+        "export * from './lib/feature';\n",
+      );
+      tree.write(
+        'packages/lib1/src/lib/feature.ts',
+        "import { helper } from './utils/helper';\nimport { shared } from './shared';\nexport const feature = () => helper() + shared;\n",
+      );
+      tree.write(
+        'packages/lib1/src/lib/utils/helper.ts',
+        "import { format } from '../format';\nexport const helper = () => format();\n",
+      );
+      tree.write(
+        'packages/lib1/src/lib/format.ts',
+        'export const format = () => 1;\n',
+      );
+      tree.write(
+        'packages/lib1/src/lib/shared.ts',
+        'export const shared = 1;\n',
+      );
+      tree.write(
+        'packages/lib1/src/lib/other.ts',
+        "import { shared } from './shared';\nexport const other = shared;\n",
+      );
+    });
+
+    it('should only warn about unexported dependencies by default', async () => {
+      const warnSpy = jest.spyOn(logger, 'warn');
+
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/feature.ts',
+        project: 'lib2',
+        skipFormat: true,
+      });
+
+      expect(tree.exists('packages/lib1/src/lib/utils/helper.ts')).toBe(true);
+      expect(warnSpy).toHaveBeenCalledWith(
+        expect.stringContaining(
+          'has 2 relative dependencies that are not exported from project "lib1"',
+        ),
+      );
+
+      warnSpy.mockRestore();
+    });
+
+    it('should move dependencies used only by the moved file with exclusive', async () => {
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/feature.ts',
+        project: 'lib2',
+        moveDependencies: 'exclusive',
+        skipFormat: true,
+      });
+
+      expect(tree.exists('packages/lib1/src/lib/utils/helper.ts')).toBe(false);
+      expect(tree.exists('packages/lib1/src/lib/format.ts')).toBe(false);
+      expect(tree.exists('packages/lib2/src/lib/utils/helper.ts')).toBe(true);
+      expect(tree.exists('packages/lib2/src/lib/format.ts')).toBe(true);
+
+      const feature = tree.read('packages/lib2/src/lib/feature.ts', 'utf-8');
+      expect(feature).toContain("import { helper } from './utils/helper';");
+      expect(
+        tree.read('packages/lib2/src/lib/utils/helper.ts', 'utf-8'),
+      ).toContain("import { format } from '../format';");
+
+      // Only the moved file is exported from the target project
+      expect(tree.read('packages/lib2/src/index.ts', 'utf-8')).toBe(
+        "export * from './lib/feature';\n",
+      );
+    });
+
+    it('should leave shared dependencies in place with exclusive', async () => {
+      const warnSpy = jest.spyOn(logger, 'warn');
+
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/feature.ts',
+        project: 'lib2',
+        moveDependencies: 'exclusive',
+        skipFormat: true,
+      });
+
+      expect(tree.exists('packages/lib1/src/lib/shared.ts')).toBe(true);
+      expect(warnSpy).toHaveBeenCalledWith(
+        expect.stringContaining(
+          'has 1 relative dependency that is not exported from project "lib1"',
+        ),
+      );
+
+      warnSpy.mockRestore();
+    });
+
+    it('should export shared dependencies from the source project with all', async () => {
+      const warnSpy = jest.spyOn(logger, 'warn');
+
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/feature.ts',
+        project: 'lib2',
+        moveDependencies: 'all',
+        skipFormat: true,
+      });
+
+      expect(tree.exists('packages/lib1/src/lib/shared.ts')).toBe(true);
+      expect(tree.exists('packages/lib2/src/lib/utils/helper.ts')).toBe(true);
+      expect(tree.read('packages/lib1/src/index.ts', 'utf-8')).toContain(
+        "export * from './lib/shared';",
+      );
+      expect(tree.read('packages/lib2/src/lib/feature.ts', 'utf-8')).toContain(
+        "import { shared } from '@test/lib1';",
+      );
+      expect(warnSpy).not.toHaveBeenCalledWith(
+        expect.stringContaining('not exported from project "lib1"'),
+      );
+
+      warnSpy.mockRestore();
+    });
+
+    it('should not move dependencies for moves within the same project', async () => {
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/feature.ts',
+        project: 'lib1',
+        projectDirectory: 'features',
+        moveDependencies: 'exclusive',
+        skipFormat: true,
+      });
+
+      expect(tree.exists('packages/lib1/src/lib/utils/helper.ts')).toBe(true);
+      expect(
+        tree.read('packages/lib1/src/lib/features/feature.ts', 'utf-8'),
+      ).toContain("import { helper } from '../utils/helper';");
+    });
+  });
+
+  // ============================================================================
+  // Plan Mode
+  // ============================================================================
+
+  describe('module boundaries', () => {
+    beforeEach(() => {
+      clearDepConstraintsCache();
+      writeJson(tree, '.eslintrc.json', {
+        rules: {
+          '@nx/enforce-module-boundaries': [
+            'error',
+            {
+              depConstraints: [
+                {
+                  sourceTag: 'type:util',
+                  onlyDependOnLibsWithTags: ['type:util'],
+                },
+                {
+                  sourceTag: 'type:feature',
+                  onlyDependOnLibsWithTags: ['type:feature', 'type:util'],
+                },
+                { sourceTag: '*', onlyDependOnLibsWithTags: ['*'] },
+              ],
+            },
+          ],
+        },
+      });
+      updateJson(tree, 'tsconfig.base.json', (json) => {
+        json.compilerOptions.paths['@test/util'] = [
+          'packages/util/src/index.ts',
+        ];
+        json.compilerOptions.paths['@test/feature'] = [
+          'packages/feature/src/index.ts',
+        ];
+        return json;
+      });
+      addProjectConfiguration(tree, 'util', {
+        root: 'packages/util',
+        sourceRoot: 'packages/util/src',
+        projectType: 'library',
+        tags: ['type:util'],
+      });
+      addProjectConfiguration(tree, 'feature', {
+        root: 'packages/feature',
+        sourceRoot: 'packages/feature/src',
+        projectType: 'library',
+        tags: ['type:feature'],
+      });
+      tree.write('packages/util/src/index.ts', '');
+      tree.write('packages/feature/src/index.ts', '');
+    });
+
+    afterEach(() => {
+      clearDepConstraintsCache();
+    });
+
+    it('should fail with a report when the target project may not import a dependency', async () => {
+      tree.write(
+        'packages/lib1/src/lib/widget.ts',
+        "import { feature } from '@test/feature';\nexport const widget = feature;\n",
+      );
+
+      await expect(
+        moveFileGenerator(tree, {
+          file: 'packages/lib1/src/lib/widget.ts',
+          project: 'util',
+          skipFormat: true,
+        }),
+      ).rejects.toThrow(
+        'Moving "packages/lib1/src/lib/widget.ts" to project "util" would violate module boundaries:\n' +
+          '  - "util" → "feature": "packages/util/src/lib/widget.ts" imports "@test/feature" ' +
+          '(projects tagged "type:util" can only depend on projects tagged "type:util", but "feature" is tagged "type:feature")',
+      );
+      expect(tree.exists('packages/lib1/src/lib/widget.ts')).toBe(true);
+      expect(tree.exists('packages/util/src/lib/widget.ts')).toBe(false);
+    });
+
+    it('should report projects that would import the target project through the moved file', async () => {
+      tree.write(
+        'packages/lib1/src/lib/widget.ts',
+        'export const widget = 1;\n',
+      );
+      tree.write(
+        'packages/lib1/src/index.ts',
+        "export * from './lib/widget';\n",
+      );
+      tree.write(
+        'packages/util/src/lib/consumer.ts',
+        "import { widget } from '@test/lib1';\nexport const consumer = widget;\n",
+      );
+
+      await expect(
+        moveFileGenerator(tree, {
+          file: 'packages/lib1/src/lib/widget.ts',
+          project: 'feature',
+          skipFormat: true,
+        }),
+      ).rejects.toThrow(
+        '"util" → "feature": "packages/util/src/lib/consumer.ts" imports "@test/lib1"',
+      );
+    });
+
+    it('should move files whose dependencies respect the constraints', async () => {
+      tree.write(
+        'packages/lib1/src/lib/widget.ts',
+        "import { util } from '@test/util';\nexport const widget = util;\n",
+      );
+
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/widget.ts',
+        project: 'feature',
+        skipFormat: true,
+      });
+
+      expect(tree.exists('packages/feature/src/lib/widget.ts')).toBe(true);
+    });
+
+    it('should warn instead of failing with allowBoundaryViolations', async () => {
+      const warnSpy = jest.spyOn(logger, 'warn');
+      tree.write(
+        'packages/lib1/src/lib/widget.ts',
+        "import { feature } from '@test/feature';\nexport const widget = feature;\n",
+      );
+
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/widget.ts',
+        project: 'util',
+        allowBoundaryViolations: true,
+        skipFormat: true,
+      });
+
+      expect(tree.exists('packages/util/src/lib/widget.ts')).toBe(true);
+      expect(warnSpy).toHaveBeenCalledWith(
+        expect.stringContaining('"util" → "feature"'),
+      );
+
+      warnSpy.mockRestore();
+    });
+  });
+
+  describe('circular dependencies', () => {
+    beforeEach(() => {
+      updateJson(tree, 'tsconfig.base.json', (json) => {
+        json.compilerOptions.paths['@test/lib3'] = [
+          'packages/lib3/src/index.ts',
+        ];
+        return json;
+      });
+      addProjectConfiguration(tree, 'lib3', {
+        root: 'packages/lib3',
+        sourceRoot: 'packages/lib3/src',
+        projectType: 'library',
+      });
+      tree.write('packages/lib3/src/index.ts', "export * from './lib/data';\n");
+      tree.write('packages/lib3/src/lib/data.ts', 'export const data = 1;\n');
+      tree.write(
+        'packages/lib1/src/lib/widget.ts',
+        "import { data } from '@test/lib3';\nexport const widget = data;\n",
+      );
+      createProjectGraphAsyncMock.mockImplementation(async () => ({
+        nodes: {},
+        dependencies: {
+          lib1: [{ source: 'lib1', target: 'lib3', type: 'static' }],
+          lib2: [],
+          lib3: [{ source: 'lib3', target: 'lib2', type: 'static' }],
+        },
+      }));
+    });
+
+    it('should fail with the cycle and the import that closes it', async () => {
+      await expect(
+        moveFileGenerator(tree, {
+          file: 'packages/lib1/src/lib/widget.ts',
+          project: 'lib2',
+          skipFormat: true,
+        }),
+      ).rejects.toThrow(
+        'The move would create circular project dependencies:\n' +
+          '  - lib2 → lib3 → lib2: "packages/lib2/src/lib/widget.ts" imports "@test/lib3"',
+      );
+      expect(tree.exists('packages/lib1/src/lib/widget.ts')).toBe(true);
+      expect(tree.exists('packages/lib2/src/lib/widget.ts')).toBe(false);
+    });
+
+    it('should warn instead of failing with allowCircularDependencies', async () => {
+      const warnSpy = jest.spyOn(logger, 'warn');
+
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/widget.ts',
+        project: 'lib2',
+        allowCircularDependencies: true,
+        skipFormat: true,
+      });
+
+      expect(tree.exists('packages/lib2/src/lib/widget.ts')).toBe(true);
+      expect(warnSpy).toHaveBeenCalledWith(
+        expect.stringContaining('lib2 → lib3 → lib2'),
+      );
+
+      warnSpy.mockRestore();
+    });
+
+    it('should allow moves whose new dependencies do not close a cycle', async () => {
+      createProjectGraphAsyncMock.mockImplementation(async () => ({
+        nodes: {},
+        dependencies: { lib1: [], lib2: [], lib3: [] },
+      }));
+
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/widget.ts',
+        project: 'lib2',
+        skipFormat: true,
+      });
+
+      expect(tree.exists('packages/lib2/src/lib/widget.ts')).toBe(true);
+    });
+
+    it('should report cycles closed by files that import the moved file through an alias', async () => {
+      updateJson(tree, 'tsconfig.base.json', (json) => {
+        json.compilerOptions.paths['@test/lib1/*'] = ['packages/lib1/src/*'];
+        return json;
+      });
+      tree.write(
+        'packages/lib1/src/lib/widget.ts',
+        'export const widget = 1;\n',
+      );
+      tree.write(
+        'packages/lib3/src/lib/data.ts',
+        "import { widget } from '@test/lib1/lib/widget';\nexport const data = widget;\n",
+      );
+      createProjectGraphAsyncMock.mockImplementation(async () => ({
+        nodes: {},
+        dependencies: {
+          lib1: [],
+          lib2: [{ source: 'lib2', target: 'lib3', type: 'static' }],
+          lib3: [{ source: 'lib3', target: 'lib1', type: 'static' }],
+        },
+      }));
+
+      await expect(
+        moveFileGenerator(tree, {
+          file: 'packages/lib1/src/lib/widget.ts',
+          project: 'lib2',
+          skipFormat: true,
+        }),
+      ).rejects.toThrow(
+        '  - lib3 → lib2 → lib3: "packages/lib3/src/lib/data.ts" imports the moved file',
+      );
+    });
+
+    it('should not report cycles through dependencies that the move removes', async () => {
+      tree.write(
+        'packages/lib1/src/lib/helper.ts',
+        'export const helper = 1;\n',
+      );
+      tree.write(
+        'packages/lib1/src/lib/widget.ts',
+        "import { helper } from './helper';\nimport { other } from '@test/lib2';\nexport const widget = helper + other;\n",
+      );
+      createProjectGraphAsyncMock.mockImplementation(async () => ({
+        nodes: {},
+        dependencies: {
+          lib1: [{ source: 'lib1', target: 'lib2', type: 'static' }],
+          lib2: [],
+          lib3: [],
+        },
+      }));
+
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/widget.ts',
+        project: 'lib2',
+        skipFormat: true,
+      });
+
+      expect(tree.exists('packages/lib2/src/lib/widget.ts')).toBe(true);
+    });
+  });
+
+  describe('leaveShim option', () => {
+    beforeEach(() => {
+      tree.write(
+        'packages/lib1/src/lib/format.ts',
+        'export function formatValue() { return 1; }\n',
+      );
+      tree.write(
+        'packages/lib1/src/index.ts',
+        "export * from './lib/format';\n",
+      );
+      tree.write(
+        'packages/app1/src/main.ts',
+        "import { formatValue } from '@test/lib1';\nformatValue();\n",
+      );
+      addProjectConfiguration(tree, 'app1', {
+        root: 'packages/app1',
+        sourceRoot: 'packages/app1/src',
+        projectType: 'application',
+      });
+    });
+
+    it('should leave a deprecated re-export and update dependents', async () => {
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/format.ts',
+        project: 'lib2',
+        leaveShim: true,
+        skipFormat: true,
+      });
+
+      expect(tree.read('packages/lib1/src/index.ts', 'utf-8')).toBe(
+        "/**\n * @deprecated Import from '@test/lib2' instead.\n */\n" +
+          "export { formatValue } from '@test/lib2';\n",
+      );
+      expect(tree.read('packages/lib2/src/index.ts', 'utf-8')).toContain(
+        "export * from './lib/format';",
+      );
+      expect(tree.read('packages/app1/src/main.ts', 'utf-8')).toContain(
+        "from '@test/lib2'",
+      );
+    });
+
+    it('should re-export types from the shim with export type', async () => {
+      tree.write(
+        'packages/lib1/src/lib/format.ts',
+        'export interface FormatOptions { digits: number; }\nexport function formatValue(options: FormatOptions) { return options.digits; }\n',
+      );
+
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/format.ts',
+        project: 'lib2',
+        leaveShim: true,
+        skipFormat: true,
+      });
+
+      expect(tree.read('packages/lib1/src/index.ts', 'utf-8')).toBe(
+        "/**\n * @deprecated Import from '@test/lib2' instead.\n */\n" +
+          "export { formatValue } from '@test/lib2';\n" +
+          "/**\n * @deprecated Import from '@test/lib2' instead.\n */\n" +
+          "export type { FormatOptions } from '@test/lib2';\n",
+      );
+    });
+
+    it('should keep dependents on the shim when updateDependents is false', async () => {
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/format.ts',
+        project: 'lib2',
+        leaveShim: true,
+        updateDependents: false,
+        skipFormat: true,
+      });
+
+      expect(tree.read('packages/app1/src/main.ts', 'utf-8')).toContain(
+        "from '@test/lib1'",
+      );
+      expect(tree.read('packages/lib1/src/index.ts', 'utf-8')).toContain(
+        "export { formatValue } from '@test/lib2';",
+      );
+    });
+
+    it('should reject updateDependents false without leaveShim', async () => {
+      await expect(
+        moveFileGenerator(tree, {
+          file: 'packages/lib1/src/lib/format.ts',
+          project: 'lib2',
+          updateDependents: false,
+          skipFormat: true,
+        }),
+      ).rejects.toThrow(
+        'The "updateDependents" option can only be disabled together with "leaveShim"',
+      );
+    });
+
+    it('should reject leaveShim together with skipExport for exported files', async () => {
+      await expect(
+        moveFileGenerator(tree, {
+          file: 'packages/lib1/src/lib/format.ts',
+          project: 'lib2',
+          leaveShim: true,
+          skipExport: true,
+          skipFormat: true,
+        }),
+      ).rejects.toThrow('Cannot use "leaveShim" together with "skipExport"');
+    });
+  });
+
+  describe('plan option', () => {
+    beforeEach(() => {
+      removeGeneratorMock.mockClear();
+
+      addProjectConfiguration(tree, 'app1', {
+        root: 'packages/app1',
+        sourceRoot: 'packages/app1/src',
+        projectType: 'application',
+      });
+
+      tree.write(
+        'packages/lib1/src/lib/helper.ts',
+        'export const helper = () => "helper";',
+      );
+      tree.write('packages/lib1/src/index.ts', "export * from './lib/helper';");
+      tree.write(
+        'packages/app1/src/main.ts',
+        "import { helper } from '@test/lib1';\nhelper();",
+      );
+    });
+
+    it('should not change the tree', async () => {
+      const options: MoveFileGeneratorSchema = {
+        file: 'packages/lib1/src/lib/helper.ts',
+        project: 'lib2',
+        plan: true,
+        planOutput: 'move-plan.json',
+      };
+
+      const before = tree.listChanges().length;
+      await moveFileGenerator(tree, options);
+
+      expect(tree.exists('packages/lib1/src/lib/helper.ts')).toBe(true);
+      expect(tree.exists('packages/lib2/src/lib/helper.ts')).toBe(false);
+      expect(tree.read('packages/lib1/src/index.ts', 'utf-8')).toBe(
+        "export * from './lib/helper';",
+      );
+      expect(tree.read('packages/lib2/src/index.ts', 'utf-8')).toBe('');
+      expect(tree.read('packages/app1/src/main.ts', 'utf-8')).toBe(
+        "import { helper } from '@test/lib1';\nhelper();",
+      );
+      // Only the plan output is added
+      expect(tree.listChanges().length).toBe(before + 1);
+      expect(formatFilesMock).not.toHaveBeenCalled();
+    });
+
+    it('should report the strategy, import rewrites, and export changes', async () => {
+      const options: MoveFileGeneratorSchema = {
+        file: 'packages/lib1/src/lib/helper.ts',
+        project: 'lib2',
+        plan: true,
+        planOutput: 'move-plan.json',
+      };
+
+      await moveFileGenerator(tree, options);
+
+      const plan = JSON.parse(tree.read('move-plan.json', 'utf-8') ?? '');
+      expect(plan.entries).toHaveLength(1);
+      expect(plan.entries[0]).toMatchObject({
+        source: 'packages/lib1/src/lib/helper.ts',
+        target: 'packages/lib2/src/lib/helper.ts',
+        sourceProject: 'lib1',
+        targetProject: 'lib2',
+        strategy: 'exported',
+      });
+      expect(plan.entries[0].importRewrites).toContainEqual({
+        filePath: 'packages/app1/src/main.ts',
+        from: '@test/lib1',
+        to: '@test/lib2',
+        symbols: ['helper'],
+      });
+      expect(plan.entries[0].exportsAdded).toEqual([
+        {
+          indexPath: 'packages/lib2/src/index.ts',
+          statement: "export * from './lib/helper';",
+        },
+      ]);
+      expect(plan.entries[0].exportsRemoved).toEqual([
+        {
+          indexPath: 'packages/lib1/src/index.ts',
+          statement: "export * from './lib/helper';",
+        },
+      ]);
+      expect(plan.removedProjects).toEqual([]);
+    });
+
+    it('should produce the same changes as a real move', async () => {
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/helper.ts',
+        project: 'lib2',
+        plan: true,
+        planOutput: 'move-plan.json',
+      });
+      const plan = JSON.parse(tree.read('move-plan.json', 'utf-8') ?? '');
+
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/helper.ts',
+        project: 'lib2',
+        skipFormat: true,
+      });
+
+      for (const rewrite of plan.entries[0].importRewrites) {
+        expect(tree.read(rewrite.filePath, 'utf-8')).toContain(
+          `'${rewrite.to}'`,
+        );
+      }
+      expect(tree.exists('packages/lib2/src/lib/helper.ts')).toBe(true);
+    });
+
+    it('should report projects that would be removed without removing them', async () => {
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/helper.ts',
+        project: 'lib2',
+        removeEmptyProject: true,
+        plan: true,
+        planOutput: 'move-plan.json',
+      });
+
+      const plan = JSON.parse(tree.read('move-plan.json', 'utf-8') ?? '');
+      expect(plan.removedProjects).toEqual(['lib1']);
+      expect(plan.entries[0].removedProjects).toEqual(['lib1']);
+      expect(removeGeneratorMock).not.toHaveBeenCalled();
+    });
+
+    it('should report one entry per file for batch moves', async () => {
+      tree.write(
+        'packages/lib1/src/lib/other.ts',
+        'export const other = "other";',
+      );
+
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/helper.ts,packages/lib1/src/lib/other.ts',
+        project: 'lib1',
+        projectDirectory: 'utils',
+        plan: true,
+        planOutput: 'move-plan.json',
+      });
+
+      const plan = JSON.parse(tree.read('move-plan.json', 'utf-8') ?? '');
+      expect(
+        plan.entries.map((entry: { strategy: string }) => entry.strategy),
+      ).toEqual(['same-project', 'same-project']);
+      expect(tree.exists('packages/lib1/src/lib/other.ts')).toBe(true);
+      expect(tree.exists('packages/lib1/src/lib/utils/other.ts')).toBe(false);
+    });
+
+    it('should write a Markdown report when planOutput ends with .md', async () => {
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/helper.ts',
+        project: 'lib2',
+        plan: true,
+        planOutput: 'move-plan.md',
+      });
+
+      const report = tree.read('move-plan.md', 'utf-8');
+      expect(report).toContain('# Move plan');
+      expect(report).toContain('- Strategy: `exported`');
+      expect(report).toContain(
+        '| `packages/app1/src/main.ts` | `@test/lib1` | `@test/lib2` (`helper`) |',
+      );
+    });
+
+    it('should honor planFormat over the planOutput extension', async () => {
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/helper.ts',
+        project: 'lib2',
+        plan: true,
+        planFormat: 'markdown',
+        planOutput: 'move-plan.txt',
+      });
+
+      expect(tree.read('move-plan.txt', 'utf-8')).toContain('# Move plan');
+    });
+
+    it('should log the plan when planOutput is not provided', async () => {
+      const infoSpy = jest.spyOn(logger, 'info').mockImplementation();
+
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/helper.ts',
+        project: 'lib2',
+        plan: true,
+      });
+
+      const report = infoSpy.mock.calls.map(([message]) => message).join('\n');
+      expect(JSON.parse(report).entries[0].strategy).toBe('exported');
+      infoSpy.mockRestore();
+    });
+  });
+
+  describe('createProjectIfMissing option', () => {
+    // Loading the @nx/js library generator takes a few seconds
+    jest.setTimeout(30_000);
+
+    beforeEach(() => {
+      // Modules are reset between tests, so @nx/js loads a fresh @nx/devkit mock
+      jest.requireMock('@nx/devkit').createProjectGraphAsync.mockResolvedValue({
+        nodes: {},
+        dependencies: {},
+      });
+
+      addProjectConfiguration(tree, 'app1', {
+        root: 'packages/app1',
+        sourceRoot: 'packages/app1/src',
+        projectType: 'application',
+      });
+
+      tree.write(
+        'packages/lib1/src/lib/helper.ts',
+        'export const helper = () => "helper";',
+      );
+      tree.write('packages/lib1/src/index.ts', "export * from './lib/helper';");
+      tree.write(
+        'packages/app1/src/main.ts',
+        "import { helper } from '@test/lib1';\nhelper();",
+      );
+    });
+
+    it('should create the target library and move the file into it', async () => {
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/helper.ts',
+        project: 'lib3',
+        createProjectIfMissing: true,
+        newProjectImportPath: '@test/lib3',
+        newProjectTags: 'scope:shared',
+      });
+
+      expect(readJson(tree, 'packages/lib3/project.json').tags).toEqual([
+        'scope:shared',
+      ]);
+      expect(
+        readJson(tree, 'tsconfig.base.json').compilerOptions.paths[
+          '@test/lib3'
+        ],
+      ).toEqual(['packages/lib3/src/index.ts']);
+      expect(tree.exists('packages/lib3/src/lib/helper.ts')).toBe(true);
+      expect(tree.read('packages/lib3/src/index.ts', 'utf-8')).toContain(
+        "export * from './lib/helper';",
+      );
+      expect(tree.read('packages/app1/src/main.ts', 'utf-8')).toContain(
+        "import { helper } from '@test/lib3';",
+      );
+    });
+
+    it('should still reject a missing target project by default', async () => {
+      await expect(
+        moveFileGenerator(tree, {
+          file: 'packages/lib1/src/lib/helper.ts',
+          project: 'lib3',
+        }),
+      ).rejects.toThrow(
+        'Target project "lib3" not found in workspace. Pass --create-project-if-missing to create it.',
+      );
+    });
+
+    it('should not create the library in plan mode', async () => {
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/helper.ts',
+        project: 'lib3',
+        createProjectIfMissing: true,
+        newProjectImportPath: '@test/lib3',
+        plan: true,
+        planOutput: 'move-plan.json',
+      });
+
+      const plan = readJson(tree, 'move-plan.json');
+      expect(plan.entries[0].targetProject).toBe('lib3');
+      expect(tree.exists('packages/lib3')).toBe(false);
+      expect(
+        readJson(tree, 'tsconfig.base.json').compilerOptions.paths[
+          '@test/lib3'
+        ],
+      ).toBeUndefined();
+    });
+  });
+
+  describe('recordHistory option', () => {
+    beforeEach(() => {
+      addProjectConfiguration(tree, 'app1', {
+        root: 'packages/app1',
+        sourceRoot: 'packages/app1/src',
+        projectType: 'application',
+      });
+
+      tree.write(
+        'packages/lib1/src/lib/helper.ts',
+        'export const helper = () => "helper";',
+      );
+      tree.write('packages/lib1/src/index.ts', "export * from './lib/helper';");
+      tree.write(
+        'packages/app1/src/main.ts',
+        "import { helper } from '@test/lib1';\nhelper();",
+      );
+    });
+
+    it('should record the move and the original content of changed files', async () => {
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/helper.ts',
+        project: 'lib2',
+        recordHistory: true,
+      });
+
+      const history = readJson(tree, '.nxworker/move-history.json');
+      expect(history.entries).toHaveLength(1);
+      const [entry] = history.entries;
+      expect(entry.id).toBe(1);
+      expect(entry.moves).toEqual([
+        expect.objectContaining({
+          source: 'packages/lib1/src/lib/helper.ts',
+          target: 'packages/lib2/src/lib/helper.ts',
+          strategy: 'exported',
+          importRewrites: [
+            expect.objectContaining({
+              filePath: 'packages/app1/src/main.ts',
+              from: '@test/lib1',
+              to: '@test/lib2',
+            }),
+          ],
+        }),
+      ]);
+      expect(
+        entry.files.map((file: { path: string; before: string | null }) => [
+          file.path,
+          file.before,
+        ]),
+      ).toEqual(
+        expect.arrayContaining([
+          [
+            'packages/app1/src/main.ts',
+            "import { helper } from '@test/lib1';\nhelper();",
+          ],
+          [
+            'packages/lib1/src/lib/helper.ts',
+            'export const helper = () => "helper";',
+          ],
+          ['packages/lib2/src/lib/helper.ts', null],
+        ]),
+      );
+    });
+
+    it('should append an entry for each move', async () => {
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/helper.ts',
+        project: 'lib2',
+        recordHistory: true,
+      });
+      await moveFileGenerator(tree, {
+        file: 'packages/lib2/src/lib/helper.ts',
+        project: 'lib1',
+        recordHistory: true,
+      });
+
+      const history = readJson(tree, '.nxworker/move-history.json');
+      expect(history.entries.map(({ id }: { id: number }) => id)).toEqual([
+        1, 2,
+      ]);
+    });
+
+    it('should not record anything in plan mode', async () => {
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/helper.ts',
+        project: 'lib2',
+        recordHistory: true,
+        plan: true,
+      });
+
+      expect(tree.exists('.nxworker/move-history.json')).toBe(false);
+    });
+
+    it('should not record anything by default', async () => {
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/helper.ts',
+        project: 'lib2',
+      });
+
+      expect(tree.exists('.nxworker/move-history.json')).toBe(false);
+    });
+  });
+
+  describe('onConflict option', () => {
+    beforeEach(() => {
+      addProjectConfiguration(tree, 'app1', {
+        root: 'packages/app1',
+        sourceRoot: 'packages/app1/src',
+        projectType: 'application',
+      });
+
+      tree.write(
+        'packages/lib1/src/lib/helper.ts',
+        "export const helper = () => 'helper';\n",
+      );
+      tree.write(
+        'packages/lib1/src/index.ts',
+        "export * from './lib/helper';\n",
+      );
+      tree.write(
+        'packages/lib2/src/lib/helper.ts',
+        "import { helper } from '@test/lib1';\n\nexport const other = () => helper();\n",
+      );
+      tree.write(
+        'packages/lib2/src/index.ts',
+        "export * from './lib/helper';\n",
+      );
+      tree.write(
+        'packages/app1/src/main.ts',
+        "import { helper } from '@test/lib1';\n\nhelper();\n",
+      );
+    });
+
+    it('should fail by default', async () => {
+      await expect(
+        moveFileGenerator(tree, {
+          file: 'packages/lib1/src/lib/helper.ts',
+          project: 'lib2',
+        }),
+      ).rejects.toThrow(
+        'Target file "packages/lib2/src/lib/helper.ts" already exists. Pass --on-conflict=overwrite, rename, or merge-exports to move it anyway.',
+      );
+    });
+
+    it('should replace the existing file with overwrite', async () => {
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/helper.ts',
+        project: 'lib2',
+        onConflict: 'overwrite',
+      });
+
+      expect(tree.read('packages/lib2/src/lib/helper.ts', 'utf-8')).toBe(
+        "export const helper = () => 'helper';\n",
+      );
+      expect(tree.read('packages/lib2/src/index.ts', 'utf-8')).toBe(
+        "export * from './lib/helper';\n",
+      );
+      expect(tree.read('packages/app1/src/main.ts', 'utf-8')).toContain(
+        "import { helper } from '@test/lib2';",
+      );
+    });
+
+    it('should move the file to a free name with rename', async () => {
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/helper.ts',
+        project: 'lib2',
+        onConflict: 'rename',
+      });
+
+      expect(tree.read('packages/lib2/src/lib/helper-1.ts', 'utf-8')).toBe(
+        "export const helper = () => 'helper';\n",
+      );
+      expect(tree.read('packages/lib2/src/lib/helper.ts', 'utf-8')).toContain(
+        'export const other',
+      );
+      expect(tree.read('packages/lib2/src/index.ts', 'utf-8')).toBe(
+        "export * from './lib/helper';\nexport * from './lib/helper-1';\n",
+      );
+      expect(tree.read('packages/lib2/src/lib/helper.ts', 'utf-8')).toContain(
+        "import { helper } from './helper-1';",
+      );
+      expect(tree.read('packages/app1/src/main.ts', 'utf-8')).toContain(
+        "import { helper } from '@test/lib2';",
+      );
+    });
+
+    it('should give files of a batch with the same name distinct names with rename', async () => {
+      tree.write(
+        'packages/lib1/src/lib/legacy/helper.ts',
+        "export const legacyHelper = () => 'legacy';\n",
+      );
+
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/helper.ts,packages/lib1/src/lib/legacy/helper.ts',
+        project: 'lib2',
+        onConflict: 'rename',
+      });
+
+      expect(tree.read('packages/lib2/src/lib/helper-1.ts', 'utf-8')).toBe(
+        "export const helper = () => 'helper';\n",
+      );
+      expect(tree.read('packages/lib2/src/lib/helper-2.ts', 'utf-8')).toBe(
+        "export const legacyHelper = () => 'legacy';\n",
+      );
+      expect(tree.read('packages/lib2/src/lib/helper.ts', 'utf-8')).toContain(
+        'export const other',
+      );
+    });
+
+    it('should append the moved declarations to the existing file with merge-exports', async () => {
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/helper.ts',
+        project: 'lib2',
+        onConflict: 'merge-exports',
+      });
+
+      expect(tree.read('packages/lib2/src/lib/helper.ts', 'utf-8')).toBe(
+        "export const other = () => helper();\n\nexport const helper = () => 'helper';\n",
+      );
+      expect(tree.exists('packages/lib1/src/lib/helper.ts')).toBe(false);
+      expect(tree.read('packages/lib2/src/index.ts', 'utf-8')).toBe(
+        "export * from './lib/helper';\n",
+      );
+      expect(tree.read('packages/app1/src/main.ts', 'utf-8')).toContain(
+        "import { helper } from '@test/lib2';",
+      );
+    });
+
+    it('should import files of the source project through its alias with merge-exports', async () => {
+      tree.write('packages/lib1/src/lib/y.ts', 'export const y = 1;\n');
+      tree.write(
+        'packages/lib1/src/index.ts',
+        "export * from './lib/helper';\nexport * from './lib/y';\n",
+      );
+      tree.write(
+        'packages/lib1/src/lib/helper.ts',
+        "import { y } from './y';\n\nexport const helper = () => y;\n",
+      );
+      tree.write(
+        'packages/lib2/src/lib/helper.ts',
+        "import { z } from '@test/lib1';\n\nexport const other = () => z;\n",
+      );
+
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/helper.ts',
+        project: 'lib2',
+        onConflict: 'merge-exports',
+      });
+
+      expect(tree.read('packages/lib2/src/lib/helper.ts', 'utf-8')).toBe(
+        "import { z, y } from '@test/lib1';\n\nexport const other = () => z;\n\nexport const helper = () => y;\n",
+      );
+    });
+
+    it('should refuse to merge files that declare the same name', async () => {
+      tree.write(
+        'packages/lib2/src/lib/helper.ts',
+        "export const helper = () => 'other';\n",
+      );
+
+      await expect(
+        moveFileGenerator(tree, {
+          file: 'packages/lib1/src/lib/helper.ts',
+          project: 'lib2',
+          onConflict: 'merge-exports',
+        }),
+      ).rejects.toThrow(
+        'Cannot merge "packages/lib1/src/lib/helper.ts" into "packages/lib2/src/lib/helper.ts": both declare "helper"',
+      );
+    });
+
+    it('should report the resolution in the move plan', async () => {
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/helper.ts',
+        project: 'lib2',
+        onConflict: 'rename',
+        plan: true,
+        planOutput: 'move-plan.json',
+      });
+
+      const [entry] = readJson(tree, 'move-plan.json').entries;
+      expect(entry.target).toBe('packages/lib2/src/lib/helper-1.ts');
+      expect(entry.conflict).toEqual({
+        resolution: 'rename',
+        existingFile: 'packages/lib2/src/lib/helper.ts',
+      });
+    });
+  });
+
+  describe('targetPath option', () => {
+    beforeEach(() => {
+      addProjectConfiguration(tree, 'app1', {
+        root: 'packages/app1',
+        sourceRoot: 'packages/app1/src',
+        projectType: 'application',
+      });
+
+      tree.write(
+        'packages/lib1/src/lib/helper.ts',
+        "export const helper = () => 'helper';\n",
+      );
+      tree.write(
+        'packages/lib1/src/index.ts',
+        "export * from './lib/helper';\n",
+      );
+      tree.write(
+        'packages/app1/src/main.ts',
+        "import { helper } from '@test/lib1';\n\nhelper();\n",
+      );
+    });
+
+    it('should move the file to the exact path and infer the target project', async () => {
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/helper.ts',
+        targetPath: 'packages/lib2/src/utils/format-helper.ts',
+      });
+
+      expect(tree.exists('packages/lib1/src/lib/helper.ts')).toBe(false);
+      expect(
+        tree.read('packages/lib2/src/utils/format-helper.ts', 'utf-8'),
+      ).toBe("export const helper = () => 'helper';\n");
+      expect(tree.read('packages/lib2/src/index.ts', 'utf-8')).toContain(
+        "export * from './utils/format-helper';",
+      );
+      expect(tree.read('packages/app1/src/main.ts', 'utf-8')).toContain(
+        "import { helper } from '@test/lib2';",
+      );
+    });
+
+    it('should rename a file within its project', async () => {
+      tree.write(
+        'packages/lib1/src/lib/consumer.ts',
+        "import { helper } from './helper';\n\nexport const value = helper();\n",
+      );
+
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/helper.ts',
+        targetPath: 'packages/lib1/src/lib/text-helper.ts',
+      });
+
+      expect(tree.exists('packages/lib1/src/lib/text-helper.ts')).toBe(true);
+      expect(tree.read('packages/lib1/src/lib/consumer.ts', 'utf-8')).toContain(
+        "import { helper } from './text-helper';",
+      );
+      expect(tree.read('packages/lib1/src/index.ts', 'utf-8')).toBe(
+        "export * from './lib/text-helper';\n",
+      );
+      expect(tree.read('packages/app1/src/main.ts', 'utf-8')).toContain(
+        "import { helper } from '@test/lib1';",
+      );
+    });
+
+    it('should rename companion files along with the file', async () => {
+      tree.write(
+        'packages/lib1/src/lib/helper.spec.ts',
+        "import { helper } from './helper';\n\nhelper();\n",
+      );
+
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/helper.ts',
+        targetPath: 'packages/lib2/src/text-helper.ts',
+        withCompanions: true,
+      });
+
+      expect(tree.exists('packages/lib2/src/text-helper.ts')).toBe(true);
+      expect(
+        tree.read('packages/lib2/src/text-helper.spec.ts', 'utf-8'),
+      ).toContain("import { helper } from './text-helper';");
+    });
+
+    it('should reject a project that does not contain the target path', async () => {
+      await expect(
+        moveFileGenerator(tree, {
+          file: 'packages/lib1/src/lib/helper.ts',
+          project: 'lib1',
+          targetPath: 'packages/lib2/src/helper.ts',
+        }),
+      ).rejects.toThrow(
+        'Target path "packages/lib2/src/helper.ts" belongs to project "lib2", not "lib1"',
+      );
+    });
+
+    it('should reject a target path outside every project', async () => {
+      await expect(
+        moveFileGenerator(tree, {
+          file: 'packages/lib1/src/lib/helper.ts',
+          targetPath: 'tools/helper.ts',
+        }),
+      ).rejects.toThrow(
+        'Could not determine target project for path "tools/helper.ts"',
+      );
+    });
+
+    it('should reject a pattern that matches more than one file', async () => {
+      tree.write('packages/lib1/src/lib/other.ts', 'export const other = 1;\n');
+
+      await expect(
+        moveFileGenerator(tree, {
+          file: 'packages/lib1/src/lib/*.ts',
+          targetPath: 'packages/lib2/src/helper.ts',
+        }),
+      ).rejects.toThrow(
+        'The "targetPath" option moves a single file, but "packages/lib1/src/lib/*.ts" matches 2 files',
+      );
+    });
+
+    it('should reject projectDirectory together with targetPath', async () => {
+      await expect(
+        moveFileGenerator(tree, {
+          file: 'packages/lib1/src/lib/helper.ts',
+          targetPath: 'packages/lib2/src/helper.ts',
+          projectDirectory: 'utils',
+        }),
+      ).rejects.toThrow(
+        'Cannot use "targetPath" together with "projectDirectory" or "deriveProjectDirectory"',
+      );
+    });
+
+    it('should reject a target path that is a directory', async () => {
+      tree.write('packages/lib2/src/utils/index.ts', '');
+
+      await expect(
+        moveFileGenerator(tree, {
+          file: 'packages/lib1/src/lib/helper.ts',
+          targetPath: 'packages/lib2/src/utils',
+        }),
+      ).rejects.toThrow(
+        'Target path "packages/lib2/src/utils" is a directory. Pass the path of the moved file, including its file name.',
+      );
+    });
+
+    it('should require either project or targetPath', async () => {
+      await expect(
+        moveFileGenerator(tree, {
+          file: 'packages/lib1/src/lib/helper.ts',
+        }),
+      ).rejects.toThrow('Either "project" or "targetPath" must be set');
+    });
+  });
+
+  describe('target base directory', () => {
+    beforeEach(() => {
+      tree.write(
+        'packages/lib1/src/lib/helper.ts',
+        "export const helper = () => 'helper';\n",
+      );
+    });
+
+    it('should place files next to the existing files of a flat project', async () => {
+      addProjectConfiguration(tree, 'api', {
+        root: 'apps/api',
+        sourceRoot: 'apps/api/src',
+        projectType: 'application',
+      });
+      tree.write('apps/api/src/main.ts', "import './routes/users';\n");
+      tree.write('apps/api/src/routes/users.ts', 'export const users = [];\n');
+
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/helper.ts',
+        project: 'api',
+        projectDirectory: 'utils',
+      });
+
+      expect(tree.exists('apps/api/src/utils/helper.ts')).toBe(true);
+    });
+
+    it('should use the base directory from the nx.json generator defaults', async () => {
+      updateJson(tree, 'nx.json', (json) => ({
+        ...json,
+        generators: {
+          '@nxworker/workspace:move-file': { baseDirectory: 'features' },
+        },
+      }));
+
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/helper.ts',
+        project: 'lib2',
+      });
+
+      expect(tree.exists('packages/lib2/src/features/helper.ts')).toBe(true);
+    });
+
+    it('should prefer the base directory from the project metadata', async () => {
+      updateJson(tree, 'nx.json', (json) => ({
+        ...json,
+        generators: {
+          '@nxworker/workspace:move-file': { baseDirectory: 'features' },
+        },
+      }));
+      addProjectConfiguration(tree, 'lib3', {
+        root: 'packages/lib3',
+        sourceRoot: 'packages/lib3/src',
+        projectType: 'library',
+        metadata: {
+          '@nxworker/workspace': { baseDirectory: '.' },
+        } as ProjectConfiguration['metadata'],
+      });
+
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/helper.ts',
+        project: 'lib3',
+      });
+
+      expect(tree.exists('packages/lib3/src/helper.ts')).toBe(true);
+    });
+
+    it('should derive the project directory from the base directory of the source project', async () => {
+      tree.delete('packages/lib1/src/lib/helper.ts');
+      tree.write(
+        'packages/lib1/src/date/format/helper.ts',
+        "export const helper = () => 'helper';\n",
+      );
+      tree.write(
+        'packages/lib1/src/models/user.ts',
+        'export type User = {};\n',
+      );
+
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/date/format/helper.ts',
+        project: 'lib2',
+        deriveProjectDirectory: true,
+      });
+
+      expect(tree.exists('packages/lib2/src/lib/date/format/helper.ts')).toBe(
+        true,
+      );
+    });
+  });
+
+  describe('project references', () => {
+    beforeEach(() => {
+      createProjectGraphAsyncMock.mockImplementation(async () => ({
+        nodes: {},
+        dependencies: {
+          lib1: [],
+          lib2: [],
+          lib3: [{ source: 'lib3', target: 'lib1', type: 'static' }],
+        },
+      }));
+      updateJson(tree, 'tsconfig.base.json', (json) => {
+        delete json.compilerOptions.paths;
+        return json;
+      });
+      writeJson(tree, 'tsconfig.json', {
+        files: [],
+        references: [
+          { path: './packages/lib1' },
+          { path: './packages/lib2' },
+          { path: './packages/lib3' },
+        ],
+      });
+      addProjectConfiguration(tree, 'lib3', {
+        root: 'packages/lib3',
+        sourceRoot: 'packages/lib3/src',
+        projectType: 'library',
+      });
+      tree.write('packages/lib3/src/index.ts', '');
+      for (const name of ['lib1', 'lib2', 'lib3']) {
+        writeJson(tree, `packages/${name}/package.json`, {
+          name: `@test/${name}`,
+        });
+        writeJson(tree, `packages/${name}/tsconfig.json`, {
+          files: [],
+          references: [{ path: './tsconfig.lib.json' }],
+        });
+        writeJson(tree, `packages/${name}/tsconfig.lib.json`, {
+          compilerOptions: { outDir: 'dist' },
+          include: ['src/**/*.ts'],
+        });
+      }
+    });
+
+    it('should resolve project aliases from the linked workspace packages', async () => {
+      tree.write(
+        'packages/lib1/src/lib/helper.ts',
+        "export const helper = () => 'helper';\n",
+      );
+      tree.write(
+        'packages/lib1/src/index.ts',
+        "export * from './lib/helper';\n",
+      );
+      tree.write(
+        'packages/lib3/src/lib/consumer.ts',
+        "import { helper } from '@test/lib1';\nexport const run = helper;\n",
+      );
+
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/helper.ts',
+        project: 'lib2',
+      });
+
+      expect(tree.read('packages/lib3/src/lib/consumer.ts', 'utf-8')).toContain(
+        "from '@test/lib2'",
+      );
+      expect(tree.read('packages/lib2/src/index.ts', 'utf-8')).toContain(
+        "export * from './lib/helper';",
+      );
+    });
+
+    it('should move references from the source project to the target project in dependents', async () => {
+      tree.write(
+        'packages/lib1/src/lib/helper.ts',
+        "export const helper = () => 'helper';\n",
+      );
+      tree.write(
+        'packages/lib1/src/index.ts',
+        "export * from './lib/helper';\n",
+      );
+      tree.write(
+        'packages/lib3/src/lib/consumer.ts',
+        "import { helper } from '@test/lib1';\nexport const run = helper;\n",
+      );
+      updateJson(tree, 'packages/lib3/tsconfig.json', (json) => {
+        json.references.push({ path: '../lib1' });
+        return json;
+      });
+      updateJson(tree, 'packages/lib3/tsconfig.lib.json', (json) => ({
+        ...json,
+        references: [{ path: '../lib1/tsconfig.lib.json' }],
+      }));
+
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/helper.ts',
+        project: 'lib2',
+      });
+
+      expect(readJson(tree, 'packages/lib3/tsconfig.json').references).toEqual([
+        { path: './tsconfig.lib.json' },
+        { path: '../lib2' },
+      ]);
+      expect(
+        readJson(tree, 'packages/lib3/tsconfig.lib.json').references,
+      ).toEqual([{ path: '../lib2/tsconfig.lib.json' }]);
+    });
+
+    it('should move the references of the moved file to the target project', async () => {
+      tree.write(
+        'packages/lib3/src/index.ts',
+        'export const format = (value: string) => value;\n',
+      );
+      tree.write(
+        'packages/lib1/src/lib/helper.ts',
+        "import { format } from '@test/lib3';\nexport const helper = () => format('helper');\n",
+      );
+      updateJson(tree, 'packages/lib1/tsconfig.json', (json) => {
+        json.references.push({ path: '../lib3' });
+        return json;
+      });
+
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/helper.ts',
+        project: 'lib2',
+      });
+
+      expect(readJson(tree, 'packages/lib1/tsconfig.json').references).toEqual([
+        { path: './tsconfig.lib.json' },
+      ]);
+      expect(readJson(tree, 'packages/lib2/tsconfig.json').references).toEqual([
+        { path: './tsconfig.lib.json' },
+        { path: '../lib3' },
+      ]);
+      expect(
+        readJson(tree, 'packages/lib2/tsconfig.lib.json').references,
+      ).toEqual([{ path: '../lib3/tsconfig.lib.json' }]);
+    });
+
+    it('should resolve path aliases declared in project tsconfig files', async () => {
+      tree.delete('packages/lib2/package.json');
+      updateJson(tree, 'packages/lib1/tsconfig.lib.json', (json) => ({
+        ...json,
+        compilerOptions: {
+          ...json.compilerOptions,
+          paths: { '@test/lib2': ['../lib2/src/index.ts'] },
+        },
+      }));
+      tree.write(
+        'packages/lib1/src/lib/helper.ts',
+        "export const helper = () => 'helper';\n",
+      );
+      tree.write(
+        'packages/lib1/src/lib/consumer.ts',
+        "import { helper } from './helper';\nexport const run = helper;\n",
+      );
+
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/helper.ts',
+        project: 'lib2',
+      });
+
+      expect(tree.read('packages/lib1/src/lib/consumer.ts', 'utf-8')).toContain(
+        "from '@test/lib2'",
+      );
+      expect(readJson(tree, 'packages/lib1/tsconfig.json').references).toEqual([
+        { path: './tsconfig.lib.json' },
+        { path: '../lib2' },
+      ]);
+    });
+
+    it('should leave project tsconfig files alone without project references', async () => {
+      writeJson(tree, 'tsconfig.json', { files: [] });
+      updateJson(tree, 'tsconfig.base.json', (json) => {
+        json.compilerOptions.paths = {
+          '@test/lib1': ['packages/lib1/src/index.ts'],
+          '@test/lib2': ['packages/lib2/src/index.ts'],
+          '@test/lib3': ['packages/lib3/src/index.ts'],
+        };
+        return json;
+      });
+      tree.write(
+        'packages/lib1/src/lib/helper.ts',
+        "import { format } from '@test/lib3';\nexport const helper = () => format('helper');\n",
+      );
+
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/helper.ts',
+        project: 'lib2',
+      });
+
+      expect(readJson(tree, 'packages/lib2/tsconfig.json').references).toEqual([
+        { path: './tsconfig.lib.json' },
+      ]);
+    });
+  });
+
+  describe('package-based workspaces', () => {
+    beforeEach(() => {
+      createProjectGraphAsyncMock.mockImplementation(async () => ({
+        nodes: {},
+        dependencies: {
+          lib1: [],
+          lib2: [],
+          lib3: [{ source: 'lib3', target: 'lib1', type: 'static' }],
+        },
+      }));
+      updateJson(tree, 'tsconfig.base.json', (json) => {
+        delete json.compilerOptions.paths;
+        return json;
+      });
+      updateJson(tree, 'package.json', (json) => ({
+        ...json,
+        workspaces: ['packages/*'],
+      }));
+      addProjectConfiguration(tree, 'lib3', {
+        root: 'packages/lib3',
+        sourceRoot: 'packages/lib3/src',
+        projectType: 'library',
+      });
+      tree.write('packages/lib3/src/index.ts', '');
+      for (const name of ['lib1', 'lib2', 'lib3']) {
+        writeJson(tree, `packages/${name}/package.json`, {
+          name: `@test/${name}`,
+          version: '1.0.0',
+        });
+      }
+      tree.write(
+        'packages/lib1/src/lib/helper.ts',
+        "export const helper = () => 'helper';\n",
+      );
+      tree.write(
+        'packages/lib1/src/index.ts',
+        "export * from './lib/helper';\n",
+      );
+    });
+
+    it('should import projects by their package names', async () => {
+      tree.write(
+        'packages/lib3/src/lib/consumer.ts',
+        "import { helper } from '@test/lib1';\nexport const run = helper;\n",
+      );
+
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/helper.ts',
+        project: 'lib2',
+      });
+
+      expect(tree.read('packages/lib3/src/lib/consumer.ts', 'utf-8')).toContain(
+        "from '@test/lib2'",
+      );
+      expect(tree.read('packages/lib2/src/index.ts', 'utf-8')).toContain(
+        "export * from './lib/helper';",
+      );
+    });
+
+    it('should export moved files from the entry point in the package.json exports', async () => {
+      writeJson(tree, 'packages/lib2/package.json', {
+        name: '@test/lib2',
+        exports: {
+          '.': { types: './src/main.ts', default: './src/main.js' },
+        },
+      });
+      tree.write('packages/lib2/src/main.ts', '');
+
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/helper.ts',
+        project: 'lib2',
+      });
+
+      expect(tree.read('packages/lib2/src/main.ts', 'utf-8')).toContain(
+        "export * from './lib/helper';",
+      );
+    });
+
+    it('should move the dependency of dependents to the target package', async () => {
+      tree.write(
+        'packages/lib3/src/lib/consumer.ts',
+        "import { helper } from '@test/lib1';\nexport const run = helper;\n",
+      );
+      updateJson(tree, 'packages/lib3/package.json', (json) => ({
+        ...json,
+        dependencies: { '@test/lib1': '1.0.0', tslib: '^2.0.0' },
+      }));
+
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/helper.ts',
+        project: 'lib2',
+      });
+
+      expect(readJson(tree, 'packages/lib3/package.json').dependencies).toEqual(
+        { '@test/lib2': '1.0.0', tslib: '^2.0.0' },
+      );
+    });
+
+    it('should move the dependencies of the moved file using the workspace protocol', async () => {
+      tree.write('pnpm-workspace.yaml', "packages:\n  - 'packages/*'\n");
+      tree.write(
+        'packages/lib3/src/index.ts',
+        'export const format = (value: string) => value;\n',
+      );
+      tree.write(
+        'packages/lib1/src/lib/helper.ts',
+        "import { format } from '@test/lib3';\nexport const helper = () => format('helper');\n",
+      );
+      updateJson(tree, 'packages/lib1/package.json', (json) => ({
+        ...json,
+        dependencies: { '@test/lib3': 'workspace:*' },
+      }));
+
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/helper.ts',
+        project: 'lib2',
+      });
+
+      expect(readJson(tree, 'packages/lib1/package.json').dependencies).toEqual(
+        {},
+      );
+      expect(readJson(tree, 'packages/lib2/package.json').dependencies).toEqual(
+        { '@test/lib3': 'workspace:*' },
+      );
+    });
+
+    it('should keep declared dependencies that the move did not stop importing', async () => {
+      updateJson(tree, 'packages/lib1/package.json', (json) => ({
+        ...json,
+        dependencies: { '@test/lib2': '1.0.0' },
+      }));
+
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/helper.ts',
+        project: 'lib2',
+      });
+
+      expect(readJson(tree, 'packages/lib1/package.json').dependencies).toEqual(
+        { '@test/lib2': '1.0.0' },
+      );
+    });
+
+    it('should add packages imported only by spec files to the dev dependencies', async () => {
+      tree.write(
+        'packages/lib3/src/lib/consumer.spec.ts',
+        "import { helper } from '@test/lib1';\nit('runs', () => helper());\n",
+      );
+      updateJson(tree, 'packages/lib3/package.json', (json) => ({
+        ...json,
+        devDependencies: { '@test/lib1': '1.0.0' },
+      }));
+
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/helper.ts',
+        project: 'lib2',
+      });
+
+      const packageJson = readJson(tree, 'packages/lib3/package.json');
+      expect(packageJson.dependencies).toBeUndefined();
+      expect(packageJson.devDependencies).toEqual({
+        '@test/lib1': '1.0.0',
+        '@test/lib2': '1.0.0',
+      });
+    });
+
+    it('should keep dependencies declared as dev or peer dependencies', async () => {
+      tree.write(
+        'packages/lib3/src/index.ts',
+        'export const format = (value: string) => value;\n',
+      );
+      tree.write(
+        'packages/lib1/src/lib/helper.ts',
+        "import { format } from '@test/lib3';\nexport const helper = () => format('helper');\n",
+      );
+      updateJson(tree, 'packages/lib2/package.json', (json) => ({
+        ...json,
+        peerDependencies: { '@test/lib3': '^1.0.0' },
+      }));
+
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/helper.ts',
+        project: 'lib2',
+      });
+
+      expect(readJson(tree, 'packages/lib2/package.json')).toEqual({
+        name: '@test/lib2',
+        version: '1.0.0',
+        peerDependencies: { '@test/lib3': '^1.0.0' },
+      });
+    });
+  });
+
+  describe('secondary entry points', () => {
+    beforeEach(() => {
+      createProjectGraphAsyncMock.mockImplementation(async () => ({
+        nodes: {},
+        dependencies: {
+          lib1: [],
+          lib2: [],
+          lib3: [
+            { source: 'lib3', target: 'lib1', type: 'static' },
+            { source: 'lib3', target: 'lib2', type: 'static' },
+          ],
+        },
+      }));
+      addProjectConfiguration(tree, 'lib3', {
+        root: 'packages/lib3',
+        sourceRoot: 'packages/lib3/src',
+        projectType: 'library',
+      });
+      tree.write('packages/lib3/src/index.ts', '');
+      tree.write(
+        'packages/lib1/src/lib/helper.ts',
+        "export const helper = () => 'helper';\n",
+      );
+      tree.write(
+        'packages/lib1/src/index.ts',
+        "export * from './lib/helper';\n",
+      );
+      tree.write(
+        'packages/lib3/src/lib/consumer.ts',
+        "import { helper } from '@test/lib1';\nexport const run = helper;\n",
+      );
+    });
+
+    describe('with tsconfig path aliases', () => {
+      beforeEach(() => {
+        updateJson(tree, 'tsconfig.base.json', (json) => {
+          json.compilerOptions.paths = {
+            '@test/lib1/testing': ['packages/lib1/src/testing/index.ts'],
+            '@test/lib1': ['packages/lib1/src/index.ts'],
+            '@test/lib2': ['packages/lib2/src/index.ts'],
+            '@test/lib2/testing': ['packages/lib2/src/testing/index.ts'],
+          };
+          return json;
+        });
+        tree.write('packages/lib1/src/testing/index.ts', '');
+        tree.write('packages/lib2/src/testing/index.ts', '');
+      });
+
+      it('should export a file moved into a secondary entry point from its barrel', async () => {
+        await moveFileGenerator(tree, {
+          file: 'packages/lib1/src/lib/helper.ts',
+          targetPath: 'packages/lib1/src/testing/helper.ts',
+        });
+
+        expect(tree.read('packages/lib1/src/testing/index.ts', 'utf-8')).toBe(
+          "export * from './helper';\n",
+        );
+        expect(tree.read('packages/lib1/src/index.ts', 'utf-8')).not.toContain(
+          'helper',
+        );
+        expect(
+          tree.read('packages/lib3/src/lib/consumer.ts', 'utf-8'),
+        ).toContain("import { helper } from '@test/lib1/testing';");
+      });
+
+      it('should move a file out of a secondary entry point', async () => {
+        tree.delete('packages/lib1/src/lib/helper.ts');
+        tree.write(
+          'packages/lib1/src/testing/helper.ts',
+          "export const helper = () => 'helper';\n",
+        );
+        tree.write('packages/lib1/src/index.ts', '');
+        tree.write(
+          'packages/lib1/src/testing/index.ts',
+          "export * from './helper';\n",
+        );
+        tree.write(
+          'packages/lib3/src/lib/consumer.ts',
+          "import { helper } from '@test/lib1/testing';\nexport const run = helper;\n",
+        );
+
+        await moveFileGenerator(tree, {
+          file: 'packages/lib1/src/testing/helper.ts',
+          targetPath: 'packages/lib1/src/lib/helper.ts',
+        });
+
+        expect(tree.read('packages/lib1/src/index.ts', 'utf-8')).toBe(
+          "export * from './lib/helper';\n",
+        );
+        expect(
+          tree.read('packages/lib1/src/testing/index.ts', 'utf-8'),
+        ).not.toContain('helper');
+        expect(
+          tree.read('packages/lib3/src/lib/consumer.ts', 'utf-8'),
+        ).toContain("import { helper } from '@test/lib1';");
+      });
+
+      it('should import a file moved into a secondary entry point of another project through it', async () => {
+        await moveFileGenerator(tree, {
+          file: 'packages/lib1/src/lib/helper.ts',
+          targetPath: 'packages/lib2/src/testing/helper.ts',
+        });
+
+        expect(tree.read('packages/lib2/src/testing/index.ts', 'utf-8')).toBe(
+          "export * from './helper';\n",
+        );
+        expect(tree.read('packages/lib2/src/index.ts', 'utf-8')).toBe('');
+        expect(
+          tree.read('packages/lib3/src/lib/consumer.ts', 'utf-8'),
+        ).toContain("import { helper } from '@test/lib2/testing';");
+      });
+    });
+
+    it('should use subpath exports in package-based workspaces', async () => {
+      updateJson(tree, 'tsconfig.base.json', (json) => {
+        delete json.compilerOptions.paths;
+        return json;
+      });
+      updateJson(tree, 'package.json', (json) => ({
+        ...json,
+        workspaces: ['packages/*'],
+      }));
+      writeJson(tree, 'packages/lib1/package.json', { name: '@test/lib1' });
+      writeJson(tree, 'packages/lib2/package.json', {
+        name: '@test/lib2',
+        exports: {
+          '.': './src/index.ts',
+          './testing': { types: './src/testing/index.ts' },
+        },
+      });
+      writeJson(tree, 'packages/lib3/package.json', { name: '@test/lib3' });
+      tree.write('packages/lib2/src/testing/index.ts', '');
+
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/helper.ts',
+        targetPath: 'packages/lib2/src/testing/helper.ts',
+      });
+
+      expect(tree.read('packages/lib2/src/testing/index.ts', 'utf-8')).toBe(
+        "export * from './helper';\n",
+      );
+      expect(tree.read('packages/lib3/src/lib/consumer.ts', 'utf-8')).toContain(
+        "import { helper } from '@test/lib2/testing';",
+      );
+    });
+
+    it('should use ng-packagr secondary entry points', async () => {
+      writeJson(tree, 'packages/lib2/package.json', { name: '@test/lib2' });
+      writeJson(tree, 'packages/lib2/ng-package.json', {
+        lib: { entryFile: 'src/index.ts' },
+      });
+      writeJson(tree, 'packages/lib2/testing/ng-package.json', {
+        lib: { entryFile: 'src/index.ts' },
+      });
+      tree.write('packages/lib2/testing/src/index.ts', '');
+
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/helper.ts',
+        targetPath: 'packages/lib2/testing/src/helper.ts',
+      });
+
+      expect(tree.read('packages/lib2/testing/src/index.ts', 'utf-8')).toBe(
+        "export * from './helper';\n",
+      );
+      expect(tree.read('packages/lib3/src/lib/consumer.ts', 'utf-8')).toContain(
+        "import { helper } from '@test/lib2/testing';",
+      );
+    });
+  });
+
+  describe('ESM import specifiers', () => {
+    beforeEach(() => {
+      tree.write(
+        'packages/lib1/tsconfig.lib.json',
+        JSON.stringify({
+          compilerOptions: { module: 'nodenext', moduleResolution: 'nodenext' },
+        }),
+      );
+    });
+
+    it('should keep .js extensions of relative imports', async () => {
+      tree.write(
+        'packages/lib1/src/lib/types.ts',
+        'export type Helper = () => string;\n',
+      );
+      tree.write(
+        'packages/lib1/src/lib/helper.ts',
+        "import type { Helper } from './types.js';\nexport const helper: Helper = () => 'helper';\n",
+      );
+      tree.write(
+        'packages/lib1/src/lib/consumer.ts',
+        "import { helper } from './helper.js';\nexport const run = helper;\n",
+      );
+      tree.write(
+        'packages/lib1/src/index.ts',
+        "export * from './lib/helper.js';\n",
+      );
+
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/helper.ts',
+        targetPath: 'packages/lib1/src/utils/helper.ts',
+      });
+
+      expect(tree.read('packages/lib1/src/lib/consumer.ts', 'utf-8')).toContain(
+        "import { helper } from '../utils/helper.js';",
+      );
+      expect(tree.read('packages/lib1/src/utils/helper.ts', 'utf-8')).toContain(
+        "import type { Helper } from '../lib/types.js';",
+      );
+      expect(tree.read('packages/lib1/src/index.ts', 'utf-8')).toBe(
+        "export * from './utils/helper.js';\n",
+      );
+    });
+
+    it('should import .mts and .cts files by their emitted extensions', async () => {
+      tree.write(
+        'packages/lib1/src/lib/helper.mts',
+        "export const helper = () => 'helper';\n",
+      );
+      tree.write(
+        'packages/lib1/src/lib/legacy.cts',
+        "export const legacy = () => 'legacy';\n",
+      );
+      tree.write(
+        'packages/lib1/src/lib/consumer.mts',
+        "import { helper } from './helper.mjs';\nimport { legacy } from './legacy.cjs';\nexport const run = () => helper() + legacy();\n",
+      );
+
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/helper.mts,packages/lib1/src/lib/legacy.cts',
+        project: 'lib1',
+        projectDirectory: 'utils',
+      });
+
+      const consumer = tree.read('packages/lib1/src/lib/consumer.mts', 'utf-8');
+      expect(consumer).toContain(
+        "import { helper } from './utils/helper.mjs';",
+      );
+      expect(consumer).toContain(
+        "import { legacy } from './utils/legacy.cjs';",
+      );
+    });
+
+    it('should add .js extensions to new relative imports in nodenext projects', async () => {
+      tree.write(
+        'packages/lib2/src/lib/helper.ts',
+        "export const helper = () => 'helper';\n",
+      );
+      tree.write(
+        'packages/lib2/src/index.ts',
+        "export * from './lib/helper';\n",
+      );
+      tree.write(
+        'packages/lib1/src/lib/consumer.ts',
+        "import { helper } from '@test/lib2';\nexport const run = helper;\n",
+      );
+
+      await moveFileGenerator(tree, {
+        file: 'packages/lib2/src/lib/helper.ts',
+        project: 'lib1',
+      });
+
+      expect(tree.read('packages/lib1/src/lib/consumer.ts', 'utf-8')).toContain(
+        "import { helper } from './helper.js';",
+      );
+      expect(tree.read('packages/lib1/src/index.ts', 'utf-8')).toBe(
+        "export * from './lib/helper.js';\n",
+      );
+    });
+
+    it('should use .ts extensions with allowImportingTsExtensions', async () => {
+      tree.write(
+        'packages/lib1/tsconfig.lib.json',
+        JSON.stringify({
+          compilerOptions: {
+            module: 'esnext',
+            moduleResolution: 'bundler',
+            allowImportingTsExtensions: true,
+          },
+        }),
+      );
+      tree.write(
+        'packages/lib1/src/lib/helper.ts',
+        "export const helper = () => 'helper';\n",
+      );
+      tree.write(
+        'packages/lib1/src/lib/consumer.ts',
+        "import { helper } from './helper.ts';\nexport const run = helper;\n",
+      );
+
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/helper.ts',
+        targetPath: 'packages/lib1/src/utils/helper.ts',
+      });
+
+      expect(tree.read('packages/lib1/src/lib/consumer.ts', 'utf-8')).toContain(
+        "import { helper } from '../utils/helper.ts';",
+      );
+    });
+  });
+
+  describe('baseUrl imports', () => {
+    beforeEach(() => {
+      tree.write(
+        'packages/lib1/tsconfig.json',
+        JSON.stringify({ compilerOptions: { baseUrl: './src' } }),
+      );
+      tree.write(
+        'packages/lib1/src/lib/shared/util.ts',
+        "export const util = () => 'util';\n",
+      );
+      tree.write(
+        'packages/lib1/src/lib/feature/page.ts',
+        "import { util } from 'lib/shared/util';\nexport const page = util;\n",
+      );
+      tree.write(
+        'packages/lib1/src/lib/main.ts',
+        "import { util } from './shared/util';\nexport const main = util;\n",
+      );
+    });
+
+    it('should keep imports resolved against the baseUrl non-relative', async () => {
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/shared/util.ts',
+        targetPath: 'packages/lib1/src/lib/core/util.ts',
+      });
+
+      expect(
+        tree.read('packages/lib1/src/lib/feature/page.ts', 'utf-8'),
+      ).toContain("import { util } from 'lib/core/util';");
+      expect(tree.read('packages/lib1/src/lib/main.ts', 'utf-8')).toContain(
+        "import { util } from './core/util';",
+      );
+    });
+
+    it('should rewrite baseUrl imports to the alias of the target project', async () => {
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/shared/util.ts',
+        project: 'lib2',
+      });
+
+      expect(
+        tree.read('packages/lib1/src/lib/feature/page.ts', 'utf-8'),
+      ).toContain("import { util } from '@test/lib2';");
+      expect(tree.read('packages/lib2/src/index.ts', 'utf-8')).toContain(
+        "export * from './lib/util';",
+      );
+    });
+
+    it('should rewrite baseUrl imports of the moved file to the source alias', async () => {
+      tree.write(
+        'packages/lib1/src/lib/shared/types.ts',
+        'export type Util = () => string;\n',
+      );
+      tree.write(
+        'packages/lib1/src/index.ts',
+        "export * from './lib/shared/types';\n",
+      );
+      tree.write(
+        'packages/lib1/src/lib/shared/util.ts',
+        "import type { Util } from 'lib/shared/types';\nimport { join } from 'node:path';\nexport const util: Util = () => join('a', 'b');\n",
+      );
+
+      // The files of lib1 importing the moved file make the dependency mutual
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/shared/util.ts',
+        project: 'lib2',
+        allowCircularDependencies: true,
+      });
+
+      const moved = tree.read('packages/lib2/src/lib/util.ts', 'utf-8');
+      expect(moved).toContain("import type { Util } from '@test/lib1';");
+      expect(moved).toContain("import { join } from 'node:path';");
+    });
+
+    it('should rewrite baseUrl imports between files moved together', async () => {
+      tree.write(
+        'packages/lib1/src/lib/shared/format.ts',
+        "import { util } from 'lib/shared/util';\nexport const format = util;\n",
+      );
+
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/shared/util.ts,packages/lib1/src/lib/shared/format.ts',
+        project: 'lib1',
+        projectDirectory: 'core',
+      });
+
+      expect(
+        tree.read('packages/lib1/src/lib/core/format.ts', 'utf-8'),
+      ).toContain("import { util } from 'lib/core/util';");
+      expect(
+        tree.read('packages/lib1/src/lib/feature/page.ts', 'utf-8'),
+      ).toContain("import { util } from 'lib/core/util';");
+    });
+  });
+
+  describe('package.json subpath imports', () => {
+    beforeEach(() => {
+      tree.write(
+        'packages/lib1/package.json',
+        JSON.stringify({
+          name: '@test/lib1',
+          imports: {
+            '#lib/*': './src/lib/*.ts',
+            '#shared/*': './src/lib/shared/*.ts',
+          },
+        }),
+      );
+      tree.write(
+        'packages/lib1/src/lib/shared/util.ts',
+        "export const util = () => 'util';\n",
+      );
+      tree.write(
+        'packages/lib1/src/lib/feature/page.ts',
+        "import { util } from '#lib/shared/util';\nexport const page = util;\n",
+      );
+      tree.write(
+        'packages/lib1/src/lib/feature/widget.ts',
+        "import { util } from '#shared/util';\nexport const widget = util;\n",
+      );
+    });
+
+    it('should keep subpath imports covered by an imports pattern', async () => {
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/shared/util.ts',
+        targetPath: 'packages/lib1/src/lib/core/util.ts',
+      });
+
+      expect(
+        tree.read('packages/lib1/src/lib/feature/page.ts', 'utf-8'),
+      ).toContain("import { util } from '#lib/core/util';");
+    });
+
+    it('should rewrite subpath imports to another covering imports pattern', async () => {
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/shared/util.ts',
+        targetPath: 'packages/lib1/src/lib/core/util.ts',
+      });
+
+      expect(
+        tree.read('packages/lib1/src/lib/feature/widget.ts', 'utf-8'),
+      ).toContain("import { util } from '#lib/core/util';");
+    });
+
+    it('should fall back to relative imports when no imports entry covers the target', async () => {
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/shared/util.ts',
+        targetPath: 'packages/lib1/src/core/util.ts',
+      });
+
+      expect(
+        tree.read('packages/lib1/src/lib/feature/widget.ts', 'utf-8'),
+      ).toContain("import { util } from '../../core/util';");
+    });
+
+    it('should rewrite subpath imports to the alias of the target project', async () => {
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/shared/util.ts',
+        project: 'lib2',
+      });
+
+      expect(
+        tree.read('packages/lib1/src/lib/feature/page.ts', 'utf-8'),
+      ).toContain("import { util } from '@test/lib2';");
+      expect(
+        tree.read('packages/lib1/src/lib/feature/widget.ts', 'utf-8'),
+      ).toContain("import { util } from '@test/lib2';");
+    });
+
+    it('should rewrite subpath imports of the moved file to the source alias', async () => {
+      tree.write(
+        'packages/lib1/src/lib/shared/types.ts',
+        'export type Util = () => string;\n',
+      );
+      tree.write(
+        'packages/lib1/src/index.ts',
+        "export * from './lib/shared/types';\n",
+      );
+      tree.write(
+        'packages/lib1/src/lib/shared/util.ts',
+        "import type { Util } from '#shared/types';\nexport const util: Util = () => 'util';\n",
+      );
+
+      // The files of lib1 importing the moved file make the dependency mutual
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/shared/util.ts',
+        project: 'lib2',
+        allowCircularDependencies: true,
+      });
+
+      expect(tree.read('packages/lib2/src/lib/util.ts', 'utf-8')).toContain(
+        "import type { Util } from '@test/lib1';",
+      );
+    });
+
+    it('should keep subpath imports of the moved file within the package', async () => {
+      tree.write(
+        'packages/lib1/src/lib/shared/types.ts',
+        'export type Util = () => string;\n',
+      );
+      tree.write(
+        'packages/lib1/src/lib/shared/util.ts',
+        "import type { Util } from '#shared/types';\nexport const util: Util = () => 'util';\n",
+      );
+
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/shared/util.ts',
+        targetPath: 'packages/lib1/src/lib/core/util.ts',
+      });
+
+      expect(
+        tree.read('packages/lib1/src/lib/core/util.ts', 'utf-8'),
+      ).toContain("import type { Util } from '#shared/types';");
+    });
+  });
+
+  describe('aliases from Jest, Vite, and Babel configs', () => {
+    beforeEach(() => {
+      tree.write(
+        'packages/lib1/src/lib/shared/util.ts',
+        "export const util = () => 'util';\n",
+      );
+    });
+
+    it('should keep imports through a Jest moduleNameMapper alias', async () => {
+      tree.write(
+        'packages/lib1/jest.config.ts',
+        "export default {\n  moduleNameMapper: { '^@lib1/(.*)$': '<rootDir>/src/lib/$1' },\n};\n",
+      );
+      tree.write(
+        'packages/lib1/src/lib/feature/page.ts',
+        "import { util } from '@lib1/shared/util';\nexport const page = util;\n",
+      );
+
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/shared/util.ts',
+        targetPath: 'packages/lib1/src/lib/core/util.ts',
+      });
+
+      expect(
+        tree.read('packages/lib1/src/lib/feature/page.ts', 'utf-8'),
+      ).toContain("import { util } from '@lib1/core/util';");
+    });
+
+    it('should keep imports through a Vite alias on a Vite alias when a Jest alias is closer', async () => {
+      tree.write(
+        'packages/lib1/vite.config.ts',
+        "import path from 'node:path';\n\nexport default {\n  resolve: { alias: { '~': path.resolve(__dirname, 'src') } },\n};\n",
+      );
+      tree.write(
+        'packages/lib1/jest.config.ts',
+        "export default {\n  moduleNameMapper: { '^@core/(.*)$': '<rootDir>/src/lib/core/$1' },\n};\n",
+      );
+      tree.write(
+        'packages/lib1/src/lib/feature/page.ts',
+        "import { util } from '~/lib/shared/util';\nexport const page = util;\n",
+      );
+
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/shared/util.ts',
+        targetPath: 'packages/lib1/src/lib/core/util.ts',
+      });
+
+      expect(
+        tree.read('packages/lib1/src/lib/feature/page.ts', 'utf-8'),
+      ).toContain("import { util } from '~/lib/core/util';");
+    });
+
+    it('should update imports through a Vite alias in other projects', async () => {
+      addProjectConfiguration(tree, 'app1', {
+        root: 'packages/app1',
+        sourceRoot: 'packages/app1/src',
+        projectType: 'application',
+      });
+      tree.write(
+        'packages/app1/vite.config.ts',
+        "import path from 'node:path';\n\nexport default {\n  resolve: { alias: { '@lib1': path.resolve(__dirname, '../lib1/src/lib') } },\n};\n",
+      );
+      tree.write(
+        'packages/app1/src/main.ts',
+        "import { util } from '@lib1/shared/util';\nutil();\n",
+      );
+
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/shared/util.ts',
+        targetPath: 'packages/lib1/src/lib/core/util.ts',
+      });
+
+      expect(tree.read('packages/app1/src/main.ts', 'utf-8')).toContain(
+        "import { util } from '@lib1/core/util';",
+      );
+    });
+
+    it('should rewrite imports through a Babel alias to the alias of the target project', async () => {
+      tree.write(
+        'packages/lib1/.babelrc',
+        JSON.stringify({
+          plugins: [
+            ['module-resolver', { alias: { '@shared': './src/lib/shared' } }],
+          ],
+        }),
+      );
+      tree.write(
+        'packages/lib1/src/lib/feature/page.ts',
+        "import { util } from '@shared/util';\nexport const page = util;\n",
+      );
+
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/shared/util.ts',
+        project: 'lib2',
+      });
+
+      expect(
+        tree.read('packages/lib1/src/lib/feature/page.ts', 'utf-8'),
+      ).toContain("import { util } from '@test/lib2';");
+    });
+
+    it('should rewrite alias imports of the moved file to the source alias', async () => {
+      tree.write(
+        'packages/lib1/.babelrc',
+        JSON.stringify({
+          plugins: [
+            ['module-resolver', { alias: { '@shared': './src/lib/shared' } }],
+          ],
+        }),
+      );
+      tree.write(
+        'packages/lib1/src/lib/shared/types.ts',
+        'export type Util = () => string;\n',
+      );
+      tree.write(
+        'packages/lib1/src/index.ts',
+        "export * from './lib/shared/types';\n",
+      );
+      tree.write(
+        'packages/lib1/src/lib/shared/util.ts',
+        "import type { Util } from '@shared/types';\nexport const util: Util = () => 'util';\n",
+      );
+
+      await moveFileGenerator(tree, {
+        file: 'packages/lib1/src/lib/shared/util.ts',
+        project: 'lib2',
+      });
+
+      expect(tree.read('packages/lib2/src/lib/util.ts', 'utf-8')).toContain(
+        "import type { Util } from '@test/lib1';",
+      );
+    });
+  });
+
   // ============================================================================
   // Caching and Performance
   // ============================================================================
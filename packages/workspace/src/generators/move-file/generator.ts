@@ -1,40 +1,70 @@
 import {
   formatFiles,
   getProjects,
+  ProjectConfiguration,
   ProjectGraph,
   Tree,
   logger,
   createProjectGraphAsync,
-  normalizePath,
-  globAsync,
 } from '@nx/devkit';
 import { removeGenerator } from '@nx/workspace';
+import { posix as path } from 'node:path';
 import { MoveFileGeneratorSchema } from './schema';
 import { clearCache, getCacheStats } from './jscodeshift-utils';
 import { treeReadCache } from './tree-cache';
-import { cachedTreeExists as cachedTreeExistsImpl } from './cache/cached-tree-exists';
-import { getProjectSourceFiles as getProjectSourceFilesImpl } from './cache/get-project-source-files';
-import { updateProjectSourceFilesCache as updateProjectSourceFilesCacheImpl } from './cache/update-project-source-files-cache';
-import { updateFileExistenceCache as updateFileExistenceCacheImpl } from './cache/update-file-existence-cache';
+import { clearIndexExportsCache } from './export-management/index-exports-cache';
+import {
+  cachedTreeExists,
+  clearFileCaches,
+  getFileCacheStats,
+  getProjectSourceFiles,
+  updateFileExistenceCache,
+  updateProjectSourceFilesCache,
+} from './cache/file-caches';
 import { getCachedDependentProjects as getCachedDependentProjectsImpl } from './cache/get-cached-dependent-projects';
-import { splitPatterns } from './path-utils/split-patterns';
+import { expandFilePatterns } from './path-utils/expand-file-patterns';
+import { defaultCompanionPatterns } from './constants/companion-patterns';
+import { findCompanionFiles } from './project-analysis/find-companion-files';
+import { findProjectForFile } from './project-analysis/find-project-for-file';
+import { getRelativeDependencyClosure } from './project-analysis/get-relative-dependency-closure';
+import { hasSourceFileExtension } from './path-utils/has-source-file-extension';
+import { sanitizePath } from './security-utils/sanitize-path';
 import { isProjectEmpty } from './project-analysis/is-project-empty';
+import { isPackageBasedWorkspace } from './project-analysis/is-package-based-workspace';
+import { isUsingProjectReferences } from './project-analysis/is-using-project-references';
+import { getAffectedProjectImports } from './project-analysis/get-affected-project-imports';
 import { getDependentProjectNames } from './project-analysis/get-dependent-project-names';
 import { clearCompilerPathsCache } from './project-analysis/read-compiler-paths';
+import { clearProjectAliasesCache } from './project-analysis/read-project-aliases';
+import { clearProjectCompilerOptionsCache } from './project-analysis/read-project-compiler-options';
+import { clearDepConstraintsCache } from './project-analysis/read-dep-constraints';
 import { resolveAndValidate } from './validation/resolve-and-validate';
+import { resolveTargetProjectName } from './validation/resolve-target-project-name';
+import { findDependencyCycles } from './validation/find-dependency-cycles';
+import { getRemovedDependencyEdges } from './project-analysis/get-removed-dependency-edges';
 import { executeMove } from './core-operations/execute-move';
+import { applyMoveSet } from './core-operations/apply-move-set';
+import { updateProjectReferences } from './core-operations/update-project-references';
+import { updatePackageDependencies } from './core-operations/update-package-dependencies';
+import { createTreeSandbox } from './core-operations/create-tree-sandbox';
+import { createTargetProject } from './core-operations/create-target-project';
+import { moveRecorder } from './reporting/move-recorder';
+import { formatMovePlan } from './reporting/format-move-plan';
+import { recordMoveHistory } from './history/record-move-history';
+import { moveHistoryPath } from './constants/move-history';
+import { formatDependencyEdge } from './reporting/format-dependency-edge';
+import type { MovePlan } from './types/move-plan';
+import type { DependencyCycle } from './types/project-dependencies';
+import type { MoveContext } from './types/move-context';
 
 /**
- * Cache for source files per project to avoid repeated tree traversals.
- * Key: project root path, Value: array of source file paths
+ * Options for a batch of moves as a whole. The files and their target
+ * projects come from the options per file.
  */
-const projectSourceFilesCache = new Map<string, string[]>();
-
-/**
- * Cache for file existence checks to avoid repeated tree.exists() calls.
- * Key: file path, Value: boolean indicating if file exists
- */
-const fileExistenceCache = new Map<string, boolean>();
+export type MoveBatchOptions = Omit<
+  MoveFileGeneratorSchema,
+  'file' | 'project'
+>;
 
 /**
  * Cache for dependent project lookups to avoid repeated graph traversals.
@@ -47,68 +77,237 @@ const dependencyGraphCache = new Map<string, Set<string>>();
  */
 function clearAllCaches(): void {
   // Clear local caches
-  projectSourceFilesCache.clear();
-  fileExistenceCache.clear();
+  clearFileCaches();
   dependencyGraphCache.clear();
 
   // Clear compiler paths cache from project-analysis module
   clearCompilerPathsCache();
+
+  // Clear project compiler options read from the tsconfig files
+  clearProjectCompilerOptionsCache();
+
+  // Clear project import aliases read from the alias providers
+  clearProjectAliasesCache();
+
+  // Clear module boundary constraints read from the ESLint config
+  clearDepConstraintsCache();
 }
 
 /**
- * Wrapper for getProjectSourceFiles that passes cache state
+ * Generator to move a file from one Nx project to another
+ * and update import paths throughout the workspace.
+ *
+ * @param tree - The virtual file system tree
+ * @param options - Generator options including source file path and target project
+ * @returns A promise that resolves when the generator completes
  */
-function getProjectSourceFiles(tree: Tree, projectRoot: string): string[] {
-  return getProjectSourceFilesImpl(
-    tree,
-    projectRoot,
-    projectSourceFilesCache,
-    fileExistenceCache,
+export async function moveFileGenerator(
+  tree: Tree,
+  options: MoveFileGeneratorSchema,
+) {
+  // Support comma-separated file paths and glob patterns
+  const uniqueFilePaths = await expandFilePatterns(tree, options.file);
+  if (options.targetPath && uniqueFilePaths.length > 1) {
+    throw new Error(
+      `The "targetPath" option moves a single file, but "${options.file}" matches ${uniqueFilePaths.length} files`,
+    );
+  }
+
+  const fileOptionsList = uniqueFilePaths.map((filePath) => ({
+    ...options,
+    file: filePath,
+  }));
+
+  if (options.withCompanions) {
+    fileOptionsList.push(
+      ...(await getCompanionFileOptions(tree, options, uniqueFilePaths)),
+    );
+  }
+
+  await moveFilesWithHistory(tree, options, fileOptionsList);
+}
+
+/**
+ * Moves a batch of files like {@link moveFiles} and, when `recordHistory` is
+ * set, records the move in the move history so that undo-move can revert it.
+ *
+ * @param tree - The virtual file system tree
+ * @param options - Options for the batch as a whole
+ * @param fileOptionsList - Options per file; `file` must be a single file path
+ * @returns A promise that resolves when the files have moved
+ */
+export async function moveFilesWithHistory(
+  tree: Tree,
+  options: MoveBatchOptions,
+  fileOptionsList: MoveFileGeneratorSchema[],
+): Promise<void> {
+  if (!options.recordHistory || options.plan) {
+    await moveFiles(tree, options, fileOptionsList);
+    return;
+  }
+
+  // Capture the original content of every changed file so that undo-move can
+  // restore it later
+  const history = createTreeSandbox(tree);
+  moveRecorder.start();
+  let moves: MovePlan['entries'];
+  try {
+    await moveFiles(history.tree, options, fileOptionsList);
+  } finally {
+    moves = moveRecorder.stop();
+  }
+
+  const entry = recordMoveHistory(tree, moves, history.getOriginals());
+  logger.info(
+    `Recorded move #${entry.id} in ${moveHistoryPath}. Run the undo-move generator to revert it.`,
   );
 }
 
 /**
- * Wrapper for updateProjectSourceFilesCache that passes cache state
+ * Builds the options for moving the companion files of the given files.
+ *
+ * Companions keep their location relative to their source file, so a
+ * snapshot in `__snapshots__` ends up in `__snapshots__` next to the moved
+ * file. They are never added to the target project's entrypoint.
+ *
+ * @param tree - The virtual file system tree
+ * @param options - Generator options
+ * @param filePaths - Files matched by the `file` option
+ * @returns Options per companion file that is not already part of the batch
  */
-function updateProjectSourceFilesCache(
-  projectRoot: string,
-  oldPath: string,
-  newPath: string | null,
-): void {
-  updateProjectSourceFilesCacheImpl(
-    projectRoot,
-    oldPath,
-    newPath,
-    projectSourceFilesCache,
+async function getCompanionFileOptions(
+  tree: Tree,
+  options: MoveFileGeneratorSchema,
+  filePaths: string[],
+): Promise<MoveFileGeneratorSchema[]> {
+  const patterns = options.companionPatterns ?? defaultCompanionPatterns;
+  const batchFilePaths = new Set(
+    filePaths.map((filePath) => sanitizePath(filePath)),
   );
+  const companionOptions: MoveFileGeneratorSchema[] = [];
+
+  for (const filePath of batchFilePaths) {
+    const companions = await findCompanionFiles(tree, filePath, patterns);
+
+    for (const companion of companions) {
+      if (batchFilePaths.has(companion)) {
+        continue;
+      }
+      batchFilePaths.add(companion);
+
+      const relativeDirectory = path.relative(
+        path.dirname(filePath),
+        path.dirname(companion),
+      );
+      const projectDirectory =
+        relativeDirectory && !options.deriveProjectDirectory
+          ? path.join(options.projectDirectory ?? '', relativeDirectory)
+          : options.projectDirectory;
+
+      companionOptions.push({
+        ...options,
+        file: companion,
+        projectDirectory,
+        targetPath:
+          options.targetPath &&
+          getCompanionTargetPath(
+            filePath,
+            companion,
+            relativeDirectory,
+            options.targetPath,
+          ),
+        skipExport: true,
+      });
+    }
+  }
+
+  return companionOptions;
 }
 
 /**
- * Wrapper for cachedTreeExists that passes cache state
+ * Places a companion file next to an explicit target path. A companion named
+ * after its source file is renamed along with it, so `button.spec.ts` follows
+ * `button.ts` to `icon-button.spec.ts` when the target path is
+ * `icon-button.ts`.
+ *
+ * @param filePath - Source file the companion belongs to
+ * @param companion - Path of the companion file
+ * @param relativeDirectory - Directory of the companion relative to the source file
+ * @param targetPath - Target path of the source file
+ * @returns The target path of the companion file
  */
-function cachedTreeExists(tree: Tree, filePath: string): boolean {
-  return cachedTreeExistsImpl(tree, filePath, fileExistenceCache);
+function getCompanionTargetPath(
+  filePath: string,
+  companion: string,
+  relativeDirectory: string,
+  targetPath: string,
+): string {
+  const sourceName = path.basename(filePath, path.extname(filePath));
+  const targetName = path.basename(targetPath, path.extname(targetPath));
+  const companionName = path.basename(companion);
+  const renamedCompanion = companionName.startsWith(`${sourceName}.`)
+    ? `${targetName}${companionName.slice(sourceName.length)}`
+    : companionName;
+
+  return path.join(
+    path.dirname(targetPath),
+    relativeDirectory,
+    renamedCompanion,
+  );
 }
 
 /**
- * Wrapper for updateFileExistenceCache that passes cache state
+ * Formats circular project dependencies as one line per cycle, naming the
+ * import that closes it.
  */
-function updateFileExistenceCache(filePath: string, exists: boolean): void {
-  updateFileExistenceCacheImpl(filePath, exists, fileExistenceCache);
+function formatDependencyCycles(cycles: DependencyCycle[]): string {
+  return [
+    'The move would create circular project dependencies:',
+    ...cycles.map(
+      (cycle) =>
+        `  - ${cycle.projects.join(' → ')}: ${formatDependencyEdge(cycle.edge)}`,
+    ),
+  ].join('\n');
 }
 
 /**
- * Generator to move a file from one Nx project to another
- * and update import paths throughout the workspace.
+ * Moves a batch of files, each described by its own options, and updates
+ * import paths throughout the workspace.
+ *
+ * This is the shared move pipeline used by the move-file and move-directory
+ * generators. All files are validated before any file is moved, and files in
+ * the batch keep relative imports to each other.
  *
  * @param tree - The virtual file system tree
- * @param options - Generator options including source file path and target project
- * @returns A promise that resolves when the generator completes
+ * @param options - Options for the batch as a whole (plan mode, empty project removal, formatting)
+ * @param fileOptionsList - Options per file; `file` must be a single file path
+ * @returns The resolved move contexts in execution order
  */
-export async function moveFileGenerator(
+export async function moveFiles(
   tree: Tree,
-  options: MoveFileGeneratorSchema,
-) {
+  options: MoveBatchOptions,
+  fileOptionsList: MoveFileGeneratorSchema[],
+): Promise<MoveContext[]> {
+  // In plan mode, the move runs against a sandbox that is rolled back afterwards
+  // so that the plan reflects exactly what the strategies would change
+  const sandbox = options.plan ? createTreeSandbox(tree) : null;
+  const moveTree = sandbox ? sandbox.tree : tree;
+
+  // Missing target libraries are created first so that the move resolves them
+  const filePathsByProject = new Map<string, string[]>();
+  for (const fileOptions of fileOptionsList) {
+    // A target path always points into an existing project
+    if (!fileOptions.project) {
+      continue;
+    }
+    const filePaths = filePathsByProject.get(fileOptions.project) ?? [];
+    filePaths.push(fileOptions.file);
+    filePathsByProject.set(fileOptions.project, filePaths);
+  }
+  for (const [project, filePaths] of filePathsByProject) {
+    await createTargetProject(moveTree, { ...options, project }, filePaths);
+  }
+
   // Clear all caches at the start of generator execution
   clearAllCaches();
   // Clear AST cache at the start of each move operation
@@ -126,82 +325,73 @@ export async function moveFileGenerator(
     return projectGraph;
   };
 
-  // Support comma-separated file paths and glob patterns
-  // We need to be careful about commas inside brace expansions like {ts,js}
-  const patterns = splitPatterns(options.file);
-
-  if (patterns.length === 0) {
-    throw new Error('At least one file path or glob pattern must be provided');
-  }
-
-  // Expand glob patterns to actual file paths
-  // Separate glob patterns from direct file paths for batch processing
-  const globPatterns: string[] = [];
-  const directPaths: string[] = [];
-  const patternMap = new Map<string, string>(); // normalized -> original for error messages
-
-  for (const pattern of patterns) {
-    // Normalize pattern to use forward slashes (Windows compatibility)
-    const normalizedPattern = normalizePath(pattern);
-
-    // Check if pattern contains glob characters
-    const isGlobPattern = /[*?[\]{}]/.test(normalizedPattern);
-
-    if (isGlobPattern) {
-      globPatterns.push(normalizedPattern);
-      patternMap.set(normalizedPattern, pattern);
-    } else {
-      // Direct file path
-      directPaths.push(normalizedPattern);
-    }
-  }
-
-  // Batch all glob patterns into a single globAsync call for better performance
-  const filePaths: string[] = [...directPaths];
-  if (globPatterns.length > 0) {
-    const matches = await globAsync(tree, globPatterns);
-
-    // If no matches at all, we need to check individual patterns for better error messages
-    // Only do this in the error case to maintain performance in the success case
-    if (matches.length === 0 && globPatterns.length > 0) {
-      // Find the first pattern that matches nothing for a helpful error message
-      for (const globPattern of globPatterns) {
-        const individualMatches = await globAsync(tree, [globPattern]);
-        if (individualMatches.length === 0) {
-          const originalPattern = patternMap.get(globPattern) || globPattern;
-          throw new Error(
-            `No files found matching glob pattern: "${originalPattern}"`,
-          );
-        }
-      }
-      // If we get here, all patterns individually matched something, but combined they didn't
-      // This shouldn't happen, but throw a generic error just in case
-      throw new Error(
-        `No files found matching glob patterns: "${globPatterns.join(', ')}"`,
-      );
-    }
-
-    filePaths.push(...matches);
-  }
-
-  // Remove duplicates (in case multiple patterns match the same file)
-  const uniqueFilePaths = Array.from(new Set(filePaths));
-
-  if (uniqueFilePaths.length === 0) {
-    throw new Error('At least one file path must be provided');
-  }
+  // Unexported relative dependencies move along or get exported on request
+  const { batchOptionsList, dependenciesToExport } =
+    options.moveDependencies && options.moveDependencies !== 'none'
+      ? getDependencyMoves(tree, options, fileOptionsList, projects)
+      : {
+          batchOptionsList: fileOptionsList,
+          dependenciesToExport: new Map<string, string[]>(),
+        };
 
   // Validate and resolve all files upfront
-  const contexts = uniqueFilePaths.map((filePath) => {
-    const fileOptions = { ...options, file: filePath };
-    return resolveAndValidate(
+  const batchTargetProjects = new Map(
+    batchOptionsList.map((fileOptions) => [
+      sanitizePath(fileOptions.file),
+      resolveTargetProjectName(projects, fileOptions),
+    ]),
+  );
+  const reservedTargets = new Set<string>();
+  const contexts = batchOptionsList.map((fileOptions) => {
+    const ctx = resolveAndValidate(
       tree,
       fileOptions,
       projects,
       cachedTreeExists,
       getProjectSourceFiles,
+      batchTargetProjects,
+      reservedTargets,
     );
+    reservedTargets.add(ctx.normalizedTarget);
+    return ctx;
   });
+  contexts.forEach((ctx) => {
+    ctx.dependenciesToExport = dependenciesToExport.get(ctx.normalizedSource);
+  });
+
+  // Predict the project graph after the move and reject new cycles
+  const dependencyEdges = contexts.flatMap((ctx) => ctx.dependencyEdges ?? []);
+  if (dependencyEdges.length > 0) {
+    const removedDependencyEdges = contexts.flatMap((ctx) =>
+      getRemovedDependencyEdges(
+        tree,
+        ctx,
+        projects,
+        getProjectSourceFiles,
+        cachedTreeExists,
+        batchTargetProjects,
+      ),
+    );
+    const cycles = findDependencyCycles(
+      await getProjectGraphAsync(),
+      dependencyEdges,
+      removedDependencyEdges,
+    );
+    if (cycles.length > 0) {
+      const report = formatDependencyCycles(cycles);
+      if (!options.allowCircularDependencies) {
+        throw new Error(
+          `${report}\nMove the imported code as well, or pass --allow-circular-dependencies to move anyway.`,
+        );
+      }
+      logger.warn(report);
+    }
+  }
+
+  // Files moved together keep relative imports between them
+  if (contexts.length > 1) {
+    applyMoveSet(tree, contexts, getProjectSourceFiles);
+  }
 
   // Track unique source projects for removal check
   const sourceProjectNames = new Set<string>();
@@ -209,43 +399,87 @@ export async function moveFileGenerator(
     sourceProjectNames.add(ctx.sourceProjectName);
   });
 
-  // Execute all moves without deleting sources yet
-  // Note: These must be executed sequentially, not in parallel, because:
-  // 1. Multiple files might be moved to the same target project
-  // 2. updateProjectSourceFilesCache() modifies shared cache arrays
-  // 3. Concurrent modifications could cause race conditions
-  for (let i = 0; i < contexts.length; i++) {
-    const ctx = contexts[i];
-    const fileOptions = { ...options, file: uniqueFilePaths[i] };
-    await executeMove(
-      tree,
-      fileOptions,
+  const removedProjectNames: string[] = [];
+  let planEntries: MovePlan['entries'] = [];
+
+  if (sandbox) {
+    moveRecorder.start();
+  }
+
+  // Package dependencies are only dropped when the moves remove the last
+  // import of them
+  const importedProjectNamesBeforeMove =
+    isPackageBasedWorkspace(moveTree) || isUsingProjectReferences(moveTree)
+      ? getAffectedProjectImports(
+          moveTree,
+          contexts,
+          projects,
+          getProjectSourceFiles,
+        )
+      : new Map<string, Set<string>>();
+
+  try {
+    // Execute all moves without deleting sources yet
+    // Note: These must be executed sequentially, not in parallel, because:
+    // 1. Multiple files might be moved to the same target project
+    // 2. updateProjectSourceFilesCache() modifies shared cache arrays
+    // 3. Concurrent modifications could cause race conditions
+    for (let i = 0; i < contexts.length; i++) {
+      const ctx = contexts[i];
+      await executeMove(
+        moveTree,
+        batchOptionsList[i],
+        projects,
+        getProjectGraphAsync,
+        ctx,
+        cachedTreeExists,
+        updateProjectSourceFilesCache,
+        updateFileExistenceCache,
+        getProjectSourceFiles,
+        getCachedDependentProjects,
+        true,
+      );
+    }
+
+    // Delete all source files after all moves are complete
+    for (const ctx of contexts) {
+      moveTree.delete(ctx.normalizedSource);
+      // Update file existence cache
+      updateFileExistenceCache(ctx.normalizedSource, false);
+      // Invalidate tree read cache
+      treeReadCache.invalidateFile(ctx.normalizedSource);
+    }
+
+    // Project references and package dependencies follow the project
+    // dependencies the moves changed
+    updateProjectReferences(
+      moveTree,
+      contexts,
       projects,
-      getProjectGraphAsync,
-      ctx,
-      cachedTreeExists,
-      updateProjectSourceFilesCache,
-      updateFileExistenceCache,
       getProjectSourceFiles,
-      getCachedDependentProjects,
-      true,
     );
-  }
+    updatePackageDependencies(
+      moveTree,
+      contexts,
+      projects,
+      getProjectSourceFiles,
+      importedProjectNamesBeforeMove,
+    );
 
-  // Delete all source files after all moves are complete
-  for (const ctx of contexts) {
-    tree.delete(ctx.normalizedSource);
-    // Update file existence cache
-    updateFileExistenceCache(ctx.normalizedSource, false);
-    // Invalidate tree read cache
-    treeReadCache.invalidateFile(ctx.normalizedSource);
-  }
+    // Check if any source projects should be removed
+    if (options.removeEmptyProject) {
+      for (const projectName of sourceProjectNames) {
+        const project = projects.get(projectName);
+        if (!project || !isProjectEmpty(moveTree, project)) {
+          continue;
+        }
+
+        if (sandbox) {
+          removedProjectNames.push(projectName);
+          moveRecorder.recordProjectRemoved(projectName);
+          continue;
+        }
 
-  // Check if any source projects should be removed
-  if (options.removeEmptyProject) {
-    for (const projectName of sourceProjectNames) {
-      const project = projects.get(projectName);
-      if (project && isProjectEmpty(tree, project)) {
         logger.verbose(`Project ${projectName} is empty, removing it`);
         try {
           await removeGenerator(tree, {
@@ -260,6 +494,25 @@ export async function moveFileGenerator(
         }
       }
     }
+  } finally {
+    if (sandbox) {
+      planEntries = moveRecorder.stop();
+      sandbox.rollback();
+      // Cached reads reflect the sandbox state, which no longer exists
+      clearAllCaches();
+      clearCache();
+      clearIndexExportsCache();
+      treeReadCache.clear();
+    }
+  }
+
+  if (sandbox) {
+    reportMovePlan(
+      tree,
+      { entries: planEntries, removedProjects: removedProjectNames },
+      options,
+    );
+    return contexts;
   }
 
   // Format files once at the end
@@ -269,8 +522,7 @@ export async function moveFileGenerator(
 
   // Log cache statistics for performance monitoring
   const cacheStats = getCacheStats();
-  const fileExistenceCacheSize = fileExistenceCache.size;
-  const projectCacheSize = projectSourceFilesCache.size;
+  const { fileExistenceCacheSize, projectCacheSize } = getFileCacheStats();
   // Note: compilerPaths cache is managed in project-analysis module
   const treeStats = treeReadCache.getStats();
   const dependencyGraphCacheSize = dependencyGraphCache.size;
@@ -287,6 +539,167 @@ export async function moveFileGenerator(
   logger.verbose(
     `Dependency graph cache: ${dependencyGraphCacheSize} project dependencies cached`,
   );
+
+  return contexts;
+}
+
+/**
+ * Adds the unexported relative dependencies of files that move to another
+ * project to the batch, according to the `moveDependencies` option.
+ *
+ * Dependencies used only by the moving files move along. They keep their
+ * location relative to the moved file that (transitively) imports them when
+ * they are in its directory or below; otherwise they are placed next to it.
+ * They are never added to the target project's entrypoint. With `all`, shared source file dependencies
+ * are exported from the source project instead.
+ *
+ * @param tree - The virtual file system tree
+ * @param options - Generator options
+ * @param fileOptionsList - Options per file of the batch
+ * @param projects - Map of all projects in the workspace
+ * @returns Options per file including dependencies, and the dependencies to export per importing file
+ */
+function getDependencyMoves(
+  tree: Tree,
+  options: MoveBatchOptions,
+  fileOptionsList: MoveFileGeneratorSchema[],
+  projects: Map<string, ProjectConfiguration>,
+): {
+  batchOptionsList: MoveFileGeneratorSchema[];
+  dependenciesToExport: Map<string, string[]>;
+} {
+  const batchOptionsList = [...fileOptionsList];
+  const dependenciesToExport = new Map<string, string[]>();
+  const optionsByFile = new Map<string, MoveFileGeneratorSchema>();
+  // Moved file that each file of the batch is placed relative to
+  const anchorByFile = new Map<string, string>();
+  const filesBySourceProject = new Map<string, string[]>();
+
+  for (const fileOptions of fileOptionsList) {
+    const filePath = sanitizePath(fileOptions.file);
+    optionsByFile.set(filePath, fileOptions);
+    anchorByFile.set(filePath, filePath);
+
+    const sourceProjectInfo = findProjectForFile(projects, filePath);
+    if (
+      !sourceProjectInfo ||
+      sourceProjectInfo.name === resolveTargetProjectName(projects, fileOptions)
+    ) {
+      continue;
+    }
+    filesBySourceProject.set(sourceProjectInfo.name, [
+      ...(filesBySourceProject.get(sourceProjectInfo.name) ?? []),
+      filePath,
+    ]);
+  }
+
+  for (const [projectName, filePaths] of filesBySourceProject) {
+    const closure = getRelativeDependencyClosure(
+      tree,
+      filePaths,
+      projects.get(projectName) as ProjectConfiguration,
+      getProjectSourceFiles,
+      cachedTreeExists,
+    );
+
+    // Dependencies are placed relative to the anchor of an importer, which
+    // may itself be a dependency that is placed in a later pass
+    let pending = closure.exclusive;
+    while (pending.length > 0) {
+      const remaining = pending.filter(({ filePath, importedBy }) => {
+        const importer = importedBy.find((file) => anchorByFile.has(file));
+        if (!importer) {
+          return true;
+        }
+
+        const anchor = anchorByFile.get(importer) as string;
+        const anchorOptions = optionsByFile.get(
+          anchor,
+        ) as MoveFileGeneratorSchema;
+        const relativeDirectory = path.relative(
+          path.dirname(anchor),
+          path.dirname(filePath),
+        );
+        const projectDirectory =
+          relativeDirectory &&
+          !relativeDirectory.startsWith('..') &&
+          !options.deriveProjectDirectory
+            ? path.join(anchorOptions.projectDirectory ?? '', relativeDirectory)
+            : anchorOptions.projectDirectory;
+        const dependencyOptions = {
+          ...anchorOptions,
+          file: filePath,
+          projectDirectory,
+          targetPath:
+            anchorOptions.targetPath &&
+            path.join(
+              path.dirname(anchorOptions.targetPath),
+              relativeDirectory && !relativeDirectory.startsWith('..')
+                ? relativeDirectory
+                : '',
+              path.basename(filePath),
+            ),
+          skipExport: true,
+        };
+
+        logger.verbose(`Moving ${filePath} along with ${anchor}`);
+        anchorByFile.set(filePath, anchor);
+        batchOptionsList.push(dependencyOptions);
+        return false;
+      });
+
+      if (remaining.length === pending.length) {
+        break;
+      }
+      pending = remaining;
+    }
+
+    if (options.moveDependencies !== 'all') {
+      continue;
+    }
+
+    for (const { filePath, importedBy } of closure.shared) {
+      if (!hasSourceFileExtension(filePath)) {
+        continue;
+      }
+      for (const importer of importedBy) {
+        dependenciesToExport.set(importer, [
+          ...(dependenciesToExport.get(importer) ?? []),
+          filePath,
+        ]);
+      }
+    }
+  }
+
+  return { batchOptionsList, dependenciesToExport };
+}
+
+/**
+ * Writes the move plan to the requested output file or logs it.
+ *
+ * @param tree - The virtual file system tree
+ * @param plan - The move plan produced in plan mode
+ * @param options - Generator options controlling the plan output
+ */
+function reportMovePlan(
+  tree: Tree,
+  plan: MovePlan,
+  options: MoveBatchOptions,
+): void {
+  const planOutput = options.planOutput
+    ? sanitizePath(options.planOutput)
+    : undefined;
+  const format =
+    options.planFormat ??
+    (planOutput && /\.(md|markdown)$/i.test(planOutput) ? 'markdown' : 'json');
+  const report = formatMovePlan(plan, format);
+
+  if (planOutput) {
+    tree.write(planOutput, report);
+    logger.info(`Move plan written to ${planOutput}`);
+  } else {
+    logger.info(report);
+  }
 }
 
 /**
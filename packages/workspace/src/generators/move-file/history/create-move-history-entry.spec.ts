@@ -0,0 +1,92 @@
+import { Tree } from '@nx/devkit';
+import { createTreeWithEmptyWorkspace } from '@nx/devkit/testing';
+import { createMoveHistoryEntry } from './create-move-history-entry';
+import { hashContent } from './hash-content';
+
+describe('createMoveHistoryEntry', () => {
+  let tree: Tree;
+
+  beforeEach(() => {
+    tree = createTreeWithEmptyWorkspace();
+  });
+
+  it('should record the original content and the hash after the move', () => {
+    tree.write('libs/b/src/lib/x.ts', 'export const x = 1;\n');
+    tree.write('libs/a/src/index.ts', 'export {};\n');
+
+    const entry = createMoveHistoryEntry(
+      tree,
+      3,
+      [],
+      new Map([
+        ['libs/a/src/lib/x.ts', Buffer.from('export const x = 1;\n')],
+        ['libs/b/src/lib/x.ts', null],
+        ['libs/a/src/index.ts', Buffer.from("export * from './lib/x';\n")],
+      ]),
+    );
+
+    expect(entry.id).toBe(3);
+    expect(entry.files).toEqual([
+      {
+        path: 'libs/a/src/index.ts',
+        before: "export * from './lib/x';\n",
+        afterHash: hashContent('export {};\n'),
+      },
+      {
+        path: 'libs/a/src/lib/x.ts',
+        before: 'export const x = 1;\n',
+        afterHash: null,
+      },
+      {
+        path: 'libs/b/src/lib/x.ts',
+        before: null,
+        afterHash: hashContent('export const x = 1;\n'),
+      },
+    ]);
+  });
+
+  it('should skip files that end up unchanged', () => {
+    tree.write('libs/a/src/index.ts', 'export {};\n');
+
+    const entry = createMoveHistoryEntry(
+      tree,
+      1,
+      [],
+      new Map([
+        ['libs/a/src/index.ts', Buffer.from('export {};\n')],
+        ['libs/a/src/tmp.ts', null],
+      ]),
+    );
+
+    expect(entry.files).toEqual([]);
+  });
+
+  it('should record content that is not valid UTF-8 as base64', () => {
+    const image = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0xff, 0x00, 0xfe]);
+    tree.write('libs/b/src/lib/logo.png', image);
+
+    const entry = createMoveHistoryEntry(
+      tree,
+      1,
+      [],
+      new Map([
+        ['libs/a/src/lib/logo.png', image],
+        ['libs/b/src/lib/logo.png', null],
+      ]),
+    );
+
+    expect(entry.files).toEqual([
+      {
+        path: 'libs/a/src/lib/logo.png',
+        before: image.toString('base64'),
+        encoding: 'base64',
+        afterHash: null,
+      },
+      {
+        path: 'libs/b/src/lib/logo.png',
+        before: null,
+        afterHash: hashContent(image),
+      },
+    ]);
+  });
+});
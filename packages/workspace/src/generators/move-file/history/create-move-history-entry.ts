@@ -0,0 +1,59 @@
+import type { Tree } from '@nx/devkit';
+import type { MovePlanEntry } from '../types/move-plan';
+import type {
+  MoveHistoryEntry,
+  MoveHistoryFileChange,
+} from '../types/move-history';
+import { hashContent } from './hash-content';
+
+/**
+ * Creates a move history entry from the original content of the files a
+ * move changed. Files that end up with their original content are skipped.
+ * Original content that is not valid UTF-8 is stored as base64.
+ *
+ * @param tree - The virtual file system tree, after the move.
+ * @param id - Id of the new entry.
+ * @param moves - Recorded moves, one per MoveContext.
+ * @param originals - Original content per changed file (null if it did not exist).
+ * @returns The history entry.
+ */
+export function createMoveHistoryEntry(
+  tree: Tree,
+  id: number,
+  moves: MovePlanEntry[],
+  originals: ReadonlyMap<string, Buffer | null>,
+): MoveHistoryEntry {
+  const files: MoveHistoryFileChange[] = [];
+
+  for (const [filePath, original] of originals) {
+    const after = tree.exists(filePath) ? tree.read(filePath) : null;
+    if (original === null && after === null) {
+      continue;
+    }
+    if (original !== null && after !== null && original.equals(after)) {
+      continue;
+    }
+
+    const isText =
+      original === null ||
+      Buffer.from(original.toString('utf-8'), 'utf-8').equals(original);
+    files.push({
+      path: filePath,
+      before:
+        original === null
+          ? null
+          : original.toString(isText ? 'utf-8' : 'base64'),
+      ...(!isText && { encoding: 'base64' as const }),
+      afterHash: after === null ? null : hashContent(after),
+    });
+  }
+
+  files.sort((a, b) => a.path.localeCompare(b.path));
+
+  return {
+    id,
+    timestamp: new Date().toISOString(),
+    moves,
+    files,
+  };
+}
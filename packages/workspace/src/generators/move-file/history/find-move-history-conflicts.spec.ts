@@ -0,0 +1,54 @@
+import { Tree } from '@nx/devkit';
+import { createTreeWithEmptyWorkspace } from '@nx/devkit/testing';
+import { findMoveHistoryConflicts } from './find-move-history-conflicts';
+import { hashContent } from './hash-content';
+import type { MoveHistoryEntry } from '../types/move-history';
+
+describe('findMoveHistoryConflicts', () => {
+  let tree: Tree;
+  let entry: MoveHistoryEntry;
+
+  beforeEach(() => {
+    tree = createTreeWithEmptyWorkspace();
+    tree.write('libs/b/src/lib/x.ts', 'export const x = 1;\n');
+    tree.write('libs/a/src/index.ts', 'export {};\n');
+    entry = {
+      id: 1,
+      timestamp: '',
+      moves: [],
+      files: [
+        {
+          path: 'libs/a/src/index.ts',
+          before: "export * from './lib/x';\n",
+          afterHash: hashContent('export {};\n'),
+        },
+        {
+          path: 'libs/a/src/lib/x.ts',
+          before: 'export const x = 1;\n',
+          afterHash: null,
+        },
+        {
+          path: 'libs/b/src/lib/x.ts',
+          before: null,
+          afterHash: hashContent('export const x = 1;\n'),
+        },
+      ],
+    };
+  });
+
+  it('should return no conflicts when the files are unchanged', () => {
+    expect(findMoveHistoryConflicts(tree, entry)).toEqual([]);
+  });
+
+  it('should report modified, deleted, and recreated files', () => {
+    tree.write('libs/a/src/index.ts', "export * from './lib/y';\n");
+    tree.write('libs/a/src/lib/x.ts', 'export const x = 2;\n');
+    tree.delete('libs/b/src/lib/x.ts');
+
+    expect(findMoveHistoryConflicts(tree, entry)).toEqual([
+      { path: 'libs/a/src/index.ts', reason: 'modified' },
+      { path: 'libs/a/src/lib/x.ts', reason: 'created' },
+      { path: 'libs/b/src/lib/x.ts', reason: 'deleted' },
+    ]);
+  });
+});
@@ -0,0 +1,37 @@
+import type { Tree } from '@nx/devkit';
+import type {
+  MoveHistoryConflict,
+  MoveHistoryEntry,
+} from '../types/move-history';
+import { hashContent } from './hash-content';
+
+/**
+ * Finds the files that changed after a recorded move. A move can only be
+ * undone safely when every file it touched is still in its post-move state.
+ *
+ * @param tree - The virtual file system tree.
+ * @param entry - The recorded move.
+ * @returns One conflict per changed file.
+ */
+export function findMoveHistoryConflicts(
+  tree: Tree,
+  entry: MoveHistoryEntry,
+): MoveHistoryConflict[] {
+  const conflicts: MoveHistoryConflict[] = [];
+
+  for (const file of entry.files) {
+    const current = tree.exists(file.path) ? tree.read(file.path) : null;
+
+    if (file.afterHash === null) {
+      if (current !== null) {
+        conflicts.push({ path: file.path, reason: 'created' });
+      }
+    } else if (current === null) {
+      conflicts.push({ path: file.path, reason: 'deleted' });
+    } else if (hashContent(current) !== file.afterHash) {
+      conflicts.push({ path: file.path, reason: 'modified' });
+    }
+  }
+
+  return conflicts;
+}
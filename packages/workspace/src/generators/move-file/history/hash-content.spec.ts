@@ -0,0 +1,13 @@
+import { hashContent } from './hash-content';
+
+describe('hashContent', () => {
+  it('should hash strings and buffers with the same content alike', () => {
+    expect(hashContent('export const a = 1;\n')).toBe(
+      hashContent(Buffer.from('export const a = 1;\n')),
+    );
+  });
+
+  it('should return different hashes for different content', () => {
+    expect(hashContent('a')).not.toBe(hashContent('b'));
+  });
+});
@@ -0,0 +1,11 @@
+import { createHash } from 'node:crypto';
+
+/**
+ * Hashes file content to detect changes made after a recorded move.
+ *
+ * @param content - File content.
+ * @returns The SHA-256 hash as a hex string.
+ */
+export function hashContent(content: Buffer | string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
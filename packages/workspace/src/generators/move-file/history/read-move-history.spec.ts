@@ -0,0 +1,33 @@
+import { Tree, writeJson } from '@nx/devkit';
+import { createTreeWithEmptyWorkspace } from '@nx/devkit/testing';
+import { readMoveHistory } from './read-move-history';
+
+describe('readMoveHistory', () => {
+  let tree: Tree;
+
+  beforeEach(() => {
+    tree = createTreeWithEmptyWorkspace();
+  });
+
+  it('should return an empty history when no move was recorded', () => {
+    expect(readMoveHistory(tree)).toEqual({ version: 1, entries: [] });
+  });
+
+  it('should read the recorded entries', () => {
+    const history = {
+      version: 1,
+      entries: [{ id: 1, timestamp: '', moves: [], files: [] }],
+    };
+    writeJson(tree, '.nxworker/move-history.json', history);
+
+    expect(readMoveHistory(tree)).toEqual(history);
+  });
+
+  it('should reject unsupported formats', () => {
+    writeJson(tree, '.nxworker/move-history.json', { version: 2 });
+
+    expect(() => readMoveHistory(tree)).toThrow(
+      'Unsupported move history format in ".nxworker/move-history.json"',
+    );
+  });
+});
@@ -0,0 +1,22 @@
+import { Tree, readJson } from '@nx/devkit';
+import { moveHistoryPath } from '../constants/move-history';
+import type { MoveHistory } from '../types/move-history';
+
+/**
+ * Reads the move history journal of the workspace.
+ *
+ * @param tree - The virtual file system tree.
+ * @returns The history, or an empty history if no move was recorded.
+ */
+export function readMoveHistory(tree: Tree): MoveHistory {
+  if (!tree.exists(moveHistoryPath)) {
+    return { version: 1, entries: [] };
+  }
+
+  const history = readJson<MoveHistory>(tree, moveHistoryPath);
+  if (history.version !== 1 || !Array.isArray(history.entries)) {
+    throw new Error(`Unsupported move history format in "${moveHistoryPath}"`);
+  }
+
+  return history;
+}
@@ -0,0 +1,23 @@
+import { Tree } from '@nx/devkit';
+import { createTreeWithEmptyWorkspace } from '@nx/devkit/testing';
+import { recordMoveHistory } from './record-move-history';
+import { readMoveHistory } from './read-move-history';
+
+describe('recordMoveHistory', () => {
+  let tree: Tree;
+
+  beforeEach(() => {
+    tree = createTreeWithEmptyWorkspace();
+    tree.write('libs/b/src/lib/x.ts', 'export const x = 1;\n');
+  });
+
+  it('should append entries with sequential ids', () => {
+    const originals = new Map([['libs/b/src/lib/x.ts', null]]);
+
+    recordMoveHistory(tree, [], originals);
+    const entry = recordMoveHistory(tree, [], originals);
+
+    expect(entry.id).toBe(2);
+    expect(readMoveHistory(tree).entries.map(({ id }) => id)).toEqual([1, 2]);
+  });
+});
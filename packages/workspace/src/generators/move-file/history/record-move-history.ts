@@ -0,0 +1,36 @@
+import type { Tree } from '@nx/devkit';
+import type { MovePlanEntry } from '../types/move-plan';
+import type { MoveHistoryEntry } from '../types/move-history';
+import { createMoveHistoryEntry } from './create-move-history-entry';
+import { readMoveHistory } from './read-move-history';
+import { writeMoveHistory } from './write-move-history';
+
+/**
+ * Appends a move to the move history journal of the workspace.
+ *
+ * @param tree - The virtual file system tree, after the move.
+ * @param moves - Recorded moves, one per MoveContext.
+ * @param originals - Original content per changed file (null if it did not exist).
+ * @returns The new history entry.
+ */
+export function recordMoveHistory(
+  tree: Tree,
+  moves: MovePlanEntry[],
+  originals: ReadonlyMap<string, Buffer | null>,
+): MoveHistoryEntry {
+  const history = readMoveHistory(tree);
+  const lastEntry = history.entries[history.entries.length - 1];
+  const entry = createMoveHistoryEntry(
+    tree,
+    (lastEntry?.id ?? 0) + 1,
+    moves,
+    originals,
+  );
+
+  writeMoveHistory(tree, {
+    ...history,
+    entries: [...history.entries, entry],
+  });
+
+  return entry;
+}
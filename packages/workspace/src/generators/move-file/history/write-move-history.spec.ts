@@ -0,0 +1,30 @@
+import { Tree, readJson } from '@nx/devkit';
+import { createTreeWithEmptyWorkspace } from '@nx/devkit/testing';
+import { writeMoveHistory } from './write-move-history';
+
+describe('writeMoveHistory', () => {
+  let tree: Tree;
+
+  beforeEach(() => {
+    tree = createTreeWithEmptyWorkspace();
+  });
+
+  it('should write the history journal', () => {
+    const history = {
+      version: 1 as const,
+      entries: [{ id: 1, timestamp: '', moves: [], files: [] }],
+    };
+
+    writeMoveHistory(tree, history);
+
+    expect(readJson(tree, '.nxworker/move-history.json')).toEqual(history);
+  });
+
+  it('should delete the journal when no entries are left', () => {
+    tree.write('.nxworker/move-history.json', '{}');
+
+    writeMoveHistory(tree, { version: 1, entries: [] });
+
+    expect(tree.exists('.nxworker/move-history.json')).toBe(false);
+  });
+});
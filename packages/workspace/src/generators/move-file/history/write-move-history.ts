@@ -0,0 +1,21 @@
+import { Tree, writeJson } from '@nx/devkit';
+import { moveHistoryPath } from '../constants/move-history';
+import type { MoveHistory } from '../types/move-history';
+
+/**
+ * Writes the move history journal of the workspace. The journal is deleted
+ * once it has no entries left.
+ *
+ * @param tree - The virtual file system tree.
+ * @param history - The history to write.
+ */
+export function writeMoveHistory(tree: Tree, history: MoveHistory): void {
+  if (history.entries.length === 0) {
+    if (tree.exists(moveHistoryPath)) {
+      tree.delete(moveHistoryPath);
+    }
+    return;
+  }
+
+  writeJson(tree, moveHistoryPath, history);
+}
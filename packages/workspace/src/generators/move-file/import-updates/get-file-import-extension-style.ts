@@ -0,0 +1,40 @@
+import type { Tree } from '@nx/devkit';
+import { posix as path } from 'node:path';
+import { sourceFileExtensions } from '../constants/file-extensions';
+import { collectImportSpecifiers } from '../jscodeshift-utils';
+import { getImportExtensionStyle } from '../path-utils/get-import-extension-style';
+import { getProjectImportExtensionStyle } from '../project-analysis/get-project-import-extension-style';
+import type { ImportExtensionStyle } from '../types/import-extension-style';
+
+/**
+ * Gets how a new relative import in a file should name the imported file:
+ * like the file's existing relative imports of source files, or, for files
+ * without any, as the compiler options of its project require.
+ *
+ * @param tree - The virtual file system tree.
+ * @param filePath - Path of the importing file.
+ * @param projectRoot - Root directory of the importing file's project.
+ * @returns The import extension style for the file.
+ */
+export function getFileImportExtensionStyle(
+  tree: Tree,
+  filePath: string,
+  projectRoot: string,
+): ImportExtensionStyle {
+  const relativeSpecifier = collectImportSpecifiers(tree, filePath).find(
+    (specifier) => {
+      const extension = path.extname(specifier);
+      return (
+        specifier.startsWith('.') &&
+        (extension === '' ||
+          sourceFileExtensions.includes(
+            extension as (typeof sourceFileExtensions)[number],
+          ))
+      );
+    },
+  );
+
+  return relativeSpecifier
+    ? getImportExtensionStyle(relativeSpecifier)
+    : getProjectImportExtensionStyle(tree, projectRoot);
+}
@@ -0,0 +1,45 @@
+import { Tree, logger } from '@nx/devkit';
+import { posix as path } from 'node:path';
+import { astCache, j } from '../ast-cache';
+import { treeReadCache } from '../tree-cache';
+import { resolveRelativeImport } from '../path-utils/resolve-relative-import';
+
+/**
+ * Removes import declarations through which a file imports itself.
+ *
+ * Merging a moved file into an existing file turns imports between the two
+ * files into self-imports of names the file now declares.
+ *
+ * @param tree - The virtual file system tree.
+ * @param filePath - Path of the file to clean up.
+ * @param cachedTreeExists - Function to check file existence with caching.
+ */
+export function removeSelfImports(
+  tree: Tree,
+  filePath: string,
+  cachedTreeExists: (tree: Tree, filePath: string) => boolean,
+): void {
+  const root = astCache.getAST(tree, filePath);
+  if (!root) {
+    return;
+  }
+
+  const directory = path.dirname(filePath);
+  const selfImports = root.find(j.ImportDeclaration).filter((importPath) => {
+    const source = String(importPath.node.source.value);
+    return (
+      source.startsWith('.') &&
+      resolveRelativeImport(tree, directory, source, cachedTreeExists) ===
+        filePath
+    );
+  });
+  if (selfImports.size() === 0) {
+    return;
+  }
+
+  logger.verbose(`Removing imports of ${filePath} from itself`);
+  selfImports.remove();
+  tree.write(filePath, root.toSource({ quote: 'single' }));
+  treeReadCache.invalidateFile(filePath);
+  astCache.invalidate(filePath);
+}
@@ -0,0 +1,53 @@
+import { Tree } from '@nx/devkit';
+import { createTreeWithEmptyWorkspace } from '@nx/devkit/testing';
+import { removeUnusedImports } from './remove-unused-imports';
+import { astCache } from '../ast-cache';
+import { treeReadCache } from '../tree-cache';
+
+describe('removeUnusedImports', () => {
+  let tree: Tree;
+  const filePath = 'libs/b/src/lib/run.ts';
+
+  beforeEach(() => {
+    tree = createTreeWithEmptyWorkspace();
+    astCache.clear();
+    treeReadCache.clear();
+  });
+
+  it('should remove imports of the module whose bindings are unused', () => {
+    tree.write(
+      filePath,
+      "import * as a from '@org/a';\nimport { login } from './login';\n\nexport const run = () => login();\n",
+    );
+
+    expect(removeUnusedImports(tree, filePath, '@org/a')).toBe(false);
+    expect(tree.read(filePath, 'utf-8')).toBe(
+      "import { login } from './login';\n\nexport const run = () => login();\n",
+    );
+  });
+
+  it('should keep imports whose bindings are used', () => {
+    const content =
+      "import * as a from '@org/a';\nimport 'reflect-metadata';\n\nexport const run = () => a;\n";
+    tree.write(filePath, content);
+
+    expect(removeUnusedImports(tree, filePath, '@org/a')).toBe(true);
+    expect(removeUnusedImports(tree, filePath, 'reflect-metadata')).toBe(true);
+    expect(tree.read(filePath, 'utf-8')).toBe(content);
+  });
+
+  it('should not count property names as uses', () => {
+    tree.write(
+      filePath,
+      "import { a } from '@org/a';\n\nexport const run = (value: { a: number }) => value.a;\n",
+    );
+
+    expect(removeUnusedImports(tree, filePath, '@org/a')).toBe(false);
+  });
+
+  it('should report files that do not import the module', () => {
+    tree.write(filePath, 'export const run = 1;\n');
+
+    expect(removeUnusedImports(tree, filePath, '@org/a')).toBe(false);
+  });
+});
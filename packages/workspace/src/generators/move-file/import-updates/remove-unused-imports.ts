@@ -0,0 +1,60 @@
+import { Tree, logger } from '@nx/devkit';
+import type { ASTPath } from 'jscodeshift';
+import { astCache, j } from '../ast-cache';
+import { treeReadCache } from '../tree-cache';
+import { collectReferencedNames } from '../symbol-operations/collect-referenced-names';
+
+/**
+ * Removes the import declarations of a module whose bindings a file no
+ * longer uses, such as a namespace import whose accesses a move turned into
+ * named imports. Side-effect imports are kept.
+ *
+ * @param tree - The virtual file system tree.
+ * @param filePath - Path of the file to clean up.
+ * @param specifier - Import specifier of the module.
+ * @returns True if the file still imports the module.
+ */
+export function removeUnusedImports(
+  tree: Tree,
+  filePath: string,
+  specifier: string,
+): boolean {
+  const root = astCache.getAST(tree, filePath);
+  if (!root) {
+    return false;
+  }
+
+  const imports = root.find(j.ImportDeclaration, {
+    source: { value: specifier },
+  });
+  if (imports.size() === 0) {
+    return false;
+  }
+
+  const body: ASTPath[] = root
+    .find(j.Program)
+    .get('body')
+    .filter((statement: ASTPath) => !j.ImportDeclaration.check(statement.node));
+  const referencedNames = collectReferencedNames(body);
+  const unusedImports = imports.filter((importPath) => {
+    const specifiers = importPath.node.specifiers ?? [];
+    return (
+      specifiers.length > 0 &&
+      specifiers.every(
+        (importSpecifier) =>
+          !referencedNames.has(importSpecifier.local?.name ?? ''),
+      )
+    );
+  });
+  if (unusedImports.size() === 0) {
+    return true;
+  }
+
+  logger.verbose(`Removing unused imports of '${specifier}' from ${filePath}`);
+  unusedImports.remove();
+  tree.write(filePath, root.toSource({ quote: 'single' }));
+  treeReadCache.invalidateFile(filePath);
+  astCache.invalidate(filePath);
+
+  return imports.size() > unusedImports.size();
+}
@@ -0,0 +1,105 @@
+import { Tree, ProjectConfiguration, logger } from '@nx/devkit';
+import { updateImportSpecifierPattern } from '../jscodeshift-utils';
+import { getImportExtensionStyle } from '../path-utils/get-import-extension-style';
+import { getRelativeImportSpecifier } from '../path-utils/get-relative-import-specifier';
+import { getUpdatedAliasImportSpecifier } from '../path-utils/get-updated-alias-import-specifier';
+import { isImportOfFile } from '../path-utils/is-import-of-file';
+import { resolveAliasImport } from '../path-utils/resolve-alias-import';
+import { readProjectAliases } from '../project-analysis/read-project-aliases';
+import type { MoveContext } from '../types/move-context';
+
+/**
+ * Updates imports of the moved file through aliases that cover it (see
+ * readProjectAliases) in the projects other than the source project, whose
+ * imports the move strategy updates.
+ *
+ * Such imports, like `@shared/util` with a Vite alias `@shared` of a shared
+ * folder or a tsconfig path pattern, keep an alias of the same provider that
+ * covers the new location. Otherwise they become relative within the target project and
+ * use the target project's alias elsewhere.
+ *
+ * @param tree - The virtual file system tree.
+ * @param ctx - Resolved move context.
+ * @param projects - Map of all projects in the workspace.
+ * @param getProjectSourceFilesFn - Function to get project source files.
+ */
+export function updateAliasImportsInOtherProjects(
+  tree: Tree,
+  ctx: MoveContext,
+  projects: Map<string, ProjectConfiguration>,
+  getProjectSourceFilesFn: (tree: Tree, projectRoot: string) => string[],
+): void {
+  const {
+    normalizedSource,
+    normalizedTarget,
+    sourceProjectName,
+    targetProjectName,
+    targetImportPath,
+  } = ctx;
+
+  for (const [projectName, project] of projects) {
+    const aliases = readProjectAliases(tree, project.root);
+    if (
+      projectName === sourceProjectName ||
+      !aliases.some((aliasPaths) =>
+        Object.values(aliasPaths).some((targets) =>
+          targets.some((target) => coversFile(target, normalizedSource)),
+        ),
+      )
+    ) {
+      continue;
+    }
+
+    logger.verbose(
+      `Updating alias imports of the moved file in ${projectName}`,
+    );
+
+    for (const filePath of getProjectSourceFilesFn(tree, project.root)) {
+      if (filePath === normalizedTarget) {
+        continue;
+      }
+
+      updateImportSpecifierPattern(
+        tree,
+        filePath,
+        (specifier) =>
+          !specifier.startsWith('.') &&
+          aliases
+            .flatMap((aliasPaths) => resolveAliasImport(specifier, aliasPaths))
+            .some((resolvedImport) =>
+              isImportOfFile(resolvedImport, normalizedSource),
+            ),
+        (specifier) => {
+          const extensionStyle = getImportExtensionStyle(specifier);
+          const aliasSpecifier = getUpdatedAliasImportSpecifier(
+            specifier,
+            normalizedTarget,
+            aliases,
+            extensionStyle,
+          );
+          if (aliasSpecifier) {
+            return aliasSpecifier;
+          }
+
+          return projectName === targetProjectName || !targetImportPath
+            ? getRelativeImportSpecifier(
+                filePath,
+                normalizedTarget,
+                extensionStyle,
+              )
+            : targetImportPath;
+        },
+      );
+    }
+  }
+}
+
+/**
+ * Checks whether an alias path, or alias path pattern, may resolve to a file.
+ */
+function coversFile(target: string, filePath: string): boolean {
+  const [prefix, suffix] = target.split('*');
+  return suffix === undefined
+    ? isImportOfFile(target, filePath)
+    : filePath.startsWith(prefix);
+}
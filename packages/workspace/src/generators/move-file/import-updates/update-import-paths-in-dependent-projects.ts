@@ -15,6 +15,8 @@ import { updateImportsByAliasInProject } from './update-imports-by-alias-in-proj
  * @param target - Optional target project information.
  * @param getCachedDependentProjectsFn - Function to get dependent projects.
  * @param getProjectSourceFilesFn - Function to get project source files.
+ * @param movedSymbols - Optional names exported by the moved file, used to
+ *   split barrel imports that also import symbols staying in the source project.
  */
 export async function updateImportPathsInDependentProjects(
   tree: Tree,
@@ -31,6 +33,7 @@ export async function updateImportPathsInDependentProjects(
     projectName: string,
   ) => Set<string>,
   getProjectSourceFilesFn: (tree: Tree, projectRoot: string) => string[],
+  movedSymbols?: ReadonlySet<string>,
 ): Promise<void> {
   const { targetProjectName, targetRelativePath } = target ?? {};
   const dependentProjectNames = Array.from(
@@ -91,6 +94,7 @@ export async function updateImportPathsInDependentProjects(
         targetRelativePath,
         [],
         getProjectSourceFilesFn,
+        movedSymbols,
       );
     } else {
       updateImportsByAliasInProject(
@@ -99,6 +103,7 @@ export async function updateImportPathsInDependentProjects(
         sourceImportPath,
         targetImportPath,
         getProjectSourceFilesFn,
+        movedSymbols,
       );
     }
   });
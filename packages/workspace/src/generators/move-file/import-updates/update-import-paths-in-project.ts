@@ -1,12 +1,23 @@
-import { Tree, ProjectConfiguration, normalizePath } from '@nx/devkit';
-import { posix as path } from 'node:path';
-import { removeSourceFileExtension } from '../path-utils/remove-source-file-extension';
-import { getRelativeImportSpecifier } from '../path-utils/get-relative-import-specifier';
+import { Tree, ProjectConfiguration } from '@nx/devkit';
+import { getUpdatedImportSpecifier } from '../path-utils/get-updated-import-specifier';
+import { isImportOfFile } from '../path-utils/is-import-of-file';
+import { resolveImportSpecifier } from '../path-utils/resolve-import-specifier';
+import { getProjectPackageImports } from '../project-analysis/get-project-package-imports';
+import { readProjectAliases } from '../project-analysis/read-project-aliases';
+import { readProjectCompilerOptions } from '../project-analysis/read-project-compiler-options';
 import { updateImportSpecifierPattern } from '../jscodeshift-utils';
 
 /**
  * Updates import paths within a single project
  *
+ * Imports of the source file may omit its extension or name it with its
+ * NodeNext extension (`./utils.js`); rewritten imports keep that style.
+ * Non-relative imports resolved against the project's `baseUrl`
+ * (`app/shared/util`), `#` subpath imports of the project's package.json
+ * (`#db/client`), and imports through the project's aliases (see
+ * readProjectAliases) are rewritten as well and stay non-relative where
+ * possible.
+ *
  * @param tree - The virtual file system tree.
  * @param project - The project configuration.
  * @param sourceFilePath - The source file path.
@@ -21,9 +32,9 @@ export function updateImportPathsInProject(
   getProjectSourceFilesFn: (tree: Tree, projectRoot: string) => string[],
 ): void {
   const sourceFiles = getProjectSourceFilesFn(tree, project.root);
-  const normalizedSourceWithoutExt = normalizePath(
-    removeSourceFileExtension(sourceFilePath),
-  );
+  const { baseUrl } = readProjectCompilerOptions(tree, project.root);
+  const packageImports = getProjectPackageImports(tree, project.root);
+  const aliases = readProjectAliases(tree, project.root);
 
   for (const normalizedFilePath of sourceFiles) {
     if (
@@ -33,30 +44,31 @@ export function updateImportPathsInProject(
       continue;
     }
 
-    const relativeSpecifier = getRelativeImportSpecifier(
-      normalizedFilePath,
-      targetFilePath,
-    );
-
     // Use jscodeshift to update imports that reference the source file
     updateImportSpecifierPattern(
       tree,
       normalizedFilePath,
       (specifier) => {
-        // Match relative imports that reference the source file
-        if (!specifier.startsWith('.')) {
-          return false;
-        }
-        // Resolve the import specifier to an absolute path
-        const importerDir = path.dirname(normalizedFilePath);
-        const resolvedImport = path.join(importerDir, specifier);
-        // Normalize and compare with source file (both without extension)
-        const normalizedResolvedImport = normalizePath(
-          removeSourceFileExtension(resolvedImport),
+        // Match relative, subpath, alias, and baseUrl imports that reference the source file
+        return resolveImportSpecifier(
+          normalizedFilePath,
+          specifier,
+          baseUrl,
+          packageImports,
+          aliases,
+        ).some((resolvedImport) =>
+          isImportOfFile(resolvedImport, sourceFilePath),
         );
-        return normalizedResolvedImport === normalizedSourceWithoutExt;
       },
-      () => relativeSpecifier,
+      (specifier) =>
+        getUpdatedImportSpecifier(
+          normalizedFilePath,
+          specifier,
+          targetFilePath,
+          baseUrl,
+          packageImports,
+          aliases,
+        ),
     );
   }
 }
@@ -1,11 +1,19 @@
-import { Tree, ProjectConfiguration, normalizePath } from '@nx/devkit';
-import { posix as path } from 'node:path';
-import { removeSourceFileExtension } from '../path-utils/remove-source-file-extension';
+import { Tree, ProjectConfiguration } from '@nx/devkit';
+import { isImportOfFile } from '../path-utils/is-import-of-file';
+import { resolveImportSpecifier } from '../path-utils/resolve-import-specifier';
+import { getProjectPackageImports } from '../project-analysis/get-project-package-imports';
+import { readProjectAliases } from '../project-analysis/read-project-aliases';
+import { readProjectCompilerOptions } from '../project-analysis/read-project-compiler-options';
 import { updateImportSpecifierPattern } from '../jscodeshift-utils';
 
 /**
  * Updates import paths within a single project to use a package alias
  *
+ * Relative imports of the source file, `#` subpath imports resolved through
+ * the project's package.json, imports through the project's aliases, and
+ * non-relative imports resolved against the project's `baseUrl` are
+ * rewritten.
+ *
  * @param tree - The virtual file system tree.
  * @param project - The project configuration.
  * @param sourceFilePath - The source file path.
@@ -21,11 +29,11 @@ export function updateImportPathsToPackageAlias(
   excludeFilePaths: string[],
   getProjectSourceFilesFn: (tree: Tree, projectRoot: string) => string[],
 ): void {
-  const normalizedSourceWithoutExt = normalizePath(
-    removeSourceFileExtension(sourceFilePath),
-  );
   const excludeSet = new Set([sourceFilePath, ...excludeFilePaths]);
   const sourceFiles = getProjectSourceFilesFn(tree, project.root);
+  const { baseUrl } = readProjectCompilerOptions(tree, project.root);
+  const packageImports = getProjectPackageImports(tree, project.root);
+  const aliases = readProjectAliases(tree, project.root);
 
   for (const normalizedFilePath of sourceFiles) {
     if (excludeSet.has(normalizedFilePath)) {
@@ -37,18 +45,16 @@ export function updateImportPathsToPackageAlias(
       tree,
       normalizedFilePath,
       (specifier) => {
-        // Match relative imports that reference the source file
-        if (!specifier.startsWith('.')) {
-          return false;
-        }
-        // Resolve the import specifier to an absolute path
-        const importerDir = path.dirname(normalizedFilePath);
-        const resolvedImport = path.join(importerDir, specifier);
-        // Normalize and compare with source file (both without extension)
-        const normalizedResolvedImport = normalizePath(
-          removeSourceFileExtension(resolvedImport),
+        // Match relative, subpath, alias, and baseUrl imports that reference the source file
+        return resolveImportSpecifier(
+          normalizedFilePath,
+          specifier,
+          baseUrl,
+          packageImports,
+          aliases,
+        ).some((resolvedImport) =>
+          isImportOfFile(resolvedImport, sourceFilePath),
         );
-        return normalizedResolvedImport === normalizedSourceWithoutExt;
       },
       () => targetPackageAlias,
     );
@@ -9,6 +9,8 @@ import { updateImportSpecifier } from '../jscodeshift-utils';
  * @param sourceImportPath - The source import path to replace.
  * @param targetImportPath - The target import path to use.
  * @param getProjectSourceFilesFn - Function to get project source files.
+ * @param movedSymbols - Optional names exported by the moved file; when set,
+ *   only imports of these symbols are pointed at the target import path.
  */
 export function updateImportsByAliasInProject(
   tree: Tree,
@@ -16,11 +18,18 @@ export function updateImportsByAliasInProject(
   sourceImportPath: string,
   targetImportPath: string,
   getProjectSourceFilesFn: (tree: Tree, projectRoot: string) => string[],
+  movedSymbols?: ReadonlySet<string>,
 ): void {
   const sourceFiles = getProjectSourceFilesFn(tree, project.root);
 
   for (const filePath of sourceFiles) {
     // Use jscodeshift to update imports from source to target path
-    updateImportSpecifier(tree, filePath, sourceImportPath, targetImportPath);
+    updateImportSpecifier(
+      tree,
+      filePath,
+      sourceImportPath,
+      targetImportPath,
+      movedSymbols,
+    );
   }
 }
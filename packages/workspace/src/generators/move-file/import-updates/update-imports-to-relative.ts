@@ -1,7 +1,11 @@
 import { Tree, ProjectConfiguration } from '@nx/devkit';
 import { posix as path } from 'node:path';
-import { updateImportSpecifier } from '../jscodeshift-utils';
+import {
+  hasImportSpecifier,
+  updateImportSpecifier,
+} from '../jscodeshift-utils';
 import { getRelativeImportSpecifier } from '../path-utils/get-relative-import-specifier';
+import { getFileImportExtensionStyle } from './get-file-import-extension-style';
 
 /**
  * Updates imports in target project from absolute import path to relative imports
@@ -12,6 +16,8 @@ import { getRelativeImportSpecifier } from '../path-utils/get-relative-import-sp
  * @param targetRelativePath - The target relative path.
  * @param excludeFilePaths - File paths to exclude from updates.
  * @param getProjectSourceFilesFn - Function to get project source files.
+ * @param movedSymbols - Optional names exported by the moved file; when set,
+ *   only imports of these symbols are converted to relative imports.
  */
 export function updateImportsToRelative(
   tree: Tree,
@@ -20,12 +26,16 @@ export function updateImportsToRelative(
   targetRelativePath: string,
   excludeFilePaths: string[],
   getProjectSourceFilesFn: (tree: Tree, projectRoot: string) => string[],
+  movedSymbols?: ReadonlySet<string>,
 ): void {
   const excludeSet = new Set(excludeFilePaths);
   const sourceFiles = getProjectSourceFilesFn(tree, project.root);
 
   for (const normalizedFilePath of sourceFiles) {
-    if (excludeSet.has(normalizedFilePath)) {
+    if (
+      excludeSet.has(normalizedFilePath) ||
+      !hasImportSpecifier(tree, normalizedFilePath, sourceImportPath)
+    ) {
       continue;
     }
 
@@ -34,6 +44,7 @@ export function updateImportsToRelative(
     const relativeSpecifier = getRelativeImportSpecifier(
       normalizedFilePath,
       targetFilePath,
+      getFileImportExtensionStyle(tree, normalizedFilePath, project.root),
     );
 
     // Use jscodeshift to update imports from source import path to relative path
@@ -42,6 +53,7 @@ export function updateImportsToRelative(
       normalizedFilePath,
       sourceImportPath,
       relativeSpecifier,
+      movedSymbols,
     );
   }
 }
@@ -1,4 +1,8 @@
 import { Tree } from '@nx/devkit';
+import { getProjectPackageImports } from '../project-analysis/get-project-package-imports';
+import { readProjectAliases } from '../project-analysis/read-project-aliases';
+import { readProjectCompilerOptions } from '../project-analysis/read-project-compiler-options';
+import type { ProjectAliases } from '../types/alias-provider';
 import type { MoveContext } from '../types/move-context';
 import { updateRelativeImportsInMovedFile } from './update-relative-imports-in-moved-file';
 import { updateRelativeImportsToAliasInMovedFile } from './update-relative-imports-to-alias-in-moved-file';
@@ -20,12 +24,25 @@ export function updateMovedFileImportsIfNeeded(
     normalizedSource,
     normalizedTarget,
     sourceProject,
+    targetProject,
     sourceImportPath,
+    moveSet,
   } = ctx;
+  const { baseUrl } = readProjectCompilerOptions(tree, sourceProject.root);
+  const packageImports = getProjectPackageImports(tree, sourceProject.root);
+  const aliases = readProjectAliases(tree, sourceProject.root);
 
   if (isSameProject) {
     // For same-project moves, update relative imports to maintain correct paths
-    updateRelativeImportsInMovedFile(tree, normalizedSource, normalizedTarget);
+    updateRelativeImportsInMovedFile(
+      tree,
+      normalizedSource,
+      normalizedTarget,
+      moveSet,
+      baseUrl,
+      packageImports,
+      aliases,
+    );
   } else if (sourceImportPath) {
     // For cross-project moves, convert relative imports to the source project to alias imports
     updateRelativeImportsToAliasInMovedFile(
@@ -35,6 +52,34 @@ export function updateMovedFileImportsIfNeeded(
       sourceProject,
       sourceImportPath,
       cachedTreeExistsFn,
+      moveSet,
+      // Imports resolved against a baseUrl shared with the target project stay valid
+      baseUrl !== readProjectCompilerOptions(tree, targetProject.root).baseUrl
+        ? baseUrl
+        : undefined,
+      packageImports,
+      // Aliases the target project shares stay valid as well
+      getUnsharedAliases(aliases, readProjectAliases(tree, targetProject.root)),
     );
   }
 }
+
+/**
+ * Gets the aliases that another project does not declare with the same paths.
+ */
+function getUnsharedAliases(
+  aliases: ProjectAliases,
+  otherAliases: ProjectAliases,
+): ProjectAliases {
+  return aliases.map((aliasPaths) =>
+    Object.fromEntries(
+      Object.entries(aliasPaths).filter(
+        ([alias, targets]) =>
+          !otherAliases.some(
+            (otherAliasPaths) =>
+              otherAliasPaths[alias]?.join() === targets.join(),
+          ),
+      ),
+    ),
+  );
+}
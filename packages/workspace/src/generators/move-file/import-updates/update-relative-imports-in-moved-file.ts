@@ -3,18 +3,39 @@ import { posix as path } from 'node:path';
 import { treeReadCache } from '../tree-cache';
 import { updateImportSpecifierPattern } from '../jscodeshift-utils';
 import { getRelativeImportSpecifier } from '../path-utils/get-relative-import-specifier';
+import { getImportExtensionStyle } from '../path-utils/get-import-extension-style';
+import { getUpdatedImportSpecifier } from '../path-utils/get-updated-import-specifier';
+import { findMoveSetTarget } from '../path-utils/find-move-set-target';
+import { isImportOfFile } from '../path-utils/is-import-of-file';
+import { resolveAliasImport } from '../path-utils/resolve-alias-import';
+import { resolvePackageImport } from '../path-utils/resolve-package-import';
+import type { ProjectAliases } from '../types/alias-provider';
+import type { PackageImports } from '../types/package-imports';
 
 /**
  * Updates relative imports within the moved file when moving within the same project.
  *
+ * Non-relative imports resolved against the project's `baseUrl`, `#`
+ * subpath imports, and alias imports stay valid, except for imports of files
+ * moved in the same batch, which are rewritten in the same non-relative
+ * style where possible.
+ *
  * @param tree - The virtual file system tree.
  * @param normalizedSource - Original file path.
  * @param normalizedTarget - New file path.
+ * @param moveSet - Optional source to target paths of files moved in the same batch.
+ * @param baseUrl - Optional directory that non-relative imports of the project resolve against.
+ * @param packageImports - Optional subpath imports of the project's package.
+ * @param aliases - Optional import aliases of the project.
  */
 export function updateRelativeImportsInMovedFile(
   tree: Tree,
   normalizedSource: string,
   normalizedTarget: string,
+  moveSet?: ReadonlyMap<string, string>,
+  baseUrl?: string,
+  packageImports?: PackageImports,
+  aliases?: ProjectAliases,
 ): void {
   const content = treeReadCache.read(tree, normalizedTarget, 'utf-8');
   if (!content) {
@@ -25,6 +46,59 @@ export function updateRelativeImportsInMovedFile(
     `Updating relative imports in moved file to maintain correct paths`,
   );
 
+  // Non-relative imports break only when their target moves too
+  if (moveSet && (baseUrl !== undefined || packageImports || aliases)) {
+    const getMovedImportPath = (specifier: string): string | null => {
+      if (specifier.startsWith('.')) {
+        return null;
+      }
+
+      // Subpath and alias imports resolve to files of the project
+      let resolvedImports: string[] = [];
+      if (specifier.startsWith('#')) {
+        resolvedImports = packageImports
+          ? resolvePackageImport(specifier, packageImports)
+          : [];
+      } else if (aliases) {
+        resolvedImports = aliases.flatMap((aliasPaths) =>
+          resolveAliasImport(specifier, aliasPaths),
+        );
+      }
+      if (resolvedImports.length > 0) {
+        return (
+          Array.from(moveSet).find(([source]) =>
+            resolvedImports.some((resolvedImport) =>
+              isImportOfFile(resolvedImport, source),
+            ),
+          )?.[1] ?? null
+        );
+      }
+
+      return baseUrl !== undefined && !specifier.startsWith('#')
+        ? findMoveSetTarget(path.join(baseUrl, specifier), moveSet)
+        : null;
+    };
+
+    updateImportSpecifierPattern(
+      tree,
+      normalizedTarget,
+      (specifier) => getMovedImportPath(specifier) !== null,
+      (oldImportPath) => {
+        const movedImportPath = getMovedImportPath(oldImportPath);
+        return movedImportPath
+          ? getUpdatedImportSpecifier(
+              normalizedTarget,
+              oldImportPath,
+              movedImportPath,
+              baseUrl,
+              packageImports,
+              aliases,
+            )
+          : oldImportPath;
+      },
+    );
+  }
+
   // Use jscodeshift to update relative imports in the moved file
   updateImportSpecifierPattern(
     tree,
@@ -40,10 +114,16 @@ export function updateRelativeImportsInMovedFile(
       // Resolve the import path relative to the original location
       const absoluteImportPath = path.join(sourceDir, oldImportPath);
 
-      // Calculate the new relative path from the target location
+      // Files moved in the same batch are imported at their new location
+      const movedImportPath =
+        moveSet && findMoveSetTarget(absoluteImportPath, moveSet);
+
+      // Calculate the new relative path from the target location, keeping
+      // the extension style of the import
       const newRelativePath = getRelativeImportSpecifier(
         normalizedTarget,
-        absoluteImportPath,
+        movedImportPath || absoluteImportPath,
+        getImportExtensionStyle(oldImportPath),
       );
 
       if (newRelativePath !== oldImportPath) {
@@ -5,6 +5,14 @@ import { updateImportSpecifierPattern } from '../jscodeshift-utils';
 import { removeSourceFileExtension } from '../path-utils/remove-source-file-extension';
 import { escapeRegex } from '../security-utils/escape-regex';
 import { getProjectEntryPointPaths } from '../project-analysis/get-project-entry-point-paths';
+import { getRelativeImportSpecifier } from '../path-utils/get-relative-import-specifier';
+import { getImportExtensionStyle } from '../path-utils/get-import-extension-style';
+import { findMoveSetTarget } from '../path-utils/find-move-set-target';
+import { resolveRelativeImport } from '../path-utils/resolve-relative-import';
+import { resolveAliasImport } from '../path-utils/resolve-alias-import';
+import { resolvePackageImport } from '../path-utils/resolve-package-import';
+import type { ProjectAliases } from '../types/alias-provider';
+import type { PackageImports } from '../types/package-imports';
 
 /**
  * Checks if a file is exported from the project's entrypoint
@@ -47,6 +55,16 @@ function isFileExported(
  * @param sourceProject - Source project configuration.
  * @param sourceImportPath - Import alias for the source project.
  * @param cachedTreeExistsFn - Function to check if a file exists (with caching).
+ * @param moveSet - Optional source to target paths of files moved in the same
+ *   batch; imports between them stay relative instead of using the alias.
+ * @param baseUrl - Optional directory that non-relative imports of the source
+ *   project resolve against, when the target project resolves them
+ *   differently; such imports of source project files are converted as well.
+ * @param packageImports - Optional subpath imports of the source project's
+ *   package; `#` imports of source project files are converted as well.
+ * @param aliases - Optional import aliases of the source project that the
+ *   target project does not share; alias imports of source project files
+ *   are converted as well.
  */
 export function updateRelativeImportsToAliasInMovedFile(
   tree: Tree,
@@ -55,6 +73,10 @@ export function updateRelativeImportsToAliasInMovedFile(
   sourceProject: ProjectConfiguration,
   sourceImportPath: string,
   cachedTreeExistsFn: (tree: Tree, filePath: string) => boolean,
+  moveSet?: ReadonlyMap<string, string>,
+  baseUrl?: string,
+  packageImports?: PackageImports,
+  aliases?: ProjectAliases,
 ): void {
   const content = treeReadCache.read(tree, normalizedTarget, 'utf-8');
   if (!content) {
@@ -67,27 +89,66 @@ export function updateRelativeImportsToAliasInMovedFile(
 
   const sourceRoot = sourceProject.sourceRoot || sourceProject.root;
 
+  // Only imports of existing files (or files moved in the same batch)
+  // resolve through the baseUrl, subpath imports, or aliases; others are
+  // package imports
+  const isResolvedFile = (resolvedPath: string): boolean =>
+    Boolean(moveSet && findMoveSetTarget(resolvedPath, moveSet)) ||
+    resolveRelativeImport(
+      tree,
+      path.dirname(resolvedPath),
+      `./${path.basename(resolvedPath)}`,
+      cachedTreeExistsFn,
+    ) !== null;
+
+  // Resolve the import path relative to the ORIGINAL (source) file location,
+  // or through the source project's subpath imports, aliases, and baseUrl
+  const resolveImportPath = (specifier: string): string | null => {
+    if (specifier.startsWith('.')) {
+      return path.join(path.dirname(normalizedSource), specifier);
+    }
+    if (specifier.startsWith('#')) {
+      return (
+        (packageImports
+          ? resolvePackageImport(specifier, packageImports)
+          : []
+        ).find(isResolvedFile) ?? null
+      );
+    }
+    const aliasImport = (aliases ?? [])
+      .flatMap((aliasPaths) => resolveAliasImport(specifier, aliasPaths))
+      .find(isResolvedFile);
+    if (aliasImport || baseUrl === undefined) {
+      return aliasImport ?? null;
+    }
+
+    const baseUrlPath = path.join(baseUrl, specifier);
+    return isResolvedFile(baseUrlPath) ? baseUrlPath : null;
+  };
+
   // Use jscodeshift to update relative imports to alias
   updateImportSpecifierPattern(
     tree,
     normalizedTarget,
     (specifier) => {
-      // Only process relative imports
-      if (!specifier.startsWith('.')) {
-        return false;
-      }
-
-      // Resolve the import path relative to the ORIGINAL (source) file location
-      const sourceDir = path.dirname(normalizedSource);
-      const resolvedPath = path.join(sourceDir, specifier);
+      const resolvedPath = resolveImportPath(specifier);
 
       // Check if this import points to a file in the source project
-      return resolvedPath.startsWith(sourceRoot + '/');
+      return resolvedPath !== null && resolvedPath.startsWith(sourceRoot + '/');
     },
     (importPath) => {
-      // Resolve the import path relative to the ORIGINAL (source) file location
-      const sourceDir = path.dirname(normalizedSource);
-      const resolvedPath = path.join(sourceDir, importPath);
+      const resolvedPath = resolveImportPath(importPath) ?? importPath;
+
+      // Files moved in the same batch keep a relative import to their new location
+      const movedImportPath =
+        moveSet && findMoveSetTarget(resolvedPath, moveSet);
+      if (movedImportPath) {
+        return getRelativeImportSpecifier(
+          normalizedTarget,
+          movedImportPath,
+          getImportExtensionStyle(importPath),
+        );
+      }
 
       // Check if the resolved file is exported from the source project's entrypoint
       const relativeFilePathInSource = path.relative(sourceRoot, resolvedPath);
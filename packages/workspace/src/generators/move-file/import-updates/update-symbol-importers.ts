@@ -0,0 +1,119 @@
+import { Tree, ProjectConfiguration } from '@nx/devkit';
+import { getRelativeImportSpecifier } from '../path-utils/get-relative-import-specifier';
+import { getUpdatedImportSpecifier } from '../path-utils/get-updated-import-specifier';
+import { isImportOfFile } from '../path-utils/is-import-of-file';
+import { resolveImportSpecifier } from '../path-utils/resolve-import-specifier';
+import { updateSymbolImportSpecifier } from '../jscodeshift-utils';
+import { getProjectPackageImports } from '../project-analysis/get-project-package-imports';
+import { readProjectAliases } from '../project-analysis/read-project-aliases';
+import { readProjectCompilerOptions } from '../project-analysis/read-project-compiler-options';
+import { getFileImportExtensionStyle } from './get-file-import-extension-style';
+import type { SymbolMoveContext } from '../types/symbol-move';
+
+/**
+ * Points imports of a moved symbol across the workspace at its new file.
+ *
+ * Relative imports of the source file are rewritten to a relative import of
+ * the target file within the target project and to the target project's
+ * alias elsewhere. Imports resolved against the importing project's
+ * `baseUrl`, `#` subpath imports of its package.json, and imports through
+ * its aliases are rewritten the same way, but stay non-relative within the
+ * target project while the baseUrl directory, an `imports` entry, or an
+ * alias covers the target file.
+ * Imports of the source project's alias are rewritten when the symbol moves
+ * to another project.
+ *
+ * @param tree - The virtual file system tree.
+ * @param ctx - Resolved symbol move context.
+ * @param projects - Map of all projects in the workspace.
+ * @param getProjectSourceFilesFn - Function to get project source files.
+ */
+export function updateSymbolImporters(
+  tree: Tree,
+  ctx: SymbolMoveContext,
+  projects: Map<string, ProjectConfiguration>,
+  getProjectSourceFilesFn: (tree: Tree, projectRoot: string) => string[],
+): void {
+  const {
+    symbol,
+    normalizedSource,
+    normalizedTarget,
+    sourceProjectName,
+    targetProjectName,
+    sourceImportPath,
+    targetImportPath,
+    isExported,
+    isSameProject,
+  } = ctx;
+
+  for (const [projectName, project] of projects) {
+    const isTargetProject = projectName === targetProjectName;
+    const { baseUrl } = readProjectCompilerOptions(tree, project.root);
+    const packageImports = getProjectPackageImports(tree, project.root);
+    const aliases = readProjectAliases(tree, project.root);
+
+    for (const filePath of getProjectSourceFilesFn(tree, project.root)) {
+      if (filePath === normalizedSource || filePath === normalizedTarget) {
+        continue;
+      }
+
+      // Within the target project (or without its alias) imports are relative
+      const extensionStyle =
+        isTargetProject || !targetImportPath
+          ? getFileImportExtensionStyle(tree, filePath, project.root)
+          : undefined;
+      const newSpecifier =
+        targetImportPath && !extensionStyle
+          ? targetImportPath
+          : getRelativeImportSpecifier(
+              filePath,
+              normalizedTarget,
+              extensionStyle,
+            );
+
+      // Subpath, alias, and baseUrl imports stay non-relative when they can
+      updateSymbolImportSpecifier(
+        tree,
+        filePath,
+        (specifier) =>
+          resolveImportSpecifier(
+            filePath,
+            specifier,
+            baseUrl,
+            packageImports,
+            aliases,
+          ).some((resolvedImport) =>
+            isImportOfFile(resolvedImport, normalizedSource),
+          ),
+        (specifier) =>
+          extensionStyle && !specifier.startsWith('.')
+            ? getUpdatedImportSpecifier(
+                filePath,
+                specifier,
+                normalizedTarget,
+                baseUrl,
+                packageImports,
+                aliases,
+              )
+            : newSpecifier,
+        symbol,
+      );
+
+      if (
+        !isSameProject &&
+        isExported &&
+        sourceImportPath &&
+        projectName !== sourceProjectName &&
+        (isTargetProject || targetImportPath)
+      ) {
+        updateSymbolImportSpecifier(
+          tree,
+          filePath,
+          (specifier) => specifier === sourceImportPath,
+          newSpecifier,
+          symbol,
+        );
+      }
+    }
+  }
+}
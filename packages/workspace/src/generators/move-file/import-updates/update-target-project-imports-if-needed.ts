@@ -1,6 +1,7 @@
 import { Tree, logger } from '@nx/devkit';
 import { posix as path } from 'node:path';
 import type { MoveContext } from '../types/move-context';
+import { getExportedSymbols } from '../export-management/get-exported-symbols';
 import { updateImportsToRelative } from './update-imports-to-relative';
 
 /**
@@ -20,9 +21,11 @@ export function updateTargetProjectImportsIfNeeded(
   const {
     isSameProject,
     hasImportsInTarget,
+    sourceImportPath,
     targetImportPath,
     targetProject,
     normalizedTarget,
+    targetConflict,
   } = ctx;
 
   if (isSameProject || !hasImportsInTarget || !targetImportPath) {
@@ -39,7 +42,10 @@ export function updateTargetProjectImportsIfNeeded(
     targetProject,
     sourceIdentifier,
     relativeFilePathInTarget,
-    [normalizedTarget], // Exclude the moved file
+    // Exclude the moved file, unless it also holds the merged existing file
+    targetConflict?.resolution === 'merge-exports' ? [] : [normalizedTarget],
     getProjectSourceFilesFn,
+    // Barrel imports may also import symbols that stay in the source project
+    sourceImportPath ? getExportedSymbols(tree, normalizedTarget) : undefined,
   );
 }
@@ -1,9 +1,11 @@
-import { Tree } from '@nx/devkit';
+import { Tree, logger } from '@nx/devkit';
 import { createTreeWithEmptyWorkspace } from '@nx/devkit/testing';
 import {
   updateImportSpecifier,
   updateImportSpecifierPattern,
+  updateSymbolImportSpecifier,
   hasImportSpecifier,
+  hasSymbolImport,
   clearCache,
 } from './jscodeshift-utils';
 
@@ -182,6 +184,246 @@ describe('jscodeshift-utils', () => {
       expect(content).toContain(`from './new-path'`);
       expect(content).not.toContain(`from "./new-path"`);
     });
+
+    describe('with moved symbols', () => {
+      const movedSymbols = new Set(['moved', 'Moved']);
+
+      it('should split mixed named imports', () => {
+        const filePath = 'test.ts';
+        tree.write(filePath, `import { moved, other } from '@org/source';`);
+
+        const result = updateImportSpecifier(
+          tree,
+          filePath,
+          '@org/source',
+          '@org/target',
+          movedSymbols,
+        );
+
+        expect(result).toBe(true);
+        const content = tree.read(filePath, 'utf-8');
+        expect(content).toContain(`import { other } from '@org/source';`);
+        expect(content).toContain(`import { moved } from '@org/target';`);
+      });
+
+      it('should rewrite the whole declaration when all named imports moved', () => {
+        const filePath = 'test.ts';
+        tree.write(
+          filePath,
+          `import { moved as m, Moved } from '@org/source';`,
+        );
+
+        updateImportSpecifier(
+          tree,
+          filePath,
+          '@org/source',
+          '@org/target',
+          movedSymbols,
+        );
+
+        expect(tree.read(filePath, 'utf-8')).toBe(
+          `import { moved as m, Moved } from '@org/target';`,
+        );
+      });
+
+      it('should not change imports without moved symbols', () => {
+        const filePath = 'test.ts';
+        const content = `import { other } from '@org/source';`;
+        tree.write(filePath, content);
+
+        const result = updateImportSpecifier(
+          tree,
+          filePath,
+          '@org/source',
+          '@org/target',
+          movedSymbols,
+        );
+
+        expect(result).toBe(false);
+        expect(tree.read(filePath, 'utf-8')).toBe(content);
+      });
+
+      it('should keep import type on both declarations', () => {
+        const filePath = 'test.ts';
+        tree.write(
+          filePath,
+          `import type { Moved, Other } from '@org/source';`,
+        );
+
+        updateImportSpecifier(
+          tree,
+          filePath,
+          '@org/source',
+          '@org/target',
+          movedSymbols,
+        );
+
+        const content = tree.read(filePath, 'utf-8');
+        expect(content).toContain(`import type { Other } from '@org/source';`);
+        expect(content).toContain(`import type { Moved } from '@org/target';`);
+      });
+
+      it('should keep inline type modifiers', () => {
+        const filePath = 'test.ts';
+        tree.write(
+          filePath,
+          `import { type Moved, other } from '@org/source';`,
+        );
+
+        updateImportSpecifier(
+          tree,
+          filePath,
+          '@org/source',
+          '@org/target',
+          movedSymbols,
+        );
+
+        expect(tree.read(filePath, 'utf-8')).toContain(
+          `import { type Moved } from '@org/target';`,
+        );
+      });
+
+      it('should split mixed re-exports and keep export type', () => {
+        const filePath = 'index.ts';
+        tree.write(
+          filePath,
+          `export { moved as renamed, other } from '@org/source';\nexport type { Moved, Other } from '@org/source';`,
+        );
+
+        updateImportSpecifier(
+          tree,
+          filePath,
+          '@org/source',
+          '@org/target',
+          movedSymbols,
+        );
+
+        const content = tree.read(filePath, 'utf-8');
+        expect(content).toContain(`export { other } from '@org/source';`);
+        expect(content).toContain(
+          `export { moved as renamed } from '@org/target';`,
+        );
+        expect(content).toContain(`export type { Other } from '@org/source';`);
+        expect(content).toContain(`export type { Moved } from '@org/target';`);
+      });
+
+      it('should keep default imports on the old specifier', () => {
+        const filePath = 'test.ts';
+        tree.write(filePath, `import lib, { moved } from '@org/source';`);
+
+        updateImportSpecifier(
+          tree,
+          filePath,
+          '@org/source',
+          '@org/target',
+          movedSymbols,
+        );
+
+        const content = tree.read(filePath, 'utf-8');
+        expect(content).toContain(`import lib from '@org/source';`);
+        expect(content).toContain(`import { moved } from '@org/target';`);
+      });
+
+      it('should rewrite dynamic imports as a whole', () => {
+        const filePath = 'test.ts';
+        tree.write(filePath, `const lazy = import('@org/source');`);
+
+        updateImportSpecifier(
+          tree,
+          filePath,
+          '@org/source',
+          '@org/target',
+          movedSymbols,
+        );
+
+        expect(tree.read(filePath, 'utf-8')).toContain(`import('@org/target')`);
+      });
+
+      it('should import moved symbols used through a namespace import from the new specifier', () => {
+        const filePath = 'test.ts';
+        tree.write(
+          filePath,
+          `import * as lib from '@org/source';\nexport const x: lib.Moved = lib.moved(lib.other);`,
+        );
+
+        const result = updateImportSpecifier(
+          tree,
+          filePath,
+          '@org/source',
+          '@org/target',
+          movedSymbols,
+        );
+
+        expect(result).toBe(true);
+        const content = tree.read(filePath, 'utf-8');
+        expect(content).toContain(`import * as lib from '@org/source';`);
+        expect(content).toContain(
+          `import { moved, Moved } from '@org/target';`,
+        );
+        expect(content).toContain(`export const x: Moved = moved(lib.other);`);
+      });
+
+      it('should leave namespace imports untouched when a moved name is taken', () => {
+        const filePath = 'test.ts';
+        const original = `import * as lib from '@org/source';\nconst moved = 1;\nexport const x = lib.moved(moved);`;
+        tree.write(filePath, original);
+        const warnSpy = jest.spyOn(logger, 'warn').mockImplementation();
+
+        const result = updateImportSpecifier(
+          tree,
+          filePath,
+          '@org/source',
+          '@org/target',
+          movedSymbols,
+        );
+
+        expect(result).toBe(false);
+        expect(tree.read(filePath, 'utf-8')).toBe(original);
+        expect(warnSpy).toHaveBeenCalledWith(
+          expect.stringContaining('update these accesses manually'),
+        );
+        warnSpy.mockRestore();
+      });
+
+      it('should leave namespace imports without moved symbol accesses untouched', () => {
+        const filePath = 'test.ts';
+        const original = `import * as lib from '@org/source';\nexport const x = lib.other;`;
+        tree.write(filePath, original);
+
+        const result = updateImportSpecifier(
+          tree,
+          filePath,
+          '@org/source',
+          '@org/target',
+          movedSymbols,
+        );
+
+        expect(result).toBe(false);
+        expect(tree.read(filePath, 'utf-8')).toBe(original);
+      });
+
+      it('should keep export * on the old specifier and warn about the moved symbols', () => {
+        const filePath = 'index.ts';
+        const original = `export * from '@org/source';`;
+        tree.write(filePath, original);
+        const warnSpy = jest.spyOn(logger, 'warn').mockImplementation();
+
+        const result = updateImportSpecifier(
+          tree,
+          filePath,
+          '@org/source',
+          '@org/target',
+          movedSymbols,
+        );
+
+        expect(result).toBe(false);
+        expect(tree.read(filePath, 'utf-8')).toBe(original);
+        expect(warnSpy).toHaveBeenCalledWith(
+          expect.stringContaining('no longer exports moved, Moved'),
+        );
+        warnSpy.mockRestore();
+      });
+    });
   });
 
   describe('updateImportSpecifierPattern', () => {
@@ -229,6 +471,66 @@ describe('jscodeshift-utils', () => {
     });
   });
 
+  describe('updateSymbolImportSpecifier', () => {
+    const matcher = (specifier: string) => specifier === './utils';
+
+    it('should split imports and re-exports of the symbol', () => {
+      const filePath = 'test.ts';
+      tree.write(
+        filePath,
+        `import { moved, other } from './utils';\nexport { moved as m } from './utils';`,
+      );
+
+      const result = updateSymbolImportSpecifier(
+        tree,
+        filePath,
+        matcher,
+        './moved',
+        'moved',
+      );
+
+      expect(result).toBe(true);
+      const content = tree.read(filePath, 'utf-8');
+      expect(content).toContain(`import { other } from './utils';`);
+      expect(content).toContain(`import { moved } from './moved';`);
+      expect(content).toContain(`export { moved as m } from './moved';`);
+    });
+
+    it('should leave namespace imports and export * untouched', () => {
+      const filePath = 'test.ts';
+      const original = `import * as moved from './utils';\nexport * from './utils';\nexport const x = moved;`;
+      tree.write(filePath, original);
+
+      const result = updateSymbolImportSpecifier(
+        tree,
+        filePath,
+        matcher,
+        './moved',
+        'moved',
+      );
+
+      expect(result).toBe(false);
+      expect(tree.read(filePath, 'utf-8')).toBe(original);
+    });
+
+    it('should not update imports of other symbols', () => {
+      const filePath = 'test.ts';
+      const original = `import { other } from './utils';\nexport const moved = other;`;
+      tree.write(filePath, original);
+
+      const result = updateSymbolImportSpecifier(
+        tree,
+        filePath,
+        matcher,
+        './moved',
+        'moved',
+      );
+
+      expect(result).toBe(false);
+      expect(tree.read(filePath, 'utf-8')).toBe(original);
+    });
+  });
+
   describe('hasImportSpecifier', () => {
     it('should return true for static imports', () => {
       const filePath = 'test.ts';
@@ -299,4 +601,42 @@ describe('jscodeshift-utils', () => {
       expect(result).toBe(false);
     });
   });
+
+  describe('hasSymbolImport', () => {
+    it('should return true when a named import includes one of the symbols', () => {
+      tree.write('test.ts', "import { foo, bar } from '@org/lib';\n");
+
+      expect(
+        hasSymbolImport(tree, 'test.ts', '@org/lib', new Set(['bar'])),
+      ).toBe(true);
+    });
+
+    it('should return false when named imports include none of the symbols', () => {
+      tree.write('test.ts', "import { foo } from '@org/lib';\n");
+
+      expect(
+        hasSymbolImport(tree, 'test.ts', '@org/lib', new Set(['bar'])),
+      ).toBe(false);
+    });
+
+    it('should treat namespace imports and export * as importing every symbol', () => {
+      tree.write('a.ts', "import * as lib from '@org/lib';\n");
+      tree.write('b.ts', "export * from '@org/lib';\n");
+
+      expect(hasSymbolImport(tree, 'a.ts', '@org/lib', new Set(['bar']))).toBe(
+        true,
+      );
+      expect(hasSymbolImport(tree, 'b.ts', '@org/lib', new Set(['bar']))).toBe(
+        true,
+      );
+    });
+
+    it('should match any import when no symbols are given', () => {
+      tree.write('test.ts', "import { foo } from '@org/lib';\n");
+
+      expect(hasSymbolImport(tree, 'test.ts', '@org/lib', undefined)).toBe(
+        true,
+      );
+    });
+  });
 });
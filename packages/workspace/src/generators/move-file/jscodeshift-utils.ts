@@ -1,6 +1,13 @@
 import { Tree, logger } from '@nx/devkit';
-import type { ASTNode } from 'jscodeshift';
+import type {
+  ASTNode,
+  ASTPath,
+  ExportNamedDeclaration,
+  ImportDeclaration,
+} from 'jscodeshift';
 import { astCache, j } from './ast-cache';
+import { treeReadCache } from './tree-cache';
+import { moveRecorder } from './reporting/move-recorder';
 
 /**
  * Quick check if content might contain imports/requires before expensive parsing.
@@ -25,13 +32,220 @@ function mightContainSpecifier(content: string, specifier: string): boolean {
   return content.includes(specifier);
 }
 
+/**
+ * Gets the name a named import or re-export specifier refers to in the
+ * imported module, or null for default and namespace specifiers.
+ */
+function getImportedSymbolName(
+  specifier: NonNullable<
+    (ImportDeclaration | ExportNamedDeclaration)['specifiers']
+  >[number],
+): string | null {
+  if (j.ImportSpecifier.check(specifier)) {
+    return specifier.imported.name;
+  }
+  if (j.ExportSpecifier.check(specifier)) {
+    return specifier.local?.name ?? null;
+  }
+  return null;
+}
+
+/**
+ * Points a static import or re-export declaration at a new specifier.
+ *
+ * Without moved symbols, or for declarations without named specifiers
+ * (side-effect and default-only), the whole specifier is rewritten. Namespace
+ * imports stay on the old specifier, which still provides the symbols that
+ * did not move (see retargetNamespaceImport). Otherwise only the named
+ * specifiers for moved symbols follow the new specifier: a mixed declaration
+ * is split in two, keeping its `import type` / `export type` kind, and a
+ * declaration that imports no moved symbol is left untouched.
+ *
+ * @returns The moved symbol names, or null if the declaration was not changed
+ */
+function retargetDeclaration(
+  path: ASTPath<ImportDeclaration | ExportNamedDeclaration>,
+  newSpecifier: string,
+  movedSymbols: ReadonlySet<string> | undefined,
+  filePath: string,
+): string[] | null {
+  const node = path.node;
+  if (!node.source) {
+    return null;
+  }
+
+  const specifiers = node.specifiers ?? [];
+  const hasNamedSpecifiers = specifiers.some(
+    (specifier) => getImportedSymbolName(specifier) !== null,
+  );
+  const namespaceSpecifier = specifiers.find((specifier) =>
+    j.ImportNamespaceSpecifier.check(specifier),
+  );
+
+  if (movedSymbols && namespaceSpecifier?.local) {
+    return retargetNamespaceImport(
+      path as ASTPath<ImportDeclaration>,
+      namespaceSpecifier.local.name,
+      newSpecifier,
+      movedSymbols,
+      filePath,
+    );
+  }
+
+  if (!movedSymbols || !hasNamedSpecifiers) {
+    node.source.value = newSpecifier;
+    return [];
+  }
+
+  const moved = specifiers.filter((specifier) =>
+    movedSymbols.has(getImportedSymbolName(specifier) ?? ''),
+  );
+  const movedNames = moved.map(
+    (specifier) => getImportedSymbolName(specifier) as string,
+  );
+
+  if (moved.length === 0) {
+    return null;
+  }
+
+  if (moved.length === specifiers.length) {
+    node.source.value = newSpecifier;
+    return movedNames;
+  }
+
+  node.specifiers = specifiers.filter(
+    (specifier) => !moved.includes(specifier),
+  ) as typeof node.specifiers;
+
+  if (j.ImportDeclaration.check(node)) {
+    path.insertAfter(
+      j.importDeclaration(
+        moved as ImportDeclaration['specifiers'],
+        j.stringLiteral(newSpecifier),
+        node.importKind,
+      ),
+    );
+  } else {
+    // Babel's `export type { ... } from` kind is not part of the ast-types definitions
+    const declaration: ExportNamedDeclaration & { exportKind?: string } =
+      j.exportNamedDeclaration(
+        null,
+        moved as ExportNamedDeclaration['specifiers'],
+        j.stringLiteral(newSpecifier),
+      );
+    declaration.exportKind = (node as typeof declaration).exportKind;
+    path.insertAfter(declaration);
+  }
+
+  return movedNames;
+}
+
+/**
+ * Imports the moved symbols that a file uses through a namespace import
+ * (`lib.moved`, or `lib.Moved` in types) from the new specifier, and uses
+ * them by name (`moved`). The namespace import itself stays on the old
+ * specifier for the symbols that did not move.
+ *
+ * When a moved symbol's name is already taken in the file, nothing is
+ * changed and a warning names the accesses to update by hand.
+ *
+ * @returns The moved symbol names, or null if the file was not changed
+ */
+function retargetNamespaceImport(
+  path: ASTPath<ImportDeclaration>,
+  namespaceName: string,
+  newSpecifier: string,
+  movedSymbols: ReadonlySet<string>,
+  filePath: string,
+): string[] | null {
+  const root = j(path).closest(j.Program);
+  const accesses = [
+    ...root
+      .find(j.MemberExpression, {
+        computed: false,
+        object: { type: 'Identifier', name: namespaceName },
+      })
+      .filter(
+        (access) =>
+          j.Identifier.check(access.node.property) &&
+          movedSymbols.has(access.node.property.name),
+      )
+      .paths()
+      .map((access) => ({
+        path: access as ASTPath,
+        name: (access.node.property as { name: string }).name,
+      })),
+    ...root
+      .find(j.TSQualifiedName, {
+        left: { type: 'Identifier', name: namespaceName },
+      })
+      .filter(
+        (access) =>
+          j.Identifier.check(access.node.right) &&
+          movedSymbols.has(access.node.right.name),
+      )
+      .paths()
+      .map((access) => ({
+        path: access as ASTPath,
+        name: (access.node.right as { name: string }).name,
+      })),
+  ];
+  if (accesses.length === 0) {
+    return null;
+  }
+
+  const movedNames = Array.from(new Set(accesses.map(({ name }) => name)));
+  const accessedNodes = new Set(
+    accesses.map(({ path: access }) => access.node),
+  );
+  const takenNames = movedNames.filter(
+    (name) =>
+      root
+        .find(j.Identifier, { name })
+        .filter(
+          (identifier) =>
+            !accessedNodes.has(identifier.parent?.node) ||
+            !['property', 'right'].includes(String(identifier.name)),
+        )
+        .size() > 0,
+  );
+  if (takenNames.length > 0) {
+    logger.warn(
+      `${filePath} uses ${takenNames.join(', ')} through the namespace import '${namespaceName}', but they moved to '${newSpecifier}'. Their names are taken in the file, so update these accesses manually.`,
+    );
+    return null;
+  }
+
+  accesses.forEach(({ path: access, name }) =>
+    access.replace(j.identifier(name)),
+  );
+  path.insertAfter(
+    j.importDeclaration(
+      movedNames.map((name) => j.importSpecifier(j.identifier(name))),
+      j.stringLiteral(newSpecifier),
+      path.node.importKind,
+    ),
+  );
+
+  return movedNames;
+}
+
 /**
  * Updates import specifiers in a file using jscodeshift.
  *
+ * When `movedSymbols` is provided, static import and re-export declarations
+ * are updated per symbol: only named bindings in `movedSymbols` are pointed at
+ * the new specifier and mixed declarations are split (see retargetDeclaration).
+ * Namespace imports and `export *` keep the old specifier; moved symbols used
+ * through a namespace import are imported from the new specifier, and a
+ * warning names the moved symbols that `export *` no longer re-exports.
+ * Dynamic imports and require calls are always rewritten as a whole.
+ *
  * @param tree - The virtual file system tree
  * @param filePath - Path to the file to update
  * @param oldSpecifier - The old import specifier to replace
  * @param newSpecifier - The new import specifier
+ * @param movedSymbols - Optional names exported by the moved file
  * @returns True if changes were made
  */
 export function updateImportSpecifier(
@@ -39,6 +253,7 @@ export function updateImportSpecifier(
   filePath: string,
   oldSpecifier: string,
   newSpecifier: string,
+  movedSymbols?: ReadonlySet<string>,
 ): boolean {
   // Get content from cache or read from tree
   const content = astCache.getContent(tree, filePath);
@@ -59,6 +274,7 @@ export function updateImportSpecifier(
 
   try {
     let hasChanges = false;
+    const rewrittenSymbols = new Set<string>();
 
     // Optimized: Filter to only relevant node types before traversal
     // This reduces the number of nodes we need to check dramatically
@@ -75,24 +291,38 @@ export function updateImportSpecifier(
       const node = path.node as ASTNode;
 
       // Handle ImportDeclaration: import ... from 'oldSpecifier'
-      if (j.ImportDeclaration.check(node)) {
-        if (node.source.value === oldSpecifier) {
-          node.source.value = newSpecifier;
-          hasChanges = true;
-        }
-      }
       // Handle ExportNamedDeclaration: export { foo } from 'oldSpecifier'
-      else if (j.ExportNamedDeclaration.check(node)) {
+      if (
+        j.ImportDeclaration.check(node) ||
+        j.ExportNamedDeclaration.check(node)
+      ) {
         if (node.source?.value === oldSpecifier) {
-          node.source.value = newSpecifier;
-          hasChanges = true;
+          const symbols = retargetDeclaration(
+            path as ASTPath<ImportDeclaration | ExportNamedDeclaration>,
+            newSpecifier,
+            movedSymbols,
+            filePath,
+          );
+          if (symbols) {
+            symbols.forEach((symbol) => rewrittenSymbols.add(symbol));
+            hasChanges = true;
+          }
         }
       }
       // Handle ExportAllDeclaration: export * from 'oldSpecifier'
       else if (j.ExportAllDeclaration.check(node)) {
-        if (node.source.value === oldSpecifier) {
+        if (node.source.value !== oldSpecifier) {
+          return;
+        }
+
+        if (!movedSymbols) {
           node.source.value = newSpecifier;
           hasChanges = true;
+        } else {
+          // The old specifier still provides the symbols that did not move
+          logger.warn(
+            `${filePath} re-exports everything from '${oldSpecifier}', which no longer exports ${Array.from(movedSymbols).join(', ')}. Add \`export { ... } from '${newSpecifier}'\` if they should still be exported from ${filePath}.`,
+          );
         }
       }
       // Handle CallExpression for dynamic imports, require, and require.resolve
@@ -133,8 +363,15 @@ export function updateImportSpecifier(
     if (hasChanges) {
       const updatedContent = root.toSource({ quote: 'single' });
       tree.write(filePath, updatedContent);
-      // Invalidate cache since file was modified
+      // Invalidate caches since file was modified
       astCache.invalidate(filePath);
+      treeReadCache.invalidateFile(filePath);
+      moveRecorder.recordImportRewrite(
+        filePath,
+        oldSpecifier,
+        newSpecifier,
+        rewrittenSymbols.size > 0 ? Array.from(rewrittenSymbols) : undefined,
+      );
       logger.verbose(`Updated imports in ${filePath} using jscodeshift`);
     }
 
@@ -148,6 +385,104 @@ export function updateImportSpecifier(
   }
 }
 
+/**
+ * Points the named imports and re-exports of a single symbol at a new
+ * specifier using jscodeshift.
+ *
+ * Mixed declarations are split as in updateImportSpecifier. Namespace
+ * imports, `export *`, dynamic imports, and require calls cannot be split by
+ * symbol and are left untouched.
+ *
+ * @param tree - The virtual file system tree
+ * @param filePath - Path to the file to update
+ * @param matcher - Function to test if an import specifier refers to the module the symbol moves out of
+ * @param newSpecifier - The new import specifier for the symbol, or a function
+ *   that derives it from the matched specifier
+ * @param symbol - Name of the moved symbol
+ * @returns True if changes were made
+ */
+export function updateSymbolImportSpecifier(
+  tree: Tree,
+  filePath: string,
+  matcher: (specifier: string) => boolean,
+  newSpecifier: string | ((oldSpecifier: string) => string),
+  symbol: string,
+): boolean {
+  // Get content from cache or read from tree
+  const content = astCache.getContent(tree, filePath);
+  if (!content || content.trim().length === 0) {
+    return false;
+  }
+
+  // Early exit: the symbol must be named somewhere in the file
+  if (!mightContainSpecifier(content, symbol)) {
+    return false;
+  }
+
+  // Get parsed AST from cache or parse content
+  const root = astCache.getAST(tree, filePath);
+  if (!root) {
+    return false;
+  }
+
+  try {
+    let hasChanges = false;
+    const movedSymbols = new Set([symbol]);
+
+    root
+      .find(j.Node, (node) => {
+        return (
+          j.ImportDeclaration.check(node) ||
+          j.ExportNamedDeclaration.check(node)
+        );
+      })
+      .forEach((path) => {
+        const node = path.node as ImportDeclaration | ExportNamedDeclaration;
+        const source = node.source?.value;
+        if (typeof source !== 'string' || !matcher(source)) {
+          return;
+        }
+
+        const importsSymbol = (node.specifiers ?? []).some(
+          (specifier) => getImportedSymbolName(specifier) === symbol,
+        );
+        if (!importsSymbol) {
+          return;
+        }
+
+        const specifier =
+          typeof newSpecifier === 'string'
+            ? newSpecifier
+            : newSpecifier(source);
+        retargetDeclaration(
+          path as ASTPath<ImportDeclaration | ExportNamedDeclaration>,
+          specifier,
+          movedSymbols,
+          filePath,
+        );
+        moveRecorder.recordImportRewrite(filePath, source, specifier, [symbol]);
+        hasChanges = true;
+      });
+
+    if (hasChanges) {
+      const updatedContent = root.toSource({ quote: 'single' });
+      tree.write(filePath, updatedContent);
+      // Invalidate caches since file was modified
+      astCache.invalidate(filePath);
+      treeReadCache.invalidateFile(filePath);
+      logger.verbose(`Updated imports of ${symbol} in ${filePath}`);
+    }
+
+    return hasChanges;
+  } catch (error) {
+    // If parsing fails, log warning and return false
+    logger.warn(
+      `Unable to parse ${filePath}. Import updates may not be applied. Error: ${error}`,
+    );
+    return false;
+  }
+}
+
 /**
  * Updates import specifiers that match a pattern in a file using jscodeshift.
  * This is optimized to do a single AST traversal instead of multiple find() calls.
@@ -181,6 +516,13 @@ export function updateImportSpecifierPattern(
     return false;
   }
 
+  // Record every rewrite so move plans and journals can report it
+  const rewrite = (specifier: string): string => {
+    const newSpecifier = getNewSpecifier(specifier);
+    moveRecorder.recordImportRewrite(filePath, specifier, newSpecifier);
+    return newSpecifier;
+  };
+
   try {
     let hasChanges = false;
 
@@ -201,7 +543,7 @@ export function updateImportSpecifierPattern(
       if (j.ImportDeclaration.check(node)) {
         const source = node.source.value;
         if (typeof source === 'string' && matcher(source)) {
-          node.source.value = getNewSpecifier(source);
+          node.source.value = rewrite(source);
           hasChanges = true;
         }
       }
@@ -210,7 +552,7 @@ export function updateImportSpecifierPattern(
         if (node.source && typeof node.source.value === 'string') {
           const source = node.source.value;
           if (matcher(source)) {
-            node.source.value = getNewSpecifier(source);
+            node.source.value = rewrite(source);
             hasChanges = true;
           }
         }
@@ -219,7 +561,7 @@ export function updateImportSpecifierPattern(
       else if (j.ExportAllDeclaration.check(node)) {
         const source = node.source.value;
         if (typeof source === 'string' && matcher(source)) {
-          node.source.value = getNewSpecifier(source);
+          node.source.value = rewrite(source);
           hasChanges = true;
         }
       }
@@ -237,7 +579,7 @@ export function updateImportSpecifierPattern(
 
           // Dynamic import: import('specifier')
           if (j.Import.check(callee) && matcher(specifier)) {
-            args[0].value = getNewSpecifier(specifier);
+            args[0].value = rewrite(specifier);
             hasChanges = true;
           }
           // require('specifier')
@@ -246,7 +588,7 @@ export function updateImportSpecifierPattern(
             callee.name === 'require' &&
             matcher(specifier)
           ) {
-            args[0].value = getNewSpecifier(specifier);
+            args[0].value = rewrite(specifier);
             hasChanges = true;
           }
           // require.resolve('specifier')
@@ -258,7 +600,7 @@ export function updateImportSpecifierPattern(
             callee.property.name === 'resolve' &&
             matcher(specifier)
           ) {
-            args[0].value = getNewSpecifier(specifier);
+            args[0].value = rewrite(specifier);
             hasChanges = true;
           }
         }
@@ -268,8 +610,9 @@ export function updateImportSpecifierPattern(
     if (hasChanges) {
       const updatedContent = root.toSource({ quote: 'single' });
       tree.write(filePath, updatedContent);
-      // Invalidate cache since file was modified
+      // Invalidate caches since file was modified
       astCache.invalidate(filePath);
+      treeReadCache.invalidateFile(filePath);
       logger.verbose(
         `Updated imports in ${filePath} using jscodeshift pattern matcher`,
       );
@@ -526,6 +869,166 @@ export function hasImportSpecifierMatching(
   }
 }
 
+/**
+ * Checks if a file imports or re-exports any of the given symbols from a
+ * specifier.
+ *
+ * Declarations without named specifiers (side-effect, default-only,
+ * namespace, and `export *`), dynamic imports, and require calls count as
+ * importing every symbol, as does any import when `symbols` is undefined.
+ *
+ * @param tree - The virtual file system tree
+ * @param filePath - Path to the file to check
+ * @param specifier - The import specifier to look for
+ * @param symbols - Optional symbol names to look for
+ * @returns True if the file imports one of the symbols from the specifier
+ */
+export function hasSymbolImport(
+  tree: Tree,
+  filePath: string,
+  specifier: string,
+  symbols: ReadonlySet<string> | undefined,
+): boolean {
+  if (!symbols) {
+    return hasImportSpecifier(tree, filePath, specifier);
+  }
+
+  const content = astCache.getContent(tree, filePath);
+  if (!content || !mightContainSpecifier(content, specifier)) {
+    return false;
+  }
+
+  const root = astCache.getAST(tree, filePath);
+  if (!root) {
+    return false;
+  }
+
+  const importsSymbol = (
+    node: ImportDeclaration | ExportNamedDeclaration,
+  ): boolean => {
+    const names = (node.specifiers ?? []).map(getImportedSymbolName);
+    return (
+      names.length === 0 ||
+      names.some((name) => name === null || symbols.has(name))
+    );
+  };
+
+  return (
+    root
+      .find(j.ImportDeclaration, { source: { value: specifier } })
+      .some((path) => importsSymbol(path.node)) ||
+    root
+      .find(j.ExportNamedDeclaration, { source: { value: specifier } })
+      .some((path) => importsSymbol(path.node)) ||
+    root.find(j.ExportAllDeclaration, { source: { value: specifier } }).length >
+      0 ||
+    root
+      .find(j.CallExpression)
+      .some(
+        (path) =>
+          (j.Import.check(path.node.callee) ||
+            (j.Identifier.check(path.node.callee) &&
+              path.node.callee.name === 'require')) &&
+          j.StringLiteral.check(path.node.arguments[0]) &&
+          path.node.arguments[0].value === specifier,
+      )
+  );
+}
+
+/**
+ * Collects all import specifiers from a file.
+ *
+ * @param tree - The virtual file system tree.
+ * @param filePath - Path to the file to analyze.
+ * @returns Array of import specifiers found in the file.
+ */
+export function collectImportSpecifiers(
+  tree: Tree,
+  filePath: string,
+): string[] {
+  const specifiers: string[] = [];
+
+  // Get content from cache or read from tree
+  const content = astCache.getContent(tree, filePath);
+  if (!content || content.trim().length === 0) {
+    return specifiers;
+  }
+
+  // Early exit: quick check if file contains any imports/requires at all
+  if (!mightContainImports(content)) {
+    return specifiers;
+  }
+
+  // Get parsed AST from cache or parse content
+  const root = astCache.getAST(tree, filePath);
+  if (!root) {
+    return specifiers;
+  }
+
+  try {
+    // Filter to only relevant node types
+    const relevantNodes = root.find(j.Node, (node) => {
+      return (
+        j.ImportDeclaration.check(node) ||
+        j.ExportNamedDeclaration.check(node) ||
+        j.ExportAllDeclaration.check(node) ||
+        j.CallExpression.check(node)
+      );
+    });
+
+    relevantNodes.forEach((path) => {
+      const node = path.node as ASTNode;
+
+      // Handle ImportDeclaration: import ... from 'specifier'
+      if (j.ImportDeclaration.check(node)) {
+        const source = node.source.value;
+        if (typeof source === 'string') {
+          specifiers.push(source);
+        }
+      }
+      // Handle ExportNamedDeclaration: export { foo } from 'specifier'
+      else if (j.ExportNamedDeclaration.check(node)) {
+        if (node.source && typeof node.source.value === 'string') {
+          specifiers.push(node.source.value);
+        }
+      }
+      // Handle ExportAllDeclaration: export * from 'specifier'
+      else if (j.ExportAllDeclaration.check(node)) {
+        const source = node.source.value;
+        if (typeof source === 'string') {
+          specifiers.push(source);
+        }
+      }
+      // Handle CallExpression for dynamic imports and require
+      else if (j.CallExpression.check(node)) {
+        const { callee, arguments: args } = node;
+
+        // Check if first argument is a string literal
+        if (
+          args.length > 0 &&
+          j.StringLiteral.check(args[0]) &&
+          typeof args[0].value === 'string'
+        ) {
+          const specifier = args[0].value;
+
+          // Dynamic import: import('specifier') or require('specifier')
+          if (
+            j.Import.check(callee) ||
+            (j.Identifier.check(callee) && callee.name === 'require')
+          ) {
+            specifiers.push(specifier);
+          }
+        }
+      }
+    });
+  } catch {
+    // If parsing fails, return empty array
+    return specifiers;
+  }
+
+  return specifiers;
+}
+
 /**
  * Clears all cached ASTs and content. Should be called at the start of each move operation
  * to ensure a clean state.
@@ -0,0 +1,34 @@
+import { applyImportExtensionStyle } from './apply-import-extension-style';
+
+describe('applyImportExtensionStyle', () => {
+  it('should strip the extension in the none style', () => {
+    expect(applyImportExtensionStyle('./lib/utils.ts', 'none')).toBe(
+      './lib/utils',
+    );
+  });
+
+  it('should keep ESM extensions in the none style', () => {
+    expect(applyImportExtensionStyle('./lib/utils.mts', 'none')).toBe(
+      './lib/utils.mts',
+    );
+  });
+
+  it('should name the emitted file in the js style', () => {
+    expect(applyImportExtensionStyle('app/shared/utils.ts', 'js')).toBe(
+      'app/shared/utils.js',
+    );
+    expect(applyImportExtensionStyle('./lib/utils.cts', 'js')).toBe(
+      './lib/utils.cjs',
+    );
+  });
+
+  it('should keep the source extension in the ts style', () => {
+    expect(applyImportExtensionStyle('./lib/utils.tsx', 'ts')).toBe(
+      './lib/utils.tsx',
+    );
+  });
+
+  it('should leave extensionless paths alone', () => {
+    expect(applyImportExtensionStyle('./lib/utils', 'js')).toBe('./lib/utils');
+  });
+});
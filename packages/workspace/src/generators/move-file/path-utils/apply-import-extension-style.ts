@@ -0,0 +1,26 @@
+import { posix as path } from 'node:path';
+import { stripFileExtension } from './strip-file-extension';
+import { getImportExtension } from './get-import-extension';
+import type { ImportExtensionStyle } from '../types/import-extension-style';
+
+/**
+ * Turns the path of an imported file into an import path in the given
+ * extension style: without the extension (except for ESM files) by default,
+ * by the emitted file with `js` (`utils.js` for `utils.ts`), and by the
+ * source file with `ts`.
+ *
+ * @param importPath - Path of the imported file, with its extension
+ * @param extensionStyle - How the import names the file
+ * @returns The import path in the extension style
+ */
+export function applyImportExtensionStyle(
+  importPath: string,
+  extensionStyle: ImportExtensionStyle,
+): string {
+  if (extensionStyle === 'none') {
+    return stripFileExtension(importPath);
+  }
+
+  const extension = path.extname(importPath);
+  return `${importPath.slice(0, importPath.length - extension.length)}${getImportExtension(extension, extensionStyle)}`;
+}
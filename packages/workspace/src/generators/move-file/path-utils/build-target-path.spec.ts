@@ -93,6 +93,21 @@ describe('buildTargetPath', () => {
     expect(result).toBe('packages/lib1/src/lib/file.spec.ts');
   });
 
+  it('should place files in the given base directory', () => {
+    const project: ProjectConfiguration = {
+      root: 'apps/api',
+      sourceRoot: 'apps/api/src',
+      projectType: 'application',
+    };
+
+    expect(buildTargetPath(project, 'source/file.ts', 'routes', '')).toBe(
+      'apps/api/src/routes/file.ts',
+    );
+    expect(buildTargetPath(project, 'source/file.ts', undefined, 'core')).toBe(
+      'apps/api/src/core/file.ts',
+    );
+  });
+
   it('should normalize path separators', () => {
     const project: ProjectConfiguration = {
       root: 'packages/lib1',
@@ -7,12 +7,14 @@ import { posix as path } from 'node:path';
  * @param targetProject - Target project configuration
  * @param sourceFilePath - Original source file path (used to extract filename)
  * @param projectDirectory - Optional directory within the target project, appended to base directory
+ * @param baseDirectory - Directory below the source root that moved files are placed in (see getProjectBaseDirectory); defaults to `app` for applications and `lib` for libraries
  * @returns The full target file path
  */
 export function buildTargetPath(
   targetProject: ProjectConfiguration,
   sourceFilePath: string,
   projectDirectory?: string,
+  baseDirectory = targetProject.projectType === 'application' ? 'app' : 'lib',
 ): string {
   const fileName = path.basename(sourceFilePath);
 
@@ -20,13 +22,10 @@ export function buildTargetPath(
   const baseRoot =
     targetProject.sourceRoot || path.join(targetProject.root, 'src');
 
-  // Use 'app' for application projects, 'lib' for library projects
-  const baseDir = targetProject.projectType === 'application' ? 'app' : 'lib';
-
   // If projectDirectory is specified, append it to the base directory
   const targetDir = projectDirectory
-    ? path.join(baseDir, projectDirectory)
-    : baseDir;
+    ? path.join(baseDirectory, projectDirectory)
+    : baseDirectory;
 
   return normalizePath(path.join(baseRoot, targetDir, fileName));
 }
@@ -0,0 +1,22 @@
+import { collectExportTargets } from './collect-export-targets';
+
+describe('collectExportTargets', () => {
+  it('should return a path target', () => {
+    expect(collectExportTargets('./src/index.ts')).toEqual(['./src/index.ts']);
+  });
+
+  it('should walk nested conditions and fallback arrays', () => {
+    expect(
+      collectExportTargets({
+        types: './dist/index.d.ts',
+        import: { node: ['./dist/index.mjs', './dist/index.js'] },
+        default: null,
+      }),
+    ).toEqual(['./dist/index.d.ts', './dist/index.mjs', './dist/index.js']);
+  });
+
+  it('should return nothing for other values', () => {
+    expect(collectExportTargets(null)).toEqual([]);
+    expect(collectExportTargets(42)).toEqual([]);
+  });
+});
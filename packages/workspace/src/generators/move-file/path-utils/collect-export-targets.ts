@@ -0,0 +1,20 @@
+/**
+ * Collects the paths of a package.json `exports` or `imports` target, walking
+ * nested conditions and fallback arrays.
+ *
+ * @param target - A path, conditions object, or fallback array
+ * @returns The paths in the order they appear
+ */
+export function collectExportTargets(target: unknown): string[] {
+  if (typeof target === 'string') {
+    return [target];
+  }
+  if (Array.isArray(target)) {
+    return target.flatMap(collectExportTargets);
+  }
+  if (typeof target === 'object' && target !== null) {
+    return Object.values(target).flatMap(collectExportTargets);
+  }
+
+  return [];
+}
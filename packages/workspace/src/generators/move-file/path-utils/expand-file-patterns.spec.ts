@@ -0,0 +1,53 @@
+import { Tree } from '@nx/devkit';
+import { createTreeWithEmptyWorkspace } from '@nx/devkit/testing';
+import { expandFilePatterns } from './expand-file-patterns';
+
+describe('expandFilePatterns', () => {
+  let tree: Tree;
+
+  beforeEach(() => {
+    tree = createTreeWithEmptyWorkspace();
+    tree.write('packages/lib1/src/lib/a.ts', '');
+    tree.write('packages/lib1/src/lib/b.ts', '');
+    tree.write('packages/lib1/src/lib/c.js', '');
+  });
+
+  it('should expand glob patterns and keep direct paths', async () => {
+    const filePaths = await expandFilePatterns(
+      tree,
+      'packages/lib1/src/lib/c.js,packages/lib1/src/lib/*.ts',
+    );
+
+    expect(filePaths).toEqual([
+      'packages/lib1/src/lib/c.js',
+      'packages/lib1/src/lib/a.ts',
+      'packages/lib1/src/lib/b.ts',
+    ]);
+  });
+
+  it('should remove duplicates', async () => {
+    const filePaths = await expandFilePatterns(
+      tree,
+      'packages/lib1/src/lib/a.ts,packages/lib1/src/lib/{a,b}.ts',
+    );
+
+    expect(filePaths).toEqual([
+      'packages/lib1/src/lib/a.ts',
+      'packages/lib1/src/lib/b.ts',
+    ]);
+  });
+
+  it('should throw when a glob pattern matches no files', async () => {
+    await expect(
+      expandFilePatterns(tree, 'packages/lib1/src/lib/*.tsx'),
+    ).rejects.toThrow(
+      'No files found matching glob pattern: "packages/lib1/src/lib/*.tsx"',
+    );
+  });
+
+  it('should throw when no pattern is given', async () => {
+    await expect(expandFilePatterns(tree, ' , ')).rejects.toThrow(
+      'At least one file path or glob pattern must be provided',
+    );
+  });
+});
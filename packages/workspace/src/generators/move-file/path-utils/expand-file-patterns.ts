@@ -0,0 +1,84 @@
+import { globAsync, normalizePath } from '@nx/devkit';
+import type { Tree } from '@nx/devkit';
+import { splitPatterns } from './split-patterns';
+
+/**
+ * Expands a comma-separated list of file paths and glob patterns into the
+ * file paths it refers to.
+ *
+ * Direct file paths are kept as given so that validation reports missing
+ * files; glob patterns must match at least one file.
+ *
+ * @param tree - The virtual file system tree
+ * @param file - Comma-separated file paths and/or glob patterns
+ * @returns Unique file paths in the order they were listed or matched
+ */
+export async function expandFilePatterns(
+  tree: Tree,
+  file: string,
+): Promise<string[]> {
+  // We need to be careful about commas inside brace expansions like {ts,js}
+  const patterns = splitPatterns(file);
+
+  if (patterns.length === 0) {
+    throw new Error('At least one file path or glob pattern must be provided');
+  }
+
+  // Separate glob patterns from direct file paths for batch processing
+  const globPatterns: string[] = [];
+  const directPaths: string[] = [];
+  const patternMap = new Map<string, string>(); // normalized -> original for error messages
+
+  for (const pattern of patterns) {
+    // Normalize pattern to use forward slashes (Windows compatibility)
+    const normalizedPattern = normalizePath(pattern);
+
+    // Check if pattern contains glob characters
+    const isGlobPattern = /[*?[\]{}]/.test(normalizedPattern);
+
+    if (isGlobPattern) {
+      globPatterns.push(normalizedPattern);
+      patternMap.set(normalizedPattern, pattern);
+    } else {
+      // Direct file path
+      directPaths.push(normalizedPattern);
+    }
+  }
+
+  // Batch all glob patterns into a single globAsync call for better performance
+  const filePaths: string[] = [...directPaths];
+  if (globPatterns.length > 0) {
+    const matches = await globAsync(tree, globPatterns);
+
+    // If no matches at all, we need to check individual patterns for better error messages
+    // Only do this in the error case to maintain performance in the success case
+    if (matches.length === 0 && globPatterns.length > 0) {
+      // Find the first pattern that matches nothing for a helpful error message
+      for (const globPattern of globPatterns) {
+        const individualMatches = await globAsync(tree, [globPattern]);
+        if (individualMatches.length === 0) {
+          const originalPattern = patternMap.get(globPattern) || globPattern;
+          throw new Error(
+            `No files found matching glob pattern: "${originalPattern}"`,
+          );
+        }
+      }
+      // If we get here, all patterns individually matched something, but combined they didn't
+      // This shouldn't happen, but throw a generic error just in case
+      throw new Error(
+        `No files found matching glob patterns: "${globPatterns.join(', ')}"`,
+      );
+    }
+
+    filePaths.push(...matches);
+  }
+
+  // Remove duplicates (in case multiple patterns match the same file)
+  const uniqueFilePaths = Array.from(new Set(filePaths));
+
+  if (uniqueFilePaths.length === 0) {
+    throw new Error('At least one file path must be provided');
+  }
+
+  return uniqueFilePaths;
+}
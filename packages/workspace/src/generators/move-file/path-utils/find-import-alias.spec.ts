@@ -0,0 +1,26 @@
+import { findImportAlias } from './find-import-alias';
+import type { AliasPaths } from '../types/alias-provider';
+
+describe('findImportAlias', () => {
+  const aliasPaths: AliasPaths = {
+    '@app/config': ['apps/shop/src/config.ts'],
+    '@app/*': ['apps/shop/src/app/*'],
+    '@app/shared/*': ['libs/shared/src/*'],
+  };
+
+  it('should find exact aliases', () => {
+    expect(findImportAlias('@app/config', aliasPaths)).toBe('@app/config');
+  });
+
+  it('should find the pattern with the longest prefix', () => {
+    expect(findImportAlias('@app/feature/page', aliasPaths)).toBe('@app/*');
+    expect(findImportAlias('@app/shared/util', aliasPaths)).toBe(
+      '@app/shared/*',
+    );
+  });
+
+  it('should return null when no alias matches', () => {
+    expect(findImportAlias('lodash', aliasPaths)).toBeNull();
+    expect(findImportAlias('@app/', { '@app/*/util': ['src/*'] })).toBeNull();
+  });
+});
@@ -0,0 +1,36 @@
+import type { AliasPaths } from '../types/alias-provider';
+
+/**
+ * Finds the alias an import specifier resolves through, like TypeScript
+ * picks among `paths`: an exact alias wins, otherwise the pattern with the
+ * longest prefix before its `*`.
+ *
+ * @param specifier - The import specifier
+ * @param aliasPaths - The aliases that apply to the importing file
+ * @returns The alias or alias pattern (`@app/*`), or null if no alias matches
+ */
+export function findImportAlias(
+  specifier: string,
+  aliasPaths: AliasPaths,
+): string | null {
+  if (specifier in aliasPaths && !specifier.includes('*')) {
+    return specifier;
+  }
+
+  return (
+    Object.keys(aliasPaths)
+      .filter((alias) => {
+        const [prefix, suffix, ...rest] = alias.split('*');
+        return (
+          suffix !== undefined &&
+          rest.length === 0 &&
+          specifier.length >= alias.length &&
+          specifier.startsWith(prefix) &&
+          specifier.endsWith(suffix)
+        );
+      })
+      .sort(
+        (a, b) => b.indexOf('*') - a.indexOf('*') || b.length - a.length,
+      )[0] ?? null
+  );
+}
@@ -0,0 +1,57 @@
+import { findMoveSetTarget } from './find-move-set-target';
+
+describe('findMoveSetTarget', () => {
+  const moveSet = new Map([
+    ['libs/a/src/lib/auth/login.ts', 'libs/b/src/lib/auth/login.ts'],
+    [
+      'libs/a/src/lib/auth/utils/index.ts',
+      'libs/b/src/lib/auth/utils/index.ts',
+    ],
+    ['libs/a/src/lib/auth/styles.css', 'libs/b/src/lib/auth/styles.css'],
+  ]);
+
+  it('should return the new location of an extensionless import', () => {
+    expect(findMoveSetTarget('libs/a/src/lib/auth/login', moveSet)).toBe(
+      'libs/b/src/lib/auth/login',
+    );
+  });
+
+  it('should keep the extension as written', () => {
+    expect(findMoveSetTarget('libs/a/src/lib/auth/login.ts', moveSet)).toBe(
+      'libs/b/src/lib/auth/login.ts',
+    );
+  });
+
+  it('should resolve directory imports to index files', () => {
+    expect(findMoveSetTarget('libs/a/src/lib/auth/utils', moveSet)).toBe(
+      'libs/b/src/lib/auth/utils',
+    );
+  });
+
+  it('should match non-source files by their full name', () => {
+    expect(findMoveSetTarget('libs/a/src/lib/auth/styles.css', moveSet)).toBe(
+      'libs/b/src/lib/auth/styles.css',
+    );
+  });
+
+  it('should follow files renamed by the move', () => {
+    const renameSet = new Map([
+      ['libs/a/src/lib/helper.ts', 'libs/b/src/text-helper.ts'],
+      ['libs/a/src/lib/utils/index.ts', 'libs/b/src/helpers/index.ts'],
+    ]);
+
+    expect(findMoveSetTarget('libs/a/src/lib/helper', renameSet)).toBe(
+      'libs/b/src/text-helper',
+    );
+    expect(findMoveSetTarget('libs/a/src/lib/helper.js', renameSet)).toBe(
+      'libs/b/src/text-helper.js',
+    );
+    expect(findMoveSetTarget('libs/a/src/lib/utils', renameSet)).toBe(
+      'libs/b/src/helpers',
+    );
+  });
+
+  it('should return null for imports outside the move set', () => {
+    expect(findMoveSetTarget('libs/a/src/lib/shared', moveSet)).toBeNull();
+  });
+});
@@ -0,0 +1,48 @@
+import { normalizePath } from '@nx/devkit';
+import { posix as path } from 'node:path';
+import { removeSourceFileExtension } from './remove-source-file-extension';
+
+/**
+ * Finds the new location of a relative import target when it is moved in the
+ * same batch as the importing file.
+ *
+ * The import may omit the file extension or point to a directory with an
+ * index file. The returned path keeps the import style as written, so
+ * `./utils` stays a directory import and `./helper` stays extensionless, and
+ * follows a file that is renamed by the move.
+ *
+ * @param resolvedImportPath - Workspace path the import resolves to before the move.
+ * @param moveSet - Source to target paths of all files in the batch.
+ * @returns The import path after the move, or null if the import does not point into the move set.
+ */
+export function findMoveSetTarget(
+  resolvedImportPath: string,
+  moveSet: ReadonlyMap<string, string>,
+): string | null {
+  const normalizedImport = normalizePath(
+    removeSourceFileExtension(resolvedImportPath),
+  );
+  const importedName = path.basename(resolvedImportPath);
+
+  for (const [source, target] of moveSet) {
+    const sourceWithoutExt = removeSourceFileExtension(source);
+    const targetWithoutExt = removeSourceFileExtension(target);
+
+    if (sourceWithoutExt === normalizedImport) {
+      // A renamed file keeps the extension the import was written with
+      const sourceName = path.basename(sourceWithoutExt);
+      return path.join(
+        path.dirname(target),
+        path.basename(targetWithoutExt) + importedName.slice(sourceName.length),
+      );
+    }
+
+    if (sourceWithoutExt === `${normalizedImport}/index`) {
+      return path.basename(targetWithoutExt) === 'index'
+        ? path.dirname(target)
+        : targetWithoutExt;
+    }
+  }
+
+  return null;
+}
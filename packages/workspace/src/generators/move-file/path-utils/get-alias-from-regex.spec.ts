@@ -0,0 +1,24 @@
+import { getAliasFromRegex } from './get-alias-from-regex';
+
+describe('getAliasFromRegex', () => {
+  it('should convert an anchored literal to an alias', () => {
+    expect(getAliasFromRegex('^@app/config$')).toBe('@app/config');
+  });
+
+  it('should convert a capture group of the rest of the specifier to a wildcard', () => {
+    expect(getAliasFromRegex('^@app/(.*)$')).toBe('@app/*');
+    expect(getAliasFromRegex('^@app/(.+)')).toBe('@app/*');
+  });
+
+  it('should unescape escaped characters', () => {
+    expect(getAliasFromRegex('^@app\\/utils\\.js$')).toBe('@app/utils.js');
+  });
+
+  it('should return null for expressions that are not aliases', () => {
+    expect(getAliasFromRegex('\\.(css|less)$')).toBeNull();
+    expect(getAliasFromRegex('^(\\.{1,2}/.*)\\.js$')).toBeNull();
+    expect(getAliasFromRegex('^(.*)$')).toBeNull();
+    expect(getAliasFromRegex('^@app')).toBeNull();
+    expect(getAliasFromRegex('^@app/[a-z]+$')).toBeNull();
+  });
+});
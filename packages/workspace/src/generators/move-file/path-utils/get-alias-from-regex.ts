@@ -0,0 +1,71 @@
+/**
+ * Capture groups that take the rest of an import specifier.
+ */
+const wildcardGroups = ['(.*)', '(.+)'];
+
+/**
+ * Converts the regular expression of a module mapping (a Jest
+ * `moduleNameMapper` key or a `babel-plugin-module-resolver` alias) to an
+ * alias in the shape of tsconfig `paths` (`@app/*` for `^@app/(.*)$`).
+ *
+ * Only anchored expressions that start with literal characters and have at
+ * most one capture group of the rest of the specifier can be converted, so
+ * that mappings such as `\.(css|less)$` are skipped.
+ *
+ * @param pattern - The regular expression source
+ * @returns The alias, or null if the expression cannot be converted
+ */
+export function getAliasFromRegex(pattern: string): string | null {
+  if (!pattern.startsWith('^')) {
+    return null;
+  }
+
+  let body = pattern.slice(1);
+  const wildcardGroup = wildcardGroups.find((group) => body.includes(group));
+  if (body.endsWith('$')) {
+    body = body.slice(0, -1);
+  } else if (!wildcardGroup || !body.endsWith(wildcardGroup)) {
+    // Without `$` the expression also matches longer specifiers
+    return null;
+  }
+
+  const [prefix, suffix, ...rest] = wildcardGroup
+    ? body.split(wildcardGroup)
+    : [body, undefined];
+  if (rest.length > 0) {
+    return null;
+  }
+
+  const literalPrefix = unescapeLiteral(prefix);
+  const literalSuffix = suffix === undefined ? '' : unescapeLiteral(suffix);
+  // Aliases start with a literal, unlike mappings of every specifier
+  if (!literalPrefix || literalSuffix === null) {
+    return null;
+  }
+
+  return wildcardGroup ? `${literalPrefix}*${literalSuffix}` : literalPrefix;
+}
+
+/**
+ * Unescapes a part of a regular expression that only matches literal
+ * characters, or returns null if it contains other syntax.
+ */
+function unescapeLiteral(source: string): string | null {
+  let literal = '';
+  for (let index = 0; index < source.length; index++) {
+    const char = source[index];
+    if (char === '\\') {
+      const escaped = source[++index];
+      if (escaped === undefined || /[A-Za-z0-9]/.test(escaped)) {
+        return null;
+      }
+      literal += escaped;
+    } else if ('.*+?()[]{}|^$'.includes(char)) {
+      return null;
+    } else {
+      literal += char;
+    }
+  }
+
+  return literal;
+}
@@ -0,0 +1,44 @@
+import { getAliasImportSpecifier } from './get-alias-import-specifier';
+import type { AliasPaths } from '../types/alias-provider';
+
+describe('getAliasImportSpecifier', () => {
+  const aliasPaths: AliasPaths = {
+    '@app/config': ['apps/shop/src/config.ts'],
+    '@app/*': ['apps/shop/src/app/*'],
+    '@ui/*': ['apps/shop/src/app/ui/*'],
+  };
+
+  it('should find aliases of the file itself', () => {
+    expect(getAliasImportSpecifier(aliasPaths, 'apps/shop/src/config.ts')).toBe(
+      '@app/config',
+    );
+  });
+
+  it('should find alias patterns covering the file', () => {
+    expect(
+      getAliasImportSpecifier(aliasPaths, 'apps/shop/src/app/feature/page.ts'),
+    ).toBe('@app/feature/page');
+  });
+
+  it('should prefer the alias whose path is closest to the file', () => {
+    expect(
+      getAliasImportSpecifier(aliasPaths, 'apps/shop/src/app/ui/button.tsx'),
+    ).toBe('@ui/button');
+  });
+
+  it('should name the file in the extension style', () => {
+    expect(
+      getAliasImportSpecifier(
+        aliasPaths,
+        'apps/shop/src/app/feature/page.ts',
+        'js',
+      ),
+    ).toBe('@app/feature/page.js');
+  });
+
+  it('should return null when no alias covers the file', () => {
+    expect(
+      getAliasImportSpecifier(aliasPaths, 'apps/shop/src/main.ts'),
+    ).toBeNull();
+  });
+});
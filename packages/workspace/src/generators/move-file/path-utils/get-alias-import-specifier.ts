@@ -0,0 +1,73 @@
+import { applyImportExtensionStyle } from './apply-import-extension-style';
+import { isImportOfFile } from './is-import-of-file';
+import { removeSourceFileExtension } from './remove-source-file-extension';
+import type { AliasPaths } from '../types/alias-provider';
+import type { ImportExtensionStyle } from '../types/import-extension-style';
+
+/**
+ * Finds an alias import of a file: an alias for the file itself, or an alias
+ * pattern whose path covers it (`@app/shared/util` for
+ * `apps/shop/src/app/shared/util.ts` with `"@app/*": ["apps/shop/src/app/*"]`).
+ * Of several aliases the one whose path is closest to the file wins.
+ *
+ * @param aliasPaths - The aliases that apply to the importing file
+ * @param filePath - Path of the imported file
+ * @param extensionStyle - How the specifier names the file where the pattern leaves the extension to it
+ * @returns The alias import specifier, or null if no alias resolves to the file
+ */
+export function getAliasImportSpecifier(
+  aliasPaths: AliasPaths,
+  filePath: string,
+  extensionStyle: ImportExtensionStyle = 'none',
+): string | null {
+  let bestSpecifier: string | null = null;
+  let bestPrefixLength = -1;
+
+  for (const [alias, targets] of Object.entries(aliasPaths)) {
+    const aliasWildcards = alias.split('*').length - 1;
+    if (aliasWildcards > 1 || alias.startsWith('*')) {
+      continue;
+    }
+
+    for (const target of targets) {
+      if (aliasWildcards === 0) {
+        if (
+          isImportOfFile(target, filePath) &&
+          target.length > bestPrefixLength
+        ) {
+          bestSpecifier = alias;
+          bestPrefixLength = target.length;
+        }
+        continue;
+      }
+
+      const [prefix, suffix, ...rest] = target.split('*');
+      if (
+        suffix === undefined ||
+        rest.length > 0 ||
+        !filePath.startsWith(prefix) ||
+        prefix.length <= bestPrefixLength
+      ) {
+        continue;
+      }
+
+      // Try the file name in the extension style, without, and with its extension
+      const remainder = filePath.slice(prefix.length);
+      const match = [
+        applyImportExtensionStyle(remainder, extensionStyle),
+        removeSourceFileExtension(remainder),
+        remainder,
+      ].find(
+        (candidate) =>
+          candidate !== '' &&
+          isImportOfFile(`${prefix}${candidate}${suffix}`, filePath),
+      );
+      if (match) {
+        bestSpecifier = alias.replace('*', match);
+        bestPrefixLength = prefix.length;
+      }
+    }
+  }
+
+  return bestSpecifier;
+}
@@ -0,0 +1,37 @@
+import { getBaseUrlImportSpecifier } from './get-base-url-import-specifier';
+
+describe('getBaseUrlImportSpecifier', () => {
+  it('should calculate the path below the baseUrl without extension', () => {
+    expect(
+      getBaseUrlImportSpecifier(
+        'apps/shop/src',
+        'apps/shop/src/app/shared/util.ts',
+      ),
+    ).toBe('app/shared/util');
+  });
+
+  it('should keep the extension style', () => {
+    expect(
+      getBaseUrlImportSpecifier(
+        'apps/shop/src',
+        'apps/shop/src/app/shared/util.ts',
+        'js',
+      ),
+    ).toBe('app/shared/util.js');
+  });
+
+  it('should support a baseUrl at the workspace root', () => {
+    expect(getBaseUrlImportSpecifier('.', 'libs/ui/src/button.tsx')).toBe(
+      'libs/ui/src/button',
+    );
+  });
+
+  it('should return null for files outside the baseUrl directory', () => {
+    expect(
+      getBaseUrlImportSpecifier('apps/shop/src', 'libs/ui/src/button.ts'),
+    ).toBeNull();
+    expect(
+      getBaseUrlImportSpecifier('apps/shop/src', 'apps/shop/src-old/util.ts'),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,29 @@
+import { normalizePath } from '@nx/devkit';
+import { posix as path } from 'node:path';
+import { applyImportExtensionStyle } from './apply-import-extension-style';
+import type { ImportExtensionStyle } from '../types/import-extension-style';
+
+/**
+ * Calculates the non-relative import specifier of a file below a `baseUrl`
+ * directory (e.g., 'app/shared/util' for 'apps/shop/src/app/shared/util.ts'
+ * with the baseUrl 'apps/shop/src').
+ *
+ * @param baseUrl - Directory that non-relative imports resolve against
+ * @param toFilePath - The target file path (what is being imported)
+ * @param extensionStyle - How the specifier names the target file
+ * @returns The import specifier, or null if the file is outside the baseUrl directory
+ */
+export function getBaseUrlImportSpecifier(
+  baseUrl: string,
+  toFilePath: string,
+  extensionStyle: ImportExtensionStyle = 'none',
+): string | null {
+  const relativePath = normalizePath(
+    path.relative(path.join('/', baseUrl), path.join('/', toFilePath)),
+  );
+  if (relativePath === '' || relativePath.startsWith('..')) {
+    return null;
+  }
+
+  return applyImportExtensionStyle(relativePath, extensionStyle);
+}
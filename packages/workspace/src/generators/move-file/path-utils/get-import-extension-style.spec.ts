@@ -0,0 +1,25 @@
+import { getImportExtensionStyle } from './get-import-extension-style';
+
+describe('getImportExtensionStyle', () => {
+  it('should return none for extensionless specifiers', () => {
+    expect(getImportExtensionStyle('./lib/helper')).toBe('none');
+  });
+
+  it('should return none for other extensions', () => {
+    expect(getImportExtensionStyle('./lib/helper.service')).toBe('none');
+  });
+
+  it.each(['.js', '.jsx', '.mjs', '.cjs'])(
+    'should return js for %s specifiers',
+    (extension) => {
+      expect(getImportExtensionStyle(`./lib/helper${extension}`)).toBe('js');
+    },
+  );
+
+  it.each(['.ts', '.tsx', '.mts', '.cts'])(
+    'should return ts for %s specifiers',
+    (extension) => {
+      expect(getImportExtensionStyle(`./lib/helper${extension}`)).toBe('ts');
+    },
+  );
+});
@@ -0,0 +1,36 @@
+import { posix as path } from 'node:path';
+import type { ImportExtensionStyle } from '../types/import-extension-style';
+
+/**
+ * Extensions of emitted JavaScript files that imports may name.
+ */
+const emittedExtensions = ['.js', '.jsx', '.mjs', '.cjs'];
+
+/**
+ * Extensions of TypeScript source files that imports may name with
+ * `allowImportingTsExtensions`.
+ */
+const typeScriptExtensions = ['.ts', '.tsx', '.mts', '.cts'];
+
+/**
+ * Gets the extension style of an import specifier, so that a rewritten
+ * specifier can keep it.
+ *
+ * @param specifier - The import specifier (e.g., './utils.js')
+ * @returns `js` for emitted file extensions, `ts` for TypeScript extensions,
+ *   and `none` otherwise
+ */
+export function getImportExtensionStyle(
+  specifier: string,
+): ImportExtensionStyle {
+  const extension = path.extname(specifier);
+
+  if (emittedExtensions.includes(extension)) {
+    return 'js';
+  }
+  if (typeScriptExtensions.includes(extension)) {
+    return 'ts';
+  }
+
+  return 'none';
+}
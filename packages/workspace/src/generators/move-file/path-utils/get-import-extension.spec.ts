@@ -0,0 +1,24 @@
+import { getImportExtension } from './get-import-extension';
+
+describe('getImportExtension', () => {
+  it('should return no extension for the none style', () => {
+    expect(getImportExtension('.ts', 'none')).toBe('');
+  });
+
+  it('should return the emitted extension for the js style', () => {
+    expect(getImportExtension('.ts', 'js')).toBe('.js');
+    expect(getImportExtension('.tsx', 'js')).toBe('.js');
+    expect(getImportExtension('.mts', 'js')).toBe('.mjs');
+    expect(getImportExtension('.cts', 'js')).toBe('.cjs');
+    expect(getImportExtension('.jsx', 'js')).toBe('.jsx');
+  });
+
+  it('should return the source extension for the ts style', () => {
+    expect(getImportExtension('.ts', 'ts')).toBe('.ts');
+    expect(getImportExtension('.mts', 'ts')).toBe('.mts');
+  });
+
+  it('should keep unknown extensions for the js style', () => {
+    expect(getImportExtension('.vue', 'js')).toBe('.vue');
+  });
+});
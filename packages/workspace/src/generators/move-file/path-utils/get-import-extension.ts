@@ -0,0 +1,25 @@
+import { importExtensionsBySourceExtension } from '../constants/file-extensions';
+import type { ImportExtensionStyle } from '../types/import-extension-style';
+
+/**
+ * Gets the extension that an import in the given extension style names a
+ * file by.
+ *
+ * @param fileExtension - Extension of the imported file (e.g., '.mts')
+ * @param extensionStyle - How the import names the file
+ * @returns The extension for the import specifier (e.g., '.mjs'), or an empty
+ *   string for extensionless imports
+ */
+export function getImportExtension(
+  fileExtension: string,
+  extensionStyle: ImportExtensionStyle,
+): string {
+  if (extensionStyle === 'none') {
+    return '';
+  }
+  if (extensionStyle === 'ts') {
+    return fileExtension;
+  }
+
+  return importExtensionsBySourceExtension[fileExtension]?.[0] ?? fileExtension;
+}
@@ -0,0 +1,54 @@
+import { getPackageImportSpecifier } from './get-package-import-specifier';
+import type { PackageImports } from '../types/package-imports';
+
+describe('getPackageImportSpecifier', () => {
+  const packageImports: PackageImports = {
+    root: 'packages/api',
+    imports: {
+      '#config': './src/config.ts',
+      '#db/*': './src/db/*.ts',
+      '#utils/*': './src/utils/*',
+      '#lodash': 'lodash',
+    },
+  };
+
+  it('should find exact entries', () => {
+    expect(
+      getPackageImportSpecifier(packageImports, 'packages/api/src/config.ts'),
+    ).toBe('#config');
+  });
+
+  it('should find patterns covering the file', () => {
+    expect(
+      getPackageImportSpecifier(
+        packageImports,
+        'packages/api/src/db/models/user.ts',
+      ),
+    ).toBe('#db/models/user');
+  });
+
+  it('should leave the extension to the specifier when the pattern does', () => {
+    expect(
+      getPackageImportSpecifier(
+        packageImports,
+        'packages/api/src/utils/format.ts',
+      ),
+    ).toBe('#utils/format');
+    expect(
+      getPackageImportSpecifier(
+        packageImports,
+        'packages/api/src/utils/format.ts',
+        'js',
+      ),
+    ).toBe('#utils/format.js');
+  });
+
+  it('should return null when no entry resolves to the file', () => {
+    expect(
+      getPackageImportSpecifier(packageImports, 'packages/api/src/main.ts'),
+    ).toBeNull();
+    expect(
+      getPackageImportSpecifier(packageImports, 'packages/web/src/db/user.ts'),
+    ).toBeNull();
+  });
+});
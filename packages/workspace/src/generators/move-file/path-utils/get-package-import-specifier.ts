@@ -0,0 +1,75 @@
+import { normalizePath } from '@nx/devkit';
+import { posix as path } from 'node:path';
+import { collectExportTargets } from './collect-export-targets';
+import { applyImportExtensionStyle } from './apply-import-extension-style';
+import { isImportOfFile } from './is-import-of-file';
+import { removeSourceFileExtension } from './remove-source-file-extension';
+import type { ImportExtensionStyle } from '../types/import-extension-style';
+import type { PackageImports } from '../types/package-imports';
+
+/**
+ * Finds a `#` subpath import that resolves to a file through the `imports`
+ * field of a package.json: an exact entry for the file, or a pattern whose
+ * target covers it (`#db/client` for `src/db/client.ts` with
+ * `"#db/*": "./src/db/*.ts"`).
+ *
+ * @param packageImports - The subpath imports of the importing package
+ * @param filePath - Path of the imported file
+ * @param extensionStyle - How the specifier names the file where the pattern leaves the extension to it
+ * @returns The subpath import specifier, or null if no entry resolves to the file
+ */
+export function getPackageImportSpecifier(
+  packageImports: PackageImports,
+  filePath: string,
+  extensionStyle: ImportExtensionStyle = 'none',
+): string | null {
+  const { root, imports } = packageImports;
+
+  for (const [key, value] of Object.entries(imports)) {
+    const keyWildcards = key.split('*').length - 1;
+    if (!key.startsWith('#') || keyWildcards > 1) {
+      continue;
+    }
+
+    for (const target of collectExportTargets(value)) {
+      if (!target.startsWith('./')) {
+        continue;
+      }
+
+      const targetPath = normalizePath(path.join(root, target)).replace(
+        /\.d(\.[cm]?ts)$/,
+        '$1',
+      );
+      if (keyWildcards === 0) {
+        if (isImportOfFile(targetPath, filePath)) {
+          return key;
+        }
+        continue;
+      }
+
+      const [prefix, suffix, ...rest] = targetPath.split('*');
+      if (
+        suffix === undefined ||
+        rest.length > 0 ||
+        !filePath.startsWith(prefix)
+      ) {
+        continue;
+      }
+
+      // Try the file name in the extension style, without, and with its extension
+      const remainder = filePath.slice(prefix.length);
+      const match = [
+        applyImportExtensionStyle(remainder, extensionStyle),
+        removeSourceFileExtension(remainder),
+        remainder,
+      ].find((candidate) =>
+        isImportOfFile(`${prefix}${candidate}${suffix}`, filePath),
+      );
+      if (match) {
+        return key.replace('*', match);
+      }
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,16 @@
+import { getPrefixAliasPaths } from './get-prefix-alias-paths';
+
+describe('getPrefixAliasPaths', () => {
+  it('should map the alias and the imports below it', () => {
+    expect(getPrefixAliasPaths('@ui', 'apps/shop/src/ui')).toEqual({
+      '@ui': ['apps/shop/src/ui'],
+      '@ui/*': ['apps/shop/src/ui/*'],
+    });
+  });
+
+  it('should map an alias ending with $ exactly', () => {
+    expect(getPrefixAliasPaths('@config$', 'apps/shop/src/config.ts')).toEqual({
+      '@config': ['apps/shop/src/config.ts'],
+    });
+  });
+});
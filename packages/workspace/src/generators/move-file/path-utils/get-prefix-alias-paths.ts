@@ -0,0 +1,26 @@
+import type { AliasPaths } from '../types/alias-provider';
+
+/**
+ * Gets the aliases in the shape of tsconfig `paths` of a prefix alias, as
+ * bundlers and `babel-plugin-module-resolver` declare them: the alias
+ * (`@ui`) stands for a path and imports below it (`@ui/button`) for the
+ * paths below that one.
+ *
+ * @param alias - The prefix alias, with a trailing `$` for an exact alias
+ * @param targetPath - The path the alias stands for
+ * @returns The alias and the pattern of the imports below it
+ */
+export function getPrefixAliasPaths(
+  alias: string,
+  targetPath: string,
+): AliasPaths {
+  // webpack matches aliases ending with `$` exactly
+  if (alias.endsWith('$')) {
+    return { [alias.slice(0, -1)]: [targetPath] };
+  }
+
+  return {
+    [alias]: [targetPath],
+    [`${alias.replace(/\/$/, '')}/*`]: [`${targetPath}/*`],
+  };
+}
@@ -104,4 +104,37 @@ describe('getRelativeImportSpecifier', () => {
     );
     expect(result).toBe('./b.spec');
   });
+
+  it('should use the emitted extension for the js style', () => {
+    expect(
+      getRelativeImportSpecifier(
+        'packages/lib1/src/lib/a.ts',
+        'packages/lib1/src/lib/b.ts',
+        'js',
+      ),
+    ).toBe('./b.js');
+    expect(
+      getRelativeImportSpecifier(
+        'packages/lib1/src/lib/a.mts',
+        'packages/lib1/src/lib/b.mts',
+        'js',
+      ),
+    ).toBe('./b.mjs');
+    expect(
+      getRelativeImportSpecifier(
+        'packages/lib1/src/lib/a.cts',
+        'packages/lib1/src/lib/b.cts',
+        'js',
+      ),
+    ).toBe('./b.cjs');
+  });
+
+  it('should keep the source extension for the ts style', () => {
+    const result = getRelativeImportSpecifier(
+      'packages/lib1/src/lib/a.ts',
+      'packages/lib1/src/lib/utils/b.ts',
+      'ts',
+    );
+    expect(result).toBe('./utils/b.ts');
+  });
 });
@@ -1,19 +1,27 @@
 import { normalizePath } from '@nx/devkit';
 import { posix as path } from 'node:path';
 import { toAbsoluteWorkspacePath } from './to-absolute-workspace-path';
-import { stripFileExtension } from './strip-file-extension';
+import { applyImportExtensionStyle } from './apply-import-extension-style';
+import type { ImportExtensionStyle } from '../types/import-extension-style';
 
 /**
  * Calculates the relative import specifier from one file to another.
- * The result is normalized and has the file extension stripped (except for ESM files).
+ * The result is normalized and, by default, has the file extension stripped
+ * (except for ESM files).
+ *
+ * With the `js` extension style the specifier names the emitted file
+ * (`./utils.js` for `utils.ts`, `./utils.mjs` for `utils.mts`), and with the
+ * `ts` style it keeps the extension of the target file.
  *
  * @param fromFilePath - The source file path (where the import is)
  * @param toFilePath - The target file path (what is being imported)
+ * @param extensionStyle - How the specifier names the target file
  * @returns The relative import specifier (e.g., './lib/utils', '../shared')
  */
 export function getRelativeImportSpecifier(
   fromFilePath: string,
   toFilePath: string,
+  extensionStyle: ImportExtensionStyle = 'none',
 ): string {
   const normalizedFrom = normalizePath(fromFilePath);
   const normalizedTo = normalizePath(toFilePath);
@@ -25,6 +33,5 @@ export function getRelativeImportSpecifier(
     relativePath = `./${relativePath}`;
   }
 
-  relativePath = normalizePath(relativePath);
-  return stripFileExtension(relativePath);
+  return applyImportExtensionStyle(normalizePath(relativePath), extensionStyle);
 }
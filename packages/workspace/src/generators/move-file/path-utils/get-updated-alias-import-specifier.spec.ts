@@ -0,0 +1,69 @@
+import { getUpdatedAliasImportSpecifier } from './get-updated-alias-import-specifier';
+import type { ProjectAliases } from '../types/alias-provider';
+
+describe('getUpdatedAliasImportSpecifier', () => {
+  const aliases: ProjectAliases = [
+    { '@app/*': ['apps/shop/src/app/*'] },
+    { '~': ['apps/shop/src'], '~/*': ['apps/shop/src/*'] },
+  ];
+
+  it('should keep the alias the old specifier used', () => {
+    expect(
+      getUpdatedAliasImportSpecifier(
+        '~/app/shared/util',
+        'apps/shop/src/app/core/util.ts',
+        aliases,
+      ),
+    ).toBe('~/app/core/util');
+  });
+
+  it('should prefer the alias the old specifier used over closer aliases', () => {
+    expect(
+      getUpdatedAliasImportSpecifier(
+        '@app/shared/util',
+        'apps/shop/src/app/core/util.ts',
+        [
+          {
+            '@app/*': ['apps/shop/src/app/*'],
+            '@core/*': ['apps/shop/src/app/core/*'],
+          },
+        ],
+      ),
+    ).toBe('@app/core/util');
+  });
+
+  it('should fall back to other aliases of the same provider', () => {
+    expect(
+      getUpdatedAliasImportSpecifier(
+        '@app/shared/util',
+        'apps/shop/src/lib/util.ts',
+        [
+          {
+            '@app/*': ['apps/shop/src/app/*'],
+            '@lib/*': ['apps/shop/src/lib/*'],
+          },
+        ],
+      ),
+    ).toBe('@lib/util');
+  });
+
+  it('should not use aliases of other providers', () => {
+    expect(
+      getUpdatedAliasImportSpecifier(
+        '@app/shared/util',
+        'apps/shop/src/lib/util.ts',
+        aliases,
+      ),
+    ).toBeNull();
+  });
+
+  it('should return null for specifiers that are not alias imports', () => {
+    expect(
+      getUpdatedAliasImportSpecifier(
+        'lodash',
+        'apps/shop/src/app/core/util.ts',
+        aliases,
+      ),
+    ).toBeNull();
+  });
+});
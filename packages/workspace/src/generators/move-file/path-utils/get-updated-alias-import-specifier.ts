@@ -0,0 +1,43 @@
+import { findImportAlias } from './find-import-alias';
+import { getAliasImportSpecifier } from './get-alias-import-specifier';
+import type { ProjectAliases } from '../types/alias-provider';
+import type { ImportExtensionStyle } from '../types/import-extension-style';
+
+/**
+ * Calculates the alias import that replaces an alias import of a moved file.
+ *
+ * Only aliases of the provider the old specifier resolves through qualify,
+ * since another provider's aliases may not resolve in the tool that reads
+ * the import (a Jest alias in a file that Vite bundles). The alias the old
+ * specifier used wins when it covers the new location.
+ *
+ * @param oldSpecifier - The specifier the file was imported by
+ * @param targetFilePath - The new path of the imported file
+ * @param aliases - Import aliases of the importing project
+ * @param extensionStyle - How the specifier names the file where the pattern leaves the extension to it
+ * @returns The alias import specifier, or null if the old specifier is not
+ *   an alias import or no alias of its provider covers the new location
+ */
+export function getUpdatedAliasImportSpecifier(
+  oldSpecifier: string,
+  targetFilePath: string,
+  aliases: ProjectAliases,
+  extensionStyle: ImportExtensionStyle = 'none',
+): string | null {
+  for (const aliasPaths of aliases) {
+    const alias = findImportAlias(oldSpecifier, aliasPaths);
+    if (alias === null) {
+      continue;
+    }
+
+    return (
+      getAliasImportSpecifier(
+        { [alias]: aliasPaths[alias] },
+        targetFilePath,
+        extensionStyle,
+      ) ?? getAliasImportSpecifier(aliasPaths, targetFilePath, extensionStyle)
+    );
+  }
+
+  return null;
+}
@@ -0,0 +1,135 @@
+import { getUpdatedImportSpecifier } from './get-updated-import-specifier';
+import type { PackageImports } from '../types/package-imports';
+
+describe('getUpdatedImportSpecifier', () => {
+  const importerPath = 'apps/shop/src/app/feature/page.ts';
+  const targetFilePath = 'apps/shop/src/app/core/util.ts';
+
+  it('should keep relative imports relative', () => {
+    expect(
+      getUpdatedImportSpecifier(
+        importerPath,
+        '../shared/util',
+        targetFilePath,
+        'apps/shop/src',
+      ),
+    ).toBe('../core/util');
+  });
+
+  it('should keep baseUrl imports non-relative', () => {
+    expect(
+      getUpdatedImportSpecifier(
+        importerPath,
+        'app/shared/util',
+        targetFilePath,
+        'apps/shop/src',
+      ),
+    ).toBe('app/core/util');
+  });
+
+  it('should keep the extension style of the import', () => {
+    expect(
+      getUpdatedImportSpecifier(
+        importerPath,
+        'app/shared/util.js',
+        targetFilePath,
+        'apps/shop/src',
+      ),
+    ).toBe('app/core/util.js');
+    expect(
+      getUpdatedImportSpecifier(
+        importerPath,
+        '../shared/util.js',
+        targetFilePath,
+      ),
+    ).toBe('../core/util.js');
+  });
+
+  it('should fall back to a relative import outside the baseUrl directory', () => {
+    expect(
+      getUpdatedImportSpecifier(
+        importerPath,
+        'app/shared/util',
+        'apps/shop/scripts/util.ts',
+        'apps/shop/src',
+      ),
+    ).toBe('../../../scripts/util');
+  });
+
+  describe('subpath imports', () => {
+    const packageImports: PackageImports = {
+      root: 'apps/shop',
+      imports: { '#app/*': './src/app/*.ts' },
+    };
+
+    it('should keep subpath imports covered by a pattern', () => {
+      expect(
+        getUpdatedImportSpecifier(
+          importerPath,
+          '#app/shared/util',
+          targetFilePath,
+          undefined,
+          packageImports,
+        ),
+      ).toBe('#app/core/util');
+    });
+
+    it('should fall back to a relative import when no entry covers the target', () => {
+      expect(
+        getUpdatedImportSpecifier(
+          importerPath,
+          '#app/shared/util',
+          'apps/shop/scripts/util.ts',
+          'apps/shop/src',
+          packageImports,
+        ),
+      ).toBe('../../../scripts/util');
+    });
+  });
+
+  describe('aliases', () => {
+    const aliases = [{ '@app/*': ['apps/shop/src/app/*'] }];
+
+    it('should keep alias imports covered by an alias', () => {
+      expect(
+        getUpdatedImportSpecifier(
+          importerPath,
+          '@app/shared/util',
+          targetFilePath,
+          undefined,
+          undefined,
+          aliases,
+        ),
+      ).toBe('@app/core/util');
+    });
+
+    it('should fall back to a relative import when no alias covers the target', () => {
+      expect(
+        getUpdatedImportSpecifier(
+          importerPath,
+          '@app/shared/util',
+          'apps/shop/scripts/util.ts',
+          undefined,
+          undefined,
+          aliases,
+        ),
+      ).toBe('../../../scripts/util');
+    });
+
+    it('should only use aliases of the provider the import resolves through', () => {
+      expect(
+        getUpdatedImportSpecifier(
+          importerPath,
+          '~/app/shared/util',
+          targetFilePath,
+          undefined,
+          undefined,
+          [
+            { '@app/*': ['apps/shop/src/app/core/*'] },
+            { '~/*': ['apps/shop/src/*'] },
+          ],
+        ),
+      ).toBe('~/app/core/util');
+    });
+  });
+});
@@ -0,0 +1,68 @@
+import { findImportAlias } from './find-import-alias';
+import { getBaseUrlImportSpecifier } from './get-base-url-import-specifier';
+import { getImportExtensionStyle } from './get-import-extension-style';
+import { getPackageImportSpecifier } from './get-package-import-specifier';
+import { getRelativeImportSpecifier } from './get-relative-import-specifier';
+import { getUpdatedAliasImportSpecifier } from './get-updated-alias-import-specifier';
+import type { ProjectAliases } from '../types/alias-provider';
+import type { PackageImports } from '../types/package-imports';
+
+/**
+ * Calculates the specifier that replaces an import of a moved file, in the
+ * style of the import it replaces: `#` subpath imports stay subpath imports
+ * while an entry of the package's `imports` covers the target, alias imports
+ * stay alias imports while an alias of the same provider covers the target
+ * (see getUpdatedAliasImportSpecifier), baseUrl imports stay
+ * non-relative while the target is below the baseUrl directory, other
+ * imports become relative, and the extension style (`./utils.js`) is kept.
+ *
+ * @param importerPath - Path of the importing file
+ * @param oldSpecifier - The specifier the file was imported by
+ * @param targetFilePath - The new path of the imported file
+ * @param baseUrl - Directory that non-relative imports of the importer resolve against, if any
+ * @param packageImports - Subpath imports of the importing package, if any
+ * @param aliases - Import aliases of the importing project, if any
+ * @returns The new import specifier
+ */
+export function getUpdatedImportSpecifier(
+  importerPath: string,
+  oldSpecifier: string,
+  targetFilePath: string,
+  baseUrl?: string,
+  packageImports?: PackageImports,
+  aliases?: ProjectAliases,
+): string {
+  const extensionStyle = getImportExtensionStyle(oldSpecifier);
+  let nonRelativeSpecifier: string | null = null;
+  if (oldSpecifier.startsWith('#')) {
+    nonRelativeSpecifier = packageImports
+      ? getPackageImportSpecifier(
+          packageImports,
+          targetFilePath,
+          extensionStyle,
+        )
+      : null;
+  } else if (
+    aliases?.some(
+      (aliasPaths) => findImportAlias(oldSpecifier, aliasPaths) !== null,
+    )
+  ) {
+    nonRelativeSpecifier = getUpdatedAliasImportSpecifier(
+      oldSpecifier,
+      targetFilePath,
+      aliases,
+      extensionStyle,
+    );
+  } else if (baseUrl !== undefined && !oldSpecifier.startsWith('.')) {
+    nonRelativeSpecifier = getBaseUrlImportSpecifier(
+      baseUrl,
+      targetFilePath,
+      extensionStyle,
+    );
+  }
+
+  return (
+    nonRelativeSpecifier ??
+    getRelativeImportSpecifier(importerPath, targetFilePath, extensionStyle)
+  );
+}
@@ -0,0 +1,51 @@
+import { isImportOfFile } from './is-import-of-file';
+
+describe('isImportOfFile', () => {
+  const filePath = 'packages/lib1/src/lib/helper.ts';
+
+  it('should match an extensionless import', () => {
+    expect(isImportOfFile('packages/lib1/src/lib/helper', filePath)).toBe(true);
+  });
+
+  it('should match an import with the source extension', () => {
+    expect(isImportOfFile('packages/lib1/src/lib/helper.ts', filePath)).toBe(
+      true,
+    );
+  });
+
+  it('should match an import with the emitted extension', () => {
+    expect(isImportOfFile('packages/lib1/src/lib/helper.js', filePath)).toBe(
+      true,
+    );
+  });
+
+  it('should match .mjs and .cjs imports of .mts and .cts files', () => {
+    expect(
+      isImportOfFile(
+        'packages/lib1/src/lib/helper.mjs',
+        'packages/lib1/src/lib/helper.mts',
+      ),
+    ).toBe(true);
+    expect(
+      isImportOfFile(
+        'packages/lib1/src/lib/helper.cjs',
+        'packages/lib1/src/lib/helper.cts',
+      ),
+    ).toBe(true);
+  });
+
+  it('should not match an emitted extension of another source extension', () => {
+    expect(isImportOfFile('packages/lib1/src/lib/helper.mjs', filePath)).toBe(
+      false,
+    );
+  });
+
+  it('should not match other files', () => {
+    expect(isImportOfFile('packages/lib1/src/lib/helpers.js', filePath)).toBe(
+      false,
+    );
+    expect(
+      isImportOfFile('packages/lib1/src/lib/helper.service', filePath),
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,46 @@
+import { normalizePath } from '@nx/devkit';
+import { posix as path } from 'node:path';
+import { importExtensionsBySourceExtension } from '../constants/file-extensions';
+
+/**
+ * Checks whether a relative import, resolved against the directory of the
+ * importing file, refers to a source file.
+ *
+ * The import may name the file exactly (`./utils.ts`), omit the extension
+ * (`./utils`), or name the emitted file (`./utils.js` for `utils.ts`,
+ * `./utils.mjs` for `utils.mts`, `./utils.cjs` for `utils.cts`).
+ *
+ * @param resolvedImportPath - Import specifier joined with the importer's directory
+ * @param filePath - Path of the source file
+ * @returns True if the import refers to the file
+ */
+export function isImportOfFile(
+  resolvedImportPath: string,
+  filePath: string,
+): boolean {
+  const importPath = normalizePath(resolvedImportPath);
+  const normalizedFilePath = normalizePath(filePath);
+  if (importPath === normalizedFilePath) {
+    return true;
+  }
+
+  const fileExtension = path.extname(normalizedFilePath);
+  const importExtensions = importExtensionsBySourceExtension[fileExtension];
+  if (!importExtensions) {
+    return false;
+  }
+
+  const fileWithoutExtension = normalizedFilePath.slice(
+    0,
+    -fileExtension.length,
+  );
+  if (importPath === fileWithoutExtension) {
+    return true;
+  }
+
+  const importExtension = path.extname(importPath);
+  return (
+    importExtensions.includes(importExtension) &&
+    importPath.slice(0, -importExtension.length) === fileWithoutExtension
+  );
+}
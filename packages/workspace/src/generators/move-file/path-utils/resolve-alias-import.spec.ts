@@ -0,0 +1,34 @@
+import { resolveAliasImport } from './resolve-alias-import';
+import type { AliasPaths } from '../types/alias-provider';
+
+describe('resolveAliasImport', () => {
+  const aliasPaths: AliasPaths = {
+    '@app/config': ['apps/shop/src/config.ts'],
+    '@app/*': ['apps/shop/src/app/*'],
+    '@app/shared/*': ['libs/shared/src/*', 'libs/shared/legacy/*'],
+  };
+
+  it('should resolve exact aliases', () => {
+    expect(resolveAliasImport('@app/config', aliasPaths)).toEqual([
+      'apps/shop/src/config.ts',
+    ]);
+  });
+
+  it('should resolve alias patterns', () => {
+    expect(resolveAliasImport('@app/feature/page', aliasPaths)).toEqual([
+      'apps/shop/src/app/feature/page',
+    ]);
+  });
+
+  it('should prefer the pattern with the longest prefix and keep every path', () => {
+    expect(resolveAliasImport('@app/shared/util', aliasPaths)).toEqual([
+      'libs/shared/src/util',
+      'libs/shared/legacy/util',
+    ]);
+  });
+
+  it('should return nothing when no alias matches', () => {
+    expect(resolveAliasImport('@other/util', aliasPaths)).toEqual([]);
+    expect(resolveAliasImport('@app/', aliasPaths)).toEqual([]);
+  });
+});
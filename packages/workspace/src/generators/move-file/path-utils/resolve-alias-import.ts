@@ -0,0 +1,31 @@
+import { findImportAlias } from './find-import-alias';
+import type { AliasPaths } from '../types/alias-provider';
+
+/**
+ * Resolves an import specifier through import aliases, like TypeScript
+ * resolves `paths`: an exact alias wins, otherwise the pattern with the
+ * longest prefix before its `*`.
+ *
+ * @param specifier - The import specifier
+ * @param aliasPaths - The aliases that apply to the importing file
+ * @returns Workspace paths the specifier may resolve to, empty if no alias matches
+ */
+export function resolveAliasImport(
+  specifier: string,
+  aliasPaths: AliasPaths,
+): string[] {
+  const alias = findImportAlias(specifier, aliasPaths);
+  if (alias === null) {
+    return [];
+  }
+  if (!alias.includes('*')) {
+    return aliasPaths[alias];
+  }
+
+  const [prefix, suffix] = alias.split('*');
+  const match = specifier.slice(
+    prefix.length,
+    specifier.length - suffix.length,
+  );
+  return aliasPaths[alias].map((target) => target.split('*').join(match));
+}
@@ -0,0 +1,95 @@
+import { resolveImportSpecifier } from './resolve-import-specifier';
+import type { PackageImports } from '../types/package-imports';
+
+describe('resolveImportSpecifier', () => {
+  const importerPath = 'apps/shop/src/app/feature/page.ts';
+
+  it('should resolve relative specifiers against the importer directory', () => {
+    expect(resolveImportSpecifier(importerPath, '../shared/util')).toEqual([
+      'apps/shop/src/app/shared/util',
+    ]);
+  });
+
+  it('should resolve relative specifiers without using the baseUrl', () => {
+    expect(
+      resolveImportSpecifier(importerPath, './util', 'apps/shop/src'),
+    ).toEqual(['apps/shop/src/app/feature/util']);
+  });
+
+  it('should resolve non-relative specifiers against the baseUrl', () => {
+    expect(
+      resolveImportSpecifier(importerPath, 'app/shared/util', 'apps/shop/src'),
+    ).toEqual(['apps/shop/src/app/shared/util']);
+  });
+
+  it('should resolve against a baseUrl at the workspace root', () => {
+    expect(
+      resolveImportSpecifier(importerPath, 'libs/ui/src/button', '.'),
+    ).toEqual(['libs/ui/src/button']);
+  });
+
+  it('should return nothing for non-relative specifiers without a baseUrl', () => {
+    expect(resolveImportSpecifier(importerPath, 'app/shared/util')).toEqual([]);
+  });
+
+  it('should return nothing for absolute specifiers', () => {
+    expect(
+      resolveImportSpecifier(importerPath, '/app/shared/util', 'apps/shop/src'),
+    ).toEqual([]);
+  });
+
+  describe('subpath imports', () => {
+    const packageImports: PackageImports = {
+      root: 'apps/shop',
+      imports: { '#shared/*': './src/app/shared/*.ts' },
+    };
+
+    it('should resolve subpath imports through the package imports', () => {
+      expect(
+        resolveImportSpecifier(
+          importerPath,
+          '#shared/util',
+          'apps/shop/src',
+          packageImports,
+        ),
+      ).toEqual(['apps/shop/src/app/shared/util.ts']);
+    });
+
+    it('should return nothing for subpath imports without package imports', () => {
+      expect(
+        resolveImportSpecifier(importerPath, '#shared/util', 'apps/shop/src'),
+      ).toEqual([]);
+    });
+  });
+
+  describe('aliases', () => {
+    const aliases = [{ '@app/*': ['apps/shop/src/app/*'] }];
+
+    it('should resolve alias imports through the aliases', () => {
+      expect(
+        resolveImportSpecifier(
+          importerPath,
+          '@app/shared/util',
+          undefined,
+          undefined,
+          aliases,
+        ),
+      ).toEqual(['apps/shop/src/app/shared/util']);
+    });
+
+    it('should resolve against the baseUrl as well', () => {
+      expect(
+        resolveImportSpecifier(
+          importerPath,
+          '@app/shared/util',
+          'apps/shop/src',
+          undefined,
+          aliases,
+        ),
+      ).toEqual([
+        'apps/shop/src/app/shared/util',
+        'apps/shop/src/@app/shared/util',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,49 @@
+import { posix as path } from 'node:path';
+import { resolveAliasImport } from './resolve-alias-import';
+import { resolvePackageImport } from './resolve-package-import';
+import type { ProjectAliases } from '../types/alias-provider';
+import type { PackageImports } from '../types/package-imports';
+
+/**
+ * Resolves an import specifier to the workspace paths it may point to:
+ * relative specifiers against the directory of the importing file, `#`
+ * subpath imports through the `imports` of the importing package, and other
+ * specifiers through the import aliases of the importing project
+ * (`@app/shared/util` with `"@app/*": ["apps/shop/src/app/*"]`) and against
+ * its `baseUrl` (`app/shared/util` with `"baseUrl": "src"`).
+ *
+ * The results may still lack the file extension or point to a directory.
+ * Subpath imports resolve to one path per condition of their entry.
+ *
+ * @param importerPath - Path of the importing file
+ * @param specifier - The import specifier
+ * @param baseUrl - Directory that non-relative imports resolve against, if any
+ * @param packageImports - Subpath imports of the importing package, if any
+ * @param aliases - Import aliases of the importing project, if any
+ * @returns The resolved paths, empty if the specifier cannot be resolved
+ */
+export function resolveImportSpecifier(
+  importerPath: string,
+  specifier: string,
+  baseUrl?: string,
+  packageImports?: PackageImports,
+  aliases?: ProjectAliases,
+): string[] {
+  if (specifier.startsWith('.')) {
+    return [path.join(path.dirname(importerPath), specifier)];
+  }
+  if (specifier.startsWith('#')) {
+    return packageImports
+      ? resolvePackageImport(specifier, packageImports)
+      : [];
+  }
+
+  const aliasImports = (aliases ?? []).flatMap((aliasPaths) =>
+    resolveAliasImport(specifier, aliasPaths),
+  );
+  if (baseUrl === undefined || specifier.startsWith('/')) {
+    return aliasImports;
+  }
+
+  return [...aliasImports, path.join(baseUrl, specifier)];
+}
@@ -0,0 +1,49 @@
+import { resolvePackageImport } from './resolve-package-import';
+import type { PackageImports } from '../types/package-imports';
+
+describe('resolvePackageImport', () => {
+  const packageImports: PackageImports = {
+    root: 'packages/api',
+    imports: {
+      '#config': './src/config.ts',
+      '#db/*': './src/db/*.ts',
+      '#db/internal/*': './src/db/private/*.ts',
+      '#types/*': { types: './src/types/*.d.ts', default: './dist/types/*.js' },
+      '#lodash': 'lodash',
+    },
+  };
+
+  it('should resolve exact entries', () => {
+    expect(resolvePackageImport('#config', packageImports)).toEqual([
+      'packages/api/src/config.ts',
+    ]);
+  });
+
+  it('should resolve patterns', () => {
+    expect(resolvePackageImport('#db/client', packageImports)).toEqual([
+      'packages/api/src/db/client.ts',
+    ]);
+  });
+
+  it('should prefer the pattern with the longest prefix', () => {
+    expect(resolvePackageImport('#db/internal/pool', packageImports)).toEqual([
+      'packages/api/src/db/private/pool.ts',
+    ]);
+  });
+
+  it('should resolve every condition and map declaration files to sources', () => {
+    expect(resolvePackageImport('#types/user', packageImports)).toEqual([
+      'packages/api/src/types/user.ts',
+      'packages/api/dist/types/user.js',
+    ]);
+  });
+
+  it('should skip targets that are not relative paths', () => {
+    expect(resolvePackageImport('#lodash', packageImports)).toEqual([]);
+  });
+
+  it('should return nothing for unknown and non-subpath specifiers', () => {
+    expect(resolvePackageImport('#unknown', packageImports)).toEqual([]);
+    expect(resolvePackageImport('./config', packageImports)).toEqual([]);
+  });
+});
@@ -0,0 +1,64 @@
+import { normalizePath } from '@nx/devkit';
+import { posix as path } from 'node:path';
+import { collectExportTargets } from './collect-export-targets';
+import type { PackageImports } from '../types/package-imports';
+
+/**
+ * Resolves a `#` subpath import (`#db/client`) through the `imports` field of
+ * a package.json, like Node.js: an exact entry wins, otherwise the pattern
+ * with the longest prefix before its `*`.
+ *
+ * Every path of the matched entry's conditions is returned, so the caller can
+ * pick the one it is interested in. Declaration files (`./src/db/*.d.ts`)
+ * resolve to their source files, and targets that are not relative paths
+ * (imports of external packages) are skipped.
+ *
+ * @param specifier - The subpath import specifier
+ * @param packageImports - The subpath imports of the importing package
+ * @returns Workspace paths the specifier may resolve to
+ */
+export function resolvePackageImport(
+  specifier: string,
+  packageImports: PackageImports,
+): string[] {
+  const { root, imports } = packageImports;
+  if (!specifier.startsWith('#')) {
+    return [];
+  }
+
+  let targets: string[] = [];
+  if (!specifier.includes('*') && specifier in imports) {
+    targets = collectExportTargets(imports[specifier]);
+  } else {
+    const patternKey = Object.keys(imports)
+      .filter((key) => {
+        const [prefix, suffix, ...rest] = key.split('*');
+        return (
+          suffix !== undefined &&
+          rest.length === 0 &&
+          specifier.length >= key.length &&
+          specifier.startsWith(prefix) &&
+          specifier.endsWith(suffix)
+        );
+      })
+      .sort(
+        (a, b) => b.indexOf('*') - a.indexOf('*') || b.length - a.length,
+      )[0];
+    if (patternKey) {
+      const [prefix, suffix] = patternKey.split('*');
+      const match = specifier.slice(
+        prefix.length,
+        specifier.length - suffix.length,
+      );
+      targets = collectExportTargets(imports[patternKey]).map((target) =>
+        target.split('*').join(match),
+      );
+    }
+  }
+
+  return targets
+    .filter((target) => target.startsWith('./'))
+    .map((target) =>
+      normalizePath(path.join(root, target)).replace(/\.d(\.[cm]?ts)$/, '$1'),
+    );
+}
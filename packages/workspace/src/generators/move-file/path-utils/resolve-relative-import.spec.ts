@@ -0,0 +1,55 @@
+import { Tree } from '@nx/devkit';
+import { createTreeWithEmptyWorkspace } from '@nx/devkit/testing';
+import { resolveRelativeImport } from './resolve-relative-import';
+
+describe('resolveRelativeImport', () => {
+  let tree: Tree;
+  const treeExists = (t: Tree, filePath: string) => t.exists(filePath);
+
+  beforeEach(() => {
+    tree = createTreeWithEmptyWorkspace();
+    tree.write('libs/ui/src/lib/utils.ts', '');
+    tree.write('libs/ui/src/lib/button.module.css', '');
+    tree.write('libs/ui/src/lib/session/index.ts', '');
+  });
+
+  it('should resolve imports without an extension', () => {
+    expect(
+      resolveRelativeImport(tree, 'libs/ui/src/lib', './utils', treeExists),
+    ).toBe('libs/ui/src/lib/utils.ts');
+  });
+
+  it('should resolve ESM-style extensions to the source file', () => {
+    expect(
+      resolveRelativeImport(
+        tree,
+        'libs/ui/src/lib/session',
+        '../utils.js',
+        treeExists,
+      ),
+    ).toBe('libs/ui/src/lib/utils.ts');
+  });
+
+  it('should resolve non-source files by their exact name', () => {
+    expect(
+      resolveRelativeImport(
+        tree,
+        'libs/ui/src/lib',
+        './button.module.css',
+        treeExists,
+      ),
+    ).toBe('libs/ui/src/lib/button.module.css');
+  });
+
+  it('should resolve directory imports to their index file', () => {
+    expect(
+      resolveRelativeImport(tree, 'libs/ui/src/lib', './session', treeExists),
+    ).toBe('libs/ui/src/lib/session/index.ts');
+  });
+
+  it('should return null for missing files', () => {
+    expect(
+      resolveRelativeImport(tree, 'libs/ui/src/lib', './missing', treeExists),
+    ).toBeNull();
+  });
+});
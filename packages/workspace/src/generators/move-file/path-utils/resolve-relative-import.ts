@@ -0,0 +1,40 @@
+import type { Tree } from '@nx/devkit';
+import { normalizePath } from '@nx/devkit';
+import { posix as path } from 'node:path';
+import { sourceFileExtensions } from '../constants/file-extensions';
+import { removeSourceFileExtension } from './remove-source-file-extension';
+
+/**
+ * Resolves a relative import specifier to a file in the tree.
+ *
+ * The specifier may name the file exactly (`./button.module.css`), omit the
+ * extension (`./utils`), use an ESM-style extension (`./utils.js` for
+ * `utils.ts`), or point to a directory with an index file.
+ *
+ * @param tree - The virtual file system tree.
+ * @param fromDir - Directory of the importing file.
+ * @param specifier - Relative import specifier, e.g. `./login` or `./session/index.js`.
+ * @param cachedTreeExists - Cached tree.exists() function.
+ * @returns The resolved workspace path, or null if it cannot be resolved.
+ */
+export function resolveRelativeImport(
+  tree: Tree,
+  fromDir: string,
+  specifier: string,
+  cachedTreeExists: (tree: Tree, filePath: string) => boolean,
+): string | null {
+  const importPath = normalizePath(path.join(fromDir, specifier));
+  const basePath = removeSourceFileExtension(importPath);
+  const candidates = [
+    importPath,
+    ...sourceFileExtensions.map((ext) => `${basePath}${ext}`),
+    ...sourceFileExtensions.map((ext) => `${basePath}/index${ext}`),
+  ];
+
+  return (
+    candidates.find(
+      (candidate) =>
+        cachedTreeExists(tree, candidate) && tree.isFile(candidate),
+    ) ?? null
+  );
+}
@@ -149,4 +149,32 @@ describe('deriveProjectDirectoryFromSource', () => {
       expect(result).toBe('test');
     });
   });
+
+  describe('custom base directory', () => {
+    const libraryProject: ProjectConfiguration = {
+      root: 'packages/lib1',
+      sourceRoot: 'packages/lib1/src',
+      projectType: 'library',
+    };
+
+    it('should derive the directory relative to the source root', () => {
+      const result = deriveProjectDirectoryFromSource(
+        'packages/lib1/src/utils/date/format.ts',
+        libraryProject,
+        '',
+      );
+
+      expect(result).toBe('utils/date');
+    });
+
+    it('should derive the directory relative to a configured base directory', () => {
+      const result = deriveProjectDirectoryFromSource(
+        'packages/lib1/src/core/date/format.ts',
+        libraryProject,
+        'core',
+      );
+
+      expect(result).toBe('date');
+    });
+  });
 });
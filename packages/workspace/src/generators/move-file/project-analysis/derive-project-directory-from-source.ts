@@ -9,21 +9,25 @@ import { posix as path } from 'node:path';
  *
  * @param sourceFilePath - Source file path
  * @param sourceProject - Source project configuration
+ * @param baseDirectory - Base directory of the source project (see getProjectBaseDirectory); defaults to `app` for applications and `lib` for libraries
  * @returns Directory path or undefined if not derivable
  */
 export function deriveProjectDirectoryFromSource(
   sourceFilePath: string,
   sourceProject: ProjectConfiguration,
+  baseDirectory = sourceProject.projectType === 'application' ? 'app' : 'lib',
 ): string | undefined {
   const sourceRoot = sourceProject.sourceRoot || sourceProject.root;
-  const baseDir = sourceProject.projectType === 'application' ? 'app' : 'lib';
 
   // Get the path relative to source root
   const relativeToSourceRoot = path.relative(sourceRoot, sourceFilePath);
 
   // Check if the file is within the base directory (lib or app)
-  const baseDirPrefix = baseDir + '/';
-  if (!relativeToSourceRoot.startsWith(baseDirPrefix)) {
+  const baseDirPrefix = baseDirectory ? baseDirectory + '/' : '';
+  if (
+    relativeToSourceRoot.startsWith('../') ||
+    !relativeToSourceRoot.startsWith(baseDirPrefix)
+  ) {
     // File is not in the expected base directory, return undefined
     return undefined;
   }
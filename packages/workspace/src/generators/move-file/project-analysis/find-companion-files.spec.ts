@@ -0,0 +1,85 @@
+import { Tree } from '@nx/devkit';
+import { createTreeWithEmptyWorkspace } from '@nx/devkit/testing';
+import { findCompanionFiles } from './find-companion-files';
+import { defaultCompanionPatterns } from '../constants/companion-patterns';
+
+describe('findCompanionFiles', () => {
+  let tree: Tree;
+
+  beforeEach(() => {
+    tree = createTreeWithEmptyWorkspace();
+    tree.write('libs/ui/src/lib/button.tsx', 'export const Button = 1;');
+    tree.write('libs/ui/src/lib/button.spec.tsx', '');
+    tree.write('libs/ui/src/lib/button.stories.tsx', '');
+    tree.write('libs/ui/src/lib/button.module.css', '');
+    tree.write('libs/ui/src/lib/__snapshots__/button.spec.tsx.snap', '');
+    tree.write('libs/ui/src/lib/button-group.tsx', '');
+    tree.write('libs/ui/src/lib/button-group.spec.tsx', '');
+    tree.write('libs/ui/src/lib/__snapshots__/button-group.spec.tsx.snap', '');
+  });
+
+  it('should find companion files with the default patterns', async () => {
+    const result = await findCompanionFiles(
+      tree,
+      'libs/ui/src/lib/button.tsx',
+      defaultCompanionPatterns,
+    );
+
+    expect(result).toEqual([
+      'libs/ui/src/lib/__snapshots__/button.spec.tsx.snap',
+      'libs/ui/src/lib/button.module.css',
+      'libs/ui/src/lib/button.spec.tsx',
+      'libs/ui/src/lib/button.stories.tsx',
+    ]);
+  });
+
+  it('should only use the given patterns', async () => {
+    const result = await findCompanionFiles(
+      tree,
+      'libs/ui/src/lib/button.tsx',
+      ['{name}.stories.*'],
+    );
+
+    expect(result).toEqual(['libs/ui/src/lib/button.stories.tsx']);
+  });
+
+  it('should not return the source file itself', async () => {
+    const result = await findCompanionFiles(
+      tree,
+      'libs/ui/src/lib/button.tsx',
+      ['{name}.*'],
+    );
+
+    expect(result).not.toContain('libs/ui/src/lib/button.tsx');
+  });
+
+  it('should return an empty array when there are no companions', async () => {
+    tree.write('libs/ui/src/lib/icon.tsx', '');
+
+    const result = await findCompanionFiles(
+      tree,
+      'libs/ui/src/lib/icon.tsx',
+      defaultCompanionPatterns,
+    );
+
+    expect(result).toEqual([]);
+  });
+
+  it('should throw for patterns without a name placeholder', async () => {
+    await expect(
+      findCompanionFiles(tree, 'libs/ui/src/lib/button.tsx', ['*.spec.ts']),
+    ).rejects.toThrow(
+      'Invalid companion pattern "*.spec.ts": must contain the {name} placeholder',
+    );
+  });
+
+  it('should throw for patterns outside the source directory', async () => {
+    await expect(
+      findCompanionFiles(tree, 'libs/ui/src/lib/button.tsx', [
+        '../{name}.spec.ts',
+      ]),
+    ).rejects.toThrow(
+      `Invalid companion pattern "../{name}.spec.ts": must be relative to the source file's directory`,
+    );
+  });
+});
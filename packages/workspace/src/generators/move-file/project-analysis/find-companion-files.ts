@@ -0,0 +1,56 @@
+import { Tree, globAsync, normalizePath } from '@nx/devkit';
+import { posix as path } from 'node:path';
+
+/**
+ * Finds the companion files of a source file, such as its spec, stories,
+ * styles, and snapshots.
+ *
+ * Each pattern is resolved relative to the source file's directory, with
+ * `{name}` replaced by the source file name without its extension.
+ *
+ * @param tree - The virtual file system tree
+ * @param filePath - Path of the source file
+ * @param patterns - Basename patterns, e.g. `{name}.spec.*` or `__snapshots__/{name}.*.snap`
+ * @returns Sorted paths of existing companion files, excluding the source file itself
+ * @throws Error if a pattern has no `{name}` placeholder or leaves the source file's directory
+ */
+export async function findCompanionFiles(
+  tree: Tree,
+  filePath: string,
+  patterns: readonly string[],
+): Promise<string[]> {
+  for (const pattern of patterns) {
+    if (!pattern.includes('{name}')) {
+      throw new Error(
+        `Invalid companion pattern "${pattern}": must contain the {name} placeholder`,
+      );
+    }
+    if (pattern.startsWith('/') || pattern.split('/').includes('..')) {
+      throw new Error(
+        `Invalid companion pattern "${pattern}": must be relative to the source file's directory`,
+      );
+    }
+  }
+
+  if (patterns.length === 0) {
+    return [];
+  }
+
+  const normalizedFilePath = normalizePath(filePath);
+  const directory = path.dirname(normalizedFilePath);
+  const name = path.basename(
+    normalizedFilePath,
+    path.extname(normalizedFilePath),
+  );
+
+  const matches = await globAsync(
+    tree,
+    patterns.map((pattern) =>
+      path.join(directory, pattern.replace(/\{name\}/g, name)),
+    ),
+  );
+
+  return Array.from(new Set(matches.map((match) => normalizePath(match))))
+    .filter((match) => match !== normalizedFilePath)
+    .sort();
+}
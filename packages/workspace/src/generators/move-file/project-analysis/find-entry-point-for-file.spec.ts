@@ -0,0 +1,36 @@
+import { findEntryPointForFile } from './find-entry-point-for-file';
+
+describe('findEntryPointForFile', () => {
+  const testing = {
+    importPath: '@org/ui/testing',
+    filePath: 'libs/ui/src/testing/index.ts',
+  };
+  const mocks = {
+    importPath: '@org/ui/testing/mocks',
+    filePath: 'libs/ui/src/testing/mocks/index.ts',
+  };
+
+  it('should find the entry point whose directory contains the file', () => {
+    expect(
+      findEntryPointForFile([testing], 'libs/ui/src/testing/lib/button.ts'),
+    ).toBe(testing);
+  });
+
+  it('should prefer the most deeply nested entry point', () => {
+    expect(
+      findEntryPointForFile(
+        [testing, mocks],
+        'libs/ui/src/testing/mocks/button.ts',
+      ),
+    ).toBe(mocks);
+  });
+
+  it('should return undefined for files outside every entry point', () => {
+    expect(
+      findEntryPointForFile([testing, mocks], 'libs/ui/src/lib/button.ts'),
+    ).toBeUndefined();
+    expect(
+      findEntryPointForFile([testing], 'libs/ui/src/testing-utils/button.ts'),
+    ).toBeUndefined();
+  });
+});
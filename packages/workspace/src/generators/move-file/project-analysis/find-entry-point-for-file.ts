@@ -0,0 +1,29 @@
+import { posix as path } from 'node:path';
+import type { ProjectEntryPoint } from '../types/project-entry-point';
+
+/**
+ * Finds the entry point whose barrel directory contains a file, preferring
+ * the most deeply nested one.
+ *
+ * @param entryPoints - Entry points of the file's project
+ * @param filePath - Workspace-relative path of the file
+ * @returns The entry point the file belongs to, or undefined if none contains it
+ */
+export function findEntryPointForFile(
+  entryPoints: ProjectEntryPoint[],
+  filePath: string,
+): ProjectEntryPoint | undefined {
+  let match: ProjectEntryPoint | undefined;
+  let matchDepth = -1;
+
+  for (const entryPoint of entryPoints) {
+    const directory = path.dirname(entryPoint.filePath);
+    const depth = directory.split('/').length;
+    if (filePath.startsWith(`${directory}/`) && depth > matchDepth) {
+      match = entryPoint;
+      matchDepth = depth;
+    }
+  }
+
+  return match;
+}
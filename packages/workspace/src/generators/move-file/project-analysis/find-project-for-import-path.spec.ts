@@ -0,0 +1,54 @@
+import { Tree, ProjectConfiguration, updateJson } from '@nx/devkit';
+import { createTreeWithEmptyWorkspace } from '@nx/devkit/testing';
+import { findProjectForImportPath } from './find-project-for-import-path';
+import { clearCompilerPathsCache } from './read-compiler-paths';
+import { treeReadCache } from '../tree-cache';
+
+describe('findProjectForImportPath', () => {
+  let tree: Tree;
+  let projects: Map<string, ProjectConfiguration>;
+
+  beforeEach(() => {
+    clearCompilerPathsCache();
+    treeReadCache.clear();
+    tree = createTreeWithEmptyWorkspace();
+    updateJson(tree, 'tsconfig.base.json', (json) => {
+      json.compilerOptions = json.compilerOptions || {};
+      json.compilerOptions.paths = {
+        '@org/utils': ['libs/utils/src/index.ts'],
+        '@org/ui': ['libs/ui/src/index.ts'],
+      };
+      return json;
+    });
+    tree.write('libs/utils/src/index.ts', '');
+    tree.write('libs/ui/src/index.ts', '');
+    projects = new Map([
+      ['utils', { root: 'libs/utils', sourceRoot: 'libs/utils/src' }],
+      ['ui', { root: 'libs/ui', sourceRoot: 'libs/ui/src' }],
+    ]);
+  });
+
+  afterEach(() => {
+    clearCompilerPathsCache();
+  });
+
+  it('should find the project of an alias', () => {
+    expect(findProjectForImportPath(tree, projects, '@org/ui')?.name).toBe(
+      'ui',
+    );
+  });
+
+  it('should find the project of a deep import', () => {
+    expect(
+      findProjectForImportPath(tree, projects, '@org/utils/testing')?.name,
+    ).toBe('utils');
+  });
+
+  it('should not match aliases that only share a prefix', () => {
+    expect(findProjectForImportPath(tree, projects, '@org/uikit')).toBeNull();
+  });
+
+  it('should return null for external packages', () => {
+    expect(findProjectForImportPath(tree, projects, 'react')).toBeNull();
+  });
+});
@@ -0,0 +1,26 @@
+import { ProjectConfiguration, Tree } from '@nx/devkit';
+import { getProjectImportPath } from './get-project-import-path';
+
+/**
+ * Finds the project that an alias import (e.g. `@org/utils` or
+ * `@org/utils/testing`) points to.
+ *
+ * @param tree - The virtual file system tree
+ * @param projects - Map of all projects in the workspace
+ * @param importPath - The import specifier
+ * @returns Project configuration and name, or null if no project alias matches
+ */
+export function findProjectForImportPath(
+  tree: Tree,
+  projects: Map<string, ProjectConfiguration>,
+  importPath: string,
+): { project: ProjectConfiguration; name: string } | null {
+  for (const [name, project] of projects) {
+    const alias = getProjectImportPath(tree, name, project);
+    if (alias && (importPath === alias || importPath.startsWith(`${alias}/`))) {
+      return { project, name };
+    }
+  }
+
+  return null;
+}
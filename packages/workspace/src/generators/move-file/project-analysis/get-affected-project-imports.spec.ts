@@ -0,0 +1,98 @@
+import { Tree, ProjectConfiguration, updateJson } from '@nx/devkit';
+import { createTreeWithEmptyWorkspace } from '@nx/devkit/testing';
+import { getAffectedProjectImports } from './get-affected-project-imports';
+import { clearCache } from '../jscodeshift-utils';
+import { clearCompilerPathsCache } from './read-compiler-paths';
+import { treeReadCache } from '../tree-cache';
+import type { MoveContext } from '../types/move-context';
+
+describe('getAffectedProjectImports', () => {
+  let tree: Tree;
+  const projects = new Map<string, ProjectConfiguration>([
+    ['shared', { root: 'libs/shared', sourceRoot: 'libs/shared/src' }],
+    ['util', { root: 'libs/util', sourceRoot: 'libs/util/src' }],
+    ['feature', { root: 'libs/feature', sourceRoot: 'libs/feature/src' }],
+  ]);
+
+  const getProjectSourceFiles = (t: Tree, projectRoot: string): string[] =>
+    t.exists(`${projectRoot}/src/lib`)
+      ? t
+          .children(`${projectRoot}/src/lib`)
+          .map((fileName) => `${projectRoot}/src/lib/${fileName}`)
+      : [];
+
+  beforeEach(() => {
+    clearCache();
+    clearCompilerPathsCache();
+    treeReadCache.clear();
+    tree = createTreeWithEmptyWorkspace();
+    updateJson(tree, 'tsconfig.base.json', (json) => {
+      json.compilerOptions = json.compilerOptions || {};
+      json.compilerOptions.paths = {
+        '@org/shared': ['libs/shared/src/index.ts'],
+        '@org/util': ['libs/util/src/index.ts'],
+        '@org/feature': ['libs/feature/src/index.ts'],
+      };
+      return json;
+    });
+    for (const [, project] of projects) {
+      tree.write(`${project.sourceRoot}/index.ts`, '');
+    }
+  });
+
+  afterEach(() => {
+    clearCompilerPathsCache();
+    treeReadCache.clear();
+  });
+
+  it('should get the imported projects of the affected projects', () => {
+    tree.write(
+      'libs/feature/src/lib/a.ts',
+      "import { helper } from '@org/shared';\n",
+    );
+    const context = {
+      sourceProjectName: 'shared',
+      targetProjectName: 'util',
+      isSameProject: false,
+      dependencyEdges: [
+        {
+          sourceProject: 'feature',
+          targetProject: 'util',
+          filePath: 'libs/feature/src/lib/a.ts',
+        },
+      ],
+    } as MoveContext;
+
+    expect(
+      getAffectedProjectImports(
+        tree,
+        [context],
+        projects,
+        getProjectSourceFiles,
+      ),
+    ).toEqual(
+      new Map([
+        ['shared', new Set()],
+        ['util', new Set()],
+        ['feature', new Set(['shared'])],
+      ]),
+    );
+  });
+
+  it('should skip moves within a project', () => {
+    const context = {
+      sourceProjectName: 'shared',
+      targetProjectName: 'shared',
+      isSameProject: true,
+    } as MoveContext;
+
+    expect(
+      getAffectedProjectImports(
+        tree,
+        [context],
+        projects,
+        getProjectSourceFiles,
+      ),
+    ).toEqual(new Map());
+  });
+});
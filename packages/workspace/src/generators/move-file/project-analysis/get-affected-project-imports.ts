@@ -0,0 +1,45 @@
+import type { ProjectConfiguration, Tree } from '@nx/devkit';
+import type { MoveContext } from '../types/move-context';
+import { getImportedProjectNames } from './get-imported-project-names';
+import { getMoveAffectedProjects } from './get-move-affected-projects';
+
+/**
+ * Gets the projects that each project affected by cross-project moves (see
+ * getMoveAffectedProjects) imports. Read before the moves, it tells which
+ * imports the moves removed.
+ *
+ * @param tree - The virtual file system tree.
+ * @param contexts - Resolved contexts of the moved files.
+ * @param projects - Map of all projects in the workspace.
+ * @param getProjectSourceFiles - Function to get project source files with caching.
+ * @returns Names of the imported projects by affected project name.
+ */
+export function getAffectedProjectImports(
+  tree: Tree,
+  contexts: MoveContext[],
+  projects: Map<string, ProjectConfiguration>,
+  getProjectSourceFiles: (tree: Tree, projectRoot: string) => string[],
+): Map<string, Set<string>> {
+  const importedProjectNamesByProject = new Map<string, Set<string>>();
+
+  for (const projectName of getMoveAffectedProjects(contexts)
+    .affectedProjectNames) {
+    const project = projects.get(projectName);
+    if (!project) {
+      continue;
+    }
+
+    importedProjectNamesByProject.set(
+      projectName,
+      getImportedProjectNames(
+        tree,
+        projectName,
+        project,
+        projects,
+        getProjectSourceFiles,
+      ),
+    );
+  }
+
+  return importedProjectNamesByProject;
+}
@@ -0,0 +1,51 @@
+import { Tree, ProjectConfiguration, updateJson } from '@nx/devkit';
+import { createTreeWithEmptyWorkspace } from '@nx/devkit/testing';
+import { getEntryPointImportPath } from './get-entry-point-import-path';
+import { clearCompilerPathsCache } from './read-compiler-paths';
+import { treeReadCache } from '../tree-cache';
+
+describe('getEntryPointImportPath', () => {
+  let tree: Tree;
+  const project: ProjectConfiguration = {
+    root: 'libs/ui',
+    sourceRoot: 'libs/ui/src',
+  };
+
+  beforeEach(() => {
+    clearCompilerPathsCache();
+    treeReadCache.clear();
+    tree = createTreeWithEmptyWorkspace();
+    updateJson(tree, 'tsconfig.base.json', (json) => {
+      json.compilerOptions = json.compilerOptions || {};
+      json.compilerOptions.paths = {
+        '@org/ui': ['libs/ui/src/index.ts'],
+        '@org/ui/testing': ['libs/ui/src/testing/index.ts'],
+      };
+      return json;
+    });
+    tree.write('libs/ui/src/index.ts', '');
+    tree.write('libs/ui/src/testing/index.ts', '');
+  });
+
+  afterEach(() => {
+    clearCompilerPathsCache();
+    treeReadCache.clear();
+  });
+
+  it('should use the secondary entry point that contains the file', () => {
+    expect(
+      getEntryPointImportPath(
+        tree,
+        'ui',
+        project,
+        'libs/ui/src/testing/button.ts',
+      ),
+    ).toBe('@org/ui/testing');
+  });
+
+  it('should use the project import path for other files', () => {
+    expect(
+      getEntryPointImportPath(tree, 'ui', project, 'libs/ui/src/lib/button.ts'),
+    ).toBe('@org/ui');
+  });
+});
@@ -0,0 +1,32 @@
+import { ProjectConfiguration, Tree } from '@nx/devkit';
+import { findEntryPointForFile } from './find-entry-point-for-file';
+import { getProjectImportPath } from './get-project-import-path';
+import { getSecondaryEntryPoints } from './get-secondary-entry-points';
+
+/**
+ * Gets the import path that other projects import a file of a project
+ * through: the secondary entry point whose directory contains the file
+ * (e.g. `@org/ui/testing` for `libs/ui/src/testing/button.ts`), or the
+ * project's import path.
+ *
+ * @param tree - The virtual file system tree
+ * @param projectName - The project name
+ * @param project - The project configuration
+ * @param filePath - Workspace-relative path of the file
+ * @returns The import path or null if the project has none
+ */
+export function getEntryPointImportPath(
+  tree: Tree,
+  projectName: string,
+  project: ProjectConfiguration,
+  filePath: string,
+): string | null {
+  const entryPoint = findEntryPointForFile(
+    getSecondaryEntryPoints(tree, project),
+    filePath,
+  );
+
+  return (
+    entryPoint?.importPath ?? getProjectImportPath(tree, projectName, project)
+  );
+}
@@ -0,0 +1,127 @@
+import { Tree, ProjectConfiguration, updateJson } from '@nx/devkit';
+import { createTreeWithEmptyWorkspace } from '@nx/devkit/testing';
+import { getFileImportedProjects } from './get-file-imported-projects';
+import { clearCache } from '../jscodeshift-utils';
+import { clearCompilerPathsCache } from './read-compiler-paths';
+import { clearProjectAliasesCache } from './read-project-aliases';
+import { clearProjectCompilerOptionsCache } from './read-project-compiler-options';
+import { treeReadCache } from '../tree-cache';
+
+describe('getFileImportedProjects', () => {
+  let tree: Tree;
+  let projects: Map<string, ProjectConfiguration>;
+
+  const cachedTreeExists = (t: Tree, filePath: string): boolean =>
+    t.exists(filePath);
+
+  beforeEach(() => {
+    clearCache();
+    clearCompilerPathsCache();
+    clearProjectAliasesCache();
+    clearProjectCompilerOptionsCache();
+    treeReadCache.clear();
+    tree = createTreeWithEmptyWorkspace();
+    updateJson(tree, 'tsconfig.base.json', (json) => {
+      json.compilerOptions = json.compilerOptions || {};
+      json.compilerOptions.paths = {
+        '@org/shared': ['libs/shared/src/index.ts'],
+        '@org/util': ['libs/util/src/index.ts'],
+        '@org/util/*': ['libs/util/src/*'],
+      };
+      return json;
+    });
+    projects = new Map<string, ProjectConfiguration>([
+      ['shared', { root: 'libs/shared', sourceRoot: 'libs/shared/src' }],
+      ['util', { root: 'libs/util', sourceRoot: 'libs/util/src' }],
+      ['feature', { root: 'libs/feature', sourceRoot: 'libs/feature/src' }],
+    ]);
+    tree.write('libs/shared/src/index.ts', '');
+    tree.write('libs/shared/src/lib/helper.ts', 'export const helper = 1;\n');
+    tree.write('libs/util/src/index.ts', '');
+    tree.write('libs/util/src/lib/format.ts', 'export const format = 1;\n');
+  });
+
+  afterEach(() => {
+    clearCompilerPathsCache();
+  });
+
+  it('should map relative and alias imports to the imported projects', () => {
+    tree.write(
+      'libs/shared/src/lib/widget.ts',
+      [
+        "import { helper } from './helper';",
+        "import { format } from '@org/util/lib/format';",
+        "import { util } from '@org/util';",
+        '',
+      ].join('\n'),
+    );
+
+    expect(
+      getFileImportedProjects(
+        tree,
+        'libs/shared/src/lib/widget.ts',
+        'libs/shared',
+        projects,
+        cachedTreeExists,
+      ),
+    ).toEqual(
+      new Map([
+        ['shared', './helper'],
+        ['util', '@org/util/lib/format'],
+      ]),
+    );
+  });
+
+  it.each(['lib/helper', '#lib/helper'])(
+    'should map the import %s to the project of the imported file',
+    (specifier) => {
+      tree.write(
+        'libs/shared/package.json',
+        JSON.stringify({
+          name: 'shared',
+          imports: { '#lib/*': './src/lib/*' },
+        }),
+      );
+      tree.write('libs/shared/tsconfig.json', '{}');
+      tree.write(
+        'libs/shared/tsconfig.lib.json',
+        JSON.stringify({
+          extends: './tsconfig.json',
+          compilerOptions: { baseUrl: 'src' },
+        }),
+      );
+      tree.write(
+        'libs/shared/src/lib/widget.ts',
+        `import { helper } from '${specifier}';\n`,
+      );
+
+      expect(
+        getFileImportedProjects(
+          tree,
+          'libs/shared/src/lib/widget.ts',
+          'libs/shared',
+          projects,
+          cachedTreeExists,
+        ),
+      ).toEqual(new Map([['shared', specifier]]));
+    },
+  );
+
+  it('should map imports of batch files to their target projects', () => {
+    tree.write(
+      'libs/shared/src/lib/widget.ts',
+      "import { helper } from './helper';\n",
+    );
+
+    expect(
+      getFileImportedProjects(
+        tree,
+        'libs/shared/src/lib/widget.ts',
+        'libs/shared',
+        projects,
+        cachedTreeExists,
+        new Map([['libs/shared/src/lib/helper.ts', 'feature']]),
+      ),
+    ).toEqual(new Map([['feature', './helper']]));
+  });
+});
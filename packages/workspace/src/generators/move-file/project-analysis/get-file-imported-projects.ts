@@ -0,0 +1,64 @@
+import type { ProjectConfiguration, Tree } from '@nx/devkit';
+import { collectImportSpecifiers } from '../jscodeshift-utils';
+import { resolveImportSpecifier } from '../path-utils/resolve-import-specifier';
+import { resolveRelativeImport } from '../path-utils/resolve-relative-import';
+import { findProjectForFile } from './find-project-for-file';
+import { findProjectForImportPath } from './find-project-for-import-path';
+import { getProjectPackageImports } from './get-project-package-imports';
+import { readProjectAliases } from './read-project-aliases';
+import { readProjectCompilerOptions } from './read-project-compiler-options';
+
+/**
+ * Gets the projects that a file imports, with the first specifier importing
+ * each. Relative, `#` subpath, alias, and baseUrl imports are resolved to the
+ * files they point to (files moved in the same batch count for their target
+ * project); other specifiers, such as package names, go through
+ * findProjectForImportPath.
+ *
+ * @param tree - The virtual file system tree.
+ * @param filePath - Path of the importing file.
+ * @param projectRoot - Root directory of the importing file's project.
+ * @param projects - Map of all projects in the workspace.
+ * @param cachedTreeExists - Function to check file existence with caching.
+ * @param batchTargetProjects - Optional target project per source file of the batch.
+ * @returns Import specifier by imported project name, including the file's own project.
+ */
+export function getFileImportedProjects(
+  tree: Tree,
+  filePath: string,
+  projectRoot: string,
+  projects: Map<string, ProjectConfiguration>,
+  cachedTreeExists: (tree: Tree, filePath: string) => boolean,
+  batchTargetProjects?: ReadonlyMap<string, string>,
+): Map<string, string> {
+  const { baseUrl } = readProjectCompilerOptions(tree, projectRoot);
+  const packageImports = getProjectPackageImports(tree, projectRoot);
+  const aliases = readProjectAliases(tree, projectRoot);
+  const importedProjects = new Map<string, string>();
+
+  for (const specifier of collectImportSpecifiers(tree, filePath)) {
+    const resolved = resolveImportSpecifier(
+      filePath,
+      specifier,
+      baseUrl,
+      packageImports,
+      aliases,
+    )
+      .map((importPath) =>
+        resolveRelativeImport(tree, '.', importPath, cachedTreeExists),
+      )
+      .find((importPath) => importPath !== null);
+    const projectName = resolved
+      ? (batchTargetProjects?.get(resolved) ??
+        findProjectForFile(projects, resolved)?.name)
+      : specifier.startsWith('.')
+        ? undefined
+        : findProjectForImportPath(tree, projects, specifier)?.name;
+
+    if (projectName && !importedProjects.has(projectName)) {
+      importedProjects.set(projectName, specifier);
+    }
+  }
+
+  return importedProjects;
+}
@@ -0,0 +1,104 @@
+import { Tree, ProjectConfiguration, updateJson } from '@nx/devkit';
+import { createTreeWithEmptyWorkspace } from '@nx/devkit/testing';
+import { getImportedProjectNames } from './get-imported-project-names';
+import { clearCache } from '../jscodeshift-utils';
+import { clearCompilerPathsCache } from './read-compiler-paths';
+import { treeReadCache } from '../tree-cache';
+
+describe('getImportedProjectNames', () => {
+  let tree: Tree;
+  const projects = new Map<string, ProjectConfiguration>([
+    ['shared', { root: 'libs/shared', sourceRoot: 'libs/shared/src' }],
+    ['util', { root: 'libs/util', sourceRoot: 'libs/util/src' }],
+    ['feature', { root: 'libs/feature', sourceRoot: 'libs/feature/src' }],
+  ]);
+
+  const getProjectSourceFiles = (t: Tree, projectRoot: string): string[] =>
+    t
+      .children(`${projectRoot}/src/lib`)
+      .map((fileName) => `${projectRoot}/src/lib/${fileName}`);
+
+  beforeEach(() => {
+    clearCache();
+    clearCompilerPathsCache();
+    treeReadCache.clear();
+    tree = createTreeWithEmptyWorkspace();
+    updateJson(tree, 'tsconfig.base.json', (json) => {
+      json.compilerOptions = json.compilerOptions || {};
+      json.compilerOptions.paths = {
+        '@org/shared': ['libs/shared/src/index.ts'],
+        '@org/util': ['libs/util/src/index.ts'],
+        '@org/feature': ['libs/feature/src/index.ts'],
+      };
+      return json;
+    });
+    for (const [, project] of projects) {
+      tree.write(`${project.sourceRoot}/index.ts`, '');
+    }
+  });
+
+  afterEach(() => {
+    clearCompilerPathsCache();
+    treeReadCache.clear();
+  });
+
+  it('should collect the projects imported through their aliases', () => {
+    tree.write(
+      'libs/feature/src/lib/a.ts',
+      "import { a } from '@org/shared';\nimport { b } from '@org/util/testing';\n",
+    );
+    tree.write(
+      'libs/feature/src/lib/b.ts',
+      "export const lazy = () => import('@org/shared');\n",
+    );
+
+    expect(
+      getImportedProjectNames(
+        tree,
+        'feature',
+        projects.get('feature') as ProjectConfiguration,
+        projects,
+        getProjectSourceFiles,
+      ),
+    ).toEqual(new Set(['shared', 'util']));
+  });
+
+  it('should skip relative imports, external packages, and the project itself', () => {
+    tree.write(
+      'libs/feature/src/lib/a.ts',
+      "import { b } from './b';\nimport { x } from 'lodash';\nimport { f } from '@org/feature';\n",
+    );
+
+    expect(
+      getImportedProjectNames(
+        tree,
+        'feature',
+        projects.get('feature') as ProjectConfiguration,
+        projects,
+        getProjectSourceFiles,
+      ),
+    ).toEqual(new Set());
+  });
+
+  it('should only collect the imports of the included files', () => {
+    tree.write(
+      'libs/feature/src/lib/a.ts',
+      "import { a } from '@org/shared';\n",
+    );
+    tree.write(
+      'libs/feature/src/lib/a.spec.ts',
+      "import { b } from '@org/util';\n",
+    );
+
+    expect(
+      getImportedProjectNames(
+        tree,
+        'feature',
+        projects.get('feature') as ProjectConfiguration,
+        projects,
+        getProjectSourceFiles,
+        (filePath) => !filePath.endsWith('.spec.ts'),
+      ),
+    ).toEqual(new Set(['shared']));
+  });
+});
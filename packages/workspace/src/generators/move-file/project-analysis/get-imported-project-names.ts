@@ -0,0 +1,52 @@
+import { Tree, ProjectConfiguration } from '@nx/devkit';
+import { collectImportSpecifiers } from '../jscodeshift-utils';
+import { findProjectForImportPath } from './find-project-for-import-path';
+
+/**
+ * Gets the names of the other projects that a project's files import through
+ * their aliases (including deep imports).
+ *
+ * @param tree - The virtual file system tree.
+ * @param projectName - Name of the importing project.
+ * @param project - Configuration of the importing project.
+ * @param projects - Map of all projects in the workspace.
+ * @param getProjectSourceFiles - Function to get project source files with caching.
+ * @param isIncludedFile - Which of the project's files to collect the imports of (all by default).
+ * @returns Names of the imported projects, without the project itself.
+ */
+export function getImportedProjectNames(
+  tree: Tree,
+  projectName: string,
+  project: ProjectConfiguration,
+  projects: Map<string, ProjectConfiguration>,
+  getProjectSourceFiles: (tree: Tree, projectRoot: string) => string[],
+  isIncludedFile: (filePath: string) => boolean = () => true,
+): Set<string> {
+  const projectNamesBySpecifier = new Map<string, string | undefined>();
+  const importedProjectNames = new Set<string>();
+
+  for (const filePath of getProjectSourceFiles(tree, project.root)) {
+    if (!isIncludedFile(filePath)) {
+      continue;
+    }
+
+    for (const specifier of collectImportSpecifiers(tree, filePath)) {
+      if (specifier.startsWith('.')) {
+        continue;
+      }
+
+      if (!projectNamesBySpecifier.has(specifier)) {
+        projectNamesBySpecifier.set(
+          specifier,
+          findProjectForImportPath(tree, projects, specifier)?.name,
+        );
+      }
+      const importedProjectName = projectNamesBySpecifier.get(specifier);
+      if (importedProjectName && importedProjectName !== projectName) {
+        importedProjectNames.add(importedProjectName);
+      }
+    }
+  }
+
+  return importedProjectNames;
+}
@@ -0,0 +1,42 @@
+import { getMoveAffectedProjects } from './get-move-affected-projects';
+import type { MoveContext } from '../types/move-context';
+
+describe('getMoveAffectedProjects', () => {
+  it('should collect the projects whose dependencies a move changes', () => {
+    const context = {
+      sourceProjectName: 'shared',
+      targetProjectName: 'util',
+      isSameProject: false,
+      dependencyEdges: [
+        {
+          sourceProject: 'util',
+          targetProject: 'core',
+          filePath: 'libs/util/src/lib/widget.ts',
+        },
+        {
+          sourceProject: 'feature',
+          targetProject: 'util',
+          filePath: 'libs/feature/src/lib/page.ts',
+        },
+      ],
+    } as MoveContext;
+
+    expect(getMoveAffectedProjects([context])).toEqual({
+      affectedProjectNames: new Set(['shared', 'util', 'feature']),
+      involvedProjectNames: new Set(['shared', 'util', 'core']),
+    });
+  });
+
+  it('should ignore moves within a project', () => {
+    const context = {
+      sourceProjectName: 'shared',
+      targetProjectName: 'shared',
+      isSameProject: true,
+    } as MoveContext;
+
+    expect(getMoveAffectedProjects([context])).toEqual({
+      affectedProjectNames: new Set(),
+      involvedProjectNames: new Set(),
+    });
+  });
+});
@@ -0,0 +1,36 @@
+import type { MoveContext } from '../types/move-context';
+
+/**
+ * Gets the projects whose project dependencies cross-project moves change:
+ * - affected projects, whose imports the moves rewrite: the source and target
+ *   projects and the projects importing the moved files,
+ * - involved projects, which affected projects may start or stop importing:
+ *   the source and target projects and the projects the moved files import.
+ *
+ * @param contexts - Resolved contexts of the moved files.
+ * @returns Names of the affected and the involved projects.
+ */
+export function getMoveAffectedProjects(contexts: MoveContext[]): {
+  affectedProjectNames: Set<string>;
+  involvedProjectNames: Set<string>;
+} {
+  const affectedProjectNames = new Set<string>();
+  const involvedProjectNames = new Set<string>();
+
+  for (const ctx of contexts) {
+    if (ctx.isSameProject) {
+      continue;
+    }
+
+    for (const projectName of [ctx.sourceProjectName, ctx.targetProjectName]) {
+      affectedProjectNames.add(projectName);
+      involvedProjectNames.add(projectName);
+    }
+    for (const edge of ctx.dependencyEdges ?? []) {
+      affectedProjectNames.add(edge.sourceProject);
+      involvedProjectNames.add(edge.targetProject);
+    }
+  }
+
+  return { affectedProjectNames, involvedProjectNames };
+}
@@ -0,0 +1,340 @@
+import { Tree, ProjectConfiguration, updateJson } from '@nx/devkit';
+import { createTreeWithEmptyWorkspace } from '@nx/devkit/testing';
+import { getMoveDependencyEdges } from './get-move-dependency-edges';
+import { clearCache } from '../jscodeshift-utils';
+import { clearCompilerPathsCache } from './read-compiler-paths';
+import { clearProjectAliasesCache } from './read-project-aliases';
+import { clearProjectCompilerOptionsCache } from './read-project-compiler-options';
+import { treeReadCache } from '../tree-cache';
+import type { MoveContext } from '../types/move-context';
+
+describe('getMoveDependencyEdges', () => {
+  let tree: Tree;
+  let projects: Map<string, ProjectConfiguration>;
+
+  const getProjectSourceFiles = (t: Tree, projectRoot: string): string[] => {
+    const files: string[] = [];
+    const visit = (dir: string): void => {
+      for (const child of t.children(dir)) {
+        const childPath = `${dir}/${child}`;
+        if (!t.isFile(childPath)) {
+          visit(childPath);
+        } else if (childPath.endsWith('.ts')) {
+          files.push(childPath);
+        }
+      }
+    };
+    visit(projectRoot);
+    return files;
+  };
+  const cachedTreeExists = (t: Tree, filePath: string): boolean =>
+    t.exists(filePath);
+
+  const createContext = (overrides: Partial<MoveContext>): MoveContext =>
+    ({
+      normalizedSource: 'libs/shared/src/lib/widget.ts',
+      normalizedTarget: 'libs/util/src/lib/widget.ts',
+      sourceProject: projects.get('shared'),
+      sourceProjectName: 'shared',
+      targetProject: projects.get('util'),
+      targetProjectName: 'util',
+      sourceImportPath: '@org/shared',
+      targetImportPath: '@org/util',
+      isExported: false,
+      isSameProject: false,
+      ...overrides,
+    }) as MoveContext;
+
+  beforeEach(() => {
+    clearCache();
+    clearCompilerPathsCache();
+    clearProjectAliasesCache();
+    clearProjectCompilerOptionsCache();
+    treeReadCache.clear();
+    tree = createTreeWithEmptyWorkspace();
+    updateJson(tree, 'tsconfig.base.json', (json) => {
+      json.compilerOptions = json.compilerOptions || {};
+      json.compilerOptions.paths = {
+        '@org/shared': ['libs/shared/src/index.ts'],
+        '@org/util': ['libs/util/src/index.ts'],
+        '@org/feature': ['libs/feature/src/index.ts'],
+      };
+      return json;
+    });
+    projects = new Map<string, ProjectConfiguration>([
+      ['shared', { root: 'libs/shared', sourceRoot: 'libs/shared/src' }],
+      ['util', { root: 'libs/util', sourceRoot: 'libs/util/src' }],
+      ['feature', { root: 'libs/feature', sourceRoot: 'libs/feature/src' }],
+    ]);
+    tree.write('libs/shared/src/index.ts', '');
+    tree.write('libs/util/src/index.ts', '');
+    tree.write('libs/feature/src/index.ts', '');
+  });
+
+  afterEach(() => {
+    clearCompilerPathsCache();
+  });
+
+  it('should add an edge from the target project for alias imports of the moved file', () => {
+    tree.write(
+      'libs/shared/src/lib/widget.ts',
+      "import { feature } from '@org/feature';\nexport const widget = feature;\n",
+    );
+
+    expect(
+      getMoveDependencyEdges(
+        tree,
+        createContext({}),
+        projects,
+        getProjectSourceFiles,
+        cachedTreeExists,
+      ),
+    ).toEqual([
+      {
+        sourceProject: 'util',
+        targetProject: 'feature',
+        filePath: 'libs/util/src/lib/widget.ts',
+        specifier: '@org/feature',
+      },
+    ]);
+  });
+
+  it('should add an edge to the source project for relative imports that stay behind', () => {
+    tree.write('libs/shared/src/lib/helper.ts', 'export const helper = 1;\n');
+    tree.write(
+      'libs/shared/src/lib/widget.ts',
+      "import { helper } from './helper';\nexport const widget = helper;\n",
+    );
+
+    expect(
+      getMoveDependencyEdges(
+        tree,
+        createContext({}),
+        projects,
+        getProjectSourceFiles,
+        cachedTreeExists,
+      ),
+    ).toEqual([
+      expect.objectContaining({
+        sourceProject: 'util',
+        targetProject: 'shared',
+        specifier: './helper',
+      }),
+    ]);
+  });
+
+  it('should map relative imports to the target project of batch files', () => {
+    tree.write('libs/shared/src/lib/helper.ts', 'export const helper = 1;\n');
+    tree.write(
+      'libs/shared/src/lib/widget.ts',
+      "import { helper } from './helper';\nexport const widget = helper;\n",
+    );
+
+    expect(
+      getMoveDependencyEdges(
+        tree,
+        createContext({}),
+        projects,
+        getProjectSourceFiles,
+        cachedTreeExists,
+        new Map([
+          ['libs/shared/src/lib/widget.ts', 'util'],
+          ['libs/shared/src/lib/helper.ts', 'util'],
+        ]),
+      ),
+    ).toEqual([]);
+  });
+
+  it('should add an edge from the source project for files that import the moved file', () => {
+    tree.write('libs/shared/src/lib/widget.ts', 'export const widget = 1;\n');
+    tree.write('libs/shared/src/index.ts', "export * from './lib/widget';\n");
+    tree.write(
+      'libs/shared/src/lib/page.ts',
+      "import { widget } from './widget';\nexport const page = widget;\n",
+    );
+
+    expect(
+      getMoveDependencyEdges(
+        tree,
+        createContext({}),
+        projects,
+        getProjectSourceFiles,
+        cachedTreeExists,
+      ),
+    ).toEqual([
+      {
+        sourceProject: 'shared',
+        targetProject: 'util',
+        filePath: 'libs/shared/src/lib/page.ts',
+        specifier: undefined,
+      },
+    ]);
+  });
+
+  it.each([
+    ['a path alias', "import { widget } from '@shared/lib/widget';\n"],
+    ['baseUrl', "import { widget } from 'lib/widget';\n"],
+    ['a subpath import', "import { widget } from '#lib/widget';\n"],
+  ])(
+    'should add an edge from the source project for files that import the moved file through %s',
+    (_, importStatement) => {
+      updateJson(tree, 'tsconfig.base.json', (json) => {
+        json.compilerOptions.paths['@shared/*'] = ['libs/shared/src/*'];
+        return json;
+      });
+      tree.write('libs/shared/tsconfig.json', '{}');
+      tree.write(
+        'libs/shared/tsconfig.lib.json',
+        JSON.stringify({
+          extends: './tsconfig.json',
+          compilerOptions: { baseUrl: 'src' },
+        }),
+      );
+      tree.write(
+        'libs/shared/package.json',
+        JSON.stringify({
+          name: 'shared',
+          imports: { '#lib/*': './src/lib/*' },
+        }),
+      );
+      tree.write('libs/shared/src/lib/widget.ts', 'export const widget = 1;\n');
+      tree.write('libs/shared/src/lib/page.ts', importStatement);
+
+      expect(
+        getMoveDependencyEdges(
+          tree,
+          createContext({}),
+          projects,
+          getProjectSourceFiles,
+          cachedTreeExists,
+        ),
+      ).toEqual([
+        expect.objectContaining({
+          sourceProject: 'shared',
+          targetProject: 'util',
+          filePath: 'libs/shared/src/lib/page.ts',
+        }),
+      ]);
+    },
+  );
+
+  it('should add edges from projects that import the moved file through a deep alias', () => {
+    updateJson(tree, 'tsconfig.base.json', (json) => {
+      json.compilerOptions.paths['@org/shared/*'] = ['libs/shared/src/*'];
+      return json;
+    });
+    tree.write('libs/shared/src/lib/widget.ts', 'export const widget = 1;\n');
+    tree.write(
+      'libs/feature/src/lib/consumer.ts',
+      "import { widget } from '@org/shared/lib/widget';\nexport const consumer = widget;\n",
+    );
+
+    expect(
+      getMoveDependencyEdges(
+        tree,
+        createContext({}),
+        projects,
+        getProjectSourceFiles,
+        cachedTreeExists,
+      ),
+    ).toEqual([
+      {
+        sourceProject: 'feature',
+        targetProject: 'util',
+        filePath: 'libs/feature/src/lib/consumer.ts',
+        specifier: undefined,
+      },
+    ]);
+  });
+
+  it('should ignore re-exports from the source entry point', () => {
+    tree.write('libs/shared/src/lib/widget.ts', 'export const widget = 1;\n');
+    tree.write('libs/shared/src/index.ts', "export * from './lib/widget';\n");
+
+    expect(
+      getMoveDependencyEdges(
+        tree,
+        createContext({}),
+        projects,
+        getProjectSourceFiles,
+        cachedTreeExists,
+      ),
+    ).toEqual([]);
+  });
+
+  it('should add edges from projects that import the moved file through the source alias', () => {
+    tree.write('libs/shared/src/lib/widget.ts', 'export const widget = 1;\n');
+    tree.write('libs/shared/src/index.ts', "export * from './lib/widget';\n");
+    tree.write(
+      'libs/feature/src/lib/consumer.ts',
+      "import { widget } from '@org/shared';\nexport const consumer = widget;\n",
+    );
+
+    expect(
+      getMoveDependencyEdges(
+        tree,
+        createContext({ isExported: true }),
+        projects,
+        getProjectSourceFiles,
+        cachedTreeExists,
+      ),
+    ).toEqual([
+      {
+        sourceProject: 'feature',
+        targetProject: 'util',
+        filePath: 'libs/feature/src/lib/consumer.ts',
+        specifier: '@org/shared',
+      },
+    ]);
+  });
+
+  it('should add an edge for the shim and skip dependents that keep using it', () => {
+    tree.write('libs/shared/src/lib/widget.ts', 'export const widget = 1;\n');
+    tree.write('libs/shared/src/index.ts', "export * from './lib/widget';\n");
+    tree.write(
+      'libs/feature/src/lib/consumer.ts',
+      "import { widget } from '@org/shared';\nexport const consumer = widget;\n",
+    );
+
+    expect(
+      getMoveDependencyEdges(
+        tree,
+        createContext({ isExported: true }),
+        projects,
+        getProjectSourceFiles,
+        cachedTreeExists,
+        undefined,
+        { leaveShim: true, updateDependents: false },
+      ),
+    ).toEqual([
+      {
+        sourceProject: 'shared',
+        targetProject: 'util',
+        filePath: 'libs/shared/src/index.ts',
+        specifier: '@org/util',
+      },
+    ]);
+  });
+
+  it('should return no edges for moves within a project', () => {
+    tree.write(
+      'libs/shared/src/lib/widget.ts',
+      "import { feature } from '@org/feature';\nexport const widget = feature;\n",
+    );
+
+    expect(
+      getMoveDependencyEdges(
+        tree,
+        createContext({
+          normalizedTarget: 'libs/shared/src/lib/ui/widget.ts',
+          targetProject: projects.get('shared'),
+          targetProjectName: 'shared',
+          isSameProject: true,
+        }),
+        projects,
+        getProjectSourceFiles,
+        cachedTreeExists,
+      ),
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,199 @@
+import { Tree, ProjectConfiguration } from '@nx/devkit';
+import {
+  hasImportSpecifierMatching,
+  hasSymbolImport,
+} from '../jscodeshift-utils';
+import { isImportOfFile } from '../path-utils/is-import-of-file';
+import { resolveImportSpecifier } from '../path-utils/resolve-import-specifier';
+import { getExportedSymbols } from '../export-management/get-exported-symbols';
+import type { MoveFileGeneratorSchema } from '../schema';
+import type { MoveContext } from '../types/move-context';
+import type { ProjectDependencyEdge } from '../types/project-dependencies';
+import { getFileImportedProjects } from './get-file-imported-projects';
+import { getProjectEntryPointPaths } from './get-project-entry-point-paths';
+import { getProjectPackageImports } from './get-project-package-imports';
+import { readProjectAliases } from './read-project-aliases';
+import { readProjectCompilerOptions } from './read-project-compiler-options';
+
+/**
+ * Collects the project dependencies that exist after moving a file to
+ * another project, one edge per pair of projects:
+ * - the target project imports everything the moved file imports,
+ * - the source project imports the target project when its files import the moved file,
+ * - projects importing the moved file through its path, or through the source
+ *   project's alias, import the target project instead.
+ *
+ * Imports are resolved like TypeScript does: relative, `#` subpath, import
+ * alias, and baseUrl specifiers all count.
+ *
+ * Re-exports from the source project's entry points are not counted because
+ * the move removes them, unless `leaveShim` turns them into re-exports from
+ * the target project. Dependents that keep importing such a shim
+ * (`updateDependents: false`) keep depending on the source project only.
+ *
+ * @param tree - The virtual file system tree.
+ * @param ctx - Resolved move context.
+ * @param projects - Map of all projects in the workspace.
+ * @param getProjectSourceFiles - Function to get project source files with caching.
+ * @param cachedTreeExists - Function to check file existence with caching.
+ * @param batchTargetProjects - Optional target project per source file of the batch.
+ * @param options - Shim options of the move.
+ * @returns The project dependencies, or an empty array for same-project moves.
+ */
+export function getMoveDependencyEdges(
+  tree: Tree,
+  ctx: MoveContext,
+  projects: Map<string, ProjectConfiguration>,
+  getProjectSourceFiles: (tree: Tree, projectRoot: string) => string[],
+  cachedTreeExists: (tree: Tree, filePath: string) => boolean,
+  batchTargetProjects?: ReadonlyMap<string, string>,
+  options: Pick<MoveFileGeneratorSchema, 'leaveShim' | 'updateDependents'> = {},
+): ProjectDependencyEdge[] {
+  if (ctx.isSameProject) {
+    return [];
+  }
+
+  const {
+    normalizedSource,
+    normalizedTarget,
+    sourceProjectName,
+    targetProjectName,
+    sourceImportPath,
+    isExported,
+  } = ctx;
+  const edges = new Map<string, ProjectDependencyEdge>();
+  const addEdge = (
+    from: string,
+    to: string,
+    filePath: string,
+    specifier?: string,
+  ): void => {
+    const key = `${from}\0${to}`;
+    if (from !== to && !edges.has(key)) {
+      edges.set(key, {
+        sourceProject: from,
+        targetProject: to,
+        filePath,
+        specifier,
+      });
+    }
+  };
+
+  // Imports of the moved file become imports of the target project
+  for (const [projectName, specifier] of getFileImportedProjects(
+    tree,
+    normalizedSource,
+    ctx.sourceProject.root,
+    projects,
+    cachedTreeExists,
+    batchTargetProjects,
+  )) {
+    addEdge(targetProjectName, projectName, normalizedTarget, specifier);
+  }
+
+  // Source project files that import the moved file import the target project
+  const entryPointPaths = new Set(
+    getProjectEntryPointPaths(tree, ctx.sourceProject),
+  );
+  const sourceImporter = getProjectSourceFiles(
+    tree,
+    ctx.sourceProject.root,
+  ).find(
+    (filePath) =>
+      filePath !== normalizedSource &&
+      !entryPointPaths.has(filePath) &&
+      !batchTargetProjects?.has(filePath) &&
+      importsFile(tree, filePath, ctx.sourceProject.root, normalizedSource),
+  );
+  if (sourceImporter) {
+    addEdge(sourceProjectName, targetProjectName, sourceImporter);
+  }
+
+  // A shim re-exports the moved file from the target project
+  if (options.leaveShim && isExported && ctx.targetImportPath) {
+    const shimEntryPoint = Array.from(entryPointPaths).find((entryPoint) =>
+      cachedTreeExists(tree, entryPoint),
+    );
+    if (shimEntryPoint) {
+      addEdge(
+        sourceProjectName,
+        targetProjectName,
+        shimEntryPoint,
+        ctx.targetImportPath,
+      );
+    }
+  }
+
+  // Projects that import the moved file through its path or one of their aliases
+  for (const [projectName, project] of projects) {
+    if (
+      projectName === sourceProjectName ||
+      projectName === targetProjectName
+    ) {
+      continue;
+    }
+
+    const importer = getProjectSourceFiles(tree, project.root).find(
+      (filePath) =>
+        !batchTargetProjects?.has(filePath) &&
+        importsFile(tree, filePath, project.root, normalizedSource),
+    );
+    if (importer) {
+      addEdge(projectName, targetProjectName, importer);
+    }
+  }
+
+  // Projects that import the moved file through the source project's alias
+  if (
+    isExported &&
+    sourceImportPath &&
+    (!options.leaveShim || options.updateDependents !== false)
+  ) {
+    const movedSymbols = getExportedSymbols(tree, normalizedSource);
+    for (const [projectName, project] of projects) {
+      if (
+        projectName === sourceProjectName ||
+        projectName === targetProjectName
+      ) {
+        continue;
+      }
+
+      const importer = getProjectSourceFiles(tree, project.root).find(
+        (filePath) =>
+          hasSymbolImport(tree, filePath, sourceImportPath, movedSymbols),
+      );
+      if (importer) {
+        addEdge(projectName, targetProjectName, importer, sourceImportPath);
+      }
+    }
+  }
+
+  return Array.from(edges.values());
+}
+
+/**
+ * Checks whether a file imports another file through a relative, subpath,
+ * alias, or baseUrl import of its project.
+ */
+function importsFile(
+  tree: Tree,
+  filePath: string,
+  projectRoot: string,
+  importedFilePath: string,
+): boolean {
+  const { baseUrl } = readProjectCompilerOptions(tree, projectRoot);
+  const packageImports = getProjectPackageImports(tree, projectRoot);
+  const aliases = readProjectAliases(tree, projectRoot);
+
+  return hasImportSpecifierMatching(tree, filePath, (specifier) =>
+    resolveImportSpecifier(
+      filePath,
+      specifier,
+      baseUrl,
+      packageImports,
+      aliases,
+    ).some((resolvedImport) =>
+      isImportOfFile(resolvedImport, importedFilePath),
+    ),
+  );
+}
@@ -0,0 +1,81 @@
+import { Tree, ProjectConfiguration } from '@nx/devkit';
+import { createTreeWithEmptyWorkspace } from '@nx/devkit/testing';
+import { getPackageEntryPointPaths } from './get-package-entry-point-paths';
+import { treeReadCache } from '../tree-cache';
+
+describe('getPackageEntryPointPaths', () => {
+  let tree: Tree;
+  const project: ProjectConfiguration = {
+    root: 'packages/lib1',
+    sourceRoot: 'packages/lib1/src',
+  };
+
+  const writePackageJson = (packageJson: Record<string, unknown>): void => {
+    tree.write(
+      'packages/lib1/package.json',
+      JSON.stringify({ name: '@myorg/lib1', ...packageJson }),
+    );
+  };
+
+  beforeEach(() => {
+    treeReadCache.clear();
+    tree = createTreeWithEmptyWorkspace();
+    tree.write('packages/lib1/src/main.ts', '');
+    tree.write('packages/lib1/src/index.mts', '');
+  });
+
+  afterEach(() => {
+    treeReadCache.clear();
+  });
+
+  it('should read the root entry of subpath exports with conditions', () => {
+    writePackageJson({
+      exports: {
+        '.': { types: './src/main.ts', import: './src/index.mjs' },
+        './package.json': './package.json',
+      },
+    });
+
+    expect(getPackageEntryPointPaths(tree, project)).toEqual([
+      'packages/lib1/src/main.ts',
+      'packages/lib1/src/index.mts',
+    ]);
+  });
+
+  it('should read exports of the whole package', () => {
+    writePackageJson({ exports: './src/main.ts' });
+
+    expect(getPackageEntryPointPaths(tree, project)).toEqual([
+      'packages/lib1/src/main.ts',
+    ]);
+  });
+
+  it('should resolve compiled files and declarations to their sources', () => {
+    writePackageJson({ main: './src/main.js', types: './src/index.d.mts' });
+
+    expect(getPackageEntryPointPaths(tree, project)).toEqual([
+      'packages/lib1/src/index.mts',
+      'packages/lib1/src/main.ts',
+    ]);
+  });
+
+  it('should read the entry of a subpath export', () => {
+    tree.write('packages/lib1/src/testing/index.ts', '');
+    writePackageJson({
+      exports: {
+        '.': './src/main.ts',
+        './testing': { import: './src/testing/index.js' },
+      },
+    });
+
+    expect(getPackageEntryPointPaths(tree, project, './testing')).toEqual([
+      'packages/lib1/src/testing/index.ts',
+    ]);
+  });
+
+  it('should skip entry points in build output folders', () => {
+    writePackageJson({ main: './dist/index.js', types: './dist/index.d.ts' });
+
+    expect(getPackageEntryPointPaths(tree, project)).toEqual([]);
+  });
+});
@@ -0,0 +1,112 @@
+import { ProjectConfiguration, Tree, normalizePath } from '@nx/devkit';
+import { posix as path } from 'node:path';
+import { collectExportTargets } from '../path-utils/collect-export-targets';
+import { hasSourceFileExtension } from '../path-utils/has-source-file-extension';
+import { readProjectPackageJson } from './read-project-package-json';
+
+/**
+ * Source extensions that compiled package entry points are built from.
+ */
+const compiledSourceExtensions: Record<string, string[]> = {
+  '.js': ['.ts', '.tsx'],
+  '.mjs': ['.mts'],
+  '.cjs': ['.cts'],
+};
+
+/**
+ * Gets the source files behind the root entry point of a project's package,
+ * from the `exports` (`.` or the conditions of the whole package), `types`,
+ * `typings`, `module`, and `main` fields of its package.json, or behind a
+ * subpath export (e.g. `./testing`) of the package.
+ *
+ * Entry points that point to compiled files or declarations next to their
+ * sources (e.g. `./src/index.js`) resolve to the source file; entry points in
+ * build output folders are skipped.
+ *
+ * @param tree - The virtual file system tree
+ * @param project - The project configuration
+ * @param subpath - Subpath export to resolve, the package root by default
+ * @returns Existing source files that the package entry point resolves to
+ */
+export function getPackageEntryPointPaths(
+  tree: Tree,
+  project: ProjectConfiguration,
+  subpath = '.',
+): string[] {
+  const packageJson = readProjectPackageJson(tree, project.root);
+  if (!packageJson) {
+    return [];
+  }
+
+  const targets =
+    subpath === '.'
+      ? [
+          ...collectExportTargets(getRootExport(packageJson.exports)),
+          packageJson.types,
+          packageJson.typings,
+          packageJson.module,
+          packageJson.main,
+        ]
+      : collectExportTargets(getSubpathExport(packageJson.exports, subpath));
+  const entryPointPaths = new Set<string>();
+  for (const target of targets) {
+    if (typeof target !== 'string') {
+      continue;
+    }
+
+    const sourcePath = resolveSourceFile(
+      tree,
+      normalizePath(path.join(project.root, target)),
+    );
+    if (sourcePath) {
+      entryPointPaths.add(sourcePath);
+    }
+  }
+
+  return Array.from(entryPointPaths);
+}
+
+/**
+ * Gets the `.` entry of subpath exports, or the exports of the whole package.
+ */
+function getRootExport(exports: unknown): unknown {
+  if (typeof exports !== 'object' || exports === null) {
+    return exports;
+  }
+
+  const keys = Object.keys(exports);
+  return keys.some((key) => key.startsWith('.'))
+    ? (exports as Record<string, unknown>)['.']
+    : exports;
+}
+
+/**
+ * Gets the entry of a subpath in subpath exports.
+ */
+function getSubpathExport(exports: unknown, subpath: string): unknown {
+  return typeof exports === 'object' && exports !== null
+    ? (exports as Record<string, unknown>)[subpath]
+    : undefined;
+}
+
+/**
+ * Resolves an entry point to the source file it is built from.
+ */
+function resolveSourceFile(tree: Tree, filePath: string): string | null {
+  const declarationMatch = /\.d\.([mc]?ts)$/.exec(filePath);
+  if (declarationMatch) {
+    const sourcePath = `${filePath.slice(0, declarationMatch.index)}.${declarationMatch[1]}`;
+    return tree.exists(sourcePath) ? sourcePath : null;
+  }
+  if (!hasSourceFileExtension(filePath)) {
+    return null;
+  }
+
+  const extension = path.extname(filePath);
+  const withoutExtension = filePath.slice(0, -extension.length);
+  const sourcePath = (compiledSourceExtensions[extension] ?? [])
+    .map((sourceExtension) => `${withoutExtension}${sourceExtension}`)
+    .find((candidate) => tree.exists(candidate));
+
+  return sourcePath ?? (tree.exists(filePath) ? filePath : null);
+}
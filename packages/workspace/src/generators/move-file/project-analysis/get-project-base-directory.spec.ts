@@ -0,0 +1,156 @@
+import { Tree, ProjectConfiguration, updateJson } from '@nx/devkit';
+import { createTreeWithEmptyWorkspace } from '@nx/devkit/testing';
+import { getProjectBaseDirectory } from './get-project-base-directory';
+
+describe('getProjectBaseDirectory', () => {
+  let tree: Tree;
+  const library: ProjectConfiguration = {
+    root: 'libs/lib1',
+    sourceRoot: 'libs/lib1/src',
+    projectType: 'library',
+  };
+  const application: ProjectConfiguration = {
+    root: 'apps/api',
+    sourceRoot: 'apps/api/src',
+    projectType: 'application',
+  };
+
+  beforeEach(() => {
+    tree = createTreeWithEmptyWorkspace();
+  });
+
+  describe('configuration', () => {
+    it('should use the base directory from the project metadata', () => {
+      updateJson(tree, 'nx.json', (json) => ({
+        ...json,
+        generators: {
+          '@nxworker/workspace:move-file': { baseDirectory: 'lib' },
+        },
+      }));
+
+      expect(
+        getProjectBaseDirectory(
+          tree,
+          {
+            ...library,
+            metadata: {
+              '@nxworker/workspace': { baseDirectory: 'utils' },
+            } as ProjectConfiguration['metadata'],
+          },
+          ['libs/lib1/src/lib/a.ts'],
+        ),
+      ).toBe('utils');
+    });
+
+    it('should use the move-file generator defaults from nx.json', () => {
+      updateJson(tree, 'nx.json', (json) => ({
+        ...json,
+        generators: {
+          '@nxworker/workspace:move-file': { baseDirectory: 'features' },
+        },
+      }));
+
+      expect(getProjectBaseDirectory(tree, library, [])).toBe('features');
+    });
+
+    it('should read generator defaults nested below the plugin name', () => {
+      updateJson(tree, 'nx.json', (json) => ({
+        ...json,
+        generators: {
+          '@nxworker/workspace': { 'move-file': { baseDirectory: 'shared' } },
+        },
+      }));
+
+      expect(getProjectBaseDirectory(tree, library, [])).toBe('shared');
+    });
+
+    it('should pick the base directory for the project type', () => {
+      updateJson(tree, 'nx.json', (json) => ({
+        ...json,
+        generators: {
+          '@nxworker/workspace:move-file': {
+            baseDirectory: { application: '.', library: 'lib' },
+          },
+        },
+      }));
+
+      expect(getProjectBaseDirectory(tree, application, [])).toBe('');
+      expect(getProjectBaseDirectory(tree, library, [])).toBe('lib');
+    });
+
+    it('should reject a base directory that is not a string', () => {
+      updateJson(tree, 'nx.json', (json) => ({
+        ...json,
+        generators: {
+          '@nxworker/workspace:move-file': { baseDirectory: 1 },
+        },
+      }));
+
+      expect(() => getProjectBaseDirectory(tree, library, [])).toThrow(
+        'Invalid "baseDirectory" in the @nxworker/workspace:move-file generator defaults in nx.json',
+      );
+    });
+
+    it('should reject a base directory outside the source root', () => {
+      updateJson(tree, 'nx.json', (json) => ({
+        ...json,
+        generators: {
+          '@nxworker/workspace:move-file': { baseDirectory: '../shared' },
+        },
+      }));
+
+      expect(() => getProjectBaseDirectory(tree, library, [])).toThrow(
+        'path traversal detected',
+      );
+    });
+  });
+
+  describe('inference', () => {
+    it('should keep lib when the library uses it', () => {
+      expect(
+        getProjectBaseDirectory(tree, library, [
+          'libs/lib1/src/index.ts',
+          'libs/lib1/src/utils.ts',
+          'libs/lib1/src/lib/a.ts',
+        ]),
+      ).toBe('lib');
+    });
+
+    it('should fall back to the conventional directory for empty projects', () => {
+      expect(
+        getProjectBaseDirectory(tree, library, ['libs/lib1/src/index.ts']),
+      ).toBe('lib');
+      expect(getProjectBaseDirectory(tree, application, [])).toBe('app');
+    });
+
+    it('should use the source root when files live next to the entrypoint', () => {
+      expect(
+        getProjectBaseDirectory(tree, application, [
+          'apps/api/src/main.ts',
+          'apps/api/src/routes/users.ts',
+        ]),
+      ).toBe('');
+    });
+
+    it('should use the only top-level directory that holds source files', () => {
+      expect(
+        getProjectBaseDirectory(tree, library, [
+          'libs/lib1/src/index.ts',
+          'libs/lib1/src/utils/format.ts',
+          'libs/lib1/src/utils/parse/parse.ts',
+          'libs/lib1/README.md',
+        ]),
+      ).toBe('utils');
+    });
+
+    it('should use the source root when source files are spread over several directories', () => {
+      expect(
+        getProjectBaseDirectory(tree, library, [
+          'libs/lib1/src/index.ts',
+          'libs/lib1/src/utils/format.ts',
+          'libs/lib1/src/models/user.ts',
+        ]),
+      ).toBe('');
+    });
+  });
+});
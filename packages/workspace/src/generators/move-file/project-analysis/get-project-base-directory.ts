@@ -0,0 +1,151 @@
+import { readNxJson } from '@nx/devkit';
+import type { ProjectConfiguration, Tree } from '@nx/devkit';
+import { posix as path } from 'node:path';
+import { hasSourceFileExtension } from '../path-utils/has-source-file-extension';
+import { sanitizePath } from '../security-utils/sanitize-path';
+import { isObject } from '../validation/is-object';
+import { getProjectEntryPointPaths } from './get-project-entry-point-paths';
+
+const pluginName = '@nxworker/workspace';
+const generatorName = 'move-file';
+
+/**
+ * Gets the directory below a project's source root that files moved into the
+ * project are placed in, and that `deriveProjectDirectory` strips from source
+ * paths. An empty string stands for the source root itself.
+ *
+ * The first of these wins:
+ * 1. `baseDirectory` in the project's `metadata["@nxworker/workspace"]`
+ * 2. `baseDirectory` in the `@nxworker/workspace:move-file` generator defaults
+ *    of `nx.json`, either one directory or one per project type
+ *    (`{ "application": "", "library": "lib" }`)
+ * 3. The convention of the project's existing source files (see
+ *    inferBaseDirectory)
+ *
+ * @param tree - The virtual file system tree
+ * @param project - Project configuration
+ * @param projectFiles - Files of the project, used to infer the convention
+ * @returns The base directory relative to the source root
+ */
+export function getProjectBaseDirectory(
+  tree: Tree,
+  project: ProjectConfiguration,
+  projectFiles: string[],
+): string {
+  const metadata = project.metadata as Record<string, unknown> | undefined;
+  const configured =
+    pickBaseDirectory(
+      metadata?.[pluginName],
+      project,
+      `the metadata of project "${project.root}"`,
+    ) ??
+    pickBaseDirectory(
+      getGeneratorDefaults(tree),
+      project,
+      `the ${pluginName}:${generatorName} generator defaults in nx.json`,
+    );
+  if (configured !== undefined) {
+    return configured;
+  }
+
+  return inferBaseDirectory(tree, project, projectFiles);
+}
+
+/**
+ * Reads the move-file generator defaults from nx.json, which may be keyed by
+ * `plugin:generator` or nested below the plugin name.
+ */
+function getGeneratorDefaults(tree: Tree): unknown {
+  const generators = readNxJson(tree)?.generators as
+    | Record<string, unknown>
+    | undefined;
+  const pluginDefaults = generators?.[pluginName];
+
+  return (
+    generators?.[`${pluginName}:${generatorName}`] ??
+    (isObject(pluginDefaults) ? pluginDefaults[generatorName] : undefined)
+  );
+}
+
+/**
+ * Picks the base directory for the project's type from a settings object.
+ */
+function pickBaseDirectory(
+  settings: unknown,
+  project: ProjectConfiguration,
+  location: string,
+): string | undefined {
+  if (!isObject(settings)) {
+    return undefined;
+  }
+
+  const setting = settings['baseDirectory'];
+  const value = isObject(setting)
+    ? setting[project.projectType === 'application' ? 'application' : 'library']
+    : setting;
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== 'string') {
+    throw new Error(
+      `Invalid "baseDirectory" in ${location}: expected a directory relative to the source root`,
+    );
+  }
+
+  const baseDirectory = sanitizePath(value);
+  return baseDirectory === '.' ? '' : baseDirectory;
+}
+
+/**
+ * Infers the base directory from where the project's source files live:
+ * - `app` for applications or `lib` for libraries when that directory holds
+ *   source files, or when the project has no source files besides its
+ *   entrypoint
+ * - the only top-level directory below the source root that holds source
+ *   files, when there are no other files next to the entrypoint
+ * - the source root itself otherwise
+ */
+function inferBaseDirectory(
+  tree: Tree,
+  project: ProjectConfiguration,
+  projectFiles: string[],
+): string {
+  const conventionalDirectory =
+    project.projectType === 'application' ? 'app' : 'lib';
+  const sourceRoot = project.sourceRoot || path.join(project.root, 'src');
+  const entryPointPaths = new Set(getProjectEntryPointPaths(tree, project));
+  const topLevelDirectories = new Set<string>();
+  let hasRootFiles = false;
+
+  for (const filePath of projectFiles) {
+    if (
+      !filePath.startsWith(`${sourceRoot}/`) ||
+      !hasSourceFileExtension(filePath) ||
+      entryPointPaths.has(filePath)
+    ) {
+      continue;
+    }
+
+    const relativePath = filePath.slice(sourceRoot.length + 1);
+    const separatorIndex = relativePath.indexOf('/');
+    if (separatorIndex === -1) {
+      hasRootFiles = true;
+      continue;
+    }
+
+    const directory = relativePath.slice(0, separatorIndex);
+    if (directory === conventionalDirectory) {
+      return conventionalDirectory;
+    }
+    topLevelDirectories.add(directory);
+  }
+
+  if (hasRootFiles) {
+    return '';
+  }
+  if (topLevelDirectories.size === 0) {
+    return conventionalDirectory;
+  }
+
+  return topLevelDirectories.size === 1 ? [...topLevelDirectories][0] : '';
+}
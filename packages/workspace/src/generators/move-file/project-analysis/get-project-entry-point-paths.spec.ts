@@ -2,6 +2,7 @@ import { Tree, ProjectConfiguration } from '@nx/devkit';
 import { createTreeWithEmptyWorkspace } from '@nx/devkit/testing';
 import { getProjectEntryPointPaths } from './get-project-entry-point-paths';
 import { clearCompilerPathsCache } from './read-compiler-paths';
+import { treeReadCache } from '../tree-cache';
 
 describe('getProjectEntryPointPaths', () => {
   let tree: Tree;
@@ -229,4 +230,58 @@ describe('getProjectEntryPointPaths', () => {
       expect(result).toContain('packages/lib1/src/index.ts');
     });
   });
+
+  describe('package-based workspaces', () => {
+    beforeEach(() => {
+      treeReadCache.clear();
+      tree.write(
+        'package.json',
+        JSON.stringify({ name: 'root', workspaces: ['packages/*'] }),
+      );
+    });
+
+    afterEach(() => {
+      treeReadCache.clear();
+    });
+
+    it('should find the entry point from the package.json exports', () => {
+      tree.write(
+        'packages/lib1/package.json',
+        JSON.stringify({ name: '@myorg/lib1', exports: './src/main.ts' }),
+      );
+      tree.write('packages/lib1/src/main.ts', '');
+
+      const result = getProjectEntryPointPaths(tree, project);
+
+      expect(result[0]).toBe('packages/lib1/src/main.ts');
+      expect(result).toContain('packages/lib1/src/index.ts');
+    });
+  });
+
+  describe('secondary entry points', () => {
+    beforeEach(() => {
+      treeReadCache.clear();
+    });
+
+    afterEach(() => {
+      treeReadCache.clear();
+    });
+
+    it('should include the barrels of ng-packagr secondary entry points', () => {
+      tree.write(
+        'packages/lib1/package.json',
+        JSON.stringify({ name: '@myorg/lib1' }),
+      );
+      tree.write('packages/lib1/ng-package.json', '{}');
+      tree.write(
+        'packages/lib1/testing/ng-package.json',
+        JSON.stringify({ lib: { entryFile: 'src/index.ts' } }),
+      );
+      tree.write('packages/lib1/testing/src/index.ts', '');
+
+      const result = getProjectEntryPointPaths(tree, project);
+
+      expect(result).toContain('packages/lib1/testing/src/index.ts');
+    });
+  });
 });
@@ -3,12 +3,18 @@ import { readCompilerPaths } from './read-compiler-paths';
 import { toFirstPath } from './to-first-path';
 import { pointsToProjectIndex } from './points-to-project-index';
 import { getFallbackEntryPointPaths } from './get-fallback-entry-point-paths';
+import { getPackageEntryPointPaths } from './get-package-entry-point-paths';
+import { isPackageBasedWorkspace } from './is-package-based-workspace';
+import { isUsingProjectReferences } from './is-using-project-references';
+import { getSecondaryEntryPoints } from './get-secondary-entry-points';
 
 /**
  * Gets all possible entry point paths for a project.
  *
- * First attempts to find entry points from TypeScript compiler paths,
- * then falls back to common entry point locations.
+ * First attempts to find entry points from TypeScript compiler paths and,
+ * in package-based workspaces, from the project's package.json, adds the
+ * barrels of secondary entry points (see getSecondaryEntryPoints), then falls
+ * back to common entry point locations.
  *
  * @param tree - The virtual file system tree
  * @param project - The project configuration
@@ -48,6 +54,14 @@ export function getProjectEntryPointPaths(
     }
   }
 
+  if (isPackageBasedWorkspace(tree) || isUsingProjectReferences(tree)) {
+    getPackageEntryPointPaths(tree, project).forEach(addCandidate);
+  }
+
+  getSecondaryEntryPoints(tree, project).forEach(({ filePath }) =>
+    addCandidate(filePath),
+  );
+
   getFallbackEntryPointPaths(project).forEach(addCandidate);
 
   return candidates;
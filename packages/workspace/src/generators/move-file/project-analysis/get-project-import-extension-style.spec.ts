@@ -0,0 +1,74 @@
+import { Tree } from '@nx/devkit';
+import { createTreeWithEmptyWorkspace } from '@nx/devkit/testing';
+import { getProjectImportExtensionStyle } from './get-project-import-extension-style';
+import { clearProjectCompilerOptionsCache } from './read-project-compiler-options';
+import { treeReadCache } from '../tree-cache';
+
+describe('getProjectImportExtensionStyle', () => {
+  let tree: Tree;
+
+  beforeEach(() => {
+    clearProjectCompilerOptionsCache();
+    treeReadCache.clear();
+    tree = createTreeWithEmptyWorkspace();
+  });
+
+  afterEach(() => {
+    clearProjectCompilerOptionsCache();
+    treeReadCache.clear();
+  });
+
+  it('should return none for bundler-style module resolution', () => {
+    tree.write(
+      'packages/lib1/tsconfig.lib.json',
+      JSON.stringify({
+        compilerOptions: { module: 'esnext', moduleResolution: 'bundler' },
+      }),
+    );
+
+    expect(getProjectImportExtensionStyle(tree, 'packages/lib1')).toBe('none');
+  });
+
+  it('should return js for nodenext module resolution', () => {
+    tree.write(
+      'packages/lib1/tsconfig.lib.json',
+      JSON.stringify({
+        compilerOptions: { module: 'nodenext', moduleResolution: 'NodeNext' },
+      }),
+    );
+
+    expect(getProjectImportExtensionStyle(tree, 'packages/lib1')).toBe('js');
+  });
+
+  it('should derive the module resolution from node16 module', () => {
+    tree.write(
+      'packages/lib1/tsconfig.json',
+      JSON.stringify({ compilerOptions: { module: 'Node16' } }),
+    );
+
+    expect(getProjectImportExtensionStyle(tree, 'packages/lib1')).toBe('js');
+  });
+
+  it('should return ts with allowImportingTsExtensions', () => {
+    tree.write(
+      'packages/lib1/tsconfig.lib.json',
+      JSON.stringify({
+        compilerOptions: {
+          moduleResolution: 'nodenext',
+          allowImportingTsExtensions: true,
+        },
+      }),
+    );
+
+    expect(getProjectImportExtensionStyle(tree, 'packages/lib1')).toBe('ts');
+  });
+
+  it('should fall back to the root tsconfig files', () => {
+    tree.write(
+      'tsconfig.base.json',
+      JSON.stringify({ compilerOptions: { module: 'nodenext' } }),
+    );
+
+    expect(getProjectImportExtensionStyle(tree, 'packages/lib1')).toBe('js');
+  });
+});
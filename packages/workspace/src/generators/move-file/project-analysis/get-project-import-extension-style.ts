@@ -0,0 +1,33 @@
+import type { Tree } from '@nx/devkit';
+import type { ImportExtensionStyle } from '../types/import-extension-style';
+import { readProjectCompilerOptions } from './read-project-compiler-options';
+
+/**
+ * Gets how new relative imports in a project name files, from the compiler
+ * options of its tsconfig (following `extends`):
+ * `ts` with `allowImportingTsExtensions`, `js` with `node16` or `nodenext`
+ * module resolution, and `none` otherwise.
+ *
+ * @param tree - The virtual file system tree
+ * @param projectRoot - Root directory of the project
+ * @returns The import extension style of the project
+ */
+export function getProjectImportExtensionStyle(
+  tree: Tree,
+  projectRoot: string,
+): ImportExtensionStyle {
+  const options = readProjectCompilerOptions(tree, projectRoot);
+  const moduleResolution = (
+    options.moduleResolution ??
+    options.module ??
+    ''
+  ).toLowerCase();
+
+  if (options.allowImportingTsExtensions === true) {
+    return 'ts';
+  }
+
+  return moduleResolution === 'node16' || moduleResolution === 'nodenext'
+    ? 'js'
+    : 'none';
+}
@@ -69,6 +69,25 @@ describe('getProjectImportPath', () => {
       expect(result).toBe('@myorg/lib1');
     });
 
+    it('should skip the aliases of secondary entry points', () => {
+      tree.write(
+        'tsconfig.base.json',
+        JSON.stringify({
+          compilerOptions: {
+            paths: {
+              '@myorg/lib1/testing': ['packages/lib1/src/testing/index.ts'],
+              '@myorg/lib1': ['packages/lib1/src/index.ts'],
+            },
+          },
+        }),
+      );
+      tree.write('packages/lib1/src/testing/index.ts', '');
+
+      const result = getProjectImportPath(tree, 'lib1', project);
+
+      expect(result).toBe('@myorg/lib1');
+    });
+
     it('should work with actual file existing', () => {
       tree.write('packages/lib1/src/index.ts', 'export * from "./lib";');
       tree.write(
@@ -297,4 +316,83 @@ describe('getProjectImportPath', () => {
       expect(result).toBe('@myorg/lib1');
     });
   });
+
+  describe('project references', () => {
+    beforeEach(() => {
+      tree.write(
+        'packages/lib1/package.json',
+        JSON.stringify({ name: '@myorg/lib1' }),
+      );
+    });
+
+    it('should use the package name of a linked workspace package', () => {
+      tree.write(
+        'tsconfig.json',
+        JSON.stringify({
+          files: [],
+          references: [{ path: './packages/lib1' }],
+        }),
+      );
+
+      const result = getProjectImportPath(tree, 'lib1', project);
+
+      expect(result).toBe('@myorg/lib1');
+    });
+
+    it('should prefer a path alias over the package name', () => {
+      tree.write(
+        'tsconfig.json',
+        JSON.stringify({
+          compilerOptions: {
+            paths: { '@alias/lib1': ['packages/lib1/src/index.ts'] },
+          },
+          references: [{ path: './packages/lib1' }],
+        }),
+      );
+
+      const result = getProjectImportPath(tree, 'lib1', project);
+
+      expect(result).toBe('@alias/lib1');
+    });
+
+    it('should ignore the package name without project references', () => {
+      const result = getProjectImportPath(tree, 'lib1', project);
+
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('package-based workspaces', () => {
+    beforeEach(() => {
+      tree.write(
+        'package.json',
+        JSON.stringify({ name: 'root', workspaces: ['packages/*'] }),
+      );
+    });
+
+    it('should use the package name of a workspace package', () => {
+      tree.write(
+        'packages/lib1/package.json',
+        JSON.stringify({ name: '@myorg/lib1', exports: './src/index.ts' }),
+      );
+
+      const result = getProjectImportPath(tree, 'lib1', project);
+
+      expect(result).toBe('@myorg/lib1');
+    });
+
+    it('should return null when the exports do not include the package root', () => {
+      tree.write(
+        'packages/lib1/package.json',
+        JSON.stringify({
+          name: '@myorg/lib1',
+          exports: { './testing': './src/testing.ts' },
+        }),
+      );
+
+      const result = getProjectImportPath(tree, 'lib1', project);
+
+      expect(result).toBeNull();
+    });
+  });
 });
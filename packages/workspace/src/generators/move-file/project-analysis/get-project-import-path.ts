@@ -1,4 +1,7 @@
 import { ProjectConfiguration, Tree } from '@nx/devkit';
+import { isPackageBasedWorkspace } from './is-package-based-workspace';
+import { isUsingProjectReferences } from './is-using-project-references';
+import { readProjectPackageJson } from './read-project-package-json';
 import { readCompilerPaths } from './read-compiler-paths';
 import { toFirstPath } from './to-first-path';
 import { pointsToProjectIndex } from './points-to-project-index';
@@ -21,11 +24,42 @@ function resolveWildcardAlias(
   return alias.replace(/\*/g, projectDirName || projectName);
 }
 
+/**
+ * Gets the package name that other workspace packages import a project by.
+ *
+ * @param tree - The virtual file system tree
+ * @param projectRoot - Root directory of the project
+ * @returns The package name, or null if the project has no named package.json
+ *   or its `exports` do not include the package root
+ */
+function getPackageImportPath(tree: Tree, projectRoot: string): string | null {
+  const packageJson = readProjectPackageJson(tree, projectRoot);
+  const name = packageJson?.name;
+  if (typeof name !== 'string' || !name) {
+    return null;
+  }
+
+  const exports = packageJson.exports;
+  if (typeof exports === 'object' && exports !== null) {
+    const subpaths = Object.keys(exports).filter((key) => key.startsWith('.'));
+    if (subpaths.length > 0 && !subpaths.includes('.')) {
+      return null;
+    }
+  }
+
+  return name;
+}
+
 /**
  * Gets the TypeScript import path for a project from tsconfig.base.json.
  *
  * Searches through TypeScript compiler paths to find the alias that points
- * to the project's index file.
+ * to the project's index file, skipping the aliases of secondary entry
+ * points nested below it (e.g. `@org/ui/testing`). In package-based
+ * workspaces (npm, yarn, or pnpm workspaces, or TypeScript project
+ * references), projects without such an alias are imported through their
+ * linked workspace package, so the package name from their package.json is
+ * used when it exports the package root.
  *
  * @param tree - The virtual file system tree
  * @param projectName - The project name
@@ -37,13 +71,10 @@ export function getProjectImportPath(
   projectName: string,
   project: ProjectConfiguration,
 ): string | null {
-  const paths = readCompilerPaths(tree);
-  if (!paths) {
-    return null;
-  }
-
+  const paths = readCompilerPaths(tree) ?? {};
   const sourceRoot = project.sourceRoot || project.root;
 
+  const aliases: string[] = [];
   for (const [alias, pathEntry] of Object.entries(paths)) {
     const pathStr = toFirstPath(pathEntry);
     if (!pathStr) {
@@ -54,12 +85,22 @@ export function getProjectImportPath(
       continue;
     }
 
-    if (isWildcardAlias(alias, pathStr)) {
-      return resolveWildcardAlias(alias, sourceRoot, projectName);
-    }
+    aliases.push(
+      isWildcardAlias(alias, pathStr)
+        ? resolveWildcardAlias(alias, sourceRoot, projectName)
+        : alias,
+    );
+  }
 
-    return alias;
+  // Aliases of secondary entry points are nested below the project's alias
+  const importPath = aliases.find(
+    (alias) => !aliases.some((other) => alias.startsWith(`${other}/`)),
+  );
+  if (importPath) {
+    return importPath;
   }
 
-  return null;
+  return isPackageBasedWorkspace(tree) || isUsingProjectReferences(tree)
+    ? getPackageImportPath(tree, project.root)
+    : null;
 }
@@ -0,0 +1,45 @@
+import { Tree } from '@nx/devkit';
+import { createTreeWithEmptyWorkspace } from '@nx/devkit/testing';
+import { getProjectPackageImports } from './get-project-package-imports';
+import { treeReadCache } from '../tree-cache';
+
+describe('getProjectPackageImports', () => {
+  let tree: Tree;
+
+  beforeEach(() => {
+    treeReadCache.clear();
+    tree = createTreeWithEmptyWorkspace();
+  });
+
+  afterEach(() => {
+    treeReadCache.clear();
+  });
+
+  it('should read the imports of the package.json at the project root', () => {
+    tree.write(
+      'packages/api/package.json',
+      JSON.stringify({
+        name: '@myorg/api',
+        imports: { '#db/*': './src/db/*.ts' },
+      }),
+    );
+
+    expect(getProjectPackageImports(tree, 'packages/api')).toEqual({
+      root: 'packages/api',
+      imports: { '#db/*': './src/db/*.ts' },
+    });
+  });
+
+  it('should return undefined without imports', () => {
+    tree.write(
+      'packages/api/package.json',
+      JSON.stringify({ name: '@myorg/api' }),
+    );
+
+    expect(getProjectPackageImports(tree, 'packages/api')).toBeUndefined();
+  });
+
+  it('should return undefined without a package.json', () => {
+    expect(getProjectPackageImports(tree, 'packages/api')).toBeUndefined();
+  });
+});
@@ -0,0 +1,27 @@
+import type { Tree } from '@nx/devkit';
+import type { PackageImports } from '../types/package-imports';
+import { readProjectPackageJson } from './read-project-package-json';
+
+/**
+ * Gets the subpath imports (`#db/*`) that the files of a project can use,
+ * from the `imports` field of the package.json at the project's root.
+ *
+ * @param tree - The virtual file system tree
+ * @param projectRoot - Root directory of the project
+ * @returns The subpath imports of the project, or undefined if it declares none
+ */
+export function getProjectPackageImports(
+  tree: Tree,
+  projectRoot: string,
+): PackageImports | undefined {
+  const imports = readProjectPackageJson(tree, projectRoot)?.imports;
+  if (
+    typeof imports !== 'object' ||
+    imports === null ||
+    Array.isArray(imports)
+  ) {
+    return undefined;
+  }
+
+  return { root: projectRoot, imports: imports as Record<string, unknown> };
+}
@@ -0,0 +1,142 @@
+import { Tree, ProjectConfiguration } from '@nx/devkit';
+import { createTreeWithEmptyWorkspace } from '@nx/devkit/testing';
+import { getRelativeDependencyClosure } from './get-relative-dependency-closure';
+import { astCache } from '../ast-cache';
+import { treeReadCache } from '../tree-cache';
+import { clearIndexExportsCache } from '../export-management/index-exports-cache';
+
+describe('getRelativeDependencyClosure', () => {
+  let tree: Tree;
+  const project: ProjectConfiguration = {
+    root: 'libs/lib1',
+    sourceRoot: 'libs/lib1/src',
+    projectType: 'library',
+  };
+  const treeExists = (t: Tree, filePath: string) => t.exists(filePath);
+  const getProjectSourceFiles = (t: Tree, projectRoot: string) =>
+    [
+      'libs/lib1/src/index.ts',
+      'libs/lib1/src/lib/feature.ts',
+      'libs/lib1/src/lib/helper.ts',
+      'libs/lib1/src/lib/format.ts',
+      'libs/lib1/src/lib/shared.ts',
+      'libs/lib1/src/lib/public.ts',
+      'libs/lib1/src/lib/other.ts',
+    ].filter(
+      (filePath) =>
+        filePath.startsWith(`${projectRoot}/`) && t.exists(filePath),
+    );
+
+  beforeEach(() => {
+    tree = createTreeWithEmptyWorkspace();
+    astCache.clear();
+    treeReadCache.clear();
+    clearIndexExportsCache();
+
+    tree.write(
+      'libs/lib1/src/index.ts',
+      "export * from './lib/feature';\nexport * from './lib/public';\n",
+    );
+    tree.write(
+      'libs/lib1/src/lib/feature.ts',
+      "import { helper } from './helper';\nimport { shared } from './shared';\nimport { pub } from './public';\nimport styles from './feature.module.css';\nexport const feature = () => helper() + shared + pub + styles;\n",
+    );
+    tree.write(
+      'libs/lib1/src/lib/helper.ts',
+      "import { format } from './format';\nexport const helper = () => format();\n",
+    );
+    tree.write(
+      'libs/lib1/src/lib/format.ts',
+      'export const format = () => 1;\n',
+    );
+    tree.write('libs/lib1/src/lib/feature.module.css', '.root {}\n');
+    tree.write('libs/lib1/src/lib/shared.ts', 'export const shared = 1;\n');
+    tree.write('libs/lib1/src/lib/public.ts', 'export const pub = 1;\n');
+    tree.write(
+      'libs/lib1/src/lib/other.ts',
+      "import { shared } from './shared';\nexport const other = shared;\n",
+    );
+  });
+
+  it('should separate exclusive and shared unexported dependencies', () => {
+    const result = getRelativeDependencyClosure(
+      tree,
+      ['libs/lib1/src/lib/feature.ts'],
+      project,
+      getProjectSourceFiles,
+      treeExists,
+    );
+
+    expect(result.exclusive).toEqual([
+      {
+        filePath: 'libs/lib1/src/lib/feature.module.css',
+        importedBy: ['libs/lib1/src/lib/feature.ts'],
+      },
+      {
+        filePath: 'libs/lib1/src/lib/format.ts',
+        importedBy: ['libs/lib1/src/lib/helper.ts'],
+      },
+      {
+        filePath: 'libs/lib1/src/lib/helper.ts',
+        importedBy: ['libs/lib1/src/lib/feature.ts'],
+      },
+    ]);
+    expect(result.shared).toEqual([
+      {
+        filePath: 'libs/lib1/src/lib/shared.ts',
+        importedBy: ['libs/lib1/src/lib/feature.ts'],
+      },
+    ]);
+  });
+
+  it('should treat dependencies of shared dependencies as shared', () => {
+    tree.write(
+      'libs/lib1/src/lib/other.ts',
+      "import { helper } from './helper';\nexport const other = helper;\n",
+    );
+
+    const result = getRelativeDependencyClosure(
+      tree,
+      ['libs/lib1/src/lib/feature.ts'],
+      project,
+      getProjectSourceFiles,
+      treeExists,
+    );
+
+    expect(result.exclusive.map(({ filePath }) => filePath)).toEqual([
+      'libs/lib1/src/lib/feature.module.css',
+      'libs/lib1/src/lib/shared.ts',
+    ]);
+    // format.ts stays with helper.ts and is not imported by moving files
+    expect(result.shared.map(({ filePath }) => filePath)).toEqual([
+      'libs/lib1/src/lib/helper.ts',
+    ]);
+  });
+
+  it('should treat dependencies imported only by other moved files as exclusive', () => {
+    const result = getRelativeDependencyClosure(
+      tree,
+      ['libs/lib1/src/lib/feature.ts', 'libs/lib1/src/lib/other.ts'],
+      project,
+      getProjectSourceFiles,
+      treeExists,
+    );
+
+    expect(result.exclusive.map(({ filePath }) => filePath)).toContain(
+      'libs/lib1/src/lib/shared.ts',
+    );
+    expect(result.shared).toEqual([]);
+  });
+
+  it('should return empty results for files without relative dependencies', () => {
+    const result = getRelativeDependencyClosure(
+      tree,
+      ['libs/lib1/src/lib/public.ts'],
+      project,
+      getProjectSourceFiles,
+      treeExists,
+    );
+
+    expect(result).toEqual({ exclusive: [], shared: [] });
+  });
+});
@@ -0,0 +1,161 @@
+import { Tree, ProjectConfiguration, normalizePath } from '@nx/devkit';
+import { posix as path } from 'node:path';
+import { collectImportSpecifiers } from '../jscodeshift-utils';
+import { resolveRelativeImport } from '../path-utils/resolve-relative-import';
+import { isFileExported } from '../export-management/is-file-exported';
+import { getProjectEntryPointPaths } from './get-project-entry-point-paths';
+
+/**
+ * A relative dependency of the files being moved.
+ */
+export interface RelativeDependency {
+  /**
+   * Workspace path of the dependency.
+   */
+  filePath: string;
+
+  /**
+   * Files being moved (or moving along) that import the dependency directly.
+   */
+  importedBy: string[];
+}
+
+/**
+ * Relative dependencies of a set of files that the project does not export.
+ */
+export interface RelativeDependencyClosure {
+  /**
+   * Dependencies that are only imported by the moved files and by other
+   * exclusive dependencies. They can move along without breaking any import.
+   */
+  exclusive: RelativeDependency[];
+
+  /**
+   * Dependencies that the moved files or exclusive dependencies import
+   * directly, but that are also imported by files staying in the project.
+   */
+  shared: RelativeDependency[];
+}
+
+/**
+ * Computes the closure of relative dependencies of files that move out of a
+ * project.
+ *
+ * Only dependencies inside the project that are not exported from its entry
+ * point are included; exported dependencies remain reachable through the
+ * project's alias. Project entry points are never included.
+ *
+ * @param tree - The virtual file system tree.
+ * @param filePaths - Files of the project that are being moved.
+ * @param project - The project the files are moved out of.
+ * @param getProjectSourceFiles - Function to get project source files with caching.
+ * @param cachedTreeExists - Function to check file existence with caching.
+ * @returns Exclusive and shared unexported dependencies, sorted by path.
+ */
+export function getRelativeDependencyClosure(
+  tree: Tree,
+  filePaths: string[],
+  project: ProjectConfiguration,
+  getProjectSourceFiles: (tree: Tree, projectRoot: string) => string[],
+  cachedTreeExists: (tree: Tree, filePath: string) => boolean,
+): RelativeDependencyClosure {
+  const sourceRoot = project.sourceRoot || project.root;
+  const movedFiles = new Set(
+    filePaths.map((filePath) => normalizePath(filePath)),
+  );
+  const entryPoints = new Set(
+    getProjectEntryPointPaths(tree, project).map((entryPoint) =>
+      normalizePath(entryPoint),
+    ),
+  );
+
+  const getDependencies = (filePath: string): string[] =>
+    collectImportSpecifiers(tree, filePath)
+      .filter((specifier) => specifier.startsWith('.'))
+      .map((specifier) =>
+        resolveRelativeImport(
+          tree,
+          path.dirname(filePath),
+          specifier,
+          cachedTreeExists,
+        ),
+      )
+      .filter((dependency): dependency is string => !!dependency);
+
+  const isCandidate = (dependency: string): boolean =>
+    !movedFiles.has(dependency) &&
+    !entryPoints.has(dependency) &&
+    dependency.startsWith(`${normalizePath(project.root)}/`) &&
+    !isFileExported(
+      tree,
+      project,
+      path.relative(sourceRoot, dependency),
+      cachedTreeExists,
+    );
+
+  // Walk the unexported dependencies reachable from the moved files
+  const importedBy = new Map<string, Set<string>>();
+  const queue = Array.from(movedFiles);
+  while (queue.length > 0) {
+    const filePath = queue.shift() as string;
+    for (const dependency of getDependencies(filePath)) {
+      if (!isCandidate(dependency)) {
+        continue;
+      }
+      if (!importedBy.has(dependency)) {
+        importedBy.set(dependency, new Set());
+        queue.push(dependency);
+      }
+      importedBy.get(dependency)?.add(filePath);
+    }
+  }
+
+  // Find which candidates are imported by files that stay in the project
+  const candidates = new Set(importedBy.keys());
+  const importersOf = new Map<string, string[]>();
+  for (const filePath of getProjectSourceFiles(tree, project.root)) {
+    if (movedFiles.has(filePath)) {
+      continue;
+    }
+    for (const dependency of getDependencies(filePath)) {
+      if (candidates.has(dependency)) {
+        importersOf.set(dependency, [
+          ...(importersOf.get(dependency) ?? []),
+          filePath,
+        ]);
+      }
+    }
+  }
+
+  // A candidate is exclusive when all of its importers move, which in turn
+  // depends on which other candidates are exclusive
+  const exclusive = new Set(candidates);
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const candidate of exclusive) {
+      const importers = importersOf.get(candidate) ?? [];
+      if (importers.some((importer) => !exclusive.has(importer))) {
+        exclusive.delete(candidate);
+        changed = true;
+      }
+    }
+  }
+
+  const isMoving = (filePath: string): boolean =>
+    movedFiles.has(filePath) || exclusive.has(filePath);
+  const toDependency = (filePath: string): RelativeDependency => ({
+    filePath,
+    importedBy: Array.from(importedBy.get(filePath) ?? []).filter(isMoving),
+  });
+
+  const dependencies = Array.from(candidates).sort().map(toDependency);
+
+  return {
+    exclusive: dependencies.filter(({ filePath }) => exclusive.has(filePath)),
+    shared: dependencies.filter(
+      ({ filePath, importedBy }) =>
+        !exclusive.has(filePath) && importedBy.length > 0,
+    ),
+  };
+}
@@ -0,0 +1,168 @@
+import { Tree, ProjectConfiguration, updateJson } from '@nx/devkit';
+import { createTreeWithEmptyWorkspace } from '@nx/devkit/testing';
+import { getRemovedDependencyEdges } from './get-removed-dependency-edges';
+import { clearCache } from '../jscodeshift-utils';
+import { clearCompilerPathsCache } from './read-compiler-paths';
+import { clearProjectAliasesCache } from './read-project-aliases';
+import { treeReadCache } from '../tree-cache';
+import type { MoveContext } from '../types/move-context';
+
+describe('getRemovedDependencyEdges', () => {
+  let tree: Tree;
+  let projects: Map<string, ProjectConfiguration>;
+
+  const getProjectSourceFiles = (t: Tree, projectRoot: string): string[] => {
+    const files: string[] = [];
+    const visit = (dir: string): void => {
+      for (const child of t.children(dir)) {
+        const childPath = `${dir}/${child}`;
+        if (!t.isFile(childPath)) {
+          visit(childPath);
+        } else if (childPath.endsWith('.ts')) {
+          files.push(childPath);
+        }
+      }
+    };
+    visit(projectRoot);
+    return files;
+  };
+  const cachedTreeExists = (t: Tree, filePath: string): boolean =>
+    t.exists(filePath);
+
+  const createContext = (overrides: Partial<MoveContext> = {}): MoveContext =>
+    ({
+      normalizedSource: 'libs/shared/src/lib/widget.ts',
+      normalizedTarget: 'libs/util/src/lib/widget.ts',
+      sourceProject: projects.get('shared'),
+      sourceProjectName: 'shared',
+      targetProject: projects.get('util'),
+      targetProjectName: 'util',
+      isSameProject: false,
+      ...overrides,
+    }) as MoveContext;
+
+  beforeEach(() => {
+    clearCache();
+    clearCompilerPathsCache();
+    clearProjectAliasesCache();
+    treeReadCache.clear();
+    tree = createTreeWithEmptyWorkspace();
+    updateJson(tree, 'tsconfig.base.json', (json) => {
+      json.compilerOptions = json.compilerOptions || {};
+      json.compilerOptions.paths = {
+        '@org/shared': ['libs/shared/src/index.ts'],
+        '@org/util': ['libs/util/src/index.ts'],
+        '@org/feature': ['libs/feature/src/index.ts'],
+      };
+      return json;
+    });
+    projects = new Map<string, ProjectConfiguration>([
+      ['shared', { root: 'libs/shared', sourceRoot: 'libs/shared/src' }],
+      ['util', { root: 'libs/util', sourceRoot: 'libs/util/src' }],
+      ['feature', { root: 'libs/feature', sourceRoot: 'libs/feature/src' }],
+    ]);
+    tree.write('libs/shared/src/index.ts', "export * from './lib/widget';\n");
+    tree.write('libs/util/src/index.ts', '');
+    tree.write('libs/feature/src/index.ts', '');
+    tree.write(
+      'libs/shared/src/lib/widget.ts',
+      "import { feature } from '@org/feature';\nexport const widget = feature;\n",
+    );
+  });
+
+  afterEach(() => {
+    clearCompilerPathsCache();
+  });
+
+  it('should remove the dependencies that only the moved file creates', () => {
+    expect(
+      getRemovedDependencyEdges(
+        tree,
+        createContext(),
+        projects,
+        getProjectSourceFiles,
+        cachedTreeExists,
+      ),
+    ).toEqual([
+      {
+        sourceProject: 'shared',
+        targetProject: 'feature',
+        filePath: 'libs/shared/src/lib/widget.ts',
+        specifier: '@org/feature',
+      },
+    ]);
+  });
+
+  it('should keep the dependencies that remaining files create', () => {
+    tree.write(
+      'libs/shared/src/lib/page.ts',
+      "import { feature } from '@org/feature';\nexport const page = feature;\n",
+    );
+
+    expect(
+      getRemovedDependencyEdges(
+        tree,
+        createContext(),
+        projects,
+        getProjectSourceFiles,
+        cachedTreeExists,
+      ),
+    ).toEqual([]);
+  });
+
+  it('should not count files moved out of the source project in the same batch', () => {
+    tree.write(
+      'libs/shared/src/lib/page.ts',
+      "import { feature } from '@org/feature';\nexport const page = feature;\n",
+    );
+
+    expect(
+      getRemovedDependencyEdges(
+        tree,
+        createContext(),
+        projects,
+        getProjectSourceFiles,
+        cachedTreeExists,
+        new Map([
+          ['libs/shared/src/lib/widget.ts', 'util'],
+          ['libs/shared/src/lib/page.ts', 'util'],
+        ]),
+      ),
+    ).toEqual([
+      expect.objectContaining({
+        sourceProject: 'shared',
+        targetProject: 'feature',
+      }),
+    ]);
+  });
+
+  it('should keep implicit dependencies', () => {
+    projects.set('shared', {
+      ...projects.get('shared'),
+      root: 'libs/shared',
+      implicitDependencies: ['feature'],
+    });
+
+    expect(
+      getRemovedDependencyEdges(
+        tree,
+        createContext({ sourceProject: projects.get('shared') }),
+        projects,
+        getProjectSourceFiles,
+        cachedTreeExists,
+      ),
+    ).toEqual([]);
+  });
+
+  it('should return no edges for moves within a project', () => {
+    expect(
+      getRemovedDependencyEdges(
+        tree,
+        createContext({ isSameProject: true }),
+        projects,
+        getProjectSourceFiles,
+        cachedTreeExists,
+      ),
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,76 @@
+import { Tree, ProjectConfiguration } from '@nx/devkit';
+import type { MoveContext } from '../types/move-context';
+import type { ProjectDependencyEdge } from '../types/project-dependencies';
+import { getFileImportedProjects } from './get-file-imported-projects';
+
+/**
+ * Collects the project dependencies of the source project that a move to
+ * another project removes: those on projects that only the moved file
+ * imports. Files moved out of the source project in the same batch do not
+ * count as remaining importers, and implicit dependencies are never removed.
+ *
+ * @param tree - The virtual file system tree.
+ * @param ctx - Resolved move context.
+ * @param projects - Map of all projects in the workspace.
+ * @param getProjectSourceFiles - Function to get project source files with caching.
+ * @param cachedTreeExists - Function to check file existence with caching.
+ * @param batchTargetProjects - Optional target project per source file of the batch.
+ * @returns The removed project dependencies, or an empty array for same-project moves.
+ */
+export function getRemovedDependencyEdges(
+  tree: Tree,
+  ctx: MoveContext,
+  projects: Map<string, ProjectConfiguration>,
+  getProjectSourceFiles: (tree: Tree, projectRoot: string) => string[],
+  cachedTreeExists: (tree: Tree, filePath: string) => boolean,
+  batchTargetProjects?: ReadonlyMap<string, string>,
+): ProjectDependencyEdge[] {
+  if (ctx.isSameProject) {
+    return [];
+  }
+
+  const { normalizedSource, sourceProject, sourceProjectName } = ctx;
+  const removedImports = getFileImportedProjects(
+    tree,
+    normalizedSource,
+    sourceProject.root,
+    projects,
+    cachedTreeExists,
+    batchTargetProjects,
+  );
+  removedImports.delete(sourceProjectName);
+  sourceProject.implicitDependencies?.forEach((projectName) =>
+    removedImports.delete(projectName),
+  );
+
+  for (const filePath of getProjectSourceFiles(tree, sourceProject.root)) {
+    if (removedImports.size === 0) {
+      break;
+    }
+    if (
+      filePath === normalizedSource ||
+      (batchTargetProjects?.get(filePath) ?? sourceProjectName) !==
+        sourceProjectName
+    ) {
+      continue;
+    }
+
+    for (const projectName of getFileImportedProjects(
+      tree,
+      filePath,
+      sourceProject.root,
+      projects,
+      cachedTreeExists,
+      batchTargetProjects,
+    ).keys()) {
+      removedImports.delete(projectName);
+    }
+  }
+
+  return Array.from(removedImports, ([projectName, specifier]) => ({
+    sourceProject: sourceProjectName,
+    targetProject: projectName,
+    filePath: normalizedSource,
+    specifier,
+  }));
+}
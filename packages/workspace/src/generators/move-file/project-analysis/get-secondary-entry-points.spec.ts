@@ -0,0 +1,118 @@
+import { Tree, ProjectConfiguration, updateJson } from '@nx/devkit';
+import { createTreeWithEmptyWorkspace } from '@nx/devkit/testing';
+import { getSecondaryEntryPoints } from './get-secondary-entry-points';
+import { clearCompilerPathsCache } from './read-compiler-paths';
+import { treeReadCache } from '../tree-cache';
+
+describe('getSecondaryEntryPoints', () => {
+  let tree: Tree;
+  const project: ProjectConfiguration = {
+    root: 'libs/ui',
+    sourceRoot: 'libs/ui/src',
+  };
+
+  beforeEach(() => {
+    clearCompilerPathsCache();
+    treeReadCache.clear();
+    tree = createTreeWithEmptyWorkspace();
+    tree.write('libs/ui/src/index.ts', '');
+  });
+
+  afterEach(() => {
+    clearCompilerPathsCache();
+    treeReadCache.clear();
+  });
+
+  it('should read the path aliases nested below the project alias', () => {
+    updateJson(tree, 'tsconfig.base.json', (json) => {
+      json.compilerOptions = json.compilerOptions || {};
+      json.compilerOptions.paths = {
+        '@org/ui': ['libs/ui/src/index.ts'],
+        '@org/ui/testing': ['libs/ui/src/testing/index.ts'],
+        '@org/ui/server': ['libs/ui/src/server.ts'],
+        '@org/ui-kit': ['libs/ui/src/kit/index.ts'],
+      };
+      return json;
+    });
+    tree.write('libs/ui/src/testing/index.ts', '');
+    tree.write('libs/ui/src/server.ts', '');
+    tree.write('libs/ui/src/kit/index.ts', '');
+
+    expect(getSecondaryEntryPoints(tree, project)).toEqual([
+      {
+        importPath: '@org/ui/testing',
+        filePath: 'libs/ui/src/testing/index.ts',
+      },
+    ]);
+  });
+
+  it('should read subpath exports in package-based workspaces', () => {
+    updateJson(tree, 'package.json', (json) => ({
+      ...json,
+      workspaces: ['libs/*'],
+    }));
+    tree.write(
+      'libs/ui/package.json',
+      JSON.stringify({
+        name: '@org/ui',
+        exports: {
+          '.': './src/index.ts',
+          './icons': { types: './src/icons/index.d.ts' },
+          './themes/*': './src/themes/*.ts',
+          './package.json': './package.json',
+        },
+      }),
+    );
+    tree.write('libs/ui/src/icons/index.ts', '');
+
+    expect(getSecondaryEntryPoints(tree, project)).toEqual([
+      { importPath: '@org/ui/icons', filePath: 'libs/ui/src/icons/index.ts' },
+    ]);
+  });
+
+  it('should ignore subpath exports in integrated workspaces', () => {
+    tree.write(
+      'libs/ui/package.json',
+      JSON.stringify({
+        name: '@org/ui',
+        exports: { '.': './src/index.ts', './icons': './src/icons/index.ts' },
+      }),
+    );
+    tree.write('libs/ui/src/icons/index.ts', '');
+
+    expect(getSecondaryEntryPoints(tree, project)).toEqual([]);
+  });
+
+  it('should read ng-packagr secondary entry points', () => {
+    tree.write('libs/ui/package.json', JSON.stringify({ name: '@org/ui' }));
+    tree.write('libs/ui/ng-package.json', '{}');
+    tree.write(
+      'libs/ui/testing/ng-package.json',
+      JSON.stringify({ lib: { entryFile: 'src/index.ts' } }),
+    );
+    tree.write('libs/ui/testing/src/index.ts', '');
+    tree.write('libs/ui/icons/ng-package.json', '{}');
+    tree.write('libs/ui/icons/src/public_api.ts', '');
+
+    expect(getSecondaryEntryPoints(tree, project)).toEqual(
+      expect.arrayContaining([
+        {
+          importPath: '@org/ui/testing',
+          filePath: 'libs/ui/testing/src/index.ts',
+        },
+        {
+          importPath: '@org/ui/icons',
+          filePath: 'libs/ui/icons/src/public_api.ts',
+        },
+      ]),
+    );
+  });
+
+  it('should ignore ng-package.json files outside ng-packagr projects', () => {
+    tree.write('libs/ui/package.json', JSON.stringify({ name: '@org/ui' }));
+    tree.write('libs/ui/testing/ng-package.json', '{}');
+    tree.write('libs/ui/testing/src/public_api.ts', '');
+
+    expect(getSecondaryEntryPoints(tree, project)).toEqual([]);
+  });
+});
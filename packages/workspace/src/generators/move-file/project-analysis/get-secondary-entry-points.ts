@@ -0,0 +1,183 @@
+import {
+  ProjectConfiguration,
+  Tree,
+  logger,
+  normalizePath,
+  parseJson,
+} from '@nx/devkit';
+import { posix as path } from 'node:path';
+import { treeReadCache } from '../tree-cache';
+import type { ProjectEntryPoint } from '../types/project-entry-point';
+import { getPackageEntryPointPaths } from './get-package-entry-point-paths';
+import { isPackageBasedWorkspace } from './is-package-based-workspace';
+import { isUsingProjectReferences } from './is-using-project-references';
+import { readCompilerPaths } from './read-compiler-paths';
+import { readProjectPackageJson } from './read-project-package-json';
+import { toFirstPath } from './to-first-path';
+import { isWildcardAlias } from './is-wildcard-alias';
+
+/**
+ * Entry file of an ng-packagr entry point without `lib.entryFile`.
+ */
+const defaultNgPackageEntryFile = 'src/public_api.ts';
+
+/**
+ * Gets the secondary entry points of a project, i.e. the subpaths below its
+ * import path that have their own barrel (e.g. `@org/ui/testing`), from:
+ *
+ * - tsconfig path aliases nested below another alias of the project
+ * - subpath `exports` of the project's package.json, in package-based
+ *   workspaces
+ * - ng-packagr `ng-package.json` files below the project root, next to the
+ *   project's own `ng-package.json`
+ *
+ * The files of a secondary entry point are the files below the directory of
+ * its barrel, so entry points whose barrel lies in the source root (e.g.
+ * `@org/ui/server` for `src/server.ts`) or above it are skipped, as are
+ * wildcard subpaths and entry points whose barrel does not exist.
+ *
+ * @param tree - The virtual file system tree
+ * @param project - The project configuration
+ * @returns The secondary entry points of the project
+ */
+export function getSecondaryEntryPoints(
+  tree: Tree,
+  project: ProjectConfiguration,
+): ProjectEntryPoint[] {
+  const sourceRoot = project.sourceRoot || project.root;
+  const entryPoints = new Map<string, ProjectEntryPoint>();
+  const addEntryPoint = (importPath: string, filePath: string) => {
+    const directory = path.dirname(filePath);
+    const ownsDirectory =
+      directory !== sourceRoot && !sourceRoot.startsWith(`${directory}/`);
+    if (
+      ownsDirectory &&
+      !entryPoints.has(importPath) &&
+      tree.exists(filePath)
+    ) {
+      entryPoints.set(importPath, { importPath, filePath });
+    }
+  };
+
+  const projectAliases = getProjectAliases(tree, project);
+  for (const [alias, filePath] of projectAliases) {
+    if (
+      Array.from(projectAliases.keys()).some((other) =>
+        alias.startsWith(`${other}/`),
+      )
+    ) {
+      addEntryPoint(alias, filePath);
+    }
+  }
+
+  const packageName = readProjectPackageJson(tree, project.root)?.name;
+  if (!packageName) {
+    return Array.from(entryPoints.values());
+  }
+
+  if (isPackageBasedWorkspace(tree) || isUsingProjectReferences(tree)) {
+    for (const subpath of getExportSubpaths(tree, project)) {
+      const [filePath] = getPackageEntryPointPaths(tree, project, subpath);
+      if (filePath) {
+        addEntryPoint(`${packageName}/${subpath.slice(2)}`, filePath);
+      }
+    }
+  }
+
+  if (tree.exists(path.join(project.root, 'ng-package.json'))) {
+    for (const directory of findNgPackageDirectories(tree, project.root)) {
+      const entryFile = readNgPackageEntryFile(tree, directory);
+      addEntryPoint(
+        `${packageName}/${path.relative(project.root, directory)}`,
+        normalizePath(path.join(directory, entryFile)),
+      );
+    }
+  }
+
+  return Array.from(entryPoints.values());
+}
+
+/**
+ * Gets the non-wildcard tsconfig path aliases that point to existing files of
+ * the project, with the files they point to.
+ */
+function getProjectAliases(
+  tree: Tree,
+  project: ProjectConfiguration,
+): Map<string, string> {
+  const aliases = new Map<string, string>();
+
+  for (const [alias, pathEntry] of Object.entries(
+    readCompilerPaths(tree) ?? {},
+  )) {
+    const pathStr = toFirstPath(pathEntry);
+    if (!pathStr || isWildcardAlias(alias, pathStr)) {
+      continue;
+    }
+
+    const filePath = normalizePath(pathStr);
+    if (filePath.startsWith(`${project.root}/`) && tree.exists(filePath)) {
+      aliases.set(alias, filePath);
+    }
+  }
+
+  return aliases;
+}
+
+/**
+ * Gets the subpaths of a package's `exports` other than the package root,
+ * wildcard patterns, and `./package.json`.
+ */
+function getExportSubpaths(
+  tree: Tree,
+  project: ProjectConfiguration,
+): string[] {
+  const exports = readProjectPackageJson(tree, project.root)?.exports;
+  if (typeof exports !== 'object' || exports === null) {
+    return [];
+  }
+
+  return Object.keys(exports).filter(
+    (key) =>
+      key.startsWith('./') && !key.includes('*') && key !== './package.json',
+  );
+}
+
+/**
+ * Finds the directories below a project root that contain an ng-package.json.
+ */
+function findNgPackageDirectories(tree: Tree, directory: string): string[] {
+  const directories: string[] = [];
+
+  for (const child of treeReadCache.children(tree, directory)) {
+    const childPath = path.join(directory, child);
+    if (child === 'node_modules' || tree.isFile(childPath)) {
+      continue;
+    }
+
+    if (tree.exists(path.join(childPath, 'ng-package.json'))) {
+      directories.push(childPath);
+    }
+    directories.push(...findNgPackageDirectories(tree, childPath));
+  }
+
+  return directories;
+}
+
+/**
+ * Reads `lib.entryFile` of the ng-package.json in a directory.
+ */
+function readNgPackageEntryFile(tree: Tree, directory: string): string {
+  const ngPackagePath = path.join(directory, 'ng-package.json');
+
+  try {
+    const content = treeReadCache.read(tree, ngPackagePath, 'utf-8');
+    const entryFile = content ? parseJson(content).lib?.entryFile : undefined;
+    return typeof entryFile === 'string'
+      ? entryFile
+      : defaultNgPackageEntryFile;
+  } catch (error) {
+    logger.warn(`Could not parse ${ngPackagePath}: ${error}`);
+    return defaultNgPackageEntryFile;
+  }
+}
@@ -0,0 +1,45 @@
+import { Tree, updateJson } from '@nx/devkit';
+import { createTreeWithEmptyWorkspace } from '@nx/devkit/testing';
+import { isPackageBasedWorkspace } from './is-package-based-workspace';
+import { treeReadCache } from '../tree-cache';
+
+describe('isPackageBasedWorkspace', () => {
+  let tree: Tree;
+
+  beforeEach(() => {
+    treeReadCache.clear();
+    tree = createTreeWithEmptyWorkspace();
+  });
+
+  afterEach(() => {
+    treeReadCache.clear();
+  });
+
+  it('should detect npm and yarn workspaces', () => {
+    updateJson(tree, 'package.json', (json) => ({
+      ...json,
+      workspaces: ['packages/*'],
+    }));
+
+    expect(isPackageBasedWorkspace(tree)).toBe(true);
+  });
+
+  it('should detect yarn workspaces declared as an object', () => {
+    updateJson(tree, 'package.json', (json) => ({
+      ...json,
+      workspaces: { packages: ['packages/*'] },
+    }));
+
+    expect(isPackageBasedWorkspace(tree)).toBe(true);
+  });
+
+  it('should detect pnpm workspaces', () => {
+    tree.write('pnpm-workspace.yaml', "packages:\n  - 'packages/*'\n");
+
+    expect(isPackageBasedWorkspace(tree)).toBe(true);
+  });
+
+  it('should return false for integrated workspaces', () => {
+    expect(isPackageBasedWorkspace(tree)).toBe(false);
+  });
+});
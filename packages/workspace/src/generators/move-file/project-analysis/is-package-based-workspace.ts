@@ -0,0 +1,32 @@
+import { Tree, logger, parseJson } from '@nx/devkit';
+import { treeReadCache } from '../tree-cache';
+
+/**
+ * Checks whether the workspace links its projects as npm, yarn, or pnpm
+ * workspace packages, i.e. the root package.json declares `workspaces` or a
+ * pnpm-workspace.yaml exists. Projects then import each other by their
+ * package names.
+ *
+ * @param tree - The virtual file system tree
+ * @returns True if the projects are workspace packages
+ */
+export function isPackageBasedWorkspace(tree: Tree): boolean {
+  if (tree.exists('pnpm-workspace.yaml')) {
+    return true;
+  }
+  if (!tree.exists('package.json')) {
+    return false;
+  }
+
+  try {
+    const content = treeReadCache.read(tree, 'package.json', 'utf-8');
+    const workspaces = content ? parseJson(content).workspaces : undefined;
+    const packages = Array.isArray(workspaces)
+      ? workspaces
+      : workspaces?.packages;
+    return Array.isArray(packages) && packages.length > 0;
+  } catch (error) {
+    logger.warn(`Could not parse package.json: ${error}`);
+    return false;
+  }
+}
@@ -0,0 +1,19 @@
+import { isTestFile } from './is-test-file';
+
+describe('isTestFile', () => {
+  it('should match spec and test files', () => {
+    expect(isTestFile('libs/lib1/src/lib/button.spec.tsx')).toBe(true);
+    expect(isTestFile('libs/lib1/src/lib/utils.test.mts')).toBe(true);
+    expect(isTestFile('libs/lib1/src/lib/utils.spec.js')).toBe(true);
+  });
+
+  it('should match files in __tests__ folders', () => {
+    expect(isTestFile('libs/lib1/src/__tests__/setup.ts')).toBe(true);
+  });
+
+  it('should not match other files', () => {
+    expect(isTestFile('libs/lib1/src/lib/utils.ts')).toBe(false);
+    expect(isTestFile('libs/lib1/src/lib/spec-helpers.ts')).toBe(false);
+    expect(isTestFile('libs/lib1/src/lib/button.stories.tsx')).toBe(false);
+  });
+});
@@ -0,0 +1,21 @@
+import { posix as path } from 'node:path';
+
+/**
+ * Matches the basenames of spec and test files, e.g. `button.spec.tsx` or
+ * `utils.test.mts`.
+ */
+const testFileNamePattern = /\.(spec|test)\.[cm]?[jt]sx?$/;
+
+/**
+ * Checks whether a file only runs in tests: a spec or test file, or a file
+ * in a `__tests__` folder.
+ *
+ * @param filePath - Path of the file.
+ * @returns True if the file is a test file.
+ */
+export function isTestFile(filePath: string): boolean {
+  return (
+    testFileNamePattern.test(path.basename(filePath)) ||
+    filePath.split('/').includes('__tests__')
+  );
+}
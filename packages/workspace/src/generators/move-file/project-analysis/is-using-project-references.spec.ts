@@ -0,0 +1,40 @@
+import { Tree } from '@nx/devkit';
+import { createTreeWithEmptyWorkspace } from '@nx/devkit/testing';
+import { isUsingProjectReferences } from './is-using-project-references';
+import { treeReadCache } from '../tree-cache';
+
+describe('isUsingProjectReferences', () => {
+  let tree: Tree;
+
+  beforeEach(() => {
+    treeReadCache.clear();
+    tree = createTreeWithEmptyWorkspace();
+  });
+
+  afterEach(() => {
+    treeReadCache.clear();
+  });
+
+  it('should detect references in the root tsconfig.json', () => {
+    tree.write(
+      'tsconfig.json',
+      '// Solution file\n{ "files": [], "references": [{ "path": "./libs/lib1" }] }',
+    );
+
+    expect(isUsingProjectReferences(tree)).toBe(true);
+  });
+
+  it('should return false for an empty references list', () => {
+    tree.write('tsconfig.json', JSON.stringify({ files: [], references: [] }));
+
+    expect(isUsingProjectReferences(tree)).toBe(false);
+  });
+
+  it('should return false without a root tsconfig.json', () => {
+    if (tree.exists('tsconfig.json')) {
+      tree.delete('tsconfig.json');
+    }
+
+    expect(isUsingProjectReferences(tree)).toBe(false);
+  });
+});
@@ -0,0 +1,30 @@
+import { Tree, logger, parseJson } from '@nx/devkit';
+import { treeReadCache } from '../tree-cache';
+
+/**
+ * Checks whether the workspace uses TypeScript project references, i.e. the
+ * root tsconfig.json lists the projects in `references` instead of mapping
+ * them in `compilerOptions.paths`. Projects then import each other through
+ * their linked workspace packages.
+ *
+ * @param tree - The virtual file system tree
+ * @returns True if the root tsconfig.json has project references
+ */
+export function isUsingProjectReferences(tree: Tree): boolean {
+  if (!tree.exists('tsconfig.json')) {
+    return false;
+  }
+
+  const content = treeReadCache.read(tree, 'tsconfig.json', 'utf-8');
+  if (!content) {
+    return false;
+  }
+
+  try {
+    const references = parseJson(content).references;
+    return Array.isArray(references) && references.length > 0;
+  } catch (error) {
+    logger.warn(`Could not parse tsconfig.json: ${error}`);
+    return false;
+  }
+}
@@ -0,0 +1,81 @@
+import { Tree } from '@nx/devkit';
+import { createTreeWithEmptyWorkspace } from '@nx/devkit/testing';
+import { readBabelAliases } from './read-babel-aliases';
+import { treeReadCache } from '../tree-cache';
+
+describe('readBabelAliases', () => {
+  let tree: Tree;
+
+  beforeEach(() => {
+    treeReadCache.clear();
+    tree = createTreeWithEmptyWorkspace();
+  });
+
+  afterEach(() => {
+    treeReadCache.clear();
+  });
+
+  it('should read the aliases of the module resolver from a .babelrc', () => {
+    tree.write(
+      'apps/shop/.babelrc',
+      JSON.stringify({
+        presets: ['@nx/react/babel'],
+        plugins: [
+          [
+            'module-resolver',
+            {
+              root: ['./src'],
+              alias: { '@ui': './src/ui', '^@app/(.+)': './src/app/\\1' },
+            },
+          ],
+        ],
+      }),
+    );
+
+    expect(readBabelAliases(tree, 'apps/shop')).toEqual({
+      '@ui': ['apps/shop/src/ui'],
+      '@ui/*': ['apps/shop/src/ui/*'],
+      '@app/*': ['apps/shop/src/app/*'],
+    });
+  });
+
+  it('should read the aliases from a JavaScript config', () => {
+    tree.write(
+      'apps/shop/babel.config.js',
+      `module.exports = {
+  plugins: [['babel-plugin-module-resolver', { alias: { '@ui': './src/ui' } }]],
+};
+`,
+    );
+
+    expect(readBabelAliases(tree, 'apps/shop')).toEqual({
+      '@ui': ['apps/shop/src/ui'],
+      '@ui/*': ['apps/shop/src/ui/*'],
+    });
+  });
+
+  it('should fall back to the workspace root config', () => {
+    tree.write(
+      'babel.config.json',
+      JSON.stringify({
+        plugins: [
+          ['module-resolver', { alias: { '@shared': './libs/shared' } }],
+        ],
+      }),
+    );
+
+    expect(readBabelAliases(tree, 'apps/shop')).toEqual({
+      '@shared': ['libs/shared'],
+      '@shared/*': ['libs/shared/*'],
+    });
+  });
+
+  it('should return no aliases without the module resolver', () => {
+    tree.write(
+      'apps/shop/.babelrc',
+      JSON.stringify({ presets: ['@nx/react/babel'] }),
+    );
+
+    expect(readBabelAliases(tree, 'apps/shop')).toEqual({});
+  });
+});
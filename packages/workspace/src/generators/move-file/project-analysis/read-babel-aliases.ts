@@ -0,0 +1,117 @@
+import { Tree, logger, normalizePath, parseJson } from '@nx/devkit';
+import { posix as path } from 'node:path';
+import { getAliasFromRegex } from '../path-utils/get-alias-from-regex';
+import { getPrefixAliasPaths } from '../path-utils/get-prefix-alias-paths';
+import { treeReadCache } from '../tree-cache';
+import type { AliasPaths } from '../types/alias-provider';
+import { readLiteralProperty } from './read-literal-property';
+
+/**
+ * Babel config files, in order of preference.
+ */
+const babelConfigFiles = [
+  '.babelrc',
+  '.babelrc.json',
+  'babel.config.json',
+  '.babelrc.js',
+  '.babelrc.cjs',
+  '.babelrc.mjs',
+  'babel.config.js',
+  'babel.config.cjs',
+  'babel.config.mjs',
+];
+
+const pluginNames = ['module-resolver', 'babel-plugin-module-resolver'];
+
+/**
+ * Reads the `alias` option of `babel-plugin-module-resolver` from the Babel
+ * config of a project, falling back to the workspace root config.
+ *
+ * Aliases are prefixes (`@ui` for `@ui` and `@ui/button`) or, starting with
+ * `^`, regular expressions whose capture group is `\1` in the path
+ * (`^@app/(.+)` to `./src/app/\1`). Paths are relative to the directory of
+ * the config file. JavaScript configs are not executed, so the aliases must
+ * be written as a literal object.
+ *
+ * @param tree - The virtual file system tree
+ * @param projectRoot - Root directory of the project
+ * @returns The aliases, empty without a Babel config declaring any
+ */
+export function readBabelAliases(tree: Tree, projectRoot: string): AliasPaths {
+  const configDirectories = projectRoot ? [projectRoot, ''] : [''];
+
+  for (const directory of configDirectories) {
+    for (const fileName of babelConfigFiles) {
+      const configPath = path.join(directory, fileName);
+      if (!tree.exists(configPath)) {
+        continue;
+      }
+
+      const content = treeReadCache.read(tree, configPath, 'utf-8');
+      if (!content || !content.includes('module-resolver')) {
+        continue;
+      }
+
+      try {
+        const alias = fileName.endsWith('js')
+          ? readLiteralProperty(content, 'alias')
+          : getPluginAlias(parseJson(content));
+        return toAliasPaths(alias, directory);
+      } catch (error) {
+        logger.warn(`Could not parse ${configPath}: ${error}`);
+      }
+    }
+  }
+
+  return {};
+}
+
+/**
+ * Gets the `alias` option of the module resolver in the plugins of a JSON
+ * Babel config.
+ */
+function getPluginAlias(config: { plugins?: unknown }): unknown {
+  const plugins = Array.isArray(config.plugins) ? config.plugins : [];
+  const plugin = plugins.find(
+    (entry) => Array.isArray(entry) && pluginNames.includes(entry[0]),
+  );
+
+  return plugin?.[1]?.alias;
+}
+
+/**
+ * Converts the aliases of the module resolver, with paths relative to the
+ * config directory.
+ */
+function toAliasPaths(alias: unknown, configDirectory: string): AliasPaths {
+  if (typeof alias !== 'object' || alias === null || Array.isArray(alias)) {
+    return {};
+  }
+
+  const aliasPaths: AliasPaths = {};
+  for (const [key, value] of Object.entries(alias)) {
+    if (typeof value !== 'string' || !key) {
+      continue;
+    }
+
+    if (!key.startsWith('^')) {
+      const targetPath = normalizePath(path.join(configDirectory, value));
+      Object.entries(getPrefixAliasPaths(key, targetPath)).forEach(
+        ([aliasKey, targets]) => {
+          aliasPaths[aliasKey] ??= targets;
+        },
+      );
+      continue;
+    }
+
+    const regexAlias = getAliasFromRegex(key);
+    const target = value.replace('\\1', '*');
+    if (regexAlias && target.includes('*') === regexAlias.includes('*')) {
+      aliasPaths[regexAlias] ??= [
+        normalizePath(path.join(configDirectory, target)),
+      ];
+    }
+  }
+
+  return aliasPaths;
+}
@@ -0,0 +1,75 @@
+import { Tree } from '@nx/devkit';
+import { createTreeWithEmptyWorkspace } from '@nx/devkit/testing';
+import { readBundlerAliases } from './read-bundler-aliases';
+import { treeReadCache } from '../tree-cache';
+
+describe('readBundlerAliases', () => {
+  let tree: Tree;
+
+  beforeEach(() => {
+    treeReadCache.clear();
+    tree = createTreeWithEmptyWorkspace();
+  });
+
+  afterEach(() => {
+    treeReadCache.clear();
+  });
+
+  it('should read the object form of the Vite resolve.alias', () => {
+    tree.write(
+      'apps/shop/vite.config.ts',
+      `import { defineConfig } from 'vite';
+import path from 'node:path';
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@ui': path.resolve(__dirname, 'src/ui'),
+      '~': '/src',
+    },
+  },
+});
+`,
+    );
+
+    expect(readBundlerAliases(tree, 'apps/shop')).toEqual({
+      '@ui': ['apps/shop/src/ui'],
+      '@ui/*': ['apps/shop/src/ui/*'],
+      '~': ['apps/shop/src'],
+      '~/*': ['apps/shop/src/*'],
+    });
+  });
+
+  it('should read the array form of the Vite resolve.alias', () => {
+    tree.write(
+      'apps/shop/vite.config.mts',
+      `export default {
+  resolve: { alias: [{ find: '@ui', replacement: './src/ui' }] },
+};
+`,
+    );
+
+    expect(readBundlerAliases(tree, 'apps/shop')).toEqual({
+      '@ui': ['apps/shop/src/ui'],
+      '@ui/*': ['apps/shop/src/ui/*'],
+    });
+  });
+
+  it('should read exact webpack aliases', () => {
+    tree.write(
+      'apps/shop/webpack.config.js',
+      `module.exports = {
+  resolve: { alias: { config$: path.join(__dirname, 'src/config.ts') } },
+};
+`,
+    );
+
+    expect(readBundlerAliases(tree, 'apps/shop')).toEqual({
+      config: ['apps/shop/src/config.ts'],
+    });
+  });
+
+  it('should return no aliases without a bundler config', () => {
+    expect(readBundlerAliases(tree, 'apps/shop')).toEqual({});
+  });
+});
@@ -0,0 +1,86 @@
+import { Tree, logger, normalizePath } from '@nx/devkit';
+import { posix as path } from 'node:path';
+import { getPrefixAliasPaths } from '../path-utils/get-prefix-alias-paths';
+import { treeReadCache } from '../tree-cache';
+import type { AliasPaths } from '../types/alias-provider';
+import { readLiteralProperty } from './read-literal-property';
+
+/**
+ * Vite, Vitest, and webpack config files of a project that may declare
+ * `resolve.alias`, in order of preference.
+ */
+const bundlerConfigFiles = ['vite', 'vitest', 'webpack'].flatMap((tool) =>
+  ['ts', 'mts', 'cts', 'js', 'mjs', 'cjs'].map(
+    (extension) => `${tool}.config.${extension}`,
+  ),
+);
+
+/**
+ * Reads the `resolve.alias` entries of a project's Vite, Vitest, and webpack
+ * configs.
+ *
+ * Both the object form (`{ '@ui': './src/ui' }`) and Vite's array form
+ * (`[{ find: '@ui', replacement: './src/ui' }]`) with string aliases are
+ * supported. Replacements are relative to the config file's directory, like
+ * Vite's root-relative `/src/ui`. The configs are not executed, so the
+ * aliases must be written as literals or as paths built from `__dirname`
+ * (see readLiteralProperty).
+ *
+ * @param tree - The virtual file system tree
+ * @param projectRoot - Root directory of the project
+ * @returns The aliases, empty without a bundler config declaring any
+ */
+export function readBundlerAliases(
+  tree: Tree,
+  projectRoot: string,
+): AliasPaths {
+  const aliasPaths: AliasPaths = {};
+
+  for (const fileName of bundlerConfigFiles) {
+    const configPath = path.join(projectRoot, fileName);
+    if (!tree.exists(configPath)) {
+      continue;
+    }
+
+    const content = treeReadCache.read(tree, configPath, 'utf-8');
+    if (!content || !content.includes('alias')) {
+      continue;
+    }
+
+    try {
+      const alias = readLiteralProperty(content, 'alias');
+      for (const [key, replacement] of getAliasEntries(alias)) {
+        const targetPath = normalizePath(
+          path.join(projectRoot, replacement.replace(/^\//, './')),
+        );
+        Object.entries(getPrefixAliasPaths(key, targetPath)).forEach(
+          ([aliasKey, targets]) => {
+            aliasPaths[aliasKey] ??= targets;
+          },
+        );
+      }
+    } catch (error) {
+      logger.warn(`Could not parse ${configPath}: ${error}`);
+    }
+  }
+
+  return aliasPaths;
+}
+
+/**
+ * Gets the alias and replacement pairs of an object or array `alias` value.
+ */
+function getAliasEntries(alias: unknown): [string, string][] {
+  const entries = Array.isArray(alias)
+    ? alias.map((entry) => [entry?.find, entry?.replacement])
+    : typeof alias === 'object' && alias !== null
+      ? Object.entries(alias)
+      : [];
+
+  return entries.filter(
+    (entry): entry is [string, string] =>
+      typeof entry[0] === 'string' &&
+      entry[0] !== '' &&
+      typeof entry[1] === 'string',
+  );
+}
@@ -1,4 +1,4 @@
-import { Tree } from '@nx/devkit';
+import { Tree, addProjectConfiguration } from '@nx/devkit';
 import { createTreeWithEmptyWorkspace } from '@nx/devkit/testing';
 import {
   readCompilerPaths,
@@ -250,4 +250,69 @@ describe('readCompilerPaths', () => {
 
     expect(result).toBeNull();
   });
+
+  describe('project references', () => {
+    beforeEach(() => {
+      tree.write(
+        'tsconfig.json',
+        JSON.stringify({
+          files: [],
+          references: [{ path: './packages/lib1' }],
+        }),
+      );
+      addProjectConfiguration(tree, 'lib1', { root: 'packages/lib1' });
+    });
+
+    it('should read paths from project tsconfig files relative to the workspace root', () => {
+      tree.write(
+        'packages/lib1/tsconfig.lib.json',
+        JSON.stringify({
+          compilerOptions: {
+            paths: { '@myorg/lib2': ['../lib2/src/index.ts'] },
+          },
+        }),
+      );
+      tree.write(
+        'packages/lib1/tsconfig.json',
+        JSON.stringify({
+          compilerOptions: {
+            baseUrl: 'src',
+            paths: { '~/*': ['*'] },
+          },
+        }),
+      );
+
+      const result = readCompilerPaths(tree);
+
+      expect(result).toEqual({
+        '@myorg/lib2': ['packages/lib2/src/index.ts'],
+        '~/*': ['packages/lib1/src/*'],
+      });
+    });
+
+    it('should prefer root paths over project paths of the same alias', () => {
+      tree.write(
+        'tsconfig.base.json',
+        JSON.stringify({
+          compilerOptions: {
+            paths: { '@myorg/lib2': ['libs/lib2/src/index.ts'] },
+          },
+        }),
+      );
+      tree.write(
+        'packages/lib1/tsconfig.lib.json',
+        JSON.stringify({
+          compilerOptions: {
+            paths: { '@myorg/lib2': ['../lib2/src/index.ts'] },
+          },
+        }),
+      );
+
+      const result = readCompilerPaths(tree);
+
+      expect(result).toEqual({
+        '@myorg/lib2': ['libs/lib2/src/index.ts'],
+      });
+    });
+  });
 });
@@ -1,10 +1,27 @@
-import { Tree, logger } from '@nx/devkit';
+import { Tree, getProjects, logger, normalizePath } from '@nx/devkit';
+import { posix as path } from 'node:path';
 import { treeReadCache } from '../tree-cache';
+import { isUsingProjectReferences } from './is-using-project-references';
+
+/**
+ * Tsconfig files of a project that may declare path aliases in a workspace
+ * using project references, in order of preference.
+ */
+const projectTsconfigFiles = [
+  'tsconfig.lib.json',
+  'tsconfig.app.json',
+  'tsconfig.json',
+];
 
 /**
  * Reads the TypeScript compiler path mappings from tsconfig files at the workspace root.
  * Tries tsconfig.base.json, tsconfig.json, and any tsconfig.*.json files.
  *
+ * In a workspace using project references, the path mappings of each
+ * project's tsconfig.lib.json, tsconfig.app.json, or tsconfig.json are added,
+ * with their targets rebased onto the workspace root. Root mappings win over
+ * project mappings of the same alias.
+ *
  * Results are cached to avoid repeated file system operations.
  *
  * @param tree - The virtual file system tree
@@ -20,6 +37,29 @@ export function readCompilerPaths(tree: Tree): Record<string, unknown> | null {
     return compilerPathsCache;
   }
 
+  const rootPaths = readRootCompilerPaths(tree);
+  if (!isUsingProjectReferences(tree)) {
+    compilerPathsCache = rootPaths;
+    return rootPaths;
+  }
+
+  const paths: Record<string, unknown> = { ...rootPaths };
+  for (const [, project] of getProjects(tree)) {
+    Object.entries(readProjectCompilerPaths(tree, project.root)).forEach(
+      ([alias, pathEntry]) => {
+        paths[alias] ??= pathEntry;
+      },
+    );
+  }
+
+  compilerPathsCache = Object.keys(paths).length > 0 ? paths : null;
+  return compilerPathsCache;
+}
+
+/**
+ * Reads the path mappings of the first tsconfig file at the workspace root that has any.
+ */
+function readRootCompilerPaths(tree: Tree): Record<string, unknown> | null {
   // Try common tsconfig files in order of preference
   const tsconfigFiles = ['tsconfig.base.json', 'tsconfig.json'];
 
@@ -32,29 +72,75 @@ export function readCompilerPaths(tree: Tree): Record<string, unknown> | null {
   const allTsconfigFiles = [...tsconfigFiles, ...additionalTsconfigFiles];
 
   for (const tsconfigPath of allTsconfigFiles) {
-    if (!tree.exists(tsconfigPath)) {
+    const tsconfigPaths = readTsconfigPaths(tree, tsconfigPath);
+    if (tsconfigPaths) {
+      return tsconfigPaths.paths;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Reads the path mappings of a project's tsconfig files, relative to the workspace root.
+ */
+function readProjectCompilerPaths(
+  tree: Tree,
+  projectRoot: string,
+): Record<string, unknown> {
+  const paths: Record<string, unknown> = {};
+
+  for (const fileName of projectTsconfigFiles) {
+    const tsconfigPath = path.join(projectRoot, fileName);
+    const tsconfigPaths = readTsconfigPaths(tree, tsconfigPath);
+    if (!tsconfigPaths) {
       continue;
     }
 
-    try {
-      const tsconfigContent = treeReadCache.read(tree, tsconfigPath, 'utf-8');
-      if (!tsconfigContent) {
-        continue;
-      }
-
-      const tsconfig = JSON.parse(tsconfigContent);
-      const paths = tsconfig.compilerOptions?.paths;
-
-      if (typeof paths === 'object' && paths) {
-        compilerPathsCache = paths;
-        return paths;
-      }
-    } catch (error) {
-      logger.warn(`Could not parse ${tsconfigPath}: ${error}`);
+    // Targets are relative to baseUrl, or to the tsconfig file without one
+    const baseDirectory = path.join(projectRoot, tsconfigPaths.baseUrl ?? '.');
+    for (const [alias, pathEntry] of Object.entries(tsconfigPaths.paths)) {
+      const targets = Array.isArray(pathEntry) ? pathEntry : [pathEntry];
+      paths[alias] ??= targets
+        .filter((target): target is string => typeof target === 'string')
+        .map((target) => normalizePath(path.join(baseDirectory, target)));
+    }
+  }
+
+  return paths;
+}
+
+/**
+ * Reads `compilerOptions.paths` and `compilerOptions.baseUrl` from a tsconfig file.
+ */
+function readTsconfigPaths(
+  tree: Tree,
+  tsconfigPath: string,
+): { paths: Record<string, unknown>; baseUrl?: string } | null {
+  if (!tree.exists(tsconfigPath)) {
+    return null;
+  }
+
+  try {
+    const tsconfigContent = treeReadCache.read(tree, tsconfigPath, 'utf-8');
+    if (!tsconfigContent) {
+      return null;
+    }
+
+    const tsconfig = JSON.parse(tsconfigContent);
+    const paths = tsconfig.compilerOptions?.paths;
+    const baseUrl = tsconfig.compilerOptions?.baseUrl;
+
+    if (typeof paths === 'object' && paths) {
+      return {
+        paths,
+        baseUrl: typeof baseUrl === 'string' ? baseUrl : undefined,
+      };
     }
+  } catch (error) {
+    logger.warn(`Could not parse ${tsconfigPath}: ${error}`);
   }
 
-  compilerPathsCache = null;
   return null;
 }
 
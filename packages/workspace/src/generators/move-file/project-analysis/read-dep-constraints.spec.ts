@@ -0,0 +1,100 @@
+import { Tree, writeJson } from '@nx/devkit';
+import { createTreeWithEmptyWorkspace } from '@nx/devkit/testing';
+import {
+  clearDepConstraintsCache,
+  readDepConstraints,
+} from './read-dep-constraints';
+import { treeReadCache } from '../tree-cache';
+
+describe('readDepConstraints', () => {
+  let tree: Tree;
+
+  beforeEach(() => {
+    tree = createTreeWithEmptyWorkspace();
+    clearDepConstraintsCache();
+    treeReadCache.clear();
+  });
+
+  afterEach(() => {
+    clearDepConstraintsCache();
+  });
+
+  it('should return null when the rule is not configured', () => {
+    writeJson(tree, '.eslintrc.json', { rules: {} });
+
+    expect(readDepConstraints(tree)).toBeNull();
+  });
+
+  it('should read depConstraints from an .eslintrc.json override', () => {
+    writeJson(tree, '.eslintrc.json', {
+      overrides: [
+        {
+          files: ['*.ts'],
+          rules: {
+            '@nx/enforce-module-boundaries': [
+              'error',
+              {
+                depConstraints: [
+                  {
+                    sourceTag: 'type:util',
+                    onlyDependOnLibsWithTags: ['type:util'],
+                  },
+                ],
+              },
+            ],
+          },
+        },
+      ],
+    });
+
+    expect(readDepConstraints(tree)).toEqual([
+      { sourceTag: 'type:util', onlyDependOnLibsWithTags: ['type:util'] },
+    ]);
+  });
+
+  it('should read depConstraints from a flat config', () => {
+    tree.write(
+      'eslint.config.mjs',
+      `import nx from '@nx/eslint-plugin';
+
+export default [
+  ...nx.configs['flat/base'],
+  {
+    files: ['**/*.ts'],
+    rules: {
+      '@nx/enforce-module-boundaries': [
+        'error',
+        {
+          enforceBuildableLibDependency: true,
+          depConstraints: [
+            { sourceTag: 'scope:client', notDependOnLibsWithTags: ['scope:server'] },
+            { sourceTag: '*', onlyDependOnLibsWithTags: ['*'] },
+          ],
+        },
+      ],
+    },
+  },
+];
+`,
+    );
+
+    expect(readDepConstraints(tree)).toEqual([
+      { sourceTag: 'scope:client', notDependOnLibsWithTags: ['scope:server'] },
+      { sourceTag: '*', onlyDependOnLibsWithTags: ['*'] },
+    ]);
+  });
+
+  it('should cache the result until the cache is cleared', () => {
+    expect(readDepConstraints(tree)).toBeNull();
+
+    writeJson(tree, '.eslintrc.json', {
+      rules: {
+        '@nx/enforce-module-boundaries': ['error', { depConstraints: [] }],
+      },
+    });
+
+    expect(readDepConstraints(tree)).toBeNull();
+    clearDepConstraintsCache();
+    expect(readDepConstraints(tree)).toEqual([]);
+  });
+});
@@ -0,0 +1,124 @@
+import { Tree, logger, parseJson } from '@nx/devkit';
+import { treeReadCache } from '../tree-cache';
+import type { DepConstraint } from '../types/module-boundaries';
+import { readLiteralProperty } from './read-literal-property';
+
+const ruleNames = [
+  '@nx/enforce-module-boundaries',
+  '@nrwl/nx/enforce-module-boundaries',
+];
+
+const eslintrcFiles = ['.eslintrc.json', '.eslintrc'];
+
+const flatConfigFiles = [
+  'eslint.config.js',
+  'eslint.config.mjs',
+  'eslint.config.cjs',
+  'eslint.config.ts',
+  'eslint.config.mts',
+  'eslint.config.cts',
+];
+
+// Cache for dependency constraints to avoid repeated parsing of ESLint configs
+let depConstraintsCache: DepConstraint[] | null | undefined = undefined;
+
+/**
+ * Reads the `depConstraints` of the `@nx/enforce-module-boundaries` rule from
+ * the workspace ESLint config.
+ *
+ * Both `.eslintrc.json` and flat configs (`eslint.config.*`) are supported.
+ * Flat configs are not executed; the `depConstraints` array is read from the
+ * source, so it must be written as a literal.
+ *
+ * Results are cached to avoid repeated file system operations.
+ *
+ * @param tree - The virtual file system tree
+ * @returns The dependency constraints, or null if the rule is not configured
+ */
+export function readDepConstraints(tree: Tree): DepConstraint[] | null {
+  if (depConstraintsCache !== undefined) {
+    return depConstraintsCache;
+  }
+
+  depConstraintsCache = readFromEslintrc(tree) ?? readFromFlatConfig(tree);
+  return depConstraintsCache;
+}
+
+/**
+ * Clears the dependency constraints cache.
+ * Should be called when ESLint configs are modified or at the start of generator execution.
+ */
+export function clearDepConstraintsCache(): void {
+  depConstraintsCache = undefined;
+}
+
+/**
+ * Reads the dependency constraints from `.eslintrc.json` or `.eslintrc`,
+ * including rules configured in `overrides`.
+ */
+function readFromEslintrc(tree: Tree): DepConstraint[] | null {
+  for (const configPath of eslintrcFiles) {
+    if (!tree.exists(configPath)) {
+      continue;
+    }
+
+    try {
+      const content = treeReadCache.read(tree, configPath, 'utf-8');
+      if (!content) {
+        continue;
+      }
+
+      const config = parseJson(content);
+      const rulesList = [
+        config.rules,
+        ...(config.overrides ?? []).map(
+          (override: { rules?: unknown }) => override.rules,
+        ),
+      ];
+
+      for (const rules of rulesList) {
+        for (const ruleName of ruleNames) {
+          const rule = rules?.[ruleName];
+          if (Array.isArray(rule) && Array.isArray(rule[1]?.depConstraints)) {
+            return rule[1].depConstraints;
+          }
+        }
+      }
+    } catch (error) {
+      logger.warn(`Could not parse ${configPath}: ${error}`);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Reads the first literal `depConstraints` array from a flat config file.
+ */
+function readFromFlatConfig(tree: Tree): DepConstraint[] | null {
+  for (const configPath of flatConfigFiles) {
+    if (!tree.exists(configPath)) {
+      continue;
+    }
+
+    const content = treeReadCache.read(tree, configPath, 'utf-8');
+    if (!content || !content.includes('depConstraints')) {
+      continue;
+    }
+
+    try {
+      const value = readLiteralProperty(content, 'depConstraints');
+
+      if (Array.isArray(value)) {
+        return value as DepConstraint[];
+      }
+      logger.warn(
+        `Could not read the depConstraints of ${configPath}: they must be written as a literal array`,
+      );
+    } catch (error) {
+      logger.warn(`Could not parse ${configPath}: ${error}`);
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,62 @@
+import { Tree } from '@nx/devkit';
+import { createTreeWithEmptyWorkspace } from '@nx/devkit/testing';
+import { readJestAliases } from './read-jest-aliases';
+import { treeReadCache } from '../tree-cache';
+
+describe('readJestAliases', () => {
+  let tree: Tree;
+
+  beforeEach(() => {
+    treeReadCache.clear();
+    tree = createTreeWithEmptyWorkspace();
+  });
+
+  afterEach(() => {
+    treeReadCache.clear();
+  });
+
+  it('should read the aliases of the module name mapper', () => {
+    tree.write(
+      'apps/shop/jest.config.ts',
+      `export default {
+  displayName: 'shop',
+  moduleNameMapper: {
+    '^@app/(.*)$': '<rootDir>/src/app/$1',
+    '^@config$': ['<rootDir>/src/config.ts'],
+    '\\\\.(css|less)$': 'identity-obj-proxy',
+    '^(\\\\.{1,2}/.*)\\\\.js$': '$1',
+  },
+};
+`,
+    );
+
+    expect(readJestAliases(tree, 'apps/shop')).toEqual({
+      '@app/*': ['apps/shop/src/app/*'],
+      '@config': ['apps/shop/src/config.ts'],
+    });
+  });
+
+  it('should resolve paths against the rootDir', () => {
+    tree.write(
+      'apps/shop/jest.config.json',
+      JSON.stringify({
+        rootDir: 'src',
+        moduleNameMapper: { '^@app/(.*)$': '<rootDir>/app/$1' },
+      }),
+    );
+
+    expect(readJestAliases(tree, 'apps/shop')).toEqual({
+      '@app/*': ['apps/shop/src/app/*'],
+    });
+  });
+
+  it('should return no aliases without a module name mapper', () => {
+    tree.write(
+      'apps/shop/jest.config.ts',
+      "export default { displayName: 'shop' };\n",
+    );
+
+    expect(readJestAliases(tree, 'apps/shop')).toEqual({});
+    expect(readJestAliases(tree, 'apps/admin')).toEqual({});
+  });
+});
@@ -0,0 +1,99 @@
+import { Tree, logger, normalizePath, parseJson } from '@nx/devkit';
+import { posix as path } from 'node:path';
+import { getAliasFromRegex } from '../path-utils/get-alias-from-regex';
+import { treeReadCache } from '../tree-cache';
+import type { AliasPaths } from '../types/alias-provider';
+import { readLiteralProperty } from './read-literal-property';
+
+/**
+ * Jest config files of a project, in order of preference.
+ */
+const jestConfigFiles = [
+  'jest.config.ts',
+  'jest.config.js',
+  'jest.config.mjs',
+  'jest.config.cjs',
+  'jest.config.mts',
+  'jest.config.cts',
+  'jest.config.json',
+];
+
+/**
+ * Reads the aliases of the `moduleNameMapper` in a project's Jest config.
+ *
+ * Mappings of an anchored literal (`^@app/(.*)$`) to paths below `<rootDir>`
+ * (`<rootDir>/src/app/$1`) become aliases (`@app/*`); other mappings, such
+ * as those of stylesheets to a mock, are skipped. JavaScript and TypeScript
+ * configs are not executed, so the mapper must be written as a literal.
+ *
+ * @param tree - The virtual file system tree
+ * @param projectRoot - Root directory of the project
+ * @returns The aliases, empty without a Jest config or module name mapper
+ */
+export function readJestAliases(tree: Tree, projectRoot: string): AliasPaths {
+  for (const fileName of jestConfigFiles) {
+    const configPath = path.join(projectRoot, fileName);
+    if (!tree.exists(configPath)) {
+      continue;
+    }
+
+    const content = treeReadCache.read(tree, configPath, 'utf-8');
+    if (!content || !content.includes('moduleNameMapper')) {
+      return {};
+    }
+
+    try {
+      const config = fileName.endsWith('.json')
+        ? parseJson(content)
+        : {
+            rootDir: readLiteralProperty(content, 'rootDir'),
+            moduleNameMapper: readLiteralProperty(content, 'moduleNameMapper'),
+          };
+      const rootDir = normalizePath(
+        path.join(
+          projectRoot,
+          typeof config.rootDir === 'string' ? config.rootDir : '.',
+        ),
+      );
+
+      return toAliasPaths(config.moduleNameMapper, rootDir);
+    } catch (error) {
+      logger.warn(`Could not parse ${configPath}: ${error}`);
+      return {};
+    }
+  }
+
+  return {};
+}
+
+/**
+ * Converts the mappings of a module name mapper that can be expressed as
+ * aliases.
+ */
+function toAliasPaths(moduleNameMapper: unknown, rootDir: string): AliasPaths {
+  if (typeof moduleNameMapper !== 'object' || moduleNameMapper === null) {
+    return {};
+  }
+
+  const aliasPaths: AliasPaths = {};
+  for (const [pattern, value] of Object.entries(moduleNameMapper)) {
+    const alias = getAliasFromRegex(pattern);
+    const targets = (Array.isArray(value) ? value : [value]).filter(
+      (target): target is string =>
+        typeof target === 'string' && target.startsWith('<rootDir>'),
+    );
+    if (!alias || targets.length === 0) {
+      continue;
+    }
+
+    const targetPaths = targets
+      .map((target) => target.slice('<rootDir>'.length).replace('$1', '*'))
+      .filter((target) => target.includes('*') === alias.includes('*'))
+      .map((target) => normalizePath(path.join(rootDir, target)));
+    if (targetPaths.length > 0) {
+      aliasPaths[alias] ??= targetPaths;
+    }
+  }
+
+  return aliasPaths;
+}
@@ -0,0 +1,50 @@
+import { readLiteralProperty } from './read-literal-property';
+
+describe('readLiteralProperty', () => {
+  it('should read literal values', () => {
+    const content = `export default {
+  displayName: 'shop',
+  moduleNameMapper: { '^@app/(.*)$': '<rootDir>/src/app/$1' },
+  coverage: [\`reports\`, 80, true],
+};`;
+
+    expect(readLiteralProperty(content, 'moduleNameMapper')).toEqual({
+      '^@app/(.*)$': '<rootDir>/src/app/$1',
+    });
+    expect(readLiteralProperty(content, 'coverage')).toEqual([
+      'reports',
+      80,
+      true,
+    ]);
+  });
+
+  it('should read paths built from the config directory as relative paths', () => {
+    const content = `import { fileURLToPath } from 'node:url';
+import path from 'node:path';
+
+export default {
+  resolve: {
+    alias: {
+      '@ui': path.resolve(__dirname, 'src', 'ui'),
+      '@lib': fileURLToPath(new URL('./src/lib', import.meta.url)),
+      '@shared': join(__dirname, '../shared'),
+    },
+  },
+};`;
+
+    expect(readLiteralProperty(content, 'alias')).toEqual({
+      '@ui': './src/ui',
+      '@lib': './src/lib',
+      '@shared': '../shared',
+    });
+  });
+
+  it('should return undefined for values that are not literals', () => {
+    const content = `const shared = { '@ui': './src/ui' };
+export default { alias: { ...shared }, root: process.cwd() };`;
+
+    expect(readLiteralProperty(content, 'alias')).toBeUndefined();
+    expect(readLiteralProperty(content, 'root')).toBeUndefined();
+    expect(readLiteralProperty(content, 'missing')).toBeUndefined();
+  });
+});
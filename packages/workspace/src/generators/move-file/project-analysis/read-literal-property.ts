@@ -0,0 +1,150 @@
+import type { ASTNode, ObjectProperty } from 'jscodeshift';
+import { posix as path } from 'node:path';
+import { j } from '../ast-cache';
+
+/**
+ * Functions that build a path from their arguments, as config files call
+ * them on `__dirname` (`path.resolve(__dirname, 'src')`).
+ */
+const pathFunctionNames = ['resolve', 'join'];
+
+/**
+ * Reads the value of the first property with the given name from the source
+ * of a JavaScript or TypeScript config file, without executing it.
+ *
+ * The value must be written as a literal: strings, numbers, booleans, and
+ * arrays and objects of them. Paths built from the config file's directory
+ * (`path.resolve(__dirname, 'src')` or
+ * `fileURLToPath(new URL('./src', import.meta.url))`) are read as relative
+ * paths (`./src`).
+ *
+ * @param content - Source of the config file
+ * @param propertyName - Name of the property to read
+ * @returns The literal value, or undefined if the property is missing or its
+ *   value is not a literal
+ * @throws If the source cannot be parsed
+ */
+export function readLiteralProperty(
+  content: string,
+  propertyName: string,
+): unknown {
+  const property = j(content)
+    .find(j.ObjectProperty)
+    .filter(
+      (propertyPath) => getPropertyName(propertyPath.node) === propertyName,
+    )
+    .paths()[0];
+
+  return property ? toLiteralValue(property.node.value) : undefined;
+}
+
+/**
+ * Converts a literal AST node to its value, or returns undefined for any
+ * other expression.
+ */
+function toLiteralValue(node: ASTNode): unknown {
+  if (
+    j.StringLiteral.check(node) ||
+    j.NumericLiteral.check(node) ||
+    j.BooleanLiteral.check(node)
+  ) {
+    return node.value;
+  }
+
+  if (j.TemplateLiteral.check(node) && node.expressions.length === 0) {
+    return node.quasis.map((quasi) => quasi.value.cooked).join('');
+  }
+
+  // `{ ... } as const`
+  if (j.TSAsExpression.check(node)) {
+    return toLiteralValue(node.expression);
+  }
+
+  if (j.ArrayExpression.check(node)) {
+    const values = node.elements.map((element) =>
+      element ? toLiteralValue(element) : undefined,
+    );
+    return values.includes(undefined) ? undefined : values;
+  }
+
+  if (j.ObjectExpression.check(node)) {
+    const result: Record<string, unknown> = {};
+    for (const property of node.properties) {
+      if (!j.ObjectProperty.check(property)) {
+        return undefined;
+      }
+      const key = getPropertyName(property);
+      const value = toLiteralValue(property.value);
+      if (key === undefined || value === undefined) {
+        return undefined;
+      }
+      result[key] = value;
+    }
+    return result;
+  }
+
+  return toRelativePath(node);
+}
+
+/**
+ * Reads a path built from the config file's directory as a relative path.
+ */
+function toRelativePath(node: ASTNode): string | undefined {
+  if (!j.CallExpression.check(node)) {
+    return undefined;
+  }
+
+  const callee = node.callee;
+  const functionName = j.Identifier.check(callee)
+    ? callee.name
+    : j.MemberExpression.check(callee) && j.Identifier.check(callee.property)
+      ? callee.property.name
+      : undefined;
+  const [first, ...rest] = node.arguments;
+
+  // fileURLToPath(new URL('./src', import.meta.url))
+  if (functionName === 'fileURLToPath') {
+    if (
+      !j.NewExpression.check(first) ||
+      !j.Identifier.check(first.callee) ||
+      first.callee.name !== 'URL' ||
+      !j.MemberExpression.check(first.arguments[1])
+    ) {
+      return undefined;
+    }
+    const url = toLiteralValue(first.arguments[0]);
+    return typeof url === 'string' && url.startsWith('.') ? url : undefined;
+  }
+
+  // path.resolve(__dirname, 'src') and path.join(__dirname, 'src')
+  if (
+    !functionName ||
+    !pathFunctionNames.includes(functionName) ||
+    !j.Identifier.check(first) ||
+    first.name !== '__dirname'
+  ) {
+    return undefined;
+  }
+  const segments = rest.map(toLiteralValue);
+  if (segments.some((segment) => typeof segment !== 'string')) {
+    return undefined;
+  }
+
+  const relativePath = path.join('.', ...(segments as string[]));
+  return relativePath === '.' || relativePath.startsWith('..')
+    ? relativePath
+    : `./${relativePath}`;
+}
+
+/**
+ * Name of an object property with an identifier or string key.
+ */
+function getPropertyName(property: ObjectProperty): string | undefined {
+  if (j.Identifier.check(property.key)) {
+    return property.key.name;
+  }
+  if (j.StringLiteral.check(property.key)) {
+    return property.key.value;
+  }
+  return undefined;
+}
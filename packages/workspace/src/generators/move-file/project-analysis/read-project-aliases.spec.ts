@@ -0,0 +1,83 @@
+import { Tree } from '@nx/devkit';
+import { createTreeWithEmptyWorkspace } from '@nx/devkit/testing';
+import {
+  clearProjectAliasesCache,
+  readProjectAliases,
+} from './read-project-aliases';
+import { clearCompilerPathsCache } from './read-compiler-paths';
+import { treeReadCache } from '../tree-cache';
+
+describe('readProjectAliases', () => {
+  let tree: Tree;
+
+  beforeEach(() => {
+    treeReadCache.clear();
+    clearCompilerPathsCache();
+    clearProjectAliasesCache();
+    tree = createTreeWithEmptyWorkspace();
+    tree.write(
+      'tsconfig.base.json',
+      JSON.stringify({
+        compilerOptions: {
+          paths: {
+            '@myorg/ui': ['libs/ui/src/index.ts'],
+            '@app/*': ['apps/shop/src/app/*'],
+          },
+        },
+      }),
+    );
+  });
+
+  afterEach(() => {
+    treeReadCache.clear();
+    clearCompilerPathsCache();
+    clearProjectAliasesCache();
+  });
+
+  it('should combine the aliases of every provider', () => {
+    tree.write(
+      'apps/shop/jest.config.ts',
+      "export default { moduleNameMapper: { '^@config$': '<rootDir>/src/config.ts' } };\n",
+    );
+    tree.write(
+      'apps/shop/vite.config.ts',
+      "export default { resolve: { alias: { '~': './src' } } };\n",
+    );
+
+    expect(readProjectAliases(tree, 'apps/shop')).toEqual([
+      {
+        '@myorg/ui': ['libs/ui/src/index.ts'],
+        '@app/*': ['apps/shop/src/app/*'],
+      },
+      { '@config': ['apps/shop/src/config.ts'] },
+      { '~': ['apps/shop/src'], '~/*': ['apps/shop/src/*'] },
+    ]);
+  });
+
+  it('should keep the tsconfig paths of an alias declared several times', () => {
+    tree.write(
+      'apps/shop/jest.config.ts',
+      "export default { moduleNameMapper: { '^@app/(.*)$': '<rootDir>/src/legacy/$1' } };\n",
+    );
+
+    expect(readProjectAliases(tree, 'apps/shop')).toEqual([
+      {
+        '@myorg/ui': ['libs/ui/src/index.ts'],
+        '@app/*': ['apps/shop/src/app/*'],
+      },
+    ]);
+  });
+
+  it('should cache the aliases of each project', () => {
+    expect(readProjectAliases(tree, 'apps/shop')).toHaveLength(1);
+
+    tree.write(
+      'apps/shop/vite.config.ts',
+      "export default { resolve: { alias: { '~': './src' } } };\n",
+    );
+    expect(readProjectAliases(tree, 'apps/shop')).toHaveLength(1);
+
+    clearProjectAliasesCache();
+    expect(readProjectAliases(tree, 'apps/shop')).toHaveLength(2);
+  });
+});
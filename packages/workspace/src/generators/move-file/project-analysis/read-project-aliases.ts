@@ -0,0 +1,98 @@
+import { Tree, logger, normalizePath } from '@nx/devkit';
+import type {
+  AliasPaths,
+  AliasProvider,
+  ProjectAliases,
+} from '../types/alias-provider';
+import { readBabelAliases } from './read-babel-aliases';
+import { readBundlerAliases } from './read-bundler-aliases';
+import { readCompilerPaths } from './read-compiler-paths';
+import { readJestAliases } from './read-jest-aliases';
+
+/**
+ * Sources of the import aliases of a project, in order of precedence.
+ * Supporting another alias source takes a provider here.
+ */
+export const aliasProviders: readonly AliasProvider[] = [
+  { name: 'tsconfig paths', readAliases: readTsconfigAliases },
+  { name: 'Jest moduleNameMapper', readAliases: readJestAliases },
+  { name: 'Vite and webpack resolve.alias', readAliases: readBundlerAliases },
+  { name: 'babel-plugin-module-resolver', readAliases: readBabelAliases },
+];
+
+// Cache for the aliases of each project root
+const projectAliasesCache = new Map<string, ProjectAliases>();
+
+/**
+ * Reads the import aliases that apply to the files of a project from all
+ * alias providers: tsconfig `paths`, Jest's `moduleNameMapper`, the
+ * `resolve.alias` of Vite and webpack, and `babel-plugin-module-resolver`.
+ * The aliases are grouped per provider, so that imports through one provider's
+ * aliases can be rewritten to aliases the same tool resolves. An alias
+ * declared by several providers keeps the paths of the first one.
+ *
+ * Results are cached per project root.
+ *
+ * @param tree - The virtual file system tree
+ * @param projectRoot - Root directory of the project
+ * @returns The aliases per provider, with paths relative to the workspace root
+ */
+export function readProjectAliases(
+  tree: Tree,
+  projectRoot: string,
+): ProjectAliases {
+  const cached = projectAliasesCache.get(projectRoot);
+  if (cached) {
+    return cached;
+  }
+
+  const aliases: ProjectAliases = [];
+  const declaredAliases = new Set<string>();
+  for (const provider of aliasProviders) {
+    const aliasPaths = Object.fromEntries(
+      Object.entries(provider.readAliases(tree, projectRoot)).filter(
+        ([alias]) => !declaredAliases.has(alias),
+      ),
+    );
+    const providerAliases = Object.keys(aliasPaths);
+    if (providerAliases.length === 0) {
+      continue;
+    }
+
+    providerAliases.forEach((alias) => declaredAliases.add(alias));
+    aliases.push(aliasPaths);
+    logger.verbose(
+      `Read ${providerAliases.length} aliases of ${projectRoot} from ${provider.name}`,
+    );
+  }
+
+  projectAliasesCache.set(projectRoot, aliases);
+  return aliases;
+}
+
+/**
+ * Clears the project aliases cache.
+ * Should be called when config files are modified or at the start of generator execution.
+ */
+export function clearProjectAliasesCache(): void {
+  projectAliasesCache.clear();
+}
+
+/**
+ * Reads the tsconfig path mappings (see readCompilerPaths) as aliases.
+ */
+function readTsconfigAliases(tree: Tree): AliasPaths {
+  const aliasPaths: AliasPaths = {};
+  for (const [alias, pathEntry] of Object.entries(
+    readCompilerPaths(tree) ?? {},
+  )) {
+    const targets = (Array.isArray(pathEntry) ? pathEntry : [pathEntry])
+      .filter((target): target is string => typeof target === 'string')
+      .map((target) => normalizePath(target));
+    if (targets.length > 0) {
+      aliasPaths[alias] = targets;
+    }
+  }
+
+  return aliasPaths;
+}
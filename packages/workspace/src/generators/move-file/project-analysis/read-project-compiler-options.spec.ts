@@ -0,0 +1,138 @@
+import { Tree } from '@nx/devkit';
+import { createTreeWithEmptyWorkspace } from '@nx/devkit/testing';
+import {
+  clearProjectCompilerOptionsCache,
+  readProjectCompilerOptions,
+} from './read-project-compiler-options';
+import { treeReadCache } from '../tree-cache';
+
+describe('readProjectCompilerOptions', () => {
+  let tree: Tree;
+
+  beforeEach(() => {
+    clearProjectCompilerOptionsCache();
+    treeReadCache.clear();
+    tree = createTreeWithEmptyWorkspace();
+  });
+
+  afterEach(() => {
+    clearProjectCompilerOptionsCache();
+    treeReadCache.clear();
+  });
+
+  it('should prefer the build tsconfig of the project', () => {
+    tree.write(
+      'apps/shop/tsconfig.json',
+      JSON.stringify({ compilerOptions: { module: 'esnext' } }),
+    );
+    tree.write(
+      'apps/shop/tsconfig.app.json',
+      JSON.stringify({ compilerOptions: { module: 'nodenext' } }),
+    );
+
+    expect(readProjectCompilerOptions(tree, 'apps/shop')).toEqual({
+      module: 'nodenext',
+    });
+  });
+
+  it('should follow extended tsconfig files', () => {
+    tree.write(
+      'tsconfig.base.json',
+      JSON.stringify({ compilerOptions: { moduleResolution: 'nodenext' } }),
+    );
+    tree.write(
+      'apps/shop/tsconfig.json',
+      JSON.stringify({ extends: '../../tsconfig.base.json' }),
+    );
+    tree.write(
+      'apps/shop/tsconfig.app.json',
+      JSON.stringify({ extends: './tsconfig.json', compilerOptions: {} }),
+    );
+
+    expect(readProjectCompilerOptions(tree, 'apps/shop')).toEqual({
+      moduleResolution: 'nodenext',
+    });
+  });
+
+  it('should let a tsconfig override the options it extends', () => {
+    tree.write(
+      'tsconfig.base.json',
+      JSON.stringify({ compilerOptions: { moduleResolution: 'nodenext' } }),
+    );
+    tree.write(
+      'apps/shop/tsconfig.json',
+      JSON.stringify({
+        extends: ['../../tsconfig.base.json'],
+        compilerOptions: { moduleResolution: 'bundler' },
+      }),
+    );
+
+    expect(readProjectCompilerOptions(tree, 'apps/shop')).toEqual({
+      moduleResolution: 'bundler',
+    });
+  });
+
+  it('should resolve baseUrl against the tsconfig that declares it', () => {
+    tree.write(
+      'apps/shop/tsconfig.json',
+      JSON.stringify({ compilerOptions: { baseUrl: './src' } }),
+    );
+    tree.write(
+      'apps/shop/tsconfig.app.json',
+      JSON.stringify({ extends: './tsconfig.json' }),
+    );
+
+    expect(readProjectCompilerOptions(tree, 'apps/shop').baseUrl).toBe(
+      'apps/shop/src',
+    );
+  });
+
+  it('should resolve a root baseUrl to the workspace root', () => {
+    tree.write(
+      'tsconfig.base.json',
+      JSON.stringify({ compilerOptions: { baseUrl: '.' } }),
+    );
+
+    expect(readProjectCompilerOptions(tree, 'apps/shop').baseUrl).toBe('.');
+  });
+
+  it('should not loop on circular extends', () => {
+    tree.write(
+      'apps/shop/tsconfig.json',
+      JSON.stringify({
+        extends: './tsconfig.app.json',
+        compilerOptions: { module: 'nodenext' },
+      }),
+    );
+    tree.write(
+      'apps/shop/tsconfig.app.json',
+      JSON.stringify({ extends: './tsconfig.json' }),
+    );
+
+    expect(readProjectCompilerOptions(tree, 'apps/shop')).toEqual({
+      module: 'nodenext',
+    });
+  });
+
+  it('should cache the options until the cache is cleared', () => {
+    tree.write(
+      'apps/shop/tsconfig.json',
+      JSON.stringify({ compilerOptions: { module: 'nodenext' } }),
+    );
+    expect(readProjectCompilerOptions(tree, 'apps/shop').module).toBe(
+      'nodenext',
+    );
+
+    tree.write(
+      'apps/shop/tsconfig.json',
+      JSON.stringify({ compilerOptions: { module: 'esnext' } }),
+    );
+    treeReadCache.clear();
+    expect(readProjectCompilerOptions(tree, 'apps/shop').module).toBe(
+      'nodenext',
+    );
+
+    clearProjectCompilerOptionsCache();
+    expect(readProjectCompilerOptions(tree, 'apps/shop').module).toBe('esnext');
+  });
+});
@@ -0,0 +1,119 @@
+import { Tree, logger, normalizePath, parseJson } from '@nx/devkit';
+import { posix as path } from 'node:path';
+import { treeReadCache } from '../tree-cache';
+import type { ProjectCompilerOptions } from '../types/project-compiler-options';
+
+/**
+ * Tsconfig files whose compiler options apply to a project's source files,
+ * in order of preference, followed by the root tsconfig files.
+ */
+const projectTsconfigFiles = [
+  'tsconfig.lib.json',
+  'tsconfig.app.json',
+  'tsconfig.json',
+];
+const rootTsconfigFiles = ['tsconfig.base.json', 'tsconfig.json'];
+
+// Cache for the compiler options of each project root
+const projectCompilerOptionsCache = new Map<string, ProjectCompilerOptions>();
+
+/**
+ * Reads the compiler options that decide how a project's files import each
+ * other from the first of its tsconfig.lib.json, tsconfig.app.json, and
+ * tsconfig.json (or the root tsconfig files), following `extends`.
+ *
+ * `baseUrl` is resolved against the directory of the tsconfig file that
+ * declares it.
+ *
+ * Results are cached per project root.
+ *
+ * @param tree - The virtual file system tree
+ * @param projectRoot - Root directory of the project
+ * @returns The compiler options of the project
+ */
+export function readProjectCompilerOptions(
+  tree: Tree,
+  projectRoot: string,
+): ProjectCompilerOptions {
+  const cached = projectCompilerOptionsCache.get(projectRoot);
+  if (cached) {
+    return cached;
+  }
+
+  const tsconfigPath = [
+    ...projectTsconfigFiles.map((file) => path.join(projectRoot, file)),
+    ...rootTsconfigFiles,
+  ].find((file) => tree.exists(file));
+  const options = tsconfigPath
+    ? readTsconfigCompilerOptions(tree, tsconfigPath, new Set())
+    : {};
+
+  projectCompilerOptionsCache.set(projectRoot, options);
+  return options;
+}
+
+/**
+ * Reads the compiler options of a tsconfig file, merged over those of the
+ * tsconfig files it extends by relative path.
+ */
+function readTsconfigCompilerOptions(
+  tree: Tree,
+  tsconfigPath: string,
+  visited: Set<string>,
+): ProjectCompilerOptions {
+  if (visited.has(tsconfigPath) || !tree.exists(tsconfigPath)) {
+    return {};
+  }
+  visited.add(tsconfigPath);
+
+  try {
+    const content = treeReadCache.read(tree, tsconfigPath, 'utf-8');
+    const tsconfig = content ? parseJson(content) : {};
+    const extendsPaths: unknown[] = Array.isArray(tsconfig.extends)
+      ? tsconfig.extends
+      : [tsconfig.extends];
+
+    const baseOptions = extendsPaths
+      .filter(
+        (extendsPath): extendsPath is string =>
+          typeof extendsPath === 'string' && extendsPath.startsWith('.'),
+      )
+      .map((extendsPath) =>
+        readTsconfigCompilerOptions(
+          tree,
+          normalizePath(path.join(path.dirname(tsconfigPath), extendsPath)),
+          visited,
+        ),
+      );
+    const { module, moduleResolution, allowImportingTsExtensions, baseUrl } =
+      tsconfig.compilerOptions ?? {};
+    const ownOptions: ProjectCompilerOptions = {};
+    if (typeof module === 'string') {
+      ownOptions.module = module;
+    }
+    if (typeof moduleResolution === 'string') {
+      ownOptions.moduleResolution = moduleResolution;
+    }
+    if (typeof allowImportingTsExtensions === 'boolean') {
+      ownOptions.allowImportingTsExtensions = allowImportingTsExtensions;
+    }
+    if (typeof baseUrl === 'string') {
+      ownOptions.baseUrl = normalizePath(
+        path.join(path.dirname(tsconfigPath), baseUrl),
+      );
+    }
+
+    return Object.assign({}, ...baseOptions, ownOptions);
+  } catch (error) {
+    logger.warn(`Could not parse ${tsconfigPath}: ${error}`);
+    return {};
+  }
+}
+
+/**
+ * Clears the project compiler options cache.
+ * Should be called when tsconfig files are modified or at the start of generator execution.
+ */
+export function clearProjectCompilerOptionsCache(): void {
+  projectCompilerOptionsCache.clear();
+}
@@ -0,0 +1,39 @@
+import { Tree } from '@nx/devkit';
+import { createTreeWithEmptyWorkspace } from '@nx/devkit/testing';
+import { readProjectPackageJson } from './read-project-package-json';
+import { treeReadCache } from '../tree-cache';
+
+describe('readProjectPackageJson', () => {
+  let tree: Tree;
+
+  beforeEach(() => {
+    treeReadCache.clear();
+    tree = createTreeWithEmptyWorkspace();
+  });
+
+  afterEach(() => {
+    treeReadCache.clear();
+  });
+
+  it('should read the package.json at the project root', () => {
+    tree.write(
+      'packages/lib1/package.json',
+      JSON.stringify({ name: '@myorg/lib1', version: '1.0.0' }),
+    );
+
+    expect(readProjectPackageJson(tree, 'packages/lib1')).toEqual({
+      name: '@myorg/lib1',
+      version: '1.0.0',
+    });
+  });
+
+  it('should return null without a package.json', () => {
+    expect(readProjectPackageJson(tree, 'packages/lib1')).toBeNull();
+  });
+
+  it('should return null for an invalid package.json', () => {
+    tree.write('packages/lib1/package.json', '{ invalid');
+
+    expect(readProjectPackageJson(tree, 'packages/lib1')).toBeNull();
+  });
+});
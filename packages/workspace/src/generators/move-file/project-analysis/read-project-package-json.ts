@@ -0,0 +1,29 @@
+import { Tree, logger, parseJson } from '@nx/devkit';
+import { posix as path } from 'node:path';
+import { treeReadCache } from '../tree-cache';
+import type { PackageJson } from '../types/package-json';
+
+/**
+ * Reads the package.json at a project's root.
+ *
+ * @param tree - The virtual file system tree
+ * @param projectRoot - Root directory of the project
+ * @returns The parsed package.json or null if it is missing or invalid
+ */
+export function readProjectPackageJson(
+  tree: Tree,
+  projectRoot: string,
+): PackageJson | null {
+  const packageJsonPath = path.join(projectRoot, 'package.json');
+  if (!tree.exists(packageJsonPath)) {
+    return null;
+  }
+
+  try {
+    const content = treeReadCache.read(tree, packageJsonPath, 'utf-8');
+    return content ? parseJson<PackageJson>(content) : null;
+  } catch (error) {
+    logger.warn(`Could not parse ${packageJsonPath}: ${error}`);
+    return null;
+  }
+}
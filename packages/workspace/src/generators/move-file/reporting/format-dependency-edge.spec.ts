@@ -0,0 +1,24 @@
+import { formatDependencyEdge } from './format-dependency-edge';
+
+describe('formatDependencyEdge', () => {
+  it('should name the import specifier', () => {
+    expect(
+      formatDependencyEdge({
+        sourceProject: 'a',
+        targetProject: 'b',
+        filePath: 'libs/a/src/lib/x.ts',
+        specifier: '@org/b',
+      }),
+    ).toBe('"libs/a/src/lib/x.ts" imports "@org/b"');
+  });
+
+  it('should refer to the moved file when there is no specifier', () => {
+    expect(
+      formatDependencyEdge({
+        sourceProject: 'a',
+        targetProject: 'b',
+        filePath: 'libs/a/src/lib/page.ts',
+      }),
+    ).toBe('"libs/a/src/lib/page.ts" imports the moved file');
+  });
+});
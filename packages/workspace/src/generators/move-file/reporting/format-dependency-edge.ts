@@ -0,0 +1,13 @@
+import type { ProjectDependencyEdge } from '../types/project-dependencies';
+
+/**
+ * Describes the import behind a project dependency for error messages.
+ *
+ * @param edge - The project dependency.
+ * @returns For example `"libs/a/src/lib/x.ts" imports "@org/b"`.
+ */
+export function formatDependencyEdge(edge: ProjectDependencyEdge): string {
+  return edge.specifier
+    ? `"${edge.filePath}" imports "${edge.specifier}"`
+    : `"${edge.filePath}" imports the moved file`;
+}
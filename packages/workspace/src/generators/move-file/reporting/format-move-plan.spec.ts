@@ -0,0 +1,132 @@
+import { formatMovePlan } from './format-move-plan';
+import type { MovePlan } from '../types/move-plan';
+
+describe('formatMovePlan', () => {
+  const plan: MovePlan = {
+    entries: [
+      {
+        source: 'packages/lib1/src/lib/a.ts',
+        target: 'packages/lib2/src/lib/a.ts',
+        sourceProject: 'lib1',
+        targetProject: 'lib2',
+        strategy: 'exported',
+        importRewrites: [
+          {
+            filePath: 'packages/app1/src/main.ts',
+            from: '@test/lib1',
+            to: '@test/lib2',
+          },
+        ],
+        exportsAdded: [
+          {
+            indexPath: 'packages/lib2/src/index.ts',
+            statement: "export * from './lib/a';",
+          },
+        ],
+        exportsRemoved: [
+          {
+            indexPath: 'packages/lib1/src/index.ts',
+            statement: "export * from './lib/a';",
+          },
+        ],
+        removedProjects: ['lib1'],
+      },
+    ],
+    removedProjects: ['lib1'],
+  };
+
+  it('should format the plan as JSON', () => {
+    const result = formatMovePlan(plan, 'json');
+
+    expect(JSON.parse(result)).toEqual(plan);
+  });
+
+  it('should format the plan as Markdown', () => {
+    const result = formatMovePlan(plan, 'markdown');
+
+    expect(result).toContain(
+      '## `packages/lib1/src/lib/a.ts` → `packages/lib2/src/lib/a.ts`',
+    );
+    expect(result).toContain('- Strategy: `exported`');
+    expect(result).toContain(
+      '| `packages/app1/src/main.ts` | `@test/lib1` | `@test/lib2` |',
+    );
+    expect(result).toContain(
+      "- Add to `packages/lib2/src/index.ts`: `export * from './lib/a';`",
+    );
+    expect(result).toContain(
+      "- Remove from `packages/lib1/src/index.ts`: `export * from './lib/a';`",
+    );
+    expect(result).toContain('## Removed projects');
+  });
+
+  it('should list the symbols of split imports in Markdown', () => {
+    const result = formatMovePlan(
+      {
+        entries: [
+          {
+            ...plan.entries[0],
+            importRewrites: [
+              {
+                filePath: 'packages/app1/src/main.ts',
+                from: '@test/lib1',
+                to: '@test/lib2',
+                symbols: ['a', 'b'],
+              },
+            ],
+          },
+        ],
+        removedProjects: [],
+      },
+      'markdown',
+    );
+
+    expect(result).toContain(
+      '| `packages/app1/src/main.ts` | `@test/lib1` | `@test/lib2` (`a`, `b`) |',
+    );
+  });
+
+  it('should note how an existing target file was handled in Markdown', () => {
+    const result = formatMovePlan(
+      {
+        entries: [
+          {
+            ...plan.entries[0],
+            target: 'packages/lib2/src/lib/a-1.ts',
+            conflict: {
+              resolution: 'rename',
+              existingFile: 'packages/lib2/src/lib/a.ts',
+            },
+          },
+        ],
+        removedProjects: [],
+      },
+      'markdown',
+    );
+
+    expect(result).toContain(
+      '- Conflict: `packages/lib2/src/lib/a.ts` already exists (`rename`)',
+    );
+  });
+
+  it('should note when no files would be moved', () => {
+    const result = formatMovePlan(
+      { entries: [], removedProjects: [] },
+      'markdown',
+    );
+
+    expect(result).toContain('No files would be moved.');
+  });
+
+  it('should note when no imports would be rewritten', () => {
+    const result = formatMovePlan(
+      {
+        entries: [{ ...plan.entries[0], importRewrites: [] }],
+        removedProjects: [],
+      },
+      'markdown',
+    );
+
+    expect(result).toContain('No import specifiers would be rewritten.');
+  });
+});
@@ -0,0 +1,79 @@
+import type { MovePlan } from '../types/move-plan';
+
+/**
+ * Supported output formats for a move plan.
+ */
+export type MovePlanFormat = 'json' | 'markdown';
+
+/**
+ * Formats a move plan as JSON or as a Markdown report suitable for PR comments.
+ *
+ * @param plan - The move plan to format.
+ * @param format - Output format.
+ * @returns The formatted report.
+ */
+export function formatMovePlan(plan: MovePlan, format: MovePlanFormat): string {
+  if (format === 'json') {
+    return `${JSON.stringify(plan, null, 2)}\n`;
+  }
+
+  const lines: string[] = ['# Move plan', ''];
+
+  if (plan.entries.length === 0) {
+    lines.push('No files would be moved.', '');
+  }
+
+  for (const entry of plan.entries) {
+    lines.push(
+      `## \`${entry.source}\` → \`${entry.target}\``,
+      '',
+      `- Source project: \`${entry.sourceProject}\``,
+      `- Target project: \`${entry.targetProject}\``,
+      `- Strategy: \`${entry.strategy}\``,
+    );
+    if (entry.conflict) {
+      lines.push(
+        `- Conflict: \`${entry.conflict.existingFile}\` already exists (\`${entry.conflict.resolution}\`)`,
+      );
+    }
+    lines.push('');
+
+    if (entry.importRewrites.length > 0) {
+      lines.push('| File | From | To |', '| --- | --- | --- |');
+      for (const rewrite of entry.importRewrites) {
+        const symbols = rewrite.symbols
+          ? ` (${rewrite.symbols.map((symbol) => `\`${symbol}\``).join(', ')})`
+          : '';
+        lines.push(
+          `| \`${rewrite.filePath}\` | \`${rewrite.from}\` | \`${rewrite.to}\`${symbols} |`,
+        );
+      }
+      lines.push('');
+    } else {
+      lines.push('No import specifiers would be rewritten.', '');
+    }
+
+    for (const change of entry.exportsAdded) {
+      lines.push(`- Add to \`${change.indexPath}\`: \`${change.statement}\``);
+    }
+    for (const change of entry.exportsRemoved) {
+      lines.push(
+        `- Remove from \`${change.indexPath}\`: \`${change.statement}\``,
+      );
+    }
+    if (entry.exportsAdded.length > 0 || entry.exportsRemoved.length > 0) {
+      lines.push('');
+    }
+  }
+
+  if (plan.removedProjects.length > 0) {
+    lines.push(
+      '## Removed projects',
+      '',
+      ...plan.removedProjects.map((projectName) => `- \`${projectName}\``),
+      '',
+    );
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,130 @@
+import type { ProjectConfiguration } from '@nx/devkit';
+import { moveRecorder } from './move-recorder';
+import type { MoveContext } from '../types/move-context';
+
+describe('moveRecorder', () => {
+  const project: ProjectConfiguration = {
+    root: 'packages/lib1',
+    sourceRoot: 'packages/lib1/src',
+    projectType: 'library',
+  };
+
+  const ctx = {
+    normalizedSource: 'packages/lib1/src/lib/a.ts',
+    normalizedTarget: 'packages/lib2/src/lib/a.ts',
+    sourceProject: project,
+    sourceProjectName: 'lib1',
+    targetProject: project,
+    targetProjectName: 'lib2',
+  } as MoveContext;
+
+  afterEach(() => {
+    moveRecorder.stop();
+  });
+
+  it('should not record anything when not started', () => {
+    moveRecorder.beginEntry(ctx, 'exported');
+    moveRecorder.recordImportRewrite('app.ts', '@test/lib1', '@test/lib2');
+
+    expect(moveRecorder.isRecording()).toBe(false);
+    expect(moveRecorder.stop()).toEqual([]);
+  });
+
+  it('should record changes against the current entry', () => {
+    moveRecorder.start();
+    moveRecorder.beginEntry(ctx, 'exported');
+    moveRecorder.recordImportRewrite('app.ts', '@test/lib1', '@test/lib2');
+    moveRecorder.recordExportAdded(
+      'packages/lib2/src/index.ts',
+      "export * from './lib/a';",
+    );
+    moveRecorder.recordExportRemoved(
+      'packages/lib1/src/index.ts',
+      "export * from './lib/a';",
+    );
+
+    expect(moveRecorder.stop()).toEqual([
+      {
+        source: 'packages/lib1/src/lib/a.ts',
+        target: 'packages/lib2/src/lib/a.ts',
+        sourceProject: 'lib1',
+        targetProject: 'lib2',
+        strategy: 'exported',
+        importRewrites: [
+          { filePath: 'app.ts', from: '@test/lib1', to: '@test/lib2' },
+        ],
+        exportsAdded: [
+          {
+            indexPath: 'packages/lib2/src/index.ts',
+            statement: "export * from './lib/a';",
+          },
+        ],
+        exportsRemoved: [
+          {
+            indexPath: 'packages/lib1/src/index.ts',
+            statement: "export * from './lib/a';",
+          },
+        ],
+        removedProjects: [],
+      },
+    ]);
+  });
+
+  it('should skip unchanged and duplicate import rewrites', () => {
+    moveRecorder.start();
+    moveRecorder.beginEntry(ctx, 'exported');
+    moveRecorder.recordImportRewrite('app.ts', '@test/lib1', '@test/lib1');
+    moveRecorder.recordImportRewrite('app.ts', '@test/lib1', '@test/lib2');
+    moveRecorder.recordImportRewrite('app.ts', '@test/lib1', '@test/lib2');
+
+    const [entry] = moveRecorder.stop();
+
+    expect(entry.importRewrites).toHaveLength(1);
+  });
+
+  it('should merge symbols of duplicate import rewrites', () => {
+    moveRecorder.start();
+    moveRecorder.beginEntry(ctx, 'exported');
+    moveRecorder.recordImportRewrite('app.ts', '@test/lib1', '@test/lib2', [
+      'a',
+    ]);
+    moveRecorder.recordImportRewrite('app.ts', '@test/lib1', '@test/lib2', [
+      'a',
+      'b',
+    ]);
+
+    const [entry] = moveRecorder.stop();
+
+    expect(entry.importRewrites).toEqual([
+      {
+        filePath: 'app.ts',
+        from: '@test/lib1',
+        to: '@test/lib2',
+        symbols: ['a', 'b'],
+      },
+    ]);
+  });
+
+  it('should attribute removed projects to entries moving out of them', () => {
+    moveRecorder.start();
+    moveRecorder.beginEntry(ctx, 'exported');
+    moveRecorder.beginEntry(
+      { ...ctx, sourceProjectName: 'lib3' } as MoveContext,
+      'default',
+    );
+    moveRecorder.recordProjectRemoved('lib1');
+
+    const [first, second] = moveRecorder.stop();
+
+    expect(first.removedProjects).toEqual(['lib1']);
+    expect(second.removedProjects).toEqual([]);
+  });
+
+  it('should discard previous entries when started again', () => {
+    moveRecorder.start();
+    moveRecorder.beginEntry(ctx, 'exported');
+    moveRecorder.start();
+
+    expect(moveRecorder.stop()).toEqual([]);
+  });
+});
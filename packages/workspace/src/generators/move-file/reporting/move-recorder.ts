@@ -0,0 +1,120 @@
+import type { MoveContext } from '../types/move-context';
+import type { MovePlanEntry, MoveStrategy } from '../types/move-plan';
+
+/**
+ * Records the changes made by a move operation, one entry per MoveContext.
+ *
+ * Recording is opt-in: the low-level import and export helpers always report
+ * their changes, but they are only collected between start() and stop().
+ * This keeps the regular move path free of bookkeeping overhead.
+ */
+class MoveRecorder {
+  private entries: MovePlanEntry[] | null = null;
+  private currentEntry: MovePlanEntry | null = null;
+
+  /**
+   * Starts collecting changes, discarding anything recorded before.
+   */
+  start(): void {
+    this.entries = [];
+    this.currentEntry = null;
+  }
+
+  /**
+   * Whether changes are currently being collected.
+   */
+  isRecording(): boolean {
+    return this.entries !== null;
+  }
+
+  /**
+   * Begins a new entry; subsequent changes are attributed to this move.
+   */
+  beginEntry(ctx: MoveContext, strategy: MoveStrategy): void {
+    if (!this.entries) {
+      return;
+    }
+
+    this.currentEntry = {
+      source: ctx.normalizedSource,
+      target: ctx.normalizedTarget,
+      sourceProject: ctx.sourceProjectName,
+      targetProject: ctx.targetProjectName,
+      strategy,
+      importRewrites: [],
+      exportsAdded: [],
+      exportsRemoved: [],
+      removedProjects: [],
+      ...(ctx.targetConflict && { conflict: ctx.targetConflict }),
+    };
+    this.entries.push(this.currentEntry);
+  }
+
+  /**
+   * Records an import specifier rewrite. Duplicate rewrites within the same
+   * file (e.g. two imports of the same module) are recorded once, with their
+   * symbols merged.
+   */
+  recordImportRewrite(
+    filePath: string,
+    from: string,
+    to: string,
+    symbols?: string[],
+  ): void {
+    if (!this.currentEntry || from === to) {
+      return;
+    }
+
+    const existing = this.currentEntry.importRewrites.find(
+      (rewrite) =>
+        rewrite.filePath === filePath &&
+        rewrite.from === from &&
+        rewrite.to === to,
+    );
+    if (!existing) {
+      this.currentEntry.importRewrites.push(
+        symbols ? { filePath, from, to, symbols } : { filePath, from, to },
+      );
+    } else if (symbols) {
+      existing.symbols = Array.from(
+        new Set([...(existing.symbols ?? []), ...symbols]),
+      );
+    }
+  }
+
+  /**
+   * Records an export statement added to an entrypoint.
+   */
+  recordExportAdded(indexPath: string, statement: string): void {
+    this.currentEntry?.exportsAdded.push({ indexPath, statement });
+  }
+
+  /**
+   * Records an export statement removed from an entrypoint.
+   */
+  recordExportRemoved(indexPath: string, statement: string): void {
+    this.currentEntry?.exportsRemoved.push({ indexPath, statement });
+  }
+
+  /**
+   * Records a project removal against the entries that moved files out of it.
+   */
+  recordProjectRemoved(projectName: string): void {
+    this.entries
+      ?.filter((entry) => entry.sourceProject === projectName)
+      .forEach((entry) => entry.removedProjects.push(projectName));
+  }
+
+  /**
+   * Stops collecting changes and returns the recorded entries.
+   */
+  stop(): MovePlanEntry[] {
+    const entries = this.entries ?? [];
+    this.entries = null;
+    this.currentEntry = null;
+    return entries;
+  }
+}
+
+// Export a singleton instance for use across the move operation
+export const moveRecorder = new MoveRecorder();
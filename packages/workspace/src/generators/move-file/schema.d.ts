@@ -1,10 +1,27 @@
 export interface MoveFileGeneratorSchema {
   file: string;
-  project: string;
+  project?: string;
+  targetPath?: string;
   projectDirectory?: string;
+  createProjectIfMissing?: boolean;
+  newProjectDirectory?: string;
+  newProjectImportPath?: string;
+  newProjectTags?: string;
   deriveProjectDirectory?: boolean;
   skipExport?: boolean;
   skipFormat?: boolean;
   allowUnicode?: boolean;
   removeEmptyProject?: boolean;
+  withCompanions?: boolean;
+  companionPatterns?: string[];
+  moveDependencies?: 'none' | 'exclusive' | 'all';
+  allowBoundaryViolations?: boolean;
+  allowCircularDependencies?: boolean;
+  onConflict?: 'fail' | 'overwrite' | 'rename' | 'merge-exports';
+  leaveShim?: boolean;
+  updateDependents?: boolean;
+  recordHistory?: boolean;
+  plan?: boolean;
+  planFormat?: 'json' | 'markdown';
+  planOutput?: string;
 }
@@ -0,0 +1,39 @@
+import type { ASTPath } from 'jscodeshift';
+import { j } from '../ast-cache';
+import { collectReferencedNames } from './collect-referenced-names';
+
+describe('collectReferencedNames', () => {
+  const collect = (code: string) =>
+    collectReferencedNames(
+      j(code)
+        .find(j.Program)
+        .get('body')
+        .map((path: ASTPath) => path),
+    );
+
+  it('should collect referenced identifiers and types', () => {
+    const names = collect(
+      'export function foo(value: Bar): Baz { return helper(value); }',
+    );
+
+    expect(names).toEqual(new Set(['foo', 'value', 'Bar', 'Baz', 'helper']));
+  });
+
+  it('should skip property and member names', () => {
+    const names = collect(
+      'const a = { key: value, [computed]: 1, shorthand }; a.member; a[index]; type T = Ns.Member;',
+    );
+
+    expect(names).toEqual(
+      new Set(['a', 'value', 'computed', 'shorthand', 'index', 'T', 'Ns']),
+    );
+  });
+
+  it('should collect JSX component names but not attribute names', () => {
+    const names = collect(
+      'const el = <Button onClick={handler}><Icons.Star /></Button>;',
+    );
+
+    expect(names).toEqual(new Set(['el', 'Button', 'handler', 'Icons']));
+  });
+});
@@ -0,0 +1,67 @@
+import type { ASTPath, Identifier, JSXIdentifier } from 'jscodeshift';
+import { j } from '../ast-cache';
+
+/**
+ * Checks if an identifier refers to a binding, as opposed to a property
+ * name (`a.name`, `{ name: a }`, class members, type members).
+ */
+function isReference(path: ASTPath<Identifier | JSXIdentifier>): boolean {
+  const parent = path.parent?.node;
+  if (!parent) {
+    return true;
+  }
+
+  if (
+    (j.MemberExpression.check(parent) ||
+      j.OptionalMemberExpression.check(parent) ||
+      j.JSXMemberExpression.check(parent)) &&
+    parent.property === path.node
+  ) {
+    return !!(parent as { computed?: boolean }).computed;
+  }
+
+  if (j.TSQualifiedName.check(parent) && parent.right === path.node) {
+    return false;
+  }
+
+  if (j.JSXAttribute.check(parent)) {
+    return false;
+  }
+
+  if ('key' in parent && parent.key === path.node) {
+    // Shorthand properties (`{ a }`) also reference `a`
+    return (
+      !!(parent as { computed?: boolean }).computed ||
+      !!(parent as { shorthand?: boolean }).shorthand
+    );
+  }
+
+  return true;
+}
+
+/**
+ * Collects the names referenced by one or more AST nodes.
+ *
+ * Identifiers used as property names, member names, or JSX attribute names
+ * are not references and are skipped. Names declared inside the nodes (for
+ * example function parameters) are included.
+ *
+ * @param paths - AST paths to search.
+ * @returns Referenced names.
+ */
+export function collectReferencedNames(paths: ASTPath[]): Set<string> {
+  const names = new Set<string>();
+
+  for (const path of paths) {
+    j(path)
+      .find(j.Identifier)
+      .filter(isReference)
+      .forEach((identifierPath) => names.add(identifierPath.node.name));
+    j(path)
+      .find(j.JSXIdentifier)
+      .filter(isReference)
+      .forEach((identifierPath) => names.add(identifierPath.node.name));
+  }
+
+  return names;
+}
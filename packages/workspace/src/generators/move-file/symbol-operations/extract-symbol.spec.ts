@@ -0,0 +1,102 @@
+import { Tree, logger } from '@nx/devkit';
+import { createTreeWithEmptyWorkspace } from '@nx/devkit/testing';
+import { extractSymbol } from './extract-symbol';
+import { astCache } from '../ast-cache';
+import { treeReadCache } from '../tree-cache';
+
+describe('extractSymbol', () => {
+  let tree: Tree;
+
+  beforeEach(() => {
+    tree = createTreeWithEmptyWorkspace();
+    astCache.clear();
+    treeReadCache.clear();
+    jest.spyOn(logger, 'verbose').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should remove the declaration and return its code and imports', () => {
+    tree.write(
+      'lib/utils.ts',
+      "import { a, b } from './a';\nimport type { T } from './t';\n\nexport function foo(t: T) { return a(t); }\n\nexport const bar = b;\n",
+    );
+
+    const result = extractSymbol(tree, 'lib/utils.ts', 'foo', './foo');
+
+    expect(result.code).toBe('export function foo(t: T) { return a(t); }');
+    expect(result.imports).toHaveLength(2);
+    expect(result.imports[0]).toMatchObject({ source: './a' });
+    expect(result.imports[0].specifiers).toHaveLength(1);
+    expect(result.imports[1]).toMatchObject({
+      source: './t',
+      importKind: 'type',
+    });
+    expect(result.localDependencies).toEqual([]);
+    expect(result.isTypeOnly).toBe(false);
+    expect(result.isSourceEmpty).toBe(false);
+    expect(tree.read('lib/utils.ts', 'utf-8')).toBe(
+      "import { b } from './a';\n\nexport const bar = b;\n",
+    );
+  });
+
+  it('should report exported local dependencies', () => {
+    tree.write(
+      'lib/utils.ts',
+      'export const base = 1;\nexport const foo = () => base;\n',
+    );
+
+    const result = extractSymbol(tree, 'lib/utils.ts', 'foo', './foo');
+
+    expect(result.localDependencies).toEqual(['base']);
+  });
+
+  it('should import the symbol when the file still uses it', () => {
+    tree.write(
+      'lib/utils.ts',
+      "import { a } from './a';\n\nexport interface Foo {}\nexport const foos: Foo[] = [a];\n",
+    );
+
+    const result = extractSymbol(tree, 'lib/utils.ts', 'Foo', './foo');
+
+    expect(result.isTypeOnly).toBe(true);
+    const content = tree.read('lib/utils.ts', 'utf-8');
+    expect(content).toContain("import type { Foo } from './foo';");
+    expect(content).not.toContain('interface Foo');
+  });
+
+  it('should report an empty source file', () => {
+    tree.write(
+      'lib/utils.ts',
+      "import { a } from './a';\nexport const foo = a;\n",
+    );
+
+    const result = extractSymbol(tree, 'lib/utils.ts', 'foo', './foo');
+
+    expect(result.isSourceEmpty).toBe(true);
+  });
+
+  it('should throw when the symbol is not exported', () => {
+    tree.write('lib/utils.ts', 'const foo = 1;\n');
+
+    expect(() => extractSymbol(tree, 'lib/utils.ts', 'foo', './foo')).toThrow(
+      'Symbol "foo" is not exported from "lib/utils.ts"',
+    );
+  });
+
+  it('should throw when the symbol uses a declaration that is not exported', () => {
+    tree.write(
+      'lib/utils.ts',
+      'function helper() {}\nexport const foo = () => helper();\n',
+    );
+
+    expect(() => extractSymbol(tree, 'lib/utils.ts', 'foo', './foo')).toThrow(
+      'Cannot move "foo": it depends on "helper", which is not exported from "lib/utils.ts"',
+    );
+    expect(tree.read('lib/utils.ts', 'utf-8')).toBe(
+      'function helper() {}\nexport const foo = () => helper();\n',
+    );
+  });
+});
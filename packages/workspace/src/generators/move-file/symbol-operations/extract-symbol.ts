@@ -0,0 +1,198 @@
+import type { Tree } from '@nx/devkit';
+import { logger } from '@nx/devkit';
+import type { ASTPath, ImportDeclaration } from 'jscodeshift';
+import { astCache, j } from '../ast-cache';
+import { treeReadCache } from '../tree-cache';
+import type { ExtractedSymbol, SymbolImport } from '../types/symbol-move';
+import { collectReferencedNames } from './collect-referenced-names';
+import { findSymbolDeclaration } from './find-symbol-declaration';
+import { getDeclaredNames } from './get-declared-names';
+
+/**
+ * Removes an exported symbol's declaration from its file and returns what is
+ * needed to declare it elsewhere.
+ *
+ * Imports that only the symbol used are removed from the file. When the rest
+ * of the file still uses the symbol, an import of the symbol from its new
+ * location is added.
+ *
+ * @param tree - The virtual file system tree.
+ * @param filePath - Path of the file that declares the symbol.
+ * @param symbol - Name of the exported symbol.
+ * @param symbolSpecifier - Specifier the file uses to import the symbol from its new location.
+ * @returns The extracted declaration and its dependencies.
+ * @throws Error if the file does not export the symbol or the symbol uses
+ * declarations that are not exported from the file.
+ */
+export function extractSymbol(
+  tree: Tree,
+  filePath: string,
+  symbol: string,
+  symbolSpecifier: string,
+): ExtractedSymbol {
+  const root = astCache.getAST(tree, filePath);
+  const declaration = root ? findSymbolDeclaration(root, symbol) : null;
+  if (!root || !declaration) {
+    throw new Error(`Symbol "${symbol}" is not exported from "${filePath}"`);
+  }
+
+  const { statements, declarator, exportSpecifier } = declaration;
+  const body: ASTPath[] = root
+    .find(j.Program)
+    .get('body')
+    .map((p: ASTPath) => p);
+
+  // Code of the declaration, always exported inline
+  const unwrap = (path: ASTPath) =>
+    j.ExportNamedDeclaration.check(path.node) ? path.get('declaration') : path;
+  let code: string;
+  if (declarator) {
+    const kind = unwrap(statements[0]).node.kind;
+    code = `export ${kind} ${j(declarator).toSource({ quote: 'single' })};`;
+  } else {
+    code = statements
+      .map((path) => {
+        const source = j(path).toSource({ quote: 'single' });
+        return j.ExportNamedDeclaration.check(path.node)
+          ? source
+          : `export ${source}`;
+      })
+      .join('\n\n');
+  }
+
+  const isTypeOnly = statements.every((path) => {
+    const node = unwrap(path).node;
+    return (
+      j.TSInterfaceDeclaration.check(node) ||
+      j.TSTypeAliasDeclaration.check(node)
+    );
+  });
+
+  const referencedNames = collectReferencedNames(
+    declarator ? [declarator] : statements,
+  );
+  referencedNames.delete(symbol);
+
+  // Imports used by the declaration
+  const imports: SymbolImport[] = [];
+  const importedNames = new Set<string>();
+  root.find(j.ImportDeclaration).forEach((path) => {
+    const specifiers = (path.node.specifiers ?? []).filter(
+      (specifier) =>
+        !!specifier.local && referencedNames.has(specifier.local.name),
+    );
+    if (specifiers.length === 0) {
+      return;
+    }
+
+    specifiers.forEach((specifier) =>
+      importedNames.add(specifier.local?.name as string),
+    );
+    imports.push({
+      source: path.node.source.value as string,
+      importKind: path.node.importKind,
+      specifiers,
+    });
+  });
+
+  // Other top-level declarations used by the declaration
+  const exportedNames = new Set<string>();
+  root
+    .find(j.ExportNamedDeclaration, (node) => !node.source)
+    .forEach((path) => {
+      getDeclaredNames(path.node).forEach((name) => exportedNames.add(name));
+      (path.node.specifiers ?? []).forEach((specifier) => {
+        if (specifier.local) {
+          exportedNames.add(specifier.local.name);
+        }
+      });
+    });
+
+  const localDependencies = new Set<string>();
+  for (const path of body) {
+    const isSymbolStatement = statements.some(
+      (statement) => statement.node === path.node,
+    );
+    const names = getDeclaredNames(path.node).filter(
+      (name) =>
+        name !== symbol &&
+        referencedNames.has(name) &&
+        (!isSymbolStatement || !!declarator),
+    );
+    for (const name of names) {
+      if (!exportedNames.has(name)) {
+        throw new Error(
+          `Cannot move "${symbol}": it depends on "${name}", which is not exported from "${filePath}"`,
+        );
+      }
+      localDependencies.add(name);
+    }
+  }
+
+  // Remove the declaration
+  if (declarator) {
+    declarator.prune();
+  } else {
+    statements.forEach((path) => path.prune());
+  }
+  if (exportSpecifier) {
+    const exportDeclaration = exportSpecifier.parent;
+    exportSpecifier.prune();
+    if ((exportDeclaration.node.specifiers ?? []).length === 0) {
+      exportDeclaration.prune();
+    }
+  }
+
+  // Remove imports that only the declaration used
+  const remainingStatements = root
+    .find(j.Program)
+    .get('body')
+    .filter((path: ASTPath) => !j.ImportDeclaration.check(path.node));
+  const remainingNames = collectReferencedNames(remainingStatements);
+  root.find(j.ImportDeclaration).forEach((path: ASTPath<ImportDeclaration>) => {
+    const specifiers = path.node.specifiers ?? [];
+    if (specifiers.length === 0) {
+      return;
+    }
+
+    const keptSpecifiers = specifiers.filter((specifier) => {
+      const name = specifier.local?.name as string;
+      return !importedNames.has(name) || remainingNames.has(name);
+    });
+    if (keptSpecifiers.length === 0) {
+      path.prune();
+    } else if (keptSpecifiers.length !== specifiers.length) {
+      path.node.specifiers = keptSpecifiers;
+    }
+  });
+
+  // The rest of the file may still use the symbol
+  if (remainingNames.has(symbol)) {
+    const symbolImport = j.importDeclaration(
+      [j.importSpecifier(j.identifier(symbol))],
+      j.stringLiteral(symbolSpecifier),
+      isTypeOnly ? 'type' : 'value',
+    );
+    const lastImport = root.find(j.ImportDeclaration).paths().at(-1);
+    if (lastImport) {
+      lastImport.insertAfter(symbolImport);
+    } else {
+      root.find(j.Program).get('body').unshift(symbolImport);
+    }
+  }
+
+  const isSourceEmpty = remainingStatements.length === 0;
+
+  tree.write(filePath, root.toSource({ quote: 'single' }));
+  astCache.invalidate(filePath);
+  treeReadCache.invalidateFile(filePath);
+  logger.verbose(`Removed ${symbol} from ${filePath}`);
+
+  return {
+    code,
+    imports,
+    localDependencies: Array.from(localDependencies),
+    isTypeOnly,
+    isSourceEmpty,
+  };
+}
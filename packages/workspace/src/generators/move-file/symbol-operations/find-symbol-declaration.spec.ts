@@ -0,0 +1,56 @@
+import { j } from '../ast-cache';
+import { findSymbolDeclaration } from './find-symbol-declaration';
+
+describe('findSymbolDeclaration', () => {
+  it('should find an inline exported declaration', () => {
+    const result = findSymbolDeclaration(
+      j('export function foo() {}\nexport function bar() {}'),
+      'foo',
+    );
+
+    expect(result?.statements).toHaveLength(1);
+    expect(result?.declarator).toBeUndefined();
+    expect(result?.exportSpecifier).toBeUndefined();
+  });
+
+  it('should find all overload signatures', () => {
+    const result = findSymbolDeclaration(
+      j(
+        'export function foo(a: string): void;\nexport function foo(a: number): void;\nexport function foo(a: unknown) {}',
+      ),
+      'foo',
+    );
+
+    expect(result?.statements).toHaveLength(3);
+  });
+
+  it('should find the declarator in a multi-variable declaration', () => {
+    const result = findSymbolDeclaration(j('export const a = 1, b = 2;'), 'b');
+
+    expect(result?.declarator?.node.init).toMatchObject({ value: 2 });
+  });
+
+  it('should find a declaration exported through an export list', () => {
+    const result = findSymbolDeclaration(
+      j('class Foo {}\nexport { Foo };'),
+      'Foo',
+    );
+
+    expect(result?.statements).toHaveLength(1);
+    expect(result?.exportSpecifier).toBeDefined();
+  });
+
+  it('should return null for declarations that are not exported', () => {
+    expect(findSymbolDeclaration(j('const foo = 1;'), 'foo')).toBeNull();
+  });
+
+  it('should return null for declarations exported under another name', () => {
+    expect(
+      findSymbolDeclaration(j('const foo = 1;\nexport { foo as bar };'), 'foo'),
+    ).toBeNull();
+  });
+
+  it('should return null for missing symbols', () => {
+    expect(findSymbolDeclaration(j('export const a = 1;'), 'b')).toBeNull();
+  });
+});
@@ -0,0 +1,100 @@
+import type {
+  ASTPath,
+  Collection,
+  ExportSpecifier,
+  VariableDeclarator,
+} from 'jscodeshift';
+import { j } from '../ast-cache';
+import { getDeclaredNames } from './get-declared-names';
+
+/**
+ * The top-level declaration of a symbol in a file.
+ */
+export interface SymbolDeclaration {
+  /**
+   * Statements that declare the symbol. There is more than one for function
+   * overloads and merged interface declarations.
+   */
+  statements: ASTPath[];
+
+  /**
+   * Declarator of the symbol when it is declared together with other
+   * variables in one statement (`export const a = 1, b = 2`).
+   */
+  declarator?: ASTPath<VariableDeclarator>;
+
+  /**
+   * Specifier of a local export list (`export { symbol }`) that exports the
+   * symbol, when its declaration is not exported inline.
+   */
+  exportSpecifier?: ASTPath<ExportSpecifier>;
+}
+
+/**
+ * Finds the top-level declaration of an exported symbol.
+ *
+ * The symbol must be exported under its own name, either inline
+ * (`export function symbol`) or through a local export list
+ * (`export { symbol }`). Default exports are not supported.
+ *
+ * @param root - Parsed file.
+ * @param symbol - Name of the symbol.
+ * @returns The declaration, or null if the file does not export the symbol.
+ */
+export function findSymbolDeclaration(
+  root: Collection,
+  symbol: string,
+): SymbolDeclaration | null {
+  const statements = root
+    .find(j.Program)
+    .get('body')
+    .filter((path: ASTPath) =>
+      getDeclaredNames(path.node).includes(symbol),
+    ) as ASTPath[];
+
+  if (statements.length === 0) {
+    return null;
+  }
+
+  const isExportedInline = statements.some((path) =>
+    j.ExportNamedDeclaration.check(path.node),
+  );
+
+  let exportSpecifier: ASTPath<ExportSpecifier> | undefined;
+  if (!isExportedInline) {
+    root
+      .find(j.ExportNamedDeclaration, (node) => !node.source)
+      .find(j.ExportSpecifier)
+      .forEach((path) => {
+        const { local, exported } = path.node;
+        if (local?.name === symbol && exported.name === symbol) {
+          exportSpecifier = path;
+        }
+      });
+
+    if (!exportSpecifier) {
+      return null;
+    }
+  }
+
+  // A variable declared together with others is moved on its own
+  let declarator: ASTPath<VariableDeclarator> | undefined;
+  const declarationPath = j.ExportNamedDeclaration.check(statements[0].node)
+    ? statements[0].get('declaration')
+    : statements[0];
+  if (
+    j.VariableDeclaration.check(declarationPath.node) &&
+    declarationPath.node.declarations.length > 1
+  ) {
+    declarator = (
+      declarationPath
+        .get('declarations')
+        .filter(
+          (path: ASTPath<VariableDeclarator>) =>
+            j.Identifier.check(path.node.id) && path.node.id.name === symbol,
+        ) as ASTPath<VariableDeclarator>[]
+    )[0];
+  }
+
+  return { statements, declarator, exportSpecifier };
+}
@@ -0,0 +1,35 @@
+import { j } from '../ast-cache';
+import { getDeclaredNames } from './get-declared-names';
+
+describe('getDeclaredNames', () => {
+  const parseStatement = (code: string) =>
+    j(code).find(j.Program).get('body', 0).node;
+
+  it.each([
+    ['export function foo() {}', ['foo']],
+    ['function foo(): void;', ['foo']],
+    ['export class Foo {}', ['Foo']],
+    ['export const a = 1, b = 2;', ['a', 'b']],
+    ['let c;', ['c']],
+    ['export interface IFoo {}', ['IFoo']],
+    ['type T = string;', ['T']],
+    ['export enum E { A }', ['E']],
+    ['namespace N {}', ['N']],
+  ])('should get the names declared by %s', (code, expected) => {
+    expect(getDeclaredNames(parseStatement(code))).toEqual(expected);
+  });
+
+  it('should skip destructured variables', () => {
+    expect(getDeclaredNames(parseStatement('const { a } = b;'))).toEqual([]);
+  });
+
+  it('should return no names for other statements', () => {
+    expect(getDeclaredNames(parseStatement("import { a } from 'b';"))).toEqual(
+      [],
+    );
+    expect(
+      getDeclaredNames(parseStatement("export { a } from './a';")),
+    ).toEqual([]);
+    expect(getDeclaredNames(parseStatement('export default 1;'))).toEqual([]);
+  });
+});
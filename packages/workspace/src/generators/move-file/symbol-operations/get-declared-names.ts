@@ -0,0 +1,45 @@
+import type { ASTNode } from 'jscodeshift';
+import { j } from '../ast-cache';
+
+/**
+ * Gets the names a top-level statement declares.
+ *
+ * Supported declarations, with or without `export`:
+ * - Functions (including overload signatures) and classes
+ * - Variables (`const`, `let`, `var`) with identifier bindings
+ * - Interfaces, type aliases, enums, and namespaces
+ *
+ * @param node - Top-level statement.
+ * @returns Declared names; empty for other statements.
+ */
+export function getDeclaredNames(node: ASTNode): string[] {
+  const declaration =
+    j.ExportNamedDeclaration.check(node) && node.declaration
+      ? node.declaration
+      : node;
+
+  if (j.VariableDeclaration.check(declaration)) {
+    return declaration.declarations.flatMap((declarator) =>
+      j.VariableDeclarator.check(declarator) &&
+      j.Identifier.check(declarator.id)
+        ? [declarator.id.name]
+        : [],
+    );
+  }
+
+  if (
+    j.FunctionDeclaration.check(declaration) ||
+    j.ClassDeclaration.check(declaration) ||
+    j.TSDeclareFunction.check(declaration) ||
+    j.TSInterfaceDeclaration.check(declaration) ||
+    j.TSTypeAliasDeclaration.check(declaration) ||
+    j.TSEnumDeclaration.check(declaration) ||
+    j.TSModuleDeclaration.check(declaration)
+  ) {
+    return declaration.id && j.Identifier.check(declaration.id)
+      ? [declaration.id.name]
+      : [];
+  }
+
+  return [];
+}
@@ -0,0 +1,72 @@
+import { Tree, logger } from '@nx/devkit';
+import { createTreeWithEmptyWorkspace } from '@nx/devkit/testing';
+import { insertSymbol } from './insert-symbol';
+import { astCache, j } from '../ast-cache';
+import { treeReadCache } from '../tree-cache';
+
+describe('insertSymbol', () => {
+  let tree: Tree;
+  const named = (...names: string[]) =>
+    names.map((name) => j.importSpecifier(j.identifier(name)));
+
+  beforeEach(() => {
+    tree = createTreeWithEmptyWorkspace();
+    astCache.clear();
+    treeReadCache.clear();
+    jest.spyOn(logger, 'verbose').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should create the file with imports and code', () => {
+    insertSymbol(tree, 'lib/foo.ts', 'foo', 'export const foo = a;', [
+      { source: './a', specifiers: named('a') },
+    ]);
+
+    expect(tree.read('lib/foo.ts', 'utf-8')).toBe(
+      "import { a } from './a';\n\nexport const foo = a;\n",
+    );
+  });
+
+  it('should merge imports into an existing file', () => {
+    tree.write(
+      'lib/foo.ts',
+      "import { a } from './a';\n\nexport const bar = a;\n",
+    );
+
+    insertSymbol(tree, 'lib/foo.ts', 'foo', 'export const foo = b;', [
+      { source: './a', specifiers: named('a', 'b') },
+      { source: './t', importKind: 'type', specifiers: named('T') },
+    ]);
+
+    const content = tree.read('lib/foo.ts', 'utf-8');
+    expect(content).toContain("import { a, b } from './a';");
+    expect(content).toContain("import type { T } from './t';");
+    expect(content).toMatch(
+      /export const bar = a;\n\nexport const foo = b;\n$/,
+    );
+  });
+
+  it('should remove existing imports of the symbol', () => {
+    tree.write(
+      'lib/foo.ts',
+      "import { foo } from './utils';\n\nexport const bar = foo;\n",
+    );
+
+    insertSymbol(tree, 'lib/foo.ts', 'foo', 'export const foo = 1;', []);
+
+    expect(tree.read('lib/foo.ts', 'utf-8')).toBe(
+      'export const bar = foo;\n\nexport const foo = 1;\n',
+    );
+  });
+
+  it('should throw when the file already declares the symbol', () => {
+    tree.write('lib/foo.ts', 'export const foo = 1;\n');
+
+    expect(() =>
+      insertSymbol(tree, 'lib/foo.ts', 'foo', 'export const foo = 2;', []),
+    ).toThrow('Target file "lib/foo.ts" already declares "foo"');
+  });
+});
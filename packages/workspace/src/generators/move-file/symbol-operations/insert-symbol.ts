@@ -0,0 +1,118 @@
+import type { Tree } from '@nx/devkit';
+import { logger } from '@nx/devkit';
+import type { ASTPath, ImportDeclaration } from 'jscodeshift';
+import { astCache, j } from '../ast-cache';
+import { treeReadCache } from '../tree-cache';
+import type { SymbolImport } from '../types/symbol-move';
+import { getDeclaredNames } from './get-declared-names';
+
+/**
+ * Adds a symbol declaration and its imports to a file, creating the file if
+ * it does not exist.
+ *
+ * Imports are merged into existing import declarations with the same
+ * specifier. Existing imports of the symbol itself are removed, since the
+ * symbol is declared in the file afterwards.
+ *
+ * @param tree - The virtual file system tree.
+ * @param filePath - Path of the file to add the symbol to.
+ * @param symbol - Name of the symbol.
+ * @param code - Code of the exported declaration.
+ * @param imports - Imports the declaration needs, with specifiers relative to `filePath`.
+ * @throws Error if the file already declares the symbol.
+ */
+export function insertSymbol(
+  tree: Tree,
+  filePath: string,
+  symbol: string,
+  code: string,
+  imports: SymbolImport[],
+): void {
+  const root = tree.exists(filePath) ? astCache.getAST(tree, filePath) : null;
+  const program = root ?? j('');
+  const body = program.find(j.Program).get('body');
+
+  const declaresSymbol = (body.value as ASTPath['node'][]).some((node) =>
+    getDeclaredNames(node).includes(symbol),
+  );
+  if (declaresSymbol) {
+    throw new Error(`Target file "${filePath}" already declares "${symbol}"`);
+  }
+
+  // The symbol is local from now on
+  program.find(j.ImportDeclaration).forEach((path) => {
+    const specifiers = path.node.specifiers ?? [];
+    const keptSpecifiers = specifiers.filter(
+      (specifier) => specifier.local?.name !== symbol,
+    );
+    if (keptSpecifiers.length === 0 && specifiers.length > 0) {
+      path.prune();
+    } else if (keptSpecifiers.length !== specifiers.length) {
+      path.node.specifiers = keptSpecifiers;
+    }
+  });
+
+  for (const symbolImport of imports) {
+    const existing = program
+      .find(j.ImportDeclaration, (node: ImportDeclaration) => {
+        return (
+          node.source.value === symbolImport.source &&
+          (node.importKind ?? 'value') ===
+            (symbolImport.importKind ?? 'value') &&
+          (node.specifiers ?? []).every((specifier) =>
+            j.ImportSpecifier.check(specifier),
+          )
+        );
+      })
+      .paths()[0];
+
+    const namedSpecifiers = symbolImport.specifiers.every((specifier) =>
+      j.ImportSpecifier.check(specifier),
+    );
+    if (existing && namedSpecifiers) {
+      const existingNames = new Set(
+        (existing.node.specifiers ?? []).map(getLocalName),
+      );
+      existing.node.specifiers = [
+        ...(existing.node.specifiers ?? []),
+        ...symbolImport.specifiers.filter(
+          (specifier) => !existingNames.has(getLocalName(specifier)),
+        ),
+      ];
+      continue;
+    }
+
+    const declaration = j.importDeclaration(
+      symbolImport.specifiers,
+      j.stringLiteral(symbolImport.source),
+      symbolImport.importKind ?? 'value',
+    );
+    const lastImport = program.find(j.ImportDeclaration).paths().at(-1);
+    if (lastImport) {
+      lastImport.insertAfter(declaration);
+    } else {
+      body.unshift(declaration);
+    }
+  }
+
+  const content = program.toSource({ quote: 'single' }).trimEnd();
+  tree.write(filePath, content ? `${content}\n\n${code}\n` : `${code}\n`);
+  astCache.invalidate(filePath);
+  treeReadCache.invalidateFile(filePath);
+  logger.verbose(`Added ${symbol} to ${filePath}`);
+}
+
+/**
+ * Local name of an import specifier. Built specifiers may omit `local` when it
+ * matches the imported name.
+ */
+function getLocalName(
+  specifier: NonNullable<ImportDeclaration['specifiers']>[number],
+): string | undefined {
+  if (specifier.local) {
+    return specifier.local.name;
+  }
+  return j.ImportSpecifier.check(specifier)
+    ? specifier.imported.name
+    : undefined;
+}
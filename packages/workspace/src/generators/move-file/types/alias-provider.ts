@@ -0,0 +1,35 @@
+import type { Tree } from '@nx/devkit';
+
+/**
+ * Import aliases in the shape of tsconfig `paths`: an alias (`@app/ui`) or
+ * alias pattern with one `*` (`@app/*`) mapped to the workspace paths it
+ * resolves to, relative to the workspace root.
+ */
+export type AliasPaths = Record<string, string[]>;
+
+/**
+ * The import aliases of a project, one group per alias provider that
+ * declares any, in order of precedence. An alias declared by several
+ * providers belongs to the first of them only.
+ */
+export type ProjectAliases = AliasPaths[];
+
+/**
+ * A source of import aliases besides tsconfig `paths`, such as Jest's
+ * `moduleNameMapper` or a bundler's `resolve.alias`.
+ */
+export interface AliasProvider {
+  /**
+   * Name of the alias source, used in verbose log messages.
+   */
+  name: string;
+
+  /**
+   * Reads the aliases that apply to the files of a project.
+   *
+   * @param tree - The virtual file system tree
+   * @param projectRoot - Root directory of the project
+   * @returns The aliases, empty if the source declares none
+   */
+  readAliases: (tree: Tree, projectRoot: string) => AliasPaths;
+}
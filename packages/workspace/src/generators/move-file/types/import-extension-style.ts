@@ -0,0 +1,8 @@
+/**
+ * How relative import specifiers name the imported file:
+ * - `none`: without the extension (`./utils`)
+ * - `js`: by the emitted file, as NodeNext module resolution requires
+ *   (`./utils.js` for `utils.ts`, `./utils.mjs` for `utils.mts`)
+ * - `ts`: by the source file, with `allowImportingTsExtensions` (`./utils.ts`)
+ */
+export type ImportExtensionStyle = 'none' | 'js' | 'ts';
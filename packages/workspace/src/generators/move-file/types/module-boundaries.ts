@@ -0,0 +1,40 @@
+import type { ProjectDependencyEdge } from './project-dependencies';
+
+/**
+ * A dependency constraint of the `@nx/enforce-module-boundaries` ESLint rule.
+ *
+ * Tags may be exact (`scope:shared`), globs (`scope:*`), regular expressions
+ * (`/^type:(util|data)$/`), or `*` to match any project.
+ */
+export interface DepConstraint {
+  /**
+   * Tag the constraint applies to.
+   */
+  sourceTag?: string;
+
+  /**
+   * Tags that must all be present for the constraint to apply.
+   */
+  allSourceTags?: string[];
+
+  /**
+   * Dependencies must have at least one of these tags.
+   */
+  onlyDependOnLibsWithTags?: string[];
+
+  /**
+   * Dependencies must have none of these tags.
+   */
+  notDependOnLibsWithTags?: string[];
+}
+
+/**
+ * A project dependency that would exist after a move and that the
+ * dependency constraints forbid.
+ */
+export interface BoundaryViolation extends ProjectDependencyEdge {
+  /**
+   * Why the dependency is not allowed.
+   */
+  reason: string;
+}
@@ -1,4 +1,6 @@
 import type { ProjectConfiguration } from '@nx/devkit';
+import type { ProjectDependencyEdge } from './project-dependencies';
+import type { TargetConflict } from './target-conflict';
 
 /**
  * Context data for a single file move operation.
@@ -81,4 +83,30 @@ export interface MoveContext {
    * Whether the source and target are the same project.
    */
   isSameProject: boolean;
+
+  /**
+   * Source to target paths of every file moved in the same batch.
+   * Set when a batch keeps relative imports between its files; imports that
+   * point to another file in the set are rewritten to that file's new location.
+   */
+  moveSet?: ReadonlyMap<string, string>;
+
+  /**
+   * Unexported files of the source project that the moved file imports and
+   * that stay in the source project. They are exported from the source
+   * project's entry point before the move (`moveDependencies: 'all'`).
+   */
+  dependenciesToExport?: string[];
+
+  /**
+   * Project dependencies that exist after the move because of imports of or
+   * in the moved file. Empty for moves within a project.
+   */
+  dependencyEdges?: ProjectDependencyEdge[];
+
+  /**
+   * How a collision with an existing file at the computed target path was
+   * resolved (`onConflict`). Unset when the target path was free.
+   */
+  targetConflict?: TargetConflict;
 }
@@ -0,0 +1,84 @@
+import type { MovePlanEntry } from './move-plan';
+
+/**
+ * A file changed by a recorded move.
+ */
+export interface MoveHistoryFileChange {
+  /**
+   * Workspace-relative path of the file.
+   */
+  path: string;
+
+  /**
+   * Content before the move, or null if the move created the file.
+   */
+  before: string | null;
+
+  /**
+   * Encoding of `before`: base64 for content that is not valid UTF-8, such
+   * as images. Absent for UTF-8 text.
+   */
+  encoding?: 'base64';
+
+  /**
+   * SHA-256 hash of the content after the move, or null if the move deleted
+   * the file. Used to detect changes made since the move.
+   */
+  afterHash: string | null;
+}
+
+/**
+ * A single recorded run of the move-file generator.
+ */
+export interface MoveHistoryEntry {
+  /**
+   * Sequential id of the entry, unique within the history.
+   */
+  id: number;
+
+  /**
+   * ISO timestamp of the move.
+   */
+  timestamp: string;
+
+  /**
+   * One entry per moved file (MoveContext), with its strategy, import
+   * specifier rewrites, and barrel export changes.
+   */
+  moves: MovePlanEntry[];
+
+  /**
+   * Every file changed by the run, including formatting.
+   */
+  files: MoveHistoryFileChange[];
+}
+
+/**
+ * The move history journal stored in the workspace.
+ */
+export interface MoveHistory {
+  /**
+   * Format version of the journal.
+   */
+  version: 1;
+
+  /**
+   * Recorded moves, oldest first.
+   */
+  entries: MoveHistoryEntry[];
+}
+
+/**
+ * A file that changed after a recorded move, which prevents undoing it.
+ */
+export interface MoveHistoryConflict {
+  /**
+   * Workspace-relative path of the file.
+   */
+  path: string;
+
+  /**
+   * How the file differs from its state right after the move.
+   */
+  reason: 'modified' | 'deleted' | 'created';
+}
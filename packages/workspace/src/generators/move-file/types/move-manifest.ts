@@ -0,0 +1,28 @@
+/**
+ * A rule of a move manifest: the files it matches move to one project.
+ */
+export interface MoveManifestRule {
+  /**
+   * Files to move, relative to the workspace root. Supports glob patterns
+   * and comma-separated lists, like the `file` option of move-file.
+   */
+  from: string;
+
+  /**
+   * Name of the target project.
+   */
+  project: string;
+
+  /**
+   * Subdirectory within the target project's base folder.
+   */
+  projectDirectory?: string;
+}
+
+/**
+ * A manifest of moves to run in a single batch, read from a JSON or YAML
+ * file by the move-manifest generator.
+ */
+export interface MoveManifest {
+  moves: MoveManifestRule[];
+}
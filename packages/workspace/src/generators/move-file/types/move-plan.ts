@@ -0,0 +1,127 @@
+import type { TargetConflict } from './target-conflict';
+
+/**
+ * Move strategy selected for a single file move.
+ *
+ * - `same-project`: The file stays in its project; relative imports are updated.
+ * - `exported`: The file is exported from the source project; dependents are rewritten.
+ * - `non-exported-alias`: The file is not exported but the target project has an alias.
+ * - `default`: Fallback when no aliases are involved; relative imports are updated.
+ */
+export type MoveStrategy =
+  | 'same-project'
+  | 'exported'
+  | 'non-exported-alias'
+  | 'default';
+
+/**
+ * A single import specifier rewrite in a workspace file.
+ */
+export interface ImportSpecifierRewrite {
+  /**
+   * Path of the file containing the import.
+   */
+  filePath: string;
+
+  /**
+   * Import specifier before the move.
+   */
+  from: string;
+
+  /**
+   * Import specifier after the move.
+   */
+  to: string;
+
+  /**
+   * Named symbols that follow the new specifier when a declaration is split
+   * by symbol. Omitted when whole declarations are rewritten.
+   */
+  symbols?: string[];
+}
+
+/**
+ * An export statement added to or removed from a project entrypoint (barrel).
+ */
+export interface BarrelExportChange {
+  /**
+   * Path of the entrypoint file.
+   */
+  indexPath: string;
+
+  /**
+   * The export statement, for example `export * from './lib/utils';`.
+   */
+  statement: string;
+}
+
+/**
+ * Planned changes for a single file move (one per MoveContext).
+ */
+export interface MovePlanEntry {
+  /**
+   * Normalized path of the source file.
+   */
+  source: string;
+
+  /**
+   * Normalized path of the target file.
+   */
+  target: string;
+
+  /**
+   * Name of the source project.
+   */
+  sourceProject: string;
+
+  /**
+   * Name of the target project.
+   */
+  targetProject: string;
+
+  /**
+   * Strategy selected by handleMoveStrategy.
+   */
+  strategy: MoveStrategy;
+
+  /**
+   * Every import specifier that is rewritten by this move.
+   */
+  importRewrites: ImportSpecifierRewrite[];
+
+  /**
+   * Export statements added to project entrypoints.
+   */
+  exportsAdded: BarrelExportChange[];
+
+  /**
+   * Export statements removed from project entrypoints.
+   */
+  exportsRemoved: BarrelExportChange[];
+
+  /**
+   * Projects removed after this move (only with `removeEmptyProject`).
+   */
+  removedProjects: string[];
+
+  /**
+   * How a collision with an existing target file was resolved. Omitted when
+   * the target path was free.
+   */
+  conflict?: TargetConflict;
+}
+
+/**
+ * Machine-readable description of what a move-file run would do.
+ */
+export interface MovePlan {
+  /**
+   * One entry per moved file, in execution order.
+   */
+  entries: MovePlanEntry[];
+
+  /**
+   * All projects that would be removed because they become empty.
+   */
+  removedProjects: string[];
+}
@@ -0,0 +1,16 @@
+/**
+ * The subpath imports of a package (the `imports` field of its package.json),
+ * such as `#db/*`, with the directory they are relative to.
+ */
+export interface PackageImports {
+  /**
+   * Directory of the package.json (e.g. `packages/api`).
+   */
+  root: string;
+
+  /**
+   * Subpath import entries: `#` specifiers or patterns mapped to a path,
+   * conditions, or a fallback array.
+   */
+  imports: Record<string, unknown>;
+}
@@ -0,0 +1,36 @@
+/**
+ * The fields of a project's package.json that determine how other packages
+ * import it and which workspace packages it depends on.
+ */
+export interface PackageJson {
+  /**
+   * Package name that other packages import the project by.
+   */
+  name?: string;
+
+  /**
+   * Package version, used for dependencies outside the workspace protocol.
+   */
+  version?: string;
+
+  /**
+   * Entry points of the package: a single path, conditions, or subpaths
+   * starting with `.`.
+   */
+  exports?: unknown;
+
+  /**
+   * Subpath imports that files of the package import each other by
+   * (`#db/*`).
+   */
+  imports?: unknown;
+
+  main?: string;
+  module?: string;
+  types?: string;
+  typings?: string;
+
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  peerDependencies?: Record<string, string>;
+}
@@ -0,0 +1,27 @@
+/**
+ * The compiler options of a project's tsconfig that decide how its files
+ * import each other, merged over the tsconfig files it extends.
+ */
+export interface ProjectCompilerOptions {
+  /**
+   * The `module` option (e.g. `nodenext`).
+   */
+  module?: string;
+
+  /**
+   * The `moduleResolution` option (e.g. `bundler`).
+   */
+  moduleResolution?: string;
+
+  /**
+   * The `allowImportingTsExtensions` option.
+   */
+  allowImportingTsExtensions?: boolean;
+
+  /**
+   * Directory that non-relative imports are resolved against, relative to
+   * the workspace root (e.g. `apps/shop/src` for `"baseUrl": "./src"` in
+   * `apps/shop/tsconfig.json`).
+   */
+  baseUrl?: string;
+}
@@ -0,0 +1,42 @@
+/**
+ * A project dependency that exists after a move because of an import in a
+ * single file.
+ */
+export interface ProjectDependencyEdge {
+  /**
+   * Project that would import the other project.
+   */
+  sourceProject: string;
+
+  /**
+   * Project that would be imported.
+   */
+  targetProject: string;
+
+  /**
+   * File that would contain the import, after the move.
+   */
+  filePath: string;
+
+  /**
+   * Import specifier behind the dependency, when known. Existing imports are
+   * named as written before the move.
+   */
+  specifier?: string;
+}
+
+/**
+ * A circular project dependency that a move would create.
+ */
+export interface DependencyCycle {
+  /**
+   * Projects along the cycle, starting and ending with the same project.
+   * Example: `['lib-a', 'lib-b', 'lib-a']`
+   */
+  projects: string[];
+
+  /**
+   * The new project dependency that closes the cycle.
+   */
+  edge: ProjectDependencyEdge;
+}
@@ -0,0 +1,16 @@
+/**
+ * An entry point of a project that other projects import it through, such as
+ * the secondary entry point `@org/ui/testing` of the `@org/ui` library.
+ */
+export interface ProjectEntryPoint {
+  /**
+   * Import path of the entry point (e.g. `@org/ui/testing`).
+   */
+  importPath: string;
+
+  /**
+   * Barrel file that the entry point resolves to
+   * (e.g. `libs/ui/src/testing/index.ts`).
+   */
+  filePath: string;
+}
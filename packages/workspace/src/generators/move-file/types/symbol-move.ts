@@ -0,0 +1,112 @@
+import type { ProjectConfiguration } from '@nx/devkit';
+import type { ImportDeclaration } from 'jscodeshift';
+
+/**
+ * Context data for moving a single exported symbol between files.
+ */
+export interface SymbolMoveContext {
+  /**
+   * Name of the moved symbol.
+   */
+  symbol: string;
+
+  /**
+   * Normalized path of the file the symbol is declared in.
+   */
+  normalizedSource: string;
+
+  /**
+   * Normalized path of the file the symbol is moved to.
+   */
+  normalizedTarget: string;
+
+  /**
+   * Name of the source project.
+   */
+  sourceProjectName: string;
+
+  /**
+   * Name of the target project.
+   */
+  targetProjectName: string;
+
+  /**
+   * Source project configuration.
+   */
+  sourceProject: ProjectConfiguration;
+
+  /**
+   * Target project configuration.
+   */
+  targetProject: ProjectConfiguration;
+
+  /**
+   * Import path/alias for the source project (if available).
+   */
+  sourceImportPath: string | null;
+
+  /**
+   * Import path/alias for the target project (if available).
+   */
+  targetImportPath: string | null;
+
+  /**
+   * Whether the source file is exported from the source project's entry point.
+   */
+  isExported: boolean;
+
+  /**
+   * Whether the symbol moves within the same project.
+   */
+  isSameProject: boolean;
+}
+
+/**
+ * An import declaration needed by a moved symbol.
+ */
+export interface SymbolImport {
+  /**
+   * Import specifier as written in the source file.
+   */
+  source: string;
+
+  /**
+   * Kind of the import declaration (`import type` is `'type'`).
+   */
+  importKind?: ImportDeclaration['importKind'];
+
+  /**
+   * Specifiers of the declaration that the symbol uses.
+   */
+  specifiers: NonNullable<ImportDeclaration['specifiers']>;
+}
+
+/**
+ * A symbol declaration removed from its source file.
+ */
+export interface ExtractedSymbol {
+  /**
+   * Code of the exported declaration(s), ready to be inserted into a file.
+   */
+  code: string;
+
+  /**
+   * Imports of the source file that the declaration uses.
+   */
+  imports: SymbolImport[];
+
+  /**
+   * Exported top-level names of the source file that the declaration uses.
+   */
+  localDependencies: string[];
+
+  /**
+   * Whether the symbol only exists as a type (interfaces and type aliases).
+   */
+  isTypeOnly: boolean;
+
+  /**
+   * Whether the source file has no statements left apart from imports.
+   */
+  isSourceEmpty: boolean;
+}
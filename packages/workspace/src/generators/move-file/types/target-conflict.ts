@@ -0,0 +1,26 @@
+/**
+ * How to handle a computed target path that already exists.
+ *
+ * - `fail`: Reject the move.
+ * - `overwrite`: Replace the existing file with the moved file.
+ * - `rename`: Move the file to the first free name with a numeric suffix (`util-1.ts`).
+ * - `merge-exports`: Append the moved file's declarations and imports to the existing file.
+ */
+export type OnConflict = 'fail' | 'overwrite' | 'rename' | 'merge-exports';
+
+/**
+ * A collision with an existing file at the computed target path and how it
+ * was resolved.
+ */
+export interface TargetConflict {
+  /**
+   * The applied resolution.
+   */
+  resolution: Exclude<OnConflict, 'fail'>;
+
+  /**
+   * Computed target path that already existed. With `rename`, the file moves
+   * to another path; otherwise this is the target path.
+   */
+  existingFile: string;
+}
@@ -229,4 +229,26 @@ describe('checkForRelativeImportsInProject', () => {
 
     expect(result).toBe(true);
   });
+
+  it('should ignore excluded importers', () => {
+    const targetFile = 'packages/lib1/src/lib/utils/helper.ts';
+    const importerFile = 'packages/lib1/src/lib/utils/format.ts';
+
+    tree.write(targetFile, 'export function helper() {}');
+    tree.write(importerFile, "import { helper } from './helper';");
+
+    const getProjectSourceFiles = jest
+      .fn()
+      .mockReturnValue([targetFile, importerFile]);
+
+    const result = checkForRelativeImportsInProject(
+      tree,
+      project,
+      targetFile,
+      getProjectSourceFiles,
+      [importerFile],
+    );
+
+    expect(result).toBe(false);
+  });
 });
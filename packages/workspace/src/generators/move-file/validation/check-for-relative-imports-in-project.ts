@@ -1,6 +1,9 @@
-import { Tree, ProjectConfiguration, normalizePath } from '@nx/devkit';
-import { posix as path } from 'node:path';
-import { removeSourceFileExtension } from '../path-utils/remove-source-file-extension';
+import { Tree, ProjectConfiguration } from '@nx/devkit';
+import { isImportOfFile } from '../path-utils/is-import-of-file';
+import { resolveImportSpecifier } from '../path-utils/resolve-import-specifier';
+import { getProjectPackageImports } from '../project-analysis/get-project-package-imports';
+import { readProjectAliases } from '../project-analysis/read-project-aliases';
+import { readProjectCompilerOptions } from '../project-analysis/read-project-compiler-options';
 import { hasImportSpecifierMatching } from '../jscodeshift-utils';
 
 /**
@@ -10,22 +13,25 @@ import { hasImportSpecifierMatching } from '../jscodeshift-utils';
  * @param project - The project configuration.
  * @param sourceFilePath - The absolute path to the source file.
  * @param getProjectSourceFilesFn - Function to get project source files.
- * @returns True if any file in the project imports the given file via relative path.
+ * @param excludeFilePaths - Optional importers to ignore (e.g. files moved in the same batch).
+ * @returns True if any file in the project imports the given file via a relative, subpath, alias, or baseUrl import.
  */
 export function checkForRelativeImportsInProject(
   tree: Tree,
   project: ProjectConfiguration,
   sourceFilePath: string,
   getProjectSourceFilesFn: (tree: Tree, projectRoot: string) => string[],
+  excludeFilePaths: string[] = [],
 ): boolean {
+  const excludeSet = new Set(excludeFilePaths);
   const sourceFiles = getProjectSourceFilesFn(tree, project.root);
-  const normalizedSourceWithoutExt = normalizePath(
-    removeSourceFileExtension(sourceFilePath),
-  );
+  const { baseUrl } = readProjectCompilerOptions(tree, project.root);
+  const packageImports = getProjectPackageImports(tree, project.root);
+  const aliases = readProjectAliases(tree, project.root);
 
   for (const filePath of sourceFiles) {
-    // Skip the source file itself
-    if (filePath === sourceFilePath) {
+    // Skip the source file itself and excluded importers
+    if (filePath === sourceFilePath || excludeSet.has(filePath)) {
       continue;
     }
 
@@ -34,21 +40,16 @@ export function checkForRelativeImportsInProject(
       tree,
       filePath,
       (specifier) => {
-        // Only check relative imports
-        if (!specifier.startsWith('.')) {
-          return false;
-        }
-
-        // Resolve the import specifier to an absolute path
-        const importerDir = path.dirname(filePath);
-        const resolvedImport = path.join(importerDir, specifier);
-
-        // Normalize and compare with source file (both without extension)
-        const normalizedResolvedImport = normalizePath(
-          removeSourceFileExtension(resolvedImport),
+        // Resolve relative, subpath, alias, and baseUrl imports to workspace paths
+        return resolveImportSpecifier(
+          filePath,
+          specifier,
+          baseUrl,
+          packageImports,
+          aliases,
+        ).some((resolvedImport) =>
+          isImportOfFile(resolvedImport, sourceFilePath),
         );
-
-        return normalizedResolvedImport === normalizedSourceWithoutExt;
       },
     );
 
@@ -1,9 +1,8 @@
 import { Tree, ProjectConfiguration, normalizePath } from '@nx/devkit';
 import { posix as path } from 'node:path';
-import type { ASTNode } from 'jscodeshift';
 import { removeSourceFileExtension } from '../path-utils/remove-source-file-extension';
 import { isFileExported } from '../export-management/is-file-exported';
-import { astCache, j } from '../ast-cache';
+import { collectImportSpecifiers } from '../jscodeshift-utils';
 
 /**
  * Information about an unexported relative dependency.
@@ -25,103 +24,6 @@ export interface UnexportedDependency {
   relativePathInProject: string;
 }
 
-/**
- * Collects all import specifiers from a file.
- *
- * @param tree - The virtual file system tree.
- * @param filePath - Path to the file to analyze.
- * @returns Array of import specifiers found in the file.
- */
-function collectImportSpecifiers(tree: Tree, filePath: string): string[] {
-  const specifiers: string[] = [];
-
-  // Get content from cache or read from tree
-  const content = astCache.getContent(tree, filePath);
-  if (!content || content.trim().length === 0) {
-    return specifiers;
-  }
-
-  // Early exit: quick check if file contains any imports/requires at all
-  if (
-    !(
-      content.includes('import') ||
-      content.includes('require') ||
-      content.includes('export')
-    )
-  ) {
-    return specifiers;
-  }
-
-  // Get parsed AST from cache or parse content
-  const root = astCache.getAST(tree, filePath);
-  if (!root) {
-    return specifiers;
-  }
-
-  try {
-    // Filter to only relevant node types
-    const relevantNodes = root.find(j.Node, (node) => {
-      return (
-        j.ImportDeclaration.check(node) ||
-        j.ExportNamedDeclaration.check(node) ||
-        j.ExportAllDeclaration.check(node) ||
-        j.CallExpression.check(node)
-      );
-    });
-
-    relevantNodes.forEach((path) => {
-      const node = path.node as ASTNode;
-
-      // Handle ImportDeclaration: import ... from 'specifier'
-      if (j.ImportDeclaration.check(node)) {
-        const source = node.source.value;
-        if (typeof source === 'string') {
-          specifiers.push(source);
-        }
-      }
-      // Handle ExportNamedDeclaration: export { foo } from 'specifier'
-      else if (j.ExportNamedDeclaration.check(node)) {
-        if (node.source && typeof node.source.value === 'string') {
-          specifiers.push(node.source.value);
-        }
-      }
-      // Handle ExportAllDeclaration: export * from 'specifier'
-      else if (j.ExportAllDeclaration.check(node)) {
-        const source = node.source.value;
-        if (typeof source === 'string') {
-          specifiers.push(source);
-        }
-      }
-      // Handle CallExpression for dynamic imports and require
-      else if (j.CallExpression.check(node)) {
-        const { callee, arguments: args } = node;
-
-        // Check if first argument is a string literal
-        if (
-          args.length > 0 &&
-          j.StringLiteral.check(args[0]) &&
-          typeof args[0].value === 'string'
-        ) {
-          const specifier = args[0].value;
-
-          // Dynamic import: import('specifier') or require('specifier')
-          if (
-            j.Import.check(callee) ||
-            (j.Identifier.check(callee) && callee.name === 'require')
-          ) {
-            specifiers.push(specifier);
-          }
-        }
-      }
-    });
-  } catch {
-    // If parsing fails, return empty array
-    return specifiers;
-  }
-
-  return specifiers;
-}
-
 /**
  * Checks if the moved file has relative imports to unexported files in the source project.
  *
@@ -0,0 +1,70 @@
+import { Tree, ProjectConfiguration, writeJson } from '@nx/devkit';
+import { createTreeWithEmptyWorkspace } from '@nx/devkit/testing';
+import { checkModuleBoundaries } from './check-module-boundaries';
+import { clearDepConstraintsCache } from '../project-analysis/read-dep-constraints';
+import { treeReadCache } from '../tree-cache';
+import type { ProjectDependencyEdge } from '../types/project-dependencies';
+
+describe('checkModuleBoundaries', () => {
+  let tree: Tree;
+
+  const projects = new Map<string, ProjectConfiguration>([
+    ['util', { root: 'libs/util', tags: ['type:util'] }],
+    ['util-2', { root: 'libs/util-2', tags: ['type:util'] }],
+    ['feature', { root: 'libs/feature', tags: ['type:feature'] }],
+  ]);
+  const edges: ProjectDependencyEdge[] = [
+    {
+      sourceProject: 'util',
+      targetProject: 'feature',
+      filePath: 'libs/util/src/lib/widget.ts',
+      specifier: '@org/feature',
+    },
+    {
+      sourceProject: 'util',
+      targetProject: 'util-2',
+      filePath: 'libs/util/src/lib/widget.ts',
+      specifier: '@org/util-2',
+    },
+  ];
+
+  beforeEach(() => {
+    clearDepConstraintsCache();
+    treeReadCache.clear();
+    tree = createTreeWithEmptyWorkspace();
+  });
+
+  afterEach(() => {
+    clearDepConstraintsCache();
+  });
+
+  it('should return the edges that the constraints forbid', () => {
+    writeJson(tree, '.eslintrc.json', {
+      rules: {
+        '@nx/enforce-module-boundaries': [
+          'error',
+          {
+            depConstraints: [
+              {
+                sourceTag: 'type:util',
+                onlyDependOnLibsWithTags: ['type:util'],
+              },
+            ],
+          },
+        ],
+      },
+    });
+
+    expect(checkModuleBoundaries(tree, edges, projects)).toEqual([
+      {
+        ...edges[0],
+        reason:
+          'projects tagged "type:util" can only depend on projects tagged "type:util", but "feature" is tagged "type:feature"',
+      },
+    ]);
+  });
+
+  it('should return no violations without depConstraints', () => {
+    expect(checkModuleBoundaries(tree, edges, projects)).toEqual([]);
+  });
+});
@@ -0,0 +1,36 @@
+import { Tree, ProjectConfiguration } from '@nx/devkit';
+import { readDepConstraints } from '../project-analysis/read-dep-constraints';
+import type { BoundaryViolation } from '../types/module-boundaries';
+import type { ProjectDependencyEdge } from '../types/project-dependencies';
+import { findBoundaryViolation } from './find-boundary-violation';
+
+/**
+ * Checks the project dependencies that a move creates against the
+ * `depConstraints` of the `@nx/enforce-module-boundaries` ESLint rule.
+ *
+ * @param tree - The virtual file system tree.
+ * @param edges - Project dependencies created by the move (see getMoveDependencyEdges).
+ * @param projects - Map of all projects in the workspace.
+ * @returns The violations, or an empty array if the rule is not configured.
+ */
+export function checkModuleBoundaries(
+  tree: Tree,
+  edges: ProjectDependencyEdge[],
+  projects: Map<string, ProjectConfiguration>,
+): BoundaryViolation[] {
+  const depConstraints = readDepConstraints(tree);
+  if (!depConstraints) {
+    return [];
+  }
+
+  return edges.flatMap((edge) => {
+    const reason = findBoundaryViolation(
+      depConstraints,
+      edge.sourceProject,
+      projects.get(edge.sourceProject) as ProjectConfiguration,
+      edge.targetProject,
+      projects.get(edge.targetProject) as ProjectConfiguration,
+    );
+    return reason ? [{ ...edge, reason }] : [];
+  });
+}
@@ -0,0 +1,113 @@
+import type { ProjectConfiguration } from '@nx/devkit';
+import { findBoundaryViolation } from './find-boundary-violation';
+import type { DepConstraint } from '../types/module-boundaries';
+
+describe('findBoundaryViolation', () => {
+  const lib = (...tags: string[]): ProjectConfiguration => ({
+    root: 'libs/lib',
+    projectType: 'library',
+    tags,
+  });
+  const depConstraints: DepConstraint[] = [
+    { sourceTag: 'type:feature', onlyDependOnLibsWithTags: ['type:*'] },
+    { sourceTag: 'type:util', onlyDependOnLibsWithTags: ['type:util'] },
+    { sourceTag: 'scope:client', notDependOnLibsWithTags: ['scope:server'] },
+    {
+      allSourceTags: ['scope:shared', 'type:data'],
+      onlyDependOnLibsWithTags: ['/^scope:shared$/'],
+    },
+  ];
+
+  it('should allow dependencies that satisfy all constraints', () => {
+    expect(
+      findBoundaryViolation(
+        depConstraints,
+        'feature',
+        lib('type:feature', 'scope:client'),
+        'util',
+        lib('type:util', 'scope:client'),
+      ),
+    ).toBeNull();
+  });
+
+  it('should report dependencies on projects without an allowed tag', () => {
+    expect(
+      findBoundaryViolation(
+        depConstraints,
+        'util',
+        lib('type:util'),
+        'feature',
+        lib('type:feature'),
+      ),
+    ).toBe(
+      'projects tagged "type:util" can only depend on projects tagged "type:util", but "feature" is tagged "type:feature"',
+    );
+  });
+
+  it('should report dependencies on projects with a banned tag', () => {
+    expect(
+      findBoundaryViolation(
+        depConstraints,
+        'client',
+        lib('type:feature', 'scope:client'),
+        'server',
+        lib('type:util', 'scope:server'),
+      ),
+    ).toBe(
+      'projects tagged "scope:client" cannot depend on projects tagged "scope:server", but "server" is tagged "type:util", "scope:server"',
+    );
+  });
+
+  it('should apply allSourceTags constraints only when all tags match', () => {
+    expect(
+      findBoundaryViolation(
+        depConstraints,
+        'data',
+        lib('scope:shared', 'type:data'),
+        'other',
+        lib('scope:other'),
+      ),
+    ).toContain('can only depend on projects tagged "/^scope:shared$/"');
+    expect(
+      findBoundaryViolation(
+        depConstraints,
+        'data',
+        lib('scope:shared', 'type:data'),
+        'shared',
+        lib('scope:shared'),
+      ),
+    ).toBeNull();
+  });
+
+  it('should report projects without tags matching a constraint', () => {
+    expect(
+      findBoundaryViolation(depConstraints, 'untagged', lib(), 'util', lib()),
+    ).toBe(
+      '"untagged" has no tags matching a dependency constraint, so it cannot depend on other projects',
+    );
+  });
+
+  it('should match any project with a wildcard source tag', () => {
+    expect(
+      findBoundaryViolation(
+        [{ sourceTag: '*', onlyDependOnLibsWithTags: ['*'] }],
+        'untagged',
+        lib(),
+        'other',
+        lib(),
+      ),
+    ).toBeNull();
+  });
+
+  it('should report imports of applications', () => {
+    expect(
+      findBoundaryViolation(
+        [{ sourceTag: '*', onlyDependOnLibsWithTags: ['*'] }],
+        'lib',
+        lib(),
+        'app',
+        { root: 'apps/app', projectType: 'application' },
+      ),
+    ).toBe('"app" is an application, and applications cannot be imported');
+  });
+});
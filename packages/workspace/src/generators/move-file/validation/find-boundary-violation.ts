@@ -0,0 +1,112 @@
+import type { ProjectConfiguration } from '@nx/devkit';
+import type { DepConstraint } from '../types/module-boundaries';
+
+/**
+ * Checks a project dependency against the module boundary rules of
+ * `@nx/enforce-module-boundaries`.
+ *
+ * Like the lint rule, applications can never be imported, and a project
+ * without tags matching any constraint cannot depend on other projects.
+ *
+ * @param depConstraints - Dependency constraints from the ESLint config.
+ * @param sourceProjectName - Name of the importing project.
+ * @param sourceProject - The importing project.
+ * @param targetProjectName - Name of the imported project.
+ * @param targetProject - The imported project.
+ * @returns Why the dependency is not allowed, or null if it is allowed.
+ */
+export function findBoundaryViolation(
+  depConstraints: DepConstraint[],
+  sourceProjectName: string,
+  sourceProject: ProjectConfiguration,
+  targetProjectName: string,
+  targetProject: ProjectConfiguration,
+): string | null {
+  if (targetProject.projectType === 'application') {
+    return `"${targetProjectName}" is an application, and applications cannot be imported`;
+  }
+
+  const sourceTags = sourceProject.tags ?? [];
+  const targetTags = targetProject.tags ?? [];
+
+  const constraints = depConstraints.filter((constraint) =>
+    constraint.sourceTag
+      ? hasMatchingTag(sourceTags, constraint.sourceTag)
+      : (constraint.allSourceTags ?? []).length > 0 &&
+        (constraint.allSourceTags ?? []).every((tag) =>
+          hasMatchingTag(sourceTags, tag),
+        ),
+  );
+
+  if (constraints.length === 0) {
+    return `"${sourceProjectName}" has no tags matching a dependency constraint, so it cannot depend on other projects`;
+  }
+
+  for (const constraint of constraints) {
+    const source = constraint.sourceTag
+      ? `"${constraint.sourceTag}"`
+      : formatTags(constraint.allSourceTags ?? []);
+
+    if (
+      constraint.onlyDependOnLibsWithTags &&
+      !constraint.onlyDependOnLibsWithTags.some((tag) =>
+        hasMatchingTag(targetTags, tag),
+      )
+    ) {
+      return `projects tagged ${source} can only depend on projects tagged ${formatTags(
+        constraint.onlyDependOnLibsWithTags,
+      )}, but "${targetProjectName}" is tagged ${formatTags(targetTags)}`;
+    }
+
+    const bannedTag = constraint.notDependOnLibsWithTags?.find((tag) =>
+      hasMatchingTag(targetTags, tag),
+    );
+    if (bannedTag) {
+      return `projects tagged ${source} cannot depend on projects tagged "${bannedTag}", but "${targetProjectName}" is tagged ${formatTags(
+        targetTags,
+      )}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Checks if any of the project tags matches a constraint tag, which may be
+ * `*`, a glob (`scope:*`), or a regular expression (`/^scope:/`).
+ */
+function hasMatchingTag(projectTags: string[], constraintTag: string): boolean {
+  if (constraintTag === '*') {
+    return true;
+  }
+
+  if (
+    constraintTag.length > 2 &&
+    constraintTag.startsWith('/') &&
+    constraintTag.endsWith('/')
+  ) {
+    const regex = new RegExp(constraintTag.slice(1, -1));
+    return projectTags.some((tag) => regex.test(tag));
+  }
+
+  if (constraintTag.includes('*')) {
+    const regex = new RegExp(
+      `^${constraintTag
+        .split('*')
+        .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+        .join('.*')}$`,
+    );
+    return projectTags.some((tag) => regex.test(tag));
+  }
+
+  return projectTags.includes(constraintTag);
+}
+
+/**
+ * Formats tags for error messages.
+ */
+function formatTags(tags: string[]): string {
+  return tags.length > 0
+    ? tags.map((tag) => `"${tag}"`).join(', ')
+    : '(no tags)';
+}
@@ -0,0 +1,87 @@
+import type { ProjectGraph } from '@nx/devkit';
+import { findDependencyCycles } from './find-dependency-cycles';
+
+describe('findDependencyCycles', () => {
+  const createGraph = (
+    dependencies: Record<string, string[]>,
+  ): ProjectGraph => ({
+    nodes: {},
+    dependencies: Object.fromEntries(
+      Object.entries(dependencies).map(([source, targets]) => [
+        source,
+        targets.map((target) => ({ source, target, type: 'static' })),
+      ]),
+    ),
+  });
+
+  it('should report a new dependency that closes a cycle', () => {
+    const edge = {
+      sourceProject: 'a',
+      targetProject: 'b',
+      filePath: 'libs/a/src/lib/x.ts',
+      specifier: '@org/b',
+    };
+
+    expect(
+      findDependencyCycles(createGraph({ b: ['c'], c: ['a'] }), [edge]),
+    ).toEqual([{ projects: ['a', 'b', 'c', 'a'], edge }]);
+  });
+
+  it('should report cycles formed by several new dependencies', () => {
+    const edges = [
+      { sourceProject: 'a', targetProject: 'b', filePath: 'libs/a/x.ts' },
+      { sourceProject: 'b', targetProject: 'a', filePath: 'libs/b/y.ts' },
+    ];
+
+    expect(
+      findDependencyCycles(createGraph({}), edges).map(
+        (cycle) => cycle.projects,
+      ),
+    ).toEqual([
+      ['a', 'b', 'a'],
+      ['b', 'a', 'b'],
+    ]);
+  });
+
+  it('should not report dependencies that do not close a cycle', () => {
+    expect(
+      findDependencyCycles(createGraph({ b: ['c'] }), [
+        { sourceProject: 'a', targetProject: 'b', filePath: 'libs/a/x.ts' },
+      ]),
+    ).toEqual([]);
+  });
+
+  it('should not report cycles that already exist', () => {
+    expect(
+      findDependencyCycles(createGraph({ a: ['b'], b: ['a'] }), [
+        { sourceProject: 'a', targetProject: 'b', filePath: 'libs/a/x.ts' },
+      ]),
+    ).toEqual([]);
+  });
+
+  it('should not report cycles through dependencies that the move removes', () => {
+    expect(
+      findDependencyCycles(
+        createGraph({ b: ['c'], c: ['a'] }),
+        [{ sourceProject: 'a', targetProject: 'b', filePath: 'libs/a/x.ts' }],
+        [{ sourceProject: 'c', targetProject: 'a', filePath: 'libs/c/y.ts' }],
+      ),
+    ).toEqual([]);
+  });
+
+  it('should report removed dependencies that the move adds again', () => {
+    const edges = [
+      { sourceProject: 'a', targetProject: 'b', filePath: 'libs/a/x.ts' },
+      { sourceProject: 'c', targetProject: 'a', filePath: 'libs/c/z.ts' },
+    ];
+
+    expect(
+      findDependencyCycles(createGraph({ b: ['c'], c: ['a'] }), edges, [
+        { sourceProject: 'c', targetProject: 'a', filePath: 'libs/c/y.ts' },
+      ]).map((cycle) => cycle.projects),
+    ).toEqual([
+      ['a', 'b', 'c', 'a'],
+      ['c', 'a', 'b', 'c'],
+    ]);
+  });
+});
@@ -0,0 +1,96 @@
+import type { ProjectGraph } from '@nx/devkit';
+import type {
+  DependencyCycle,
+  ProjectDependencyEdge,
+} from '../types/project-dependencies';
+
+/**
+ * Finds the circular project dependencies that new project dependencies
+ * would introduce into the project graph.
+ *
+ * Dependencies already present in the graph cannot close a new cycle and
+ * are skipped, so cycles that exist before the move are not reported.
+ * Dependencies the move removes are dropped from the graph first, so a
+ * cycle they would have closed is not reported either.
+ *
+ * @param projectGraph - The project graph before the move.
+ * @param edges - Project dependencies that exist after the move.
+ * @param removedEdges - Project dependencies that the move removes.
+ * @returns One cycle per new dependency that closes a cycle.
+ */
+export function findDependencyCycles(
+  projectGraph: ProjectGraph,
+  edges: ProjectDependencyEdge[],
+  removedEdges: ProjectDependencyEdge[] = [],
+): DependencyCycle[] {
+  const dependencies = new Map<string, Set<string>>();
+  const addDependency = (source: string, target: string): void => {
+    const targets = dependencies.get(source) ?? new Set<string>();
+    targets.add(target);
+    dependencies.set(source, targets);
+  };
+
+  for (const [source, projectDependencies] of Object.entries(
+    projectGraph.dependencies ?? {},
+  )) {
+    projectDependencies.forEach((dependency) =>
+      addDependency(source, dependency.target),
+    );
+  }
+
+  removedEdges.forEach((edge) =>
+    dependencies.get(edge.sourceProject)?.delete(edge.targetProject),
+  );
+
+  const newEdges = edges.filter(
+    (edge) => !dependencies.get(edge.sourceProject)?.has(edge.targetProject),
+  );
+  newEdges.forEach((edge) =>
+    addDependency(edge.sourceProject, edge.targetProject),
+  );
+
+  return newEdges.flatMap((edge) => {
+    const path = findDependencyPath(
+      dependencies,
+      edge.targetProject,
+      edge.sourceProject,
+    );
+    return path ? [{ projects: [edge.sourceProject, ...path], edge }] : [];
+  });
+}
+
+/**
+ * Finds the shortest dependency path between two projects (breadth-first).
+ */
+function findDependencyPath(
+  dependencies: Map<string, Set<string>>,
+  from: string,
+  to: string,
+): string[] | null {
+  const previous = new Map<string, string | null>([[from, null]]);
+  const queue = [from];
+
+  while (queue.length > 0) {
+    const current = queue.shift() as string;
+    if (current === to) {
+      const path: string[] = [];
+      for (
+        let node: string | null | undefined = current;
+        node;
+        node = previous.get(node)
+      ) {
+        path.unshift(node);
+      }
+      return path;
+    }
+
+    for (const next of dependencies.get(current) ?? []) {
+      if (!previous.has(next)) {
+        previous.set(next, current);
+        queue.push(next);
+      }
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,16 @@
+import { isObject } from './is-object';
+
+describe('isObject', () => {
+  it('should accept objects', () => {
+    expect(isObject({})).toBe(true);
+    expect(isObject({ moves: [] })).toBe(true);
+  });
+
+  it('should reject null, arrays, and primitives', () => {
+    expect(isObject(null)).toBe(false);
+    expect(isObject(undefined)).toBe(false);
+    expect(isObject([])).toBe(false);
+    expect(isObject('moves')).toBe(false);
+    expect(isObject(1)).toBe(false);
+  });
+});
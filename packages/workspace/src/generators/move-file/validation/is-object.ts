@@ -0,0 +1,10 @@
+/**
+ * Checks whether a parsed JSON or YAML value is an object with properties
+ * (not null or an array).
+ *
+ * @param value - The parsed value.
+ * @returns True if the value is a plain object.
+ */
+export function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,102 @@
+import { Tree, writeJson } from '@nx/devkit';
+import { createTreeWithEmptyWorkspace } from '@nx/devkit/testing';
+import { readMoveManifest } from './read-move-manifest';
+
+describe('readMoveManifest', () => {
+  let tree: Tree;
+
+  beforeEach(() => {
+    tree = createTreeWithEmptyWorkspace();
+  });
+
+  it('should read a JSON manifest', () => {
+    const manifest = {
+      moves: [
+        {
+          from: 'packages/lib1/src/lib/auth/*.ts',
+          project: 'auth',
+          projectDirectory: 'session',
+        },
+      ],
+    };
+    writeJson(tree, 'moves.json', manifest);
+
+    expect(readMoveManifest(tree, 'moves.json')).toEqual(manifest);
+  });
+
+  it('should read a YAML manifest', () => {
+    tree.write(
+      'moves.yaml',
+      [
+        'moves:',
+        '  - from: packages/lib1/src/lib/auth/*.ts',
+        '    project: auth',
+        '  # Utilities go to the shared library',
+        '  - from: packages/lib1/src/lib/format.ts,packages/lib1/src/lib/parse.ts',
+        '    project: shared-util',
+        '    projectDirectory: text',
+        '',
+      ].join('\n'),
+    );
+
+    expect(readMoveManifest(tree, 'moves.yaml')).toEqual({
+      moves: [
+        { from: 'packages/lib1/src/lib/auth/*.ts', project: 'auth' },
+        {
+          from: 'packages/lib1/src/lib/format.ts,packages/lib1/src/lib/parse.ts',
+          project: 'shared-util',
+          projectDirectory: 'text',
+        },
+      ],
+    });
+  });
+
+  it('should report every invalid rule at once', () => {
+    writeJson(tree, 'moves.json', {
+      moves: [
+        { from: 'packages/lib1/src/a.ts', project: '' },
+        { from: 'packages/lib1/src/b.ts', project: 'lib2', directory: 'x' },
+        'packages/lib1/src/c.ts',
+      ],
+    });
+
+    expect(() => readMoveManifest(tree, 'moves.json')).toThrow(
+      [
+        'Invalid move manifest "moves.json":',
+        '  - moves[0].project must be a non-empty string',
+        '  - moves[1] has unknown property "directory"',
+        '  - moves[2] must be an object',
+      ].join('\n'),
+    );
+  });
+
+  it('should reject a manifest without rules', () => {
+    writeJson(tree, 'moves.json', { moves: [] });
+
+    expect(() => readMoveManifest(tree, 'moves.json')).toThrow(
+      '"moves" must contain at least one rule',
+    );
+  });
+
+  it('should reject unsupported file formats', () => {
+    tree.write('moves.txt', '');
+
+    expect(() => readMoveManifest(tree, 'moves.txt')).toThrow(
+      'Unsupported move manifest format "moves.txt". Use a .json, .yaml, or .yml file.',
+    );
+  });
+
+  it('should throw when the manifest does not exist', () => {
+    expect(() => readMoveManifest(tree, 'moves.yml')).toThrow(
+      'Move manifest not found: "moves.yml"',
+    );
+  });
+
+  it('should report parse errors', () => {
+    tree.write('moves.yaml', 'moves: [\n');
+
+    expect(() => readMoveManifest(tree, 'moves.yaml')).toThrow(
+      'Failed to parse move manifest "moves.yaml"',
+    );
+  });
+});
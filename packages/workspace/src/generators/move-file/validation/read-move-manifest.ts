@@ -0,0 +1,105 @@
+import { parseJson } from '@nx/devkit';
+import type { Tree } from '@nx/devkit';
+import { posix as path } from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import { isObject } from './is-object';
+import type { MoveManifest, MoveManifestRule } from '../types/move-manifest';
+
+/**
+ * Properties a manifest rule may have.
+ */
+const ruleKeys: ReadonlyArray<keyof MoveManifestRule> = [
+  'from',
+  'project',
+  'projectDirectory',
+];
+
+/**
+ * Reads and validates a move manifest from a JSON or YAML file.
+ *
+ * Every rule is checked before returning, and all problems are reported in a
+ * single error so that a large manifest can be fixed in one pass.
+ *
+ * @param tree - The virtual file system tree.
+ * @param manifestPath - Workspace-relative path of the manifest file.
+ * @returns The validated manifest.
+ */
+export function readMoveManifest(
+  tree: Tree,
+  manifestPath: string,
+): MoveManifest {
+  const extension = path.extname(manifestPath);
+  if (!['.json', '.yaml', '.yml'].includes(extension)) {
+    throw new Error(
+      `Unsupported move manifest format "${manifestPath}". Use a .json, .yaml, or .yml file.`,
+    );
+  }
+
+  const content = tree.read(manifestPath, 'utf-8');
+  if (content === null) {
+    throw new Error(`Move manifest not found: "${manifestPath}"`);
+  }
+
+  let manifest: unknown;
+  try {
+    manifest = extension === '.json' ? parseJson(content) : parseYaml(content);
+  } catch (error) {
+    throw new Error(
+      `Failed to parse move manifest "${manifestPath}": ${(error as Error).message}`,
+    );
+  }
+
+  const problems = getManifestProblems(manifest);
+  if (problems.length > 0) {
+    throw new Error(
+      [
+        `Invalid move manifest "${manifestPath}":`,
+        ...problems.map((problem) => `  - ${problem}`),
+      ].join('\n'),
+    );
+  }
+
+  return manifest as MoveManifest;
+}
+
+/**
+ * Lists what is wrong with the structure of a parsed manifest.
+ */
+function getManifestProblems(manifest: unknown): string[] {
+  if (!isObject(manifest) || !Array.isArray(manifest['moves'])) {
+    return ['"moves" must be a list of rules'];
+  }
+
+  const moves: unknown[] = manifest['moves'];
+  if (moves.length === 0) {
+    return ['"moves" must contain at least one rule'];
+  }
+
+  return moves.flatMap((rule, index) => {
+    const location = `moves[${index}]`;
+    if (!isObject(rule)) {
+      return [`${location} must be an object`];
+    }
+
+    const problems: string[] = [];
+    for (const key of ['from', 'project'] as const) {
+      const value = rule[key];
+      if (typeof value !== 'string' || value.trim() === '') {
+        problems.push(`${location}.${key} must be a non-empty string`);
+      }
+    }
+    if (
+      rule['projectDirectory'] !== undefined &&
+      typeof rule['projectDirectory'] !== 'string'
+    ) {
+      problems.push(`${location}.projectDirectory must be a string`);
+    }
+    for (const key of Object.keys(rule)) {
+      if (!(ruleKeys as string[]).includes(key)) {
+        problems.push(`${location} has unknown property "${key}"`);
+      }
+    }
+
+    return problems;
+  });
+}
@@ -1,17 +1,24 @@
-import { Tree, ProjectConfiguration } from '@nx/devkit';
+import { Tree, ProjectConfiguration, logger } from '@nx/devkit';
 import { posix as path } from 'node:path';
 import { MoveFileGeneratorSchema } from '../schema';
 import { sanitizePath } from '../security-utils/sanitize-path';
 import { isValidPathInput } from '../security-utils/is-valid-path-input';
 import { treeReadCache } from '../tree-cache';
 import type { MoveContext } from '../types/move-context';
+import type { BoundaryViolation } from '../types/module-boundaries';
 import { buildTargetPath } from '../path-utils/build-target-path';
 import { findProjectForFile } from '../project-analysis/find-project-for-file';
 import { deriveProjectDirectoryFromSource } from '../project-analysis/derive-project-directory-from-source';
-import { getProjectImportPath } from '../project-analysis/get-project-import-path';
+import { getProjectBaseDirectory } from '../project-analysis/get-project-base-directory';
+import { getEntryPointImportPath } from '../project-analysis/get-entry-point-import-path';
+import { getMoveDependencyEdges } from '../project-analysis/get-move-dependency-edges';
 import { isFileExported } from '../export-management/is-file-exported';
+import { formatDependencyEdge } from '../reporting/format-dependency-edge';
 import { checkForImportsInProject } from './check-for-imports-in-project';
 import { checkForRelativeImportsInProject } from './check-for-relative-imports-in-project';
+import { checkModuleBoundaries } from './check-module-boundaries';
+import { resolveTargetConflict } from './resolve-target-conflict';
+import { resolveTargetProjectName } from './resolve-target-project-name';
 
 /**
  * Normalizes, validates, and gathers metadata about the source and target files.
@@ -21,6 +28,8 @@ import { checkForRelativeImportsInProject } from './check-for-relative-imports-i
  * @param projects - Map of all projects in the workspace.
  * @param cachedTreeExists - Function to check if a file exists (with caching).
  * @param getProjectSourceFiles - Function to get project source files (with caching).
+ * @param batchTargetProjects - Optional target project per source file of the batch being moved.
+ * @param reservedTargets - Optional target paths of the files of the batch resolved before this one.
  * @returns Resolved context data describing the move operation.
  */
 export function resolveAndValidate(
@@ -29,6 +38,8 @@ export function resolveAndValidate(
   projects: Map<string, ProjectConfiguration>,
   cachedTreeExists: (tree: Tree, filePath: string) => boolean,
   getProjectSourceFiles: (tree: Tree, projectRoot: string) => string[],
+  batchTargetProjects?: ReadonlyMap<string, string>,
+  reservedTargets?: ReadonlySet<string>,
 ): MoveContext {
   // Check if the file input contains glob characters
   const isGlobPattern = /[*?[\]{}]/.test(options.file);
@@ -47,6 +58,7 @@ export function resolveAndValidate(
 
   // Validate project name
   if (
+    options.project &&
     !isValidPathInput(options.project, {
       allowUnicode: !!options.allowUnicode,
     })
@@ -57,10 +69,11 @@ export function resolveAndValidate(
   }
 
   // Validate project name exists
-  const targetProject = projects.get(options.project);
+  const targetProjectName = resolveTargetProjectName(projects, options);
+  const targetProject = projects.get(targetProjectName);
   if (!targetProject) {
     throw new Error(
-      `Target project "${options.project}" not found in workspace`,
+      `Target project "${targetProjectName}" not found in workspace. Pass --create-project-if-missing to create it.`,
     );
   }
 
@@ -71,6 +84,23 @@ export function resolveAndValidate(
     );
   }
 
+  // An explicit target path already names the target directory
+  if (
+    options.targetPath &&
+    (options.deriveProjectDirectory || options.projectDirectory)
+  ) {
+    throw new Error(
+      'Cannot use "targetPath" together with "projectDirectory" or "deriveProjectDirectory"',
+    );
+  }
+
+  // Dependents can only keep their imports when a shim keeps them working
+  if (options.updateDependents === false && !options.leaveShim) {
+    throw new Error(
+      'The "updateDependents" option can only be disabled together with "leaveShim"',
+    );
+  }
+
   // Validate projectDirectory if provided
   if (
     options.projectDirectory &&
@@ -109,6 +139,11 @@ export function resolveAndValidate(
     const derivedDirectory = deriveProjectDirectoryFromSource(
       normalizedSource,
       sourceProject,
+      getProjectBaseDirectory(
+        tree,
+        sourceProject,
+        getProjectSourceFiles(tree, sourceProject.root),
+      ),
     );
     sanitizedProjectDirectory = derivedDirectory
       ? sanitizePath(derivedDirectory)
@@ -118,20 +153,38 @@ export function resolveAndValidate(
     sanitizedProjectDirectory = sanitizePath(options.projectDirectory);
   }
 
-  // Construct target path from project and optional directory
-  const normalizedTarget = buildTargetPath(
-    targetProject,
+  // Use the explicit target path or construct it from project and optional
+  // directory, resolving a collision with an existing file
+  const requestedTarget = options.targetPath
+    ? sanitizePath(options.targetPath)
+    : buildTargetPath(
+        targetProject,
+        normalizedSource,
+        sanitizedProjectDirectory,
+        getProjectBaseDirectory(
+          tree,
+          targetProject,
+          getProjectSourceFiles(tree, targetProject.root),
+        ),
+      );
+  if (
+    options.targetPath &&
+    tree.exists(requestedTarget) &&
+    !tree.isFile(requestedTarget)
+  ) {
+    throw new Error(
+      `Target path "${requestedTarget}" is a directory. Pass the path of the moved file, including its file name.`,
+    );
+  }
+  const { normalizedTarget, targetConflict } = resolveTargetConflict(
+    tree,
     normalizedSource,
-    sanitizedProjectDirectory,
+    requestedTarget,
+    options.onConflict,
+    cachedTreeExists,
+    reservedTargets,
   );
 
-  // Verify target file does not exist
-  if (cachedTreeExists(tree, normalizedTarget)) {
-    throw new Error(`Target file "${normalizedTarget}" already exists`);
-  }
-
-  const targetProjectName = options.project;
-
   // Read the file content using cached read for better performance
   const fileContent = treeReadCache.read(tree, normalizedSource, 'utf-8');
   if (!fileContent) {
@@ -150,16 +203,25 @@ export function resolveAndValidate(
     cachedTreeExists,
   );
 
-  // Get import paths for both projects
-  const sourceImportPath = getProjectImportPath(
+  // A shim re-exports the moved file from the target project's entrypoint
+  if (isExported && options.leaveShim && options.skipExport) {
+    throw new Error(
+      `Cannot use "leaveShim" together with "skipExport": the deprecated re-export of "${normalizedSource}" requires the target project to export it`,
+    );
+  }
+
+  // Get the import paths of the entry points the file is exported from
+  const sourceImportPath = getEntryPointImportPath(
     tree,
     sourceProjectName,
     sourceProject,
+    normalizedSource,
   );
-  const targetImportPath = getProjectImportPath(
+  const targetImportPath = getEntryPointImportPath(
     tree,
     targetProjectName,
     targetProject,
+    normalizedTarget,
   );
 
   // Check if moving within the same project
@@ -188,7 +250,7 @@ export function resolveAndValidate(
       getProjectSourceFiles,
     );
 
-  return {
+  const ctx: MoveContext = {
     normalizedSource,
     normalizedTarget,
     sourceProject,
@@ -204,5 +266,49 @@ export function resolveAndValidate(
     hasImportsInTarget,
     hasImportsInSource,
     isSameProject,
+    targetConflict,
   };
+
+  // Check the project dependencies created by the move against the tag constraints
+  ctx.dependencyEdges = getMoveDependencyEdges(
+    tree,
+    ctx,
+    projects,
+    getProjectSourceFiles,
+    cachedTreeExists,
+    batchTargetProjects,
+    options,
+  );
+  const violations = checkModuleBoundaries(tree, ctx.dependencyEdges, projects);
+  if (violations.length > 0) {
+    const report = formatBoundaryViolations(ctx, violations);
+    if (!options.allowBoundaryViolations) {
+      throw new Error(
+        `${report}\nUpdate the project tags, or pass --allow-boundary-violations to move anyway.`,
+      );
+    }
+    logger.warn(report);
+  }
+
+  return ctx;
+}
+
+/**
+ * Formats module boundary violations as one line per project dependency.
+ */
+function formatBoundaryViolations(
+  ctx: MoveContext,
+  violations: BoundaryViolation[],
+): string {
+  const lines = violations.map(
+    (violation) =>
+      `  - "${violation.sourceProject}" → "${violation.targetProject}": ${formatDependencyEdge(
+        violation,
+      )} (${violation.reason})`,
+  );
+
+  return [
+    `Moving "${ctx.normalizedSource}" to project "${ctx.targetProjectName}" would violate module boundaries:`,
+    ...lines,
+  ].join('\n');
 }
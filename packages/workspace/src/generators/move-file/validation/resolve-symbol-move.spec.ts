@@ -0,0 +1,124 @@
+import { Tree, ProjectConfiguration } from '@nx/devkit';
+import { createTreeWithEmptyWorkspace } from '@nx/devkit/testing';
+import { resolveSymbolMove } from './resolve-symbol-move';
+
+describe('resolveSymbolMove', () => {
+  let tree: Tree;
+  let projects: Map<string, ProjectConfiguration>;
+  const cachedTreeExists = (t: Tree, filePath: string) => t.exists(filePath);
+  const getProjectSourceFiles = () => [];
+
+  beforeEach(() => {
+    tree = createTreeWithEmptyWorkspace();
+    projects = new Map([
+      [
+        'lib1',
+        {
+          root: 'packages/lib1',
+          sourceRoot: 'packages/lib1/src',
+          projectType: 'library',
+        },
+      ],
+      [
+        'lib2',
+        {
+          root: 'packages/lib2',
+          sourceRoot: 'packages/lib2/src',
+          projectType: 'library',
+        },
+      ],
+    ]);
+    tree.write('packages/lib1/src/lib/utils.ts', 'export const foo = 1;');
+    tree.write('packages/lib1/src/index.ts', "export * from './lib/utils';");
+  });
+
+  it('should resolve a target file in another project', () => {
+    const result = resolveSymbolMove(
+      tree,
+      {
+        file: 'packages/lib1/src/lib/utils.ts',
+        symbol: 'foo',
+        targetFile: 'packages/lib2/src/lib/foo.ts',
+      },
+      projects,
+      cachedTreeExists,
+      getProjectSourceFiles,
+    );
+
+    expect(result).toMatchObject({
+      symbol: 'foo',
+      normalizedSource: 'packages/lib1/src/lib/utils.ts',
+      normalizedTarget: 'packages/lib2/src/lib/foo.ts',
+      sourceProjectName: 'lib1',
+      targetProjectName: 'lib2',
+      isExported: true,
+      isSameProject: false,
+    });
+  });
+
+  it('should default the target file to the source file name in the target project', () => {
+    const result = resolveSymbolMove(
+      tree,
+      {
+        file: 'packages/lib1/src/lib/utils.ts',
+        symbol: 'foo',
+        project: 'lib2',
+        projectDirectory: 'shared',
+      },
+      projects,
+      cachedTreeExists,
+      getProjectSourceFiles,
+    );
+
+    expect(result.normalizedTarget).toBe(
+      'packages/lib2/src/lib/shared/utils.ts',
+    );
+  });
+
+  it('should throw for invalid symbol names', () => {
+    expect(() =>
+      resolveSymbolMove(
+        tree,
+        { file: 'packages/lib1/src/lib/utils.ts', symbol: 'foo-bar' },
+        projects,
+        cachedTreeExists,
+        getProjectSourceFiles,
+      ),
+    ).toThrow('Invalid symbol name: "foo-bar"');
+  });
+
+  it('should throw when the target file is in another project than "project"', () => {
+    expect(() =>
+      resolveSymbolMove(
+        tree,
+        {
+          file: 'packages/lib1/src/lib/utils.ts',
+          symbol: 'foo',
+          project: 'lib1',
+          targetFile: 'packages/lib2/src/lib/foo.ts',
+        },
+        projects,
+        cachedTreeExists,
+        getProjectSourceFiles,
+      ),
+    ).toThrow(
+      'Target file "packages/lib2/src/lib/foo.ts" is not in project "lib1"',
+    );
+  });
+
+  it('should throw when the target file is the source file', () => {
+    expect(() =>
+      resolveSymbolMove(
+        tree,
+        {
+          file: 'packages/lib1/src/lib/utils.ts',
+          symbol: 'foo',
+          targetFile: 'packages/lib1/src/lib/utils.ts',
+        },
+        projects,
+        cachedTreeExists,
+        getProjectSourceFiles,
+      ),
+    ).toThrow('must be different from the source file');
+  });
+});
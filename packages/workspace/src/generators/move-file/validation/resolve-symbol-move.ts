@@ -0,0 +1,162 @@
+import { Tree, ProjectConfiguration } from '@nx/devkit';
+import { posix as path } from 'node:path';
+import type { MoveSymbolGeneratorSchema } from '../../move-symbol/schema';
+import { sanitizePath } from '../security-utils/sanitize-path';
+import { isValidPathInput } from '../security-utils/is-valid-path-input';
+import type { SymbolMoveContext } from '../types/symbol-move';
+import { buildTargetPath } from '../path-utils/build-target-path';
+import { hasSourceFileExtension } from '../path-utils/has-source-file-extension';
+import { findProjectForFile } from '../project-analysis/find-project-for-file';
+import { getProjectBaseDirectory } from '../project-analysis/get-project-base-directory';
+import { getEntryPointImportPath } from '../project-analysis/get-entry-point-import-path';
+import { isFileExported } from '../export-management/is-file-exported';
+
+/**
+ * Normalizes, validates, and gathers metadata about a symbol move.
+ *
+ * The target file is `targetFile` when set. Otherwise it is a file with the
+ * same name as the source file in the target project, placed like a moved
+ * file (see buildTargetPath).
+ *
+ * @param tree - The virtual file system tree.
+ * @param options - Raw options supplied to the generator.
+ * @param projects - Map of all projects in the workspace.
+ * @param cachedTreeExists - Function to check if a file exists (with caching).
+ * @param getProjectSourceFiles - Function to get project source files (with caching).
+ * @returns Resolved context data describing the symbol move.
+ */
+export function resolveSymbolMove(
+  tree: Tree,
+  options: MoveSymbolGeneratorSchema,
+  projects: Map<string, ProjectConfiguration>,
+  cachedTreeExists: (tree: Tree, filePath: string) => boolean,
+  getProjectSourceFiles: (tree: Tree, projectRoot: string) => string[],
+): SymbolMoveContext {
+  const allowUnicode = !!options.allowUnicode;
+
+  if (!isValidPathInput(options.file, { allowUnicode })) {
+    throw new Error(
+      `Invalid path input for 'file': contains disallowed characters: "${options.file}"`,
+    );
+  }
+
+  if (!/^[A-Za-z_$][\w$]*$/.test(options.symbol)) {
+    throw new Error(`Invalid symbol name: "${options.symbol}"`);
+  }
+
+  if (options.targetFile && options.projectDirectory) {
+    throw new Error(
+      'Cannot use both "targetFile" and "projectDirectory" options at the same time',
+    );
+  }
+
+  for (const [name, value] of Object.entries({
+    project: options.project,
+    targetFile: options.targetFile,
+    projectDirectory: options.projectDirectory,
+  })) {
+    if (value && !isValidPathInput(value, { allowUnicode })) {
+      throw new Error(
+        `Invalid path input for '${name}': contains disallowed characters: "${value}"`,
+      );
+    }
+  }
+
+  const normalizedSource = sanitizePath(options.file);
+  if (!cachedTreeExists(tree, normalizedSource)) {
+    throw new Error(`Source file "${normalizedSource}" not found`);
+  }
+
+  const sourceProjectInfo = findProjectForFile(projects, normalizedSource);
+  if (!sourceProjectInfo) {
+    throw new Error(
+      `Could not determine source project for file "${normalizedSource}"`,
+    );
+  }
+  const { project: sourceProject, name: sourceProjectName } = sourceProjectInfo;
+
+  let normalizedTarget: string;
+  let targetProjectName: string;
+
+  if (options.targetFile) {
+    normalizedTarget = sanitizePath(options.targetFile);
+    const targetProjectInfo = findProjectForFile(projects, normalizedTarget);
+    if (!targetProjectInfo) {
+      throw new Error(
+        `Could not determine target project for file "${normalizedTarget}"`,
+      );
+    }
+    if (options.project && options.project !== targetProjectInfo.name) {
+      throw new Error(
+        `Target file "${normalizedTarget}" is not in project "${options.project}"`,
+      );
+    }
+    targetProjectName = targetProjectInfo.name;
+  } else if (options.project) {
+    const project = projects.get(options.project);
+    if (!project) {
+      throw new Error(
+        `Target project "${options.project}" not found in workspace`,
+      );
+    }
+    normalizedTarget = buildTargetPath(
+      project,
+      normalizedSource,
+      options.projectDirectory
+        ? sanitizePath(options.projectDirectory)
+        : undefined,
+      getProjectBaseDirectory(
+        tree,
+        project,
+        getProjectSourceFiles(tree, project.root),
+      ),
+    );
+    targetProjectName = options.project;
+  } else {
+    throw new Error('Either "project" or "targetFile" must be provided');
+  }
+
+  if (!hasSourceFileExtension(normalizedTarget)) {
+    throw new Error(
+      `Target file "${normalizedTarget}" must be a TypeScript or JavaScript file`,
+    );
+  }
+
+  if (normalizedTarget === normalizedSource) {
+    throw new Error(
+      `Target file "${normalizedTarget}" must be different from the source file`,
+    );
+  }
+
+  const targetProject = projects.get(targetProjectName) as ProjectConfiguration;
+  const sourceRoot = sourceProject.sourceRoot || sourceProject.root;
+
+  return {
+    symbol: options.symbol,
+    normalizedSource,
+    normalizedTarget,
+    sourceProjectName,
+    targetProjectName,
+    sourceProject,
+    targetProject,
+    sourceImportPath: getEntryPointImportPath(
+      tree,
+      sourceProjectName,
+      sourceProject,
+      normalizedSource,
+    ),
+    targetImportPath: getEntryPointImportPath(
+      tree,
+      targetProjectName,
+      targetProject,
+      normalizedTarget,
+    ),
+    isExported: isFileExported(
+      tree,
+      sourceProject,
+      path.relative(sourceRoot, normalizedSource),
+      cachedTreeExists,
+    ),
+    isSameProject: sourceProjectName === targetProjectName,
+  };
+}
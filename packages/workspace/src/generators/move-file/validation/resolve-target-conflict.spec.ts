@@ -0,0 +1,186 @@
+import { Tree, logger } from '@nx/devkit';
+import { createTreeWithEmptyWorkspace } from '@nx/devkit/testing';
+import { resolveTargetConflict } from './resolve-target-conflict';
+import { astCache } from '../ast-cache';
+import { treeReadCache } from '../tree-cache';
+
+describe('resolveTargetConflict', () => {
+  let tree: Tree;
+  const cachedTreeExists = (tree: Tree, filePath: string) =>
+    tree.exists(filePath);
+  const source = 'packages/lib1/src/lib/util.ts';
+  const target = 'packages/lib2/src/lib/util.ts';
+
+  beforeEach(() => {
+    tree = createTreeWithEmptyWorkspace();
+    astCache.clear();
+    treeReadCache.clear();
+    jest.spyOn(logger, 'info').mockImplementation();
+    jest.spyOn(logger, 'warn').mockImplementation();
+
+    tree.write(source, 'export const format = () => 1;\n');
+    tree.write(target, 'export const parse = () => 2;\n');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should keep a target path that does not exist', () => {
+    tree.delete(target);
+
+    expect(
+      resolveTargetConflict(tree, source, target, 'rename', cachedTreeExists),
+    ).toEqual({ normalizedTarget: target });
+  });
+
+  it('should fail by default', () => {
+    expect(() =>
+      resolveTargetConflict(tree, source, target, undefined, cachedTreeExists),
+    ).toThrow(
+      'Target file "packages/lib2/src/lib/util.ts" already exists. Pass --on-conflict=overwrite, rename, or merge-exports to move it anyway.',
+    );
+  });
+
+  it('should keep the target path and warn with overwrite', () => {
+    expect(
+      resolveTargetConflict(
+        tree,
+        source,
+        target,
+        'overwrite',
+        cachedTreeExists,
+      ),
+    ).toEqual({
+      normalizedTarget: target,
+      targetConflict: { resolution: 'overwrite', existingFile: target },
+    });
+    expect(logger.warn).toHaveBeenCalledWith(
+      expect.stringContaining('is overwritten by'),
+    );
+  });
+
+  it('should pick the first free numbered path with rename', () => {
+    tree.write('packages/lib2/src/lib/util-1.ts', '');
+
+    expect(
+      resolveTargetConflict(tree, source, target, 'rename', cachedTreeExists),
+    ).toEqual({
+      normalizedTarget: 'packages/lib2/src/lib/util-2.ts',
+      targetConflict: { resolution: 'rename', existingFile: target },
+    });
+  });
+
+  it('should skip the targets of other files in the batch with rename', () => {
+    expect(
+      resolveTargetConflict(
+        tree,
+        source,
+        target,
+        'rename',
+        cachedTreeExists,
+        new Set(['packages/lib2/src/lib/util-1.ts']),
+      ).normalizedTarget,
+    ).toBe('packages/lib2/src/lib/util-2.ts');
+  });
+
+  it('should rename a target taken by another file in the batch with rename', () => {
+    const batchTarget = 'packages/lib2/src/lib/other.ts';
+
+    expect(
+      resolveTargetConflict(
+        tree,
+        'packages/lib1/src/lib/other.ts',
+        batchTarget,
+        'rename',
+        cachedTreeExists,
+        new Set([batchTarget]),
+      ),
+    ).toEqual({
+      normalizedTarget: 'packages/lib2/src/lib/other-1.ts',
+      targetConflict: { resolution: 'rename', existingFile: batchTarget },
+    });
+  });
+
+  it('should leave targets taken only by another file in the batch to the batch otherwise', () => {
+    const batchTarget = 'packages/lib2/src/lib/other.ts';
+
+    expect(
+      resolveTargetConflict(
+        tree,
+        'packages/lib1/src/lib/other.ts',
+        batchTarget,
+        'fail',
+        cachedTreeExists,
+        new Set([batchTarget]),
+      ),
+    ).toEqual({ normalizedTarget: batchTarget });
+  });
+
+  it('should number the base name before secondary extensions', () => {
+    tree.write('packages/lib2/src/lib/util.service.ts', '');
+
+    expect(
+      resolveTargetConflict(
+        tree,
+        'packages/lib1/src/lib/util.service.ts',
+        'packages/lib2/src/lib/util.service.ts',
+        'rename',
+        cachedTreeExists,
+      ).normalizedTarget,
+    ).toBe('packages/lib2/src/lib/util-1.service.ts');
+  });
+
+  it('should accept files without shared names with merge-exports', () => {
+    expect(
+      resolveTargetConflict(
+        tree,
+        source,
+        target,
+        'merge-exports',
+        cachedTreeExists,
+      ),
+    ).toEqual({
+      normalizedTarget: target,
+      targetConflict: { resolution: 'merge-exports', existingFile: target },
+    });
+  });
+
+  it('should refuse to merge files that declare the same names', () => {
+    tree.write(
+      target,
+      'export const format = () => 2;\nexport default function () {}\n',
+    );
+    tree.write(
+      source,
+      'export const format = () => 1;\nexport default class {}\n',
+    );
+
+    expect(() =>
+      resolveTargetConflict(
+        tree,
+        source,
+        target,
+        'merge-exports',
+        cachedTreeExists,
+      ),
+    ).toThrow(
+      'Cannot merge "packages/lib1/src/lib/util.ts" into "packages/lib2/src/lib/util.ts": both declare "format", "default"',
+    );
+  });
+
+  it('should refuse to merge files that are not source files', () => {
+    tree.write('packages/lib1/src/lib/data.json', '{}');
+    tree.write('packages/lib2/src/lib/data.json', '{}');
+
+    expect(() =>
+      resolveTargetConflict(
+        tree,
+        'packages/lib1/src/lib/data.json',
+        'packages/lib2/src/lib/data.json',
+        'merge-exports',
+        cachedTreeExists,
+      ),
+    ).toThrow('only parseable source files can be merged');
+  });
+});
@@ -0,0 +1,162 @@
+import { logger } from '@nx/devkit';
+import type { Tree } from '@nx/devkit';
+import type { ASTPath, Collection } from 'jscodeshift';
+import { posix as path } from 'node:path';
+import { astCache, j } from '../ast-cache';
+import { hasSourceFileExtension } from '../path-utils/has-source-file-extension';
+import { getDeclaredNames } from '../symbol-operations/get-declared-names';
+import type { OnConflict, TargetConflict } from '../types/target-conflict';
+
+/**
+ * Decides where a file moves when its computed target path already exists,
+ * according to the `onConflict` option.
+ *
+ * With `rename`, the target paths of the files moved before it in the same
+ * batch count as taken as well, so that files with the same name moving into
+ * one folder get distinct names. Other resolutions leave such collisions to
+ * the batch, which rejects them.
+ *
+ * @param tree - The virtual file system tree.
+ * @param normalizedSource - Path of the file to move.
+ * @param normalizedTarget - Computed target path.
+ * @param onConflict - How to handle an existing target file; defaults to `fail`.
+ * @param cachedTreeExists - Function to check if a file exists (with caching).
+ * @param reservedTargets - Optional target paths of the other files in the batch resolved so far.
+ * @returns The target path to use and, on a collision, how it was resolved.
+ * @throws Error if the target exists and the conflict cannot be resolved.
+ */
+export function resolveTargetConflict(
+  tree: Tree,
+  normalizedSource: string,
+  normalizedTarget: string,
+  onConflict: OnConflict = 'fail',
+  cachedTreeExists: (tree: Tree, filePath: string) => boolean,
+  reservedTargets: ReadonlySet<string> = new Set(),
+): { normalizedTarget: string; targetConflict?: TargetConflict } {
+  const isTaken = (filePath: string): boolean =>
+    cachedTreeExists(tree, filePath) || reservedTargets.has(filePath);
+
+  if (
+    !cachedTreeExists(tree, normalizedTarget) &&
+    (onConflict !== 'rename' || !reservedTargets.has(normalizedTarget))
+  ) {
+    return { normalizedTarget };
+  }
+
+  switch (onConflict) {
+    case 'overwrite':
+      logger.warn(
+        `Target file "${normalizedTarget}" already exists and is overwritten by "${normalizedSource}"`,
+      );
+      return {
+        normalizedTarget,
+        targetConflict: {
+          resolution: 'overwrite',
+          existingFile: normalizedTarget,
+        },
+      };
+    case 'rename': {
+      const renamedTarget = findFreeTargetPath(normalizedTarget, isTaken);
+      logger.info(
+        `Target file "${normalizedTarget}" already exists or is taken by another moved file; moving "${normalizedSource}" to "${renamedTarget}" instead`,
+      );
+      return {
+        normalizedTarget: renamedTarget,
+        targetConflict: {
+          resolution: 'rename',
+          existingFile: normalizedTarget,
+        },
+      };
+    }
+    case 'merge-exports':
+      assertMergeable(tree, normalizedSource, normalizedTarget);
+      logger.info(
+        `Target file "${normalizedTarget}" already exists; merging "${normalizedSource}" into it`,
+      );
+      return {
+        normalizedTarget,
+        targetConflict: {
+          resolution: 'merge-exports',
+          existingFile: normalizedTarget,
+        },
+      };
+    default:
+      throw new Error(
+        `Target file "${normalizedTarget}" already exists. Pass --on-conflict=overwrite, rename, or merge-exports to move it anyway.`,
+      );
+  }
+}
+
+/**
+ * Finds the first path with a numeric suffix after the base name that is not
+ * taken, keeping secondary extensions: `util.service.ts` becomes
+ * `util-1.service.ts`.
+ */
+function findFreeTargetPath(
+  normalizedTarget: string,
+  isTaken: (filePath: string) => boolean,
+): string {
+  const directory = path.dirname(normalizedTarget);
+  const fileName = path.basename(normalizedTarget);
+  const dotIndex = fileName.indexOf('.', 1);
+  const baseName = dotIndex === -1 ? fileName : fileName.slice(0, dotIndex);
+  const extensions = dotIndex === -1 ? '' : fileName.slice(dotIndex);
+
+  for (let suffix = 1; ; suffix++) {
+    const candidate = path.join(
+      directory,
+      `${baseName}-${suffix}${extensions}`,
+    );
+    if (!isTaken(candidate)) {
+      return candidate;
+    }
+  }
+}
+
+/**
+ * Checks that the moved file can be appended to the existing target file
+ * without redeclaring a top-level name.
+ */
+function assertMergeable(
+  tree: Tree,
+  normalizedSource: string,
+  normalizedTarget: string,
+): void {
+  const sourceAst = hasSourceFileExtension(normalizedSource)
+    ? astCache.getAST(tree, normalizedSource)
+    : null;
+  const targetAst = hasSourceFileExtension(normalizedTarget)
+    ? astCache.getAST(tree, normalizedTarget)
+    : null;
+  if (!sourceAst || !targetAst) {
+    throw new Error(
+      `Cannot merge "${normalizedSource}" into "${normalizedTarget}": only parseable source files can be merged`,
+    );
+  }
+
+  const targetNames = new Set(getTopLevelNames(targetAst));
+  const collisions = getTopLevelNames(sourceAst).filter((name) =>
+    targetNames.has(name),
+  );
+  if (collisions.length > 0) {
+    throw new Error(
+      `Cannot merge "${normalizedSource}" into "${normalizedTarget}": both declare ${collisions
+        .map((name) => `"${name}"`)
+        .join(', ')}`,
+    );
+  }
+}
+
+/**
+ * Names declared by a file's top-level statements, including `default` for a
+ * default export.
+ */
+function getTopLevelNames(root: Collection): string[] {
+  const body: ASTPath['node'][] = root.find(j.Program).get('body').value;
+
+  return body.flatMap((node) =>
+    j.ExportDefaultDeclaration.check(node)
+      ? ['default']
+      : getDeclaredNames(node),
+  );
+}
@@ -0,0 +1,63 @@
+import type { ProjectConfiguration } from '@nx/devkit';
+import { resolveTargetProjectName } from './resolve-target-project-name';
+
+describe('resolveTargetProjectName', () => {
+  const projects = new Map<string, ProjectConfiguration>([
+    ['lib1', { root: 'libs/lib1', sourceRoot: 'libs/lib1/src' }],
+    ['ui', { root: 'projects/ui', sourceRoot: 'projects/ui/src' }],
+  ]);
+
+  it('should return the project option without a target path', () => {
+    expect(resolveTargetProjectName(projects, { project: 'lib1' })).toBe(
+      'lib1',
+    );
+  });
+
+  it('should infer the project containing the target path', () => {
+    expect(
+      resolveTargetProjectName(projects, {
+        targetPath: 'projects/ui/src/utils/format.ts',
+      }),
+    ).toBe('ui');
+  });
+
+  it('should accept a project option that matches the target path', () => {
+    expect(
+      resolveTargetProjectName(projects, {
+        project: 'ui',
+        targetPath: './projects/ui/src/format.ts',
+      }),
+    ).toBe('ui');
+  });
+
+  it('should reject a project option that does not contain the target path', () => {
+    expect(() =>
+      resolveTargetProjectName(projects, {
+        project: 'lib1',
+        targetPath: 'projects/ui/src/format.ts',
+      }),
+    ).toThrow(
+      'Target path "projects/ui/src/format.ts" belongs to project "ui", not "lib1"',
+    );
+  });
+
+  it('should reject a target path outside every project', () => {
+    expect(() =>
+      resolveTargetProjectName(projects, { targetPath: 'tools/format.ts' }),
+    ).toThrow('Could not determine target project for path "tools/format.ts"');
+  });
+
+  it('should reject target paths with disallowed characters', () => {
+    expect(() =>
+      resolveTargetProjectName(projects, {
+        targetPath: 'projects/ui/src/format$.ts',
+      }),
+    ).toThrow("Invalid path input for 'targetPath'");
+  });
+
+  it('should require a project or a target path', () => {
+    expect(() => resolveTargetProjectName(projects, {})).toThrow(
+      'Either "project" or "targetPath" must be set',
+    );
+  });
+});
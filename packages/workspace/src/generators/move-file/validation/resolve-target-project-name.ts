@@ -0,0 +1,59 @@
+import type { ProjectConfiguration } from '@nx/devkit';
+import type { MoveFileGeneratorSchema } from '../schema';
+import { findProjectForFile } from '../project-analysis/find-project-for-file';
+import { isValidPathInput } from '../security-utils/is-valid-path-input';
+import { sanitizePath } from '../security-utils/sanitize-path';
+
+/**
+ * Determines the name of the project a file moves to.
+ *
+ * With `targetPath`, the target project is the project containing that path;
+ * a `project` passed alongside must name the same project. Otherwise the
+ * target project is the `project` option.
+ *
+ * @param projects - Map of all projects in the workspace.
+ * @param options - Generator options for a single file.
+ * @returns The name of the target project.
+ * @throws Error if neither option is set or the target path is outside every project.
+ */
+export function resolveTargetProjectName(
+  projects: Map<string, ProjectConfiguration>,
+  options: Pick<
+    MoveFileGeneratorSchema,
+    'project' | 'targetPath' | 'allowUnicode'
+  >,
+): string {
+  if (!options.targetPath) {
+    if (!options.project) {
+      throw new Error('Either "project" or "targetPath" must be set');
+    }
+
+    return options.project;
+  }
+
+  if (
+    !isValidPathInput(options.targetPath, {
+      allowUnicode: !!options.allowUnicode,
+    })
+  ) {
+    throw new Error(
+      `Invalid path input for 'targetPath': contains disallowed characters: "${options.targetPath}"`,
+    );
+  }
+
+  const normalizedTargetPath = sanitizePath(options.targetPath);
+
+  const targetProjectInfo = findProjectForFile(projects, normalizedTargetPath);
+  if (!targetProjectInfo) {
+    throw new Error(
+      `Could not determine target project for path "${normalizedTargetPath}"`,
+    );
+  }
+  if (options.project && options.project !== targetProjectInfo.name) {
+    throw new Error(
+      `Target path "${normalizedTargetPath}" belongs to project "${targetProjectInfo.name}", not "${options.project}"`,
+    );
+  }
+
+  return targetProjectInfo.name;
+}
@@ -0,0 +1,189 @@
+import { createTreeWithEmptyWorkspace } from '@nx/devkit/testing';
+import {
+  Tree,
+  addProjectConfiguration,
+  updateJson,
+  writeJson,
+  createProjectGraphAsync,
+  formatFiles,
+} from '@nx/devkit';
+
+import { moveManifestGenerator } from './generator';
+import { clearCompilerPathsCache } from '../move-file/project-analysis/read-compiler-paths';
+import { treeReadCache } from '../move-file/tree-cache';
+import { clearIndexExportsCache } from '../move-file/export-management/index-exports-cache';
+import { astCache } from '../move-file/ast-cache';
+
+jest.mock('@nx/devkit', () => {
+  const actual = jest.requireActual('@nx/devkit');
+  return {
+    ...actual,
+    formatFiles: jest.fn(),
+    createProjectGraphAsync: jest.fn(),
+  };
+});
+
+const createProjectGraphAsyncMock = jest.mocked(createProjectGraphAsync);
+const formatFilesMock = jest.mocked(formatFiles);
+
+describe('move-manifest generator', () => {
+  let tree: Tree;
+
+  beforeEach(() => {
+    clearCompilerPathsCache();
+    treeReadCache.clear();
+    clearIndexExportsCache();
+    astCache.clear();
+
+    createProjectGraphAsyncMock.mockResolvedValue({
+      nodes: {},
+      dependencies: {},
+    });
+    formatFilesMock.mockResolvedValue(undefined);
+
+    tree = createTreeWithEmptyWorkspace();
+
+    updateJson(tree, 'tsconfig.base.json', (json) => {
+      json.compilerOptions = json.compilerOptions || {};
+      json.compilerOptions.paths = {
+        '@test/lib1': ['packages/lib1/src/index.ts'],
+        '@test/lib2': ['packages/lib2/src/index.ts'],
+        '@test/lib3': ['packages/lib3/src/index.ts'],
+      };
+      return json;
+    });
+
+    for (const name of ['lib1', 'lib2', 'lib3']) {
+      addProjectConfiguration(tree, name, {
+        root: `packages/${name}`,
+        sourceRoot: `packages/${name}/src`,
+        projectType: 'library',
+      });
+      tree.write(`packages/${name}/src/index.ts`, '');
+    }
+    addProjectConfiguration(tree, 'app1', {
+      root: 'packages/app1',
+      sourceRoot: 'packages/app1/src',
+      projectType: 'application',
+    });
+
+    tree.write(
+      'packages/lib1/src/lib/auth/session.ts',
+      'export interface Session { token: string; }\n',
+    );
+    tree.write(
+      'packages/lib1/src/lib/auth/login.ts',
+      "import { Session } from './session';\n\nexport function login(): Session { return { token: 'a' }; }\n",
+    );
+    tree.write(
+      'packages/lib1/src/lib/format.ts',
+      'export const format = (value: string) => value;\n',
+    );
+    tree.write(
+      'packages/lib1/src/index.ts',
+      "export * from './lib/auth/login';\nexport * from './lib/format';\n",
+    );
+    tree.write(
+      'packages/app1/src/main.ts',
+      "import { login, format } from '@test/lib1';\n\nformat(login().token);\n",
+    );
+  });
+
+  afterEach(() => {
+    clearCompilerPathsCache();
+    treeReadCache.clear();
+  });
+
+  it('should move the files of every rule to its project in one run', async () => {
+    writeJson(tree, 'moves.json', {
+      moves: [
+        {
+          from: 'packages/lib1/src/lib/auth/*.ts',
+          project: 'lib2',
+          projectDirectory: 'auth',
+        },
+        { from: 'packages/lib1/src/lib/format.ts', project: 'lib3' },
+      ],
+    });
+
+    await moveManifestGenerator(tree, { manifest: 'moves.json' });
+
+    expect(tree.read('packages/lib2/src/lib/auth/login.ts', 'utf-8')).toContain(
+      "from './session'",
+    );
+    expect(tree.exists('packages/lib2/src/lib/auth/session.ts')).toBe(true);
+    expect(tree.exists('packages/lib3/src/lib/format.ts')).toBe(true);
+    expect(tree.read('packages/lib2/src/index.ts', 'utf-8')).toBe(
+      "export * from './lib/auth/login';\n",
+    );
+    expect(tree.read('packages/lib3/src/index.ts', 'utf-8')).toBe(
+      "export * from './lib/format';\n",
+    );
+    const main = tree.read('packages/app1/src/main.ts', 'utf-8');
+    expect(main).toContain("import { login } from '@test/lib2';");
+    expect(main).toContain("import { format } from '@test/lib3';");
+    expect(formatFilesMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should read YAML manifests', async () => {
+    tree.write(
+      'moves.yaml',
+      [
+        'moves:',
+        '  - from: packages/lib1/src/lib/auth/*.ts',
+        '    project: lib2',
+        '  - from: packages/lib1/src/lib/format.ts',
+        '    project: lib3',
+        '    projectDirectory: text',
+        '',
+      ].join('\n'),
+    );
+
+    await moveManifestGenerator(tree, { manifest: 'moves.yaml' });
+
+    expect(tree.exists('packages/lib2/src/lib/login.ts')).toBe(true);
+    expect(tree.exists('packages/lib3/src/lib/text/format.ts')).toBe(true);
+  });
+
+  it('should validate every rule before moving any file', async () => {
+    writeJson(tree, 'moves.json', {
+      moves: [
+        { from: 'packages/lib1/src/lib/auth/*.ts', project: 'lib2' },
+        { from: 'packages/lib1/src/lib/format.ts', project: 'missing' },
+      ],
+    });
+
+    await expect(
+      moveManifestGenerator(tree, { manifest: 'moves.json' }),
+    ).rejects.toThrow('Target project "missing" not found in workspace');
+    expect(tree.exists('packages/lib1/src/lib/auth/login.ts')).toBe(true);
+    expect(tree.exists('packages/lib2/src/lib/login.ts')).toBe(false);
+  });
+
+  it('should throw when a file is matched by more than one rule', async () => {
+    writeJson(tree, 'moves.json', {
+      moves: [
+        { from: 'packages/lib1/src/lib/**/*.ts', project: 'lib2' },
+        { from: 'packages/lib1/src/lib/format.ts', project: 'lib3' },
+      ],
+    });
+
+    await expect(
+      moveManifestGenerator(tree, { manifest: 'moves.json' }),
+    ).rejects.toThrow(
+      'File "packages/lib1/src/lib/format.ts" is matched by both moves[0] and moves[1] in "moves.json"',
+    );
+  });
+
+  it('should name the rule whose pattern matches no files', async () => {
+    writeJson(tree, 'moves.json', {
+      moves: [{ from: 'packages/lib1/src/lib/*.tsx', project: 'lib2' }],
+    });
+
+    await expect(
+      moveManifestGenerator(tree, { manifest: 'moves.json' }),
+    ).rejects.toThrow(
+      'moves[0] in "moves.json": No files found matching glob pattern: "packages/lib1/src/lib/*.tsx"',
+    );
+  });
+});
@@ -0,0 +1,91 @@
+import { Tree } from '@nx/devkit';
+import { MoveManifestGeneratorSchema } from './schema';
+import { moveFilesWithHistory } from '../move-file/generator';
+import { MoveFileGeneratorSchema } from '../move-file/schema';
+import { expandFilePatterns } from '../move-file/path-utils/expand-file-patterns';
+import { isValidPathInput } from '../move-file/security-utils/is-valid-path-input';
+import { sanitizePath } from '../move-file/security-utils/sanitize-path';
+import { readMoveManifest } from '../move-file/validation/read-move-manifest';
+
+/**
+ * Generator to move files to different Nx projects, as listed in a JSON or
+ * YAML manifest, and update import paths throughout the workspace.
+ *
+ * Every rule of the manifest is expanded and validated before any file moves.
+ * All files then move in a single batch, so they share the move caches, keep
+ * relative imports between them, and are formatted once.
+ *
+ * @param tree - The virtual file system tree
+ * @param options - Generator options including the manifest path
+ * @returns A promise that resolves when the generator completes
+ */
+export async function moveManifestGenerator(
+  tree: Tree,
+  options: MoveManifestGeneratorSchema,
+) {
+  const manifestPath = sanitizePath(options.manifest);
+  if (
+    !isValidPathInput(manifestPath, {
+      allowUnicode: !!options.allowUnicode,
+    })
+  ) {
+    throw new Error(
+      `Invalid path input for 'manifest': contains disallowed characters: "${manifestPath}"`,
+    );
+  }
+
+  const manifest = readMoveManifest(tree, manifestPath);
+
+  const ruleIndexes = new Map<string, number>();
+  const fileOptionsList: MoveFileGeneratorSchema[] = [];
+  for (const [index, rule] of manifest.moves.entries()) {
+    let filePaths: string[];
+    try {
+      filePaths = await expandFilePatterns(tree, rule.from);
+    } catch (error) {
+      throw new Error(
+        `moves[${index}] in "${manifestPath}": ${(error as Error).message}`,
+      );
+    }
+
+    for (const filePath of filePaths) {
+      const normalizedPath = sanitizePath(filePath);
+      const otherIndex = ruleIndexes.get(normalizedPath);
+      if (otherIndex !== undefined) {
+        throw new Error(
+          `File "${normalizedPath}" is matched by both moves[${otherIndex}] and moves[${index}] in "${manifestPath}"`,
+        );
+      }
+      ruleIndexes.set(normalizedPath, index);
+
+      fileOptionsList.push({
+        file: filePath,
+        project: rule.project,
+        projectDirectory: rule.projectDirectory,
+        deriveProjectDirectory: options.deriveProjectDirectory,
+        skipExport: options.skipExport,
+        onConflict: options.onConflict,
+        allowUnicode: options.allowUnicode,
+        allowBoundaryViolations: options.allowBoundaryViolations,
+      });
+    }
+  }
+
+  await moveFilesWithHistory(
+    tree,
+    {
+      removeEmptyProject: options.removeEmptyProject,
+      createProjectIfMissing: options.createProjectIfMissing,
+      allowCircularDependencies: options.allowCircularDependencies,
+      recordHistory: options.recordHistory,
+      plan: options.plan,
+      planFormat: options.planFormat,
+      planOutput: options.planOutput,
+      skipFormat: options.skipFormat,
+      allowUnicode: options.allowUnicode,
+    },
+    fileOptionsList,
+  );
+}
+
+export default moveManifestGenerator;
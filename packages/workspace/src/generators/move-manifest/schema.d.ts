@@ -0,0 +1,16 @@
+export interface MoveManifestGeneratorSchema {
+  manifest: string;
+  deriveProjectDirectory?: boolean;
+  onConflict?: 'fail' | 'overwrite' | 'rename' | 'merge-exports';
+  skipExport?: boolean;
+  removeEmptyProject?: boolean;
+  createProjectIfMissing?: boolean;
+  allowBoundaryViolations?: boolean;
+  allowCircularDependencies?: boolean;
+  recordHistory?: boolean;
+  plan?: boolean;
+  planFormat?: 'json' | 'markdown';
+  planOutput?: string;
+  skipFormat?: boolean;
+  allowUnicode?: boolean;
+}
@@ -0,0 +1,508 @@
+import { createTreeWithEmptyWorkspace } from '@nx/devkit/testing';
+import {
+  Tree,
+  addProjectConfiguration,
+  updateJson,
+  formatFiles,
+  logger,
+} from '@nx/devkit';
+
+import { moveSymbolGenerator } from './generator';
+import { clearCompilerPathsCache } from '../move-file/project-analysis/read-compiler-paths';
+import { treeReadCache } from '../move-file/tree-cache';
+import { clearIndexExportsCache } from '../move-file/export-management/index-exports-cache';
+import { astCache } from '../move-file/ast-cache';
+
+jest.mock('@nx/devkit', () => {
+  const actual = jest.requireActual('@nx/devkit');
+  return {
+    ...actual,
+    formatFiles: jest.fn(),
+  };
+});
+
+const formatFilesMock = jest.mocked(formatFiles);
+
+describe('move-symbol generator', () => {
+  let tree: Tree;
+  let loggerWarnSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    clearCompilerPathsCache();
+    treeReadCache.clear();
+    clearIndexExportsCache();
+    astCache.clear();
+    formatFilesMock.mockResolvedValue(undefined);
+    loggerWarnSpy = jest.spyOn(logger, 'warn').mockImplementation();
+
+    tree = createTreeWithEmptyWorkspace();
+
+    updateJson(tree, 'tsconfig.base.json', (json) => {
+      json.compilerOptions = json.compilerOptions || {};
+      json.compilerOptions.paths = {
+        '@test/lib1': ['packages/lib1/src/index.ts'],
+        '@test/lib2': ['packages/lib2/src/index.ts'],
+      };
+      return json;
+    });
+
+    addProjectConfiguration(tree, 'lib1', {
+      root: 'packages/lib1',
+      sourceRoot: 'packages/lib1/src',
+      projectType: 'library',
+    });
+    addProjectConfiguration(tree, 'lib2', {
+      root: 'packages/lib2',
+      sourceRoot: 'packages/lib2/src',
+      projectType: 'library',
+    });
+    addProjectConfiguration(tree, 'app1', {
+      root: 'packages/app1',
+      sourceRoot: 'packages/app1/src',
+      projectType: 'application',
+    });
+
+    tree.write('packages/lib1/src/index.ts', "export * from './lib/utils';\n");
+    tree.write('packages/lib2/src/index.ts', '');
+    tree.write(
+      'packages/lib1/src/lib/utils.ts',
+      [
+        "import { join } from 'node:path';",
+        "import { format } from './format';",
+        '',
+        '/** Joins path segments. */',
+        'export function joinPath(...parts: string[]): string {',
+        '  return format(join(...parts));',
+        '}',
+        '',
+        'export const separator = "/";',
+        '',
+      ].join('\n'),
+    );
+    tree.write(
+      'packages/lib1/src/lib/format.ts',
+      'export const format = (value: string) => value.trim();\n',
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    clearCompilerPathsCache();
+    treeReadCache.clear();
+  });
+
+  describe('within the same project', () => {
+    it('should move the declaration and its imports to a new file', async () => {
+      await moveSymbolGenerator(tree, {
+        file: 'packages/lib1/src/lib/utils.ts',
+        symbol: 'joinPath',
+        targetFile: 'packages/lib1/src/lib/path/join-path.ts',
+      });
+
+      const target = tree.read(
+        'packages/lib1/src/lib/path/join-path.ts',
+        'utf-8',
+      );
+      expect(target).toContain("import { join } from 'node:path';");
+      expect(target).toContain("import { format } from '../format';");
+      expect(target).toContain('/** Joins path segments. */');
+      expect(target).toContain(
+        'export function joinPath(...parts: string[]): string {',
+      );
+
+      const source = tree.read('packages/lib1/src/lib/utils.ts', 'utf-8');
+      expect(source).not.toContain('joinPath');
+      expect(source).not.toContain('node:path');
+      expect(source).not.toContain('./format');
+      expect(source).toContain('export const separator');
+      expect(formatFilesMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('should rewrite relative importers and split mixed imports', async () => {
+      tree.write(
+        'packages/lib1/src/lib/consumer.ts',
+        "import { joinPath, separator } from './utils';\n\nexport const path = joinPath('a', separator);\n",
+      );
+
+      await moveSymbolGenerator(tree, {
+        file: 'packages/lib1/src/lib/utils.ts',
+        symbol: 'joinPath',
+        targetFile: 'packages/lib1/src/lib/path/join-path.ts',
+      });
+
+      const consumer = tree.read('packages/lib1/src/lib/consumer.ts', 'utf-8');
+      expect(consumer).toContain("import { separator } from './utils';");
+      expect(consumer).toContain(
+        "import { joinPath } from './path/join-path';",
+      );
+    });
+
+    it('should keep importers resolved against the baseUrl non-relative', async () => {
+      tree.write(
+        'packages/lib1/tsconfig.json',
+        JSON.stringify({ compilerOptions: { baseUrl: './src' } }),
+      );
+      tree.write(
+        'packages/lib1/src/lib/consumer.ts',
+        "import { joinPath, separator } from 'lib/utils';\n\nexport const path = joinPath('a', separator);\n",
+      );
+
+      await moveSymbolGenerator(tree, {
+        file: 'packages/lib1/src/lib/utils.ts',
+        symbol: 'joinPath',
+        targetFile: 'packages/lib1/src/lib/path/join-path.ts',
+      });
+
+      const consumer = tree.read('packages/lib1/src/lib/consumer.ts', 'utf-8');
+      expect(consumer).toContain("import { separator } from 'lib/utils';");
+      expect(consumer).toContain(
+        "import { joinPath } from 'lib/path/join-path';",
+      );
+    });
+
+    it('should keep subpath importers non-relative', async () => {
+      tree.write(
+        'packages/lib1/package.json',
+        JSON.stringify({
+          name: '@test/lib1',
+          imports: { '#lib/*': './src/lib/*.ts' },
+        }),
+      );
+      tree.write(
+        'packages/lib1/src/lib/consumer.ts',
+        "import { joinPath, separator } from '#lib/utils';\n\nexport const path = joinPath('a', separator);\n",
+      );
+
+      await moveSymbolGenerator(tree, {
+        file: 'packages/lib1/src/lib/utils.ts',
+        symbol: 'joinPath',
+        targetFile: 'packages/lib1/src/lib/path/join-path.ts',
+      });
+
+      const consumer = tree.read('packages/lib1/src/lib/consumer.ts', 'utf-8');
+      expect(consumer).toContain("import { separator } from '#lib/utils';");
+      expect(consumer).toContain(
+        "import { joinPath } from '#lib/path/join-path';",
+      );
+    });
+
+    it('should keep importers through a Jest alias on the alias', async () => {
+      tree.write(
+        'packages/lib1/jest.config.ts',
+        "export default {\n  moduleNameMapper: { '^@lib1/(.*)$': '<rootDir>/src/lib/$1' },\n};\n",
+      );
+      tree.write(
+        'packages/lib1/src/lib/consumer.ts',
+        "import { joinPath, separator } from '@lib1/utils';\n\nexport const path = joinPath('a', separator);\n",
+      );
+
+      await moveSymbolGenerator(tree, {
+        file: 'packages/lib1/src/lib/utils.ts',
+        symbol: 'joinPath',
+        targetFile: 'packages/lib1/src/lib/path/join-path.ts',
+      });
+
+      const consumer = tree.read('packages/lib1/src/lib/consumer.ts', 'utf-8');
+      expect(consumer).toContain("import { separator } from '@lib1/utils';");
+      expect(consumer).toContain(
+        "import { joinPath } from '@lib1/path/join-path';",
+      );
+    });
+
+    it('should keep the symbol exported from the project entrypoint', async () => {
+      await moveSymbolGenerator(tree, {
+        file: 'packages/lib1/src/lib/utils.ts',
+        symbol: 'joinPath',
+        targetFile: 'packages/lib1/src/lib/path/join-path.ts',
+      });
+
+      expect(tree.read('packages/lib1/src/index.ts', 'utf-8')).toBe(
+        "export * from './lib/utils';\nexport * from './lib/path/join-path';\n",
+      );
+    });
+
+    it('should import the symbol in the source file when it is still used', async () => {
+      tree.write(
+        'packages/lib1/src/lib/utils.ts',
+        "export const separator = '/';\n\nexport function joinPath(a: string, b: string) {\n  return a + separator + b;\n}\n\nexport const root = joinPath('', '');\n",
+      );
+
+      await moveSymbolGenerator(tree, {
+        file: 'packages/lib1/src/lib/utils.ts',
+        symbol: 'joinPath',
+        targetFile: 'packages/lib1/src/lib/join-path.ts',
+      });
+
+      const source = tree.read('packages/lib1/src/lib/utils.ts', 'utf-8');
+      expect(source).toContain("import { joinPath } from './join-path';");
+      expect(source).toContain("export const root = joinPath('', '');");
+
+      const target = tree.read('packages/lib1/src/lib/join-path.ts', 'utf-8');
+      expect(target).toContain("import { separator } from './utils';");
+    });
+
+    it('should append to an existing target file and merge imports', async () => {
+      tree.write(
+        'packages/lib1/src/lib/path.ts',
+        "import { dirname } from 'node:path';\n\nexport const parent = (p: string) => dirname(p);\n",
+      );
+
+      await moveSymbolGenerator(tree, {
+        file: 'packages/lib1/src/lib/utils.ts',
+        symbol: 'joinPath',
+        targetFile: 'packages/lib1/src/lib/path.ts',
+      });
+
+      const target = tree.read('packages/lib1/src/lib/path.ts', 'utf-8');
+      expect(target).toContain("import { dirname, join } from 'node:path';");
+      expect(target).toContain('export const parent');
+      expect(target).toContain('export function joinPath');
+    });
+
+    it('should move one variable out of a multi-variable declaration', async () => {
+      tree.write(
+        'packages/lib1/src/lib/constants.ts',
+        'export const a = 1, b = 2;\n',
+      );
+
+      await moveSymbolGenerator(tree, {
+        file: 'packages/lib1/src/lib/constants.ts',
+        symbol: 'b',
+        targetFile: 'packages/lib1/src/lib/b.ts',
+      });
+
+      expect(tree.read('packages/lib1/src/lib/constants.ts', 'utf-8')).toBe(
+        'export const a = 1;\n',
+      );
+      expect(tree.read('packages/lib1/src/lib/b.ts', 'utf-8')).toBe(
+        'export const b = 2;\n',
+      );
+    });
+
+    it('should move a declaration exported through an export list', async () => {
+      tree.write(
+        'packages/lib1/src/lib/shapes.ts',
+        'interface Shape { size: number }\ntype Size = number;\n\nexport { Shape, Size };\n',
+      );
+
+      await moveSymbolGenerator(tree, {
+        file: 'packages/lib1/src/lib/shapes.ts',
+        symbol: 'Shape',
+        targetFile: 'packages/lib1/src/lib/shape.ts',
+      });
+
+      expect(tree.read('packages/lib1/src/lib/shapes.ts', 'utf-8')).toBe(
+        'type Size = number;\n\nexport { Size };\n',
+      );
+      expect(tree.read('packages/lib1/src/lib/shape.ts', 'utf-8')).toBe(
+        'export interface Shape { size: number }\n',
+      );
+    });
+
+    it('should delete the source file when it becomes empty', async () => {
+      tree.write(
+        'packages/lib1/src/lib/single.ts',
+        "import { format } from './format';\n\nexport const single = format('x');\n",
+      );
+      tree.write(
+        'packages/lib1/src/index.ts',
+        "export * from './lib/single';\n",
+      );
+
+      await moveSymbolGenerator(tree, {
+        file: 'packages/lib1/src/lib/single.ts',
+        symbol: 'single',
+        targetFile: 'packages/lib1/src/lib/other.ts',
+      });
+
+      expect(tree.exists('packages/lib1/src/lib/single.ts')).toBe(false);
+      expect(tree.read('packages/lib1/src/index.ts', 'utf-8')).toBe(
+        "export * from './lib/other';\n",
+      );
+    });
+  });
+
+  describe('to another project', () => {
+    it('should create the target file in the target project', async () => {
+      await moveSymbolGenerator(tree, {
+        file: 'packages/lib1/src/lib/utils.ts',
+        symbol: 'joinPath',
+        project: 'lib2',
+      });
+
+      const target = tree.read('packages/lib2/src/lib/utils.ts', 'utf-8');
+      expect(target).toContain('export function joinPath');
+      expect(target).toContain("import { format } from '@test/lib1';");
+      expect(loggerWarnSpy).toHaveBeenCalledWith(
+        expect.stringContaining(
+          'depends on "packages/lib1/src/lib/format", which is not exported from project "lib1"',
+        ),
+      );
+      expect(tree.read('packages/lib2/src/index.ts', 'utf-8')).toBe(
+        "export * from './lib/utils';\n",
+      );
+    });
+
+    it('should use the source alias for exported dependencies', async () => {
+      tree.write(
+        'packages/lib1/src/index.ts',
+        "export * from './lib/utils';\nexport * from './lib/format';\n",
+      );
+
+      await moveSymbolGenerator(tree, {
+        file: 'packages/lib1/src/lib/utils.ts',
+        symbol: 'joinPath',
+        project: 'lib2',
+        projectDirectory: 'path',
+      });
+
+      const target = tree.read('packages/lib2/src/lib/path/utils.ts', 'utf-8');
+      expect(target).toContain("import { format } from '@test/lib1';");
+    });
+
+    it('should rewrite alias importers in other projects', async () => {
+      tree.write(
+        'packages/app1/src/app/app.ts',
+        "import { joinPath, separator } from '@test/lib1';\n\nexport const app = joinPath(separator);\n",
+      );
+      tree.write(
+        'packages/lib1/src/lib/consumer.ts',
+        "import { joinPath } from './utils';\n\nexport const path = joinPath();\n",
+      );
+
+      await moveSymbolGenerator(tree, {
+        file: 'packages/lib1/src/lib/utils.ts',
+        symbol: 'joinPath',
+        project: 'lib2',
+      });
+
+      const app = tree.read('packages/app1/src/app/app.ts', 'utf-8');
+      expect(app).toContain("import { separator } from '@test/lib1';");
+      expect(app).toContain("import { joinPath } from '@test/lib2';");
+      expect(tree.read('packages/lib1/src/lib/consumer.ts', 'utf-8')).toContain(
+        "import { joinPath } from '@test/lib2';",
+      );
+    });
+
+    it('should use relative imports for importers in the target project', async () => {
+      tree.write(
+        'packages/lib2/src/lib/user.ts',
+        "import { joinPath } from '@test/lib1';\n\nexport const user = joinPath();\n",
+      );
+
+      await moveSymbolGenerator(tree, {
+        file: 'packages/lib1/src/lib/utils.ts',
+        symbol: 'joinPath',
+        project: 'lib2',
+        projectDirectory: 'path',
+      });
+
+      expect(tree.read('packages/lib2/src/lib/user.ts', 'utf-8')).toContain(
+        "import { joinPath } from './path/utils';",
+      );
+    });
+
+    it('should not export the target file when skipExport is true', async () => {
+      await moveSymbolGenerator(tree, {
+        file: 'packages/lib1/src/lib/utils.ts',
+        symbol: 'joinPath',
+        project: 'lib2',
+        skipExport: true,
+      });
+
+      expect(tree.read('packages/lib2/src/index.ts', 'utf-8')).toBe('');
+    });
+  });
+
+  describe('validation', () => {
+    it('should throw when the symbol is not exported', async () => {
+      await expect(
+        moveSymbolGenerator(tree, {
+          file: 'packages/lib1/src/lib/utils.ts',
+          symbol: 'missing',
+          project: 'lib2',
+        }),
+      ).rejects.toThrow(
+        'Symbol "missing" is not exported from "packages/lib1/src/lib/utils.ts"',
+      );
+    });
+
+    it('should throw when the symbol depends on a non-exported declaration', async () => {
+      tree.write(
+        'packages/lib1/src/lib/utils.ts',
+        "const prefix = 'x';\n\nexport const withPrefix = (v: string) => prefix + v;\n",
+      );
+
+      await expect(
+        moveSymbolGenerator(tree, {
+          file: 'packages/lib1/src/lib/utils.ts',
+          symbol: 'withPrefix',
+          project: 'lib2',
+        }),
+      ).rejects.toThrow(
+        'Cannot move "withPrefix": it depends on "prefix", which is not exported from "packages/lib1/src/lib/utils.ts"',
+      );
+    });
+
+    it('should throw when the target file already declares the symbol', async () => {
+      tree.write(
+        'packages/lib2/src/lib/utils.ts',
+        'export function joinPath() {}\n',
+      );
+
+      await expect(
+        moveSymbolGenerator(tree, {
+          file: 'packages/lib1/src/lib/utils.ts',
+          symbol: 'joinPath',
+          project: 'lib2',
+        }),
+      ).rejects.toThrow(
+        'Target file "packages/lib2/src/lib/utils.ts" already declares "joinPath"',
+      );
+    });
+
+    it('should throw when neither project nor targetFile is set', async () => {
+      await expect(
+        moveSymbolGenerator(tree, {
+          file: 'packages/lib1/src/lib/utils.ts',
+          symbol: 'joinPath',
+        }),
+      ).rejects.toThrow('Either "project" or "targetFile" must be provided');
+    });
+
+    it('should throw for an invalid symbol name', async () => {
+      await expect(
+        moveSymbolGenerator(tree, {
+          file: 'packages/lib1/src/lib/utils.ts',
+          symbol: 'join-path',
+          project: 'lib2',
+        }),
+      ).rejects.toThrow('Invalid symbol name: "join-path"');
+    });
+
+    it('should throw when the target file is the source file', async () => {
+      await expect(
+        moveSymbolGenerator(tree, {
+          file: 'packages/lib1/src/lib/utils.ts',
+          symbol: 'joinPath',
+          targetFile: 'packages/lib1/src/lib/utils.ts',
+        }),
+      ).rejects.toThrow(
+        'Target file "packages/lib1/src/lib/utils.ts" must be different from the source file',
+      );
+    });
+
+    it('should throw when targetFile is not in the given project', async () => {
+      await expect(
+        moveSymbolGenerator(tree, {
+          file: 'packages/lib1/src/lib/utils.ts',
+          symbol: 'joinPath',
+          project: 'lib2',
+          targetFile: 'packages/lib1/src/lib/join.ts',
+        }),
+      ).rejects.toThrow(
+        'Target file "packages/lib1/src/lib/join.ts" is not in project "lib2"',
+      );
+    });
+  });
+});
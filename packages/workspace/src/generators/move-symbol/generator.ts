@@ -0,0 +1,195 @@
+import {
+  formatFiles,
+  getProjects,
+  logger,
+  normalizePath,
+  ProjectConfiguration,
+  Tree,
+} from '@nx/devkit';
+import { posix as path } from 'node:path';
+import { MoveSymbolGeneratorSchema } from './schema';
+import { clearCache } from '../move-file/jscodeshift-utils';
+import { j } from '../move-file/ast-cache';
+import { treeReadCache } from '../move-file/tree-cache';
+import { clearIndexExportsCache } from '../move-file/export-management/index-exports-cache';
+import {
+  cachedTreeExists,
+  clearFileCaches,
+  getProjectSourceFiles,
+  updateFileExistenceCache,
+} from '../move-file/cache/file-caches';
+import { clearCompilerPathsCache } from '../move-file/project-analysis/read-compiler-paths';
+import { clearProjectAliasesCache } from '../move-file/project-analysis/read-project-aliases';
+import { clearProjectCompilerOptionsCache } from '../move-file/project-analysis/read-project-compiler-options';
+import { findProjectForFile } from '../move-file/project-analysis/find-project-for-file';
+import { getProjectImportPath } from '../move-file/project-analysis/get-project-import-path';
+import { getRelativeImportSpecifier } from '../move-file/path-utils/get-relative-import-specifier';
+import { removeSourceFileExtension } from '../move-file/path-utils/remove-source-file-extension';
+import { isFileExported } from '../move-file/export-management/is-file-exported';
+import { ensureFileExported } from '../move-file/export-management/ensure-file-exported';
+import { removeFileExport } from '../move-file/export-management/remove-file-export';
+import { resolveSymbolMove } from '../move-file/validation/resolve-symbol-move';
+import { extractSymbol } from '../move-file/symbol-operations/extract-symbol';
+import { insertSymbol } from '../move-file/symbol-operations/insert-symbol';
+import { updateSymbolImporters } from '../move-file/import-updates/update-symbol-importers';
+import type {
+  SymbolImport,
+  SymbolMoveContext,
+} from '../move-file/types/symbol-move';
+
+/**
+ * Gets the specifier the target file uses to import another file: a relative
+ * path within the target project and the other project's alias otherwise.
+ * Like move-file, a warning is logged when the file is not exported from the
+ * other project.
+ *
+ * @param tree - The virtual file system tree
+ * @param ctx - Resolved symbol move context
+ * @param projects - Map of all projects in the workspace
+ * @param filePath - Path of the imported file, with or without extension
+ */
+function getTargetImportSpecifier(
+  tree: Tree,
+  ctx: SymbolMoveContext,
+  projects: Map<string, ProjectConfiguration>,
+  filePath: string,
+): string {
+  const projectInfo = findProjectForFile(projects, filePath);
+  if (!projectInfo || projectInfo.name === ctx.targetProjectName) {
+    return getRelativeImportSpecifier(ctx.normalizedTarget, filePath);
+  }
+
+  const { project, name } = projectInfo;
+  const importPath = getProjectImportPath(tree, name, project);
+  if (!importPath) {
+    return getRelativeImportSpecifier(ctx.normalizedTarget, filePath);
+  }
+
+  const sourceRoot = project.sourceRoot || project.root;
+  if (
+    !isFileExported(
+      tree,
+      project,
+      path.relative(sourceRoot, filePath),
+      cachedTreeExists,
+    )
+  ) {
+    logger.warn(
+      `"${ctx.symbol}" depends on "${filePath}", which is not exported from project "${name}". ` +
+        `Consider exporting it from the project's entry point.`,
+    );
+  }
+
+  return importPath;
+}
+
+/**
+ * Generator to move a single exported declaration (function, class,
+ * variable, interface, type alias, or enum) to another file or project and
+ * update import paths throughout the workspace.
+ *
+ * @param tree - The virtual file system tree
+ * @param options - Generator options including source file, symbol name, and target
+ * @returns A promise that resolves when the generator completes
+ */
+export async function moveSymbolGenerator(
+  tree: Tree,
+  options: MoveSymbolGeneratorSchema,
+) {
+  clearFileCaches();
+  clearCompilerPathsCache();
+  clearProjectCompilerOptionsCache();
+  clearProjectAliasesCache();
+  clearCache();
+  clearIndexExportsCache();
+  treeReadCache.clear();
+
+  const projects = getProjects(tree);
+  const ctx = resolveSymbolMove(
+    tree,
+    options,
+    projects,
+    cachedTreeExists,
+    getProjectSourceFiles,
+  );
+  const { symbol, normalizedSource, normalizedTarget, targetImportPath } = ctx;
+
+  // Cross-project imports of the symbol go through the target project's alias
+  const usesTargetAlias = !ctx.isSameProject && !!targetImportPath;
+  const shouldExportTarget =
+    !options.skipExport && (ctx.isExported || usesTargetAlias);
+
+  const extracted = extractSymbol(
+    tree,
+    normalizedSource,
+    symbol,
+    usesTargetAlias
+      ? (targetImportPath as string)
+      : getRelativeImportSpecifier(normalizedSource, normalizedTarget),
+  );
+
+  // Imports of the declaration, as seen from the target file
+  const targetWithoutExt = removeSourceFileExtension(normalizedTarget);
+  const imports: SymbolImport[] = [];
+  for (const symbolImport of extracted.imports) {
+    if (!symbolImport.source.startsWith('.')) {
+      imports.push(symbolImport);
+      continue;
+    }
+
+    const resolvedImport = normalizePath(
+      path.join(path.dirname(normalizedSource), symbolImport.source),
+    );
+    // Declarations of the target file itself need no import
+    if (removeSourceFileExtension(resolvedImport) === targetWithoutExt) {
+      continue;
+    }
+
+    imports.push({
+      ...symbolImport,
+      source: getTargetImportSpecifier(tree, ctx, projects, resolvedImport),
+    });
+  }
+
+  // Exported declarations that stay in the source file
+  if (extracted.localDependencies.length > 0) {
+    imports.push({
+      source: getTargetImportSpecifier(tree, ctx, projects, normalizedSource),
+      specifiers: extracted.localDependencies.map((name) =>
+        j.importSpecifier(j.identifier(name)),
+      ),
+    });
+  }
+
+  insertSymbol(tree, normalizedTarget, symbol, extracted.code, imports);
+  updateFileExistenceCache(normalizedTarget, true);
+
+  updateSymbolImporters(tree, ctx, projects, getProjectSourceFiles);
+
+  if (shouldExportTarget) {
+    const targetRoot = ctx.targetProject.sourceRoot || ctx.targetProject.root;
+    ensureFileExported(
+      tree,
+      ctx.targetProject,
+      path.relative(targetRoot, normalizedTarget),
+      cachedTreeExists,
+    );
+  }
+
+  if (extracted.isSourceEmpty) {
+    const sourceRoot = ctx.sourceProject.sourceRoot || ctx.sourceProject.root;
+    removeFileExport(
+      tree,
+      ctx.sourceProject,
+      path.relative(sourceRoot, normalizedSource),
+      cachedTreeExists,
+    );
+    tree.delete(normalizedSource);
+  }
+
+  if (!options.skipFormat) {
+    await formatFiles(tree);
+  }
+}
+
+export default moveSymbolGenerator;
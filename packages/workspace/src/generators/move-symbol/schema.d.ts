@@ -0,0 +1,10 @@
+export interface MoveSymbolGeneratorSchema {
+  file: string;
+  symbol: string;
+  project?: string;
+  targetFile?: string;
+  projectDirectory?: string;
+  skipExport?: boolean;
+  skipFormat?: boolean;
+  allowUnicode?: boolean;
+}
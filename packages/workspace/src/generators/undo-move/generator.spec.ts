@@ -0,0 +1,194 @@
+import { createTreeWithEmptyWorkspace } from '@nx/devkit/testing';
+import {
+  Tree,
+  addProjectConfiguration,
+  updateJson,
+  createProjectGraphAsync,
+  formatFiles,
+  logger,
+} from '@nx/devkit';
+
+import { undoMoveGenerator } from './generator';
+import { moveFileGenerator } from '../move-file/generator';
+import { clearCompilerPathsCache } from '../move-file/project-analysis/read-compiler-paths';
+import { clearDepConstraintsCache } from '../move-file/project-analysis/read-dep-constraints';
+import { treeReadCache } from '../move-file/tree-cache';
+import { clearIndexExportsCache } from '../move-file/export-management/index-exports-cache';
+import { astCache } from '../move-file/ast-cache';
+
+jest.mock('@nx/devkit', () => {
+  const actual = jest.requireActual('@nx/devkit');
+  return {
+    ...actual,
+    formatFiles: jest.fn(),
+    createProjectGraphAsync: jest.fn(),
+  };
+});
+
+const createProjectGraphAsyncMock = jest.mocked(createProjectGraphAsync);
+const formatFilesMock = jest.mocked(formatFiles);
+
+describe('undo-move generator', () => {
+  let tree: Tree;
+
+  const helperContent = 'export const helper = () => "helper";';
+  const mainContent = "import { helper } from '@test/lib1';\nhelper();";
+
+  const clearCaches = () => {
+    clearCompilerPathsCache();
+    clearDepConstraintsCache();
+    treeReadCache.clear();
+    clearIndexExportsCache();
+    astCache.clear();
+  };
+
+  const moveHelper = async (from: string, project: string) => {
+    await moveFileGenerator(tree, { file: from, project, recordHistory: true });
+    clearCaches();
+  };
+
+  beforeEach(() => {
+    clearCaches();
+    createProjectGraphAsyncMock.mockResolvedValue({
+      nodes: {},
+      dependencies: {},
+    });
+    formatFilesMock.mockResolvedValue(undefined);
+    jest.spyOn(logger, 'info').mockImplementation();
+
+    tree = createTreeWithEmptyWorkspace();
+
+    updateJson(tree, 'tsconfig.base.json', (json) => {
+      json.compilerOptions = json.compilerOptions || {};
+      json.compilerOptions.paths = {
+        '@test/lib1': ['packages/lib1/src/index.ts'],
+        '@test/lib2': ['packages/lib2/src/index.ts'],
+      };
+      return json;
+    });
+
+    addProjectConfiguration(tree, 'lib1', {
+      root: 'packages/lib1',
+      sourceRoot: 'packages/lib1/src',
+      projectType: 'library',
+    });
+    addProjectConfiguration(tree, 'lib2', {
+      root: 'packages/lib2',
+      sourceRoot: 'packages/lib2/src',
+      projectType: 'library',
+    });
+    addProjectConfiguration(tree, 'app1', {
+      root: 'packages/app1',
+      sourceRoot: 'packages/app1/src',
+      projectType: 'application',
+    });
+
+    tree.write('packages/lib1/src/lib/helper.ts', helperContent);
+    tree.write('packages/lib1/src/index.ts', "export * from './lib/helper';");
+    tree.write('packages/lib2/src/index.ts', '');
+    tree.write('packages/app1/src/main.ts', mainContent);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    clearCaches();
+  });
+
+  it('should restore every file changed by the last move', async () => {
+    await moveHelper('packages/lib1/src/lib/helper.ts', 'lib2');
+
+    await undoMoveGenerator(tree, {});
+
+    expect(tree.read('packages/lib1/src/lib/helper.ts', 'utf-8')).toBe(
+      helperContent,
+    );
+    expect(tree.exists('packages/lib2/src/lib/helper.ts')).toBe(false);
+    expect(tree.read('packages/lib1/src/index.ts', 'utf-8')).toBe(
+      "export * from './lib/helper';",
+    );
+    expect(tree.read('packages/lib2/src/index.ts', 'utf-8')).toBe('');
+    expect(tree.read('packages/app1/src/main.ts', 'utf-8')).toBe(mainContent);
+    expect(tree.exists('.nxworker/move-history.json')).toBe(false);
+  });
+
+  it('should restore binary files byte for byte', async () => {
+    const image = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0xff, 0x00, 0xfe]);
+    tree.write('packages/lib1/src/lib/helper.png', image);
+
+    await moveFileGenerator(tree, {
+      file: 'packages/lib1/src/lib/helper.ts',
+      project: 'lib2',
+      withCompanions: true,
+      companionPatterns: ['{name}.png'],
+      recordHistory: true,
+    });
+    clearCaches();
+    expect(tree.exists('packages/lib2/src/lib/helper.png')).toBe(true);
+
+    await undoMoveGenerator(tree, {});
+
+    expect(tree.read('packages/lib1/src/lib/helper.png')).toEqual(image);
+    expect(tree.exists('packages/lib2/src/lib/helper.png')).toBe(false);
+  });
+
+  it('should undo moves one at a time in reverse order', async () => {
+    tree.write('packages/lib1/src/lib/other.ts', 'export const other = 1;');
+    await moveHelper('packages/lib1/src/lib/helper.ts', 'lib2');
+    await moveHelper('packages/lib1/src/lib/other.ts', 'lib2');
+
+    await undoMoveGenerator(tree, {});
+
+    expect(tree.exists('packages/lib1/src/lib/other.ts')).toBe(true);
+    expect(tree.exists('packages/lib2/src/lib/helper.ts')).toBe(true);
+
+    await undoMoveGenerator(tree, {});
+
+    expect(tree.read('packages/lib1/src/lib/helper.ts', 'utf-8')).toBe(
+      helperContent,
+    );
+    expect(tree.read('packages/app1/src/main.ts', 'utf-8')).toBe(mainContent);
+  });
+
+  it('should undo a specific move by id', async () => {
+    tree.write('packages/lib1/src/lib/other.ts', 'export const other = 1;');
+    await moveHelper('packages/lib1/src/lib/helper.ts', 'lib2');
+    await moveHelper('packages/lib1/src/lib/other.ts', 'lib2');
+
+    await undoMoveGenerator(tree, { id: 1 });
+
+    expect(tree.read('packages/lib1/src/lib/helper.ts', 'utf-8')).toBe(
+      helperContent,
+    );
+    expect(tree.exists('packages/lib2/src/lib/other.ts')).toBe(true);
+  });
+
+  it('should refuse to undo when a changed file was modified since', async () => {
+    await moveHelper('packages/lib1/src/lib/helper.ts', 'lib2');
+    tree.write('packages/lib2/src/lib/helper.ts', 'export const helper = 1;');
+    tree.delete('packages/app1/src/main.ts');
+
+    await expect(undoMoveGenerator(tree, {})).rejects.toThrow(
+      [
+        'Cannot undo move #1 because files changed after it:',
+        '  - packages/app1/src/main.ts (deleted)',
+        '  - packages/lib2/src/lib/helper.ts (modified)',
+      ].join('\n'),
+    );
+    expect(tree.exists('packages/lib1/src/lib/helper.ts')).toBe(false);
+    expect(tree.exists('.nxworker/move-history.json')).toBe(true);
+  });
+
+  it('should throw when no moves were recorded', async () => {
+    await expect(undoMoveGenerator(tree, {})).rejects.toThrow(
+      'No recorded moves found in ".nxworker/move-history.json"',
+    );
+  });
+
+  it('should throw for an unknown id', async () => {
+    await moveHelper('packages/lib1/src/lib/helper.ts', 'lib2');
+
+    await expect(undoMoveGenerator(tree, { id: 5 })).rejects.toThrow(
+      'Move #5 not found in ".nxworker/move-history.json"',
+    );
+  });
+});
@@ -0,0 +1,89 @@
+import { Tree, logger } from '@nx/devkit';
+import { UndoMoveGeneratorSchema } from './schema';
+import { moveHistoryPath } from '../move-file/constants/move-history';
+import { readMoveHistory } from '../move-file/history/read-move-history';
+import { writeMoveHistory } from '../move-file/history/write-move-history';
+import { findMoveHistoryConflicts } from '../move-file/history/find-move-history-conflicts';
+import type {
+  MoveHistoryConflict,
+  MoveHistoryEntry,
+} from '../move-file/types/move-history';
+
+/**
+ * Formats the files that changed after a recorded move.
+ *
+ * @param entry - The recorded move
+ * @param conflicts - Files that changed after the move
+ */
+function formatConflicts(
+  entry: MoveHistoryEntry,
+  conflicts: MoveHistoryConflict[],
+): string {
+  return [
+    `Cannot undo move #${entry.id} because files changed after it:`,
+    ...conflicts.map((conflict) => `  - ${conflict.path} (${conflict.reason})`),
+    'Revert these changes first, or undo the later moves that touched them.',
+  ].join('\n');
+}
+
+/**
+ * Generator to revert a move recorded by the move-file generator with
+ * `recordHistory`. Every file changed by the move is restored to its content
+ * before the move, provided that none of them changed since.
+ *
+ * @param tree - The virtual file system tree
+ * @param options - Generator options including the id of the move
+ * @returns A promise that resolves when the generator completes
+ */
+export async function undoMoveGenerator(
+  tree: Tree,
+  options: UndoMoveGeneratorSchema,
+) {
+  const history = readMoveHistory(tree);
+  if (history.entries.length === 0) {
+    throw new Error(
+      `No recorded moves found in "${moveHistoryPath}". Pass --record-history to move-file to record moves.`,
+    );
+  }
+
+  const entry =
+    options.id === undefined
+      ? history.entries[history.entries.length - 1]
+      : history.entries.find((candidate) => candidate.id === options.id);
+  if (!entry) {
+    throw new Error(`Move #${options.id} not found in "${moveHistoryPath}"`);
+  }
+
+  // Restoring files that changed since the move would discard those changes
+  const conflicts = findMoveHistoryConflicts(tree, entry);
+  if (conflicts.length > 0) {
+    throw new Error(formatConflicts(entry, conflicts));
+  }
+
+  for (const file of entry.files) {
+    if (file.before === null) {
+      tree.delete(file.path);
+    } else {
+      tree.write(
+        file.path,
+        file.encoding === 'base64'
+          ? Buffer.from(file.before, 'base64')
+          : file.before,
+      );
+    }
+  }
+
+  writeMoveHistory(tree, {
+    ...history,
+    entries: history.entries.filter((candidate) => candidate !== entry),
+  });
+
+  logger.info(
+    [
+      `Undid move #${entry.id} (${entry.files.length} files restored):`,
+      ...entry.moves.map((move) => `  - ${move.target} → ${move.source}`),
+    ].join('\n'),
+  );
+}
+
+export default undoMoveGenerator;
@@ -0,0 +1,3 @@
+export interface UndoMoveGeneratorSchema {
+  id?: number;
+}
@@ -2,3 +2,29 @@ export { initGenerator } from './generators/init/generator';
 export { InitGeneratorSchema } from './generators/init/schema';
 export { moveFileGenerator } from './generators/move-file/generator';
 export { MoveFileGeneratorSchema } from './generators/move-file/schema';
+export { moveDirectoryGenerator } from './generators/move-directory/generator';
+export { MoveDirectoryGeneratorSchema } from './generators/move-directory/schema';
+export { moveManifestGenerator } from './generators/move-manifest/generator';
+export { MoveManifestGeneratorSchema } from './generators/move-manifest/schema';
+export { moveSymbolGenerator } from './generators/move-symbol/generator';
+export { MoveSymbolGeneratorSchema } from './generators/move-symbol/schema';
+export { extractLibraryGenerator } from './generators/extract-library/generator';
+export { ExtractLibraryGeneratorSchema } from './generators/extract-library/schema';
+export { mergeProjectsGenerator } from './generators/merge-projects/generator';
+export { MergeProjectsGeneratorSchema } from './generators/merge-projects/schema';
+export { undoMoveGenerator } from './generators/undo-move/generator';
+export { UndoMoveGeneratorSchema } from './generators/undo-move/schema';
+export {
+  MovePlan,
+  MovePlanEntry,
+  MoveStrategy,
+} from './generators/move-file/types/move-plan';
+export {
+  MoveManifest,
+  MoveManifestRule,
+} from './generators/move-file/types/move-manifest';
+export {
+  MoveHistory,
+  MoveHistoryEntry,
+  MoveHistoryFileChange,
+} from './generators/move-file/types/move-history';